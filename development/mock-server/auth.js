@@ -0,0 +1,330 @@
+/**
+ * Authentication for the mock server.
+ *
+ * Issues JWT access and refresh tokens shaped like `AuthResponseSchema`,
+ * each pair tied to the device session the sign-in opened. Signing out
+ * revokes the refresh token and ends the session. Also handles passkey
+ * sign-in, password
+ * re-authentication for sensitive actions, account activation codes, and
+ * the one-time tokens of password reset and email change links.
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'node:crypto';
+
+import { HttpError } from './http.js';
+import { signToken, TokenError, verifyToken } from './jwt.js';
+
+/** Lifetime of password reset and email change links */
+export const LINK_TOKEN_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * @typedef {Object} TokenServiceOptions
+ * @property {string} secret - HS256 signing secret
+ * @property {number} accessTokenTtl - Seconds
+ * @property {number} refreshTokenTtl - Seconds
+ * @property {(message: string) => void} log
+ */
+
+export class TokenService {
+    /**
+     * @param {{ db: import('./fixtures.js').Database }} state
+     * @param {import('./sessions.js').SessionService} sessions
+     * @param {TokenServiceOptions} options
+     */
+    constructor(state, sessions, options) {
+        this.state = state;
+        this.sessions = sessions;
+        this.options = options;
+    }
+
+    /**
+     * @param {string} email
+     * @param {string} password
+     * @param {import('./sessions.js').ClientInfo} client
+     */
+    authenticate(email, password, client) {
+        const user = this.state.db.users.find(candidate => candidate.email === email);
+        if (!user || user.password !== password) {
+            throw new HttpError(401, 'Bad credentials');
+        }
+        if (!user.enabled) {
+            throw new HttpError(403, 'Account is not activated');
+        }
+
+        return this.openSession(user, client);
+    }
+
+    /**
+     * Sign in the owner of a passkey. The browser app verifies the WebAuthn
+     * assertion itself, so the mock only checks that the account can sign in.
+     *
+     * @param {string} userId - Owner of the verified passkey
+     * @param {import('./sessions.js').ClientInfo} client
+     */
+    authenticateWithPasskey(userId, client) {
+        const user = this.state.db.users.find(candidate => candidate.id === userId);
+        if (!user) {
+            throw new HttpError(401, 'Unknown passkey');
+        }
+        if (!user.enabled) {
+            throw new HttpError(403, 'Account is not activated');
+        }
+
+        return this.openSession(user, client);
+    }
+
+    /**
+     * @param {import('./fixtures.js').UserRecord} user
+     * @param {import('./sessions.js').ClientInfo} client
+     */
+    openSession(user, client) {
+        const session = this.sessions.open(user.id, client);
+        return {
+            id: randomUUID(),
+            userId: user.id,
+            message: 'authentication successful',
+            accessToken: this.sign(user, 'access', session.id),
+            refreshToken: this.sign(user, 'refresh', session.id)
+        };
+    }
+
+    /**
+     * @param {string} refreshToken
+     */
+    refresh(refreshToken) {
+        const claims = this.verify(refreshToken, 'refresh');
+        const user = this.state.db.users.find(candidate => candidate.id === claims.sub);
+        if (!user) {
+            throw new HttpError(401, 'Unknown user');
+        }
+
+        return {
+            id: randomUUID(),
+            userId: user.id,
+            message: 'token refreshed',
+            accessToken: this.sign(user, 'access', claims.sid)
+        };
+    }
+
+    /**
+     * End the caller's session, and revoke the refresh token if the client sent it along
+     *
+     * @param {import('./jwt.js').TokenClaims} auth - Claims of the access token
+     * @param {string | undefined} refreshToken
+     */
+    signOut(auth, refreshToken) {
+        if (auth.sid) {
+            this.sessions.end(auth.sid);
+        }
+        if (!refreshToken) {
+            return;
+        }
+        try {
+            this.state.db.revokedTokens.add(verifyToken(refreshToken, this.options.secret).jti);
+        } catch {
+            // Signing out with a stale refresh token is not an error
+        }
+    }
+
+    /**
+     * Confirm the signed-in user's password again before a sensitive action
+     *
+     * @param {import('./jwt.js').TokenClaims} auth - Claims of the access token
+     * @param {string} password
+     * @throws {HttpError} 403 when the password is wrong; not 401, which would sign the client out
+     */
+    reauthenticate(auth, password) {
+        const user = this.state.db.users.find(candidate => candidate.id === auth.sub);
+        if (!user || user.password !== password) {
+            throw new HttpError(403, 'Incorrect password');
+        }
+        return { verifiedAt: new Date().toISOString() };
+    }
+
+    /**
+     * Verify a token of the given type.
+     *
+     * @param {string} token
+     * @param {'access' | 'refresh'} type
+     * @returns {import('./jwt.js').TokenClaims}
+     * @throws {HttpError} 401 when the token is invalid, expired or revoked, or its session was revoked
+     */
+    verify(token, type = 'access') {
+        try {
+            const claims = verifyToken(token, this.options.secret);
+            if (claims.typ !== type) {
+                throw new TokenError(`Expected an ${type} token`);
+            }
+            if (this.state.db.revokedTokens.has(claims.jti)) {
+                throw new TokenError('Token has been revoked');
+            }
+            if (claims.sid) {
+                if (!this.sessions.isActive(claims.sid)) {
+                    throw new TokenError('Session has been revoked');
+                }
+                this.sessions.touch(claims.sid);
+            }
+            return claims;
+        } catch (error) {
+            if (error instanceof TokenError) {
+                throw new HttpError(401, error.message);
+            }
+            throw new HttpError(401, 'Malformed token');
+        }
+    }
+
+    /**
+     * Codes are derived from the email so tests can predict them
+     *
+     * @param {string} email
+     * @returns {string}
+     */
+    issueActivationCode(email) {
+        const digest = createHmac('sha256', this.options.secret).update(email).digest();
+        const code = String(digest.readUInt32BE(0) % 1000000).padStart(6, '0');
+        this.state.db.activationCodes.set(email, code);
+        this.options.log(`Activation code for ${email}: ${code}`);
+        return code;
+    }
+
+    /**
+     * @param {string} code
+     */
+    activate(code) {
+        const entry = [...this.state.db.activationCodes.entries()].find(([, candidate]) => candidate === code);
+        if (!entry) {
+            throw new HttpError(400, 'Invalid activation code');
+        }
+
+        const [email] = entry;
+        this.state.db.activationCodes.delete(email);
+        const user = this.state.db.users.find(candidate => candidate.email === email);
+        if (user) {
+            user.enabled = true;
+        }
+    }
+
+    /**
+     * Issue a password reset token for an active account. Unknown and inactive
+     * emails are ignored so the endpoint does not reveal which accounts exist.
+     *
+     * @param {string} email
+     * @returns {string | null} The token, or null when no link was sent
+     */
+    issuePasswordResetToken(email) {
+        const user = this.state.db.users.find(candidate => candidate.email === email && candidate.enabled);
+        if (!user) {
+            this.options.log(`Password reset requested for unknown account ${email}`);
+            return null;
+        }
+        return this.issueLinkToken(this.state.db.passwordResetTokens, user.id, email, 'Password reset');
+    }
+
+    /**
+     * Set a new password with a reset token. The token is spent, and every
+     * session of the account is revoked.
+     *
+     * @param {string} token
+     * @param {string} password
+     * @returns {import('./sessions.js').SessionRecord[]} The revoked sessions
+     * @throws {HttpError} 400 when the token is unknown, used or expired
+     */
+    resetPassword(token, password) {
+        if (!password) {
+            throw new HttpError(400, 'password is required');
+        }
+        const user = this.redeemLinkToken(this.state.db.passwordResetTokens, token);
+        user.password = password;
+        user.updateDate = this.state.db.now();
+        return this.sessions.revokeOthers(user.id, undefined);
+    }
+
+    /**
+     * Issue a token confirming that the signed-in user owns a new email address
+     *
+     * @param {import('./jwt.js').TokenClaims} auth - Claims of the access token
+     * @param {string} email - New address
+     * @returns {string}
+     * @throws {HttpError} 409 when another account uses the address
+     */
+    issueEmailChangeToken(auth, email) {
+        if (!email) {
+            throw new HttpError(400, 'email is required');
+        }
+        if (this.state.db.users.some(user => user.email === email)) {
+            throw new HttpError(409, 'Email is already in use');
+        }
+        return this.issueLinkToken(this.state.db.emailChangeTokens, auth.sub, email, 'Email change');
+    }
+
+    /**
+     * @param {string} token
+     * @throws {HttpError} 400 when the token is unknown, used or expired; 409 when the address was taken meanwhile
+     */
+    confirmEmailChange(token) {
+        const { email } = this.state.db.emailChangeTokens.get(token) ?? {};
+        const user = this.redeemLinkToken(this.state.db.emailChangeTokens, token);
+        if (this.state.db.users.some(candidate => candidate.email === email && candidate !== user)) {
+            throw new HttpError(409, 'Email is already in use');
+        }
+        user.email = email;
+        user.updateDate = this.state.db.now();
+    }
+
+    /**
+     * Store a fresh link token, replacing earlier ones of the user
+     *
+     * @param {Map<string, import('./fixtures.js').PendingTokenRecord>} tokens
+     * @param {string} userId
+     * @param {string} email
+     * @param {string} purpose - For the log line
+     * @returns {string}
+     */
+    issueLinkToken(tokens, userId, email, purpose) {
+        [...tokens].forEach(([token, record]) => {
+            if (record.userId === userId) tokens.delete(token);
+        });
+        const token = randomBytes(24).toString('base64url');
+        tokens.set(token, { userId, email, expiresAt: Date.now() + LINK_TOKEN_TTL_MS });
+        this.options.log(`${purpose} token for ${email}: ${token}`);
+        return token;
+    }
+
+    /**
+     * Spend a link token
+     *
+     * @param {Map<string, import('./fixtures.js').PendingTokenRecord>} tokens
+     * @param {string} token
+     * @returns {import('./fixtures.js').UserRecord}
+     */
+    redeemLinkToken(tokens, token) {
+        const record = tokens.get(token);
+        tokens.delete(token);
+        const user = record && record.expiresAt > Date.now()
+            ? this.state.db.users.find(candidate => candidate.id === record.userId)
+            : undefined;
+        if (!user) {
+            throw new HttpError(400, 'Invalid or expired token');
+        }
+        return user;
+    }
+
+    /**
+     * @param {import('./fixtures.js').UserRecord} user
+     * @param {'access' | 'refresh'} type
+     * @param {string} [sessionId]
+     * @returns {string}
+     */
+    sign(user, type, sessionId) {
+        const ttl = type === 'access' ? this.options.accessTokenTtl : this.options.refreshTokenTtl;
+        return signToken({
+            sub: user.id,
+            email: user.email,
+            username: user.username,
+            role: user.role,
+            typ: type,
+            jti: randomUUID(),
+            ...(sessionId && { sid: sessionId })
+        }, this.options.secret, ttl);
+    }
+}
@@ -0,0 +1,13 @@
+/**
+ * Types of the fixture exports used from TypeScript (tests).
+ * The shape of the database is documented in fixtures.js.
+ */
+
+export declare const SEED_PASSWORD: string;
+
+/** Fixed clock the fixtures are generated against */
+export declare const SEED_TIME: number;
+
+export type Database = Record<string, unknown>;
+
+export declare function createFixtures(seed?: number): Database;
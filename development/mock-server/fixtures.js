@@ -0,0 +1,401 @@
+/**
+ * Deterministic seed data for the mock server.
+ *
+ * The same seed always produces the same users, ids, timestamps and content,
+ * so e2e tests can rely on fixture values. All seeded accounts are active and
+ * share `SEED_PASSWORD`.
+ */
+
+import { describeDevice, locateAddress } from './sessions.js';
+
+export const SEED_PASSWORD = 'Password123!';
+
+/** Fixed clock the fixtures are generated against */
+export const SEED_TIME = Date.UTC(2024, 0, 15, 12, 0, 0);
+
+const MINUTE = 60 * 1000;
+
+const SEED_USERS = [
+    ['alice', 'Alice', 'Morgan', 'Writing about slow mornings and long walks.'],
+    ['bob', 'Bob', 'Fischer', 'Film photography, mostly landscapes.'],
+    ['carol', 'Carol', 'Nguyen', 'Designer. Tea over coffee.'],
+    ['dave', 'Dave', 'Okafor', 'Backend engineer and weekend cyclist.'],
+    ['erin', 'Erin', 'Kowalski', 'Reading one book a week this year.'],
+    ['frank', 'Frank', 'Silva', 'Home cook, occasional baker.'],
+    ['grace', 'Grace', 'Lindqvist', 'Birdwatcher. Quiet places only.'],
+    ['heidi', 'Heidi', 'Tanaka', 'Learning the cello at 35.']
+];
+
+const POST_TEXTS = [
+    'Took the long way home today and found a bookshop I never noticed.',
+    'Three days without checking the news. Feels lighter already.',
+    'Does anyone else write their to-do lists on paper?',
+    'Sunrise from the hill behind the house, no filter needed.',
+    'Finished a 600 page novel and immediately missed the characters.',
+    'Switched off all notifications except messages from friends.',
+    'First loaf of sourdough that actually rose. Small wins.',
+    'Spotted a kingfisher by the canal this morning.',
+    'Practising scales for an hour is surprisingly calming.',
+    'Cycled 40km and only saw four cars. Perfect Sunday.',
+    'What is a habit you picked up this year and kept?',
+    'Rearranged the desk so it faces the window. Highly recommend.'
+];
+
+const COMMENT_TEXTS = [
+    'Love this.',
+    'Same here, it makes a real difference.',
+    'Where was this taken?',
+    'Adding this to my list.',
+    'Could not agree more.',
+    'Thanks for sharing!'
+];
+
+/** Sessions Alice has open on other devices: user agent, IP address, minutes since last seen */
+const ALICE_SESSIONS = [
+    ['Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1', '81.2.69.142', 45],
+    ['Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0', '89.160.20.112', 60 * 26]
+];
+
+const MESSAGE_TEXTS = [
+    'hi, how are you doing?',
+    'good thanks, you?',
+    'are we still on for saturday?',
+    'yes, see you at ten',
+    'can you send me that pdf?',
+    'i will once i am home',
+    'did you finish the book?',
+    'almost, two chapters left'
+];
+
+const GROUP_TEXTS = [
+    'who is up for a hike on sunday?',
+    'me! which trail?',
+    'the ridge loop, about 12 km'
+];
+
+// Replies in the thread started from the first group message
+const THREAD_TEXTS = [
+    'count me in',
+    'can we start a bit later, say nine?',
+    'nine works for me'
+];
+
+/**
+ * @typedef {Object} UserRecord
+ * @property {string} id
+ * @property {string} username
+ * @property {string} email
+ * @property {string} password
+ * @property {string} firstname
+ * @property {string} lastname
+ * @property {string} bio
+ * @property {string} role
+ * @property {boolean} enabled
+ * @property {string} createDate
+ * @property {string} updateDate
+ * @property {number} version
+ * @property {Object} settings
+ */
+
+/**
+ * @typedef {Object} PendingTokenRecord
+ * @property {string} userId
+ * @property {string} email - Account email for a reset, new email for an email change
+ * @property {number} expiresAt - Epoch milliseconds
+ */
+
+/**
+ * @typedef {Object} Database
+ * @property {UserRecord[]} users
+ * @property {Set<string>} follows - `followerId>followingId`
+ * @property {Object[]} posts
+ * @property {Object[]} comments
+ * @property {Object[]} reactions
+ * @property {Set<string>} savedPosts - `userId>postId`
+ * @property {Object[]} chats
+ * @property {Object[]} messages - Thread replies carry the `threadId` of the message that started the thread
+ * @property {Map<string, string>} threadReads - `userId>threadId` to the time the user last read the thread
+ * @property {Map<string, { deliveredDate: string, readDate?: string }>} receipts - `userId>messageId` to when the
+ *   message reached one of the user's devices and when they read it
+ * @property {Object[]} attachments - Uploaded files; `messageId` stays null until the upload is sent
+ * @property {Object[]} deviceKeys - Public keys of the devices users encrypt messages on
+ * @property {Object[]} notifications
+ * @property {Map<string, string>} activationCodes - email to code
+ * @property {Map<string, PendingTokenRecord>} passwordResetTokens - token to pending reset
+ * @property {Map<string, PendingTokenRecord>} emailChangeTokens - token to pending email change
+ * @property {Set<string>} revokedTokens - refresh token ids
+ * @property {import('./sessions.js').SessionRecord[]} sessions
+ * @property {() => string} nextId
+ * @property {() => string} now - Current time as ISO string
+ */
+
+/**
+ * Small seeded PRNG (mulberry32) so fixtures do not depend on Math.random
+ *
+ * @param {number} seed
+ * @returns {() => number}
+ */
+function createRandom(seed) {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Ids look like UUIDs but count up, which keeps them stable across runs
+ *
+ * @returns {() => string}
+ */
+function createIdGenerator() {
+    let counter = 0;
+    return () => {
+        counter++;
+        return `00000000-0000-4000-8000-${counter.toString(16).padStart(12, '0')}`;
+    };
+}
+
+/**
+ * Build a fresh database from the seed.
+ *
+ * @param {number} seed
+ * @returns {Database}
+ */
+export function createFixtures(seed = 1) {
+    const random = createRandom(seed);
+    const nextId = createIdGenerator();
+    const pick = items => items[Math.floor(random() * items.length)];
+    const at = minutesAgo => new Date(SEED_TIME - minutesAgo * MINUTE).toISOString();
+
+    // Time moves forward from the seed clock so new records sort after fixtures
+    let clock = SEED_TIME;
+    const now = () => {
+        clock = Math.max(clock + 1, Date.now());
+        return new Date(clock).toISOString();
+    };
+
+    const users = SEED_USERS.map(([username, firstname, lastname, bio], index) => ({
+        id: nextId(),
+        username,
+        email: `${username}@quietspace.dev`,
+        password: SEED_PASSWORD,
+        firstname,
+        lastname,
+        bio,
+        role: username === 'alice' ? 'admin' : 'user',
+        enabled: true,
+        createDate: at(60 * 24 * (30 - index)),
+        updateDate: at(60 * 24 * (30 - index)),
+        version: 0,
+        settings: {
+            id: nextId(),
+            bio,
+            isPrivateAccount: username === 'heidi',
+            isNotificationsMuted: false,
+            isAllowPublicGroupChatInvite: true,
+            isAllowPublicMessageRequests: true,
+            isAllowPublicComments: true,
+            isHideLikeCounts: false,
+            isHideReadReceipts: false,
+            blockedUserids: []
+        }
+    }));
+
+    // Everyone follows the next three users round the list
+    const follows = new Set();
+    users.forEach((user, index) => {
+        for (let step = 1; step <= 3; step++) {
+            follows.add(`${user.id}>${users[(index + step) % users.length].id}`);
+        }
+    });
+
+    const posts = Array.from({ length: 36 }, (_, index) => {
+        const createDate = at(index * 95 + 10);
+        return {
+            id: nextId(),
+            userId: users[index % users.length].id,
+            title: '',
+            text: POST_TEXTS[index % POST_TEXTS.length],
+            viewAccess: 'anyone',
+            poll: null,
+            parentId: null,
+            tags: [],
+            mentions: [],
+            createDate,
+            updateDate: createDate
+        };
+    });
+
+    const comments = [];
+    const reactions = [];
+    posts.forEach((post, index) => {
+        const commentCount = Math.floor(random() * 4);
+        for (let n = 0; n < commentCount; n++) {
+            const createDate = at(index * 95 - n * 7);
+            comments.push({
+                id: nextId(),
+                postId: post.id,
+                userId: pick(users).id,
+                parentId: null,
+                text: pick(COMMENT_TEXTS),
+                createDate,
+                updateDate: createDate
+            });
+        }
+
+        users.forEach(user => {
+            if (user.id !== post.userId && random() < 0.35) {
+                reactions.push({
+                    id: nextId(),
+                    userId: user.id,
+                    contentId: post.id,
+                    contentType: 'POST',
+                    reactionType: random() < 0.9 ? 'LIKE' : 'DISLIKE',
+                    createDate: post.createDate
+                });
+            }
+        });
+    });
+
+    // Alice has a direct chat with each of the next four users
+    const [alice, ...others] = users;
+    const chats = [];
+    const messages = [];
+    // Every message reached the other members of its chat when it was sent
+    const receipts = new Map();
+    const receive = (message, chat, readerIds) => {
+        chat.userIds.filter(userId => userId !== message.senderId).forEach(userId => {
+            receipts.set(`${userId}>${message.id}`, {
+                deliveredDate: message.createDate,
+                ...(readerIds.includes(userId) && { readDate: message.createDate })
+            });
+        });
+    };
+    others.slice(0, 4).forEach((other, chatIndex) => {
+        const chat = {
+            id: nextId(),
+            userIds: [alice.id, other.id],
+            isGroupChat: false,
+            createDate: at(60 * 24 * (5 - chatIndex))
+        };
+        chats.push(chat);
+
+        MESSAGE_TEXTS.slice(0, 4 + chatIndex).forEach((text, messageIndex) => {
+            const fromAlice = messageIndex % 2 === 0;
+            const createDate = at(60 * (24 - chatIndex) - messageIndex * 3);
+            const message = {
+                id: nextId(),
+                chatId: chat.id,
+                senderId: fromAlice ? alice.id : other.id,
+                recipientId: fromAlice ? other.id : alice.id,
+                text,
+                createDate,
+                updateDate: createDate
+            };
+            messages.push(message);
+            receive(message, chat, messageIndex < 2 + chatIndex ? chat.userIds : []);
+        });
+    });
+
+    const notifications = [];
+    follows.forEach(follow => {
+        const [followerId, followingId] = follow.split('>');
+        notifications.push({
+            id: nextId(),
+            recipientId: followingId,
+            actorId: followerId,
+            contentId: followerId,
+            type: 'FOLLOW_REQUEST',
+            isSeen: random() < 0.5,
+            createDate: at(60 * 24 * 2 + notifications.length * 11)
+        });
+    });
+    reactions.slice(0, 40).forEach(reaction => {
+        const post = posts.find(candidate => candidate.id === reaction.contentId);
+        notifications.push({
+            id: nextId(),
+            recipientId: post.userId,
+            actorId: reaction.userId,
+            contentId: post.id,
+            type: 'POST_REACTION',
+            isSeen: random() < 0.5,
+            createDate: reaction.createDate
+        });
+    });
+
+    const sessions = ALICE_SESSIONS.map(([userAgent, ipAddress, minutesAgo]) => ({
+        id: nextId(),
+        userId: alice.id,
+        deviceInfo: describeDevice(userAgent),
+        ipAddress,
+        location: locateAddress(ipAddress),
+        createdAt: at(minutesAgo + 60 * 24 * 3),
+        lastSeenAt: at(minutesAgo),
+        revokedAt: null
+    }));
+
+    // Alice also runs a group chat with bob, carol and dave, where a thread is under way
+    const group = {
+        id: nextId(),
+        userIds: [alice.id, ...others.slice(0, 3).map(other => other.id)],
+        isGroupChat: true,
+        createDate: at(60 * 24 * 6)
+    };
+    chats.push(group);
+    const groupMessages = GROUP_TEXTS.map((text, index) => ({
+        id: nextId(),
+        chatId: group.id,
+        senderId: group.userIds[index],
+        recipientId: group.userIds[index === 0 ? 1 : 0],
+        text,
+        createDate: at(60 * 2 - index * 5),
+        updateDate: at(60 * 2 - index * 5)
+    }));
+    // Everyone read the group, except that dave has yet to read its latest message
+    groupMessages.forEach((message, index) => receive(
+        message,
+        group,
+        index === groupMessages.length - 1 ? group.userIds.slice(0, 3) : group.userIds
+    ));
+    const threadReplies = THREAD_TEXTS.map((text, index) => ({
+        id: nextId(),
+        chatId: group.id,
+        senderId: group.userIds[index + 1],
+        recipientId: alice.id,
+        text,
+        threadId: groupMessages[0].id,
+        createDate: at(60 - index * 7),
+        updateDate: at(60 - index * 7)
+    }));
+    messages.push(...groupMessages, ...threadReplies);
+
+    const newestFirst = (a, b) => (a.createDate < b.createDate ? 1 : -1);
+
+    return {
+        users,
+        follows,
+        posts: posts.sort(newestFirst),
+        comments: comments.sort(newestFirst),
+        reactions,
+        savedPosts: new Set([`${alice.id}>${posts[3].id}`, `${alice.id}>${posts[7].id}`]),
+        chats,
+        messages: messages.sort(newestFirst),
+        // Alice read the thread up to its first reply
+        threadReads: new Map([[`${alice.id}>${groupMessages[0].id}`, threadReplies[0].createDate]]),
+        receipts,
+        attachments: [],
+        deviceKeys: [],
+        notifications: notifications.sort(newestFirst),
+        activationCodes: new Map(),
+        passwordResetTokens: new Map(),
+        emailChangeTokens: new Map(),
+        revokedTokens: new Set(),
+        sessions,
+        nextId,
+        now
+    };
+}
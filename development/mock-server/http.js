@@ -0,0 +1,230 @@
+/**
+ * Minimal HTTP routing for the mock server.
+ *
+ * Routes are matched in registration order, so static paths such as
+ * `/posts/saved` must be registered before `/posts/:postId`.
+ */
+
+/**
+ * Error answered as a Spring style error body
+ */
+export class HttpError extends Error {
+    /**
+     * @param {number} status
+     * @param {string} message
+     */
+    constructor(status, message) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+    }
+}
+
+/**
+ * @typedef {Object} RequestContext
+ * @property {Record<string, string>} params - Path parameters
+ * @property {URLSearchParams} query
+ * @property {any} body - Parsed JSON body, the parts of a multipart body, or `{}`
+ * @property {import('./jwt.js').TokenClaims | null} auth - Claims of the bearer token
+ * @property {import('./sessions.js').ClientInfo} client - Caller's address and User-Agent
+ * @property {string} path
+ */
+
+/**
+ * @typedef {(context: RequestContext) => unknown} RouteHandler
+ * Returns the JSON response body; `undefined` answers 200 with no body
+ */
+
+/**
+ * @typedef {Object} Route
+ * @property {string} method
+ * @property {RegExp} pattern
+ * @property {string[]} keys
+ * @property {RouteHandler} handler
+ * @property {boolean} isPublic - Whether the route works without a token
+ */
+
+export class Router {
+    constructor() {
+        /** @type {Route[]} */
+        this.routes = [];
+    }
+
+    /**
+     * @param {string} method
+     * @param {string} path - Path with `:name` parameters
+     * @param {RouteHandler} handler
+     * @param {{ isPublic?: boolean }} [options]
+     * @returns {this}
+     */
+    add(method, path, handler, options = {}) {
+        const keys = [];
+        const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (_, key) => {
+            keys.push(key);
+            return '([^/]+)';
+        })}/?$`);
+        this.routes.push({ method, pattern, keys, handler, isPublic: options.isPublic ?? false });
+        return this;
+    }
+
+    /**
+     * @param {string} method
+     * @param {string} path
+     * @returns {{ route: Route, params: Record<string, string> } | null}
+     */
+    match(method, path) {
+        for (const route of this.routes) {
+            if (route.method !== method) continue;
+            const found = route.pattern.exec(path);
+            if (found) {
+                const params = Object.fromEntries(route.keys.map((key, index) => [key, decodeURIComponent(found[index + 1])]));
+                return { route, params };
+            }
+        }
+        return null;
+    }
+}
+
+/**
+ * @param {import('node:http').IncomingMessage} request
+ * @returns {Promise<Buffer>}
+ */
+async function readRawBody(request) {
+    const chunks = [];
+    for await (const chunk of request) {
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * @param {import('node:http').IncomingMessage} request
+ * @returns {Promise<any>}
+ */
+export async function readJsonBody(request) {
+    const raw = (await readRawBody(request)).toString('utf8');
+    if (!raw) {
+        return {};
+    }
+
+    try {
+        return JSON.parse(raw);
+    } catch {
+        throw new HttpError(400, 'Malformed JSON request body');
+    }
+}
+
+/**
+ * @typedef {Object} UploadedFile
+ * @property {string} filename
+ * @property {string} contentType
+ * @property {Buffer} data
+ */
+
+/**
+ * Parse a `multipart/form-data` body into an object keyed by part name. File
+ * parts become an {@link UploadedFile}, other parts their text.
+ *
+ * @param {import('node:http').IncomingMessage} request
+ * @returns {Promise<Record<string, string | UploadedFile>>}
+ */
+export async function readMultipartBody(request) {
+    const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(request.headers['content-type'] ?? '');
+    if (!match) {
+        throw new HttpError(400, 'Multipart request body without a boundary');
+    }
+
+    const raw = await readRawBody(request);
+    const delimiter = Buffer.from(`--${match[1] ?? match[2]}`);
+    const body = {};
+    let start = raw.indexOf(delimiter);
+    while (start !== -1) {
+        const next = raw.indexOf(delimiter, start + delimiter.length);
+        if (next === -1) break;
+
+        // Each part sits between the CRLF after one delimiter and the CRLF before the next
+        const part = raw.subarray(start + delimiter.length + 2, next - 2);
+        const headerEnd = part.indexOf('\r\n\r\n');
+        if (headerEnd !== -1) {
+            const headers = part.subarray(0, headerEnd).toString('utf8');
+            const data = part.subarray(headerEnd + 4);
+            const name = /;\s*name="([^"]*)"/i.exec(headers)?.[1];
+            const filename = /;\s*filename="([^"]*)"/i.exec(headers)?.[1];
+            const contentType = /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1]?.trim() ?? 'application/octet-stream';
+            if (name) {
+                body[name] = filename === undefined ? data.toString('utf8') : { filename, contentType, data };
+            }
+        }
+        start = next;
+    }
+    return body;
+}
+
+/**
+ * Read a JSON or `multipart/form-data` body, depending on its content type.
+ *
+ * @param {import('node:http').IncomingMessage} request
+ * @returns {Promise<any>}
+ */
+export function readRequestBody(request) {
+    const contentType = request.headers['content-type'] ?? '';
+    return /^multipart\/form-data/i.test(contentType) ? readMultipartBody(request) : readJsonBody(request);
+}
+
+/**
+ * @param {import('node:http').IncomingMessage} request
+ * @returns {import('./sessions.js').ClientInfo}
+ */
+export function getClientInfo(request) {
+    const forwarded = String(request.headers['x-forwarded-for'] ?? '').split(',')[0]?.trim();
+    return {
+        ipAddress: forwarded || request.socket.remoteAddress || '',
+        userAgent: request.headers['user-agent'] ?? ''
+    };
+}
+
+/**
+ * Allow the Vite dev server (or any local origin) to call the mock server
+ *
+ * @param {import('node:http').IncomingMessage} request
+ * @param {import('node:http').ServerResponse} response
+ */
+export function applyCors(request, response) {
+    response.setHeader('Access-Control-Allow-Origin', request.headers.origin ?? '*');
+    response.setHeader('Access-Control-Allow-Credentials', 'true');
+    response.setHeader('Access-Control-Allow-Methods', 'GET,POST,PUT,PATCH,DELETE,OPTIONS');
+    response.setHeader('Access-Control-Allow-Headers', request.headers['access-control-request-headers'] ?? 'Authorization,Content-Type');
+    response.setHeader('Vary', 'Origin');
+}
+
+/**
+ * @param {import('node:http').ServerResponse} response
+ * @param {number} status
+ * @param {unknown} [body]
+ */
+export function sendJson(response, status, body) {
+    if (body === undefined) {
+        response.writeHead(status);
+        response.end();
+        return;
+    }
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+}
+
+/**
+ * @param {import('node:http').ServerResponse} response
+ * @param {number} status
+ * @param {string} message
+ * @param {string} path
+ */
+export function sendError(response, status, message, path) {
+    const reasons = { 400: 'Bad Request', 401: 'Unauthorized', 403: 'Forbidden', 404: 'Not Found', 409: 'Conflict', 413: 'Payload Too Large', 415: 'Unsupported Media Type', 500: 'Internal Server Error' };
+    sendJson(response, status, {
+        timestamp: new Date().toISOString(),
+        status,
+        error: reasons[status] ?? 'Error',
+        message,
+        path
+    });
+}
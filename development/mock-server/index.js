@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+/**
+ * Start the mock backend: `npm run mock-server`.
+ *
+ * Environment:
+ * - MOCK_SERVER_PORT (default 8080, the port the app calls)
+ * - MOCK_SERVER_HOST (default localhost)
+ * - MOCK_SEED (default 1)
+ * - MOCK_JWT_SECRET
+ * - MOCK_LATENCY (ms added to every REST response, default 0)
+ */
+
+import { SEED_PASSWORD } from './fixtures.js';
+import { createMockServer } from './server.js';
+
+const port = Number(process.env.MOCK_SERVER_PORT ?? 8080);
+const host = process.env.MOCK_SERVER_HOST ?? 'localhost';
+const log = message => console.log(`[mock-server] ${message}`);
+
+const mockServer = createMockServer({
+    seed: Number(process.env.MOCK_SEED ?? 1),
+    ...(process.env.MOCK_JWT_SECRET && { secret: process.env.MOCK_JWT_SECRET }),
+    latency: Number(process.env.MOCK_LATENCY ?? 0),
+    log
+});
+
+await mockServer.listen(port, host);
+log(`Listening on http://${host}:${port} (REST /api/v1, WebSocket /ws)`);
+log(`Sign in as alice@quietspace.dev / ${SEED_PASSWORD}`);
+
+const shutdown = () => {
+    mockServer.close().then(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,86 @@
+/**
+ * HS256 JSON Web Tokens for the mock server.
+ *
+ * Implemented on `node:crypto` so the mock server needs no JWT library.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * @typedef {Object} TokenClaims
+ * @property {string} sub - User id
+ * @property {string} email
+ * @property {string} username
+ * @property {string} role
+ * @property {'access' | 'refresh'} typ
+ * @property {string} jti - Token id, used to revoke refresh tokens
+ * @property {string} [sid] - Device session the token was issued for
+ * @property {number} iat - Issued at, seconds since epoch
+ * @property {number} exp - Expiry, seconds since epoch
+ */
+
+export class TokenError extends Error {
+    /**
+     * @param {string} message
+     */
+    constructor(message) {
+        super(message);
+        this.name = 'TokenError';
+    }
+}
+
+/**
+ * @param {Buffer | string} value
+ * @returns {string}
+ */
+const base64Url = value => Buffer.from(value).toString('base64url');
+
+/**
+ * @param {string} secret
+ * @param {string} content
+ * @returns {Buffer}
+ */
+const signature = (secret, content) => createHmac('sha256', secret).update(content).digest();
+
+/**
+ * @param {Omit<TokenClaims, 'iat' | 'exp'>} claims
+ * @param {string} secret
+ * @param {number} ttlSeconds
+ * @param {number} now - Milliseconds since epoch
+ * @returns {string}
+ */
+export function signToken(claims, secret, ttlSeconds, now = Date.now()) {
+    const iat = Math.floor(now / 1000);
+    const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64Url(JSON.stringify({ ...claims, iat, exp: iat + ttlSeconds }));
+    return `${header}.${payload}.${base64Url(signature(secret, `${header}.${payload}`))}`;
+}
+
+/**
+ * Verify signature and expiry and return the claims.
+ *
+ * @param {string} token
+ * @param {string} secret
+ * @param {number} now - Milliseconds since epoch
+ * @returns {TokenClaims}
+ * @throws {TokenError} When the token is malformed, forged or expired
+ */
+export function verifyToken(token, secret, now = Date.now()) {
+    const [header, payload, signed] = token.split('.');
+    if (!header || !payload || !signed) {
+        throw new TokenError('Malformed token');
+    }
+
+    const expected = signature(secret, `${header}.${payload}`);
+    const actual = Buffer.from(signed, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        throw new TokenError('Invalid token signature');
+    }
+
+    /** @type {TokenClaims} */
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (claims.exp * 1000 <= now) {
+        throw new TokenError('Token expired');
+    }
+    return claims;
+}
@@ -0,0 +1,107 @@
+/**
+ * Spring Data style pagination for the mock server.
+ *
+ * Produces the `Page<T>` shape described by `PageSchema` in
+ * `src/shared/api/models/commonZod.ts`.
+ */
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * @typedef {Object} PageRequest
+ * @property {number} page - Zero-based page index
+ * @property {number} size - Page size
+ * @property {string | null} sortField - Field to sort by, if any
+ * @property {'asc' | 'desc'} direction - Sort direction
+ */
+
+/**
+ * @template T
+ * @typedef {Object} Page
+ * @property {T[]} content
+ * @property {Object} pageable
+ * @property {number} totalPages
+ * @property {number} totalElements
+ * @property {boolean} last
+ * @property {boolean} first
+ * @property {number} size
+ * @property {number} number
+ * @property {Object} sort
+ * @property {number} numberOfElements
+ * @property {boolean} empty
+ */
+
+/**
+ * Read `page`, `size`, `sort` and `direction` query parameters. `sort` also
+ * accepts the Spring `field,direction` form.
+ *
+ * @param {URLSearchParams} query
+ * @returns {PageRequest}
+ */
+export function parsePageRequest(query) {
+    const page = Math.max(0, Number.parseInt(query.get('page') ?? '0', 10) || 0);
+    const requestedSize = Number.parseInt(query.get('size') ?? '', 10);
+    const size = Math.min(MAX_PAGE_SIZE, requestedSize > 0 ? requestedSize : DEFAULT_PAGE_SIZE);
+
+    const [sortField = null, sortDirection] = (query.get('sort') ?? '').split(',').filter(Boolean);
+    const direction = (sortDirection ?? query.get('direction') ?? 'desc').toLowerCase() === 'asc' ? 'asc' : 'desc';
+
+    return { page, size, sortField, direction };
+}
+
+/**
+ * Sort and slice items into a page. Without a sort field items keep their
+ * order, which the stores keep newest first.
+ *
+ * @template T
+ * @param {T[]} items
+ * @param {PageRequest} request
+ * @returns {Page<T>}
+ */
+export function toPage(items, request) {
+    const { page, size, sortField, direction } = request;
+    const sorted = sortField ? [...items].sort(compareBy(sortField, direction)) : items;
+    const content = sorted.slice(page * size, page * size + size);
+    const totalElements = items.length;
+    const totalPages = Math.ceil(totalElements / size);
+    const sort = { sorted: !!sortField, unsorted: !sortField, empty: !sortField };
+
+    return {
+        content,
+        pageable: {
+            pageNumber: page,
+            pageSize: size,
+            sort,
+            offset: page * size,
+            paged: true,
+            unpaged: false
+        },
+        totalPages,
+        totalElements,
+        last: page >= totalPages - 1,
+        first: page === 0,
+        size,
+        number: page,
+        sort,
+        numberOfElements: content.length,
+        empty: content.length === 0
+    };
+}
+
+/**
+ * @param {string} field
+ * @param {'asc' | 'desc'} direction
+ * @returns {(a: any, b: any) => number}
+ */
+function compareBy(field, direction) {
+    const sign = direction === 'asc' ? 1 : -1;
+    return (a, b) => {
+        const left = a[field];
+        const right = b[field];
+        if (left === right) return 0;
+        if (left === undefined || left === null) return 1;
+        if (right === undefined || right === null) return -1;
+        return (left < right ? -1 : 1) * sign;
+    };
+}
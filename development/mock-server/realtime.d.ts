@@ -0,0 +1,16 @@
+/**
+ * Types of the STOMP frame helpers used from TypeScript (tests).
+ */
+
+export interface StompFrame {
+    command: string;
+    headers: Record<string, string>;
+    body: string;
+}
+
+/**
+ * Split a WebSocket message into STOMP frames, skipping heart-beat EOLs
+ */
+export declare function parseStompFrames(data: string): StompFrame[];
+
+export declare function serializeStompFrame(command: string, headers: Record<string, string>, body?: string): string;
@@ -0,0 +1,531 @@
+/**
+ * Realtime endpoint of the mock server (`/ws`).
+ *
+ * One endpoint speaks two protocols, picked from the first frame a client
+ * sends:
+ *
+ * - STOMP 1.2 (`stompjs`): authenticate with an `Authorization: Bearer`
+ *   header (or `passcode`) on CONNECT, subscribe to `/topic/chat/{chatId}`,
+ *   `/topic/chat/{chatId}/thread/{threadId}`, `/user/queue/notifications` and
+ *   `/user/queue/sessions`, send to
+ *   `/app/chat/{chatId}` and `/app/chat/{chatId}/typing`.
+ * - The JSON protocol of `EnterpriseWebSocketService`: authenticate with
+ *   `?token=` on the URL. Messages are numbered per topic (`chat:{chatId}`,
+ *   `thread:{threadId}`, `notifications:{userId}`) and `resume` / `replay` requests are answered
+ *   from a bounded log, or with `resync_required` once it no longer reaches
+ *   back far enough.
+ *
+ * Either way, a connection belongs to the device session its token was
+ * issued for. Revoking that session sends `session_revoked` and closes it.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { WebSocketServer } from 'ws';
+
+import { HttpError } from './http.js';
+
+const TOPIC_LOG_SIZE = 200;
+
+/**
+ * @typedef {Object} Session
+ * @property {import('ws').WebSocket} socket
+ * @property {string | null} userId
+ * @property {string | null} sessionId - Device session of the token the client connected with
+ * @property {'stomp' | 'json' | null} protocol
+ * @property {Map<string, string>} subscriptions - STOMP subscription id to destination
+ */
+
+/**
+ * @typedef {Object} LoggedMessage
+ * @property {number} sequence
+ * @property {object} message - JSON protocol message
+ * @property {Set<string>} recipients - User ids allowed to receive it
+ */
+
+/**
+ * @typedef {Object} RealtimeOptions
+ * @property {{ db: import('./fixtures.js').Database }} state
+ * @property {import('./auth.js').TokenService} tokens
+ * @property {(message: string) => void} log
+ */
+
+export class RealtimeBroker {
+    /**
+     * @param {RealtimeOptions} options
+     */
+    constructor(options) {
+        this.options = options;
+        /** @type {Set<Session>} */
+        this.sessions = new Set();
+        /** @type {Map<string, { sequence: number, entries: LoggedMessage[] }>} */
+        this.topics = new Map();
+        /**
+         * Stores a chat message sent over the socket; wired to the REST routes
+         * @type {(chatId: string, senderId: string, text: string) => object}
+         */
+        this.sendChatMessage = () => {
+            throw new HttpError(500, 'Chat messages are not wired up');
+        };
+        this.server = new WebSocketServer({ noServer: true });
+        this.server.on('connection', (socket, request) => this.accept(socket, request));
+    }
+
+    /**
+     * Take over `/ws` upgrade requests of the HTTP server
+     *
+     * @param {import('node:http').Server} httpServer
+     */
+    attach(httpServer) {
+        httpServer.on('upgrade', (request, socket, head) => {
+            const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+            if (pathname !== '/ws') {
+                socket.destroy();
+                return;
+            }
+            this.server.handleUpgrade(request, socket, head, client => this.server.emit('connection', client, request));
+        });
+    }
+
+    /**
+     * @param {object} chat - Chat record
+     * @param {object} message - `MessageResponse`
+     */
+    publishChatMessage(chat, message) {
+        this.publish(`chat:${chat.id}`, chat.userIds, { type: 'message', feature: 'chat', chatId: chat.id, payload: message });
+        this.publishStomp(`/topic/chat/${chat.id}`, message, chat.userIds);
+    }
+
+    /**
+     * @param {object} chat - Chat record
+     * @param {object} event - `ChatEvent`
+     */
+    publishChatEvent(chat, event) {
+        this.publish(`chat:${chat.id}`, chat.userIds, { type: 'chat_event', feature: 'chat', chatId: chat.id, payload: event });
+        this.publishStomp(`/topic/chat/${chat.id}`, event, chat.userIds);
+    }
+
+    /**
+     * @param {object} chat - Chat record
+     * @param {object} event - `MessageUpdateEvent`: an edit or a reaction change
+     */
+    publishMessageUpdate(chat, event) {
+        this.publish(`chat:${chat.id}`, chat.userIds, { type: 'message_update', feature: 'chat', chatId: chat.id, payload: event });
+        this.publishStomp(`/topic/chat/${chat.id}`, event, chat.userIds);
+    }
+
+    /**
+     * Replies of a thread have their own topic, so a client follows only the threads it shows
+     *
+     * @param {object} chat - Chat record
+     * @param {object} message - `MessageResponse` with the `threadId` of the message that started the thread
+     */
+    publishThreadMessage(chat, message) {
+        this.publish(`thread:${message.threadId}`, chat.userIds, { type: 'thread_message', feature: 'chat', chatId: chat.id, payload: message });
+        this.publishStomp(`/topic/chat/${chat.id}/thread/${message.threadId}`, message, chat.userIds);
+    }
+
+    /**
+     * @param {object} chat - Chat record
+     * @param {object} event - `MessageReceiptEvent`: messages that reached a member, or that they read
+     */
+    publishReceipts(chat, event) {
+        this.publish(`chat:${chat.id}`, chat.userIds, { type: 'delivery_confirmation', feature: 'chat', chatId: chat.id, payload: event });
+        this.publishStomp(`/topic/chat/${chat.id}`, event, chat.userIds);
+    }
+
+    /**
+     * @param {string} userId
+     * @param {object} notification - `NotificationResponse`
+     */
+    publishNotification(userId, notification) {
+        this.publish(`notifications:${userId}`, [userId], { type: 'notification', feature: 'notification', payload: notification });
+        this.publishStomp('/user/queue/notifications', notification, [userId]);
+    }
+
+    /**
+     * Tell the connections of a revoked device session, then close them
+     *
+     * @param {import('./sessions.js').SessionRecord} revoked
+     */
+    publishSessionRevoked(revoked) {
+        const payload = { sessionId: revoked.id, revokedAt: revoked.revokedAt };
+        // Revocations are transient like typing indicators: a client that
+        // missed one finds out from the 401 on its next request
+        this.sessions.forEach(session => {
+            if (session.sessionId !== revoked.id) {
+                return;
+            }
+            if (session.protocol === 'stomp') {
+                session.subscriptions.forEach((destination, subscriptionId) => {
+                    if (destination === '/user/queue/sessions') {
+                        session.socket.send(serializeStompFrame('MESSAGE', {
+                            destination,
+                            subscription: subscriptionId,
+                            'message-id': randomUUID(),
+                            'content-type': 'application/json'
+                        }, JSON.stringify(payload)));
+                    }
+                });
+            } else {
+                this.sendJson(session, { id: randomUUID(), type: 'session_revoked', feature: 'session', payload, timestamp: new Date().toISOString() });
+            }
+            session.socket.close(4401, 'Session revoked');
+        });
+    }
+
+    /**
+     * Whether one of the user's devices is connected, so a message sent now reaches it
+     *
+     * @param {string} userId
+     */
+    isConnected(userId) {
+        return [...this.sessions].some(session => session.userId === userId);
+    }
+
+    /**
+     * Forget topic history, used when the database is reseeded
+     */
+    reset() {
+        this.topics.clear();
+    }
+
+    close() {
+        this.sessions.forEach(session => session.socket.terminate());
+        this.server.close();
+    }
+
+    /**
+     * @param {import('ws').WebSocket} socket
+     * @param {import('node:http').IncomingMessage} request
+     */
+    accept(socket, request) {
+        /** @type {Session} */
+        const session = { socket, userId: null, sessionId: null, protocol: null, subscriptions: new Map() };
+        this.sessions.add(session);
+
+        const token = new URL(request.url ?? '/', 'http://localhost').searchParams.get('token');
+        if (token) {
+            try {
+                this.authenticate(session, token);
+            } catch {
+                socket.close(4401, 'Invalid token');
+                return;
+            }
+        }
+
+        socket.on('message', data => this.receive(session, data.toString()));
+        socket.on('close', () => this.sessions.delete(session));
+    }
+
+    /**
+     * @param {Session} session
+     * @param {string} token - Access token
+     */
+    authenticate(session, token) {
+        const claims = this.options.tokens.verify(token);
+        session.userId = claims.sub;
+        session.sessionId = claims.sid ?? null;
+    }
+
+    /**
+     * @param {Session} session
+     * @param {string} data
+     */
+    receive(session, data) {
+        if (!session.protocol) {
+            const text = data.trimStart();
+            if (!text) return;
+            session.protocol = text.startsWith('{') ? 'json' : 'stomp';
+        }
+
+        try {
+            if (session.protocol === 'json') {
+                this.receiveJson(session, JSON.parse(data));
+            } else {
+                parseStompFrames(data).forEach(frame => this.receiveStomp(session, frame));
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.options.log(`Realtime error: ${message}`);
+            if (session.protocol === 'stomp') {
+                session.socket.send(serializeStompFrame('ERROR', { message }, message));
+            } else {
+                this.sendJson(session, { type: 'error', feature: 'system', payload: { message } });
+            }
+        }
+    }
+
+    // --- JSON protocol -------------------------------------------------------
+
+    /**
+     * @param {Session} session
+     * @param {any} message
+     */
+    receiveJson(session, message) {
+        if (!session.userId) {
+            session.socket.close(4401, 'Missing token');
+            return;
+        }
+
+        switch (message.type) {
+            case 'heartbeat':
+                return;
+            case 'resume':
+                (message.payload?.subscriptions ?? []).forEach(position => this.replay(session, position.topic, position.lastSequence));
+                return;
+            case 'replay':
+                this.replay(session, message.payload.topic, message.payload.lastSequence);
+                return;
+            case 'chat_message':
+                this.sendChatMessage(String(message.chatId), session.userId, message.payload?.text ?? '');
+                return;
+            case 'typing_indicator':
+                this.relayTyping(String(message.chatId), session.userId, !!message.payload?.isTyping);
+                return;
+            default:
+                this.options.log(`Ignoring ${message.feature}:${message.type} message`);
+        }
+    }
+
+    /**
+     * Number a message in its topic, log it and send it to connected recipients
+     *
+     * @param {string} topic
+     * @param {string[]} recipients
+     * @param {object} message
+     */
+    publish(topic, recipients, message) {
+        const log = this.topics.get(topic) ?? { sequence: 0, entries: [] };
+        this.topics.set(topic, log);
+        log.sequence++;
+
+        const sequenced = { id: randomUUID(), timestamp: new Date().toISOString(), ...message, topic, sequence: log.sequence };
+        log.entries.push({ sequence: log.sequence, message: sequenced, recipients: new Set(recipients) });
+        if (log.entries.length > TOPIC_LOG_SIZE) {
+            log.entries.shift();
+        }
+
+        this.sessions.forEach(session => {
+            if (session.protocol !== 'stomp' && session.userId && recipients.includes(session.userId)) {
+                this.sendJson(session, sequenced);
+            }
+        });
+    }
+
+    /**
+     * Resend what a client missed after `lastSequence`, or ask it to resync
+     * when the log has been trimmed past that point
+     *
+     * @param {Session} session
+     * @param {string} topic
+     * @param {number} lastSequence
+     */
+    replay(session, topic, lastSequence) {
+        const log = this.topics.get(topic);
+        if (!log || log.sequence <= lastSequence) {
+            return;
+        }
+
+        const oldest = log.entries[0]?.sequence ?? log.sequence + 1;
+        if (oldest > lastSequence + 1) {
+            this.sendJson(session, { id: randomUUID(), type: 'resync_required', feature: 'system', payload: { topic }, timestamp: new Date().toISOString() });
+            return;
+        }
+
+        log.entries
+            .filter(entry => entry.sequence > lastSequence && entry.recipients.has(session.userId))
+            .forEach(entry => this.sendJson(session, entry.message));
+    }
+
+    /**
+     * @param {Session} session
+     * @param {object} message
+     */
+    sendJson(session, message) {
+        session.socket.send(JSON.stringify(message));
+    }
+
+    /**
+     * @param {string} chatId
+     * @param {string} userId
+     * @param {boolean} isTyping
+     */
+    relayTyping(chatId, userId, isTyping) {
+        const chat = this.requireChat(chatId, userId);
+        const others = chat.userIds.filter(id => id !== userId);
+        // Typing indicators are transient: not numbered and not replayed
+        this.sessions.forEach(session => {
+            if (session.protocol === 'json' && session.userId && others.includes(session.userId)) {
+                this.sendJson(session, { id: randomUUID(), type: 'typing', feature: 'chat', chatId, payload: { userId, isTyping }, timestamp: new Date().toISOString() });
+            }
+        });
+        this.publishStomp(`/topic/chat/${chatId}/typing`, { userId, isTyping }, others);
+    }
+
+    /**
+     * @param {string} chatId
+     * @param {string} userId
+     */
+    requireChat(chatId, userId) {
+        const chat = this.options.state.db.chats.find(candidate => candidate.id === chatId);
+        if (!chat || !chat.userIds.includes(userId)) {
+            throw new HttpError(403, `Not a member of chat ${chatId}`);
+        }
+        return chat;
+    }
+
+    // --- STOMP ---------------------------------------------------------------
+
+    /**
+     * @param {Session} session
+     * @param {StompFrame} frame
+     */
+    receiveStomp(session, frame) {
+        const { command, headers, body } = frame;
+
+        if (command === 'CONNECT' || command === 'STOMP') {
+            const bearer = (headers.Authorization ?? headers.authorization ?? '').replace(/^Bearer\s+/i, '');
+            const token = bearer || headers.passcode || headers.token;
+            if (token) {
+                this.authenticate(session, token);
+            }
+            if (!session.userId) {
+                throw new HttpError(401, 'Missing token');
+            }
+            session.socket.send(serializeStompFrame('CONNECTED', { version: '1.2', 'heart-beat': '0,0', 'user-name': session.userId }));
+            return;
+        }
+
+        if (!session.userId) {
+            throw new HttpError(401, 'CONNECT first');
+        }
+
+        switch (command) {
+            case 'SUBSCRIBE': {
+                const chatId = /^\/topic\/chat\/([^/]+)/.exec(headers.destination ?? '')?.[1];
+                if (chatId) {
+                    this.requireChat(chatId, session.userId);
+                }
+                session.subscriptions.set(headers.id ?? headers.destination, headers.destination);
+                break;
+            }
+            case 'UNSUBSCRIBE':
+                session.subscriptions.delete(headers.id);
+                break;
+            case 'SEND':
+                this.receiveStompSend(session, headers.destination ?? '', body);
+                break;
+            case 'DISCONNECT':
+                if (headers.receipt) {
+                    session.socket.send(serializeStompFrame('RECEIPT', { 'receipt-id': headers.receipt }));
+                }
+                session.socket.close();
+                return;
+            default:
+                throw new HttpError(400, `Unsupported STOMP command ${command}`);
+        }
+
+        if (headers.receipt) {
+            session.socket.send(serializeStompFrame('RECEIPT', { 'receipt-id': headers.receipt }));
+        }
+    }
+
+    /**
+     * @param {Session} session
+     * @param {string} destination
+     * @param {string} body
+     */
+    receiveStompSend(session, destination, body) {
+        const typing = /^\/app\/chat\/([^/]+)\/typing$/.exec(destination);
+        if (typing) {
+            this.relayTyping(typing[1], session.userId, !!JSON.parse(body || '{}').isTyping);
+            return;
+        }
+
+        const chat = /^\/app\/chat\/([^/]+)$/.exec(destination);
+        if (chat) {
+            this.sendChatMessage(chat[1], session.userId, JSON.parse(body || '{}').text ?? '');
+            return;
+        }
+
+        throw new HttpError(404, `Unknown destination ${destination}`);
+    }
+
+    /**
+     * Deliver to STOMP sessions of the recipients subscribed to the destination
+     *
+     * @param {string} destination
+     * @param {object} payload
+     * @param {string[]} recipients
+     */
+    publishStomp(destination, payload, recipients) {
+        const body = JSON.stringify(payload);
+        this.sessions.forEach(session => {
+            if (session.protocol !== 'stomp' || !session.userId || !recipients.includes(session.userId)) {
+                return;
+            }
+            session.subscriptions.forEach((subscribed, subscriptionId) => {
+                if (subscribed === destination) {
+                    session.socket.send(serializeStompFrame('MESSAGE', {
+                        destination,
+                        subscription: subscriptionId,
+                        'message-id': randomUUID(),
+                        'content-type': 'application/json'
+                    }, body));
+                }
+            });
+        });
+    }
+}
+
+/**
+ * @typedef {Object} StompFrame
+ * @property {string} command
+ * @property {Record<string, string>} headers
+ * @property {string} body
+ */
+
+const unescapeHeader = value => value.replace(/\\([\\cnr])/g, (_, code) => ({ c: ':', n: '\n', r: '\r', '\\': '\\' })[code]);
+const escapeHeader = value => String(value).replace(/[\\\n\r:]/g, char => ({ ':': '\\c', '\n': '\\n', '\r': '\\r', '\\': '\\\\' })[char]);
+
+/**
+ * Split a WebSocket message into STOMP frames, skipping heart-beat EOLs
+ *
+ * @param {string} data
+ * @returns {StompFrame[]}
+ */
+export function parseStompFrames(data) {
+    return data.split('\0')
+        .map(raw => raw.replace(/^(\r?\n)+/, ''))
+        .filter(Boolean)
+        .map(raw => {
+            const separator = raw.search(/\r?\n\r?\n/);
+            const head = separator === -1 ? raw : raw.slice(0, separator);
+            const body = separator === -1 ? '' : raw.slice(separator).replace(/^\r?\n\r?\n/, '');
+            const [command = '', ...lines] = head.split(/\r?\n/);
+
+            /** @type {Record<string, string>} */
+            const headers = {};
+            lines.forEach(line => {
+                const colon = line.indexOf(':');
+                const key = unescapeHeader(line.slice(0, colon));
+                // The first occurrence of a repeated header wins
+                if (colon > 0 && !(key in headers)) {
+                    headers[key] = unescapeHeader(line.slice(colon + 1));
+                }
+            });
+            return { command: command.trim(), headers, body };
+        });
+}
+
+/**
+ * @param {string} command
+ * @param {Record<string, string>} headers
+ * @param {string} [body]
+ * @returns {string}
+ */
+export function serializeStompFrame(command, headers, body = '') {
+    const lines = Object.entries(headers).map(([key, value]) => `${escapeHeader(key)}:${escapeHeader(value)}`);
+    return `${command}\n${lines.join('\n')}\n\n${body}\0`;
+}
@@ -0,0 +1,1022 @@
+/**
+ * REST routes of the mock server.
+ *
+ * Mirrors the `/api/v1` contracts the repositories call (see
+ * `src/shared/constants/apiPath.ts`). Responses follow the zod schemas in
+ * each feature's `data/models`, and lists come back as Spring pages.
+ */
+
+import { HttpError, Router } from './http.js';
+import { parsePageRequest, toPage } from './pagination.js';
+
+const MB = 1024 * 1024;
+
+/**
+ * Accepted attachment types and size limits, as enforced by the client
+ * (`src/features/chat/domain/attachments.ts`)
+ */
+const ATTACHMENT_KINDS = {
+    image: { maxSize: 10 * MB, types: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] },
+    audio: { maxSize: 20 * MB, types: ['audio/mpeg', 'audio/mp4', 'audio/ogg', 'audio/wav', 'audio/webm'] },
+    file: {
+        maxSize: 25 * MB,
+        types: [
+            'application/pdf',
+            'text/plain',
+            'text/csv',
+            'application/zip',
+            'application/msword',
+            'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+            'application/vnd.ms-excel',
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        ]
+    }
+};
+const MAX_ATTACHMENTS = 10;
+
+/**
+ * Longest voice note, and most bars in its waveform
+ * (`src/features/chat/domain/voiceNotes.ts`)
+ */
+const MAX_VOICE_NOTE_MS = 2 * 60 * 1000;
+const MAX_WAVEFORM_BARS = 256;
+
+/**
+ * Version of the encrypted message format, and the size of an uncompressed
+ * P-256 public key (`src/features/chat/data/encryption/messageCrypto.ts`)
+ */
+const ENCRYPTION_VERSION = 1;
+const PUBLIC_KEY_BYTES = 65;
+
+/**
+ * @typedef {Object} RouteDependencies
+ * @property {{ db: import('./fixtures.js').Database }} state - Current database; replaced on reset
+ * @property {import('./auth.js').TokenService} tokens
+ * @property {import('./sessions.js').SessionService} sessions
+ * @property {import('./realtime.js').RealtimeBroker} realtime
+ */
+
+/**
+ * @param {RouteDependencies} dependencies
+ * @returns {{ router: Router, sendChatMessage: (chatId: string, senderId: string, text: string) => object }}
+ */
+export function createRoutes({ state, tokens, sessions, realtime }) {
+    const router = new Router();
+    const api = path => `/api/v1${path}`;
+
+    // --- lookups and views -------------------------------------------------
+
+    const findUser = id => state.db.users.find(user => user.id === id);
+    const requireUser = id => {
+        const user = findUser(id);
+        if (!user) throw new HttpError(404, `User not found: ${id}`);
+        return user;
+    };
+    const requireEntity = (collection, id, name) => {
+        const entity = state.db[collection].find(item => item.id === id);
+        if (!entity) throw new HttpError(404, `${name} not found: ${id}`);
+        return entity;
+    };
+    const isFollowing = (followerId, followingId) => state.db.follows.has(`${followerId}>${followingId}`);
+
+    const toUser = (user, viewerId) => ({
+        id: user.id,
+        version: user.version,
+        createDate: user.createDate,
+        updateDate: user.updateDate,
+        bio: user.bio,
+        role: user.role,
+        username: user.username,
+        email: user.email,
+        isPrivateAccount: user.settings.isPrivateAccount,
+        isFollower: isFollowing(user.id, viewerId),
+        isFollowing: isFollowing(viewerId, user.id)
+    });
+
+    const toProfile = user => {
+        const { isFollower: _follower, isFollowing: _following, ...profile } = toUser(user, user.id);
+        return { ...profile, settings: user.settings };
+    };
+
+    const reactionsOf = contentId => state.db.reactions.filter(reaction => reaction.contentId === contentId);
+    const toReaction = reaction => reaction && ({
+        id: reaction.id,
+        createDate: reaction.createDate,
+        username: findUser(reaction.userId)?.username ?? '',
+        userId: reaction.userId,
+        contentId: reaction.contentId,
+        reactionType: reaction.reactionType,
+        contentType: reaction.contentType
+    });
+
+    const toPost = (post, viewerId) => {
+        const reactions = reactionsOf(post.id);
+        const parent = post.parentId ? state.db.posts.find(candidate => candidate.id === post.parentId) : undefined;
+        return {
+            id: post.id,
+            version: 0,
+            createDate: post.createDate,
+            updateDate: post.updateDate,
+            userId: post.userId,
+            username: findUser(post.userId)?.username ?? '',
+            title: post.title,
+            text: post.text,
+            poll: post.poll,
+            ...(parent && {
+                repost: {
+                    id: post.id,
+                    text: post.text,
+                    userId: post.userId,
+                    parentId: parent.id,
+                    username: findUser(post.userId)?.username ?? '',
+                    isRepost: true
+                }
+            }),
+            likeCount: reactions.filter(reaction => reaction.reactionType === 'LIKE').length,
+            dislikeCount: reactions.filter(reaction => reaction.reactionType === 'DISLIKE').length,
+            commentCount: state.db.comments.filter(comment => comment.postId === post.id).length,
+            replyCount: 0,
+            repostCount: state.db.posts.filter(candidate => candidate.parentId === post.id).length,
+            isRepost: !!parent,
+            originalPostId: parent?.id ?? null,
+            photos: [],
+            tags: post.tags,
+            mentions: post.mentions,
+            userReaction: toReaction(reactions.find(reaction => reaction.userId === viewerId)) ?? null
+        };
+    };
+
+    const toComment = (comment, viewerId) => {
+        const reactions = reactionsOf(comment.id);
+        return {
+            id: comment.id,
+            createDate: comment.createDate,
+            updateDate: comment.updateDate,
+            parentId: comment.parentId,
+            postId: comment.postId,
+            userId: comment.userId,
+            text: comment.text,
+            username: findUser(comment.userId)?.username ?? '',
+            likeCount: reactions.filter(reaction => reaction.reactionType === 'LIKE').length,
+            replyCount: state.db.comments.filter(reply => reply.parentId === comment.id).length,
+            userReaction: toReaction(reactions.find(reaction => reaction.userId === viewerId)) ?? null
+        };
+    };
+
+    const threadRepliesOf = rootId => state.db.messages.filter(message => message.threadId === rootId);
+
+    const toThreadSummary = rootId => {
+        // Replies are stored newest first
+        const replies = threadRepliesOf(rootId);
+        return {
+            replyCount: replies.length,
+            ...(replies.length > 0 && { lastReplyDate: replies[0].createDate }),
+            participantIds: [...new Set(replies.map(reply => reply.senderId))]
+        };
+    };
+
+    // Uploads are kept in memory and served back as data URLs
+    const toAttachment = attachment => ({
+        id: attachment.id,
+        kind: attachment.kind,
+        name: attachment.name,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        url: attachment.url,
+        ...(attachment.thumbnailUrl && { thumbnailUrl: attachment.thumbnailUrl }),
+        ...(attachment.voiceNote && { voiceNote: attachment.voiceNote })
+    });
+
+    const hidesReadReceipts = userId => !!findUser(userId)?.settings.isHideReadReceipts;
+
+    /**
+     * How far a message got to each other member of its chat. Members who hide
+     * read receipts show as having it delivered, to everyone but themselves.
+     */
+    const toReceipts = (message, viewerId) => {
+        const chat = state.db.chats.find(candidate => candidate.id === message.chatId);
+        return (chat?.userIds ?? []).filter(userId => userId !== message.senderId).map(userId => {
+            const receipt = state.db.receipts.get(`${userId}>${message.id}`);
+            if (receipt?.readDate && (userId === viewerId || !hidesReadReceipts(userId))) {
+                return { userId, state: 'read', updateDate: receipt.readDate };
+            }
+            return receipt
+                ? { userId, state: 'delivered', updateDate: receipt.deliveredDate }
+                : { userId, state: 'sent', updateDate: message.createDate };
+        });
+    };
+
+    /**
+     * @param {object} message - Message record
+     * @param {string} [viewerId] - The member the message is shown to; receipts hidden from others are shown to themselves
+     */
+    const toMessage = (message, viewerId) => {
+        // A reply keeps its `replyToId` when the quoted message is deleted, but loses the quote
+        const quoted = message.replyToId && state.db.messages.find(candidate => candidate.id === message.replyToId);
+        const threadSummary = !message.threadId && toThreadSummary(message.id);
+        // Thread replies are read per thread, not per message
+        const receipts = message.threadId ? [] : toReceipts(message, viewerId);
+        return {
+            id: message.id,
+            createDate: message.createDate,
+            updateDate: message.updateDate,
+            chatId: message.chatId,
+            senderId: message.senderId,
+            recipientId: message.recipientId,
+            text: message.text,
+            ...(message.encrypted && { encrypted: message.encrypted }),
+            senderName: findUser(message.senderId)?.username ?? '',
+            isSeen: receipts.length > 0 && receipts.every(receipt => receipt.state === 'read'),
+            ...(receipts.length > 0 && { receipts }),
+            reactions: message.reactions ?? [],
+            isEdited: (message.edits ?? []).length > 0,
+            ...(message.editDate && { editDate: message.editDate }),
+            ...(message.replyToId && { replyToId: message.replyToId }),
+            ...(message.threadId && { threadId: message.threadId }),
+            ...(threadSummary?.replyCount && { threadSummary }),
+            ...(message.attachmentIds?.length && {
+                attachments: message.attachmentIds
+                    .map(id => state.db.attachments.find(attachment => attachment.id === id))
+                    .filter(Boolean)
+                    .map(toAttachment)
+            }),
+            ...(quoted && {
+                replyTo: {
+                    id: quoted.id,
+                    senderId: quoted.senderId,
+                    senderName: findUser(quoted.senderId)?.username ?? '',
+                    text: quoted.text,
+                    ...(quoted.encrypted && { encrypted: quoted.encrypted })
+                }
+            })
+        };
+    };
+
+    const toChat = (chat, viewerId) => {
+        const recent = state.db.messages.find(message => message.chatId === chat.id && !message.threadId);
+        return {
+            id: chat.id,
+            createDate: chat.createDate,
+            userIds: chat.userIds,
+            members: chat.userIds.map(findUser).filter(Boolean).map(user => toUser(user, viewerId)),
+            isEncrypted: !!chat.isEncrypted,
+            ...(recent && { recentMessage: toMessage(recent, viewerId) })
+        };
+    };
+
+    const toNotification = notification => ({
+        id: notification.id,
+        createDate: notification.createDate,
+        updateDate: notification.createDate,
+        actorId: notification.actorId,
+        contentId: notification.contentId,
+        isSeen: notification.isSeen,
+        type: notification.type
+    });
+
+    const requireChatMember = (chatId, userId) => {
+        const chat = requireEntity('chats', chatId, 'Chat');
+        if (!chat.userIds.includes(userId)) throw new HttpError(403, 'Not a member of this chat');
+        return chat;
+    };
+
+    const notify = (recipientId, actorId, contentId, type) => {
+        if (recipientId === actorId) return;
+        const notification = {
+            id: state.db.nextId(),
+            recipientId,
+            actorId,
+            contentId,
+            type,
+            isSeen: false,
+            createDate: state.db.now()
+        };
+        state.db.notifications.unshift(notification);
+        realtime.publishNotification(recipientId, toNotification(notification));
+    };
+
+    const unreadThreadReplies = (rootId, userId) => {
+        const readAt = state.db.threadReads.get(`${userId}>${rootId}`);
+        return threadRepliesOf(rootId).filter(reply => reply.senderId !== userId && (!readAt || reply.createDate > readAt)).length;
+    };
+
+    const toThread = (root, viewerId) => ({
+        chatId: root.chatId,
+        root: toMessage(root, viewerId),
+        unreadCount: unreadThreadReplies(root.id, viewerId)
+    });
+
+    const publishThreadUpdate = (chat, rootId) => {
+        realtime.publishMessageUpdate(chat, { type: 'THREAD_UPDATE', chatId: chat.id, messageId: rootId, threadSummary: toThreadSummary(rootId) });
+    };
+
+    const deviceKeysOf = userId => state.db.deviceKeys.filter(deviceKey => deviceKey.userId === userId);
+    const toDeviceKey = deviceKey => ({
+        deviceId: deviceKey.deviceId,
+        userId: deviceKey.userId,
+        publicKey: deviceKey.publicKey,
+        createDate: deviceKey.createDate
+    });
+
+    /**
+     * The server cannot read an encrypted message, but it checks the message is
+     * sent from a device of the sender to devices of the chat's members.
+     */
+    const checkEncryptedPayload = (chat, senderId, encrypted) => {
+        if (!chat.isEncrypted) throw new HttpError(400, 'This chat is not encrypted');
+        if (encrypted.version !== ENCRYPTION_VERSION || !encrypted.iv || !encrypted.ciphertext || !Array.isArray(encrypted.keys)) {
+            throw new HttpError(400, 'Malformed encrypted message');
+        }
+        if (!deviceKeysOf(senderId).some(deviceKey => deviceKey.deviceId === encrypted.senderDeviceId)) {
+            throw new HttpError(400, `Unknown sending device: ${encrypted.senderDeviceId}`);
+        }
+        const memberDevices = new Set(state.db.deviceKeys
+            .filter(deviceKey => chat.userIds.includes(deviceKey.userId))
+            .map(deviceKey => deviceKey.deviceId));
+        if (encrypted.keys.length === 0 || encrypted.keys.some(key => !memberDevices.has(key.deviceId))) {
+            throw new HttpError(400, 'An encrypted message can only be addressed to devices of the chat members');
+        }
+    };
+
+    /**
+     * @param {object} chat
+     * @param {string} senderId
+     * @param {string} text - May be empty when the message carries attachments, and is empty when it is encrypted
+     * @param {{ replyToId?: string, threadId?: string, attachmentIds?: string[], encrypted?: object }} [options]
+     */
+    const createMessage = (chat, senderId, text, { replyToId, threadId, attachmentIds = [], encrypted } = {}) => {
+        if (encrypted) {
+            checkEncryptedPayload(chat, senderId, encrypted);
+            if (text) throw new HttpError(400, 'An encrypted message cannot carry plaintext');
+            if (attachmentIds.length > 0) throw new HttpError(400, 'Attachments are not encrypted, so they cannot be sent in an encrypted chat');
+        } else if (chat.isEncrypted) {
+            throw new HttpError(400, 'Messages in an encrypted chat must be encrypted');
+        }
+        if (!text && !encrypted && attachmentIds.length === 0) throw new HttpError(400, 'text is required');
+        if (attachmentIds.length > MAX_ATTACHMENTS) {
+            throw new HttpError(400, `A message can carry up to ${MAX_ATTACHMENTS} attachments`);
+        }
+        // An upload is sent once, by the user who uploaded it
+        const attachments = attachmentIds.map(id => {
+            const attachment = state.db.attachments.find(candidate => candidate.id === id);
+            if (!attachment || attachment.ownerId !== senderId || attachment.messageId) {
+                throw new HttpError(400, `Attachment cannot be sent: ${id}`);
+            }
+            return attachment;
+        });
+        if (replyToId && !state.db.messages.some(message => message.id === replyToId && message.chatId === chat.id)) {
+            throw new HttpError(400, `Cannot reply to a message outside this chat: ${replyToId}`);
+        }
+        // Threads do not nest: a thread starts from a message of the chat itself
+        if (threadId && !state.db.messages.some(message => message.id === threadId && message.chatId === chat.id && !message.threadId)) {
+            throw new HttpError(400, `Cannot start a thread from this message: ${threadId}`);
+        }
+        const createDate = state.db.now();
+        const message = {
+            id: state.db.nextId(),
+            chatId: chat.id,
+            senderId,
+            recipientId: chat.userIds.find(id => id !== senderId) ?? senderId,
+            text,
+            reactions: [],
+            edits: [],
+            ...(replyToId && { replyToId }),
+            ...(threadId && { threadId }),
+            ...(attachments.length > 0 && { attachmentIds: attachments.map(attachment => attachment.id) }),
+            ...(encrypted && { encrypted }),
+            createDate,
+            updateDate: createDate
+        };
+        attachments.forEach(attachment => {
+            attachment.messageId = message.id;
+        });
+        state.db.messages.unshift(message);
+        // Members with a device connected get the message right away
+        chat.userIds.filter(userId => userId !== senderId && realtime.isConnected(userId)).forEach(userId => {
+            state.db.receipts.set(`${userId}>${message.id}`, { deliveredDate: createDate });
+        });
+        if (threadId) {
+            // Replying reads the thread up to the reply
+            state.db.threadReads.set(`${senderId}>${threadId}`, createDate);
+            realtime.publishThreadMessage(chat, toMessage(message));
+            publishThreadUpdate(chat, threadId);
+        } else {
+            realtime.publishChatMessage(chat, toMessage(message));
+        }
+        return message;
+    };
+
+    // --- auth --------------------------------------------------------------
+
+    router
+        .add('POST', api('/auth/register'), ({ body }) => {
+            const { email, password, username, firstname = '', lastname = '' } = body;
+            if (!email || !password || !username) throw new HttpError(400, 'email, password and username are required');
+            if (state.db.users.some(user => user.email === email || user.username === username)) {
+                throw new HttpError(409, 'Email or username is already taken');
+            }
+
+            const createDate = state.db.now();
+            state.db.users.push({
+                id: state.db.nextId(),
+                username,
+                email,
+                password,
+                firstname,
+                lastname,
+                bio: '',
+                role: 'user',
+                enabled: false,
+                createDate,
+                updateDate: createDate,
+                version: 0,
+                settings: {
+                    id: state.db.nextId(),
+                    bio: '',
+                    isPrivateAccount: false,
+                    isNotificationsMuted: false,
+                    isAllowPublicGroupChatInvite: true,
+                    isAllowPublicMessageRequests: true,
+                    isAllowPublicComments: true,
+                    isHideLikeCounts: false,
+                    isHideReadReceipts: false,
+                    blockedUserids: []
+                }
+            });
+            tokens.issueActivationCode(email);
+        }, { isPublic: true })
+        .add('POST', api('/auth/activate-account'), ({ query }) => {
+            tokens.activate(query.get('token') ?? '');
+        }, { isPublic: true })
+        .add('POST', api('/auth/resend-code'), ({ query }) => {
+            const email = query.get('email') ?? '';
+            if (!state.db.users.some(user => user.email === email && !user.enabled)) {
+                throw new HttpError(404, `No pending activation for ${email}`);
+            }
+            tokens.issueActivationCode(email);
+        }, { isPublic: true })
+        .add('POST', api('/auth/authenticate'), ({ body, client }) => tokens.authenticate(body.email, body.password, client), { isPublic: true })
+        .add('POST', api('/auth/passkey'), ({ body, client }) => tokens.authenticateWithPasskey(body.userId ?? '', client), { isPublic: true })
+        .add('POST', api('/auth/refresh-token'), ({ body }) => tokens.refresh(body.token ?? body.refreshToken ?? ''), { isPublic: true })
+        .add('POST', api('/auth/signout'), ({ auth, body }) => {
+            tokens.signOut(auth, body.refreshToken);
+        })
+        .add('POST', api('/auth/reauthenticate'), ({ auth, body }) => tokens.reauthenticate(auth, body.password ?? ''))
+        .add('POST', api('/auth/forgot-password'), ({ body }) => {
+            tokens.issuePasswordResetToken(body.email ?? '');
+        }, { isPublic: true })
+        .add('POST', api('/auth/reset-password'), ({ body }) => {
+            const revoked = tokens.resetPassword(body.token ?? '', body.password ?? '');
+            revoked.forEach(session => realtime.publishSessionRevoked(session));
+        }, { isPublic: true })
+        .add('POST', api('/auth/change-email'), ({ auth, body }) => {
+            tokens.issueEmailChangeToken(auth, body.email ?? '');
+        })
+        .add('POST', api('/auth/confirm-email-change'), ({ body }) => {
+            tokens.confirmEmailChange(body.token ?? '');
+        }, { isPublic: true })
+        .add('GET', api('/auth/sessions'), ({ auth }) => sessions.list(auth.sub, auth.sid))
+        .add('DELETE', api('/auth/sessions'), ({ auth }) => {
+            const revoked = sessions.revokeOthers(auth.sub, auth.sid);
+            revoked.forEach(session => realtime.publishSessionRevoked(session));
+            return { revoked: revoked.length };
+        })
+        .add('DELETE', api('/auth/sessions/:sessionId'), ({ auth, params }) => {
+            realtime.publishSessionRevoked(sessions.revoke(auth.sub, params.sessionId));
+        });
+
+    // --- users -------------------------------------------------------------
+
+    router
+        .add('GET', api('/users/profile'), ({ auth }) => toProfile(requireUser(auth.sub)))
+        .add('PATCH', api('/users/profile/settings'), ({ auth, body }) => {
+            const user = requireUser(auth.sub);
+            const allowed = ['bio', 'isPrivateAccount', 'isNotificationsMuted', 'isAllowPublicGroupChatInvite',
+                'isAllowPublicMessageRequests', 'isAllowPublicComments', 'isHideLikeCounts', 'isHideReadReceipts'];
+            allowed.filter(key => key in body).forEach(key => {
+                user.settings[key] = body[key];
+            });
+            user.bio = user.settings.bio;
+            user.updateDate = state.db.now();
+            user.version++;
+            return user.settings;
+        })
+        .add('GET', api('/users/search'), ({ auth, query }) => {
+            const text = (query.get('username') ?? '').toLowerCase();
+            const matches = state.db.users.filter(user => user.enabled && user.username.toLowerCase().includes(text));
+            return toPage(matches.map(user => toUser(user, auth.sub)), parsePageRequest(query));
+        })
+        .add('POST', api('/users/follow/:userId/toggle-follow'), ({ auth, params }) => {
+            requireUser(params.userId);
+            const key = `${auth.sub}>${params.userId}`;
+            if (state.db.follows.delete(key)) return;
+            state.db.follows.add(key);
+            notify(params.userId, auth.sub, auth.sub, 'FOLLOW_REQUEST');
+        })
+        .add('POST', api('/users/followers/remove/:userId'), ({ auth, params }) => {
+            state.db.follows.delete(`${params.userId}>${auth.sub}`);
+        })
+        .add('GET', api('/users/:userId/followers'), ({ auth, params, query }) => {
+            requireUser(params.userId);
+            const followers = state.db.users.filter(user => isFollowing(user.id, params.userId));
+            return toPage(followers.map(user => toUser(user, auth.sub)), parsePageRequest(query));
+        })
+        .add('GET', api('/users/:userId/followings'), ({ auth, params, query }) => {
+            requireUser(params.userId);
+            const followings = state.db.users.filter(user => isFollowing(params.userId, user.id));
+            return toPage(followings.map(user => toUser(user, auth.sub)), parsePageRequest(query));
+        })
+        .add('GET', api('/users/:userId'), ({ auth, params }) => toUser(requireUser(params.userId), auth.sub));
+
+    // --- posts -------------------------------------------------------------
+
+    const postPage = (posts, auth, query) => toPage(posts.map(post => toPost(post, auth.sub)), parsePageRequest(query));
+
+    router
+        .add('GET', api('/posts'), ({ auth, query }) => postPage(state.db.posts, auth, query))
+        .add('POST', api('/posts'), ({ auth, body }) => {
+            if (!body.text) throw new HttpError(400, 'text is required');
+            const createDate = state.db.now();
+            const post = {
+                id: state.db.nextId(),
+                userId: auth.sub,
+                title: body.title ?? '',
+                text: body.text,
+                viewAccess: body.viewAccess ?? 'anyone',
+                poll: null,
+                parentId: null,
+                tags: [],
+                mentions: [],
+                createDate,
+                updateDate: createDate
+            };
+            state.db.posts.unshift(post);
+            return toPost(post, auth.sub);
+        })
+        .add('GET', api('/posts/saved'), ({ auth, query }) => postPage(
+            state.db.posts.filter(post => state.db.savedPosts.has(`${auth.sub}>${post.id}`)), auth, query
+        ))
+        .add('PATCH', api('/posts/saved/:postId'), ({ auth, params }) => {
+            requireEntity('posts', params.postId, 'Post');
+            state.db.savedPosts.add(`${auth.sub}>${params.postId}`);
+        })
+        .add('DELETE', api('/posts/saved/:postId'), ({ auth, params }) => {
+            state.db.savedPosts.delete(`${auth.sub}>${params.postId}`);
+        })
+        .add('GET', api('/posts/search'), ({ auth, query }) => {
+            const text = (query.get('query') ?? query.get('q') ?? '').toLowerCase();
+            return postPage(state.db.posts.filter(post => `${post.title} ${post.text}`.toLowerCase().includes(text)), auth, query);
+        })
+        .add('POST', api('/posts/repost'), ({ auth, body }) => {
+            const parent = requireEntity('posts', body.postId, 'Post');
+            const createDate = state.db.now();
+            const repost = {
+                id: state.db.nextId(),
+                userId: auth.sub,
+                title: '',
+                text: body.text ?? '',
+                viewAccess: 'anyone',
+                poll: null,
+                parentId: parent.id,
+                tags: [],
+                mentions: [],
+                createDate,
+                updateDate: createDate
+            };
+            state.db.posts.unshift(repost);
+            notify(parent.userId, auth.sub, repost.id, 'REPOST');
+            return toPost(repost, auth.sub);
+        })
+        .add('GET', api('/posts/user/:userId/commented'), ({ auth, params, query }) => {
+            const commented = new Set(state.db.comments.filter(comment => comment.userId === params.userId).map(comment => comment.postId));
+            return postPage(state.db.posts.filter(post => commented.has(post.id)), auth, query);
+        })
+        .add('GET', api('/posts/user/:userId'), ({ auth, params, query }) => postPage(
+            state.db.posts.filter(post => post.userId === params.userId), auth, query
+        ))
+        .add('GET', api('/posts/:postId'), ({ auth, params }) => toPost(requireEntity('posts', params.postId, 'Post'), auth.sub))
+        .add('PUT', api('/posts/:postId'), ({ auth, params, body }) => {
+            const post = requireEntity('posts', params.postId, 'Post');
+            if (post.userId !== auth.sub) throw new HttpError(403, 'Only the author can edit a post');
+            post.title = body.title ?? post.title;
+            post.text = body.text ?? post.text;
+            post.updateDate = state.db.now();
+            return toPost(post, auth.sub);
+        })
+        .add('DELETE', api('/posts/:postId'), ({ auth, params }) => {
+            const post = requireEntity('posts', params.postId, 'Post');
+            if (post.userId !== auth.sub) throw new HttpError(403, 'Only the author can delete a post');
+            state.db.posts = state.db.posts.filter(candidate => candidate.id !== post.id);
+            state.db.comments = state.db.comments.filter(comment => comment.postId !== post.id);
+        });
+
+    // --- reactions ---------------------------------------------------------
+
+    const toggleReaction = ({ auth, body }) => {
+        const { contentId, contentType = 'POST', reactionType = 'LIKE' } = body;
+        const collection = contentType === 'COMMENT' ? 'comments' : 'posts';
+        const content = requireEntity(collection, contentId, contentType === 'COMMENT' ? 'Comment' : 'Post');
+
+        const existing = state.db.reactions.find(reaction => reaction.contentId === contentId && reaction.userId === auth.sub);
+        state.db.reactions = state.db.reactions.filter(reaction => reaction !== existing);
+        if (existing?.reactionType === reactionType) return;
+
+        state.db.reactions.push({
+            id: state.db.nextId(),
+            userId: auth.sub,
+            contentId,
+            contentType,
+            reactionType,
+            createDate: state.db.now()
+        });
+        notify(content.userId, auth.sub, contentId, contentType === 'COMMENT' ? 'COMMENT_REACTION' : 'POST_REACTION');
+    };
+
+    router
+        .add('POST', api('/reactions/toggle-reaction'), toggleReaction)
+        .add('POST', api('/comments/toggle-reaction'), toggleReaction);
+
+    // --- comments ----------------------------------------------------------
+
+    router
+        .add('GET', api('/comments/post/:postId'), ({ auth, params, query }) => {
+            requireEntity('posts', params.postId, 'Post');
+            const comments = state.db.comments.filter(comment => comment.postId === params.postId);
+            return toPage(comments.map(comment => toComment(comment, auth.sub)), parsePageRequest(query));
+        })
+        .add('GET', api('/comments/user/:userId/post/:postId/latest'), ({ auth, params }) => {
+            const latest = state.db.comments.find(comment => comment.userId === params.userId && comment.postId === params.postId);
+            if (!latest) throw new HttpError(404, 'No comment found');
+            return toComment(latest, auth.sub);
+        })
+        .add('POST', api('/comments'), ({ auth, body }) => {
+            const post = requireEntity('posts', body.postId, 'Post');
+            if (!body.text) throw new HttpError(400, 'text is required');
+            const parent = body.parentId ? requireEntity('comments', body.parentId, 'Comment') : null;
+            const createDate = state.db.now();
+            const comment = {
+                id: state.db.nextId(),
+                postId: post.id,
+                userId: auth.sub,
+                parentId: parent?.id ?? null,
+                text: body.text,
+                createDate,
+                updateDate: createDate
+            };
+            state.db.comments.unshift(comment);
+            notify(parent ? parent.userId : post.userId, auth.sub, comment.id, parent ? 'COMMENT_REPLY' : 'COMMENT');
+            return toComment(comment, auth.sub);
+        })
+        .add('DELETE', api('/comments/:commentId'), ({ auth, params }) => {
+            const comment = requireEntity('comments', params.commentId, 'Comment');
+            if (comment.userId !== auth.sub) throw new HttpError(403, 'Only the author can delete a comment');
+            state.db.comments = state.db.comments.filter(candidate => candidate.id !== comment.id && candidate.parentId !== comment.id);
+        });
+
+    // --- chats and messages -------------------------------------------------
+
+    const messagePage = (chatId, viewerId, query) => toPage(
+        state.db.messages.filter(message => message.chatId === chatId && !message.threadId).map(message => toMessage(message, viewerId)),
+        parsePageRequest(query)
+    );
+
+    /**
+     * Loading a chat delivers the messages that had not reached the user yet
+     */
+    const deliverTo = (chat, userId) => {
+        const date = state.db.now();
+        const delivered = state.db.messages
+            .filter(message => message.chatId === chat.id && !message.threadId && message.senderId !== userId)
+            .filter(message => !state.db.receipts.has(`${userId}>${message.id}`));
+        if (delivered.length === 0) return;
+        delivered.forEach(message => state.db.receipts.set(`${userId}>${message.id}`, { deliveredDate: date }));
+        realtime.publishReceipts(chat, { chatId: chat.id, userId, messageIds: delivered.map(message => message.id), state: 'delivered', date });
+    };
+
+    const requireChatMessage = (messageId, userId) => {
+        const message = requireEntity('messages', messageId, 'Message');
+        return { message, chat: requireChatMember(message.chatId, userId) };
+    };
+
+    const requireThreadRoot = (messageId, userId) => {
+        const { message } = requireChatMessage(messageId, userId);
+        if (message.threadId) throw new HttpError(400, `Message ${messageId} is a reply inside a thread`);
+        return message;
+    };
+
+    router
+        .add('GET', api('/chats/members/:userId'), ({ auth, params, query }) => {
+            if (params.userId !== auth.sub) throw new HttpError(403, 'Chats of other users are private');
+            const memberOf = state.db.chats.filter(chat => chat.userIds.includes(auth.sub));
+            memberOf.forEach(chat => deliverTo(chat, auth.sub));
+            const chats = memberOf.map(chat => toChat(chat, auth.sub));
+            const lastActivity = chat => chat.recentMessage?.createDate ?? chat.createDate;
+            return toPage(chats.sort((a, b) => (lastActivity(a) < lastActivity(b) ? 1 : -1)), parsePageRequest(query));
+        })
+        .add('GET', api('/chats/unread/count'), ({ auth }) => {
+            const memberOf = new Set(state.db.chats.filter(chat => chat.userIds.includes(auth.sub)).map(chat => chat.id));
+            return state.db.messages
+                .filter(message => memberOf.has(message.chatId) && message.senderId !== auth.sub && !message.threadId)
+                .filter(message => !state.db.receipts.get(`${auth.sub}>${message.id}`)?.readDate).length;
+        })
+        .add('GET', api('/chats/threads'), ({ auth, query }) => {
+            const memberOf = new Set(state.db.chats.filter(chat => chat.userIds.includes(auth.sub)).map(chat => chat.id));
+            const roots = state.db.messages.filter(message => memberOf.has(message.chatId) && !message.threadId)
+                .filter(root => {
+                    const replies = threadRepliesOf(root.id);
+                    return replies.length > 0 && (root.senderId === auth.sub || replies.some(reply => reply.senderId === auth.sub));
+                });
+            const lastReply = root => threadRepliesOf(root.id)[0].createDate;
+            return toPage(roots.sort((a, b) => (lastReply(a) < lastReply(b) ? 1 : -1)).map(root => toThread(root, auth.sub)), parsePageRequest(query));
+        })
+        .add('POST', api('/chats'), ({ auth, body }) => {
+            const userIds = [...new Set([auth.sub, ...(body.userIds ?? []), body.recipientId].filter(Boolean))];
+            if (userIds.length < 2) throw new HttpError(400, 'A chat needs at least two members');
+            userIds.forEach(requireUser);
+
+            const chat = { id: state.db.nextId(), userIds, isGroupChat: !!body.isGroupChat, createDate: state.db.now() };
+            state.db.chats.unshift(chat);
+            if (body.text) {
+                createMessage(chat, auth.sub, body.text);
+            }
+            return toChat(chat, auth.sub);
+        })
+        .add('GET', api('/chats/:chatId'), ({ auth, params }) => toChat(requireChatMember(params.chatId, auth.sub), auth.sub))
+        .add('DELETE', api('/chats/:chatId'), ({ auth, params }) => {
+            requireChatMember(params.chatId, auth.sub);
+            state.db.chats = state.db.chats.filter(chat => chat.id !== params.chatId);
+            state.db.messages = state.db.messages.filter(message => message.chatId !== params.chatId);
+        })
+        .add('PATCH', api('/chats/:chatId/members/add/:userId'), ({ auth, params }) => {
+            const chat = requireChatMember(params.chatId, auth.sub);
+            requireUser(params.userId);
+            if (!chat.userIds.includes(params.userId)) chat.userIds.push(params.userId);
+            return toChat(chat, auth.sub);
+        })
+        .add('PATCH', api('/chats/:chatId/members/remove/:userId'), ({ auth, params }) => {
+            const chat = requireChatMember(params.chatId, auth.sub);
+            chat.userIds = chat.userIds.filter(id => id !== params.userId);
+            return toChat(chat, auth.sub);
+        })
+        .add('POST', api('/chats/:chatId/encryption'), ({ auth, params }) => {
+            const chat = requireChatMember(params.chatId, auth.sub);
+            if (chat.isGroupChat || chat.userIds.length !== 2) throw new HttpError(400, 'Only one-to-one chats can be encrypted');
+            const unprepared = chat.userIds.find(userId => deviceKeysOf(userId).length === 0);
+            if (unprepared) {
+                throw new HttpError(409, `${findUser(unprepared)?.username ?? unprepared} has not set up encryption on any device yet`);
+            }
+            // Encryption cannot be turned off again, so nobody can downgrade a chat to plaintext
+            chat.isEncrypted = true;
+            return toChat(chat, auth.sub);
+        })
+        .add('GET', api('/chats/:chatId/participants'), ({ auth, params }) => toChat(requireChatMember(params.chatId, auth.sub), auth.sub).members)
+        .add('GET', api('/chats/:chatId/messages'), ({ auth, params, query }) => {
+            deliverTo(requireChatMember(params.chatId, auth.sub), auth.sub);
+            return messagePage(params.chatId, auth.sub, query);
+        })
+        .add('POST', api('/chats/:chatId/messages'), ({ auth, params, body }) => {
+            const chat = requireChatMember(params.chatId, auth.sub);
+            return toMessage(createMessage(chat, auth.sub, body.text ?? '', body), auth.sub);
+        })
+        .add('POST', api('/chats/:chatId/messages/read'), ({ auth, params, body }) => {
+            const chat = requireChatMember(params.chatId, auth.sub);
+            const ids = new Set(body.messageIds ?? []);
+            const date = state.db.now();
+            const read = state.db.messages
+                .filter(message => message.chatId === chat.id && !message.threadId && message.senderId !== auth.sub && (ids.size === 0 || ids.has(message.id)))
+                .filter(message => !state.db.receipts.get(`${auth.sub}>${message.id}`)?.readDate);
+            read.forEach(message => {
+                const key = `${auth.sub}>${message.id}`;
+                state.db.receipts.set(key, { deliveredDate: state.db.receipts.get(key)?.deliveredDate ?? date, readDate: date });
+            });
+            // The reader's own devices still sync; hidden reads are not told to the senders
+            if (read.length > 0 && !hidesReadReceipts(auth.sub)) {
+                realtime.publishReceipts(chat, { chatId: chat.id, userId: auth.sub, messageIds: read.map(message => message.id), state: 'read', date });
+            }
+            return { marked: read.length };
+        })
+        .add('GET', api('/messages/chat/:chatId'), ({ auth, params, query }) => {
+            deliverTo(requireChatMember(params.chatId, auth.sub), auth.sub);
+            return messagePage(params.chatId, auth.sub, query);
+        })
+        .add('GET', api('/messages/search'), ({ auth, query }) => {
+            // Every word must occur, ignoring case and accents; encrypted texts are empty here and never match
+            const fold = text => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+            const text = (query.get('query') ?? query.get('q') ?? '').trim();
+            if (text.length < 2) throw new HttpError(400, 'A search needs at least 2 characters');
+            const terms = fold(text).split(/\s+/);
+
+            const chatId = query.get('chatId');
+            if (chatId) requireChatMember(chatId, auth.sub);
+            const memberOf = new Set(state.db.chats.filter(chat => chat.userIds.includes(auth.sub)).map(chat => chat.id));
+            const senderId = query.get('senderId');
+            const [from, to] = ['from', 'to'].map(name => {
+                const value = query.get(name);
+                if (!value) return null;
+                const time = Date.parse(value);
+                if (Number.isNaN(time)) throw new HttpError(400, `${name} is not a date`);
+                return time;
+            });
+
+            const found = state.db.messages.filter(message => {
+                if (chatId ? message.chatId !== chatId : !memberOf.has(message.chatId)) return false;
+                if (senderId && message.senderId !== senderId) return false;
+                const sentAt = Date.parse(message.createDate);
+                if ((from !== null && sentAt < from) || (to !== null && sentAt >= to)) return false;
+                const folded = fold(message.text ?? '');
+                return terms.every(term => folded.includes(term));
+            });
+            return toPage(found.map(message => toMessage(message, auth.sub)), parsePageRequest(query));
+        })
+        .add('POST', api('/messages'), ({ auth, body }) => {
+            const chat = requireChatMember(body.chatId, auth.sub);
+            return toMessage(createMessage(chat, auth.sub, body.text ?? '', body), auth.sub);
+        })
+        .add('POST', api('/messages/attachments'), ({ auth, body }) => {
+            const { file, thumbnail } = body;
+            if (!file?.data) throw new HttpError(400, 'file is required');
+            const [kind, limits] = Object.entries(ATTACHMENT_KINDS).find(([, candidate]) => candidate.types.includes(file.contentType)) ?? [];
+            if (!kind || !limits) throw new HttpError(415, `Unsupported attachment type: ${file.contentType}`);
+            if (file.data.length > limits.maxSize) {
+                throw new HttpError(413, `${file.filename} is larger than ${limits.maxSize / MB} MB, the limit for ${kind} attachments`);
+            }
+
+            // A recorded voice note comes with its length and waveform
+            let voiceNote = null;
+            if (body.durationMs !== undefined) {
+                const durationMs = Number(body.durationMs);
+                if (kind !== 'audio') throw new HttpError(400, 'Only audio attachments can be voice notes');
+                if (!Number.isFinite(durationMs) || durationMs <= 0 || durationMs > MAX_VOICE_NOTE_MS) {
+                    throw new HttpError(400, `A voice note can be up to ${MAX_VOICE_NOTE_MS / 1000} seconds long`);
+                }
+                let waveform;
+                try {
+                    waveform = JSON.parse(body.waveform ?? '[]');
+                } catch {
+                    waveform = null;
+                }
+                if (!Array.isArray(waveform) || waveform.length > MAX_WAVEFORM_BARS
+                    || waveform.some(level => typeof level !== 'number' || level < 0 || level > 1)) {
+                    throw new HttpError(400, `waveform must be a JSON array of up to ${MAX_WAVEFORM_BARS} levels from 0 to 1`);
+                }
+                voiceNote = { durationMs: Math.round(durationMs), waveform };
+            }
+
+            const toDataUrl = part => `data:${part.contentType};base64,${part.data.toString('base64')}`;
+            const attachment = {
+                id: state.db.nextId(),
+                ownerId: auth.sub,
+                messageId: null,
+                kind,
+                name: file.filename,
+                mimeType: file.contentType,
+                size: file.data.length,
+                url: toDataUrl(file),
+                ...(kind === 'image' && thumbnail?.data && { thumbnailUrl: toDataUrl(thumbnail) }),
+                ...(voiceNote && { voiceNote }),
+                createDate: state.db.now()
+            };
+            state.db.attachments.push(attachment);
+            return toAttachment(attachment);
+        })
+        .add('DELETE', api('/messages/:messageId'), ({ auth, params }) => {
+            const message = requireEntity('messages', params.messageId, 'Message');
+            if (message.senderId !== auth.sub) throw new HttpError(403, 'Only the sender can delete a message');
+            // Deleting the message that started a thread deletes the thread
+            state.db.messages = state.db.messages.filter(candidate => candidate.id !== message.id && candidate.threadId !== message.id);
+            state.db.attachments = state.db.attachments.filter(attachment => attachment.messageId !== message.id);
+            const chat = state.db.chats.find(candidate => candidate.id === message.chatId);
+            if (chat) {
+                realtime.publishChatEvent(chat, { type: 'DELETE_MESSAGE', chatId: chat.id, messageId: message.id, actorId: auth.sub });
+                if (message.threadId) {
+                    publishThreadUpdate(chat, message.threadId);
+                }
+            }
+        })
+        .add('PATCH', api('/messages/:messageId'), ({ auth, params, body }) => {
+            const { message, chat } = requireChatMessage(params.messageId, auth.sub);
+            if (message.senderId !== auth.sub) throw new HttpError(403, 'Only the sender can edit a message');
+            if (chat.isEncrypted) throw new HttpError(400, 'Messages in an encrypted chat cannot be edited');
+            if (!body.text) throw new HttpError(400, 'text is required');
+            if (body.text === message.text) return toMessage(message);
+
+            const editDate = state.db.now();
+            message.edits = [...(message.edits ?? []), { text: message.text, editDate }];
+            message.text = body.text;
+            message.editDate = editDate;
+            message.updateDate = editDate;
+            realtime.publishMessageUpdate(chat, { type: 'EDIT_MESSAGE', chatId: chat.id, messageId: message.id, message: toMessage(message) });
+            return toMessage(message);
+        })
+        .add('GET', api('/messages/:messageId/edits'), ({ auth, params }) => requireChatMessage(params.messageId, auth.sub).message.edits ?? [])
+        .add('POST', api('/messages/:messageId/reactions'), ({ auth, params, body }) => {
+            const { message, chat } = requireChatMessage(params.messageId, auth.sub);
+            if (!body.emoji) throw new HttpError(400, 'emoji is required');
+
+            message.reactions = message.reactions ?? [];
+            if (!message.reactions.some(reaction => reaction.emoji === body.emoji && reaction.userId === auth.sub)) {
+                const reaction = { emoji: body.emoji, userId: auth.sub, timestamp: Date.now() };
+                message.reactions.push(reaction);
+                realtime.publishMessageUpdate(chat, { type: 'ADD_REACTION', chatId: chat.id, messageId: message.id, reaction });
+            }
+            return toMessage(message);
+        })
+        .add('DELETE', api('/messages/:messageId/reactions/:emoji'), ({ auth, params }) => {
+            const { message, chat } = requireChatMessage(params.messageId, auth.sub);
+            const reaction = (message.reactions ?? []).find(candidate => candidate.emoji === params.emoji && candidate.userId === auth.sub);
+            if (reaction) {
+                message.reactions = message.reactions.filter(candidate => candidate !== reaction);
+                realtime.publishMessageUpdate(chat, { type: 'REMOVE_REACTION', chatId: chat.id, messageId: message.id, reaction });
+            }
+            return toMessage(message);
+        })
+        .add('GET', api('/messages/:messageId/thread'), ({ auth, params }) => toThread(requireThreadRoot(params.messageId, auth.sub), auth.sub))
+        .add('GET', api('/messages/:messageId/thread/messages'), ({ auth, params, query }) => {
+            const root = requireThreadRoot(params.messageId, auth.sub);
+            return toPage(threadRepliesOf(root.id).map(message => toMessage(message)), parsePageRequest(query));
+        })
+        .add('POST', api('/messages/:messageId/thread/read'), ({ auth, params }) => {
+            const root = requireThreadRoot(params.messageId, auth.sub);
+            state.db.threadReads.set(`${auth.sub}>${root.id}`, state.db.now());
+        });
+
+    // --- encryption ----------------------------------------------------------
+
+    router
+        .add('PUT', api('/encryption/devices/:deviceId'), ({ auth, params, body }) => {
+            const publicKey = body.publicKey ?? '';
+            if (!/^[A-Za-z0-9_-]+$/.test(publicKey) || Buffer.from(publicKey, 'base64url').length !== PUBLIC_KEY_BYTES) {
+                throw new HttpError(400, 'publicKey must be a base64url encoded P-256 public key');
+            }
+            const existing = state.db.deviceKeys.find(deviceKey => deviceKey.deviceId === params.deviceId);
+            if (existing && existing.userId !== auth.sub) throw new HttpError(409, `Device ID is taken: ${params.deviceId}`);
+            // A device keeps its ID for life; publishing it again with a new key means it was set up again
+            if (existing) {
+                existing.publicKey = publicKey;
+                return toDeviceKey(existing);
+            }
+
+            const deviceKey = { deviceId: params.deviceId, userId: auth.sub, publicKey, createDate: state.db.now() };
+            state.db.deviceKeys.push(deviceKey);
+            return toDeviceKey(deviceKey);
+        })
+        .add('GET', api('/encryption/users/:userId/devices'), ({ params }) => {
+            requireUser(params.userId);
+            return deviceKeysOf(params.userId).map(toDeviceKey);
+        });
+
+    // --- notifications -------------------------------------------------------
+
+    const notificationsOf = userId => state.db.notifications.filter(notification => notification.recipientId === userId);
+    const requireNotification = (id, userId) => {
+        const notification = requireEntity('notifications', id, 'Notification');
+        if (notification.recipientId !== userId) throw new HttpError(403, 'Not your notification');
+        return notification;
+    };
+
+    router
+        .add('GET', api('/notifications'), ({ auth, query }) => toPage(notificationsOf(auth.sub).map(toNotification), parsePageRequest(query)))
+        .add('GET', api('/notifications/count-pending'), ({ auth }) => notificationsOf(auth.sub).filter(notification => !notification.isSeen).length)
+        .add('GET', api('/notifications/count-unread'), ({ auth }) => notificationsOf(auth.sub).filter(notification => !notification.isSeen).length)
+        .add('GET', api('/notifications/type/:type'), ({ auth, params, query }) => toPage(
+            notificationsOf(auth.sub).filter(notification => notification.type === params.type).map(toNotification),
+            parsePageRequest(query)
+        ))
+        .add('GET', api('/notifications/search'), ({ auth, query }) => {
+            const text = (query.get('q') ?? '').toLowerCase();
+            const matches = notificationsOf(auth.sub).filter(notification =>
+                notification.type.toLowerCase().includes(text) || (findUser(notification.actorId)?.username ?? '').includes(text));
+            return toPage(matches.map(toNotification), parsePageRequest(query));
+        })
+        .add('POST', api('/notifications/seen-batch'), ({ auth, body }) => {
+            (body.notificationIds ?? []).forEach(id => {
+                requireNotification(id, auth.sub).isSeen = true;
+            });
+        })
+        .add('POST', api('/notifications/seen/:notificationId'), ({ auth, params }) => {
+            // Older clients pass the content id instead of the notification id
+            const matches = notificationsOf(auth.sub)
+                .filter(notification => notification.id === params.notificationId || notification.contentId === params.notificationId);
+            if (matches.length === 0) throw new HttpError(404, `Notification not found: ${params.notificationId}`);
+            matches.forEach(notification => {
+                notification.isSeen = true;
+            });
+            return toNotification(matches[0]);
+        })
+        .add('DELETE', api('/notifications/batch'), ({ auth, body }) => {
+            const ids = new Set(body.notificationIds ?? []);
+            state.db.notifications = state.db.notifications.filter(notification => notification.recipientId !== auth.sub || !ids.has(notification.id));
+        })
+        .add('GET', api('/notifications/:notificationId'), ({ auth, params }) => toNotification(requireNotification(params.notificationId, auth.sub)))
+        .add('DELETE', api('/notifications/:notificationId'), ({ auth, params }) => {
+            const notification = requireNotification(params.notificationId, auth.sub);
+            state.db.notifications = state.db.notifications.filter(candidate => candidate !== notification);
+        });
+
+    /**
+     * Store a message sent over the WebSocket, as if it was posted to `/messages`
+     */
+    const sendChatMessage = (chatId, senderId, text) => toMessage(createMessage(requireChatMember(chatId, senderId), senderId, text));
+
+    return { router, sendChatMessage };
+}
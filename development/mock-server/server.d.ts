@@ -0,0 +1,32 @@
+/**
+ * Types of the mock server factory used from TypeScript (tests).
+ */
+
+import type { Server } from 'node:http';
+
+import type { Database } from './fixtures.js';
+
+export interface MockServerOptions {
+    /** Fixture seed */
+    seed?: number;
+    /** JWT signing secret */
+    secret?: string;
+    /** Seconds */
+    accessTokenTtl?: number;
+    /** Seconds */
+    refreshTokenTtl?: number;
+    /** Artificial delay for REST responses, in ms */
+    latency?: number;
+    log?: (message: string) => void;
+}
+
+export interface MockServer {
+    server: Server;
+    state: { db: Database };
+    /** Reseeds the database and forgets the realtime topic history */
+    reset(): void;
+    listen(port: number, host?: string): Promise<void>;
+    close(): Promise<void>;
+}
+
+export declare function createMockServer(options?: MockServerOptions): MockServer;
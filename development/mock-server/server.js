@@ -0,0 +1,136 @@
+/**
+ * Local stand-in for the QuietSpace backend.
+ *
+ * Serves the REST API under `/api/v1` and the realtime endpoint at `/ws` from
+ * deterministic fixtures held in memory. A few `/__mock` endpoints let tests
+ * check health, reseed the data and read activation codes.
+ */
+
+import { createServer } from 'node:http';
+
+import { TokenService } from './auth.js';
+import { createFixtures } from './fixtures.js';
+import { applyCors, getClientInfo, HttpError, readRequestBody, Router, sendError, sendJson } from './http.js';
+import { RealtimeBroker } from './realtime.js';
+import { createRoutes } from './routes.js';
+import { SessionService } from './sessions.js';
+
+/**
+ * @typedef {Object} MockServerOptions
+ * @property {number} [seed] - Fixture seed
+ * @property {string} [secret] - JWT signing secret
+ * @property {number} [accessTokenTtl] - Seconds
+ * @property {number} [refreshTokenTtl] - Seconds
+ * @property {number} [latency] - Artificial delay for REST responses, in ms
+ * @property {(message: string) => void} [log]
+ */
+
+/**
+ * @param {MockServerOptions} [options]
+ */
+export function createMockServer(options = {}) {
+    const {
+        seed = 1,
+        secret = 'quietspace-mock-secret',
+        accessTokenTtl = 15 * 60,
+        refreshTokenTtl = 7 * 24 * 60 * 60,
+        latency = 0,
+        log = () => undefined
+    } = options;
+
+    const state = { db: createFixtures(seed) };
+    const sessions = new SessionService(state);
+    const tokens = new TokenService(state, sessions, { secret, accessTokenTtl, refreshTokenTtl, log });
+    const realtime = new RealtimeBroker({ state, tokens, log });
+    const { router, sendChatMessage } = createRoutes({ state, tokens, sessions, realtime });
+    realtime.sendChatMessage = sendChatMessage;
+
+    const reset = () => {
+        state.db = createFixtures(seed);
+        realtime.reset();
+        log(`Database reseeded (seed ${seed})`);
+    };
+
+    const mockRoutes = new Router()
+        .add('GET', '/__mock/health', () => ({ status: 'UP' }), { isPublic: true })
+        .add('POST', '/__mock/reset', () => reset(), { isPublic: true })
+        .add('GET', '/__mock/activation-code', ({ query }) => {
+            const code = state.db.activationCodes.get(query.get('email') ?? '');
+            if (!code) throw new HttpError(404, 'No pending activation code');
+            return { code };
+        }, { isPublic: true })
+        .add('GET', '/__mock/link-token', ({ query }) => {
+            const tokens = query.get('type') === 'email-change' ? state.db.emailChangeTokens : state.db.passwordResetTokens;
+            const email = query.get('email') ?? '';
+            const token = [...tokens].find(([, record]) => record.email === email)?.[0];
+            if (!token) throw new HttpError(404, 'No pending link token');
+            return { token };
+        }, { isPublic: true });
+
+    const server = createServer(async (request, response) => {
+        applyCors(request, response);
+        const url = new URL(request.url ?? '/', 'http://localhost');
+
+        if (request.method === 'OPTIONS') {
+            sendJson(response, 204);
+            return;
+        }
+
+        try {
+            const method = request.method ?? 'GET';
+            const matched = mockRoutes.match(method, url.pathname) ?? router.match(method, url.pathname);
+            if (!matched) {
+                throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+            }
+
+            const { route, params } = matched;
+            const bearer = /^Bearer\s+(.+)$/i.exec(request.headers.authorization ?? '')?.[1];
+            if (!route.isPublic && !bearer) {
+                throw new HttpError(401, 'Full authentication is required to access this resource');
+            }
+
+            const body = await readRequestBody(request);
+            const auth = bearer && !route.isPublic ? tokens.verify(bearer) : null;
+            if (latency > 0) {
+                await new Promise(resolve => setTimeout(resolve, latency));
+            }
+
+            const client = getClientInfo(request);
+            sendJson(response, 200, await route.handler({ params, query: url.searchParams, body, auth, client, path: url.pathname }));
+        } catch (error) {
+            if (error instanceof HttpError) {
+                sendError(response, error.status, error.message, url.pathname);
+                return;
+            }
+            log(`Unhandled error on ${request.method} ${url.pathname}: ${error instanceof Error ? error.stack : String(error)}`);
+            sendError(response, 500, 'Internal server error', url.pathname);
+        }
+    });
+    realtime.attach(server);
+
+    return {
+        server,
+        state,
+        reset,
+
+        /**
+         * @param {number} port
+         * @param {string} [host]
+         * @returns {Promise<void>}
+         */
+        listen(port, host = 'localhost') {
+            return new Promise((resolve, reject) => {
+                server.once('error', reject);
+                server.listen(port, host, () => resolve());
+            });
+        },
+
+        /**
+         * @returns {Promise<void>}
+         */
+        close() {
+            realtime.close();
+            return new Promise(resolve => server.close(() => resolve()));
+        }
+    };
+}
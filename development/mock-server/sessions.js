@@ -0,0 +1,213 @@
+/**
+ * Device sessions for the mock server.
+ *
+ * Every sign-in opens a session, and the tokens issued for it name it in the
+ * `sid` claim. Revoking a session invalidates its tokens; the routes then ask
+ * the realtime broker to push the revocation to the tabs still using it.
+ */
+
+import { HttpError } from './http.js';
+
+/**
+ * @typedef {Object} DeviceInfo
+ * Same shape as `DeviceInfo` in `src/core/modules/authentication/mfa/types/mfa.types.ts`
+ * @property {string} name
+ * @property {string} type - `mobile`, `tablet` or `desktop`
+ * @property {string} platform
+ * @property {string} [userAgent]
+ */
+
+/**
+ * @typedef {Object} SessionRecord
+ * @property {string} id
+ * @property {string} userId
+ * @property {DeviceInfo} deviceInfo
+ * @property {string} ipAddress
+ * @property {string | null} location - Approximate, derived from the IP address
+ * @property {string} createdAt
+ * @property {string} lastSeenAt
+ * @property {string | null} revokedAt
+ */
+
+/**
+ * @typedef {Object} ClientInfo
+ * @property {string} ipAddress
+ * @property {string} userAgent
+ */
+
+/** `lastSeenAt` moves at most this often, so a busy tab does not rewrite it on every request */
+const TOUCH_INTERVAL = 60 * 1000;
+
+/** Stand-in for a GeoIP database, covering the addresses the fixtures use */
+const KNOWN_LOCATIONS = new Map([
+    ['81.2.69.142', 'London, United Kingdom'],
+    ['89.160.20.112', 'Linköping, Sweden'],
+    ['216.160.83.56', 'Milton, United States']
+]);
+
+/**
+ * Describe the device behind a User-Agent header
+ *
+ * @param {string} [userAgent]
+ * @returns {DeviceInfo}
+ */
+export function describeDevice(userAgent = '') {
+    const platform = [
+        [/iPhone|iPad|iPod/, 'iOS'],
+        [/Android/, 'Android'],
+        [/CrOS/, 'ChromeOS'],
+        [/Windows/, 'Windows'],
+        [/Mac OS X|Macintosh/, 'macOS'],
+        [/Linux/, 'Linux']
+    ].find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Unknown';
+
+    // Order matters: Edge and Chrome also claim to be Safari
+    const browser = [
+        [/Edg\//, 'Edge'],
+        [/Firefox\//, 'Firefox'],
+        [/Chrome\//, 'Chrome'],
+        [/Safari\//, 'Safari']
+    ].find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    const type = /iPad|Tablet/.test(userAgent)
+        ? 'tablet'
+        : /Mobi|iPhone|Android/.test(userAgent) ? 'mobile' : 'desktop';
+
+    return {
+        name: browser ? `${browser} on ${platform}` : platform === 'Unknown' ? 'Unknown device' : platform,
+        type,
+        platform,
+        ...(userAgent && { userAgent })
+    };
+}
+
+/**
+ * Approximate location of an IP address
+ *
+ * @param {string} ipAddress
+ * @returns {string | null}
+ */
+export function locateAddress(ipAddress) {
+    const address = ipAddress.replace(/^::ffff:/, '');
+    if (address === '::1' || /^(127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.)/.test(address)) {
+        return 'Local network';
+    }
+    return KNOWN_LOCATIONS.get(address) ?? null;
+}
+
+export class SessionService {
+    /**
+     * @param {{ db: import('./fixtures.js').Database }} state
+     */
+    constructor(state) {
+        this.state = state;
+    }
+
+    /**
+     * @param {string} userId
+     * @param {ClientInfo} client
+     * @returns {SessionRecord}
+     */
+    open(userId, client) {
+        const createdAt = this.state.db.now();
+        /** @type {SessionRecord} */
+        const session = {
+            id: this.state.db.nextId(),
+            userId,
+            deviceInfo: describeDevice(client.userAgent),
+            ipAddress: client.ipAddress,
+            location: locateAddress(client.ipAddress),
+            createdAt,
+            lastSeenAt: createdAt,
+            revokedAt: null
+        };
+        this.state.db.sessions.push(session);
+        return session;
+    }
+
+    /**
+     * @param {string} sessionId
+     * @returns {boolean}
+     */
+    isActive(sessionId) {
+        return this.state.db.sessions.some(session => session.id === sessionId && !session.revokedAt);
+    }
+
+    /**
+     * Record activity on a session
+     *
+     * @param {string} sessionId
+     */
+    touch(sessionId) {
+        const session = this.find(sessionId);
+        const now = Date.now();
+        if (session && now - Date.parse(session.lastSeenAt) >= TOUCH_INTERVAL) {
+            session.lastSeenAt = new Date(now).toISOString();
+        }
+    }
+
+    /**
+     * Active sessions of a user, most recently seen first
+     *
+     * @param {string} userId
+     * @param {string | undefined} currentSessionId - Session of the caller, flagged `current`
+     */
+    list(userId, currentSessionId) {
+        return this.state.db.sessions
+            .filter(session => session.userId === userId && !session.revokedAt)
+            .sort((a, b) => (a.lastSeenAt < b.lastSeenAt ? 1 : -1))
+            .map(({ revokedAt: _revokedAt, ...session }) => ({ ...session, current: session.id === currentSessionId }));
+    }
+
+    /**
+     * @param {string} userId
+     * @param {string} sessionId
+     * @returns {SessionRecord}
+     * @throws {HttpError} 404 when the user has no such active session
+     */
+    revoke(userId, sessionId) {
+        const session = this.find(sessionId);
+        if (!session || session.userId !== userId || session.revokedAt) {
+            throw new HttpError(404, `Session not found: ${sessionId}`);
+        }
+        session.revokedAt = this.state.db.now();
+        return session;
+    }
+
+    /**
+     * Revoke every active session of the user except the current one
+     *
+     * @param {string} userId
+     * @param {string | undefined} currentSessionId
+     * @returns {SessionRecord[]} The revoked sessions
+     */
+    revokeOthers(userId, currentSessionId) {
+        const revokedAt = this.state.db.now();
+        const others = this.state.db.sessions.filter(session =>
+            session.userId === userId && session.id !== currentSessionId && !session.revokedAt);
+        others.forEach(session => {
+            session.revokedAt = revokedAt;
+        });
+        return others;
+    }
+
+    /**
+     * End a session on sign out; unknown or already revoked sessions are ignored
+     *
+     * @param {string} sessionId
+     */
+    end(sessionId) {
+        const session = this.find(sessionId);
+        if (session && !session.revokedAt) {
+            session.revokedAt = this.state.db.now();
+        }
+    }
+
+    /**
+     * @param {string} sessionId
+     * @returns {SessionRecord | undefined}
+     */
+    find(sessionId) {
+        return this.state.db.sessions.find(session => session.id === sessionId);
+    }
+}
@@ -48,8 +48,17 @@ Object.defineProperty(window, 'matchMedia', {
 if (typeof globalThis.MessageChannel === 'undefined') {
     globalThis.MessageChannel = class {
         constructor() {
-            this.port1 = {};
-            this.port2 = {};
+            // Each port delivers posted messages to the other port's onmessage
+            const createPort = () => ({ onmessage: null, postMessage: null, close() {} });
+            this.port1 = createPort();
+            this.port2 = createPort();
+            const connect = (from, to) => {
+                from.postMessage = (data) => {
+                    setTimeout(() => to.onmessage && to.onmessage({ data }), 0);
+                };
+            };
+            connect(this.port1, this.port2);
+            connect(this.port2, this.port1);
         }
     };
 }
@@ -65,6 +74,12 @@ if (typeof globalThis.TextEncoder === 'undefined') {
     }
 }
 
+// Polyfill structuredClone (missing in jsdom) for IndexedDB-backed tests
+if (typeof globalThis.structuredClone === 'undefined') {
+    const v8 = require('v8');
+    globalThis.structuredClone = (value) => v8.deserialize(v8.serialize(value));
+}
+
 // Mock localStorage for tests that need it
 global.localStorage = {
     getItem: jest.fn(),
@@ -97,6 +112,7 @@ Object.defineProperty(global, 'crypto', {
             digest: jest.fn().mockImplementation((algorithm, data) => {
                 return Promise.resolve(new Uint8Array(32).fill(0));
             }),
+            importKey: jest.fn().mockResolvedValue({}),
             generateKey: jest.fn().mockResolvedValue({}),
             sign: jest.fn().mockResolvedValue(new Uint8Array(64)),
             verify: jest.fn().mockResolvedValue(true),
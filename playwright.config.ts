@@ -63,10 +63,17 @@ export default defineConfig({
     // },
   ],
 
-  /* Run your local dev server before starting the tests */
-  webServer: {
-    command: 'npm run dev',
-    url: 'http://localhost:5000',
-    reuseExistingServer: !process.env.CI,
-  },
+  /* Run the mock backend and the dev server before starting the tests */
+  webServer: [
+    {
+      command: 'npm run mock-server',
+      url: 'http://localhost:8080/__mock/health',
+      reuseExistingServer: !process.env.CI,
+    },
+    {
+      command: 'npm run dev',
+      url: 'http://localhost:5000',
+      reuseExistingServer: !process.env.CI,
+    },
+  ],
 });
@@ -9,7 +9,10 @@ import RoutesConfig from "./RoutesConfig";
 // import { useGetNotifications } from "@/features/notification/data/useNotificationData";
 import { useEnterpriseAuth } from "@/core/modules/authentication";
 import AuthGuard from "@/features/auth/presentation/components/guards/AuthGuard";
+import { ProtectedRoute } from "@/features/auth/presentation/components/guards/ProtectedRoute";
 import { AuthProvider } from "@/features/auth/presentation/providers/AuthProvider";
+import { DegradedModeBanner } from "@/shared/ui/components/feedback/DegradedModeBanner";
+import { OfflineOutboxBanner } from "@/shared/ui/components/feedback/OfflineOutboxBanner";
 
 // Lazy-loaded components for better performance
 lazy(() => import("../features/navbar/presentation/components/Navbar"));
@@ -23,7 +26,8 @@ const AuthPage = lazy(() => import("../pages/auth/AuthPage"));
  * 
  * Route Structure:
  * - UNAUTHENTICATED ACCESS: /auth/*, /signin, /signout, /unauthorized
- * - AUTHENTICATED ACCESS: All other routes via RoutesConfig
+ * - AUTHENTICATED ACCESS: /auth/change-email and /auth/confirm-email, which act on
+ *   the signed-in account, and all other routes via RoutesConfig
  *   - /feed, /dashboard, /search, /chat, /profile, /notification, /settings (basic auth required)
  *   - /admin/* (requires SYSTEM_ADMIN permission)
  * 
@@ -83,6 +87,8 @@ const App = () => {
 
     return (
         <AuthProvider>
+            <DegradedModeBanner />
+            <OfflineOutboxBanner />
             <Suspense fallback={<LoadingFallback />}>
                 <Routes>
                     {/* === UNAUTHENTICATED ROUTES ONLY === */}
@@ -92,6 +98,8 @@ const App = () => {
                     <Route path="/unauthorized" element={<UnauthorizedPage />} />
 
                     {/* === AUTHENTICATION REQUIRED ROUTES === */}
+                    <Route path="/auth/change-email" element={<ProtectedRoute><AuthPage /></ProtectedRoute>} />
+                    <Route path="/auth/confirm-email" element={<ProtectedRoute><AuthPage /></ProtectedRoute>} />
                     <Route path="/*" element={
                         <AuthGuard requireAuth={true}>
                             <>
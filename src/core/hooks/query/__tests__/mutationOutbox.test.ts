@@ -0,0 +1,182 @@
+/**
+ * Mutation Outbox Tests
+ *
+ * Tests ordered replay of queued mutations, persistence across reloads,
+ * conflict handling for 409/412 responses and failure bookkeeping.
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+
+import { MutationOutbox, getMutationErrorStatus, isOfflineError } from '../mutationOutbox';
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { response: { status } });
+
+describe('MutationOutbox', () => {
+  let online: boolean;
+
+  beforeEach(() => {
+    localStorage.clear();
+    online = false;
+    jest.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('replays queued mutations in order once back online', async () => {
+    const outbox = new MutationOutbox();
+    const calls: string[] = [];
+    outbox.register('comment', { fetcher: async (text: string) => { calls.push(text); return text.length; } });
+
+    const first = outbox.enqueue<number, string>('comment', 'first');
+    const second = outbox.enqueue<number, string>('comment', 'second');
+    expect(outbox.getItems()).toHaveLength(2);
+
+    online = true;
+    await outbox.replay();
+
+    expect(calls).toEqual(['first', 'second']);
+    await expect(first.result).resolves.toBe(5);
+    await expect(second.result).resolves.toBe(6);
+    expect(outbox.getItems()).toHaveLength(0);
+  });
+
+  it('restores queued mutations and optimistic updates after a reload', async () => {
+    new MutationOutbox().enqueue('like', { postId: 1 }, { applied: true });
+
+    const reloaded = new MutationOutbox();
+    const applyOptimisticUpdate = jest.fn<(variables: { postId: number }) => void>();
+    const fetcher = jest.fn(async (_variables: { postId: number }) => 'ok');
+    reloaded.register('like', { fetcher, applyOptimisticUpdate });
+
+    expect(reloaded.getItems()).toMatchObject([{ mutationKey: 'like', variables: { postId: 1 }, status: 'pending' }]);
+    expect(applyOptimisticUpdate).toHaveBeenCalledWith({ postId: 1 });
+
+    online = true;
+    await reloaded.replay();
+    expect(fetcher).toHaveBeenCalledWith({ postId: 1 });
+  });
+
+  it('stops replaying when the connection drops again', async () => {
+    const outbox = new MutationOutbox();
+    const fetcher = jest.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    });
+    outbox.register('comment', { fetcher });
+    outbox.enqueue('comment', 'first');
+    outbox.enqueue('comment', 'second');
+
+    online = true;
+    await outbox.replay();
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(outbox.getItems().map(item => item.status)).toEqual(['pending', 'pending']);
+  });
+
+  it('holds back only the mutations whose key has no handler yet', async () => {
+    const outbox = new MutationOutbox();
+    const calls: string[] = [];
+    outbox.register('comment', { fetcher: async (text: string) => { calls.push(text); return text; } });
+    outbox.enqueue('post', 'first');
+    outbox.enqueue('comment', 'second');
+    outbox.enqueue('post', 'third');
+
+    online = true;
+    await outbox.replay();
+    expect(calls).toEqual(['second']);
+
+    outbox.register('post', { fetcher: async (text: string) => { calls.push(text); return text; } });
+    await outbox.replay();
+    expect(calls).toEqual(['second', 'first', 'third']);
+  });
+
+  it('keeps a key registered until every registration is removed', async () => {
+    const outbox = new MutationOutbox();
+    const fetcher = jest.fn(async (_variables: { postId: number }) => 'ok');
+    const unregisterFirst = outbox.register('like', { fetcher });
+    const unregisterLast = outbox.register('like', { fetcher });
+    outbox.enqueue('like', { postId: 1 });
+
+    unregisterLast();
+    online = true;
+    await outbox.replay();
+    expect(fetcher).toHaveBeenCalledWith({ postId: 1 });
+
+    unregisterFirst();
+    outbox.enqueue('like', { postId: 2 });
+    await outbox.replay();
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('rolls back and keeps conflicting mutations for the user', async () => {
+    const outbox = new MutationOutbox();
+    const rollback = jest.fn();
+    const onConflict = jest.fn(() => 'keep' as const);
+    outbox.register('edit', { fetcher: async () => { throw httpError(409); }, onConflict });
+    outbox.enqueue('edit', { id: 1 }, { applied: true, rollback });
+
+    online = true;
+    await outbox.replay();
+
+    expect(rollback).toHaveBeenCalledTimes(1);
+    expect(onConflict).toHaveBeenCalled();
+    expect(outbox.getItems()).toMatchObject([{ status: 'conflict', errorStatus: 409 }]);
+  });
+
+  it('drops conflicting mutations the handler discards', async () => {
+    const outbox = new MutationOutbox();
+    outbox.register('edit', { fetcher: async () => { throw httpError(412); }, onConflict: () => 'discard' });
+    const { result } = outbox.enqueue('edit', { id: 1 });
+
+    online = true;
+    await outbox.replay();
+
+    await expect(result).rejects.toThrow('HTTP 412');
+    expect(outbox.getItems()).toHaveLength(0);
+  });
+
+  it('marks rejected mutations as failed and retries them on demand', async () => {
+    const outbox = new MutationOutbox();
+    const fetcher = jest.fn<(text: string) => Promise<string>>()
+      .mockRejectedValueOnce(httpError(422))
+      .mockResolvedValueOnce('ok');
+    outbox.register('comment', { fetcher });
+    const queued = outbox.enqueue('comment', 'text');
+
+    online = true;
+    await outbox.replay();
+    await expect(queued.result).rejects.toThrow('HTTP 422');
+    expect(outbox.getItems()).toMatchObject([{ status: 'failed', errorStatus: 422 }]);
+
+    await outbox.retry(outbox.getItems()[0]!.id);
+    expect(outbox.getItems()).toHaveLength(0);
+  });
+
+  it('notifies subscribers and discards items', () => {
+    const outbox = new MutationOutbox();
+    const listener = jest.fn();
+    outbox.subscribe(listener);
+
+    const { id } = outbox.enqueue('like', { postId: 1 });
+    outbox.discard(id);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(outbox.getItems()).toHaveLength(0);
+  });
+});
+
+describe('mutation error helpers', () => {
+  it('reads statuses from the error shapes used across the app', () => {
+    expect(getMutationErrorStatus(httpError(409))).toBe(409);
+    expect(getMutationErrorStatus({ statusCode: 503 })).toBe(503);
+    expect(getMutationErrorStatus({ details: { status: 412 } })).toBe(412);
+    expect(getMutationErrorStatus(new Error('plain'))).toBeNull();
+  });
+
+  it('detects network failures', () => {
+    expect(isOfflineError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isOfflineError({ code: 'ERR_NETWORK' })).toBe(true);
+    expect(isOfflineError(httpError(500))).toBe(false);
+  });
+});
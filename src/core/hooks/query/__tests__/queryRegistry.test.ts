@@ -0,0 +1,133 @@
+/**
+ * Query Registry Tests
+ *
+ * Tests query key serialization, in-flight request deduplication,
+ * observer notification, cancellation and structural sharing.
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+import { QueryCancelledError, QueryRegistry, replaceEqualDeep, serializeQueryKey } from '../queryRegistry';
+
+describe('serializeQueryKey', () => {
+  it('keeps string keys and joins string segments with colons', () => {
+    expect(serializeQueryKey('feed')).toBe('feed');
+    expect(serializeQueryKey(['profile', 'user-1', 'posts'])).toBe('profile:user-1:posts');
+  });
+
+  it('serializes object segments independently of property order', () => {
+    expect(serializeQueryKey(['search', { page: 1, query: 'cats' }]))
+      .toBe(serializeQueryKey(['search', { query: 'cats', page: 1 }]));
+  });
+});
+
+describe('QueryRegistry', () => {
+  it('merges identical in-flight fetches', async () => {
+    const registry = new QueryRegistry();
+    let resolve: (value: string) => void = () => undefined;
+    const fetcher = jest.fn(() => new Promise<string>(res => { resolve = res; }));
+
+    const first = registry.fetch('feed', fetcher);
+    const second = registry.fetch('feed', fetcher);
+    expect(registry.isFetching('feed')).toBe(true);
+
+    resolve('data');
+
+    await expect(first).resolves.toBe('data');
+    await expect(second).resolves.toBe('data');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(registry.isFetching('feed')).toBe(false);
+  });
+
+  it('starts a new fetch once the previous one settled', async () => {
+    const registry = new QueryRegistry();
+    const fetcher = jest.fn(() => Promise.reject(new Error('offline')));
+
+    await expect(registry.fetch('feed', fetcher)).rejects.toThrow('offline');
+    await expect(registry.fetch('feed', fetcher)).rejects.toThrow('offline');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('notifies subscribers of a key until they unsubscribe', () => {
+    const registry = new QueryRegistry();
+    const listener = jest.fn();
+    const other = jest.fn();
+
+    const unsubscribe = registry.subscribe('feed', listener);
+    registry.subscribe('profile', other);
+    registry.publish('feed', [1], 100);
+
+    expect(listener).toHaveBeenCalledWith([1], 100);
+    expect(other).not.toHaveBeenCalled();
+
+    unsubscribe();
+    registry.publish('feed', [2], 200);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(registry.getObserverCount('feed')).toBe(0);
+  });
+
+  it('aborts an in-flight fetch once the last observer of its key unsubscribes', async () => {
+    const registry = new QueryRegistry();
+    let receivedSignal: AbortSignal | undefined;
+    const fetcher = (signal: AbortSignal) => new Promise<string>((_resolve, reject) => {
+      receivedSignal = signal;
+      signal.addEventListener('abort', () => reject(new Error('aborted')));
+    });
+
+    const first = registry.subscribe('search:ca', jest.fn());
+    const second = registry.subscribe('search:ca', jest.fn());
+    const request = registry.fetch('search:ca', fetcher);
+
+    first();
+    expect(receivedSignal?.aborted).toBe(false);
+
+    second();
+    expect(receivedSignal?.aborted).toBe(true);
+    expect(registry.isFetching('search:ca')).toBe(false);
+    await expect(request).rejects.toBeInstanceOf(QueryCancelledError);
+  });
+
+  it('starts a fresh fetch after a cancelled one instead of sharing it', async () => {
+    const registry = new QueryRegistry();
+    const fetcher = jest.fn((signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+      signal.addEventListener('abort', () => reject(new Error('aborted')));
+      setTimeout(() => resolve('cats'), 0);
+    }));
+
+    const cancelled = registry.fetch('search:cats', fetcher);
+    registry.cancel('search:cats');
+    const fresh = registry.fetch('search:cats', fetcher);
+
+    await expect(cancelled).rejects.toBeInstanceOf(QueryCancelledError);
+    await expect(fresh).resolves.toBe('cats');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('replaceEqualDeep', () => {
+  it('returns the previous reference when data is deeply equal', () => {
+    const prev = { content: [{ id: 1, text: 'a' }], last: false };
+    const next = { content: [{ id: 1, text: 'a' }], last: false };
+
+    expect(replaceEqualDeep(prev, next)).toBe(prev);
+  });
+
+  it('reuses unchanged branches when part of the data changed', () => {
+    const prev = { content: [{ id: 1, likes: 1 }, { id: 2, likes: 5 }], last: false };
+    const next = { content: [{ id: 1, likes: 2 }, { id: 2, likes: 5 }], last: false };
+
+    const result = replaceEqualDeep(prev, next);
+
+    expect(result).not.toBe(prev);
+    expect(result).toEqual(next);
+    expect(result.content[0]).not.toBe(prev.content[0]);
+    expect(result.content[1]).toBe(prev.content[1]);
+  });
+
+  it('does not share structure between arrays of different length or non-plain objects', () => {
+    const date = new Date(0);
+
+    expect(replaceEqualDeep([1, 2], [1, 2, 3])).toEqual([1, 2, 3]);
+    expect(replaceEqualDeep(new Date(0), date)).toBe(date);
+  });
+});
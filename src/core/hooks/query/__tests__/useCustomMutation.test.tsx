@@ -0,0 +1,128 @@
+/**
+ * useCustomMutation Tests
+ *
+ * Tests that mutations made offline are queued with their optimistic update,
+ * replayed through cacheUpdate once back online and listed by useMutationOutbox.
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { renderHook, waitFor, act } from '@testing-library/react';
+
+import { createCacheProvider } from '@/core/modules/caching';
+import type { ICacheProvider } from '@/core/modules/caching';
+
+let cache: ICacheProvider;
+
+jest.unstable_mockModule('@/core/modules/dependency-injection', () => ({
+  useDIContainer: () => ({ getByToken: () => cache })
+}));
+
+const { useCustomMutation } = await import('../useCustomMutation');
+const { useMutationOutbox } = await import('../useMutationOutbox');
+const { mutationOutbox } = await import('../mutationOutbox');
+
+interface LikeVariables {
+  postId: number;
+}
+
+describe('useCustomMutation offline outbox', () => {
+  let online: boolean;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    mutationOutbox.reset();
+    cache = createCacheProvider({ cleanupInterval: 0 });
+    await cache.set('post:1', { likes: 0 });
+    online = false;
+    jest.spyOn(navigator, 'onLine', 'get').mockImplementation(() => online);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const renderLikeMutation = (fetcher: (variables: LikeVariables) => Promise<{ likes: number }>) => renderHook(() => ({
+    mutation: useCustomMutation<{ likes: number }, Error, LikeVariables>(fetcher, {
+      offline: { mutationKey: 'post:like' },
+      retry: 0,
+      optimisticUpdate: (cacheProvider) => {
+        void cacheProvider.set('post:1', { likes: 1 });
+        return () => {
+          void cacheProvider.set('post:1', { likes: 0 });
+        };
+      },
+      cacheUpdate: (cacheProvider, data) => {
+        void cacheProvider.set('post:1', data);
+      }
+    }),
+    outbox: useMutationOutbox('post:like')
+  }));
+
+  it('queues offline mutations and replays them when back online', async () => {
+    const fetcher = jest.fn(async (_variables: LikeVariables) => ({ likes: 5 }));
+    const { result } = renderLikeMutation(fetcher);
+
+    let pending: Promise<{ likes: number }> = Promise.resolve({ likes: 0 });
+    await act(async () => {
+      pending = result.current.mutation.mutateAsync({ postId: 1 });
+    });
+
+    await waitFor(() => expect(result.current.mutation.isQueued).toBe(true));
+    expect(fetcher).not.toHaveBeenCalled();
+    expect(result.current.outbox.pending).toHaveLength(1);
+    await expect(cache.get('post:1')).resolves.toEqual({ likes: 1 });
+
+    online = true;
+    await act(async () => {
+      window.dispatchEvent(new Event('online'));
+      await expect(pending).resolves.toEqual({ likes: 5 });
+    });
+
+    expect(fetcher).toHaveBeenCalledWith({ postId: 1 });
+    expect(result.current.mutation.isSuccess).toBe(true);
+    expect(result.current.outbox.items).toHaveLength(0);
+    await expect(cache.get('post:1')).resolves.toEqual({ likes: 5 });
+  });
+
+  it('queues mutations whose request fails with a network error', async () => {
+    online = true;
+    const fetcher = jest.fn<(variables: LikeVariables) => Promise<{ likes: number }>>()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    const { result } = renderLikeMutation(fetcher);
+
+    act(() => {
+      result.current.mutation.mutate({ postId: 1 });
+    });
+
+    await waitFor(() => expect(result.current.mutation.isQueued).toBe(true));
+    expect(result.current.mutation.isError).toBe(false);
+    await expect(cache.get('post:1')).resolves.toEqual({ likes: 1 });
+  });
+
+  it('rolls back and reports conflicts found on replay', async () => {
+    const conflict = Object.assign(new Error('Conflict'), { response: { status: 409 } });
+    const fetcher = jest.fn(async () => {
+      throw conflict;
+    });
+    const { result } = renderLikeMutation(fetcher);
+
+    act(() => {
+      result.current.mutation.mutate({ postId: 1 });
+    });
+    await waitFor(() => expect(result.current.mutation.isQueued).toBe(true));
+
+    online = true;
+    await act(async () => {
+      await mutationOutbox.replay();
+    });
+
+    expect(result.current.outbox.conflicts).toHaveLength(1);
+    await expect(cache.get('post:1')).resolves.toEqual({ likes: 0 });
+
+    act(() => {
+      result.current.outbox.discard(result.current.outbox.conflicts[0]!.id);
+    });
+    await waitFor(() => expect(result.current.mutation.isError).toBe(true));
+    expect(result.current.outbox.items).toHaveLength(0);
+  });
+});
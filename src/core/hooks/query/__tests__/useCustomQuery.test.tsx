@@ -0,0 +1,135 @@
+/**
+ * useCustomQuery Tests
+ *
+ * Tests request deduplication across hook instances, stale-while-revalidate
+ * rendering from the cache provider and referential stability of unchanged data.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { renderHook, waitFor, act } from '@testing-library/react';
+
+import { createCacheProvider } from '@/core/modules/caching';
+import type { ICacheProvider } from '@/core/modules/caching';
+import { RequestPriority } from '@/core/modules/network/types';
+
+import type { QueryFunctionContext } from '../useCustomQuery';
+
+let cache: ICacheProvider;
+
+jest.unstable_mockModule('@/core/modules/dependency-injection', () => ({
+  useDIContainer: () => ({ getByToken: () => cache })
+}));
+
+const { useCustomQuery } = await import('../useCustomQuery');
+const { queryRegistry } = await import('../queryRegistry');
+
+describe('useCustomQuery', () => {
+  beforeEach(() => {
+    cache = createCacheProvider({ cleanupInterval: 0 });
+    queryRegistry.reset();
+  });
+
+  it('merges fetches of hooks mounted with the same key', async () => {
+    const fetcher = jest.fn(async () => ({ content: [{ id: 1 }] }));
+
+    const first = renderHook(() => useCustomQuery(['feed', 'page', '0'], fetcher, { refetchOnMount: false }));
+    const second = renderHook(() => useCustomQuery(['feed', 'page', '0'], fetcher, { refetchOnMount: false }));
+
+    await waitFor(() => expect(first.result.current.isSuccess).toBe(true));
+    await waitFor(() => expect(second.result.current.isSuccess).toBe(true));
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(second.result.current.data).toEqual({ content: [{ id: 1 }] });
+  });
+
+  it('serves fresh cache entries without fetching', async () => {
+    await cache.set('profile:1', { id: 1 });
+    const fetcher = jest.fn(async () => ({ id: 2 }));
+
+    const { result } = renderHook(() => useCustomQuery('profile:1', fetcher, { refetchOnMount: false }));
+
+    await waitFor(() => expect(result.current.data).toEqual({ id: 1 }));
+    expect(fetcher).not.toHaveBeenCalled();
+    expect(result.current.isStale).toBe(false);
+  });
+
+  it('renders stale cache entries while refetching in the background', async () => {
+    await cache.set('profile:1', { id: 1, name: 'old' });
+    let resolveFetch: (value: { id: number; name: string }) => void = () => undefined;
+    const fetcher = jest.fn(() => new Promise<{ id: number; name: string }>(resolve => { resolveFetch = resolve; }));
+
+    const { result } = renderHook(() => useCustomQuery('profile:1', fetcher, { staleTime: 0, refetchOnMount: false }));
+
+    await waitFor(() => expect(result.current.data).toEqual({ id: 1, name: 'old' }));
+    await waitFor(() => expect(result.current.isRefetching).toBe(true));
+    expect(result.current.isLoading).toBe(false);
+
+    await act(async () => resolveFetch({ id: 1, name: 'new' }));
+
+    await waitFor(() => expect(result.current.data).toEqual({ id: 1, name: 'new' }));
+    expect(result.current.isFetching).toBe(false);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps referential identity when refetched data did not change', async () => {
+    const fetcher = jest.fn(async () => ({ content: [{ id: 1 }, { id: 2 }] }));
+
+    const { result } = renderHook(() => useCustomQuery('feed', fetcher, { refetchOnMount: false }));
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    const firstData = result.current.data;
+
+    await act(async () => {
+      await result.current.refetch();
+    });
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(result.current.data).toBe(firstData);
+  });
+
+  it('shares data set by one observer with the others', async () => {
+    const fetcher = jest.fn(async () => ({ likes: 1 }));
+
+    const first = renderHook(() => useCustomQuery('post:1', fetcher, { refetchOnMount: false }));
+    const second = renderHook(() => useCustomQuery('post:1', fetcher, { refetchOnMount: false }));
+    await waitFor(() => expect(second.result.current.isSuccess).toBe(true));
+
+    act(() => first.result.current.setData({ likes: 2 }));
+
+    await waitFor(() => expect(second.result.current.data).toEqual({ likes: 2 }));
+  });
+
+  it('stores data set through a selecting observer in the fetched shape', async () => {
+    interface Likes { likes: number; label?: string }
+    const fetcher = jest.fn(async (): Promise<Likes> => ({ likes: 1 }));
+    const select = jest.fn((data: unknown): Likes => ({ ...(data as Likes), label: `${(data as Likes).likes} likes` }));
+
+    const selecting = renderHook(() => useCustomQuery<Likes>('post:1', fetcher, { refetchOnMount: false, select }));
+    const plain = renderHook(() => useCustomQuery<Likes>('post:1', fetcher, { refetchOnMount: false }));
+    await waitFor(() => expect(selecting.result.current.data).toEqual({ likes: 1, label: '1 likes' }));
+    await waitFor(() => expect(plain.result.current.isSuccess).toBe(true));
+
+    act(() => selecting.result.current.setData(old => ({ likes: (old?.likes ?? 0) + 1 })));
+
+    await waitFor(() => expect(selecting.result.current.data).toEqual({ likes: 2, label: '2 likes' }));
+    await waitFor(() => expect(plain.result.current.data).toEqual({ likes: 2 }));
+    expect(select).toHaveBeenLastCalledWith({ likes: 2 });
+    expect(await cache.get('post:1')).toEqual({ likes: 2 });
+  });
+
+  it('runs interval polls at low priority', async () => {
+    jest.useFakeTimers();
+    try {
+      const fetcher = jest.fn(async (_context: QueryFunctionContext) => ({ unread: 1 }));
+
+      renderHook(() => useCustomQuery('notifications:unread', fetcher, { refetchOnMount: false, refetchInterval: 1000 }));
+      await act(async () => {
+        await jest.advanceTimersByTimeAsync(1000);
+      });
+
+      expect(fetcher).toHaveBeenNthCalledWith(1, expect.objectContaining({ priority: RequestPriority.NORMAL }));
+      expect(fetcher).toHaveBeenLastCalledWith(expect.objectContaining({ priority: RequestPriority.LOW }));
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
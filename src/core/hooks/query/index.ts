@@ -3,17 +3,48 @@
  *
  * Provides comprehensive query management hooks including:
  * - Custom query hooks with caching integration
+ * - Cancellation of superseded requests
  * - Mutation hooks with optimistic updates
+ * - Offline mutation outbox with ordered replay
  * - Infinite query hooks for pagination
  * - Query state management hooks
  * - WebSocket cache integration
  */
 
 export { useCustomQuery } from './useCustomQuery';
-export type { QueryOptions, QueryState, CustomQueryResult } from './useCustomQuery';
+export type {
+  QueryOptions,
+  QueryState,
+  CustomQueryResult,
+  QueryNormalizer,
+  QueryFunctionContext
+} from './useCustomQuery';
+
+export { useAbortableRequest } from './useAbortableRequest';
+export type { AbortableRequest } from './useAbortableRequest';
+
+export { queryRegistry, QueryRegistry, QueryCancelledError, serializeQueryKey, replaceEqualDeep } from './queryRegistry';
+export type { QueryKey, QueryListener } from './queryRegistry';
 
 export { useCustomMutation } from './useCustomMutation';
-export type { MutationOptions, MutationState, CustomMutationResult } from './useCustomMutation';
+export type {
+  MutationOptions,
+  MutationState,
+  CustomMutationResult,
+  OfflineMutationOptions
+} from './useCustomMutation';
+
+export { mutationOutbox, MutationOutbox, getMutationErrorStatus, isOfflineError } from './mutationOutbox';
+export type {
+  OutboxItem,
+  OutboxItemStatus,
+  OutboxHandler,
+  OutboxConflictResolution,
+  MutationOutboxConfig
+} from './mutationOutbox';
+
+export { useMutationOutbox } from './useMutationOutbox';
+export type { MutationOutboxResult } from './useMutationOutbox';
 
 export { useCustomInfiniteQuery } from './useCustomInfiniteQuery';
 export type {
@@ -0,0 +1,431 @@
+/**
+ * Mutation Outbox
+ *
+ * Durable queue for mutations made while offline. Queued mutations are stored
+ * with their variables in localStorage and replayed in order once the browser
+ * is back online. Replay logic (fetcher, cache updates, conflict handling) is
+ * registered at runtime by useCustomMutation under a stable mutation key.
+ */
+
+/**
+ * Status of a queued mutation
+ */
+export type OutboxItemStatus = 'pending' | 'replaying' | 'failed' | 'conflict';
+
+/**
+ * Serializable record of a queued mutation
+ */
+export interface OutboxItem<TVariables = unknown> {
+  id: string;
+  mutationKey: string;
+  variables: TVariables;
+  /** Whether an optimistic update was applied for this mutation */
+  optimistic: boolean;
+  status: OutboxItemStatus;
+  attempts: number;
+  createdAt: number;
+  lastAttemptAt: number | null;
+  error: string | null;
+  /** HTTP status of the last failed replay, if any */
+  errorStatus: number | null;
+}
+
+/**
+ * What to do with a mutation whose replay hit a 409/412 conflict
+ */
+export type OutboxConflictResolution = 'discard' | 'keep';
+
+/**
+ * Replay logic registered for a mutation key
+ */
+export interface OutboxHandler<TData = unknown, TVariables = unknown> {
+  /** Sends the mutation to the server */
+  fetcher: (variables: TVariables) => Promise<TData>;
+  /** Re-applies the optimistic update after a reload; may return a rollback */
+  applyOptimisticUpdate?: (variables: TVariables) => (() => void) | void;
+  /** Runs cache updates and invalidation after a successful replay */
+  onReplaySuccess?: (data: TData, variables: TVariables) => void;
+  /** Called after a failed replay, once the optimistic update was rolled back */
+  onReplayError?: (error: Error, variables: TVariables) => void;
+  /** Decides how to resolve a 409/412 conflict (defaults to 'keep') */
+  onConflict?: (error: Error, variables: TVariables) => OutboxConflictResolution;
+}
+
+/**
+ * Outbox configuration
+ */
+export interface MutationOutboxConfig {
+  /** localStorage key holding the queue */
+  storageKey: string;
+  /** Replay attempts before a mutation is marked as failed */
+  maxAttempts: number;
+}
+
+type OutboxListener = (items: OutboxItem[]) => void;
+
+interface PendingPromise {
+  resolve: (data: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_OUTBOX_CONFIG: MutationOutboxConfig = {
+  storageKey: 'quietspace:mutation-outbox',
+  maxAttempts: 3
+};
+
+const CONFLICT_STATUSES = [409, 412];
+
+/**
+ * Extracts an HTTP status from the error shapes used across the app
+ * (axios errors, NetworkError, ApiError details, plain objects).
+ */
+export function getMutationErrorStatus(error: unknown): number | null {
+  if (!error || typeof error !== 'object') {
+    return null;
+  }
+
+  const candidate = error as {
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown };
+    details?: { status?: unknown };
+  };
+  const status = candidate.response?.status ?? candidate.status ?? candidate.statusCode ?? candidate.details?.status;
+  return typeof status === 'number' ? status : null;
+}
+
+/**
+ * Checks whether a mutation failed because the network is unreachable
+ */
+export function isOfflineError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return true;
+  }
+
+  if (getMutationErrorStatus(error) !== null) {
+    return false;
+  }
+
+  const candidate = error as { code?: unknown; name?: unknown } | null;
+  return error instanceof TypeError
+    || candidate?.code === 'ERR_NETWORK'
+    || candidate?.code === 'NETWORK_ERROR'
+    || candidate?.name === 'NetworkConnectionError';
+}
+
+/**
+ * Checks whether variables survive JSON serialization, so they can be persisted
+ */
+function isSerializable(value: unknown): boolean {
+  try {
+    return JSON.stringify(value) !== undefined || value === undefined;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Durable, ordered queue of offline mutations
+ */
+export class MutationOutbox {
+  private readonly config: MutationOutboxConfig;
+  // Handlers of every mounted registration per key; the latest one replays
+  private readonly handlers = new Map<string, OutboxHandler[]>();
+  private readonly listeners = new Set<OutboxListener>();
+  private readonly pendingPromises = new Map<string, PendingPromise>();
+  private readonly rollbacks = new Map<string, () => void>();
+  // Items whose optimistic update is applied in this session
+  private readonly appliedUpdates = new Set<string>();
+  private items: OutboxItem[];
+  private replaying: Promise<void> | null = null;
+  private listening = false;
+
+  constructor(config: Partial<MutationOutboxConfig> = {}) {
+    this.config = { ...DEFAULT_OUTBOX_CONFIG, ...config };
+    this.items = this.load();
+  }
+
+  /**
+   * Registers replay logic for a mutation key and re-applies optimistic
+   * updates of mutations queued in a previous session. A key may be
+   * registered several times (e.g. once per mounted component); it keeps a
+   * handler until every registration is removed.
+   * @returns Unregister function
+   */
+  register<TData, TVariables>(mutationKey: string, handler: OutboxHandler<TData, TVariables>): () => void {
+    const registered = this.handlers.get(mutationKey) ?? [];
+    registered.push(handler as OutboxHandler);
+    this.handlers.set(mutationKey, registered);
+    this.listenForConnectivity();
+
+    for (const item of this.items) {
+      if (item.mutationKey === mutationKey && item.optimistic && item.status === 'pending' && !this.appliedUpdates.has(item.id)) {
+        this.appliedUpdates.add(item.id);
+        const rollback = handler.applyOptimisticUpdate?.(item.variables as TVariables);
+        if (rollback) {
+          this.rollbacks.set(item.id, rollback);
+        }
+      }
+    }
+
+    if (this.isOnline()) {
+      void this.replay();
+    }
+
+    return () => {
+      const index = registered.lastIndexOf(handler as OutboxHandler);
+      if (index !== -1) {
+        registered.splice(index, 1);
+      }
+      if (registered.length === 0 && this.handlers.get(mutationKey) === registered) {
+        this.handlers.delete(mutationKey);
+      }
+    };
+  }
+
+  /**
+   * Checks whether a mutation can be queued (its variables are serializable)
+   */
+  canEnqueue(variables: unknown): boolean {
+    return isSerializable(variables);
+  }
+
+  /**
+   * Queues a mutation for replay
+   * @param optimistic - Whether an optimistic update was applied, plus its rollback
+   * @returns Promise settled when the mutation is replayed in this session
+   */
+  enqueue<TData, TVariables>(
+    mutationKey: string,
+    variables: TVariables,
+    optimistic: { applied: boolean; rollback?: (() => void) | null } = { applied: false }
+  ): { id: string; result: Promise<TData> } {
+    const { applied, rollback } = optimistic;
+    const item: OutboxItem<TVariables> = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      mutationKey,
+      variables,
+      optimistic: applied,
+      status: 'pending',
+      attempts: 0,
+      createdAt: Date.now(),
+      lastAttemptAt: null,
+      error: null,
+      errorStatus: null
+    };
+
+    if (applied) {
+      this.appliedUpdates.add(item.id);
+    }
+    if (rollback) {
+      this.rollbacks.set(item.id, rollback);
+    }
+
+    const result = new Promise<TData>((resolve, reject) => {
+      this.pendingPromises.set(item.id, {
+        resolve: resolve as (data: unknown) => void,
+        reject
+      });
+    });
+    // Callers using mutate() never observe this promise
+    result.catch(() => undefined);
+
+    this.items = [...this.items, item as OutboxItem];
+    this.persist();
+    this.listenForConnectivity();
+    return { id: item.id, result };
+  }
+
+  /**
+   * Replays pending mutations in order per mutation key. Stops when the
+   * network is unreachable. A mutation whose key has no registered handler
+   * yet, or that hit a transient server error, holds back the later
+   * mutations with the same key only.
+   */
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.replayPending().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  /**
+   * Moves a failed or conflicting mutation back to pending and replays it
+   */
+  retry(id: string): Promise<void> {
+    this.update(id, { status: 'pending', attempts: 0, error: null, errorStatus: null });
+    return this.replay();
+  }
+
+  /**
+   * Drops a queued mutation and rolls back its optimistic update
+   */
+  discard(id: string): void {
+    this.rollback(id);
+    this.pendingPromises.get(id)?.reject(new Error('Queued mutation was discarded'));
+    this.remove(id);
+  }
+
+  /**
+   * Gets all queued mutations in replay order
+   */
+  getItems(): OutboxItem[] {
+    return this.items;
+  }
+
+  /**
+   * Subscribes to queue changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Clears the queue, handlers and persisted state
+   */
+  reset(): void {
+    this.items = [];
+    this.handlers.clear();
+    this.rollbacks.clear();
+    this.appliedUpdates.clear();
+    this.pendingPromises.clear();
+    this.persist();
+  }
+
+  private async replayPending(): Promise<void> {
+    const heldKeys = new Set<string>();
+
+    for (const item of [...this.items]) {
+      if (item.status !== 'pending' || heldKeys.has(item.mutationKey)) {
+        continue;
+      }
+
+      const handler = this.getHandler(item.mutationKey);
+      if (!handler) {
+        // Later mutations with this key wait until a component registers it
+        heldKeys.add(item.mutationKey);
+        continue;
+      }
+
+      if (!this.isOnline()) {
+        return;
+      }
+
+      this.update(item.id, { status: 'replaying', attempts: item.attempts + 1, lastAttemptAt: Date.now() });
+
+      try {
+        const data = await handler.fetcher(item.variables);
+        handler.onReplaySuccess?.(data, item.variables);
+        this.pendingPromises.get(item.id)?.resolve(data);
+        this.remove(item.id);
+      } catch (error) {
+        const err = error instanceof Error ? error : new Error('Unknown error');
+
+        if (isOfflineError(error)) {
+          this.update(item.id, { status: 'pending', attempts: item.attempts });
+          return;
+        }
+
+        const status = getMutationErrorStatus(error);
+        const details = { error: err.message, errorStatus: status };
+
+        if (status !== null && CONFLICT_STATUSES.includes(status)) {
+          this.rollback(item.id);
+          handler.onReplayError?.(err, item.variables);
+          if ((handler.onConflict?.(err, item.variables) ?? 'keep') === 'discard') {
+            this.pendingPromises.get(item.id)?.reject(err);
+            this.remove(item.id);
+          } else {
+            this.update(item.id, { status: 'conflict', ...details });
+          }
+          continue;
+        }
+
+        const isClientError = status !== null && status >= 400 && status < 500;
+        if (isClientError || item.attempts + 1 >= this.config.maxAttempts) {
+          this.rollback(item.id);
+          handler.onReplayError?.(err, item.variables);
+          this.pendingPromises.get(item.id)?.reject(err);
+          this.update(item.id, { status: 'failed', ...details });
+          continue;
+        }
+
+        // Transient server error: keep order for this key and try again on the next replay
+        this.update(item.id, { status: 'pending', ...details });
+        heldKeys.add(item.mutationKey);
+      }
+    }
+  }
+
+  private getHandler(mutationKey: string): OutboxHandler | undefined {
+    const registered = this.handlers.get(mutationKey);
+    return registered?.[registered.length - 1];
+  }
+
+  private rollback(id: string): void {
+    this.rollbacks.get(id)?.();
+    this.rollbacks.delete(id);
+    this.appliedUpdates.delete(id);
+  }
+
+  private update(id: string, changes: Partial<OutboxItem>): void {
+    this.items = this.items.map(item => (item.id === id ? { ...item, ...changes } : item));
+    this.persist();
+  }
+
+  private remove(id: string): void {
+    this.items = this.items.filter(item => item.id !== id);
+    this.rollbacks.delete(id);
+    this.appliedUpdates.delete(id);
+    this.pendingPromises.delete(id);
+    this.persist();
+  }
+
+  private isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  private listenForConnectivity(): void {
+    if (this.listening || typeof window === 'undefined') {
+      return;
+    }
+    this.listening = true;
+    window.addEventListener('online', () => {
+      void this.replay();
+    });
+  }
+
+  private load(): OutboxItem[] {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(this.config.storageKey) : null;
+      const parsed: unknown = raw ? JSON.parse(raw) : [];
+      if (!Array.isArray(parsed)) {
+        return [];
+      }
+      // Mutations interrupted mid-replay are retried
+      return (parsed as OutboxItem[]).map(item => (item.status === 'replaying' ? { ...item, status: 'pending' } : item));
+    } catch {
+      return [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      localStorage.setItem(this.config.storageKey, JSON.stringify(this.items));
+    } catch (error) {
+      console.error('[MutationOutbox] Failed to persist queued mutations', error);
+    }
+    this.listeners.forEach(listener => listener(this.items));
+  }
+}
+
+/**
+ * Outbox shared by all mutation hooks
+ */
+export const mutationOutbox = new MutationOutbox();
@@ -0,0 +1,227 @@
+/**
+ * Query Registry
+ *
+ * Shared registry used by useCustomQuery instances to deduplicate in-flight
+ * fetches and broadcast fresh data to every observer of the same query key.
+ * A fetch is aborted once the last observer of its key goes away.
+ */
+
+/**
+ * Query key accepted by query hooks
+ */
+export type QueryKey = string | readonly unknown[];
+
+/**
+ * Listener notified when data for a query key changes
+ */
+export type QueryListener = (data: unknown, updatedAt: number) => void;
+
+/**
+ * Rejection of a fetch that was aborted because nobody observes its key anymore
+ */
+export class QueryCancelledError extends Error {
+  constructor(public readonly key: string) {
+    super(`Query "${key}" was cancelled`);
+    this.name = 'QueryCancelledError';
+  }
+}
+
+interface InFlightFetch {
+  promise: Promise<unknown>;
+  controller: AbortController;
+}
+
+/**
+ * Serializes a query key into a stable string.
+ * String segments are joined with ':' so keys stay compatible with cache
+ * invalidation patterns; non-string segments are serialized with sorted object keys.
+ */
+export function serializeQueryKey(key: QueryKey): string {
+  if (typeof key === 'string') {
+    return key;
+  }
+
+  return key
+    .map(segment => (typeof segment === 'string' ? segment : stableStringify(segment)))
+    .join(':');
+}
+
+/**
+ * JSON serialization with object keys sorted, so equal objects serialize identically
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val: unknown) => {
+    if (isPlainObject(val)) {
+      return Object.keys(val)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, objectKey) => {
+          sorted[objectKey] = val[objectKey];
+          return sorted;
+        }, {});
+    }
+    return val;
+  }) ?? String(value);
+}
+
+/**
+ * Checks whether a value is a plain object (not an array, Date, class instance, ...)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype: unknown = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Structural sharing: returns `next`, but reuses every part of `prev` that is
+ * deeply equal to the corresponding part of `next`. If nothing changed, `prev`
+ * itself is returned, so unchanged data keeps referential identity.
+ */
+export function replaceEqualDeep<T>(prev: unknown, next: T): T {
+  if (prev === next) {
+    return next;
+  }
+
+  const prevIsArray = Array.isArray(prev);
+  const nextIsArray = Array.isArray(next);
+
+  if (prevIsArray && nextIsArray) {
+    const prevArray = prev as unknown[];
+    const nextArray = next as unknown as unknown[];
+    let equalItems = 0;
+    const result = nextArray.map((item, index) => {
+      const shared = replaceEqualDeep(prevArray[index], item);
+      if (shared === prevArray[index]) {
+        equalItems++;
+      }
+      return shared;
+    });
+    return (prevArray.length === nextArray.length && equalItems === nextArray.length
+      ? prev
+      : result) as T;
+  }
+
+  if (!prevIsArray && !nextIsArray && isPlainObject(prev) && isPlainObject(next)) {
+    const prevKeys = Object.keys(prev);
+    const nextKeys = Object.keys(next);
+    let equalItems = 0;
+    const result: Record<string, unknown> = {};
+    for (const objectKey of nextKeys) {
+      const shared = replaceEqualDeep(prev[objectKey], next[objectKey]);
+      result[objectKey] = shared;
+      if (shared === prev[objectKey] && objectKey in prev) {
+        equalItems++;
+      }
+    }
+    return (prevKeys.length === nextKeys.length && equalItems === nextKeys.length
+      ? prev
+      : result) as T;
+  }
+
+  return next;
+}
+
+/**
+ * Registry of in-flight fetches and observers, keyed by serialized query key
+ */
+export class QueryRegistry {
+  private readonly inFlight = new Map<string, InFlightFetch>();
+  private readonly listeners = new Map<string, Set<QueryListener>>();
+
+  /**
+   * Runs the fetcher unless a fetch for the same key is already in flight,
+   * in which case the existing promise is shared.
+   * The fetcher receives a signal that aborts when the fetch is cancelled;
+   * a cancelled fetch rejects with QueryCancelledError.
+   */
+  fetch<T>(key: string, fetcher: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return existing.promise as Promise<T>;
+    }
+
+    const controller = new AbortController();
+    const request = fetcher(controller.signal)
+      .catch((error: unknown) => {
+        throw controller.signal.aborted ? new QueryCancelledError(key) : error;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key)?.promise === request) {
+          this.inFlight.delete(key);
+        }
+      });
+    this.inFlight.set(key, { promise: request, controller });
+    return request;
+  }
+
+  /**
+   * Aborts the in-flight fetch for a key, if any.
+   * The next fetch for the key starts a new request.
+   */
+  cancel(key: string): void {
+    const entry = this.inFlight.get(key);
+    if (entry) {
+      this.inFlight.delete(key);
+      entry.controller.abort();
+    }
+  }
+
+  /**
+   * Checks whether a fetch for the key is currently in flight
+   */
+  isFetching(key: string): boolean {
+    return this.inFlight.has(key);
+  }
+
+  /**
+   * Subscribes to data changes for a key
+   * @returns Unsubscribe function
+   */
+  subscribe(key: string, listener: QueryListener): () => void {
+    let keyListeners = this.listeners.get(key);
+    if (!keyListeners) {
+      keyListeners = new Set();
+      this.listeners.set(key, keyListeners);
+    }
+    keyListeners.add(listener);
+
+    return () => {
+      keyListeners.delete(listener);
+      if (keyListeners.size === 0) {
+        this.listeners.delete(key);
+        // Nobody is waiting for the result anymore (unmount or superseded key)
+        this.cancel(key);
+      }
+    };
+  }
+
+  /**
+   * Notifies every observer of a key about new data
+   */
+  publish(key: string, data: unknown, updatedAt: number = Date.now()): void {
+    this.listeners.get(key)?.forEach(listener => listener(data, updatedAt));
+  }
+
+  /**
+   * Gets the number of observers of a key
+   */
+  getObserverCount(key: string): number {
+    return this.listeners.get(key)?.size ?? 0;
+  }
+
+  /**
+   * Drops all in-flight fetches and observers
+   */
+  reset(): void {
+    this.inFlight.forEach(entry => entry.controller.abort());
+    this.inFlight.clear();
+    this.listeners.clear();
+  }
+}
+
+/**
+ * Registry shared by all query hooks
+ */
+export const queryRegistry = new QueryRegistry();
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+
+/**
+ * Abortable request handle returned by useAbortableRequest
+ */
+export interface AbortableRequest {
+  /** Aborts the previous request and returns the signal for a new one */
+  start: () => AbortSignal;
+  /** Aborts the current request, if any */
+  abort: () => void;
+}
+
+/**
+ * Latest-request-wins cancellation for imperative fetches
+ *
+ * Each call to `start` aborts the request started before it, and the current
+ * request is aborted on unmount. Hooks that fetch on input changes (search
+ * terms, filters) pass the signal to the data layer and drop results whose
+ * signal was aborted.
+ */
+export function useAbortableRequest(): AbortableRequest {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const abort = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const start = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  useEffect(() => abort, [abort]);
+
+  return useMemo(() => ({ start, abort }), [start, abort]);
+}
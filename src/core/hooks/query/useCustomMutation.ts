@@ -1,10 +1,23 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 
 import type { ICacheProvider } from '@/core/cache';
 
 import { useDIContainer } from '@/core/modules/dependency-injection';
 import { TYPES } from '@/core/modules/dependency-injection/types';
 
+import { isOfflineError, mutationOutbox } from './mutationOutbox';
+import type { OutboxConflictResolution } from './mutationOutbox';
+
+/**
+ * Offline outbox options for a mutation
+ */
+export interface OfflineMutationOptions<TVariables = unknown> {
+  /** Stable key used to find the replay logic after a reload */
+  mutationKey: string;
+  /** Resolves 409/412 conflicts on replay (defaults to keeping the item for the user) */
+  onConflict?: (error: Error, variables: TVariables) => OutboxConflictResolution;
+}
+
 /**
  * Enterprise-grade mutation options interface
  */
@@ -18,6 +31,8 @@ export interface MutationOptions<TData = unknown, TError = Error, TVariables = u
   invalidateQueries?: string[];
   cacheUpdate?: (cache: ICacheProvider, data: TData, variables: TVariables) => void;
   optimisticUpdate?: (cache: ICacheProvider, variables: TVariables) => (() => void) | void;
+  /** Queue the mutation in the outbox instead of failing when offline */
+  offline?: OfflineMutationOptions<TVariables>;
 }
 
 /**
@@ -30,6 +45,8 @@ export interface MutationState<TData = unknown, TError = Error> {
   isSuccess: boolean;
   error: TError | null;
   isIdle: boolean;
+  /** The mutation is waiting in the offline outbox */
+  isQueued: boolean;
 }
 
 /**
@@ -45,7 +62,11 @@ export interface CustomMutationResult<TData = unknown, TError = Error, TVariable
  * Enterprise-grade custom mutation hook
  *
  * Replaces React Query's useMutation with custom implementation
- * that integrates with our ICacheProvider and DI container
+ * that integrates with our ICacheProvider and DI container.
+ *
+ * With the `offline` option, mutations made without connectivity are queued in
+ * the mutation outbox, keep their optimistic update and are replayed in order
+ * once the browser is back online.
  */
 export function useCustomMutation<TData = unknown, TError = Error, TVariables = unknown>(
   fetcher: (variables: TVariables) => Promise<TData>,
@@ -60,7 +81,8 @@ export function useCustomMutation<TData = unknown, TError = Error, TVariables =
     retryDelay = 1000,
     invalidateQueries = [],
     cacheUpdate,
-    optimisticUpdate
+    optimisticUpdate,
+    offline
   } = options;
 
   const container = useDIContainer();
@@ -72,12 +94,88 @@ export function useCustomMutation<TData = unknown, TError = Error, TVariables =
     isError: false,
     isSuccess: false,
     error: null,
-    isIdle: true
+    isIdle: true,
+    isQueued: false
   });
 
   const retryCountRef = useRef(0);
   const abortControllerRef = useRef<AbortController | null>(null);
   const rollbackRef = useRef<(() => void) | null>(null);
+  // Latest replay callbacks, so the outbox handler does not need re-registering
+  const replayRef = useRef({ fetcher, cacheUpdate, optimisticUpdate, invalidateQueries, onConflict: offline?.onConflict });
+
+  useEffect(() => {
+    replayRef.current = { fetcher, cacheUpdate, optimisticUpdate, invalidateQueries, onConflict: offline?.onConflict };
+  });
+
+  const mutationKey = offline?.mutationKey;
+
+  // Register replay logic for mutations queued by this or a previous session
+  useEffect(() => {
+    if (!mutationKey) return;
+
+    return mutationOutbox.register<TData, TVariables>(mutationKey, {
+      fetcher: variables => replayRef.current.fetcher(variables),
+      applyOptimisticUpdate: variables => replayRef.current.optimisticUpdate?.(cache, variables),
+      onReplaySuccess: (data, variables) => {
+        replayRef.current.cacheUpdate?.(cache, data, variables);
+        replayRef.current.invalidateQueries.forEach(queryKey => {
+          cache.invalidate(queryKey);
+        });
+      },
+      onReplayError: () => {
+        replayRef.current.invalidateQueries.forEach(queryKey => {
+          cache.invalidate(queryKey);
+        });
+      },
+      onConflict: (error, variables) => replayRef.current.onConflict?.(error, variables) ?? 'keep'
+    });
+  }, [cache, mutationKey]);
+
+  // Hand the mutation over to the outbox and settle once it is replayed
+  const queueMutation = useCallback(async (
+    variables: TVariables,
+    rollback: (() => void) | null
+  ): Promise<TData> => {
+    const { result } = mutationOutbox.enqueue<TData, TVariables>(mutationKey as string, variables, {
+      applied: replayRef.current.optimisticUpdate !== undefined,
+      rollback
+    });
+
+    setState(prev => ({
+      ...prev,
+      isLoading: false,
+      isQueued: true
+    }));
+
+    try {
+      const data = await result;
+
+      setState(prev => ({
+        ...prev,
+        data,
+        isQueued: false,
+        isSuccess: true
+      }));
+
+      onSuccess?.(data, variables);
+      onSettled?.(data, null, variables);
+      return data;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error('Unknown error');
+
+      setState(prev => ({
+        ...prev,
+        error: err as TError,
+        isError: true,
+        isQueued: false
+      }));
+
+      onError?.(err as TError, variables);
+      onSettled?.(undefined, err as TError, variables);
+      throw err;
+    }
+  }, [mutationKey, onSuccess, onError, onSettled]);
 
   // Execute the mutation with retry logic
   const executeMutation = useCallback(async (
@@ -98,7 +196,8 @@ export function useCustomMutation<TData = unknown, TError = Error, TVariables =
         isLoading: true,
         isError: false,
         error: null,
-        isIdle: false
+        isIdle: false,
+        isQueued: false
       }));
 
       // Run onMutate if provided
@@ -115,8 +214,28 @@ export function useCustomMutation<TData = unknown, TError = Error, TVariables =
         }
       }
 
+      const canQueue = mutationKey !== undefined && mutationOutbox.canEnqueue(variables);
+
+      if (canQueue && typeof navigator !== 'undefined' && navigator.onLine === false) {
+        const rollback = rollbackRef.current;
+        rollbackRef.current = null;
+        // Not awaited: replay failures are reported by queueMutation, not retried here
+        return queueMutation(variables, rollback);
+      }
+
       // Execute the mutation
-      const data = await fetcher(variables);
+      let data: TData;
+      try {
+        data = await fetcher(variables);
+      } catch (error) {
+        if (!canQueue || !isOfflineError(error)) {
+          throw error;
+        }
+        // Connection dropped mid-request: keep the optimistic update and queue
+        const rollback = rollbackRef.current;
+        rollbackRef.current = null;
+        return queueMutation(variables, rollback);
+      }
 
       // Update cache if cacheUpdate provided
       if (cacheUpdate) {
@@ -176,7 +295,7 @@ export function useCustomMutation<TData = unknown, TError = Error, TVariables =
 
       return Promise.reject(err);
     }
-  }, [fetcher, cache, retry, retryDelay, invalidateQueries, cacheUpdate, optimisticUpdate, onMutate, onSuccess, onError, onSettled]);
+  }, [fetcher, cache, retry, retryDelay, invalidateQueries, cacheUpdate, optimisticUpdate, onMutate, onSuccess, onError, onSettled, mutationKey, queueMutation]);
 
   // Mutate function (void return, handles errors internally)
   const mutate = useCallback((variables: TVariables) => {
@@ -207,7 +326,8 @@ export function useCustomMutation<TData = unknown, TError = Error, TVariables =
       isError: false,
       isSuccess: false,
       error: null,
-      isIdle: true
+      isIdle: true,
+      isQueued: false
     });
   }, []);
 
@@ -218,6 +338,7 @@ export function useCustomMutation<TData = unknown, TError = Error, TVariables =
     isSuccess: state.isSuccess,
     error: state.error,
     isIdle: state.isIdle,
+    isQueued: state.isQueued,
     mutate,
     mutateAsync,
     reset
@@ -4,6 +4,30 @@ import type { ICacheProvider } from '@/core/cache';
 
 import { useDIContainer } from '@/core/modules/dependency-injection';
 import { TYPES } from '@/core/modules/dependency-injection/types';
+import { RequestPriority } from '@/core/modules/network/types';
+
+import { QueryCancelledError, queryRegistry, replaceEqualDeep, serializeQueryKey } from './queryRegistry';
+import type { QueryKey } from './queryRegistry';
+
+/**
+ * Passed to query fetchers. `signal` aborts when the query is no longer
+ * observed (unmount or key change); forward it to the network call.
+ * `priority` is LOW for polls started by `refetchInterval`, so they queue
+ * behind requests the user is waiting for.
+ */
+export interface QueryFunctionContext {
+  signal: AbortSignal;
+  priority: RequestPriority;
+}
+
+/**
+ * Converts query results to the form stored in the cache and back.
+ * Used to keep normalized entity references in the cache instead of copies.
+ */
+export interface QueryNormalizer {
+  normalize: (key: string, data: unknown) => unknown;
+  denormalize: (key: string, stored: unknown) => Promise<unknown> | unknown;
+}
 
 /**
  * Enterprise-grade query options interface
@@ -23,6 +47,7 @@ export interface QueryOptions<T = unknown> {
   select?: (data: unknown) => T;
   initialData?: T;
   placeholderData?: T;
+  normalizer?: QueryNormalizer;
 }
 
 /**
@@ -46,6 +71,7 @@ export interface QueryState<T = unknown> {
 export interface CustomQueryResult<T = unknown> extends QueryState<T> {
   refetch: () => Promise<void>;
   invalidate: () => void;
+  /** Replaces the data in the shape the fetcher returns; `select` runs on it like on fetched data */
   setData: (data: T | ((old: T | undefined) => T)) => void;
 }
 
@@ -53,11 +79,17 @@ export interface CustomQueryResult<T = unknown> extends QueryState<T> {
  * Enterprise-grade custom query hook
  *
  * Replaces React Query's useQuery with custom implementation
- * that integrates with our ICacheProvider and DI container
+ * that integrates with our ICacheProvider and DI container.
+ *
+ * Queries sharing a key share one in-flight fetch through the query registry,
+ * stale cache entries are rendered immediately while a background refetch runs,
+ * and unchanged data keeps referential identity (structural sharing).
+ * When the key changes or the last observer unmounts, the superseded fetch is
+ * aborted through the signal handed to the fetcher.
  */
 export function useCustomQuery<T>(
-  key: string | string[],
-  fetcher: () => Promise<T>,
+  key: QueryKey,
+  fetcher: (context: QueryFunctionContext) => Promise<T>,
   options: QueryOptions<T> = {}
 ): CustomQueryResult<T> {
   const {
@@ -74,13 +106,14 @@ export function useCustomQuery<T>(
     onSettled,
     select,
     initialData,
-    placeholderData
+    placeholderData,
+    normalizer
   } = options;
 
   const container = useDIContainer();
   const cache = container.getByToken<ICacheProvider>(TYPES.CACHE_SERVICE);
 
-  const cacheKey = Array.isArray(key) ? key.join(':') : key;
+  const cacheKey = serializeQueryKey(key);
 
   const [state, setState] = useState<QueryState<T>>({
     data: initialData,
@@ -94,121 +127,175 @@ export function useCustomQuery<T>(
     lastUpdated: null
   });
 
-  const retryCountRef = useRef(0);
-  const abortControllerRef = useRef<AbortController | null>(null);
   const refetchIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Raw (pre-select) data and selected data, used for structural sharing
+  const rawDataRef = useRef<unknown>(undefined);
+  const dataRef = useRef<T | undefined>(initialData);
+  const mountedRef = useRef(true);
+  // Latest callbacks, so a new fetcher/select identity does not refire the query
+  const callbacksRef = useRef({ fetcher, select, onSuccess, onError, onSettled, normalizer });
 
-  // Execute the query with retry logic
-  const executeQuery = useCallback(async (
-    isRefetch = false,
-    signal?: AbortSignal
-  ): Promise<T> => {
-    try {
+  useEffect(() => {
+    callbacksRef.current = { fetcher, select, onSuccess, onError, onSettled, normalizer };
+  });
+
+  // Form of the data stored in the cache (normalized when a normalizer is set)
+  const toStored = useCallback((data: unknown): unknown => {
+    const { normalizer: currentNormalizer } = callbacksRef.current;
+    return currentNormalizer ? currentNormalizer.normalize(cacheKey, data) : data;
+  }, [cacheKey]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  // Apply raw data to local state, reusing unchanged parts of the previous data
+  const applyData = useCallback((raw: unknown, updatedAt: number, isStale: boolean): T => {
+    const sharedRaw = replaceEqualDeep(rawDataRef.current, raw);
+
+    if (sharedRaw !== rawDataRef.current || dataRef.current === undefined) {
+      rawDataRef.current = sharedRaw;
+      const { select: selectData } = callbacksRef.current;
+      const selected = selectData ? selectData(sharedRaw) : sharedRaw as T;
+      dataRef.current = replaceEqualDeep(dataRef.current, selected);
+    }
+
+    const data = dataRef.current;
+    if (mountedRef.current) {
       setState(prev => ({
         ...prev,
-        isLoading: !isRefetch,
-        isFetching: true,
-        isRefetching: isRefetch,
+        data,
+        isSuccess: true,
+        isError: false,
         error: null,
-        isError: false
+        isStale,
+        lastUpdated: updatedAt
       }));
+    }
+    return data;
+  }, []);
 
-      // Check cache first
-      const cachedEntry = cache.getEntry(cacheKey);
-      if (cachedEntry && !isRefetch) {
-        const cacheAge = Date.now() - cachedEntry.timestamp;
-        if (cacheAge < staleTime) {
-          const data = select ? select(cachedEntry.data) : cachedEntry.data as T;
-          setState(prev => ({
-            ...prev,
-            data: data,
-            isLoading: false,
-            isFetching: false,
-            isSuccess: true,
-            isStale: false,
-            lastUpdated: cachedEntry.timestamp
-          }));
-          onSuccess?.(data);
+  // Receive data fetched or set by any observer of the same key
+  useEffect(() => {
+    rawDataRef.current = undefined;
+    return queryRegistry.subscribe(cacheKey, (raw, updatedAt) => {
+      applyData(raw, updatedAt, false);
+    });
+  }, [cacheKey, applyData]);
+
+  // Fetch from the network, sharing the request with concurrent observers
+  const fetchShared = useCallback((priority: RequestPriority): Promise<unknown> => {
+    return queryRegistry.fetch(cacheKey, async signal => {
+      let attempt = 0;
+      for (;;) {
+        try {
+          const data = await callbacksRef.current.fetcher({ signal, priority });
+          await cache.set(cacheKey, toStored(data), cacheTime);
+          queryRegistry.publish(cacheKey, data, Date.now());
           return data;
+        } catch (error) {
+          if (signal.aborted || attempt >= retry) {
+            throw error;
+          }
+          const delay = retryDelay * Math.pow(2, attempt); // Exponential backoff
+          attempt++;
+          await new Promise(resolve => setTimeout(resolve, delay));
         }
       }
+    });
+  }, [cache, cacheKey, cacheTime, retry, retryDelay, toStored]);
+
+  // Execute the query: serve cache, revalidate stale data in the background
+  const executeQuery = useCallback(async (isRefetch = false, priority = RequestPriority.NORMAL): Promise<T> => {
+    let refetching = isRefetch;
+
+    if (!refetching) {
+      const cachedEntry = await cache.getEntry<unknown>(cacheKey);
+      if (cachedEntry) {
+        const isStale = Date.now() - cachedEntry.timestamp >= staleTime;
+        const { normalizer: currentNormalizer } = callbacksRef.current;
+        const cachedData = currentNormalizer
+          ? await currentNormalizer.denormalize(cacheKey, cachedEntry.data)
+          : cachedEntry.data;
+        const data = applyData(cachedData, cachedEntry.timestamp, isStale);
+
+        if (!isStale) {
+          callbacksRef.current.onSuccess?.(data);
+          return data;
+        }
 
-      // Fetch new data
-      const data = await fetcher();
-
-      // Cache the result
-      cache.set(cacheKey, data, cacheTime);
-
-      const finalData = select ? select(data) : data;
+        // Stale-while-revalidate: keep showing cached data while refetching
+        refetching = true;
+      }
+    }
 
+    if (mountedRef.current) {
       setState(prev => ({
         ...prev,
-        data: finalData,
-        isLoading: false,
-        isFetching: false,
-        isRefetching: false,
-        isSuccess: true,
-        isStale: false,
-        lastUpdated: Date.now()
+        isLoading: !refetching && dataRef.current === undefined,
+        isFetching: true,
+        isRefetching: refetching,
+        error: null,
+        isError: false
       }));
+    }
 
-      retryCountRef.current = 0;
-      onSuccess?.(finalData);
-      onSettled?.(finalData, null);
-
-      return finalData;
+    try {
+      await fetchShared(priority);
+      const data = dataRef.current as T;
+
+      if (mountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          isFetching: false,
+          isRefetching: false
+        }));
+      }
 
+      callbacksRef.current.onSuccess?.(data);
+      callbacksRef.current.onSettled?.(data, null);
+      return data;
     } catch (error) {
-      const err = error instanceof Error ? error : new Error('Unknown error');
-
-      // Retry logic
-      if (retryCountRef.current < retry && !signal?.aborted) {
-        retryCountRef.current++;
-        const delay = retryDelay * Math.pow(2, retryCountRef.current - 1); // Exponential backoff
+      // Superseded fetch: the query that replaced it owns the state now
+      if (error instanceof QueryCancelledError) {
+        throw error;
+      }
 
-        setTimeout(() => {
-          if (!signal?.aborted) {
-            executeQuery(isRefetch, signal);
-          }
-        }, delay);
+      const err = error instanceof Error ? error : new Error('Unknown error');
 
-        return Promise.reject(err);
+      if (mountedRef.current) {
+        setState(prev => ({
+          ...prev,
+          error: err,
+          isError: true,
+          isLoading: false,
+          isFetching: false,
+          isRefetching: false
+        }));
       }
 
-      setState(prev => ({
-        ...prev,
-        error: err,
-        isError: true,
-        isLoading: false,
-        isFetching: false,
-        isRefetching: false
-      }));
-
-      onError?.(err);
-      onSettled?.(undefined, err);
+      callbacksRef.current.onError?.(err);
+      callbacksRef.current.onSettled?.(undefined, err);
 
-      return Promise.reject(err);
+      throw err;
     }
-  }, [cache, cacheKey, fetcher, staleTime, cacheTime, select, retry, retryDelay, onSuccess, onError, onSettled]);
+  }, [cache, cacheKey, staleTime, applyData, fetchShared]);
 
   // Initial fetch
   useEffect(() => {
     if (!enabled) return;
 
-    abortControllerRef.current = new AbortController();
-    executeQuery(false, abortControllerRef.current.signal);
-
-    return () => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
-    };
+    executeQuery(false).catch(() => undefined);
   }, [enabled, cacheKey, executeQuery]);
 
   // Refetch on mount
   useEffect(() => {
     if (enabled && refetchOnMount && state.data !== undefined) {
-      executeQuery(true);
+      executeQuery(true).catch(() => undefined);
     }
   }, [enabled, refetchOnMount, executeQuery]);
 
@@ -217,8 +304,8 @@ export function useCustomQuery<T>(
     if (!enabled || !refetchOnWindowFocus) return;
 
     const handleFocus = () => {
-      if (state.data !== undefined) {
-        executeQuery(true);
+      if (dataRef.current !== undefined) {
+        executeQuery(true).catch(() => undefined);
       }
     };
 
@@ -231,7 +318,7 @@ export function useCustomQuery<T>(
     if (!enabled || !refetchInterval) return;
 
     refetchIntervalRef.current = setInterval(() => {
-      executeQuery(true);
+      executeQuery(true, RequestPriority.LOW).catch(() => undefined);
     }, refetchInterval);
 
     return () => {
@@ -260,22 +347,17 @@ export function useCustomQuery<T>(
     return executeQuery(true);
   }, [cache, cacheKey, executeQuery]);
 
-  // Set data manually
+  // Set data manually and share it with every observer of the key. The cache
+  // and the registry hold raw data, so each observer applies its own select.
   const setData = useCallback((newData: T | ((old: T | undefined) => T)) => {
-    const data = typeof newData === 'function'
-      ? (newData as Function)(state.data)
+    const previous = callbacksRef.current.select ? rawDataRef.current as T | undefined : dataRef.current;
+    const raw = typeof newData === 'function'
+      ? (newData as (old: T | undefined) => T)(previous)
       : newData;
 
-    cache.set(cacheKey, data, cacheTime);
-
-    setState(prev => ({
-      ...prev,
-      data,
-      isSuccess: true,
-      isStale: false,
-      lastUpdated: Date.now()
-    }));
-  }, [cache, cacheKey, cacheTime, state.data]);
+    cache.set(cacheKey, toStored(raw), cacheTime);
+    queryRegistry.publish(cacheKey, raw, Date.now());
+  }, [cache, cacheKey, cacheTime, toStored]);
 
   // Return placeholder data if loading and placeholder provided
   const finalData = state.isLoading && placeholderData !== undefined
@@ -0,0 +1,53 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+
+import { mutationOutbox } from './mutationOutbox';
+
+import type { OutboxItem } from './mutationOutbox';
+
+/**
+ * Mutation outbox hook result interface
+ */
+export interface MutationOutboxResult {
+  items: OutboxItem[];
+  /** Mutations waiting for (or currently in) replay */
+  pending: OutboxItem[];
+  /** Mutations rejected by the server or out of retry attempts */
+  failed: OutboxItem[];
+  /** Mutations whose replay hit a 409/412 conflict */
+  conflicts: OutboxItem[];
+  retry: (id: string) => Promise<void>;
+  discard: (id: string) => void;
+  replay: () => Promise<void>;
+}
+
+/**
+ * Mutation outbox hook
+ *
+ * Exposes queued offline mutations so the UI can show pending items and let
+ * the user retry or discard failed and conflicting ones.
+ */
+export function useMutationOutbox(mutationKey?: string): MutationOutboxResult {
+  const subscribe = useCallback((onChange: () => void) => mutationOutbox.subscribe(onChange), []);
+  const getSnapshot = useCallback(() => mutationOutbox.getItems(), []);
+
+  const allItems = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const items = useMemo(
+    () => (mutationKey ? allItems.filter(item => item.mutationKey === mutationKey) : allItems),
+    [allItems, mutationKey]
+  );
+
+  const retry = useCallback((id: string) => mutationOutbox.retry(id), []);
+  const discard = useCallback((id: string) => mutationOutbox.discard(id), []);
+  const replay = useCallback(() => mutationOutbox.replay(), []);
+
+  return {
+    items,
+    pending: items.filter(item => item.status === 'pending' || item.status === 'replaying'),
+    failed: items.filter(item => item.status === 'failed'),
+    conflicts: items.filter(item => item.status === 'conflict'),
+    retry,
+    discard,
+    replay
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Fake OpenID Connect issuer for tests
+ *
+ * Serves a discovery document, a JWKS, and an authorization code token
+ * endpoint through a fetch function, and signs ID tokens with keys it can
+ * rotate. PKCE verifiers and client secrets are accepted as sent. It needs a
+ * real crypto.subtle in place of the mocked one.
+ */
+
+import { base64URLEncode } from '../utils/webauthn';
+
+import type { FetchLike, IDTokenAlgorithm, IDTokenClaims, JWK, OIDCProviderMetadata } from '../utils/oidc';
+
+export interface FakeOIDCIssuerOptions {
+    issuer?: string;
+    alg?: IDTokenAlgorithm;
+    /** Cache-Control max-age of the JWKS response in seconds; none when left out */
+    jwksMaxAge?: number;
+}
+
+export interface AuthorizeParams {
+    clientId: string;
+    redirectUri: string;
+    nonce?: string;
+    /** Claims of the ID token issued for the code, on top of the defaults */
+    claims?: Partial<IDTokenClaims>;
+}
+
+export interface SignOptions {
+    kid?: string;
+    /** Header algorithm to claim, e.g. `none`, regardless of the key */
+    alg?: string;
+}
+
+interface SigningKey {
+    kid: string;
+    alg: IDTokenAlgorithm;
+    privateKey: CryptoKey;
+    publicJwk: JWK;
+}
+
+interface PendingCode extends AuthorizeParams {
+    used: boolean;
+}
+
+const SIGN_PARAMS: Record<IDTokenAlgorithm, { generate: RsaHashedKeyGenParams | EcKeyGenParams; sign: AlgorithmIdentifier | EcdsaParams }> = {
+    RS256: {
+        generate: { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+        sign: 'RSASSA-PKCS1-v1_5'
+    },
+    ES256: {
+        generate: { name: 'ECDSA', namedCurve: 'P-256' },
+        sign: { name: 'ECDSA', hash: 'SHA-256' }
+    }
+};
+
+export class FakeOIDCIssuer {
+    readonly issuer: string;
+    /** Number of JWKS requests served, to check caching */
+    jwksRequests = 0;
+    discoveryRequests = 0;
+
+    private readonly options: Required<Omit<FakeOIDCIssuerOptions, 'jwksMaxAge'>> & Pick<FakeOIDCIssuerOptions, 'jwksMaxAge'>;
+    private keys: SigningKey[] = [];
+    private readonly codes = new Map<string, PendingCode>();
+    private keyCounter = 0;
+
+    private constructor(options: FakeOIDCIssuerOptions) {
+        this.options = { issuer: 'https://issuer.test', alg: 'RS256', ...options };
+        this.issuer = this.options.issuer;
+    }
+
+    /**
+     * Creates an issuer with one signing key
+     */
+    static async create(options: FakeOIDCIssuerOptions = {}): Promise<FakeOIDCIssuer> {
+        const issuer = new FakeOIDCIssuer(options);
+        await issuer.rotateKeys();
+        return issuer;
+    }
+
+    /**
+     * Discovery document of the issuer
+     */
+    get metadata(): OIDCProviderMetadata {
+        return {
+            issuer: this.issuer,
+            authorization_endpoint: `${this.issuer}/authorize`,
+            token_endpoint: `${this.issuer}/token`,
+            userinfo_endpoint: `${this.issuer}/userinfo`,
+            jwks_uri: `${this.issuer}/jwks`,
+            id_token_signing_alg_values_supported: [this.options.alg]
+        };
+    }
+
+    /**
+     * Key id new tokens are signed with
+     */
+    get currentKid(): string {
+        return this.keys[this.keys.length - 1]!.kid;
+    }
+
+    /**
+     * Adds a signing key and signs with it from now on
+     * @param retirePrevious - Stop publishing the previous keys
+     * @returns The new key id
+     */
+    async rotateKeys(retirePrevious = false): Promise<string> {
+        const alg = this.options.alg;
+        const keyPair = await crypto.subtle.generateKey(SIGN_PARAMS[alg].generate, true, ['sign', 'verify']);
+        const { kty, n, e, crv, x, y } = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+        const kid = `key-${++this.keyCounter}`;
+
+        const publicJwk: JWK = alg === 'RS256' ? { kty: kty!, n: n!, e: e! } : { kty: kty!, crv: crv!, x: x!, y: y! };
+        const key: SigningKey = { kid, alg, privateKey: keyPair.privateKey, publicJwk: { ...publicJwk, kid, alg, use: 'sig' } };
+        this.keys = retirePrevious ? [key] : [...this.keys, key];
+        return kid;
+    }
+
+    /**
+     * Issues an authorization code, as the authorization endpoint would after sign-in
+     */
+    authorize(params: AuthorizeParams): string {
+        const code = base64URLEncode(crypto.getRandomValues(new Uint8Array(16)));
+        this.codes.set(code, { ...params, used: false });
+        return code;
+    }
+
+    /**
+     * Signs an ID token; claims left out get valid defaults
+     */
+    async signIDToken(claims: Partial<IDTokenClaims> = {}, options: SignOptions = {}): Promise<string> {
+        const key = options.kid ? this.keys.find(candidate => candidate.kid === options.kid) : this.keys[this.keys.length - 1];
+        if (!key) {
+            throw new Error(`No signing key ${options.kid}`);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const header = { alg: options.alg ?? key.alg, typ: 'JWT', kid: key.kid };
+        const payload: Partial<IDTokenClaims> = {
+            iss: this.issuer,
+            sub: 'user-1',
+            aud: 'test-client',
+            iat: now,
+            exp: now + 3600,
+            ...claims
+        };
+
+        const encoder = new TextEncoder();
+        const signingInput = `${base64URLEncode(encoder.encode(JSON.stringify(header)))}.${base64URLEncode(encoder.encode(JSON.stringify(payload)))}`;
+        const signature = await crypto.subtle.sign(SIGN_PARAMS[key.alg].sign, key.privateKey, encoder.encode(signingInput));
+        return `${signingInput}.${base64URLEncode(signature)}`;
+    }
+
+    /**
+     * Serves the issuer's endpoints; other URLs get a 404
+     */
+    readonly fetch: FetchLike = async (input, init) => {
+        const url = new URL(input);
+        const path = url.href.startsWith(this.issuer) ? url.href.slice(this.issuer.length).split('?')[0] : null;
+
+        switch (path) {
+            case '/.well-known/openid-configuration':
+                this.discoveryRequests++;
+                return jsonResponse(200, this.metadata);
+            case '/jwks':
+                this.jwksRequests++;
+                return jsonResponse(200, { keys: this.keys.map(key => key.publicJwk) }, this.options.jwksMaxAge !== undefined
+                    ? { 'Cache-Control': `public, max-age=${this.options.jwksMaxAge}` }
+                    : {});
+            case '/token':
+                return this.handleToken(new URLSearchParams(typeof init?.body === 'string' ? init.body : ''));
+            default:
+                return jsonResponse(404, { error: 'not_found' });
+        }
+    };
+
+    /**
+     * Installs this issuer as the global fetch
+     * @returns Function that restores the previous fetch
+     */
+    install(): () => void {
+        const previousFetch = globalThis.fetch;
+        globalThis.fetch = this.fetch as typeof fetch;
+        return () => {
+            globalThis.fetch = previousFetch;
+        };
+    }
+
+    private async handleToken(params: URLSearchParams): Promise<Response> {
+        const pending = this.codes.get(params.get('code') ?? '');
+        if (params.get('grant_type') !== 'authorization_code' || !pending || pending.used) {
+            return jsonResponse(400, { error: 'invalid_grant' });
+        }
+        if (params.get('client_id') !== pending.clientId || params.get('redirect_uri') !== pending.redirectUri) {
+            return jsonResponse(400, { error: 'invalid_grant' });
+        }
+        pending.used = true;
+
+        const idToken = await this.signIDToken({
+            aud: pending.clientId,
+            ...(pending.nonce && { nonce: pending.nonce }),
+            ...pending.claims
+        });
+        return jsonResponse(200, {
+            access_token: base64URLEncode(crypto.getRandomValues(new Uint8Array(24))),
+            token_type: 'Bearer',
+            expires_in: 3600,
+            scope: 'openid email profile',
+            id_token: idToken
+        });
+    }
+}
+
+/**
+ * Just enough of a Response for fetch callers; jsdom has no Response
+ */
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+    return {
+        ok: status >= 200 && status < 300,
+        status,
+        statusText: status === 200 ? 'OK' : status === 400 ? 'Bad Request' : 'Not Found',
+        headers: { get: (name: string) => headers[name] ?? null },
+        json: async () => body
+    } as unknown as Response;
+}
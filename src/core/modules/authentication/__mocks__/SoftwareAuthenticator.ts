@@ -0,0 +1,279 @@
+/**
+ * Software WebAuthn authenticator for tests
+ *
+ * Stands in for navigator.credentials in jsdom. It creates ES256 credentials,
+ * answers registrations with "none" attestation and signs assertions like a
+ * hardware authenticator, sign counter included. It needs a real
+ * crypto.subtle in place of the mocked one.
+ */
+
+import { encodeCBOR } from '../utils/cbor';
+import { base64URLEncode } from '../utils/webauthn';
+
+import type { CBORValue } from '../utils/cbor';
+
+export interface SoftwareAuthenticatorOptions {
+    /** Origin written into client data */
+    origin?: string;
+    attachment?: AuthenticatorAttachment;
+    /** Whether the authenticator can verify the user (PIN or biometrics) */
+    userVerification?: boolean;
+    /** Whether a sign counter is kept; synced passkeys typically report 0 */
+    signCounter?: boolean;
+    transports?: string[];
+}
+
+interface StoredCredential {
+    id: Uint8Array<ArrayBuffer>;
+    rpId: string;
+    userHandle: Uint8Array<ArrayBuffer>;
+    discoverable: boolean;
+    keyPair: CryptoKeyPair;
+    signCount: number;
+}
+
+const FLAG_UP = 0x01;
+const FLAG_UV = 0x04;
+const FLAG_AT = 0x40;
+
+const ES256 = -7;
+
+export class SoftwareAuthenticator {
+    private readonly credentials = new Map<string, StoredCredential>();
+    private readonly options: Required<SoftwareAuthenticatorOptions>;
+
+    constructor(options: SoftwareAuthenticatorOptions = {}) {
+        this.options = {
+            origin: window.location.origin,
+            attachment: 'platform',
+            userVerification: true,
+            signCounter: true,
+            transports: ['internal'],
+            ...options
+        };
+    }
+
+    /**
+     * Installs this authenticator as navigator.credentials
+     * @returns Function that restores the previous globals
+     */
+    install(): () => void {
+        const previousCredentials = Object.getOwnPropertyDescriptor(navigator, 'credentials');
+        const previousPublicKeyCredential = Object.getOwnPropertyDescriptor(window, 'PublicKeyCredential');
+
+        Object.defineProperty(navigator, 'credentials', { value: this, configurable: true });
+        Object.defineProperty(window, 'PublicKeyCredential', { value: class PublicKeyCredential {}, configurable: true });
+
+        return () => {
+            restoreProperty(navigator, 'credentials', previousCredentials);
+            restoreProperty(window, 'PublicKeyCredential', previousPublicKeyCredential);
+        };
+    }
+
+    /**
+     * Credential IDs held by the authenticator, base64url encoded
+     */
+    getCredentialIds(): string[] {
+        return Array.from(this.credentials.keys());
+    }
+
+    /**
+     * Overrides a credential's sign counter, e.g. to simulate a cloned authenticator
+     */
+    setSignCount(credentialId: string, signCount: number): void {
+        this.getCredential(credentialId).signCount = signCount;
+    }
+
+    async create(options?: CredentialCreationOptions): Promise<Credential | null> {
+        const publicKey = options?.publicKey;
+        if (!publicKey) {
+            throw new DOMException('Only public key credentials are supported', 'NotSupportedError');
+        }
+        if (!publicKey.pubKeyCredParams.some(param => param.alg === ES256)) {
+            throw new DOMException('No supported algorithm', 'NotSupportedError');
+        }
+
+        const selection = publicKey.authenticatorSelection ?? {};
+        if (selection.authenticatorAttachment && selection.authenticatorAttachment !== this.options.attachment) {
+            throw new DOMException('Authenticator attachment not available', 'NotAllowedError');
+        }
+        const userVerified = this.performUserVerification(selection.userVerification);
+
+        const excluded = (publicKey.excludeCredentials ?? []).some(descriptor =>
+            this.credentials.has(base64URLEncode(descriptor.id)));
+        if (excluded) {
+            throw new DOMException('The authenticator already holds a credential for this account', 'InvalidStateError');
+        }
+
+        const rpId = publicKey.rp.id ?? window.location.hostname;
+        const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+        const id = randomBytes(16);
+        const credential: StoredCredential = {
+            id,
+            rpId,
+            userHandle: toBytes(publicKey.user.id),
+            discoverable: selection.residentKey === 'required' || selection.residentKey === 'preferred',
+            keyPair,
+            signCount: 0
+        };
+        this.credentials.set(base64URLEncode(id), credential);
+
+        const jwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+        const coseKey = encodeCBOR(new Map<number, CBORValue>([
+            [1, 2],
+            [3, ES256],
+            [-1, 1],
+            [-2, base64URLToBytes(jwk.x!)],
+            [-3, base64URLToBytes(jwk.y!)]
+        ]));
+
+        const authData = concat(
+            await this.authenticatorDataHeader(credential, FLAG_UP | (userVerified ? FLAG_UV : 0) | FLAG_AT),
+            new Uint8Array(16),
+            new Uint8Array([id.length >> 8, id.length & 0xff]),
+            id,
+            coseKey
+        );
+        const attestationObject = encodeCBOR(new Map<string, CBORValue>([
+            ['fmt', 'none'],
+            ['attStmt', new Map()],
+            ['authData', authData]
+        ]));
+
+        return this.toCredential(id, {
+            clientDataJSON: this.clientData('webauthn.create', publicKey.challenge),
+            attestationObject: attestationObject.buffer,
+            getTransports: () => [...this.options.transports]
+        });
+    }
+
+    async get(options?: CredentialRequestOptions): Promise<Credential | null> {
+        const publicKey = options?.publicKey;
+        if (!publicKey) {
+            throw new DOMException('Only public key credentials are supported', 'NotSupportedError');
+        }
+
+        const rpId = publicKey.rpId ?? window.location.hostname;
+        const allowed = (publicKey.allowCredentials ?? []).map(descriptor => base64URLEncode(descriptor.id));
+        const credential = Array.from(this.credentials.values()).find(candidate =>
+            candidate.rpId === rpId && (allowed.length > 0
+                ? allowed.includes(base64URLEncode(candidate.id))
+                : candidate.discoverable));
+        if (!credential) {
+            throw new DOMException('No matching credential', 'NotAllowedError');
+        }
+
+        const userVerified = this.performUserVerification(publicKey.userVerification);
+        if (this.options.signCounter) {
+            credential.signCount++;
+        }
+
+        const authData = await this.authenticatorDataHeader(credential, FLAG_UP | (userVerified ? FLAG_UV : 0));
+        const clientDataJSON = this.clientData('webauthn.get', publicKey.challenge);
+        const clientDataHash = new Uint8Array(await crypto.subtle.digest('SHA-256', clientDataJSON));
+        const signature = new Uint8Array(await crypto.subtle.sign(
+            { name: 'ECDSA', hash: 'SHA-256' },
+            credential.keyPair.privateKey,
+            concat(authData, clientDataHash)
+        ));
+
+        return this.toCredential(credential.id, {
+            clientDataJSON,
+            authenticatorData: authData.buffer,
+            signature: rawToDerSignature(signature).buffer,
+            userHandle: credential.userHandle.slice().buffer
+        });
+    }
+
+    private performUserVerification(requirement: UserVerificationRequirement | undefined): boolean {
+        if (requirement === 'required' && !this.options.userVerification) {
+            throw new DOMException('User verification is not available', 'NotAllowedError');
+        }
+        return this.options.userVerification && requirement !== 'discouraged';
+    }
+
+    private async authenticatorDataHeader(credential: StoredCredential, flags: number): Promise<Uint8Array<ArrayBuffer>> {
+        const rpIdHash = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(credential.rpId)));
+        const counter = new Uint8Array(4);
+        new DataView(counter.buffer).setUint32(0, credential.signCount);
+        return concat(rpIdHash, new Uint8Array([flags]), counter);
+    }
+
+    private clientData(type: string, challenge: BufferSource): ArrayBuffer {
+        return new TextEncoder().encode(JSON.stringify({
+            type,
+            challenge: base64URLEncode(challenge),
+            origin: this.options.origin,
+            crossOrigin: false
+        })).buffer;
+    }
+
+    private toCredential(id: Uint8Array<ArrayBuffer>, response: object): Credential {
+        return {
+            id: base64URLEncode(id),
+            rawId: id.slice().buffer,
+            type: 'public-key',
+            authenticatorAttachment: this.options.attachment,
+            response,
+            getClientExtensionResults: () => ({})
+        } as unknown as Credential;
+    }
+
+    private getCredential(credentialId: string): StoredCredential {
+        const credential = this.credentials.get(credentialId);
+        if (!credential) {
+            throw new Error(`Unknown credential: ${credentialId}`);
+        }
+        return credential;
+    }
+}
+
+function restoreProperty(target: object, name: string, descriptor: PropertyDescriptor | undefined): void {
+    if (descriptor) {
+        Object.defineProperty(target, name, descriptor);
+    } else {
+        Reflect.deleteProperty(target, name);
+    }
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(length);
+    crypto.getRandomValues(bytes);
+    return bytes;
+}
+
+function toBytes(data: BufferSource): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(ArrayBuffer.isView(data)
+        ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+        : new Uint8Array(data));
+}
+
+function base64URLToBytes(value: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+/**
+ * Web Crypto signs ECDSA as r || s; authenticators return ASN.1 DER
+ */
+function rawToDerSignature(raw: Uint8Array): Uint8Array<ArrayBuffer> {
+    const integer = (bytes: Uint8Array) => {
+        let start = 0;
+        while (start < bytes.length - 1 && bytes[start] === 0) start++;
+        const trimmed = bytes.subarray(start);
+        const padded = trimmed[0]! & 0x80 ? concat(new Uint8Array([0]), trimmed) : trimmed;
+        return concat(new Uint8Array([0x02, padded.length]), padded);
+    };
+    const half = raw.length / 2;
+    const body = concat(integer(raw.subarray(0, half)), integer(raw.subarray(half)));
+    return concat(new Uint8Array([0x30, body.length]), body);
+}
@@ -0,0 +1,191 @@
+/**
+ * Device Session Tests
+ *
+ * Checks that sessions are listed current first with parsed dates, and that
+ * a revocation pushed over the socket signs the tab out once and is relayed
+ * to sibling tabs over the session sync channel.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+
+import { SESSION_SOCKET_FEATURE, SESSION_SYNC_CHANNEL, createDeviceSessionService } from '../../services/DeviceSessionService';
+
+import type { IApiClient } from '../../../network/interfaces';
+import type { WebSocketEventListener } from '../../../websocket';
+
+/**
+ * In-memory BroadcastChannel: messages reach every other open channel of the same name
+ */
+class FakeBroadcastChannel {
+    static open: FakeBroadcastChannel[] = [];
+
+    onmessage: ((event: MessageEvent) => void) | null = null;
+    readonly posted: unknown[] = [];
+
+    constructor(public readonly name: string) {
+        FakeBroadcastChannel.open.push(this);
+    }
+
+    postMessage(data: unknown): void {
+        this.posted.push(data);
+        FakeBroadcastChannel.open
+            .filter(channel => channel !== this && channel.name === this.name)
+            .forEach(channel => channel.onmessage?.({ data } as MessageEvent));
+    }
+
+    close(): void {
+        FakeBroadcastChannel.open = FakeBroadcastChannel.open.filter(channel => channel !== this);
+    }
+}
+
+/**
+ * Socket stand-in that remembers the listener of each feature
+ */
+function createSocket() {
+    const listeners = new Map<string, WebSocketEventListener>();
+    const unsubscribe = jest.fn((feature: string) => listeners.delete(feature));
+    return {
+        listeners,
+        unsubscribe,
+        subscribe: (feature: string, listener: WebSocketEventListener) => {
+            listeners.set(feature, listener);
+            return () => unsubscribe(feature);
+        },
+        push: (type: string, payload: unknown) => listeners.get(SESSION_SOCKET_FEATURE)?.onMessage?.({
+            id: 'message-1',
+            type,
+            feature: SESSION_SOCKET_FEATURE,
+            payload,
+            timestamp: new Date()
+        })
+    };
+}
+
+function createApiClient(responses: { get?: unknown; delete?: unknown }) {
+    const get = jest.fn(async (_url: string) => ({ data: responses.get }));
+    const del = jest.fn(async (_url: string) => ({ data: responses.delete }));
+    return { get, delete: del, client: { get, delete: del } as unknown as IApiClient };
+}
+
+describe('DeviceSessionService', () => {
+    const previousBroadcastChannel = global.BroadcastChannel;
+
+    beforeEach(() => {
+        FakeBroadcastChannel.open = [];
+        global.BroadcastChannel = FakeBroadcastChannel as unknown as typeof BroadcastChannel;
+    });
+
+    afterEach(() => {
+        global.BroadcastChannel = previousBroadcastChannel;
+    });
+
+    describe('listSessions', () => {
+        it('puts the current session first, then the most recently seen', async () => {
+            const session = (id: string, lastSeenAt: string, current = false) => ({
+                id,
+                deviceInfo: { name: 'Firefox on Windows', type: 'desktop', platform: 'Windows' },
+                ipAddress: '89.160.20.112',
+                location: null,
+                createdAt: '2026-01-01T00:00:00.000Z',
+                lastSeenAt,
+                current
+            });
+            const api = createApiClient({
+                get: [
+                    session('old', '2026-01-01T10:00:00.000Z'),
+                    session('mine', '2026-01-01T09:00:00.000Z', true),
+                    session('recent', '2026-01-02T10:00:00.000Z')
+                ]
+            });
+
+            const sessions = await createDeviceSessionService(api.client).listSessions();
+
+            expect(sessions.map(s => s.id)).toEqual(['mine', 'recent', 'old']);
+            expect(sessions[1]!.lastSeenAt).toEqual(new Date('2026-01-02T10:00:00.000Z'));
+            expect(sessions[1]!.createdAt).toBeInstanceOf(Date);
+        });
+    });
+
+    describe('revokeSession', () => {
+        it('deletes the session by id', async () => {
+            const api = createApiClient({});
+
+            await createDeviceSessionService(api.client).revokeSession('a/b');
+
+            expect(api.delete).toHaveBeenCalledWith(expect.stringMatching(/\/sessions\/a%2Fb$/));
+        });
+    });
+
+    describe('revokeOtherSessions', () => {
+        it('returns how many sessions were revoked', async () => {
+            const api = createApiClient({ delete: { revoked: 2 } });
+
+            await expect(createDeviceSessionService(api.client).revokeOtherSessions()).resolves.toBe(2);
+            expect(api.delete).toHaveBeenCalledWith(expect.stringMatching(/\/sessions$/));
+        });
+    });
+
+    describe('watchRevocation', () => {
+        const service = createDeviceSessionService(createApiClient({}).client);
+
+        it('signs out once when the socket reports the session revoked', () => {
+            const socket = createSocket();
+            const onRevoked = jest.fn();
+            service.watchRevocation(socket, onRevoked);
+
+            socket.push('session_revoked', { sessionId: '7', revokedAt: '2026-01-01T12:00:00.000Z' });
+            socket.push('session_revoked', { sessionId: '7', revokedAt: '2026-01-01T12:00:00.000Z' });
+
+            expect(onRevoked).toHaveBeenCalledTimes(1);
+            expect(onRevoked).toHaveBeenCalledWith({ sessionId: '7', revokedAt: new Date('2026-01-01T12:00:00.000Z') });
+        });
+
+        it('ignores other session messages', () => {
+            const socket = createSocket();
+            const onRevoked = jest.fn();
+            service.watchRevocation(socket, onRevoked);
+
+            socket.push('session_refreshed', { sessionId: '7' });
+
+            expect(onRevoked).not.toHaveBeenCalled();
+        });
+
+        it('relays the revocation to sibling tabs without echoing it back', () => {
+            const socket = createSocket();
+            const onRevoked = jest.fn();
+            const onSiblingRevoked = jest.fn();
+            service.watchRevocation(socket, onRevoked);
+            service.watchRevocation(createSocket(), onSiblingRevoked);
+
+            socket.push('session_revoked', { sessionId: '7', revokedAt: '2026-01-01T12:00:00.000Z' });
+
+            expect(onSiblingRevoked).toHaveBeenCalledWith({ sessionId: '7', revokedAt: new Date('2026-01-01T12:00:00.000Z') });
+            expect(onRevoked).toHaveBeenCalledTimes(1);
+            const [sender, sibling] = FakeBroadcastChannel.open;
+            expect(sender!.name).toBe(SESSION_SYNC_CHANNEL);
+            expect(sender!.posted).toEqual([
+                { type: 'signout', reason: 'revoked', sessionId: '7', revokedAt: '2026-01-01T12:00:00.000Z' }
+            ]);
+            expect(sibling!.posted).toEqual([]);
+        });
+
+        it('ignores sign outs from sibling tabs for other reasons', () => {
+            const onRevoked = jest.fn();
+            service.watchRevocation(createSocket(), onRevoked);
+
+            new FakeBroadcastChannel(SESSION_SYNC_CHANNEL).postMessage({ type: 'signout' });
+
+            expect(onRevoked).not.toHaveBeenCalled();
+        });
+
+        it('unsubscribes and closes the channel when stopped', () => {
+            const socket = createSocket();
+            const stop = service.watchRevocation(socket, jest.fn());
+
+            stop();
+
+            expect(socket.unsubscribe).toHaveBeenCalledWith(SESSION_SOCKET_FEATURE);
+            expect(FakeBroadcastChannel.open).toHaveLength(0);
+        });
+    });
+});
@@ -0,0 +1,268 @@
+/**
+ * OpenID Connect Tests
+ *
+ * Runs discovery, JWKS caching and ID token validation against a fake
+ * issuer: RS256 and ES256 signatures, the claim checks that reject forged,
+ * misdirected, expired or replayed tokens, key rotation, and the OAuth
+ * provider's authorization code flow for an OIDC provider.
+ */
+
+import { webcrypto } from 'node:crypto';
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+
+import { FakeOIDCIssuer } from '../../__mocks__/FakeOIDCIssuer';
+import { OAuthAuthProvider } from '../../providers/OAuthProvider';
+import { AuthErrorType } from '../../types/auth.domain.types';
+import {
+    discoverOIDCConfiguration,
+    IDTokenValidationError,
+    JWKSCache,
+    mapIDTokenClaimsToUser,
+    validateIDToken
+} from '../../utils/oidc';
+
+import type { IDTokenClaims, IDTokenErrorCode } from '../../utils/oidc';
+
+// The shared jest setup mocks crypto.subtle; these tests need real signatures.
+// Buffers are copied into Node's realm, which does not accept jsdom's ArrayBuffer.
+const mockedCrypto = globalThis.crypto as { subtle: SubtleCrypto };
+let mockedSubtle: SubtleCrypto;
+
+const toNodeArgument = (value: unknown) => {
+    if (ArrayBuffer.isView(value)) {
+        return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    }
+    if (Object.prototype.toString.call(value) === '[object ArrayBuffer]') {
+        return Buffer.from(value as ArrayBuffer);
+    }
+    return value;
+};
+
+beforeAll(() => {
+    mockedSubtle = mockedCrypto.subtle;
+    mockedCrypto.subtle = new Proxy(webcrypto.subtle, {
+        get: (target, name: keyof SubtleCrypto) => (...args: unknown[]) =>
+            (target[name] as (...params: unknown[]) => unknown).apply(target, args.map(toNodeArgument))
+    }) as unknown as SubtleCrypto;
+});
+
+afterAll(() => {
+    mockedCrypto.subtle = mockedSubtle;
+});
+
+const CLIENT_ID = 'test-client';
+
+const expectValidationError = async (promise: Promise<unknown>, code: IDTokenErrorCode) => {
+    const error = await promise.then(() => null, (reason: unknown) => reason);
+    expect(error).toBeInstanceOf(IDTokenValidationError);
+    expect((error as IDTokenValidationError).code).toBe(code);
+};
+
+describe('OIDC discovery', () => {
+    it('reads the endpoints from the issuer', async () => {
+        const issuer = await FakeOIDCIssuer.create();
+
+        const metadata = await discoverOIDCConfiguration(`${issuer.issuer}/`, issuer.fetch);
+
+        expect(metadata.jwks_uri).toBe(`${issuer.issuer}/jwks`);
+        expect(metadata.token_endpoint).toBe(`${issuer.issuer}/token`);
+    });
+
+    it('rejects a document naming another issuer', async () => {
+        const issuer = await FakeOIDCIssuer.create({ issuer: 'https://evil.test' });
+        const redirected = (input: string) => issuer.fetch(input.replace('https://issuer.test', issuer.issuer));
+
+        await expect(discoverOIDCConfiguration('https://issuer.test', redirected)).rejects.toThrow('returned issuer https://evil.test');
+    });
+});
+
+describe.each(['RS256', 'ES256'] as const)('ID token validation with %s', alg => {
+    let issuer: FakeOIDCIssuer;
+    let jwks: JWKSCache;
+    const options = () => ({ issuer: issuer.issuer, clientId: CLIENT_ID, nonce: 'nonce-1' });
+
+    beforeAll(async () => {
+        issuer = await FakeOIDCIssuer.create({ alg });
+    });
+
+    beforeEach(() => {
+        jwks = new JWKSCache(issuer.metadata.jwks_uri, { fetch: issuer.fetch });
+    });
+
+    it('accepts a valid token and returns its claims', async () => {
+        const token = await issuer.signIDToken({ sub: 'alice', nonce: 'nonce-1', email: 'alice@example.com', email_verified: true });
+
+        const claims = await validateIDToken(token, jwks, options());
+
+        expect(claims).toMatchObject({ sub: 'alice', email: 'alice@example.com' });
+    });
+
+    it.each<[string, Partial<IDTokenClaims>, IDTokenErrorCode]>([
+        ['another issuer', { iss: 'https://evil.test' }, 'invalid_issuer'],
+        ['another audience', { aud: 'other-client' }, 'invalid_audience'],
+        ['several audiences without azp', { aud: [CLIENT_ID, 'other-client'] }, 'invalid_audience'],
+        ['an expired token', { exp: Math.floor(Date.now() / 1000) - 120 }, 'expired'],
+        ['a token issued in the future', { iat: Math.floor(Date.now() / 1000) + 600 }, 'not_yet_valid'],
+        ['a replayed nonce', { nonce: 'nonce-0' }, 'invalid_nonce']
+    ])('rejects %s', async (_case, claims, code) => {
+        const token = await issuer.signIDToken({ nonce: 'nonce-1', ...claims });
+
+        await expectValidationError(validateIDToken(token, jwks, options()), code);
+    });
+
+    it('rejects a tampered payload', async () => {
+        const [header, , signature] = (await issuer.signIDToken({ sub: 'alice', nonce: 'nonce-1' })).split('.');
+        const [, forgedPayload] = (await issuer.signIDToken({ sub: 'admin', nonce: 'nonce-1' })).split('.');
+
+        await expectValidationError(validateIDToken(`${header}.${forgedPayload}.${signature}`, jwks, options()), 'invalid_signature');
+    });
+
+    it.each(['none', 'HS256'])('rejects the %s algorithm', async algorithm => {
+        const token = await issuer.signIDToken({ nonce: 'nonce-1' }, { alg: algorithm });
+
+        await expectValidationError(validateIDToken(token, jwks, options()), 'unsupported_alg');
+    });
+});
+
+describe('JWKS cache', () => {
+    let issuer: FakeOIDCIssuer;
+
+    beforeEach(async () => {
+        issuer = await FakeOIDCIssuer.create({ alg: 'ES256' });
+    });
+
+    it('fetches the keys once for several tokens', async () => {
+        const jwks = new JWKSCache(issuer.metadata.jwks_uri, { fetch: issuer.fetch });
+        const tokens = await Promise.all([issuer.signIDToken(), issuer.signIDToken()]);
+
+        await Promise.all(tokens.map(token => validateIDToken(token, jwks, { issuer: issuer.issuer, clientId: CLIENT_ID })));
+
+        expect(issuer.jwksRequests).toBe(1);
+    });
+
+    it('picks up a rotated key without waiting for the cache to expire', async () => {
+        const jwks = new JWKSCache(issuer.metadata.jwks_uri, { fetch: issuer.fetch, refreshCooldown: 0 });
+        await validateIDToken(await issuer.signIDToken(), jwks, { issuer: issuer.issuer, clientId: CLIENT_ID });
+
+        await issuer.rotateKeys(true);
+        const claims = await validateIDToken(await issuer.signIDToken({ sub: 'rotated' }), jwks, { issuer: issuer.issuer, clientId: CLIENT_ID });
+
+        expect(claims.sub).toBe('rotated');
+        expect(issuer.jwksRequests).toBe(2);
+    });
+
+    it('does not refetch for unknown key ids within the cooldown', async () => {
+        const jwks = new JWKSCache(issuer.metadata.jwks_uri, { fetch: issuer.fetch, refreshCooldown: 60000 });
+        await jwks.getKey(issuer.currentKid, 'ES256');
+
+        await expectValidationError(jwks.getKey('forged-kid', 'ES256'), 'unknown_key');
+        await expectValidationError(jwks.getKey('forged-kid', 'ES256'), 'unknown_key');
+
+        expect(issuer.jwksRequests).toBe(1);
+    });
+
+    it('honours the max-age of the JWKS response', async () => {
+        const cachedIssuer = await FakeOIDCIssuer.create({ alg: 'ES256', jwksMaxAge: 0 });
+        const jwks = new JWKSCache(cachedIssuer.metadata.jwks_uri, { fetch: cachedIssuer.fetch });
+
+        await jwks.getKey(cachedIssuer.currentKid, 'ES256');
+        await jwks.getKey(cachedIssuer.currentKid, 'ES256');
+
+        expect(cachedIssuer.jwksRequests).toBe(2);
+    });
+});
+
+describe('Multi-tenant issuers', () => {
+    it('checks the issuer against the tenant in the token', async () => {
+        const issuer = await FakeOIDCIssuer.create({ issuer: 'https://login.test/tenant-1/v2.0', alg: 'ES256' });
+        const jwks = new JWKSCache(issuer.metadata.jwks_uri, { fetch: issuer.fetch });
+        const options = { issuer: 'https://login.test/{tenantid}/v2.0', clientId: CLIENT_ID };
+
+        await expect(validateIDToken(await issuer.signIDToken({ tid: 'tenant-1' }), jwks, options)).resolves.toBeDefined();
+        await expectValidationError(validateIDToken(await issuer.signIDToken({ tid: 'tenant-2' }), jwks, options), 'invalid_issuer');
+    });
+});
+
+describe('mapIDTokenClaimsToUser', () => {
+    const claims: IDTokenClaims = {
+        iss: 'https://issuer.test',
+        sub: 'alice',
+        aud: CLIENT_ID,
+        iat: 0,
+        exp: 0,
+        email: 'alice@example.com',
+        email_verified: true,
+        given_name: 'Alice',
+        family_name: 'Liddell',
+        picture: 'https://example.com/alice.png',
+        roles: ['user']
+    };
+
+    it('maps the standard claims onto the user', () => {
+        expect(mapIDTokenClaimsToUser(claims)).toEqual({
+            id: 'alice',
+            email: 'alice@example.com',
+            username: 'alice@example.com',
+            roles: ['user'],
+            permissions: [],
+            profile: { firstName: 'Alice', lastName: 'Liddell', avatar: 'https://example.com/alice.png' }
+        });
+    });
+
+    it('leaves out an unverified email', () => {
+        expect(mapIDTokenClaimsToUser({ ...claims, email_verified: false })).toMatchObject({ email: '', username: 'alice' });
+    });
+});
+
+describe('OAuthAuthProvider with an OIDC provider', () => {
+    const redirectUri = 'https://app.test/auth/fake/callback';
+    let issuer: FakeOIDCIssuer;
+    let provider: OAuthAuthProvider;
+    let restoreFetch: () => void;
+
+    beforeEach(async () => {
+        issuer = await FakeOIDCIssuer.create();
+        restoreFetch = issuer.install();
+        provider = new OAuthAuthProvider();
+        provider.configure({
+            providers: { fake: { issuer: issuer.issuer, clientId: CLIENT_ID, redirectUri } }
+        });
+    });
+
+    afterEach(() => {
+        restoreFetch();
+    });
+
+    it('signs the user in from the validated ID token', async () => {
+        const code = issuer.authorize({
+            clientId: CLIENT_ID,
+            redirectUri,
+            nonce: 'nonce-1',
+            claims: { sub: 'alice', email: 'alice@example.com', email_verified: true }
+        });
+
+        const result = await provider.authenticate({ provider: 'fake', authorizationCode: code, nonce: 'nonce-1' });
+
+        expect(result.success).toBe(true);
+        expect(result.data?.user).toMatchObject({ id: 'alice', email: 'alice@example.com' });
+        expect(issuer.discoveryRequests).toBe(1);
+    });
+
+    it('refuses an ID token bound to another request', async () => {
+        const code = issuer.authorize({ clientId: CLIENT_ID, redirectUri, nonce: 'nonce-of-another-tab' });
+
+        const result = await provider.authenticate({ provider: 'fake', authorizationCode: code, nonce: 'nonce-1' });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toMatchObject({ type: AuthErrorType.TOKEN_INVALID, code: 'OIDC_ID_TOKEN_INVALID', details: { reason: 'invalid_nonce' } });
+    });
+
+    it('refuses to finish a sign-in it has no nonce for', async () => {
+        const code = issuer.authorize({ clientId: CLIENT_ID, redirectUri, nonce: 'nonce-1' });
+
+        const result = await provider.authenticate({ provider: 'fake', authorizationCode: code });
+
+        expect(result.error?.code).toBe('OIDC_NONCE_MISSING');
+    });
+});
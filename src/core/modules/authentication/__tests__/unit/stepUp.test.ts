@@ -0,0 +1,131 @@
+/**
+ * Step-Up Authentication Tests
+ *
+ * Checks that guarded actions run straight away on a recent proof, wait for
+ * the prompt otherwise and resume once the user verifies, and that disabling
+ * an MFA method is guarded.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+
+import { MFAService } from '../../services/MFAService';
+import { StepUpAuthService, StepUpRequiredError } from '../../services/StepUpAuthService';
+
+import type { IApiClient } from '../../../network/interfaces';
+import type { StepUpRequest } from '../../services/StepUpAuthService';
+
+const FIVE_MINUTES = 5 * 60 * 1000;
+
+describe('StepUpAuthService', () => {
+    let service: StepUpAuthService;
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: new Date('2026-01-01T12:00:00.000Z') });
+        service = new StepUpAuthService();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('treats a proof as recent until it is older than the window', () => {
+        expect(service.isRecent(FIVE_MINUTES)).toBe(false);
+
+        service.recordProof('password');
+        jest.advanceTimersByTime(FIVE_MINUTES);
+        expect(service.isRecent(FIVE_MINUTES)).toBe(true);
+
+        jest.advanceTimersByTime(1);
+        expect(service.isRecent(FIVE_MINUTES)).toBe(false);
+    });
+
+    it('runs the action without prompting when the proof is recent', async () => {
+        const prompt = jest.fn(async () => true);
+        service.setPrompt(prompt);
+        service.recordProof('mfa');
+
+        await expect(service.withRecentAuth(() => 'done', FIVE_MINUTES)).resolves.toBe('done');
+        expect(prompt).not.toHaveBeenCalled();
+    });
+
+    it('prompts and resumes the action once the user verifies', async () => {
+        const requests: StepUpRequest[] = [];
+        service.setPrompt(async request => {
+            requests.push(request);
+            service.recordProof('password');
+            return true;
+        });
+        const action = jest.fn(() => 'deleted');
+
+        await expect(service.withRecentAuth(action, FIVE_MINUTES, 'Delete your account')).resolves.toBe('deleted');
+        expect(requests).toEqual([{ maxAge: FIVE_MINUTES, reason: 'Delete your account' }]);
+        expect(action).toHaveBeenCalledTimes(1);
+    });
+
+    it('shares one prompt between actions blocked at the same time', async () => {
+        let verify: (verified: boolean) => void = () => undefined;
+        const prompt = jest.fn(() => new Promise<boolean>(resolve => {
+            verify = resolve;
+        }));
+        service.setPrompt(prompt);
+
+        const first = service.withRecentAuth(() => 1, FIVE_MINUTES);
+        const second = service.withRecentAuth(() => 2, FIVE_MINUTES);
+        service.recordProof('mfa');
+        verify(true);
+
+        await expect(Promise.all([first, second])).resolves.toEqual([1, 2]);
+        expect(prompt).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects without running the action when the user cancels', async () => {
+        service.setPrompt(async () => false);
+        const action = jest.fn();
+
+        await expect(service.withRecentAuth(action, FIVE_MINUTES)).rejects.toBeInstanceOf(StepUpRequiredError);
+        expect(action).not.toHaveBeenCalled();
+    });
+
+    it('rejects when no prompt is registered', async () => {
+        const unregister = service.setPrompt(async () => true);
+        unregister();
+
+        await expect(service.ensureRecentAuth(FIVE_MINUTES)).rejects.toMatchObject({ maxAge: FIVE_MINUTES });
+    });
+
+    it('records a password proof once the backend accepts the password', async () => {
+        const post = jest.fn(async (_url: string, _body: unknown) => ({ data: { verifiedAt: new Date().toISOString() } }));
+
+        await service.verifyPassword({ post } as unknown as IApiClient, 'hunter2');
+
+        expect(post).toHaveBeenCalledWith(expect.stringMatching(/\/auth\/reauthenticate$/), { password: 'hunter2' });
+        expect(service.getLastProof()).toEqual({ method: 'password', verifiedAt: Date.now() });
+    });
+
+    it('records nothing when the password is rejected', async () => {
+        const post = jest.fn(async (_url: string, _body: unknown) => {
+            throw new Error('Incorrect password');
+        });
+
+        await expect(service.verifyPassword({ post } as unknown as IApiClient, 'wrong')).rejects.toThrow('Incorrect password');
+        expect(service.isRecent()).toBe(false);
+    });
+
+    describe('MFAService.disableMFA', () => {
+        it('asks for a recent proof before disabling a method', async () => {
+            const mfa = new MFAService({}, service);
+            await mfa.enrollTOTP('user-1');
+            const enrollmentId = mfa.getUserEnrollments('user-1')[0]!.id;
+            const prompt = jest.fn(async (_request: StepUpRequest) => false);
+            service.setPrompt(prompt);
+
+            await expect(mfa.disableMFA('user-1', enrollmentId)).rejects.toBeInstanceOf(StepUpRequiredError);
+            expect(prompt).toHaveBeenCalledWith(expect.objectContaining({ reason: expect.stringContaining('Disable') }));
+            expect(mfa.getUserEnrollments('user-1')[0]!.status).not.toBe('disabled');
+
+            service.recordProof('password');
+            await expect(mfa.disableMFA('user-1', enrollmentId)).resolves.toBe(true);
+            expect(mfa.getUserEnrollments('user-1')[0]!.status).toBe('disabled');
+        });
+    });
+});
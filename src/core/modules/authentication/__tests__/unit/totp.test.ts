@@ -0,0 +1,218 @@
+/**
+ * TOTP Tests
+ *
+ * Checks code generation against the RFC 6238 test vectors, the drift window
+ * and replay protection, and that enrollment secrets and key URIs are in the
+ * format authenticator apps read. Also covers the emailed code that stands in
+ * for an authenticator the user cannot reach.
+ */
+
+import { createHmac, webcrypto } from 'node:crypto';
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+
+import { TOTPService } from '../../mfa/services/TOTPService';
+import { MFAService } from '../../services/MFAService';
+import {
+    base32Decode,
+    base32Encode,
+    buildOtpauthURI,
+    generateTOTP,
+    verifyTOTP
+} from '../../utils/totp';
+
+import type { TOTPAlgorithm } from '../../utils/totp';
+
+// RFC 6238 Appendix B: ASCII seeds sized to each hash, 8 digits, 30 second steps
+const RFC_SEEDS: Record<TOTPAlgorithm, string> = {
+    SHA1: '12345678901234567890',
+    SHA256: '12345678901234567890123456789012',
+    SHA512: '1234567890123456789012345678901234567890123456789012345678901234'
+};
+
+const RFC_VECTORS: [number, TOTPAlgorithm, string][] = [
+    [59, 'SHA1', '94287082'],
+    [59, 'SHA256', '46119246'],
+    [59, 'SHA512', '90693936'],
+    [1111111109, 'SHA1', '07081804'],
+    [1111111109, 'SHA256', '68084774'],
+    [1111111109, 'SHA512', '25091201'],
+    [1111111111, 'SHA1', '14050471'],
+    [1111111111, 'SHA256', '67062674'],
+    [1111111111, 'SHA512', '99943326'],
+    [1234567890, 'SHA1', '89005924'],
+    [1234567890, 'SHA256', '91819424'],
+    [1234567890, 'SHA512', '93441116'],
+    [2000000000, 'SHA1', '69279037'],
+    [2000000000, 'SHA256', '90698825'],
+    [2000000000, 'SHA512', '38618901'],
+    [20000000000, 'SHA1', '65353130'],
+    [20000000000, 'SHA256', '77737706'],
+    [20000000000, 'SHA512', '47863826']
+];
+
+const toBase32 = (ascii: string) => base32Encode(new TextEncoder().encode(ascii));
+
+/**
+ * Independent HOTP using Node's crypto, standing in for an authenticator app
+ */
+const referenceCode = (key: Uint8Array, timestamp: number, digits = 6) => {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(Math.floor(timestamp / 1000 / 30)));
+    const hmac = createHmac('sha1', key).update(counter).digest();
+    const offset = hmac[hmac.length - 1]! & 0x0f;
+    return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits).padStart(digits, '0');
+};
+
+// The shared jest setup mocks crypto.subtle; these tests need real HMACs.
+// Buffers are copied into Node's realm, which does not accept jsdom's ArrayBuffer.
+const mockedCrypto = globalThis.crypto as { subtle: SubtleCrypto };
+let mockedSubtle: SubtleCrypto;
+
+const toNodeBuffer = (data: BufferSource) => (ArrayBuffer.isView(data)
+    ? Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+    : Buffer.from(data));
+
+beforeAll(() => {
+    mockedSubtle = mockedCrypto.subtle;
+    mockedCrypto.subtle = {
+        importKey: (format: 'raw', keyData: BufferSource, algorithm: HmacImportParams, extractable: boolean, usages: KeyUsage[]) =>
+            webcrypto.subtle.importKey(format, toNodeBuffer(keyData), algorithm, extractable, usages),
+        sign: (algorithm: string, key: CryptoKey, data: BufferSource) =>
+            webcrypto.subtle.sign(algorithm, key as webcrypto.CryptoKey, toNodeBuffer(data))
+    } as unknown as SubtleCrypto;
+});
+
+afterAll(() => {
+    mockedCrypto.subtle = mockedSubtle;
+});
+
+describe('TOTP generation', () => {
+    it.each(RFC_VECTORS)('matches the RFC 6238 vector at %is with %s', async (seconds, algorithm, expected) => {
+        const code = await generateTOTP(
+            toBase32(RFC_SEEDS[algorithm]),
+            { period: 30, digits: 8, algorithm },
+            seconds * 1000
+        );
+
+        expect(code).toBe(expected);
+    });
+
+    it('round-trips base32 as specified in RFC 4648', () => {
+        expect(base32Encode(new TextEncoder().encode('foobar'))).toBe('MZXW6YTBOI');
+        expect(new TextDecoder().decode(base32Decode('mzxw 6ytb oi======'))).toBe('foobar');
+        expect(() => base32Decode('MZXW1')).toThrow('Invalid base32 character');
+    });
+});
+
+describe('TOTP verification', () => {
+    const secret = toBase32(RFC_SEEDS.SHA1);
+    const options = { period: 30, digits: 8, algorithm: 'SHA1' as const, window: 1 };
+    const now = 1111111111 * 1000;
+
+    it('accepts codes within the drift window and rejects older ones', async () => {
+        const previous = await generateTOTP(secret, options, now - 30000);
+        const tooOld = await generateTOTP(secret, options, now - 60000);
+
+        await expect(verifyTOTP(secret, previous, options, now)).resolves.toMatchObject({ valid: true });
+        await expect(verifyTOTP(secret, tooOld, options, now)).resolves.toMatchObject({ valid: false });
+        await expect(verifyTOTP(secret, tooOld, { ...options, window: 2 }, now)).resolves.toMatchObject({ valid: true });
+    });
+
+    it('rejects a code from a step at or before the last accepted one', async () => {
+        const code = await generateTOTP(secret, options, now);
+        const first = await verifyTOTP(secret, code, options, now);
+
+        const replay = await verifyTOTP(secret, code, { ...options, lastUsedTimeStep: first.timeStep }, now);
+
+        expect(first.valid).toBe(true);
+        expect(replay).toEqual({ valid: false, timeStep: first.timeStep, replayed: true });
+    });
+
+    it('accepts each code once per enrollment in MFAService', async () => {
+        const service = new MFAService();
+        const enrollment = await service.enrollTOTP('alice');
+        const [record] = service.getUserEnrollments('alice');
+        const code = await generateTOTP(enrollment.secret);
+
+        await expect(service.verifyTOTPEnrollment('alice', record!.id, '123456')).resolves.toBe(false);
+        await expect(service.verifyTOTPEnrollment('alice', record!.id, code)).resolves.toBe(true);
+
+        const challenge = await service.createChallenge('alice', ['totp']);
+        await expect(service.verifyChallenge(challenge.id, 'totp', code)).resolves.toBe(false);
+    });
+});
+
+describe('TOTP enrollment', () => {
+    it('issues 160-bit secrets and otpauth URIs that authenticator apps can use', async () => {
+        const service = new TOTPService({ issuer: 'Quiet Space' });
+        const enrollment = await service.generateTOTPSecret('user-1', 'alice@example.com');
+        const uri = new URL(enrollment.qrCode);
+
+        expect(uri.protocol).toBe('otpauth:');
+        expect(uri.host).toBe('totp');
+        expect(decodeURIComponent(uri.pathname)).toBe('/Quiet Space:alice@example.com');
+        expect(Object.fromEntries(uri.searchParams)).toEqual({
+            secret: enrollment.secret,
+            issuer: 'Quiet Space',
+            algorithm: 'SHA1',
+            digits: '6',
+            period: '30'
+        });
+        expect(enrollment.secret).toMatch(/^[A-Z2-7]{32}$/);
+        expect(service.validateSecret(enrollment.secret)).toBe(true);
+
+        const key = base32Decode(enrollment.secret);
+        const now = Date.now();
+        expect(key).toHaveLength(20);
+        expect(await generateTOTP(enrollment.secret, undefined, now)).toBe(referenceCode(key, now));
+    });
+
+    it('verifies the code an authenticator app shows, once', async () => {
+        const service = new TOTPService();
+        const { secret } = await service.generateTOTPSecret('user-1', 'alice@example.com');
+        const code = referenceCode(base32Decode(secret), Date.now());
+
+        await expect(service.verifyTOTPCode(secret, code)).resolves.toMatchObject({ valid: true });
+        await expect(service.verifyTOTPCode(secret, code)).resolves.toMatchObject({ valid: false });
+    });
+
+    it('encodes spaces in the label and issuer as %20', () => {
+        const uri = buildOtpauthURI({
+            issuer: 'Quiet Space',
+            accountName: 'alice',
+            secret: 'jbsw y3dp',
+            period: 30,
+            digits: 6,
+            algorithm: 'SHA1'
+        });
+
+        expect(uri).toBe('otpauth://totp/Quiet%20Space:alice?secret=JBSWY3DP&issuer=Quiet%20Space&algorithm=SHA1&digits=6&period=30');
+    });
+});
+
+describe('Email fallback', () => {
+    const sendCode = async (service: MFAService): Promise<string> => {
+        const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        try {
+            await service.sendEmailVerificationCode('alice', 'alice@example.com');
+            return String(log.mock.calls[0]?.[0]).match(/(\d{6})$/)?.[1] ?? '';
+        } finally {
+            log.mockRestore();
+        }
+    };
+
+    it('completes a TOTP challenge with an emailed code', async () => {
+        const service = new MFAService();
+        const enrollment = await service.enrollTOTP('alice');
+        const [record] = service.getUserEnrollments('alice');
+        await service.verifyTOTPEnrollment('alice', record!.id, await generateTOTP(enrollment.secret));
+
+        const challenge = await service.createChallenge('alice', ['totp']);
+        const code = await sendCode(service);
+
+        await expect(service.verifyChallenge(challenge.id, 'email', '000000')).resolves.toBe(false);
+        await expect(service.verifyChallenge(challenge.id, 'email', code)).resolves.toBe(true);
+        await expect(service.verifyChallenge(challenge.id, 'email', code)).rejects.toThrow('Challenge is not pending');
+    });
+});
@@ -0,0 +1,218 @@
+/**
+ * WebAuthn Tests
+ *
+ * Runs registration and assertion ceremonies against a software
+ * authenticator: CBOR and authenticator data parsing, passkeys as a second
+ * factor and for passwordless sign-in, and the checks that reject replayed,
+ * tampered or cloned-authenticator assertions.
+ */
+
+import { webcrypto } from 'node:crypto';
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+
+import { SoftwareAuthenticator } from '../../__mocks__/SoftwareAuthenticator';
+import { MFAService } from '../../services/MFAService';
+import { decodeCBOR, encodeCBOR } from '../../utils/cbor';
+import {
+    base64URLDecode,
+    base64URLEncode,
+    createRegistrationOptions,
+    derToRawSignature,
+    generateWebAuthnChallenge,
+    parseAttestationObject,
+    parseCOSEKey
+} from '../../utils/webauthn';
+
+import type { AuthenticationResponseJSON } from '../../utils/webauthn';
+
+// The shared jest setup mocks crypto.subtle; these tests need real signatures.
+// Buffers are copied into Node's realm, which does not accept jsdom's ArrayBuffer.
+const mockedCrypto = globalThis.crypto as { subtle: SubtleCrypto };
+let mockedSubtle: SubtleCrypto;
+
+const toNodeArgument = (value: unknown) => {
+    if (ArrayBuffer.isView(value)) {
+        return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    }
+    if (Object.prototype.toString.call(value) === '[object ArrayBuffer]') {
+        return Buffer.from(value as ArrayBuffer);
+    }
+    return value;
+};
+
+beforeAll(() => {
+    mockedSubtle = mockedCrypto.subtle;
+    mockedCrypto.subtle = new Proxy(webcrypto.subtle, {
+        get: (target, name: keyof SubtleCrypto) => (...args: unknown[]) =>
+            (target[name] as (...params: unknown[]) => unknown).apply(target, args.map(toNodeArgument))
+    }) as unknown as SubtleCrypto;
+});
+
+afterAll(() => {
+    mockedCrypto.subtle = mockedSubtle;
+});
+
+const hex = (value: string) => Uint8Array.from(value.match(/../g)!, byte => parseInt(byte, 16));
+
+describe('CBOR', () => {
+    it.each([
+        ['00', 0],
+        ['1903e8', 1000],
+        ['3903e7', -1000],
+        ['f93e00', 1.5],
+        ['6449455446', 'IETF'],
+        ['83010203', [1, 2, 3]],
+        ['f6', null]
+    ])('decodes the RFC 8949 example %s', (encoded, expected) => {
+        expect(decodeCBOR(hex(encoded))).toEqual(expected);
+    });
+
+    it('round-trips maps with integer keys and byte strings', () => {
+        const value = new Map<number | string, unknown>([[1, 2], [-2, new Uint8Array([1, 2, 3])], ['fmt', 'none']]);
+
+        expect(decodeCBOR(encodeCBOR(value as Map<number, number>))).toEqual(value);
+    });
+
+    it('rejects truncated input, trailing bytes and indefinite lengths', () => {
+        expect(() => decodeCBOR(hex('6449'))).toThrow('unexpected end of input');
+        expect(() => decodeCBOR(hex('0000'))).toThrow('trailing bytes');
+        expect(() => decodeCBOR(hex('9f01ff'))).toThrow('indefinite lengths');
+    });
+});
+
+describe('WebAuthn parsing', () => {
+    let restore: () => void;
+
+    afterEach(() => {
+        restore?.();
+    });
+
+    it('parses the attestation object, authenticator data flags and COSE key', async () => {
+        const authenticator = new SoftwareAuthenticator();
+        restore = authenticator.install();
+        const options = createRegistrationOptions({
+            rpId: 'localhost',
+            rpName: 'QuietSpace',
+            user: { id: new Uint8Array([1]), name: 'alice', displayName: 'Alice' },
+            challenge: generateWebAuthnChallenge(),
+            residentKey: 'required',
+            userVerification: 'required',
+            timeout: 60000
+        });
+
+        const credential = await navigator.credentials.create({ publicKey: options }) as PublicKeyCredential;
+        const response = credential.response as AuthenticatorAttestationResponse;
+        const { fmt, authData } = parseAttestationObject(new Uint8Array(response.attestationObject));
+
+        expect(fmt).toBe('none');
+        expect(authData.flags).toMatchObject({ userPresent: true, userVerified: true, attestedCredentialData: true });
+        expect(authData.signCount).toBe(0);
+        expect(base64URLEncode(authData.attestedCredentialData!.credentialId)).toBe(credential.id);
+        expect(parseCOSEKey(authData.attestedCredentialData!.credentialPublicKey)).toMatchObject({ kty: 2, alg: -7, crv: 1 });
+    });
+
+    it('converts DER ECDSA signatures to the fixed-size form and rejects malformed ones', () => {
+        const der = hex(`3045022100${'80'.padEnd(64, '0')}0220${'01'.padStart(64, '0')}`);
+        const raw = derToRawSignature(der, 32);
+
+        expect(raw).toHaveLength(64);
+        expect(raw[0]).toBe(0x80);
+        expect(raw[63]).toBe(0x01);
+        expect(() => derToRawSignature(hex('3003020101'), 32)).toThrow('Invalid DER signature');
+    });
+});
+
+describe('Passkeys in MFAService', () => {
+    let restore: () => void;
+
+    afterEach(() => {
+        restore?.();
+    });
+
+    const withAuthenticator = (options: ConstructorParameters<typeof SoftwareAuthenticator>[0] = {}) => {
+        const authenticator = new SoftwareAuthenticator(options);
+        restore = authenticator.install();
+        return authenticator;
+    };
+
+    it('enrolls a security key and accepts its assertion as a second factor', async () => {
+        withAuthenticator({ attachment: 'cross-platform', transports: ['usb', 'nfc'] });
+        const service = new MFAService();
+
+        const key = await service.enrollSecurityKey('alice', 'YubiKey');
+        const methods = await service.getAvailableMethods('alice');
+        const challenge = await service.createChallenge('alice', ['security-key']);
+        const assertion = await service.requestPasskeyAssertion('alice', 'security-key');
+
+        expect(key).toMatchObject({ keyName: 'YubiKey', signCount: 0, transports: ['usb', 'nfc'] });
+        expect(methods.find(m => m.type === 'security-key')?.enabled).toBe(true);
+        await expect(service.verifyChallenge(challenge.id, 'security-key', assertion)).resolves.toBe(true);
+        expect(key.signCount).toBe(1);
+    });
+
+    it('accepts each assertion once', async () => {
+        withAuthenticator({ attachment: 'cross-platform' });
+        const service = new MFAService();
+        await service.enrollSecurityKey('alice', 'YubiKey');
+        const assertion = await service.requestPasskeyAssertion('alice', 'security-key');
+
+        const first = await service.createChallenge('alice', ['security-key']);
+        await expect(service.verifyChallenge(first.id, 'security-key', assertion)).resolves.toBe(true);
+
+        const second = await service.createChallenge('alice', ['security-key']);
+        await expect(service.verifyChallenge(second.id, 'security-key', assertion)).resolves.toBe(false);
+    });
+
+    it('rejects assertions whose sign counter does not increase', async () => {
+        const authenticator = withAuthenticator({ attachment: 'cross-platform' });
+        const service = new MFAService();
+        const key = await service.enrollSecurityKey('alice', 'YubiKey');
+        const signIn = async () => {
+            const challenge = await service.createChallenge('alice', ['security-key']);
+            const assertion = await service.requestPasskeyAssertion('alice', 'security-key');
+            return service.verifyChallenge(challenge.id, 'security-key', assertion);
+        };
+
+        await expect(signIn()).resolves.toBe(true);
+
+        // A clone of the key still has the counter from before the last sign-in
+        authenticator.setSignCount(key.credentialId, 0);
+        await expect(signIn()).resolves.toBe(false);
+    });
+
+    it('rejects tampered signatures and assertions from another origin', async () => {
+        withAuthenticator({ attachment: 'cross-platform' });
+        const service = new MFAService();
+        await service.enrollSecurityKey('alice', 'YubiKey');
+        const challenge = await service.createChallenge('alice', ['security-key']);
+
+        const tampered = JSON.parse(await service.requestPasskeyAssertion('alice', 'security-key')) as AuthenticationResponseJSON;
+        const signature = base64URLDecode(tampered.response.signature);
+        signature[0] = signature[0]! ^ 0x01;
+        tampered.response.signature = base64URLEncode(signature);
+        await expect(service.verifyChallenge(challenge.id, 'security-key', JSON.stringify(tampered))).resolves.toBe(false);
+
+        withAuthenticator({ attachment: 'cross-platform', origin: 'https://evil.example' });
+        const phishing = new MFAService();
+        await expect(phishing.enrollSecurityKey('alice', 'YubiKey')).rejects.toThrow('Unexpected origin');
+        expect(phishing.getUserEnrollments('alice')).toHaveLength(0);
+    });
+
+    it('signs in without a password using a discoverable platform passkey', async () => {
+        withAuthenticator({ attachment: 'platform' });
+        const service = new MFAService();
+        await service.enrollBiometric('alice', 'face');
+
+        await expect(service.signInWithPasskey()).resolves.toBe('alice');
+        expect(service.getUserEnrollments('alice')[0]?.metadata.usageCount).toBe(1);
+    });
+
+    it('requires user verification for biometric enrollment', async () => {
+        withAuthenticator({ attachment: 'platform', userVerification: false });
+        const service = new MFAService();
+
+        await expect(service.enrollBiometric('alice')).rejects.toThrow('User verification is not available');
+        await expect(service.requestPasskeyAssertion('alice', 'biometric')).rejects.toThrow('No biometric is enrolled');
+    });
+});
@@ -181,6 +181,25 @@ export class AuthConfigBuilder {
         return this;
     }
 
+    /**
+     * Adds an OpenID Connect provider to the `oauth` section
+     *
+     * Only the issuer and client are needed; endpoints and signing keys are
+     * discovered from `${issuer}/.well-known/openid-configuration`.
+     */
+    withOIDCProvider(name: string, providerConfig: { issuer: string; clientId: string; redirectUri: string; scope?: string[]; clientSecret?: string }): this {
+        const currentOAuth = this.config.get('oauth') || {};
+        const providers = currentOAuth.providers || {};
+        this.config.set('oauth', {
+            ...currentOAuth,
+            providers: {
+                ...providers,
+                [name]: { scope: ['openid', 'email', 'profile'], pkce: true, ...providerConfig }
+            }
+        });
+        return this;
+    }
+
     /**
      * Adds custom configuration section
      */
@@ -158,6 +158,10 @@ function registerDefaultProviders(orchestrator: AuthOrchestrator, config: IAuthC
     // Register other providers when they become available
     if (allowedProviders.includes('oauth')) {
         const oauthProvider = new OAuthAuthProvider();
+        const oauthConfig = config.get<Record<string, unknown>>('oauth');
+        if (oauthConfig) {
+            oauthProvider.configure(oauthConfig);
+        }
         orchestrator.registerProvider(oauthProvider);
     }
 
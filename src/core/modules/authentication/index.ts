@@ -190,6 +190,34 @@ export type {
     TokenRefreshMetrics
 } from './services/TokenRefreshManager';
 
+// Device sessions
+export {
+    DeviceSessionService,
+    createDeviceSessionService,
+    SESSION_SYNC_CHANNEL,
+    SESSION_SOCKET_FEATURE
+} from './services/DeviceSessionService';
+
+export type {
+    DeviceSession,
+    SessionRevokedEvent
+} from './services/DeviceSessionService';
+
+export {
+    StepUpAuthService,
+    StepUpRequiredError,
+    createStepUpAuthService,
+    stepUpAuthService,
+    DEFAULT_STEP_UP_MAX_AGE
+} from './services/StepUpAuthService';
+
+export type {
+    StepUpMethod,
+    StepUpProof,
+    StepUpRequest,
+    StepUpPrompt
+} from './services/StepUpAuthService';
+
 // Permission System - Export from feature domain
 // Note: Permission system should be imported from the feature layer when needed
 // export {
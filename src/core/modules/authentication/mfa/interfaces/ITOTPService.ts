@@ -18,6 +18,8 @@ export interface TOTPConfig {
     digits: number;
     /** Algorithm used for TOTP */
     algorithm: 'SHA1' | 'SHA256' | 'SHA512';
+    /** Time steps accepted on either side of the current one (default: 1) */
+    window?: number;
 }
 
 /**
@@ -26,7 +28,7 @@ export interface TOTPConfig {
 export interface TOTPEnrollmentData {
     /** Secret key for TOTP */
     secret: string;
-    /** QR code data URI */
+    /** otpauth:// key URI to encode in the enrollment QR code */
     qrCode: string;
     /** Manual entry key */
     manualEntryKey: string;
@@ -63,11 +65,12 @@ export interface ITOTPService {
     generateTOTPSecret(userId: string, accountName: string): Promise<TOTPEnrollmentData>;
 
     /**
-     * Verifies TOTP code
+     * Verifies TOTP code. A code is accepted once; reusing it for the same
+     * secret fails.
      * 
      * @param secret - TOTP secret
      * @param code - TOTP code to verify
-     * @param window - Time window for verification (default: 1)
+     * @param window - Time steps accepted on either side of the current one (default: config window)
      * @returns Verification result with validity and timing info
      */
     verifyTOTPCode(secret: string, code: string, window?: number): Promise<TOTPVerificationResult>;
@@ -1,10 +1,18 @@
 /**
- * TOTP Service Implementation (Mock)
+ * TOTP Service Implementation
  *
- * Implements Time-based One-Time Password authentication with
- * mock functionality for demonstration purposes.
+ * Implements RFC 6238 Time-based One-Time Password authentication
+ * compatible with standard authenticator apps.
  */
 
+import {
+    buildOtpauthURI,
+    DEFAULT_TOTP_WINDOW,
+    generateTOTP,
+    generateTOTPSecret,
+    verifyTOTP
+} from '../../utils/totp';
+
 import type { ITOTPService, TOTPConfig, TOTPEnrollmentData, TOTPVerificationResult } from '../interfaces/ITOTPService';
 
 /**
@@ -22,6 +30,8 @@ export class TOTPService implements ITOTPService {
         failedVerifications: 0,
         totalVerificationTime: 0
     };
+    /** Last accepted time step per secret; each secret belongs to one enrollment */
+    private readonly lastUsedTimeSteps = new Map<string, number>();
 
     constructor(config: Partial<TOTPConfig> = {}) {
         this.config = {
@@ -29,6 +39,7 @@ export class TOTPService implements ITOTPService {
             period: 30,
             digits: 6,
             algorithm: 'SHA1',
+            window: DEFAULT_TOTP_WINDOW,
             ...config
         };
     }
@@ -40,11 +51,10 @@ export class TOTPService implements ITOTPService {
         const startTime = Date.now();
 
         try {
-            // Generate mock secret
-            const secret = this.generateMockSecret();
+            const secret = generateTOTPSecret();
 
-            // Generate mock QR code (data URI)
-            const qrCode = `data:image/png;base64,mock_qr_code_for_${secret}`;
+            // Key URI for the enrollment QR code
+            const qrCode = buildOtpauthURI({ ...this.config, accountName, secret });
 
             // Generate manual entry key
             const manualEntryKey = secret;
@@ -70,12 +80,18 @@ export class TOTPService implements ITOTPService {
     /**
      * Verifies TOTP code
      */
-    async verifyTOTPCode(secret: string, code: string, window: number = 1): Promise<TOTPVerificationResult> {
+    async verifyTOTPCode(secret: string, code: string, window: number = this.config.window ?? DEFAULT_TOTP_WINDOW): Promise<TOTPVerificationResult> {
         const startTime = Date.now();
 
         try {
-            // Mock verification - in real implementation, use otplib
-            const isValid = this.mockVerifyTOTP(code);
+            const { valid: isValid, timeStep } = await verifyTOTP(secret, code, {
+                ...this.config,
+                window,
+                lastUsedTimeStep: this.lastUsedTimeSteps.get(secret) ?? null
+            });
+            if (isValid && timeStep !== null) {
+                this.lastUsedTimeSteps.set(secret, timeStep);
+            }
             const remainingTime = this.getRemainingTime();
 
             if (isValid) {
@@ -91,7 +107,7 @@ export class TOTPService implements ITOTPService {
 
             // Only include currentCode in test environment
             if (process.env.NODE_ENV === 'test') {
-                result.currentCode = this.generateMockTOTP(secret);
+                result.currentCode = await generateTOTP(secret, this.config);
             }
 
             return result;
@@ -111,7 +127,7 @@ export class TOTPService implements ITOTPService {
             throw new Error('Current code generation is only available in test environment');
         }
 
-        return this.generateMockTOTP(secret);
+        return generateTOTP(secret, this.config);
     }
 
     /**
@@ -175,46 +191,4 @@ export class TOTPService implements ITOTPService {
         }
         return result;
     }
-
-    /**
-     * Generates mock TOTP secret
-     */
-    private generateMockSecret(): string {
-        const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
-        let result = '';
-        for (let i = 0; i < 32; i++) {
-            result += chars.charAt(Math.floor(Math.random() * chars.length));
-        }
-        return result;
-    }
-
-    /**
-     * Mock TOTP verification
-     */
-    private mockVerifyTOTP(code: string): boolean {
-        // Mock verification - accept 6-digit codes
-        return /^\d{6}$/.test(code) && code !== '000000';
-    }
-
-    /**
-     * Generates mock TOTP code
-     */
-    private generateMockTOTP(secret: string): string {
-        // Mock TOTP generation based on secret
-        const hash = this.simpleHash(secret + Math.floor(Date.now() / 30000)); // 30-second window
-        return (hash % 1000000).toString().padStart(6, '0');
-    }
-
-    /**
-     * Simple hash function for mock TOTP
-     */
-    private simpleHash(str: string): number {
-        let hash = 0;
-        for (let i = 0; i < str.length; i++) {
-            const char = str.charCodeAt(i);
-            hash = ((hash << 5) - hash) + char;
-            hash = hash & hash; // Convert to 32-bit integer
-        }
-        return Math.abs(hash);
-    }
 }
@@ -11,12 +11,21 @@
  * - Token management and refresh logic
  * - Multi-provider support
  * - State management for CSRF protection
+ * - OpenID Connect discovery and ID token validation for providers with an issuer
  */
 
 import { AuthErrorType, AuthProviderType } from '../types/auth.domain.types';
+import {
+    discoverOIDCConfiguration,
+    IDTokenValidationError,
+    JWKSCache,
+    mapIDTokenClaimsToUser,
+    validateIDToken
+} from '../utils/oidc';
 
 import type { IAuthenticator, HealthCheckResult, PerformanceMetrics } from '../interfaces/IAuthenticator';
-import type { AuthCredentials, AuthResult, AuthSession } from '../types/auth.domain.types';
+import type { AuthCredentials, AuthResult, AuthSession, AuthUser } from '../types/auth.domain.types';
+import type { OIDCProviderMetadata } from '../utils/oidc';
 
 /**
  * Supported OAuth providers
@@ -29,18 +38,35 @@ export const OAUTH_PROVIDERS = {
 
 export type OAuthProvider = typeof OAUTH_PROVIDERS[keyof typeof OAUTH_PROVIDERS];
 
+// sessionStorage key of the nonce sent with a pending authorization request
+const OIDC_NONCE_KEY_PREFIX = 'oidc-nonce:';
+
 /**
  * OAuth provider configuration
+ *
+ * OpenID Connect providers only need an `issuer`: endpoints left out are
+ * discovered from it, and the ID tokens it returns are validated.
  */
 export interface OAuthProviderConfig {
     clientId: string;
     clientSecret?: string;
     redirectUri: string;
     scope: string[];
+    issuer?: string;
+    authorizationEndpoint?: string;
+    tokenEndpoint?: string;
+    userInfoEndpoint?: string;
+    pkce: boolean;
+}
+
+/**
+ * Provider configuration with its endpoints filled in
+ */
+interface ResolvedOAuthProviderConfig extends OAuthProviderConfig {
     authorizationEndpoint: string;
     tokenEndpoint: string;
-    userInfoEndpoint: string;
-    pkce: boolean;
+    /** Discovery document, for OpenID Connect providers */
+    metadata?: OIDCProviderMetadata;
 }
 
 /**
@@ -52,6 +78,7 @@ export interface OAuthTokenResponse {
     tokenType: string;
     expiresIn: number;
     scope?: string;
+    idToken?: string;
 }
 
 /**
@@ -81,6 +108,8 @@ export class OAuthAuthProvider implements IAuthenticator {
     };
 
     private readonly providerConfigs: Map<string, OAuthProviderConfig> = new Map();
+    private readonly discoveryCache: Map<string, Promise<OIDCProviderMetadata>> = new Map();
+    private readonly jwksCaches: Map<string, JWKSCache> = new Map();
     private currentProvider?: string;
     private pkceVerifier?: string;
     private initialized = false;
@@ -137,10 +166,12 @@ export class OAuthAuthProvider implements IAuthenticator {
             if (credentials.authorizationCode) {
                 const codeVerifier = credentials.codeVerifier;
                 const authCode = credentials.authorizationCode;
+                const nonce = credentials.nonce;
                 return await this.handleAuthorizationCodeFlow(
                     provider,
                     typeof authCode === 'string' ? authCode : '',
-                    typeof codeVerifier === 'string' ? codeVerifier : undefined
+                    typeof codeVerifier === 'string' ? codeVerifier : undefined,
+                    typeof nonce === 'string' ? nonce : undefined
                 );
             }
 
@@ -286,14 +317,17 @@ export class OAuthAuthProvider implements IAuthenticator {
     configure(config: Record<string, unknown>): void {
         Object.assign(this.config, config);
 
-        // Update provider configurations if provided
+        // Update provider configurations if provided; any provider with an issuer is an OIDC provider
         if (config.providers) {
             Object.entries(config.providers).forEach(([provider, providerConfig]) => {
-                if (Object.values(OAUTH_PROVIDERS).includes(provider as OAuthProvider)) {
-                    this.providerConfigs.set(
-                        provider,
-                        providerConfig as OAuthProviderConfig
-                    );
+                const overrides = providerConfig as Partial<OAuthProviderConfig>;
+                if (Object.values(OAUTH_PROVIDERS).includes(provider as OAuthProvider) || overrides.issuer) {
+                    this.providerConfigs.set(provider, {
+                        pkce: true,
+                        scope: ['openid', 'email', 'profile'],
+                        ...this.providerConfigs.get(provider),
+                        ...overrides
+                    } as OAuthProviderConfig);
                 }
             });
         }
@@ -311,7 +345,9 @@ export class OAuthAuthProvider implements IAuthenticator {
             'pkce_support',
             'token_management',
             'csrf_protection',
-            'multi_provider'
+            'multi_provider',
+            'openid_connect',
+            'id_token_validation'
         ];
     }
 
@@ -320,8 +356,7 @@ export class OAuthAuthProvider implements IAuthenticator {
      */
     private async initiateOAuthFlowInternal(provider: string): Promise<AuthResult<AuthSession>> {
         try {
-            const providerConfig = this.providerConfigs.get(provider);
-            if (!providerConfig) {
+            if (!this.providerConfigs.has(provider)) {
                 return {
                     success: false,
                     error: {
@@ -331,6 +366,7 @@ export class OAuthAuthProvider implements IAuthenticator {
                     }
                 };
             }
+            const providerConfig = await this.resolveProviderConfig(provider);
 
             // Generate PKCE verifier and challenge if enabled
             let codeVerifier: string | undefined;
@@ -359,6 +395,13 @@ export class OAuthAuthProvider implements IAuthenticator {
                 authParams.append('code_challenge_method', 'S256');
             }
 
+            // Bind the ID token to this request; kept across the redirect to check it on return
+            if (providerConfig.metadata) {
+                const nonce = this.generateState();
+                this.storeNonce(provider, nonce);
+                authParams.append('nonce', nonce);
+            }
+
             const authUrl = `${providerConfig.authorizationEndpoint}?${authParams.toString()}`;
 
             // Redirect to OAuth provider
@@ -488,8 +531,10 @@ export class OAuthAuthProvider implements IAuthenticator {
             delete this.pkceVerifier;
             this.initialized = false;
 
-            // Clear provider configs
+            // Clear provider configs and OIDC caches
             this.providerConfigs.clear();
+            this.discoveryCache.clear();
+            this.jwksCaches.clear();
 
             console.log('OAuth provider shutdown successfully');
         } catch (error) {
@@ -502,14 +547,12 @@ export class OAuthAuthProvider implements IAuthenticator {
      * Initializes OAuth provider configurations
      */
     private initializeProviderConfigs(): void {
-        // Google OAuth configuration
+        // Google OpenID Connect configuration
         this.providerConfigs.set(OAUTH_PROVIDERS.GOOGLE, {
             clientId: process.env.VITE_GOOGLE_CLIENT_ID || 'test-google-client-id',
             redirectUri: process.env.VITE_GOOGLE_REDIRECT_URI || `${window.location.origin}/auth/google/callback`,
             scope: ['openid', 'email', 'profile'],
-            authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
-            tokenEndpoint: 'https://oauth2.googleapis.com/token',
-            userInfoEndpoint: 'https://www.googleapis.com/oauth2/v2/userinfo',
+            issuer: 'https://accounts.google.com',
             pkce: true
         });
 
@@ -524,14 +567,12 @@ export class OAuthAuthProvider implements IAuthenticator {
             pkce: true
         });
 
-        // Microsoft OAuth configuration
+        // Microsoft OpenID Connect configuration; `common` issues tokens for any tenant
         this.providerConfigs.set(OAUTH_PROVIDERS.MICROSOFT, {
             clientId: process.env.VITE_MICROSOFT_CLIENT_ID || 'test-microsoft-client-id',
             redirectUri: process.env.VITE_MICROSOFT_REDIRECT_URI || `${window.location.origin}/auth/microsoft/callback`,
             scope: ['openid', 'email', 'profile'],
-            authorizationEndpoint: 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize',
-            tokenEndpoint: 'https://login.microsoftonline.com/common/oauth2/v2.0/token',
-            userInfoEndpoint: 'https://graph.microsoft.com/v1.0/me',
+            issuer: 'https://login.microsoftonline.com/common/v2.0',
             pkce: true
         });
     }
@@ -542,10 +583,11 @@ export class OAuthAuthProvider implements IAuthenticator {
     private async handleAuthorizationCodeFlow(
         provider: string,
         authorizationCode: string,
-        codeVerifier?: string
+        codeVerifier?: string,
+        nonce?: string
     ): Promise<AuthResult<AuthSession>> {
         try {
-            const providerConfig = this.providerConfigs.get(provider)!;
+            const providerConfig = await this.resolveProviderConfig(provider);
             this.currentProvider = provider;
 
             // Exchange authorization code for tokens
@@ -562,25 +604,43 @@ export class OAuthAuthProvider implements IAuthenticator {
                 };
             }
 
-            // Get user info
-            const userInfo = await this.getUserInfo(providerConfig, tokenResponse.data!.accessToken);
-
-            if (!userInfo.success) {
-                return {
-                    success: false,
-                    ...(userInfo.error && { error: userInfo.error })
-                };
-            }
-
-            // Create session
-            const session: AuthSession = {
-                user: {
+            // OpenID Connect providers identify the user by a validated ID token
+            let user: AuthUser;
+            if (providerConfig.metadata) {
+                const idTokenUser = await this.getIDTokenUser(
+                    provider,
+                    providerConfig,
+                    tokenResponse.data!.idToken,
+                    nonce ?? this.takeNonce(provider)
+                );
+                if (!idTokenUser.success) {
+                    return {
+                        success: false,
+                        ...(idTokenUser.error && { error: idTokenUser.error })
+                    };
+                }
+                user = idTokenUser.data!;
+            } else {
+                const userInfo = await this.getUserInfo(providerConfig, tokenResponse.data!.accessToken);
+
+                if (!userInfo.success) {
+                    return {
+                        success: false,
+                        ...(userInfo.error && { error: userInfo.error })
+                    };
+                }
+                user = {
                     id: userInfo.data!.id,
                     email: userInfo.data!.email || '',
                     username: userInfo.data!.email || '',
                     roles: [],
                     permissions: []
-                },
+                };
+            }
+
+            // Create session
+            const session: AuthSession = {
+                user,
                 token: {
                     accessToken: tokenResponse.data!.accessToken,
                     refreshToken: tokenResponse.data!.refreshToken || '',
@@ -620,7 +680,7 @@ export class OAuthAuthProvider implements IAuthenticator {
      */
     private async handleAccessTokenFlow(provider: string, accessToken: string): Promise<AuthResult<AuthSession>> {
         try {
-            const providerConfig = this.providerConfigs.get(provider)!;
+            const providerConfig = await this.resolveProviderConfig(provider);
             this.currentProvider = provider;
 
             // Get user info directly with access token
@@ -676,38 +736,184 @@ export class OAuthAuthProvider implements IAuthenticator {
         }
     }
 
+    /**
+     * Fills in a provider's endpoints, from its issuer's discovery document for OIDC providers
+     */
+    private async resolveProviderConfig(provider: string): Promise<ResolvedOAuthProviderConfig> {
+        const config = this.providerConfigs.get(provider)!;
+
+        if (!config.issuer) {
+            if (!config.authorizationEndpoint || !config.tokenEndpoint) {
+                throw new Error(`OAuth provider ${provider} needs an issuer or its endpoints`);
+            }
+            return config as ResolvedOAuthProviderConfig;
+        }
+
+        const metadata = await this.discover(config.issuer);
+        const userInfoEndpoint = config.userInfoEndpoint ?? metadata.userinfo_endpoint;
+
+        return {
+            ...config,
+            authorizationEndpoint: config.authorizationEndpoint ?? metadata.authorization_endpoint,
+            tokenEndpoint: config.tokenEndpoint ?? metadata.token_endpoint,
+            ...(userInfoEndpoint && { userInfoEndpoint }),
+            metadata
+        };
+    }
+
+    /**
+     * Gets an issuer's discovery document, fetching it once per issuer
+     */
+    private discover(issuer: string): Promise<OIDCProviderMetadata> {
+        let metadata = this.discoveryCache.get(issuer);
+        if (!metadata) {
+            metadata = discoverOIDCConfiguration(issuer, (input, init) => fetch(input, init));
+            // Let the next sign-in retry a failed discovery
+            metadata.catch(() => this.discoveryCache.delete(issuer));
+            this.discoveryCache.set(issuer, metadata);
+        }
+        return metadata;
+    }
+
+    /**
+     * Gets the key cache for a JWKS, shared by providers with the same issuer
+     */
+    private getJWKS(jwksUri: string): JWKSCache {
+        let jwks = this.jwksCaches.get(jwksUri);
+        if (!jwks) {
+            jwks = new JWKSCache(jwksUri, { fetch: (input, init) => fetch(input, init) });
+            this.jwksCaches.set(jwksUri, jwks);
+        }
+        return jwks;
+    }
+
+    /**
+     * Validates the ID token of an OIDC token response and maps its claims onto a user
+     */
+    private async getIDTokenUser(
+        provider: string,
+        config: ResolvedOAuthProviderConfig,
+        idToken: string | undefined,
+        nonce: string | undefined
+    ): Promise<AuthResult<AuthUser>> {
+        if (!idToken) {
+            return {
+                success: false,
+                error: {
+                    type: AuthErrorType.TOKEN_INVALID,
+                    message: `OpenID Connect provider ${provider} returned no ID token`,
+                    code: 'OIDC_ID_TOKEN_MISSING'
+                }
+            };
+        }
+
+        if (!nonce) {
+            return {
+                success: false,
+                error: {
+                    type: AuthErrorType.VALIDATION_ERROR,
+                    message: 'No nonce for this sign-in; start it again',
+                    code: 'OIDC_NONCE_MISSING'
+                }
+            };
+        }
+
+        try {
+            const metadata = config.metadata!;
+            const claims = await validateIDToken(idToken, this.getJWKS(metadata.jwks_uri), {
+                issuer: metadata.issuer,
+                clientId: config.clientId,
+                nonce
+            });
+
+            return {
+                success: true,
+                data: mapIDTokenClaimsToUser(claims)
+            };
+        } catch (error) {
+            if (error instanceof IDTokenValidationError) {
+                return {
+                    success: false,
+                    error: {
+                        type: error.code === 'expired' ? AuthErrorType.TOKEN_EXPIRED : AuthErrorType.TOKEN_INVALID,
+                        message: error.message,
+                        code: 'OIDC_ID_TOKEN_INVALID',
+                        details: { reason: error.code }
+                    }
+                };
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Keeps the nonce of an authorization request across the redirect
+     */
+    private storeNonce(provider: string, nonce: string): void {
+        sessionStorage.setItem(`${OIDC_NONCE_KEY_PREFIX}${provider}`, nonce);
+    }
+
+    /**
+     * Reads and forgets the nonce of the pending authorization request, so it can't be replayed
+     */
+    private takeNonce(provider: string): string | undefined {
+        const key = `${OIDC_NONCE_KEY_PREFIX}${provider}`;
+        const nonce = sessionStorage.getItem(key);
+        sessionStorage.removeItem(key);
+        return nonce ?? undefined;
+    }
+
     /**
      * Exchanges authorization code for tokens
      */
     private async exchangeCodeForTokens(
-        config: OAuthProviderConfig,
+        config: ResolvedOAuthProviderConfig,
         code: string,
         codeVerifier?: string
     ): Promise<AuthResult<OAuthTokenResponse>> {
         try {
+            // RFC 6749 section 4.1.3: form encoded body, snake_case parameters
             const tokenParams = new URLSearchParams({
-                clientId: config.clientId,
+                grant_type: 'authorization_code',
                 code,
-                redirectUri: config.redirectUri,
-                grantType: 'authorization_code'
+                redirect_uri: config.redirectUri,
+                client_id: config.clientId
             });
 
+            if (config.clientSecret) {
+                tokenParams.append('client_secret', config.clientSecret);
+            }
+
             if (codeVerifier) {
                 tokenParams.append('code_verifier', codeVerifier);
             }
 
-            const response = await fetch(`${config.tokenEndpoint}?${tokenParams.toString()}`, {
+            const response = await fetch(config.tokenEndpoint, {
                 method: 'POST',
                 headers: {
-                    'Content-Type': 'application/x-www-form-urlencoded'
-                }
+                    'Content-Type': 'application/x-www-form-urlencoded',
+                    'Accept': 'application/json'
+                },
+                body: tokenParams.toString()
             });
 
             if (!response.ok) {
                 throw new Error(`Token exchange failed: ${response.statusText}`);
             }
 
-            const data = await response.json() as OAuthTokenResponse;
+            const body = await response.json() as Record<string, unknown>;
+            if (typeof body.access_token !== 'string') {
+                throw new Error('Token response has no access_token');
+            }
+
+            const data: OAuthTokenResponse = {
+                accessToken: body.access_token,
+                tokenType: typeof body.token_type === 'string' ? body.token_type : 'Bearer',
+                expiresIn: typeof body.expires_in === 'number' ? body.expires_in : 3600,
+                ...(typeof body.refresh_token === 'string' && { refreshToken: body.refresh_token }),
+                ...(typeof body.scope === 'string' && { scope: body.scope }),
+                ...(typeof body.id_token === 'string' && { idToken: body.id_token })
+            };
 
             return {
                 success: true,
@@ -730,6 +936,10 @@ export class OAuthAuthProvider implements IAuthenticator {
      */
     private async getUserInfo(config: OAuthProviderConfig, accessToken: string): Promise<AuthResult<OAuthUserInfo>> {
         try {
+            if (!config.userInfoEndpoint) {
+                throw new Error('Provider has no user info endpoint');
+            }
+
             const response = await fetch(`${config.userInfoEndpoint}?access_token=${accessToken}`, {
                 headers: {
                     'Authorization': `Bearer ${accessToken}`
@@ -319,7 +319,7 @@ export class AuthRateLimiter {
     const ipResult = await this.limiters.get('login_ip')?.checkLimit('login', ip);
     const emailResult = email ? await this.limiters.get('login_email')?.checkLimit('login', email) : undefined;
     
-    if (!ipResult?.allowed || !emailResult?.allowed) {
+    if ((ipResult && !ipResult.allowed) || (emailResult && !emailResult.allowed)) {
       return {
         allowed: false,
         remaining: Math.min(ipResult?.remaining || 0, emailResult?.remaining || 0),
@@ -348,7 +348,7 @@ export class AuthRateLimiter {
     const ipResult = await this.limiters.get('password_reset_ip')?.checkLimit('password_reset', ip);
     const emailResult = email ? await this.limiters.get('password_reset_email')?.checkLimit('password_reset', email) : undefined;
     
-    if (!ipResult?.allowed || !emailResult?.allowed) {
+    if ((ipResult && !ipResult.allowed) || (emailResult && !emailResult.allowed)) {
       return {
         allowed: false,
         remaining: Math.min(ipResult?.remaining || 0, emailResult?.remaining || 0),
@@ -369,7 +369,7 @@ export class AuthRateLimiter {
     const ipResult = await this.limiters.get('account_unlock_ip')?.checkLimit('account_unlock', ip);
     const emailResult = email ? await this.limiters.get('account_unlock_email')?.checkLimit('account_unlock', email) : undefined;
     
-    if (!ipResult?.allowed || !emailResult?.allowed) {
+    if ((ipResult && !ipResult.allowed) || (emailResult && !emailResult.allowed)) {
       return {
         allowed: false,
         remaining: Math.min(ipResult?.remaining || 0, emailResult?.remaining || 0),
@@ -0,0 +1,161 @@
+/**
+ * Device Session Service
+ *
+ * Lists the signed-in user's sessions across devices and revokes them.
+ * A revoked session learns about it in real time: the backend pushes
+ * `session_revoked` on the WebSocket `session` feature to the tabs using
+ * it, and the first tab to hear of it relays a `signout` on the
+ * `auth_session_sync` channel, so sibling tabs (and SessionAuthProvider)
+ * sign out even without a live socket.
+ */
+
+import { SESSIONS_URL } from '@/shared/constants/apiPath';
+
+import type { IApiClient } from '../../network/interfaces';
+import type { IEnterpriseWebSocketService, WebSocketMessage } from '../../websocket';
+import type { DeviceInfo } from '../mfa/types/mfa.types';
+
+/** BroadcastChannel SessionAuthProvider syncs tabs on */
+export const SESSION_SYNC_CHANNEL = 'auth_session_sync';
+
+/** WebSocket feature the backend pushes session events on */
+export const SESSION_SOCKET_FEATURE = 'session';
+
+/**
+ * A signed-in session on one device
+ */
+export interface DeviceSession {
+  id: string;
+  deviceInfo: DeviceInfo;
+  ipAddress: string;
+  /** Approximate location derived from the IP address, when known */
+  location: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  /** Whether this is the session of the current browser */
+  current: boolean;
+}
+
+export interface SessionRevokedEvent {
+  sessionId: string;
+  revokedAt: Date;
+}
+
+/**
+ * Session as the API returns it
+ */
+interface DeviceSessionResponse {
+  id: string;
+  deviceInfo: DeviceInfo;
+  ipAddress: string;
+  location: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+/**
+ * Revocation as pushed over the socket or relayed between tabs
+ */
+interface SessionRevokedPayload {
+  sessionId: string;
+  revokedAt?: string;
+}
+
+export class DeviceSessionService {
+  constructor(private readonly apiClient: IApiClient) {}
+
+  /**
+   * Active sessions of the signed-in user: the current one first, then by last activity
+   */
+  public async listSessions(): Promise<DeviceSession[]> {
+    const { data } = await this.apiClient.get<DeviceSessionResponse[]>(SESSIONS_URL);
+
+    return data
+      .map(session => ({
+        ...session,
+        location: session.location ?? null,
+        createdAt: new Date(session.createdAt),
+        lastSeenAt: new Date(session.lastSeenAt)
+      }))
+      .sort((a, b) => Number(b.current) - Number(a.current) || b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  /**
+   * Revoke one session; its tabs are signed out as soon as the backend tells them
+   */
+  public async revokeSession(sessionId: string): Promise<void> {
+    await this.apiClient.delete(`${SESSIONS_URL}/${encodeURIComponent(sessionId)}`);
+  }
+
+  /**
+   * Revoke every session except the current one
+   *
+   * @returns Number of sessions revoked
+   */
+  public async revokeOtherSessions(): Promise<number> {
+    const { data } = await this.apiClient.delete<{ revoked: number }>(SESSIONS_URL);
+    return data.revoked;
+  }
+
+  /**
+   * Call `onRevoked` once when the current session is revoked from another device
+   *
+   * @returns Function that stops watching
+   */
+  public watchRevocation(
+    socket: Pick<IEnterpriseWebSocketService, 'subscribe'>,
+    onRevoked: (event: SessionRevokedEvent) => void
+  ): () => void {
+    const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(SESSION_SYNC_CHANNEL) : null;
+    let revoked = false;
+
+    const handle = (payload: SessionRevokedPayload, relay: boolean) => {
+      if (revoked) return;
+      revoked = true;
+
+      const event: SessionRevokedEvent = {
+        sessionId: payload.sessionId,
+        revokedAt: payload.revokedAt ? new Date(payload.revokedAt) : new Date()
+      };
+      if (relay) {
+        channel?.postMessage({
+          type: 'signout',
+          reason: 'revoked',
+          sessionId: event.sessionId,
+          revokedAt: event.revokedAt.toISOString()
+        });
+      }
+      onRevoked(event);
+    };
+
+    // The backend only sends this to connections of the revoked session
+    const unsubscribe = socket.subscribe(SESSION_SOCKET_FEATURE, {
+      onMessage: (message: WebSocketMessage) => {
+        if (message.type === 'session_revoked') {
+          handle(message.payload as SessionRevokedPayload, true);
+        }
+      }
+    });
+
+    if (channel) {
+      channel.onmessage = (event: MessageEvent) => {
+        if (event.data?.type === 'signout' && event.data.reason === 'revoked') {
+          handle(event.data as SessionRevokedPayload, false);
+        }
+      };
+    }
+
+    return () => {
+      unsubscribe();
+      channel?.close();
+    };
+  }
+}
+
+/**
+ * Factory function to create a device session service
+ */
+export function createDeviceSessionService(apiClient: IApiClient): DeviceSessionService {
+  return new DeviceSessionService(apiClient);
+}
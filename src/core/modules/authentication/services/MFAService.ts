@@ -9,9 +9,35 @@
  * - QR code generation for easy device enrollment
  * - Security key support (WebAuthn/FIDO2)
  * - Email verification as fallback method
+ *
+ * Completed challenges count as step-up proof, and disabling a method
+ * requires one when a StepUpAuthService is given.
  */
 
 import { DeviceInfo } from '../mfa/types/mfa.types';
+import { DEFAULT_STEP_UP_MAX_AGE, stepUpAuthService } from './StepUpAuthService';
+import {
+  buildOtpauthURI,
+  DEFAULT_TOTP_WINDOW,
+  generateTOTPSecret,
+  verifyTOTP
+} from '../utils/totp';
+import {
+  base64URLDecode,
+  base64URLEncode,
+  createAuthenticationOptions,
+  createPasskey,
+  createRegistrationOptions,
+  generateWebAuthnChallenge,
+  getPasskeyAssertion,
+  isWebAuthnSupported,
+  parseClientDataJSON,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse
+} from '../utils/webauthn';
+
+import type { AuthenticationResponseJSON, VerifiedRegistration, WebAuthnCeremony } from '../utils/webauthn';
+import type { StepUpAuthService } from './StepUpAuthService';
 
 export interface MFAConfig {
   /** Enable TOTP authentication */
@@ -36,6 +62,8 @@ export interface MFAConfig {
     digits: number;
     /** Algorithm used for TOTP */
     algorithm: 'SHA1' | 'SHA256' | 'SHA512';
+    /** Time steps accepted on either side of the current one (default: 1) */
+    window?: number;
   };
   /** SMS configuration */
   smsConfig: {
@@ -55,6 +83,17 @@ export interface MFAConfig {
     /** Code format */
     format: 'alphanumeric' | 'numeric' | 'mixed';
   };
+  /** WebAuthn configuration for security keys, biometrics and passkeys */
+  webAuthnConfig: {
+    /** Relying party ID: the domain credentials are scoped to */
+    rpId: string;
+    /** Relying party name shown by the authenticator */
+    rpName: string;
+    /** Origins ceremonies may run on */
+    origins: string[];
+    /** Ceremony timeout in milliseconds */
+    timeout: number;
+  };
 }
 
 export interface MFAEnrollment {
@@ -94,7 +133,7 @@ export interface MFAEnrollment {
 export interface TOTPEnrollmentData {
   /** Secret key for TOTP */
   secret: string;
-  /** QR code data URI */
+  /** otpauth:// key URI to encode in the enrollment QR code */
   qrCode: string;
   /** Manual entry key */
   manualEntryKey: string;
@@ -116,10 +155,14 @@ export interface SMSEnrollmentData {
 export interface BiometricEnrollmentData {
   /** Biometric type */
   type: 'fingerprint' | 'face' | 'voice';
-  /** Device identifier */
+  /** Authenticator model identifier (AAGUID) */
   deviceId: string;
-  /** Public key credential */
+  /** Public key credential ID (base64url) */
   credentialId: string;
+  /** COSE public key of the credential (base64url) */
+  publicKey: string;
+  /** Last sign counter reported by the authenticator */
+  signCount: number;
   /** Enrollment status */
   enrolled: boolean;
 }
@@ -136,14 +179,20 @@ export interface BackupCodesEnrollmentData {
 }
 
 export interface SecurityKeyEnrollmentData {
-  /** Key identifier */
+  /** Authenticator model identifier (AAGUID) */
   keyId: string;
   /** Key name */
   keyName: string;
-  /** Credential ID */
+  /** Public key credential ID (base64url) */
   credentialId: string;
-  /** Public key */
+  /** COSE public key of the credential (base64url) */
   publicKey: string;
+  /** Last sign counter reported by the authenticator */
+  signCount: number;
+  /** Transports the authenticator supports, e.g. usb, nfc, internal */
+  transports: string[];
+  /** Whether the credential is a synced (multi-device) passkey */
+  backedUp: boolean;
   /** Enrollment date */
   enrolledAt: number;
 }
@@ -192,6 +241,19 @@ export interface MFAMethod {
   setupRequired: boolean;
 }
 
+/**
+ * The email method, offered as a fallback when an enrolled method cannot be used
+ */
+const EMAIL_FALLBACK_METHOD: MFAMethod = {
+  type: 'email',
+  name: 'Email Verification',
+  description: 'Receive verification codes via email',
+  icon: '📧',
+  enabled: true,
+  priority: 6,
+  setupRequired: false
+};
+
 export interface MFAChallenge {
   /** Challenge ID */
   id: string;
@@ -211,13 +273,30 @@ export interface MFAChallenge {
   completedVerifications: MFAVerification[];
 }
 
+/** Methods backed by WebAuthn credentials */
+export type PasskeyMethod = 'security-key' | 'biometric';
+
+/**
+ * Challenge issued for a WebAuthn ceremony, accepted once
+ */
+interface PendingWebAuthnChallenge {
+  ceremony: WebAuthnCeremony;
+  /** User the ceremony is for; null for passwordless sign-in */
+  userId: string | null;
+  expiresAt: number;
+}
+
 export class MFAService {
   private readonly config: MFAConfig;
   private readonly enrollments: Map<string, MFAEnrollment[]> = new Map();
   private readonly verifications: Map<string, MFAVerification> = new Map();
   private readonly challenges: Map<string, MFAChallenge> = new Map();
+  /** Last accepted TOTP time step per enrollment, so a code cannot be replayed */
+  private readonly totpLastUsedSteps: Map<string, number> = new Map();
+  /** Outstanding WebAuthn challenges by base64url challenge */
+  private readonly webAuthnChallenges: Map<string, PendingWebAuthnChallenge> = new Map();
 
-  constructor(config: Partial<MFAConfig> = {}) {
+  constructor(config: Partial<MFAConfig> = {}, private readonly stepUp: StepUpAuthService | null = null) {
     this.config = {
       enableTOTP: true,
       enableSMS: true,
@@ -229,7 +308,8 @@ export class MFAService {
         issuer: 'QuietSpace',
         period: 30,
         digits: 6,
-        algorithm: 'SHA1'
+        algorithm: 'SHA1',
+        window: DEFAULT_TOTP_WINDOW
       },
       smsConfig: {
         provider: 'twilio',
@@ -241,6 +321,12 @@ export class MFAService {
         length: 8,
         format: 'alphanumeric'
       },
+      webAuthnConfig: {
+        rpId: typeof window !== 'undefined' ? window.location.hostname : 'localhost',
+        rpName: 'QuietSpace',
+        origins: typeof window !== 'undefined' ? [window.location.origin] : [],
+        timeout: 60000
+      },
       ...config
     };
   }
@@ -366,12 +452,7 @@ export class MFAService {
       userId,
       method: { type: 'totp', name: 'Authenticator App', description: '', icon: '📱', enabled: true, priority: 1, setupRequired: false },
       status: 'pending',
-      deviceInfo: deviceInfo || {
-        name: 'Unknown Device',
-        type: 'web',
-        platform: navigator.platform || 'Unknown',
-        userAgent: navigator.userAgent
-      },
+      deviceInfo: deviceInfo || this.getDefaultDeviceInfo(),
       metadata: {
         enrolledAt: Date.now(),
         usageCount: 0
@@ -400,7 +481,7 @@ export class MFAService {
       throw new Error('TOTP enrollment not found');
     }
 
-    const isValid = this.verifyTOTPCode(enrollment.methodData.totp!.secret, code);
+    const isValid = await this.verifyTOTPCode(enrollment, code);
 
     if (isValid) {
       enrollment.status = 'active';
@@ -567,6 +648,153 @@ export class MFAService {
     return false;
   }
 
+  /**
+   * Send a one-time email verification code for the email MFA method. A
+   * challenge accepts the code in place of a required method, so users who
+   * cannot reach their authenticator can still verify.
+   */
+  public async sendEmailVerificationCode(userId: string, email: string): Promise<void> {
+    if (!this.config.enableEmail) {
+      throw new Error('Email verification is not enabled');
+    }
+
+    const verificationCode = this.generateVerificationCode();
+    await this.sendEmailVerification(email, verificationCode);
+
+    const verification: MFAVerification = {
+      id: this.generateId(),
+      userId,
+      method: EMAIL_FALLBACK_METHOD,
+      status: 'pending',
+      code: verificationCode,
+      timestamp: Date.now(),
+      expiresAt: Date.now() + (10 * 60 * 1000), // 10 minutes
+      attempts: 0,
+      maxAttempts: 3
+    };
+
+    // A new code replaces any earlier one still pending
+    for (const pending of this.verifications.values()) {
+      if (pending.userId === userId && pending.method.type === 'email' && pending.status === 'pending') {
+        pending.status = 'expired';
+      }
+    }
+    this.verifications.set(verification.id, verification);
+  }
+
+  /**
+   * Register a security key or passkey through navigator.credentials.create.
+   * The ceremony proves possession of the key, so the enrollment is active
+   * right away.
+   */
+  public async enrollSecurityKey(userId: string, keyName: string, deviceInfo?: DeviceInfo): Promise<SecurityKeyEnrollmentData> {
+    if (!this.config.enableSecurityKeys) {
+      throw new Error('Security keys are not enabled');
+    }
+
+    const registration = await this.registerPasskey(userId, 'security-key');
+    const enrollmentData: SecurityKeyEnrollmentData = {
+      keyId: registration.aaguid,
+      keyName,
+      credentialId: registration.credentialId,
+      publicKey: registration.publicKey,
+      signCount: registration.signCount,
+      transports: registration.transports,
+      backedUp: registration.backedUp,
+      enrolledAt: Date.now()
+    };
+
+    this.addPasskeyEnrollment(userId, {
+      method: { type: 'security-key', name: 'Security Key', description: keyName, icon: '🔐', enabled: true, priority: 5, setupRequired: false },
+      deviceInfo: deviceInfo || this.getDefaultDeviceInfo(),
+      methodData: { securityKey: enrollmentData }
+    });
+
+    return enrollmentData;
+  }
+
+  /**
+   * Register this device's platform authenticator (Touch ID, Windows Hello,
+   * Android biometrics) as a passkey that requires user verification
+   */
+  public async enrollBiometric(
+    userId: string,
+    type: BiometricEnrollmentData['type'] = 'fingerprint',
+    deviceInfo?: DeviceInfo
+  ): Promise<BiometricEnrollmentData> {
+    if (!this.config.enableBiometrics) {
+      throw new Error('Biometric authentication is not enabled');
+    }
+
+    const registration = await this.registerPasskey(userId, 'biometric');
+    const enrollmentData: BiometricEnrollmentData = {
+      type,
+      deviceId: registration.aaguid,
+      credentialId: registration.credentialId,
+      publicKey: registration.publicKey,
+      signCount: registration.signCount,
+      enrolled: true
+    };
+
+    this.addPasskeyEnrollment(userId, {
+      method: { type: 'biometric', name: 'Biometric Authentication', description: '', icon: '👆', enabled: true, priority: 3, setupRequired: false },
+      deviceInfo: deviceInfo || this.getDefaultDeviceInfo(),
+      methodData: { biometric: enrollmentData }
+    });
+
+    return enrollmentData;
+  }
+
+  /**
+   * Run the authentication ceremony for a security key or biometric challenge.
+   * The returned assertion is the code to pass to verifyChallenge.
+   */
+  public async requestPasskeyAssertion(userId: string, method: PasskeyMethod): Promise<string> {
+    const credentialIds = this.getPasskeyEnrollments(userId, [method])
+      .map(enrollment => this.getPasskeyData(enrollment)!.credentialId);
+
+    if (credentialIds.length === 0) {
+      throw new Error(`No ${method} is enrolled for this user`);
+    }
+
+    const options = createAuthenticationOptions({
+      rpId: this.config.webAuthnConfig.rpId,
+      challenge: this.issueWebAuthnChallenge('webauthn.get', userId),
+      allowCredentialIds: credentialIds,
+      userVerification: method === 'biometric' ? 'required' : 'preferred',
+      timeout: this.config.webAuthnConfig.timeout
+    });
+
+    return JSON.stringify(await getPasskeyAssertion(options));
+  }
+
+  /**
+   * Passwordless sign-in with a discoverable passkey. The authenticator picks
+   * the account and must verify the user, so the passkey alone provides two
+   * factors.
+   *
+   * @returns ID of the user the passkey belongs to
+   */
+  public async signInWithPasskey(): Promise<string> {
+    if (!isWebAuthnSupported()) {
+      throw new Error('Passkeys are not supported by this browser');
+    }
+
+    const options = createAuthenticationOptions({
+      rpId: this.config.webAuthnConfig.rpId,
+      challenge: this.issueWebAuthnChallenge('webauthn.get', null),
+      userVerification: 'required',
+      timeout: this.config.webAuthnConfig.timeout
+    });
+    const response = await getPasskeyAssertion(options);
+
+    const enrollment = await this.verifyPasskeyAssertion(response, null, ['security-key', 'biometric'], true);
+    if (!enrollment) {
+      throw new Error('Passkey sign-in failed');
+    }
+    return enrollment.userId;
+  }
+
   /**
    * Create MFA challenge
    */
@@ -649,11 +877,15 @@ export class MFAService {
     }
 
     if (isValid) {
+      // An emailed code stands in for a required method the user cannot use
+      const verifiedMethod = challenge.requiredMethods.find(m => m.type === method)
+        ?? (method === 'email' ? EMAIL_FALLBACK_METHOD : undefined);
+
       // Add to completed verifications
       const verification: MFAVerification = {
         id: this.generateId(),
         userId,
-        method: challenge.requiredMethods.find(m => m.type === method)!,
+        method: verifiedMethod!,
         status: 'success',
         timestamp: Date.now(),
         expiresAt: Date.now() + (5 * 60 * 1000),
@@ -666,6 +898,7 @@ export class MFAService {
       // Check if all required methods are completed
       if (challenge.completedVerifications.length === challenge.requiredMethods.length) {
         challenge.status = 'completed';
+        this.stepUp?.recordProof('mfa');
       }
 
       this.challenges.set(challengeId, challenge);
@@ -676,26 +909,26 @@ export class MFAService {
 
   // Private helper methods
 
+  private getDefaultDeviceInfo(): NonNullable<MFAEnrollment['deviceInfo']> {
+    return {
+      name: 'Unknown Device',
+      type: 'web',
+      platform: navigator.platform || 'Unknown',
+      userAgent: navigator.userAgent
+    };
+  }
+
   private generateId(): string {
     return `mfa_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   private generateTOTPSecret(): string {
-    // Generate 32-byte base32 encoded secret
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
-    let secret = '';
-    for (let i = 0; i < 32; i++) {
-      secret += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return secret;
+    return generateTOTPSecret();
   }
 
   private generateTOTPQRCode(userId: string, secret: string): string {
-    const otpauth = `otpauth://totp/${this.config.totpConfig.issuer}:${userId}?secret=${secret}&issuer=${this.config.totpConfig.issuer}&period=${this.config.totpConfig.period}&digits=${this.config.totpConfig.digits}&algorithm=${this.config.totpConfig.algorithm}`;
-
-    // In a real implementation, this would generate an actual QR code image
-    // For now, return the data URI that can be used to generate the QR code
-    return 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+    // The UI renders this key URI as the QR code authenticator apps scan
+    return buildOtpauthURI({ ...this.config.totpConfig, accountName: userId, secret });
   }
 
   private formatManualKey(secret: string): string {
@@ -732,10 +965,18 @@ export class MFAService {
     console.log(`SMS sent to ${phoneNumber}: Your verification code is ${code}`);
   }
 
-  private verifyTOTPCode(secret: string, code: string): boolean {
-    // In a real implementation, this would use a TOTP library
-    // For demo purposes, accept any 6-digit code
-    return /^\d{6}$/.test(code);
+  private async verifyTOTPCode(enrollment: MFAEnrollment, code: string): Promise<boolean> {
+    const { window = DEFAULT_TOTP_WINDOW, ...options } = this.config.totpConfig;
+    const { valid, timeStep } = await verifyTOTP(enrollment.methodData.totp!.secret, code, {
+      ...options,
+      window,
+      lastUsedTimeStep: this.totpLastUsedSteps.get(enrollment.id) ?? null
+    });
+
+    if (valid && timeStep !== null) {
+      this.totpLastUsedSteps.set(enrollment.id, timeStep);
+    }
+    return valid;
   }
 
   private async verifyTOTP(userId: string, code: string): Promise<boolean> {
@@ -746,7 +987,12 @@ export class MFAService {
       return false;
     }
 
-    return this.verifyTOTPCode(totpEnrollment.methodData.totp!.secret, code);
+    return this.verifyTOTPCode(totpEnrollment, code);
+  }
+
+  private async sendEmailVerification(email: string, code: string): Promise<void> {
+    // In a real implementation, this would integrate with an email service
+    console.log(`Email sent to ${email}: Your verification code is ${code}`);
   }
 
   private async verifySMS(userId: string, code: string): Promise<boolean> {
@@ -764,18 +1010,201 @@ export class MFAService {
   }
 
   private async verifyBiometric(userId: string, credential: string): Promise<boolean> {
-    // In a real implementation, this would use WebAuthn API
-    return credential.length > 0;
+    const response = this.parseAssertion(credential);
+    return !!response && !!await this.verifyPasskeyAssertion(response, userId, ['biometric'], true);
   }
 
   private async verifySecurityKey(userId: string, credential: string): Promise<boolean> {
-    // In a real implementation, this would use WebAuthn API
-    return credential.length > 0;
+    const response = this.parseAssertion(credential);
+    return !!response && !!await this.verifyPasskeyAssertion(response, userId, ['security-key'], false);
+  }
+
+  private parseAssertion(credential: string): AuthenticationResponseJSON | null {
+    try {
+      const response = JSON.parse(credential) as AuthenticationResponseJSON;
+      return typeof response?.response?.clientDataJSON === 'string' ? response : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async registerPasskey(userId: string, method: PasskeyMethod): Promise<VerifiedRegistration> {
+    if (!isWebAuthnSupported()) {
+      throw new Error('WebAuthn is not supported by this browser');
+    }
+
+    const { rpId, rpName, origins, timeout } = this.config.webAuthnConfig;
+    const challenge = this.issueWebAuthnChallenge('webauthn.create', userId);
+    // Platform authenticators are biometric; keys created for them are discoverable passkeys
+    const isBiometric = method === 'biometric';
+
+    const options = createRegistrationOptions({
+      rpId,
+      rpName,
+      user: { id: this.toUserHandle(userId), name: userId, displayName: userId },
+      challenge,
+      excludeCredentialIds: this.getPasskeyEnrollments(userId, ['security-key', 'biometric'])
+        .map(enrollment => this.getPasskeyData(enrollment)!.credentialId),
+      ...(isBiometric ? { authenticatorAttachment: 'platform' as const } : {}),
+      residentKey: isBiometric ? 'required' : 'preferred',
+      userVerification: isBiometric ? 'required' : 'preferred',
+      timeout
+    });
+
+    const response = await createPasskey(options);
+    if (!this.consumeWebAuthnChallenge(challenge, 'webauthn.create', userId)) {
+      throw new Error('Registration challenge has expired');
+    }
+
+    return verifyRegistrationResponse(response, {
+      challenge,
+      origin: origins,
+      rpId,
+      requireUserVerification: isBiometric
+    });
+  }
+
+  /**
+   * Verifies an assertion against the enrolled credential it names and
+   * advances the stored sign counter
+   *
+   * @param userId - User the assertion must belong to; null to accept any user (passwordless)
+   * @returns The matching enrollment, or null if the assertion is not valid
+   */
+  private async verifyPasskeyAssertion(
+    response: AuthenticationResponseJSON,
+    userId: string | null,
+    methods: PasskeyMethod[],
+    requireUserVerification: boolean
+  ): Promise<MFAEnrollment | null> {
+    try {
+      const { challenge } = parseClientDataJSON(base64URLDecode(response.response.clientDataJSON));
+      if (!this.consumeWebAuthnChallenge(challenge, 'webauthn.get', userId)) {
+        return null;
+      }
+
+      const candidates = userId !== null
+        ? this.getPasskeyEnrollments(userId, methods)
+        : Array.from(this.enrollments.keys()).flatMap(id => this.getPasskeyEnrollments(id, methods));
+      const enrollment = candidates.find(e => this.getPasskeyData(e)!.credentialId === response.rawId);
+      if (!enrollment) {
+        return null;
+      }
+
+      const data = this.getPasskeyData(enrollment)!;
+      const { rpId, origins } = this.config.webAuthnConfig;
+      const result = await verifyAuthenticationResponse(
+        response,
+        { challenge, origin: origins, rpId, requireUserVerification },
+        data
+      );
+
+      if (result.userHandle !== null && result.userHandle !== base64URLEncode(this.toUserHandle(enrollment.userId))) {
+        return null;
+      }
+
+      data.signCount = result.signCount;
+      enrollment.metadata.lastUsed = Date.now();
+      enrollment.metadata.usageCount++;
+      return enrollment;
+    } catch {
+      return null;
+    }
+  }
+
+  private getPasskeyEnrollments(userId: string, methods: PasskeyMethod[]): MFAEnrollment[] {
+    return (this.enrollments.get(userId) || []).filter(e =>
+      e.status === 'active' && (methods as string[]).includes(e.method.type) && !!this.getPasskeyData(e)
+    );
+  }
+
+  private getPasskeyData(enrollment: MFAEnrollment): SecurityKeyEnrollmentData | BiometricEnrollmentData | undefined {
+    return enrollment.methodData.securityKey ?? enrollment.methodData.biometric;
+  }
+
+  private addPasskeyEnrollment(
+    userId: string,
+    enrollment: Pick<MFAEnrollment, 'method' | 'deviceInfo' | 'methodData'>
+  ): void {
+    const now = Date.now();
+    const userEnrollments = this.enrollments.get(userId) || [];
+    userEnrollments.push({
+      ...enrollment,
+      id: this.generateId(),
+      userId,
+      status: 'active',
+      metadata: {
+        enrolledAt: now,
+        verifiedAt: now,
+        usageCount: 0
+      }
+    });
+    this.enrollments.set(userId, userEnrollments);
+  }
+
+  private issueWebAuthnChallenge(ceremony: WebAuthnCeremony, userId: string | null): string {
+    const now = Date.now();
+    for (const [challenge, pending] of this.webAuthnChallenges) {
+      if (pending.expiresAt <= now) {
+        this.webAuthnChallenges.delete(challenge);
+      }
+    }
+
+    const challenge = generateWebAuthnChallenge();
+    this.webAuthnChallenges.set(challenge, {
+      ceremony,
+      userId,
+      expiresAt: now + this.config.webAuthnConfig.timeout
+    });
+    return challenge;
+  }
+
+  /**
+   * Accepts a challenge once, for the ceremony and user it was issued for
+   */
+  private consumeWebAuthnChallenge(challenge: string, ceremony: WebAuthnCeremony, userId: string | null): boolean {
+    const pending = this.webAuthnChallenges.get(challenge);
+    if (!pending) {
+      return false;
+    }
+
+    this.webAuthnChallenges.delete(challenge);
+    return pending.ceremony === ceremony
+      && pending.userId === userId
+      && Date.now() <= pending.expiresAt;
+  }
+
+  /**
+   * WebAuthn user handle: opaque bytes that map a discoverable credential back to the account
+   */
+  private toUserHandle(userId: string): Uint8Array<ArrayBuffer> {
+    return new TextEncoder().encode(userId);
   }
 
   private async verifyEmail(userId: string, code: string): Promise<boolean> {
-    // Similar to SMS verification but for email
-    return /^\d{6}$/.test(code);
+    const pendingVerification = Array.from(this.verifications.values())
+      .find(v => v.userId === userId && v.method.type === 'email' && v.status === 'pending');
+
+    if (!pendingVerification) {
+      return false;
+    }
+
+    if (Date.now() > pendingVerification.expiresAt) {
+      pendingVerification.status = 'expired';
+      return false;
+    }
+
+    pendingVerification.attempts++;
+    if (pendingVerification.code !== code) {
+      if (pendingVerification.attempts >= pendingVerification.maxAttempts) {
+        pendingVerification.status = 'failed';
+      }
+      return false;
+    }
+
+    pendingVerification.status = 'success';
+    this.verifications.set(pendingVerification.id, pendingVerification);
+    return true;
   }
 
   /**
@@ -787,6 +1216,8 @@ export class MFAService {
 
   /**
    * Disable MFA method
+   *
+   * @throws StepUpRequiredError when the user has not verified recently and does not when asked
    */
   public async disableMFA(userId: string, enrollmentId: string): Promise<boolean> {
     const userEnrollments = this.enrollments.get(userId) || [];
@@ -796,6 +1227,8 @@ export class MFAService {
       return false;
     }
 
+    await this.stepUp?.ensureRecentAuth(DEFAULT_STEP_UP_MAX_AGE, `Disable ${enrollment.method.name}`);
+
     enrollment.status = 'disabled';
     this.enrollments.set(userId, userEnrollments);
     return true;
@@ -848,6 +1281,12 @@ export class MFAService {
 /**
  * Factory function to create MFA service
  */
-export function createMFAService(config?: Partial<MFAConfig>): MFAService {
-  return new MFAService(config);
+export function createMFAService(config?: Partial<MFAConfig>, stepUp?: StepUpAuthService): MFAService {
+  return new MFAService(config, stepUp ?? null);
 }
+
+/**
+ * Service shared by the auth screens, so credentials enrolled in settings are
+ * available at sign-in. Its challenges feed the app-wide step-up proof.
+ */
+export const mfaService = createMFAService(undefined, stepUpAuthService);
@@ -0,0 +1,154 @@
+/**
+ * Step-Up Authentication Service
+ *
+ * Sensitive actions (deleting the account, changing email or password,
+ * disabling MFA, exporting data) should not run on a session that was opened
+ * days ago. Before such an action the caller asks for proof of a recent
+ * password or MFA verification; when there is none, the registered prompt
+ * (the step-up modal) collects it and the action resumes once it succeeds.
+ */
+
+import { REAUTHENTICATE_URL } from '@/shared/constants/apiPath';
+
+import type { IApiClient } from '../../network/interfaces';
+
+/** How recent a proof must be when the caller does not say */
+export const DEFAULT_STEP_UP_MAX_AGE = 5 * 60 * 1000;
+
+export type StepUpMethod = 'password' | 'mfa';
+
+export interface StepUpProof {
+  method: StepUpMethod;
+  verifiedAt: number;
+}
+
+export interface StepUpRequest {
+  /** Oldest acceptable proof, in milliseconds */
+  maxAge: number;
+  /** What the user is confirming, shown in the prompt */
+  reason?: string;
+}
+
+/**
+ * Collects a fresh proof from the user
+ *
+ * @returns Whether the user verified; false when they cancelled
+ */
+export type StepUpPrompt = (request: StepUpRequest) => Promise<boolean>;
+
+/**
+ * Thrown when an action needs a recent proof the user did not give
+ */
+export class StepUpRequiredError extends Error {
+  readonly maxAge: number;
+
+  constructor(maxAge: number, message = 'Recent authentication is required for this action') {
+    super(message);
+    this.name = 'StepUpRequiredError';
+    this.maxAge = maxAge;
+  }
+}
+
+export class StepUpAuthService {
+  private lastProof: StepUpProof | null = null;
+  private prompt: StepUpPrompt | null = null;
+  /** Prompt in progress, shared by actions blocked at the same time */
+  private pendingPrompt: Promise<boolean> | null = null;
+
+  /**
+   * Whether the user proved their identity within `maxAge` milliseconds
+   */
+  public isRecent(maxAge: number = DEFAULT_STEP_UP_MAX_AGE): boolean {
+    return this.lastProof !== null && Date.now() - this.lastProof.verifiedAt <= maxAge;
+  }
+
+  public getLastProof(): StepUpProof | null {
+    return this.lastProof;
+  }
+
+  /**
+   * Record a successful password or MFA verification
+   */
+  public recordProof(method: StepUpMethod, verifiedAt: number = Date.now()): void {
+    this.lastProof = { method, verifiedAt };
+  }
+
+  /**
+   * Confirm the signed-in user's password with the backend and record the proof
+   *
+   * @throws When the password is wrong or the request fails
+   */
+  public async verifyPassword(apiClient: IApiClient, password: string): Promise<void> {
+    await apiClient.post(REAUTHENTICATE_URL, { password });
+    this.recordProof('password');
+  }
+
+  /**
+   * Forget the last proof, e.g. on sign out
+   */
+  public clear(): void {
+    this.lastProof = null;
+  }
+
+  /**
+   * Register the prompt that collects proofs
+   *
+   * @returns Function that unregisters it
+   */
+  public setPrompt(prompt: StepUpPrompt): () => void {
+    this.prompt = prompt;
+    return () => {
+      if (this.prompt === prompt) {
+        this.prompt = null;
+      }
+    };
+  }
+
+  /**
+   * Resolve once the user has a proof no older than `maxAge`, prompting for one if needed
+   *
+   * @throws StepUpRequiredError when no prompt is registered or the user cancels
+   */
+  public async ensureRecentAuth(maxAge: number = DEFAULT_STEP_UP_MAX_AGE, reason?: string): Promise<void> {
+    if (this.isRecent(maxAge)) return;
+    if (!this.prompt) {
+      throw new StepUpRequiredError(maxAge);
+    }
+
+    if (!this.pendingPrompt) {
+      const request: StepUpRequest = reason ? { maxAge, reason } : { maxAge };
+      this.pendingPrompt = this.prompt(request).finally(() => {
+        this.pendingPrompt = null;
+      });
+    }
+
+    const verified = await this.pendingPrompt;
+    if (!verified || !this.isRecent(maxAge)) {
+      throw new StepUpRequiredError(maxAge, 'Verification was cancelled');
+    }
+  }
+
+  /**
+   * Run `action` behind a recent proof
+   */
+  public async withRecentAuth<T>(
+    action: () => T | Promise<T>,
+    maxAge: number = DEFAULT_STEP_UP_MAX_AGE,
+    reason?: string
+  ): Promise<T> {
+    await this.ensureRecentAuth(maxAge, reason);
+    return action();
+  }
+}
+
+/**
+ * Factory function to create a step-up authentication service
+ */
+export function createStepUpAuthService(): StepUpAuthService {
+  return new StepUpAuthService();
+}
+
+/**
+ * Service shared by the app, so a proof given once covers every guarded action
+ */
+export const stepUpAuthService = createStepUpAuthService();
@@ -0,0 +1,261 @@
+/**
+ * CBOR Utilities
+ *
+ * The subset of RFC 8949 CBOR that WebAuthn uses: attestation objects and
+ * COSE keys are definite-length items with integer or text map keys.
+ * Maps decode to `Map` because COSE keys use negative integer labels.
+ */
+
+export type CBORValue =
+    | number
+    | string
+    | boolean
+    | null
+    | undefined
+    | Uint8Array
+    | CBORValue[]
+    | Map<CBORKey, CBORValue>;
+
+export type CBORKey = number | string;
+
+export interface CBORDecodeResult {
+    value: CBORValue;
+    /** Bytes consumed by the item */
+    length: number;
+}
+
+const MAJOR_UNSIGNED = 0;
+const MAJOR_NEGATIVE = 1;
+const MAJOR_BYTES = 2;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_TAG = 6;
+const MAJOR_SIMPLE = 7;
+
+/** Nesting limit, so hostile input cannot exhaust the stack */
+const MAX_DEPTH = 16;
+
+/**
+ * Decodes a single CBOR item that must span the whole input
+ *
+ * @throws Error if the input is malformed, uses unsupported features or has trailing bytes
+ */
+export function decodeCBOR(bytes: Uint8Array): CBORValue {
+    const { value, length } = decodeCBORPrefix(bytes);
+    if (length !== bytes.length) {
+        throw new Error('Invalid CBOR: trailing bytes after item');
+    }
+    return value;
+}
+
+/**
+ * Decodes the CBOR item at the start of the input, for formats such as
+ * authenticator data where other data follows the item
+ */
+export function decodeCBORPrefix(bytes: Uint8Array): CBORDecodeResult {
+    const reader = new CBORReader(bytes);
+    const value = reader.readItem(0);
+    return { value, length: reader.offset };
+}
+
+/**
+ * Encodes a value as CBOR. Plain objects are written as text-keyed maps.
+ */
+export function encodeCBOR(value: CBORValue | Record<string, CBORValue>): Uint8Array<ArrayBuffer> {
+    const chunks: number[] = [];
+    writeItem(chunks, value);
+    return new Uint8Array(chunks);
+}
+
+class CBORReader {
+    offset = 0;
+    private readonly view: DataView;
+
+    constructor(private readonly bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    readItem(depth: number): CBORValue {
+        if (depth > MAX_DEPTH) {
+            throw new Error('Invalid CBOR: nesting too deep');
+        }
+
+        const initial = this.readUint8();
+        const major = initial >> 5;
+        const info = initial & 0x1f;
+
+        if (major === MAJOR_SIMPLE) {
+            return this.readSimple(info);
+        }
+
+        const argument = this.readArgument(info);
+        switch (major) {
+            case MAJOR_UNSIGNED:
+                return argument;
+            case MAJOR_NEGATIVE:
+                return -1 - argument;
+            case MAJOR_BYTES:
+                // Copy, so the result does not keep the whole input alive
+                return new Uint8Array(this.readBytes(argument));
+            case MAJOR_TEXT:
+                return new TextDecoder('utf-8', { fatal: true }).decode(this.readBytes(argument));
+            case MAJOR_ARRAY: {
+                const items: CBORValue[] = [];
+                for (let i = 0; i < argument; i++) {
+                    items.push(this.readItem(depth + 1));
+                }
+                return items;
+            }
+            case MAJOR_MAP: {
+                const map = new Map<CBORKey, CBORValue>();
+                for (let i = 0; i < argument; i++) {
+                    const key = this.readItem(depth + 1);
+                    if (typeof key !== 'number' && typeof key !== 'string') {
+                        throw new Error('Invalid CBOR: map keys must be integers or text');
+                    }
+                    if (map.has(key)) {
+                        throw new Error(`Invalid CBOR: duplicate map key ${key}`);
+                    }
+                    map.set(key, this.readItem(depth + 1));
+                }
+                return map;
+            }
+            case MAJOR_TAG:
+                // Tags carry no meaning for WebAuthn data; return the tagged item
+                return this.readItem(depth + 1);
+            default:
+                throw new Error(`Invalid CBOR: unknown major type ${major}`);
+        }
+    }
+
+    private readArgument(info: number): number {
+        if (info < 24) return info;
+        switch (info) {
+            case 24:
+                return this.readUint8();
+            case 25:
+                return this.advance(2, offset => this.view.getUint16(offset));
+            case 26:
+                return this.advance(4, offset => this.view.getUint32(offset));
+            case 27: {
+                const value = this.advance(8, offset => this.view.getBigUint64(offset));
+                if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+                    throw new Error('Invalid CBOR: integer exceeds safe range');
+                }
+                return Number(value);
+            }
+            case 31:
+                throw new Error('Invalid CBOR: indefinite lengths are not supported');
+            default:
+                throw new Error(`Invalid CBOR: reserved additional info ${info}`);
+        }
+    }
+
+    private readSimple(info: number): CBORValue {
+        switch (info) {
+            case 20:
+                return false;
+            case 21:
+                return true;
+            case 22:
+                return null;
+            case 23:
+                return undefined;
+            case 25:
+                return this.advance(2, offset => decodeFloat16(this.view.getUint16(offset)));
+            case 26:
+                return this.advance(4, offset => this.view.getFloat32(offset));
+            case 27:
+                return this.advance(8, offset => this.view.getFloat64(offset));
+            default:
+                throw new Error(`Invalid CBOR: unsupported simple value ${info}`);
+        }
+    }
+
+    private readUint8(): number {
+        return this.advance(1, offset => this.view.getUint8(offset));
+    }
+
+    private readBytes(length: number): Uint8Array {
+        return this.advance(length, offset => this.bytes.subarray(offset, offset + length));
+    }
+
+    private advance<T>(length: number, read: (offset: number) => T): T {
+        if (this.offset + length > this.bytes.length) {
+            throw new Error('Invalid CBOR: unexpected end of input');
+        }
+        const value = read(this.offset);
+        this.offset += length;
+        return value;
+    }
+}
+
+function decodeFloat16(half: number): number {
+    const exponent = (half >> 10) & 0x1f;
+    const fraction = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+    if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+    return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * Byte strings may come from another realm (e.g. Node buffers), so check the tag instead of instanceof
+ */
+function isBytes(value: unknown): value is Uint8Array {
+    return ArrayBuffer.isView(value) && Object.prototype.toString.call(value) === '[object Uint8Array]';
+}
+
+function writeHead(chunks: number[], major: number, argument: number): void {
+    const prefix = major << 5;
+    if (argument < 24) {
+        chunks.push(prefix | argument);
+    } else if (argument < 0x100) {
+        chunks.push(prefix | 24, argument);
+    } else if (argument < 0x10000) {
+        chunks.push(prefix | 25, argument >> 8, argument & 0xff);
+    } else if (argument < 0x100000000) {
+        chunks.push(prefix | 26, argument >>> 24, (argument >> 16) & 0xff, (argument >> 8) & 0xff, argument & 0xff);
+    } else {
+        throw new Error('CBOR encoding of values above 2^32 is not supported');
+    }
+}
+
+function writeItem(chunks: number[], value: CBORValue | Record<string, CBORValue>): void {
+    if (value === false) {
+        chunks.push(0xf4);
+    } else if (value === true) {
+        chunks.push(0xf5);
+    } else if (value === null) {
+        chunks.push(0xf6);
+    } else if (value === undefined) {
+        chunks.push(0xf7);
+    } else if (typeof value === 'number') {
+        if (!Number.isInteger(value)) {
+            throw new Error('CBOR encoding of floating point values is not supported');
+        }
+        if (value >= 0) {
+            writeHead(chunks, MAJOR_UNSIGNED, value);
+        } else {
+            writeHead(chunks, MAJOR_NEGATIVE, -1 - value);
+        }
+    } else if (typeof value === 'string') {
+        const encoded = new TextEncoder().encode(value);
+        writeHead(chunks, MAJOR_TEXT, encoded.length);
+        chunks.push(...encoded);
+    } else if (isBytes(value)) {
+        writeHead(chunks, MAJOR_BYTES, value.length);
+        chunks.push(...value);
+    } else if (Array.isArray(value)) {
+        writeHead(chunks, MAJOR_ARRAY, value.length);
+        value.forEach(item => writeItem(chunks, item));
+    } else {
+        const entries = value instanceof Map ? Array.from(value.entries()) : Object.entries(value);
+        writeHead(chunks, MAJOR_MAP, entries.length);
+        for (const [key, item] of entries) {
+            writeItem(chunks, key);
+            writeItem(chunks, item);
+        }
+    }
+}
@@ -0,0 +1,409 @@
+/**
+ * OpenID Connect Utilities
+ *
+ * Relying party side of OpenID Connect Core 1.0 and Discovery 1.0: fetching
+ * an issuer's `.well-known/openid-configuration`, caching its JWKS across key
+ * rotations, and validating ID tokens - RS256/ES256 signatures and the
+ * iss, aud, azp, exp, iat and nonce claims - before their claims are mapped
+ * into an AuthUser.
+ */
+
+import { base64URLDecode } from './webauthn';
+
+import type { AuthUser } from '../types/auth.domain.types';
+
+export type IDTokenAlgorithm = 'RS256' | 'ES256';
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Issuer metadata from `.well-known/openid-configuration`
+ */
+export interface OIDCProviderMetadata {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    userinfo_endpoint?: string;
+    jwks_uri: string;
+    end_session_endpoint?: string;
+    scopes_supported?: string[];
+    id_token_signing_alg_values_supported?: string[];
+    [field: string]: unknown;
+}
+
+/**
+ * Public key of a JWKS (RFC 7517)
+ */
+export interface JWK extends JsonWebKey {
+    kid?: string;
+}
+
+export interface JWKSet {
+    keys: JWK[];
+}
+
+/**
+ * Claims of an ID token; `roles` and `tid` are common provider extensions
+ */
+export interface IDTokenClaims {
+    iss: string;
+    sub: string;
+    aud: string | string[];
+    exp: number;
+    iat: number;
+    nbf?: number;
+    nonce?: string;
+    azp?: string;
+    auth_time?: number;
+    email?: string;
+    email_verified?: boolean;
+    name?: string;
+    given_name?: string;
+    family_name?: string;
+    preferred_username?: string;
+    picture?: string;
+    roles?: string[];
+    tid?: string;
+    [claim: string]: unknown;
+}
+
+export interface DecodedJWT {
+    header: { alg: string; kid?: string; typ?: string };
+    claims: IDTokenClaims;
+    signingInput: string;
+    signature: Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Anything that can resolve the key an ID token was signed with
+ */
+export interface JWKSource {
+    getKey(kid: string | undefined, alg: IDTokenAlgorithm): Promise<JWK>;
+}
+
+export interface IDTokenValidationOptions {
+    /** Expected issuer; `{tenantid}` is replaced with the token's `tid` claim */
+    issuer: string;
+    clientId: string;
+    /** Nonce sent with the authorization request; required in the token when set */
+    nonce?: string | null;
+    /** Seconds of clock skew tolerated on exp, iat and nbf */
+    clockTolerance?: number;
+    /** Current time in milliseconds */
+    now?: number;
+    algorithms?: IDTokenAlgorithm[];
+}
+
+export interface JWKSCacheOptions {
+    fetch?: FetchLike;
+    /** How long fetched keys are used when the response has no max-age, in ms */
+    maxAge?: number;
+    /** Minimum time between refetches for an unknown key id, in ms */
+    refreshCooldown?: number;
+}
+
+export type IDTokenErrorCode =
+    | 'malformed'
+    | 'unsupported_alg'
+    | 'unknown_key'
+    | 'invalid_signature'
+    | 'invalid_issuer'
+    | 'invalid_audience'
+    | 'expired'
+    | 'not_yet_valid'
+    | 'invalid_nonce';
+
+/**
+ * Thrown when an ID token fails validation
+ */
+export class IDTokenValidationError extends Error {
+    readonly code: IDTokenErrorCode;
+
+    constructor(code: IDTokenErrorCode, message: string) {
+        super(message);
+        this.name = 'IDTokenValidationError';
+        this.code = code;
+    }
+}
+
+export const OIDC_DISCOVERY_PATH = '/.well-known/openid-configuration';
+
+/** Placeholder in multi-tenant issuers such as Microsoft's `common` endpoint */
+export const OIDC_TENANT_PLACEHOLDER = '{tenantid}';
+
+const SUPPORTED_ALGORITHMS: IDTokenAlgorithm[] = ['RS256', 'ES256'];
+
+const DEFAULT_JWKS_MAX_AGE = 60 * 60 * 1000;
+const DEFAULT_JWKS_REFRESH_COOLDOWN = 30 * 1000;
+const DEFAULT_CLOCK_TOLERANCE = 60;
+
+const KEY_PARAMS: Record<IDTokenAlgorithm, { kty: string; import: RsaHashedImportParams | EcKeyImportParams; verify: AlgorithmIdentifier | EcdsaParams }> = {
+    RS256: {
+        kty: 'RSA',
+        import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        verify: 'RSASSA-PKCS1-v1_5'
+    },
+    ES256: {
+        kty: 'EC',
+        import: { name: 'ECDSA', namedCurve: 'P-256' },
+        verify: { name: 'ECDSA', hash: 'SHA-256' }
+    }
+};
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+/**
+ * Fetches and checks an issuer's discovery document
+ *
+ * @throws Error if the document can't be fetched, names another issuer or
+ * lacks the endpoints the authorization code flow needs
+ */
+export async function discoverOIDCConfiguration(issuer: string, fetchFn: FetchLike = fetch): Promise<OIDCProviderMetadata> {
+    const expectedIssuer = trimTrailingSlash(issuer);
+    const response = await fetchFn(`${expectedIssuer}${OIDC_DISCOVERY_PATH}`, {
+        headers: { Accept: 'application/json' }
+    });
+    if (!response.ok) {
+        throw new Error(`OIDC discovery failed for ${expectedIssuer}: ${response.status} ${response.statusText}`);
+    }
+
+    const metadata = await response.json() as OIDCProviderMetadata;
+    const advertisedIssuer = trimTrailingSlash(String(metadata.issuer ?? ''));
+    if (advertisedIssuer !== expectedIssuer && !advertisedIssuer.includes(OIDC_TENANT_PLACEHOLDER)) {
+        throw new Error(`OIDC discovery for ${expectedIssuer} returned issuer ${advertisedIssuer}`);
+    }
+
+    const missing = (['authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const)
+        .filter(field => typeof metadata[field] !== 'string');
+    if (missing.length > 0) {
+        throw new Error(`OIDC discovery for ${expectedIssuer} is missing ${missing.join(', ')}`);
+    }
+
+    return metadata;
+}
+
+/**
+ * Caches an issuer's signing keys
+ *
+ * Keys are refetched once they are older than the response's max-age, or
+ * `maxAge` without one, and as soon as a token names a key id the cache
+ * doesn't know - that's how issuers roll keys over. Refetches for unknown
+ * key ids are rate limited so forged tokens can't hammer the issuer.
+ */
+export class JWKSCache implements JWKSource {
+    private keys: JWK[] = [];
+    private fetchedAt = 0;
+    private expiresAt = 0;
+    private pendingRefresh: Promise<void> | null = null;
+    private readonly fetchFn: FetchLike;
+    private readonly maxAge: number;
+    private readonly refreshCooldown: number;
+
+    constructor(private readonly jwksUri: string, options: JWKSCacheOptions = {}) {
+        this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+        this.maxAge = options.maxAge ?? DEFAULT_JWKS_MAX_AGE;
+        this.refreshCooldown = options.refreshCooldown ?? DEFAULT_JWKS_REFRESH_COOLDOWN;
+    }
+
+    /**
+     * Finds the key for a token, refetching the JWKS if it is stale or doesn't have it
+     *
+     * @throws IDTokenValidationError with code `unknown_key`
+     */
+    async getKey(kid: string | undefined, alg: IDTokenAlgorithm): Promise<JWK> {
+        if (Date.now() >= this.expiresAt) {
+            await this.refresh();
+        }
+
+        let key = this.findKey(kid, alg);
+        if (!key && Date.now() - this.fetchedAt >= this.refreshCooldown) {
+            await this.refresh();
+            key = this.findKey(kid, alg);
+        }
+
+        if (!key) {
+            throw new IDTokenValidationError('unknown_key', `No ${alg} signing key${kid ? ` with id ${kid}` : ''} in ${this.jwksUri}`);
+        }
+        return key;
+    }
+
+    /**
+     * Drops the cached keys
+     */
+    clear(): void {
+        this.keys = [];
+        this.fetchedAt = 0;
+        this.expiresAt = 0;
+    }
+
+    private findKey(kid: string | undefined, alg: IDTokenAlgorithm): JWK | undefined {
+        const candidates = this.keys.filter(key =>
+            key.kty === KEY_PARAMS[alg].kty
+            && (!key.alg || key.alg === alg)
+            && (!key.use || key.use === 'sig'));
+
+        if (kid !== undefined) {
+            return candidates.find(key => key.kid === kid);
+        }
+        // Without a kid the key is only unambiguous if there is one
+        return candidates.length === 1 ? candidates[0] : undefined;
+    }
+
+    private refresh(): Promise<void> {
+        // Tokens arriving together share one request
+        this.pendingRefresh ??= this.fetchKeys().finally(() => {
+            this.pendingRefresh = null;
+        });
+        return this.pendingRefresh;
+    }
+
+    private async fetchKeys(): Promise<void> {
+        const response = await this.fetchFn(this.jwksUri, { headers: { Accept: 'application/json' } });
+        if (!response.ok) {
+            throw new Error(`JWKS request failed: ${response.status} ${response.statusText}`);
+        }
+
+        const jwks = await response.json() as JWKSet;
+        if (!Array.isArray(jwks.keys)) {
+            throw new Error(`JWKS at ${this.jwksUri} has no keys array`);
+        }
+
+        const maxAgeMatch = /max-age=(\d+)/.exec(response.headers?.get('Cache-Control') ?? '');
+        this.keys = jwks.keys;
+        this.fetchedAt = Date.now();
+        this.expiresAt = this.fetchedAt + (maxAgeMatch ? Number(maxAgeMatch[1]) * 1000 : this.maxAge);
+    }
+}
+
+/**
+ * Splits a compact JWS and decodes its header and claims without verifying it
+ *
+ * @throws IDTokenValidationError with code `malformed`
+ */
+export function decodeJWT(token: string): DecodedJWT {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        throw new IDTokenValidationError('malformed', 'ID token is not a compact JWS');
+    }
+    const [encodedHeader, encodedClaims, encodedSignature] = parts as [string, string, string];
+
+    try {
+        const decoder = new TextDecoder();
+        const header = JSON.parse(decoder.decode(base64URLDecode(encodedHeader))) as DecodedJWT['header'];
+        const claims = JSON.parse(decoder.decode(base64URLDecode(encodedClaims))) as IDTokenClaims;
+        if (typeof header !== 'object' || header === null || typeof claims !== 'object' || claims === null) {
+            throw new Error('not an object');
+        }
+
+        return {
+            header,
+            claims,
+            signingInput: `${encodedHeader}.${encodedClaims}`,
+            signature: base64URLDecode(encodedSignature)
+        };
+    } catch (error) {
+        throw new IDTokenValidationError('malformed', `ID token could not be decoded: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+/**
+ * Verifies a decoded token's signature with a JWK
+ */
+export async function verifyJWTSignature(decoded: DecodedJWT, jwk: JWK, alg: IDTokenAlgorithm): Promise<boolean> {
+    const params = KEY_PARAMS[alg];
+    if (jwk.kty !== params.kty) {
+        return false;
+    }
+
+    const { kty, n, e, crv, x, y } = jwk;
+    const publicJwk: JsonWebKey = alg === 'RS256'
+        ? { kty, ...(n && { n }), ...(e && { e }) }
+        : { kty, ...(crv && { crv }), ...(x && { x }), ...(y && { y }) };
+    const key = await crypto.subtle.importKey('jwk', publicJwk, params.import, false, ['verify']);
+
+    // JWS ES256 signatures are raw r || s, which is what Web Crypto expects
+    return crypto.subtle.verify(params.verify, key, decoded.signature, new TextEncoder().encode(decoded.signingInput));
+}
+
+/**
+ * Validates an ID token per OpenID Connect Core 1.0 section 3.1.3.7
+ *
+ * @returns The token's claims
+ * @throws IDTokenValidationError naming the first check that failed
+ */
+export async function validateIDToken(
+    token: string,
+    keys: JWKSource,
+    options: IDTokenValidationOptions
+): Promise<IDTokenClaims> {
+    const decoded = decodeJWT(token);
+    const { header, claims } = decoded;
+
+    // Never let the token pick "none" or an HMAC algorithm keyed with a public key
+    const algorithms = options.algorithms ?? SUPPORTED_ALGORITHMS;
+    if (!algorithms.includes(header.alg as IDTokenAlgorithm)) {
+        throw new IDTokenValidationError('unsupported_alg', `ID token algorithm ${header.alg} is not accepted`);
+    }
+    const alg = header.alg as IDTokenAlgorithm;
+
+    const jwk = await keys.getKey(header.kid, alg);
+    if (!await verifyJWTSignature(decoded, jwk, alg)) {
+        throw new IDTokenValidationError('invalid_signature', 'ID token signature is invalid');
+    }
+
+    const expectedIssuer = trimTrailingSlash(options.issuer.includes(OIDC_TENANT_PLACEHOLDER) && typeof claims.tid === 'string'
+        ? options.issuer.replace(OIDC_TENANT_PLACEHOLDER, claims.tid)
+        : options.issuer);
+    if (typeof claims.iss !== 'string' || trimTrailingSlash(claims.iss) !== expectedIssuer) {
+        throw new IDTokenValidationError('invalid_issuer', `ID token issuer ${claims.iss} does not match ${expectedIssuer}`);
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.clientId)) {
+        throw new IDTokenValidationError('invalid_audience', 'ID token was not issued for this client');
+    }
+    if ((audiences.length > 1 || claims.azp !== undefined) && claims.azp !== options.clientId) {
+        throw new IDTokenValidationError('invalid_audience', 'ID token was authorized for another party');
+    }
+
+    const now = (options.now ?? Date.now()) / 1000;
+    const tolerance = options.clockTolerance ?? DEFAULT_CLOCK_TOLERANCE;
+    if (typeof claims.exp !== 'number' || now - tolerance >= claims.exp) {
+        throw new IDTokenValidationError('expired', 'ID token has expired');
+    }
+    if (typeof claims.iat !== 'number' || claims.iat > now + tolerance) {
+        throw new IDTokenValidationError('not_yet_valid', 'ID token was issued in the future');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf > now + tolerance) {
+        throw new IDTokenValidationError('not_yet_valid', 'ID token is not valid yet');
+    }
+
+    if (options.nonce && claims.nonce !== options.nonce) {
+        throw new IDTokenValidationError('invalid_nonce', 'ID token nonce does not match the authorization request');
+    }
+
+    return claims;
+}
+
+/**
+ * Maps validated ID token claims onto the domain user
+ *
+ * Unverified email addresses are left out; they don't prove the user owns them.
+ */
+export function mapIDTokenClaimsToUser(claims: IDTokenClaims): AuthUser {
+    const email = claims.email && claims.email_verified !== false ? claims.email : '';
+    const profile: NonNullable<AuthUser['profile']> = {
+        ...(claims.given_name && { firstName: claims.given_name }),
+        ...(claims.family_name && { lastName: claims.family_name }),
+        ...(claims.picture && { avatar: claims.picture })
+    };
+
+    return {
+        id: claims.sub,
+        email,
+        username: claims.preferred_username || email || claims.sub,
+        roles: Array.isArray(claims.roles) ? claims.roles.filter(role => typeof role === 'string') : [],
+        permissions: [],
+        ...(Object.keys(profile).length > 0 && { profile })
+    };
+}
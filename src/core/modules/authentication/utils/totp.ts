@@ -0,0 +1,241 @@
+/**
+ * TOTP Utilities
+ *
+ * RFC 4226 (HOTP) and RFC 6238 (TOTP) one-time passwords on top of the
+ * Web Crypto API, plus the base32 secrets and `otpauth://` key URIs that
+ * authenticator apps expect.
+ */
+
+export type TOTPAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+/**
+ * Parameters shared by code generation and verification
+ */
+export interface TOTPOptions {
+    /** Time step in seconds */
+    period: number;
+    /** Number of digits in a code */
+    digits: number;
+    /** HMAC hash algorithm */
+    algorithm: TOTPAlgorithm;
+}
+
+export interface TOTPVerifyOptions extends TOTPOptions {
+    /** Time steps accepted on either side of the current one to allow for clock drift */
+    window: number;
+    /** Last time step accepted for this enrollment; it and earlier steps are rejected as replays */
+    lastUsedTimeStep?: number | null;
+}
+
+export interface TOTPVerifyResult {
+    valid: boolean;
+    /** Time step the code matched, to be remembered as lastUsedTimeStep */
+    timeStep: number | null;
+    /** Whether the code matched a step that was already used */
+    replayed: boolean;
+}
+
+export interface OtpauthURIParams extends TOTPOptions {
+    issuer: string;
+    accountName: string;
+    /** Base32 encoded secret */
+    secret: string;
+}
+
+export const DEFAULT_TOTP_OPTIONS: TOTPOptions = {
+    period: 30,
+    digits: 6,
+    algorithm: 'SHA1'
+};
+
+/** Steps accepted on either side of the current one unless configured otherwise */
+export const DEFAULT_TOTP_WINDOW = 1;
+
+/** 160-bit secrets, the length RFC 4226 recommends */
+const SECRET_BYTES = 20;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const HMAC_HASHES: Record<TOTPAlgorithm, string> = {
+    SHA1: 'SHA-1',
+    SHA256: 'SHA-256',
+    SHA512: 'SHA-512'
+};
+
+/**
+ * Encodes bytes as unpadded RFC 4648 base32
+ */
+export function base32Encode(bytes: Uint8Array): string {
+    let output = '';
+    let buffer = 0;
+    let bits = 0;
+
+    for (const byte of bytes) {
+        buffer = (buffer << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+    }
+
+    return output;
+}
+
+/**
+ * Decodes RFC 4648 base32, ignoring case, spaces and padding as authenticator apps do
+ *
+ * @throws Error if the input contains characters outside the base32 alphabet
+ */
+export function base32Decode(input: string): Uint8Array<ArrayBuffer> {
+    const normalized = input.toUpperCase().replace(/[\s=]/g, '');
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+
+    for (const char of normalized) {
+        const value = BASE32_ALPHABET.indexOf(char);
+        if (value === -1) {
+            throw new Error(`Invalid base32 character: ${char}`);
+        }
+        buffer = (buffer << 5) | value;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((buffer >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return new Uint8Array(bytes);
+}
+
+/**
+ * Generates a random base32 secret from the platform's secure random source
+ */
+export function generateTOTPSecret(byteLength: number = SECRET_BYTES): string {
+    const bytes = new Uint8Array(byteLength);
+    crypto.getRandomValues(bytes);
+    return base32Encode(bytes);
+}
+
+/**
+ * Generates an RFC 4226 HOTP code for a counter value
+ */
+export async function generateHOTP(
+    key: Uint8Array<ArrayBuffer>,
+    counter: number,
+    options: Pick<TOTPOptions, 'digits' | 'algorithm'> = DEFAULT_TOTP_OPTIONS
+): Promise<string> {
+    const cryptoKey = await crypto.subtle.importKey(
+        'raw',
+        key,
+        { name: 'HMAC', hash: HMAC_HASHES[options.algorithm] },
+        false,
+        ['sign']
+    );
+
+    // 8-byte big-endian counter
+    const message = new ArrayBuffer(8);
+    const view = new DataView(message);
+    view.setUint32(0, Math.floor(counter / 2 ** 32));
+    view.setUint32(4, counter >>> 0);
+
+    const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, message));
+
+    // Dynamic truncation (RFC 4226 section 5.3)
+    const offset = hmac[hmac.length - 1]! & 0x0f;
+    const binary =
+        ((hmac[offset]! & 0x7f) << 24) |
+        (hmac[offset + 1]! << 16) |
+        (hmac[offset + 2]! << 8) |
+        hmac[offset + 3]!;
+
+    return (binary % 10 ** options.digits).toString().padStart(options.digits, '0');
+}
+
+/**
+ * Time step a timestamp falls into
+ */
+export function getTOTPTimeStep(timestamp: number, period: number = DEFAULT_TOTP_OPTIONS.period): number {
+    return Math.floor(timestamp / 1000 / period);
+}
+
+/**
+ * Generates the RFC 6238 TOTP code for a base32 secret at a point in time
+ */
+export async function generateTOTP(
+    secret: string,
+    options: TOTPOptions = DEFAULT_TOTP_OPTIONS,
+    timestamp: number = Date.now()
+): Promise<string> {
+    return generateHOTP(base32Decode(secret), getTOTPTimeStep(timestamp, options.period), options);
+}
+
+/**
+ * Checks a code against the current time step and `window` steps either side.
+ * Codes from a step at or before `lastUsedTimeStep` are rejected, so an
+ * accepted code cannot be used again.
+ */
+export async function verifyTOTP(
+    secret: string,
+    code: string,
+    options: TOTPVerifyOptions,
+    timestamp: number = Date.now()
+): Promise<TOTPVerifyResult> {
+    const normalized = code.replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${options.digits}}$`).test(normalized)) {
+        return { valid: false, timeStep: null, replayed: false };
+    }
+
+    const key = base32Decode(secret);
+    const currentStep = getTOTPTimeStep(timestamp, options.period);
+
+    for (let offset = -options.window; offset <= options.window; offset++) {
+        const timeStep = currentStep + offset;
+        if (timeStep < 0) continue;
+
+        const expected = await generateHOTP(key, timeStep, options);
+        if (!timingSafeEqual(expected, normalized)) continue;
+
+        if (options.lastUsedTimeStep != null && timeStep <= options.lastUsedTimeStep) {
+            return { valid: false, timeStep, replayed: true };
+        }
+        return { valid: true, timeStep, replayed: false };
+    }
+
+    return { valid: false, timeStep: null, replayed: false };
+}
+
+/**
+ * Builds a Key URI Format `otpauth://totp/...` URI, the format authenticator
+ * apps read from enrollment QR codes
+ */
+export function buildOtpauthURI(params: OtpauthURIParams): string {
+    const label = `${encodeURIComponent(params.issuer)}:${encodeURIComponent(params.accountName)}`;
+    // Encoded by hand: URLSearchParams writes spaces as '+', which some apps show literally
+    const query = Object.entries({
+        secret: params.secret.replace(/[\s=]/g, '').toUpperCase(),
+        issuer: params.issuer,
+        algorithm: params.algorithm,
+        digits: String(params.digits),
+        period: String(params.period)
+    })
+        .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+        .join('&');
+    return `otpauth://totp/${label}?${query}`;
+}
+
+/**
+ * Compares two strings in time independent of where they first differ
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return diff === 0;
+}
@@ -0,0 +1,713 @@
+/**
+ * WebAuthn Utilities
+ *
+ * Relying party side of the W3C Web Authentication ceremonies: building
+ * options for `navigator.credentials`, serializing the credentials it returns,
+ * and verifying them - client data, CBOR attestation objects, authenticator
+ * data flags and sign counters, COSE public keys and assertion signatures.
+ *
+ * Attestation statements are not evaluated: registration options ask for
+ * `none` attestation, so a credential is trusted by the ceremony that created
+ * it, not by the authenticator's make and model.
+ */
+
+import { decodeCBOR, decodeCBORPrefix } from './cbor';
+
+import type { CBORKey, CBORValue } from './cbor';
+
+export type WebAuthnCeremony = 'webauthn.create' | 'webauthn.get';
+
+/**
+ * Flags byte of the authenticator data
+ */
+export interface AuthenticatorFlags {
+    /** UP: the user touched or otherwise acknowledged the authenticator */
+    userPresent: boolean;
+    /** UV: the authenticator verified the user (PIN, fingerprint, face) */
+    userVerified: boolean;
+    /** BE: the credential may be synced to other devices (a multi-device passkey) */
+    backupEligible: boolean;
+    /** BS: the credential is currently backed up */
+    backedUp: boolean;
+    /** AT: attested credential data follows the sign counter */
+    attestedCredentialData: boolean;
+    /** ED: extension outputs follow */
+    extensionData: boolean;
+}
+
+export interface AttestedCredentialData {
+    /** Authenticator model identifier, all zeros when attestation is anonymized */
+    aaguid: string;
+    credentialId: Uint8Array;
+    /** COSE_Key encoded public key */
+    credentialPublicKey: Uint8Array;
+}
+
+export interface AuthenticatorData {
+    rpIdHash: Uint8Array;
+    flags: AuthenticatorFlags;
+    signCount: number;
+    attestedCredentialData?: AttestedCredentialData;
+    extensions?: CBORValue;
+}
+
+export interface CollectedClientData {
+    type: string;
+    challenge: string;
+    origin: string;
+    crossOrigin?: boolean;
+}
+
+export interface AttestationObject {
+    fmt: string;
+    attStmt: Map<CBORKey, CBORValue>;
+    authData: AuthenticatorData;
+}
+
+/**
+ * Public key fields of a COSE_Key (RFC 9053)
+ */
+export interface COSEPublicKey {
+    kty: number;
+    alg: number;
+    /** EC2 curve */
+    crv?: number;
+    /** EC2 coordinates */
+    x?: Uint8Array;
+    y?: Uint8Array;
+    /** RSA modulus and exponent */
+    n?: Uint8Array;
+    e?: Uint8Array;
+}
+
+/**
+ * Registration credential with binary fields base64url encoded, as in the
+ * WebAuthn Level 3 `toJSON()` format
+ */
+export interface RegistrationResponseJSON {
+    id: string;
+    rawId: string;
+    type: 'public-key';
+    authenticatorAttachment?: string | null;
+    response: {
+        clientDataJSON: string;
+        attestationObject: string;
+        transports?: string[];
+    };
+}
+
+/**
+ * Assertion credential with binary fields base64url encoded
+ */
+export interface AuthenticationResponseJSON {
+    id: string;
+    rawId: string;
+    type: 'public-key';
+    authenticatorAttachment?: string | null;
+    response: {
+        clientDataJSON: string;
+        authenticatorData: string;
+        signature: string;
+        userHandle?: string | null;
+    };
+}
+
+export interface WebAuthnExpectations {
+    /** Base64url challenge issued for the ceremony */
+    challenge: string;
+    /** Origin(s) the ceremony may run on */
+    origin: string | string[];
+    rpId: string;
+    requireUserVerification: boolean;
+}
+
+export interface VerifiedRegistration {
+    credentialId: string;
+    /** Base64url COSE_Key, to be stored and passed back for assertions */
+    publicKey: string;
+    algorithm: number;
+    signCount: number;
+    aaguid: string;
+    attestationFormat: string;
+    userVerified: boolean;
+    backupEligible: boolean;
+    backedUp: boolean;
+    transports: string[];
+}
+
+export interface StoredCredential {
+    publicKey: string;
+    signCount: number;
+}
+
+export interface VerifiedAuthentication {
+    credentialId: string;
+    signCount: number;
+    userVerified: boolean;
+    backedUp: boolean;
+    userHandle: string | null;
+}
+
+export interface RegistrationOptionsParams {
+    rpId: string;
+    rpName: string;
+    user: { id: Uint8Array<ArrayBuffer>; name: string; displayName: string };
+    challenge: string;
+    excludeCredentialIds?: string[];
+    authenticatorAttachment?: AuthenticatorAttachment;
+    residentKey: ResidentKeyRequirement;
+    userVerification: UserVerificationRequirement;
+    timeout: number;
+}
+
+export interface AuthenticationOptionsParams {
+    rpId: string;
+    challenge: string;
+    /** Credentials the user may pick from; omit for discoverable (passwordless) login */
+    allowCredentialIds?: string[];
+    userVerification: UserVerificationRequirement;
+    timeout: number;
+}
+
+/** COSE algorithm identifiers, in order of preference */
+export const COSE_ALGORITHMS = {
+    ES256: -7,
+    RS256: -257
+} as const;
+
+const SUPPORTED_ALGORITHMS: number[] = Object.values(COSE_ALGORITHMS);
+
+const COSE_KEY_TYPES = { EC2: 2, RSA: 3 } as const;
+const COSE_CURVE_P256 = 1;
+
+const FLAG_UP = 0x01;
+const FLAG_UV = 0x04;
+const FLAG_BE = 0x08;
+const FLAG_BS = 0x10;
+const FLAG_AT = 0x40;
+const FLAG_ED = 0x80;
+
+/** rpIdHash (32) + flags (1) + signCount (4) */
+const AUTH_DATA_MIN_LENGTH = 37;
+
+/** 256-bit challenges, twice the 16 bytes the specification requires */
+const CHALLENGE_BYTES = 32;
+
+/**
+ * Whether the browser can run WebAuthn ceremonies
+ */
+export function isWebAuthnSupported(): boolean {
+    return typeof window !== 'undefined'
+        && typeof window.PublicKeyCredential !== 'undefined'
+        && typeof navigator.credentials?.create === 'function';
+}
+
+/**
+ * Encodes bytes as unpadded base64url
+ */
+export function base64URLEncode(data: ArrayBuffer | ArrayBufferView): string {
+    let binary = '';
+    for (const byte of toBytes(data)) {
+        binary += String.fromCharCode(byte);
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes base64url with or without padding
+ *
+ * @throws Error if the input is not base64url
+ */
+export function base64URLDecode(value: string): Uint8Array<ArrayBuffer> {
+    const unpadded = value.replace(/=+$/, '');
+    if (!/^[A-Za-z0-9_-]*$/.test(unpadded)) {
+        throw new Error('Invalid base64url string');
+    }
+    const base64 = unpadded.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Generates a random base64url challenge
+ */
+export function generateWebAuthnChallenge(byteLength: number = CHALLENGE_BYTES): string {
+    const bytes = new Uint8Array(byteLength);
+    crypto.getRandomValues(bytes);
+    return base64URLEncode(bytes);
+}
+
+/**
+ * Builds the options for `navigator.credentials.create`
+ */
+export function createRegistrationOptions(params: RegistrationOptionsParams): PublicKeyCredentialCreationOptions {
+    const authenticatorSelection: AuthenticatorSelectionCriteria = {
+        residentKey: params.residentKey,
+        requireResidentKey: params.residentKey === 'required',
+        userVerification: params.userVerification
+    };
+    if (params.authenticatorAttachment) {
+        authenticatorSelection.authenticatorAttachment = params.authenticatorAttachment;
+    }
+
+    return {
+        rp: { id: params.rpId, name: params.rpName },
+        user: params.user,
+        challenge: base64URLDecode(params.challenge),
+        pubKeyCredParams: SUPPORTED_ALGORITHMS.map(alg => ({ type: 'public-key', alg })),
+        excludeCredentials: (params.excludeCredentialIds ?? []).map(toCredentialDescriptor),
+        authenticatorSelection,
+        attestation: 'none',
+        timeout: params.timeout
+    };
+}
+
+/**
+ * Builds the options for `navigator.credentials.get`
+ */
+export function createAuthenticationOptions(params: AuthenticationOptionsParams): PublicKeyCredentialRequestOptions {
+    return {
+        rpId: params.rpId,
+        challenge: base64URLDecode(params.challenge),
+        allowCredentials: (params.allowCredentialIds ?? []).map(toCredentialDescriptor),
+        userVerification: params.userVerification,
+        timeout: params.timeout
+    };
+}
+
+/**
+ * Runs the registration ceremony and returns the new credential
+ *
+ * @throws DOMException from the browser when the user cancels or the
+ * authenticator already holds a credential from `excludeCredentials`
+ */
+export async function createPasskey(
+    options: PublicKeyCredentialCreationOptions,
+    credentials: CredentialsContainer = navigator.credentials
+): Promise<RegistrationResponseJSON> {
+    const credential = await credentials.create({ publicKey: options }) as PublicKeyCredential | null;
+    if (!credential) {
+        throw new Error('No credential was created');
+    }
+
+    const response = credential.response as AuthenticatorAttestationResponse;
+    return {
+        id: credential.id,
+        rawId: base64URLEncode(credential.rawId),
+        type: 'public-key',
+        authenticatorAttachment: credential.authenticatorAttachment ?? null,
+        response: {
+            clientDataJSON: base64URLEncode(response.clientDataJSON),
+            attestationObject: base64URLEncode(response.attestationObject),
+            transports: typeof response.getTransports === 'function' ? response.getTransports() : []
+        }
+    };
+}
+
+/**
+ * Runs the authentication ceremony and returns the signed assertion
+ *
+ * @throws DOMException from the browser when the user cancels or times out
+ */
+export async function getPasskeyAssertion(
+    options: PublicKeyCredentialRequestOptions,
+    credentials: CredentialsContainer = navigator.credentials
+): Promise<AuthenticationResponseJSON> {
+    const credential = await credentials.get({ publicKey: options }) as PublicKeyCredential | null;
+    if (!credential) {
+        throw new Error('No credential was returned');
+    }
+
+    const response = credential.response as AuthenticatorAssertionResponse;
+    return {
+        id: credential.id,
+        rawId: base64URLEncode(credential.rawId),
+        type: 'public-key',
+        authenticatorAttachment: credential.authenticatorAttachment ?? null,
+        response: {
+            clientDataJSON: base64URLEncode(response.clientDataJSON),
+            authenticatorData: base64URLEncode(response.authenticatorData),
+            signature: base64URLEncode(response.signature),
+            userHandle: response.userHandle ? base64URLEncode(response.userHandle) : null
+        }
+    };
+}
+
+/**
+ * Parses clientDataJSON
+ *
+ * @throws Error if the JSON is malformed or misses required members
+ */
+export function parseClientDataJSON(bytes: Uint8Array): CollectedClientData {
+    let data: Partial<CollectedClientData>;
+    try {
+        data = JSON.parse(new TextDecoder().decode(bytes)) as Partial<CollectedClientData>;
+    } catch {
+        throw new Error('Invalid clientDataJSON');
+    }
+
+    if (typeof data.type !== 'string' || typeof data.challenge !== 'string' || typeof data.origin !== 'string') {
+        throw new Error('clientDataJSON is missing type, challenge or origin');
+    }
+    return data as CollectedClientData;
+}
+
+/**
+ * Parses authenticator data (WebAuthn section 6.1)
+ *
+ * @throws Error if the data is truncated or has trailing bytes
+ */
+export function parseAuthenticatorData(bytes: Uint8Array): AuthenticatorData {
+    if (bytes.length < AUTH_DATA_MIN_LENGTH) {
+        throw new Error('Authenticator data is too short');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const flagsByte = bytes[32]!;
+    const flags: AuthenticatorFlags = {
+        userPresent: (flagsByte & FLAG_UP) !== 0,
+        userVerified: (flagsByte & FLAG_UV) !== 0,
+        backupEligible: (flagsByte & FLAG_BE) !== 0,
+        backedUp: (flagsByte & FLAG_BS) !== 0,
+        attestedCredentialData: (flagsByte & FLAG_AT) !== 0,
+        extensionData: (flagsByte & FLAG_ED) !== 0
+    };
+
+    const authData: AuthenticatorData = {
+        rpIdHash: bytes.slice(0, 32),
+        flags,
+        signCount: view.getUint32(33)
+    };
+
+    let offset = AUTH_DATA_MIN_LENGTH;
+    if (flags.attestedCredentialData) {
+        // aaguid (16) + credentialIdLength (2)
+        if (bytes.length < offset + 18) {
+            throw new Error('Attested credential data is truncated');
+        }
+        const aaguid = bytes.slice(offset, offset + 16);
+        const idLength = view.getUint16(offset + 16);
+        offset += 18;
+        if (bytes.length < offset + idLength) {
+            throw new Error('Credential ID is truncated');
+        }
+        const credentialId = bytes.slice(offset, offset + idLength);
+        offset += idLength;
+
+        const { length } = decodeCBORPrefix(bytes.subarray(offset));
+        authData.attestedCredentialData = {
+            aaguid: formatAAGUID(aaguid),
+            credentialId,
+            credentialPublicKey: bytes.slice(offset, offset + length)
+        };
+        offset += length;
+    }
+
+    if (flags.extensionData) {
+        const { value, length } = decodeCBORPrefix(bytes.subarray(offset));
+        authData.extensions = value;
+        offset += length;
+    }
+
+    if (offset !== bytes.length) {
+        throw new Error('Authenticator data has trailing bytes');
+    }
+    return authData;
+}
+
+/**
+ * Parses a CBOR attestation object
+ *
+ * @throws Error if the object is malformed
+ */
+export function parseAttestationObject(bytes: Uint8Array): AttestationObject {
+    const decoded = decodeCBOR(bytes);
+    if (!(decoded instanceof Map)) {
+        throw new Error('Attestation object is not a CBOR map');
+    }
+
+    const fmt = decoded.get('fmt');
+    const attStmt = decoded.get('attStmt');
+    const authData = decoded.get('authData');
+    if (typeof fmt !== 'string' || !(attStmt instanceof Map) || !(authData instanceof Uint8Array)) {
+        throw new Error('Attestation object is missing fmt, attStmt or authData');
+    }
+
+    return { fmt, attStmt, authData: parseAuthenticatorData(authData) };
+}
+
+/**
+ * Parses the public key fields of a COSE_Key
+ *
+ * @throws Error if the key type, curve or algorithm is not supported
+ */
+export function parseCOSEKey(bytes: Uint8Array): COSEPublicKey {
+    const decoded = decodeCBOR(bytes);
+    if (!(decoded instanceof Map)) {
+        throw new Error('COSE key is not a CBOR map');
+    }
+
+    const kty = decoded.get(1);
+    const alg = decoded.get(3);
+    if (typeof kty !== 'number' || typeof alg !== 'number') {
+        throw new Error('COSE key is missing kty or alg');
+    }
+    if (!SUPPORTED_ALGORITHMS.includes(alg)) {
+        throw new Error(`Unsupported COSE algorithm: ${alg}`);
+    }
+
+    if (kty === COSE_KEY_TYPES.EC2 && alg === COSE_ALGORITHMS.ES256) {
+        const crv = decoded.get(-1);
+        const x = decoded.get(-2);
+        const y = decoded.get(-3);
+        if (crv !== COSE_CURVE_P256 || !(x instanceof Uint8Array) || !(y instanceof Uint8Array) || x.length !== 32 || y.length !== 32) {
+            throw new Error('Invalid P-256 COSE key');
+        }
+        return { kty, alg, crv, x, y };
+    }
+
+    if (kty === COSE_KEY_TYPES.RSA && alg === COSE_ALGORITHMS.RS256) {
+        const n = decoded.get(-1);
+        const e = decoded.get(-2);
+        if (!(n instanceof Uint8Array) || !(e instanceof Uint8Array)) {
+            throw new Error('Invalid RSA COSE key');
+        }
+        return { kty, alg, n, e };
+    }
+
+    throw new Error(`COSE key type ${kty} does not match algorithm ${alg}`);
+}
+
+/**
+ * Imports a COSE public key for signature verification
+ */
+export async function importCOSEPublicKey(key: COSEPublicKey): Promise<CryptoKey> {
+    if (key.alg === COSE_ALGORITHMS.ES256) {
+        const jwk: JsonWebKey = { kty: 'EC', crv: 'P-256', x: base64URLEncode(key.x!), y: base64URLEncode(key.y!), ext: true };
+        return crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    }
+
+    const jwk: JsonWebKey = { kty: 'RSA', alg: 'RS256', n: base64URLEncode(key.n!), e: base64URLEncode(key.e!), ext: true };
+    return crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+}
+
+/**
+ * Verifies a WebAuthn signature made with the key in a COSE_Key
+ */
+export async function verifyCOSESignature(
+    coseKey: Uint8Array,
+    signature: Uint8Array,
+    data: Uint8Array<ArrayBuffer>
+): Promise<boolean> {
+    const key = parseCOSEKey(coseKey);
+    const cryptoKey = await importCOSEPublicKey(key);
+
+    if (key.alg === COSE_ALGORITHMS.ES256) {
+        // Authenticators sign ECDSA in ASN.1 DER; Web Crypto expects r || s
+        let raw: Uint8Array<ArrayBuffer>;
+        try {
+            raw = derToRawSignature(signature, 32);
+        } catch {
+            return false;
+        }
+        return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, cryptoKey, raw, data);
+    }
+    return crypto.subtle.verify('RSASSA-PKCS1-v1_5', cryptoKey, Uint8Array.from(signature), data);
+}
+
+/**
+ * Converts an ASN.1 DER `Ecdsa-Sig-Value` into the fixed-size `r || s` form
+ *
+ * @throws Error if the signature is not a DER sequence of two integers
+ */
+export function derToRawSignature(der: Uint8Array, componentLength: number): Uint8Array<ArrayBuffer> {
+    const fail = (): never => {
+        throw new Error('Invalid DER signature');
+    };
+
+    let offset = 0;
+    if (der[offset++] !== 0x30) fail();
+    const sequenceLength = der[offset++] ?? fail();
+    if (sequenceLength !== der.length - 2) fail();
+
+    const raw = new Uint8Array(componentLength * 2);
+    for (let i = 0; i < 2; i++) {
+        if (der[offset++] !== 0x02) fail();
+        const length = der[offset++] ?? fail();
+        let integer = der.subarray(offset, offset + length);
+        if (integer.length !== length) fail();
+        offset += length;
+
+        // Drop the sign padding byte and any leading zeros
+        while (integer.length > componentLength && integer[0] === 0) {
+            integer = integer.subarray(1);
+        }
+        if (integer.length > componentLength) fail();
+        raw.set(integer, componentLength * (i + 1) - integer.length);
+    }
+
+    if (offset !== der.length) fail();
+    return raw;
+}
+
+/**
+ * Verifies a registration ceremony response (WebAuthn section 7.1)
+ *
+ * @throws Error describing the first check that failed
+ */
+export async function verifyRegistrationResponse(
+    response: RegistrationResponseJSON,
+    expected: WebAuthnExpectations
+): Promise<VerifiedRegistration> {
+    if (response.type !== 'public-key' || response.id !== response.rawId) {
+        throw new Error('Credential is not a public key credential');
+    }
+
+    const clientDataBytes = base64URLDecode(response.response.clientDataJSON);
+    verifyClientData(parseClientDataJSON(clientDataBytes), 'webauthn.create', expected);
+
+    const { fmt, attStmt, authData } = parseAttestationObject(base64URLDecode(response.response.attestationObject));
+    await verifyAuthenticatorData(authData, expected);
+
+    const attested = authData.attestedCredentialData;
+    if (!attested) {
+        throw new Error('Registration is missing attested credential data');
+    }
+    if (base64URLEncode(attested.credentialId) !== response.rawId) {
+        throw new Error('Credential ID does not match the attested credential');
+    }
+    if (fmt === 'none' && attStmt.size > 0) {
+        throw new Error('"none" attestation must have an empty statement');
+    }
+
+    const coseKey = parseCOSEKey(attested.credentialPublicKey);
+    // Fail now rather than at first sign-in if the key cannot be used
+    await importCOSEPublicKey(coseKey);
+
+    return {
+        credentialId: response.rawId,
+        publicKey: base64URLEncode(attested.credentialPublicKey),
+        algorithm: coseKey.alg,
+        signCount: authData.signCount,
+        aaguid: attested.aaguid,
+        attestationFormat: fmt,
+        userVerified: authData.flags.userVerified,
+        backupEligible: authData.flags.backupEligible,
+        backedUp: authData.flags.backedUp,
+        transports: response.response.transports ?? []
+    };
+}
+
+/**
+ * Verifies an authentication ceremony response (WebAuthn section 7.2)
+ * against the stored credential. A sign counter that does not increase
+ * means the authenticator may have been cloned, and fails verification.
+ *
+ * @throws Error describing the first check that failed
+ */
+export async function verifyAuthenticationResponse(
+    response: AuthenticationResponseJSON,
+    expected: WebAuthnExpectations,
+    credential: StoredCredential
+): Promise<VerifiedAuthentication> {
+    if (response.type !== 'public-key' || response.id !== response.rawId) {
+        throw new Error('Credential is not a public key credential');
+    }
+
+    const clientDataBytes = base64URLDecode(response.response.clientDataJSON);
+    verifyClientData(parseClientDataJSON(clientDataBytes), 'webauthn.get', expected);
+
+    const authDataBytes = base64URLDecode(response.response.authenticatorData);
+    const authData = parseAuthenticatorData(authDataBytes);
+    await verifyAuthenticatorData(authData, expected);
+
+    const clientDataHash = await sha256(clientDataBytes);
+    const signedData = new Uint8Array(authDataBytes.length + clientDataHash.length);
+    signedData.set(authDataBytes);
+    signedData.set(clientDataHash, authDataBytes.length);
+
+    const validSignature = await verifyCOSESignature(
+        base64URLDecode(credential.publicKey),
+        base64URLDecode(response.response.signature),
+        signedData
+    );
+    if (!validSignature) {
+        throw new Error('Assertion signature is invalid');
+    }
+
+    // Authenticators without a counter always report 0
+    if ((authData.signCount > 0 || credential.signCount > 0) && authData.signCount <= credential.signCount) {
+        throw new Error('Sign counter did not increase; the authenticator may have been cloned');
+    }
+
+    return {
+        credentialId: response.rawId,
+        signCount: authData.signCount,
+        userVerified: authData.flags.userVerified,
+        backedUp: authData.flags.backedUp,
+        userHandle: response.response.userHandle ?? null
+    };
+}
+
+function verifyClientData(clientData: CollectedClientData, type: WebAuthnCeremony, expected: WebAuthnExpectations): void {
+    if (clientData.type !== type) {
+        throw new Error(`Unexpected ceremony type: ${clientData.type}`);
+    }
+    if (clientData.challenge !== expected.challenge) {
+        throw new Error('Challenge does not match');
+    }
+    const origins = Array.isArray(expected.origin) ? expected.origin : [expected.origin];
+    if (!origins.includes(clientData.origin)) {
+        throw new Error(`Unexpected origin: ${clientData.origin}`);
+    }
+    if (clientData.crossOrigin) {
+        throw new Error('Cross-origin ceremonies are not allowed');
+    }
+}
+
+async function verifyAuthenticatorData(authData: AuthenticatorData, expected: WebAuthnExpectations): Promise<void> {
+    const expectedHash = await sha256(new TextEncoder().encode(expected.rpId));
+    if (!bytesEqual(authData.rpIdHash, expectedHash)) {
+        throw new Error('Relying party ID hash does not match');
+    }
+    if (!authData.flags.userPresent) {
+        throw new Error('User presence was not confirmed');
+    }
+    if (expected.requireUserVerification && !authData.flags.userVerified) {
+        throw new Error('User verification was required but not performed');
+    }
+    if (authData.flags.backedUp && !authData.flags.backupEligible) {
+        throw new Error('Credential reports a backup but is not backup eligible');
+    }
+}
+
+async function sha256(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+function toCredentialDescriptor(id: string): PublicKeyCredentialDescriptor {
+    return { type: 'public-key', id: base64URLDecode(id) };
+}
+
+function toBytes(data: ArrayBuffer | ArrayBufferView): Uint8Array {
+    return ArrayBuffer.isView(data)
+        ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+        : new Uint8Array(data);
+}
+
+function formatAAGUID(bytes: Uint8Array): string {
+    const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Compares two byte arrays in time independent of where they first differ
+ */
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a[i]! ^ b[i]!;
+    }
+    return diff === 0;
+}
@@ -0,0 +1,289 @@
+/**
+ * IndexedDB Cache Storage Tests
+ *
+ * Tests the persistent IndexedDBCacheStorage against fake-indexeddb to ensure
+ * entries, TTL and metadata survive a reload, the size quota is enforced and
+ * outdated entries are migrated.
+ */
+
+import { jest } from '@jest/globals';
+import { IDBFactory } from 'fake-indexeddb';
+
+import { IndexedDBCacheStorage } from '../storage/IndexedDBCacheStorage';
+import type { IndexedDBCacheStorageOptions } from '../storage/IndexedDBCacheStorage';
+import { CacheProvider } from '../providers/CacheProvider';
+import { CacheServiceManager } from '../providers/CacheServiceManager';
+import { CacheStatistics } from '../storage/CacheStatistics';
+import { LRUEvictionStrategy } from '../strategies/CacheEvictionStrategy';
+import { CacheCleanupManager } from '../strategies/CacheCleanupManager';
+import type { CacheEntry } from '../types/interfaces';
+
+const createEntry = <T>(data: T, overrides: Partial<CacheEntry<T>> = {}): CacheEntry<T> => ({
+    data,
+    timestamp: Date.now(),
+    ttl: 60000,
+    accessCount: 1,
+    lastAccessed: Date.now(),
+    ...overrides
+});
+
+describe('IndexedDBCacheStorage', () => {
+    let factory: IDBFactory;
+    const openStorages: IndexedDBCacheStorage[] = [];
+
+    const openStorage = async (options: Partial<IndexedDBCacheStorageOptions> = {}) => {
+        const storage = new IndexedDBCacheStorage({ storeName: 'feed', indexedDB: factory, ...options });
+        openStorages.push(storage);
+        await storage.ready();
+        return storage;
+    };
+
+    /** Closes the current storage and reopens the same database, simulating a reload. */
+    const reload = async (storage: IndexedDBCacheStorage, options: Partial<IndexedDBCacheStorageOptions> = {}) => {
+        await storage.close();
+        return openStorage(options);
+    };
+
+    beforeEach(() => {
+        factory = new IDBFactory();
+    });
+
+    afterEach(async () => {
+        await Promise.all(openStorages.splice(0).map(storage => storage.close()));
+    });
+
+    describe('Basic Storage Operations', () => {
+        test('should store and retrieve entries synchronously', async () => {
+            const storage = await openStorage();
+            const entry = createEntry({ id: 1 });
+
+            storage.set('post:1', entry);
+
+            expect(storage.get('post:1')).toEqual(entry);
+            expect(storage.has('post:1')).toBe(true);
+            expect(storage.size()).toBe(1);
+            expect(storage.keys()).toEqual(['post:1']);
+        });
+
+        test('should delete and clear entries', async () => {
+            const storage = await openStorage();
+            storage.set('a', createEntry('a'));
+            storage.set('b', createEntry('b'));
+
+            expect(storage.delete('a')).toBe(true);
+            expect(storage.delete('missing')).toBe(false);
+
+            storage.clear();
+            expect(storage.size()).toBe(0);
+            expect(storage.getSizeInBytes()).toBe(0);
+        });
+    });
+
+    describe('Persistence', () => {
+        test('should restore entries with metadata after reload', async () => {
+            const storage = await openStorage();
+            const entry = createEntry({ id: 1, text: 'hello' }, { accessCount: 4, ttl: 120000 });
+            storage.set('post:1', entry);
+
+            const reloaded = await reload(storage);
+
+            expect(reloaded.get('post:1')).toEqual(entry);
+        });
+
+        test('should persist deletes and clears', async () => {
+            const storage = await openStorage();
+            storage.set('a', createEntry('a'));
+            storage.set('b', createEntry('b'));
+            storage.delete('a');
+
+            let reloaded = await reload(storage);
+            expect(reloaded.keys()).toEqual(['b']);
+
+            reloaded.clear();
+            reloaded = await reload(reloaded);
+            expect(reloaded.size()).toBe(0);
+        });
+
+        test('should persist access metadata updated in memory on close', async () => {
+            const storage = await openStorage();
+            storage.set('a', createEntry('a'));
+
+            const entry = storage.get<string>('a')!;
+            entry.accessCount = 7;
+            entry.lastAccessed = 12345;
+
+            const reloaded = await reload(storage);
+
+            expect(reloaded.get('a')).toMatchObject({ accessCount: 7, lastAccessed: 12345 });
+        });
+
+        test('should drop entries whose TTL expired between sessions', async () => {
+            const storage = await openStorage();
+            storage.set('fresh', createEntry('fresh'));
+            storage.set('stale', createEntry('stale', { timestamp: Date.now() - 10000, ttl: 5000 }));
+
+            const reloaded = await reload(storage);
+
+            expect(reloaded.keys()).toEqual(['fresh']);
+        });
+
+        test('should keep databases of different stores apart', async () => {
+            const feed = await openStorage({ storeName: 'feed' });
+            const chat = await openStorage({ storeName: 'chat' });
+            feed.set('key', createEntry('feed'));
+            chat.set('key', createEntry('chat'));
+            await Promise.all([feed.flush(), chat.flush()]);
+
+            const reloadedFeed = await reload(feed, { storeName: 'feed' });
+
+            expect(reloadedFeed.get('key')?.data).toBe('feed');
+        });
+
+        test('should not let hydration overwrite writes made before it finished', async () => {
+            const storage = await openStorage();
+            storage.set('a', createEntry('old'));
+            storage.set('b', createEntry('b'));
+            await storage.close();
+
+            const reloaded = new IndexedDBCacheStorage({ storeName: 'feed', indexedDB: factory });
+            openStorages.push(reloaded);
+            reloaded.set('a', createEntry('new'));
+            reloaded.delete('b');
+            await reloaded.ready();
+
+            expect(reloaded.get('a')?.data).toBe('new');
+            expect(reloaded.has('b')).toBe(false);
+        });
+    });
+
+    describe('Quota', () => {
+        test('should evict least recently accessed entries when over quota', async () => {
+            const onEvict = jest.fn();
+            const storage = await openStorage({ maxBytes: 400, onEvict });
+            const payload = 'x'.repeat(100);
+
+            storage.set('oldest', createEntry(payload, { lastAccessed: 1 }));
+            storage.set('middle', createEntry(payload, { lastAccessed: 2 }));
+            storage.set('newest', createEntry(payload, { lastAccessed: 3 }));
+
+            expect(storage.getSizeInBytes()).toBeLessThanOrEqual(400);
+            expect(storage.has('oldest')).toBe(false);
+            expect(storage.has('newest')).toBe(true);
+            expect(onEvict).toHaveBeenCalledWith('oldest', payload);
+
+            const reloaded = await reload(storage, { maxBytes: 400 });
+            expect(reloaded.has('oldest')).toBe(false);
+        });
+
+        test('should reject a single entry larger than the quota', async () => {
+            const storage = await openStorage({ maxBytes: 50 });
+
+            expect(() => storage.set('big', createEntry('x'.repeat(100)))).toThrow(/exceeds the storage quota/);
+            expect(storage.has('big')).toBe(false);
+        });
+    });
+
+    describe('Versioning', () => {
+        test('should migrate entries persisted with an older schema version', async () => {
+            const storage = await openStorage({ schemaVersion: 1 });
+            storage.set('user:1', createEntry({ name: 'Ada Lovelace' }));
+
+            const reloaded = await reload(storage, {
+                schemaVersion: 2,
+                migrations: [{
+                    fromVersion: 1,
+                    migrate: (entry) => {
+                        const old = entry as CacheEntry<{ name: string }>;
+                        const [firstName, lastName] = old.data.name.split(' ');
+                        return { ...old, data: { firstName, lastName } };
+                    }
+                }]
+            });
+
+            expect(reloaded.get('user:1')?.data).toEqual({ firstName: 'Ada', lastName: 'Lovelace' });
+
+            const again = await reload(reloaded, { schemaVersion: 2 });
+            expect(again.get('user:1')?.data).toEqual({ firstName: 'Ada', lastName: 'Lovelace' });
+        });
+
+        test('should drop entries without a migration path', async () => {
+            const storage = await openStorage({ schemaVersion: 1 });
+            storage.set('user:1', createEntry({ name: 'Ada' }));
+
+            const reloaded = await reload(storage, { schemaVersion: 3 });
+
+            expect(reloaded.size()).toBe(0);
+        });
+    });
+
+    describe('Integration with CacheProvider', () => {
+        const createProvider = (storage: IndexedDBCacheStorage, maxSize = 1000) => new CacheProvider(
+            storage,
+            new CacheStatistics(),
+            new LRUEvictionStrategy(),
+            new CacheCleanupManager(),
+            { maxSize, cleanupInterval: 0 }
+        );
+
+        test('should serve persisted data and record statistics after reload', async () => {
+            const storage = await openStorage();
+            const provider = createProvider(storage);
+            await provider.set('feed:page:0', [{ id: 1 }]);
+            await provider.dispose();
+
+            const reloadedProvider = createProvider(await openStorage());
+
+            await expect(reloadedProvider.get('feed:page:0')).resolves.toEqual([{ id: 1 }]);
+            await expect(reloadedProvider.get('feed:page:1')).resolves.toBeNull();
+            expect(reloadedProvider.getStats()).toMatchObject({ hits: 1, misses: 1, size: 1 });
+            await reloadedProvider.dispose();
+        });
+
+        test('should apply LRU eviction on top of persistent storage', async () => {
+            let now = Date.now();
+            jest.spyOn(Date, 'now').mockImplementation(() => (now += 10));
+            const storage = await openStorage();
+            const provider = createProvider(storage, 2);
+
+            await provider.set('a', 1);
+            await provider.set('b', 2);
+            await provider.get('a');
+            await provider.set('c', 3);
+            await storage.flush();
+
+            expect(storage.keys().sort()).toEqual(['a', 'c']);
+            expect(provider.getStats().evictions).toBe(1);
+            await provider.dispose();
+            jest.restoreAllMocks();
+        });
+    });
+
+    describe('Integration with CacheServiceManager', () => {
+        test('should select the storage backend per feature', async () => {
+            const manager = new CacheServiceManager({
+                defaultCache: { cleanupInterval: 0 },
+                featureStorage: { feed: 'indexedDB' },
+                persistence: { indexedDB: factory }
+            });
+            jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+
+            await manager.whenReady('feed');
+            await manager.getCache('feed').set('page', [1, 2]);
+            await manager.getCache('search').set('query', 'x');
+            await manager.getCache('feed').dispose();
+            manager.dispose();
+
+            const reopened = new CacheServiceManager({
+                defaultCache: { cleanupInterval: 0 },
+                featureStorage: { feed: 'indexedDB' },
+                persistence: { indexedDB: factory }
+            });
+            await reopened.whenReady('feed');
+            await reopened.whenReady('search');
+
+            await expect(reopened.getCache('feed').get('page')).resolves.toEqual([1, 2]);
+            await expect(reopened.getCache('search').get('query')).resolves.toBeNull();
+            reopened.dispose();
+        });
+    });
+});
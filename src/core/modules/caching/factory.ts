@@ -12,6 +12,7 @@ import { TYPES } from '../dependency-injection/types';
 import { CacheProvider } from './providers/CacheProvider';
 import { CacheServiceManager } from './providers/CacheServiceManager';
 import { CacheStorage } from './storage/CacheStorage';
+import { IndexedDBCacheStorage, isIndexedDBAvailable } from './storage/IndexedDBCacheStorage';
 import { CacheStatistics } from './storage/CacheStatistics';
 import { LRUEvictionStrategy } from './strategies/CacheEvictionStrategy';
 import { CacheCleanupManager } from './strategies/CacheCleanupManager';
@@ -21,7 +22,8 @@ import type {
     ICacheServiceManager,
     CacheConfig,
     CacheServiceConfig,
-    CacheEvents
+    CacheEvents,
+    PersistentCacheOptions
 } from './types/interfaces';
 import type { Container } from '../dependency-injection/container/Container';
 
@@ -52,6 +54,41 @@ export function createCacheProvider(
     );
 }
 
+/**
+ * Creates a cache provider whose entries are persisted in IndexedDB.
+ * Falls back to in-memory storage when IndexedDB is unavailable.
+ *
+ * @param storeName - Name of the persistent store, usually the feature name
+ * @param config - Cache configuration options
+ * @param events - Optional cache event handlers
+ * @param persistence - Optional IndexedDB storage options
+ * @returns Configured cache provider instance
+ */
+export function createPersistentCacheProvider(
+    storeName: string,
+    config?: Partial<CacheConfig>,
+    events?: CacheEvents,
+    persistence: PersistentCacheOptions = {}
+): ICacheProvider {
+    const storage = isIndexedDBAvailable(persistence.indexedDB)
+        ? new IndexedDBCacheStorage({
+            ...persistence,
+            storeName,
+            onEvict: (key, data) => events?.onEvict?.(key, data),
+            onError: (error, operation, key) => events?.onError?.(error, operation, key)
+        })
+        : new CacheStorage();
+
+    return new CacheProvider(
+        storage,
+        new CacheStatistics(),
+        new LRUEvictionStrategy(),
+        new CacheCleanupManager(),
+        config,
+        events
+    );
+}
+
 /**
  * Creates a cache service manager with the specified configuration.
  *
@@ -13,7 +13,10 @@ export type {
     CacheConfig,
     CacheStats,
     CacheEvents,
-    CacheServiceConfig
+    CacheServiceConfig,
+    CacheStorageType,
+    CacheEntryMigration,
+    PersistentCacheOptions
 } from './types/interfaces';
 
 // Factory functions - Clean service creation
@@ -24,6 +27,7 @@ export {
     createCacheServiceManagerFromDI,
     createDefaultCacheProvider,
     createDefaultCacheServiceManager,
+    createPersistentCacheProvider,
     DEFAULT_CACHE_CONFIG
 } from './factory';
 
@@ -35,5 +39,6 @@ export {
     CACHE_KEY_PREFIXES,
     CACHE_ERROR_CODES,
     CACHE_EVENTS,
-    FEATURE_CACHE_CONFIGS
+    FEATURE_CACHE_CONFIGS,
+    PERSISTENT_CACHE_DEFAULTS
 } from './types/constants';
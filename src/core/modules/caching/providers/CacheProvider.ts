@@ -316,9 +316,16 @@ export class CacheProvider {
 
   /**
    * Disposes the cache provider and cleans up resources.
+   * Persistent storages are closed instead of cleared so their entries survive.
    */
   async dispose(): Promise<void> {
     this.cleanupManager.stopCleanup();
+
+    if (this.storage.close) {
+      await this.storage.close();
+      return;
+    }
+
     await this.clear();
   }
 
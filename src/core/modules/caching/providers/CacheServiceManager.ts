@@ -6,21 +6,14 @@
  */
 
 import { CacheProvider } from './CacheProvider';
-import { CacheStorage } from '../storage/CacheStorage';
+import { CacheStorage, type ICacheStorage } from '../storage/CacheStorage';
+import { IndexedDBCacheStorage, isIndexedDBAvailable } from '../storage/IndexedDBCacheStorage';
 import { CacheStatistics } from '../storage/CacheStatistics';
 import { LRUEvictionStrategy } from '../strategies/CacheEvictionStrategy';
 import { CacheCleanupManager } from '../strategies/CacheCleanupManager';
-import type { CacheConfig, CacheEvents } from '../types/interfaces';
+import type { CacheEvents, CacheServiceConfig } from '../types/interfaces';
 
-/**
- * Configuration for cache service manager.
- */
-export interface CacheServiceConfig {
-  /** Default configuration for all feature caches */
-  defaultCache?: Partial<CacheConfig>;
-  /** Feature-specific cache configurations */
-  featureCaches?: Record<string, Partial<CacheConfig>>;
-}
+export type { CacheServiceConfig } from '../types/interfaces';
 
 /**
  * Cache service manager implementation.
@@ -28,6 +21,7 @@ export interface CacheServiceConfig {
  */
 export class CacheServiceManager {
   private readonly caches = new Map<string, CacheProvider>();
+  private readonly storages = new Map<string, IndexedDBCacheStorage>();
   private readonly globalConfig: CacheServiceConfig;
 
   /**
@@ -58,7 +52,7 @@ export class CacheServiceManager {
       };
 
       const cache = new CacheProvider(
-        new CacheStorage(),
+        this.createStorage(featureName, events),
         new CacheStatistics(),
         new LRUEvictionStrategy(),
         new CacheCleanupManager(),
@@ -71,6 +65,16 @@ export class CacheServiceManager {
     return this.caches.get(featureName)!;
   }
 
+  /**
+   * Waits until persisted entries of a feature cache have been loaded.
+   * Resolves immediately for in-memory caches.
+   * @param featureName - Name of the feature/cache instance
+   */
+  async whenReady(featureName: string): Promise<void> {
+    this.getCache(featureName);
+    await this.storages.get(featureName)?.ready();
+  }
+
   /**
    * Invalidates all cache entries for a specific feature.
    * @param featureName - Name of the feature to invalidate
@@ -120,5 +124,33 @@ export class CacheServiceManager {
       cache.dispose();
     }
     this.caches.clear();
+    this.storages.clear();
+  }
+
+  /**
+   * Creates the storage backend configured for a feature.
+   * Falls back to memory storage when IndexedDB is unavailable.
+   * @param featureName - Name of the feature/cache instance
+   * @param events - Event handlers of the feature cache
+   * @returns Storage for the feature cache
+   */
+  private createStorage(featureName: string, events: CacheEvents): ICacheStorage {
+    const storageType = this.globalConfig.featureStorage?.[featureName]
+      ?? this.globalConfig.defaultStorage
+      ?? 'memory';
+    const persistence = this.globalConfig.persistence ?? {};
+
+    if (storageType !== 'indexedDB' || !isIndexedDBAvailable(persistence.indexedDB)) {
+      return new CacheStorage();
+    }
+
+    const storage = new IndexedDBCacheStorage({
+      ...persistence,
+      storeName: featureName,
+      onEvict: (key, data) => events.onEvict?.(key, data),
+      onError: (error, operation, key) => events.onError?.(error, operation, key)
+    });
+    this.storages.set(featureName, storage);
+    return storage;
   }
 }
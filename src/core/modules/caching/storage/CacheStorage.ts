@@ -62,6 +62,12 @@ export interface ICacheStorage {
      * @returns Array of [key, entry] tuples
      */
     entries(): Array<[string, CacheEntry<unknown>]>;
+
+    /**
+     * Releases resources held by the storage without deleting persisted entries.
+     * Only implemented by persistent storages.
+     */
+    close?(): Promise<void>;
 }
 
 /**
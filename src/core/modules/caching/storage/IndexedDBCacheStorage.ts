@@ -0,0 +1,470 @@
+/**
+ * IndexedDB Cache Storage Component
+ *
+ * Persistent storage backend for cache entries.
+ * Keeps a synchronous in-memory mirror so it satisfies ICacheStorage,
+ * and writes every change through to IndexedDB so entries survive reloads.
+ */
+
+import { CACHE_ERROR_CODES, PERSISTENT_CACHE_DEFAULTS } from '../types/constants';
+
+import type { ICacheStorage } from './CacheStorage';
+import type { CacheEntry, PersistentCacheOptions } from '../types/interfaces';
+
+/**
+ * Options for the IndexedDB cache storage.
+ */
+export interface IndexedDBCacheStorageOptions extends PersistentCacheOptions {
+    /** Store name, usually the feature name of the owning cache */
+    storeName: string;
+    /** Called when an entry is dropped to stay within the size quota */
+    onEvict?: (key: string, data: unknown) => void;
+    /** Called when a background IndexedDB operation fails */
+    onError?: (error: Error, operation: string, key?: string) => void;
+}
+
+/**
+ * Shape of a record persisted in the object store.
+ */
+interface PersistedCacheRecord {
+    key: string;
+    version: number;
+    size: number;
+    entry: CacheEntry<unknown>;
+}
+
+/**
+ * Storage options with defaults applied.
+ */
+type ResolvedStorageOptions = Required<Omit<IndexedDBCacheStorageOptions, 'indexedDB' | 'onEvict' | 'onError'>> & {
+    onEvict: IndexedDBCacheStorageOptions['onEvict'] | undefined;
+    onError: IndexedDBCacheStorageOptions['onError'] | undefined;
+};
+
+const OBJECT_STORE_NAME = 'entries';
+const DATABASE_VERSION = 1;
+
+/**
+ * Checks whether IndexedDB is available in the current environment.
+ * @param factory - Optional IndexedDB factory to check instead of the global one
+ * @returns True if IndexedDB can be used
+ */
+export function isIndexedDBAvailable(factory?: IDBFactory): boolean {
+    return Boolean(factory ?? (typeof indexedDB !== 'undefined' ? indexedDB : undefined));
+}
+
+/**
+ * Wraps an IDBRequest in a promise.
+ * @param request - Request to wrap
+ * @returns Promise resolving to the request result
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+}
+
+/**
+ * Creates an error tagged with a cache error code.
+ * @param code - Cache error code
+ * @param message - Error message
+ * @returns Error instance
+ */
+function createStorageError(code: string, message: string): Error {
+    const error = new Error(message);
+    error.name = code;
+    return error;
+}
+
+/**
+ * IndexedDB-backed cache storage.
+ * Reads are served from memory; writes are queued and applied to IndexedDB in order.
+ * Call `ready()` to wait for persisted entries to be loaded, and `flush()` to wait
+ * for pending writes.
+ */
+export class IndexedDBCacheStorage implements ICacheStorage {
+    private readonly cache = new Map<string, CacheEntry<unknown>>();
+    private readonly sizes = new Map<string, number>();
+    private readonly persistedAccessCounts = new Map<string, number>();
+    private readonly deletedBeforeHydration = new Set<string>();
+    private readonly options: ResolvedStorageOptions;
+    private readonly factory: IDBFactory;
+    private readonly hydration: Promise<void>;
+    private db: IDBDatabase | null = null;
+    private queue: Promise<void>;
+    private hydrated = false;
+    private clearedBeforeHydration = false;
+    private closed = false;
+    private totalBytes = 0;
+
+    /**
+     * Creates a new IndexedDB cache storage and starts loading persisted entries.
+     * @param options - Storage options
+     */
+    constructor(options: IndexedDBCacheStorageOptions) {
+        const factory = options.indexedDB ?? (typeof indexedDB !== 'undefined' ? indexedDB : undefined);
+        if (!factory) {
+            throw createStorageError(CACHE_ERROR_CODES.STORAGE_ERROR, 'IndexedDB is not available');
+        }
+
+        this.factory = factory;
+        this.options = {
+            storeName: options.storeName,
+            dbNamePrefix: options.dbNamePrefix ?? PERSISTENT_CACHE_DEFAULTS.DB_NAME_PREFIX,
+            maxBytes: options.maxBytes ?? PERSISTENT_CACHE_DEFAULTS.MAX_BYTES,
+            schemaVersion: options.schemaVersion ?? PERSISTENT_CACHE_DEFAULTS.SCHEMA_VERSION,
+            migrations: options.migrations ?? [],
+            onEvict: options.onEvict,
+            onError: options.onError
+        };
+
+        this.hydration = this.openDatabase()
+            .then(() => this.hydrate())
+            .catch((error: Error) => this.reportError(error, 'hydrate'))
+            .finally(() => {
+                this.hydrated = true;
+                this.deletedBeforeHydration.clear();
+            });
+        this.queue = this.hydration;
+    }
+
+    /**
+     * Gets the IndexedDB database name used by this storage.
+     * @returns Database name
+     */
+    get databaseName(): string {
+        return `${this.options.dbNamePrefix}:${this.options.storeName}`;
+    }
+
+    /**
+     * Waits until persisted entries have been loaded into memory.
+     */
+    async ready(): Promise<void> {
+        await this.hydration;
+    }
+
+    /**
+     * Waits until all queued writes have been applied to IndexedDB.
+     */
+    async flush(): Promise<void> {
+        await this.queue;
+    }
+
+    /**
+     * Gets the approximate serialized size of all stored entries.
+     * @returns Size in bytes
+     */
+    getSizeInBytes(): number {
+        return this.totalBytes;
+    }
+
+    /**
+     * Retrieves a cache entry by key.
+     * @param key - The cache key to retrieve
+     * @returns Cache entry or null if not found
+     */
+    get<T>(key: string): CacheEntry<T> | null {
+        const entry = this.cache.get(key);
+        return entry ? entry as CacheEntry<T> : null;
+    }
+
+    /**
+     * Stores a cache entry and queues it for persistence.
+     * Entries that cannot be serialized are kept in memory only.
+     * @param key - The cache key to store under
+     * @param entry - The cache entry to store
+     */
+    set<T>(key: string, entry: CacheEntry<T>): void {
+        const size = this.measure(entry);
+        if (size === null) {
+            this.reportError(
+                createStorageError(CACHE_ERROR_CODES.SERIALIZATION_ERROR, `Cache entry "${key}" is not serializable`),
+                'set',
+                key
+            );
+            this.removeFromMemory(key);
+            this.cache.set(key, entry as CacheEntry<unknown>);
+            this.enqueue('delete', key, store => store.delete(key));
+            return;
+        }
+
+        if (size > this.options.maxBytes) {
+            throw createStorageError(
+                CACHE_ERROR_CODES.CACHE_FULL,
+                `Cache entry "${key}" (${size} bytes) exceeds the storage quota of ${this.options.maxBytes} bytes`
+            );
+        }
+
+        this.removeFromMemory(key);
+        this.cache.set(key, entry as CacheEntry<unknown>);
+        this.sizes.set(key, size);
+        this.totalBytes += size;
+        this.deletedBeforeHydration.delete(key);
+
+        const record: PersistedCacheRecord = {
+            key,
+            version: this.options.schemaVersion,
+            size,
+            entry: entry as CacheEntry<unknown>
+        };
+        this.persistedAccessCounts.set(key, entry.accessCount);
+        this.enqueue('set', key, store => store.put(record));
+        this.enforceQuota(key);
+    }
+
+    /**
+     * Removes a cache entry from memory and IndexedDB.
+     * @param key - The cache key to remove
+     * @returns True if entry was removed, false if not found
+     */
+    delete(key: string): boolean {
+        if (!this.hydrated) {
+            this.deletedBeforeHydration.add(key);
+        }
+
+        const existed = this.removeFromMemory(key);
+        this.enqueue('delete', key, store => store.delete(key));
+        return existed;
+    }
+
+    /**
+     * Clears all cache entries from memory and IndexedDB.
+     */
+    clear(): void {
+        if (!this.hydrated) {
+            this.clearedBeforeHydration = true;
+        }
+
+        this.cache.clear();
+        this.sizes.clear();
+        this.persistedAccessCounts.clear();
+        this.totalBytes = 0;
+        this.enqueue('clear', undefined, store => store.clear());
+    }
+
+    /**
+     * Checks if a cache entry exists.
+     * @param key - The cache key to check
+     * @returns True if entry exists
+     */
+    has(key: string): boolean {
+        return this.cache.has(key);
+    }
+
+    /**
+     * Gets the number of cache entries.
+     * @returns Current cache size
+     */
+    size(): number {
+        return this.cache.size;
+    }
+
+    /**
+     * Gets all cache keys.
+     * @returns Array of all cache keys
+     */
+    keys(): string[] {
+        return Array.from(this.cache.keys());
+    }
+
+    /**
+     * Gets all cache entries as key-value pairs.
+     * @returns Array of [key, entry] tuples
+     */
+    entries(): [string, CacheEntry<unknown>][] {
+        return Array.from(this.cache.entries());
+    }
+
+    /**
+     * Persists access metadata changed since the last write, waits for pending
+     * writes and closes the database. Persisted entries are kept.
+     */
+    async close(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+
+        for (const [key, entry] of this.cache) {
+            const size = this.sizes.get(key);
+            if (size !== undefined && this.persistedAccessCounts.get(key) !== entry.accessCount) {
+                const record: PersistedCacheRecord = { key, version: this.options.schemaVersion, size, entry };
+                this.persistedAccessCounts.set(key, entry.accessCount);
+                this.enqueue('set', key, store => store.put(record));
+            }
+        }
+
+        await this.flush();
+        this.closed = true;
+        this.db?.close();
+        this.db = null;
+        this.cache.clear();
+        this.sizes.clear();
+        this.persistedAccessCounts.clear();
+        this.totalBytes = 0;
+    }
+
+    /**
+     * Opens the database, creating the object store on first use.
+     */
+    private async openDatabase(): Promise<void> {
+        const request = this.factory.open(this.databaseName, DATABASE_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(OBJECT_STORE_NAME)) {
+                db.createObjectStore(OBJECT_STORE_NAME, { keyPath: 'key' });
+            }
+        };
+        this.db = await promisifyRequest(request);
+        this.db.onversionchange = () => {
+            this.db?.close();
+            this.db = null;
+        };
+    }
+
+    /**
+     * Loads persisted entries into memory, migrating or dropping outdated and expired ones.
+     */
+    private async hydrate(): Promise<void> {
+        if (!this.db) {
+            return;
+        }
+
+        const transaction = this.db.transaction(OBJECT_STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(OBJECT_STORE_NAME);
+        const records = await promisifyRequest(store.getAll()) as PersistedCacheRecord[];
+        const now = Date.now();
+
+        for (const record of records) {
+            const entry = this.upgrade(record);
+
+            if (!entry || entry.ttl <= 0 || now - entry.timestamp > entry.ttl) {
+                store.delete(record.key);
+                continue;
+            }
+
+            if (record.version !== this.options.schemaVersion) {
+                store.put({ ...record, version: this.options.schemaVersion, entry });
+            }
+
+            if (this.clearedBeforeHydration || this.deletedBeforeHydration.has(record.key) || this.cache.has(record.key)) {
+                continue;
+            }
+
+            const size = this.measure(entry) ?? record.size;
+            this.cache.set(record.key, entry);
+            this.sizes.set(record.key, size);
+            this.persistedAccessCounts.set(record.key, entry.accessCount);
+            this.totalBytes += size;
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+            transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+        });
+
+        this.enforceQuota();
+    }
+
+    /**
+     * Runs migrations on a persisted record until it reaches the current schema version.
+     * @param record - Persisted record
+     * @returns Upgraded entry or null if it cannot be upgraded
+     */
+    private upgrade(record: PersistedCacheRecord): CacheEntry<unknown> | null {
+        let version = record.version;
+        let entry: CacheEntry<unknown> | null = record.entry;
+
+        while (entry && version < this.options.schemaVersion) {
+            const migration = this.options.migrations.find(candidate => candidate.fromVersion === version);
+            if (!migration) {
+                return null;
+            }
+            entry = migration.migrate(entry);
+            version++;
+        }
+
+        return version === this.options.schemaVersion ? entry : null;
+    }
+
+    /**
+     * Evicts least recently accessed entries until the storage fits its quota.
+     * @param protectedKey - Key that must not be evicted (the entry just written)
+     */
+    private enforceQuota(protectedKey?: string): void {
+        if (this.totalBytes <= this.options.maxBytes) {
+            return;
+        }
+
+        const candidates = this.entries()
+            .filter(([key]) => key !== protectedKey)
+            .sort(([, a], [, b]) => a.lastAccessed - b.lastAccessed);
+
+        for (const [key, entry] of candidates) {
+            if (this.totalBytes <= this.options.maxBytes) {
+                break;
+            }
+            this.removeFromMemory(key);
+            this.enqueue('evict', key, store => store.delete(key));
+            this.options.onEvict?.(key, entry.data);
+        }
+    }
+
+    /**
+     * Removes an entry from the in-memory mirror and updates size bookkeeping.
+     * @param key - Key to remove
+     * @returns True if the entry existed
+     */
+    private removeFromMemory(key: string): boolean {
+        const size = this.sizes.get(key);
+        if (size !== undefined) {
+            this.totalBytes -= size;
+            this.sizes.delete(key);
+        }
+        this.persistedAccessCounts.delete(key);
+        return this.cache.delete(key);
+    }
+
+    /**
+     * Estimates the serialized size of an entry.
+     * @param entry - Entry to measure
+     * @returns Size in bytes, or null if the entry cannot be serialized
+     */
+    private measure(entry: CacheEntry<unknown>): number | null {
+        try {
+            const json = JSON.stringify(entry);
+            return json === undefined ? null : new TextEncoder().encode(json).length;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Queues a write against the object store.
+     * @param operation - Operation name for error reporting
+     * @param key - Affected key, if any
+     * @param write - Function issuing the request
+     */
+    private enqueue(operation: string, key: string | undefined, write: (store: IDBObjectStore) => IDBRequest): void {
+        this.queue = this.queue
+            .then(async () => {
+                if (!this.db || this.closed) {
+                    return;
+                }
+                const store = this.db.transaction(OBJECT_STORE_NAME, 'readwrite').objectStore(OBJECT_STORE_NAME);
+                await promisifyRequest(write(store));
+            })
+            .catch((error: Error) => this.reportError(error, operation, key));
+    }
+
+    /**
+     * Reports a storage error through the configured handler.
+     * @param error - Error to report
+     * @param operation - Operation that failed
+     * @param key - Affected key, if any
+     */
+    private reportError(error: Error, operation: string, key?: string): void {
+        this.options.onError?.(error, operation, key);
+    }
+}
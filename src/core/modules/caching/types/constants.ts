@@ -164,6 +164,13 @@ export const CACHE_STORAGE_TYPES = {
     REDIS: 'redis'
 } as const;
 
+// Persistent (IndexedDB) cache defaults
+export const PERSISTENT_CACHE_DEFAULTS = {
+    DB_NAME_PREFIX: 'quietspace-cache',
+    MAX_BYTES: 5 * 1024 * 1024,  // 5 MB per feature store
+    SCHEMA_VERSION: 1           // Bump when the persisted CacheEntry shape changes
+} as const;
+
 // Cache serialization formats
 export const CACHE_SERIALIZATION_FORMATS = {
     JSON: 'json',
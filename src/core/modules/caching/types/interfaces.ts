@@ -191,6 +191,41 @@ export interface CacheEvents {
     onError?: (error: Error, operation: string, key?: string) => void;
 }
 
+/**
+ * Storage backend used by a cache instance.
+ * `memory` is lost on reload; `indexedDB` persists entries across sessions.
+ */
+export type CacheStorageType = 'memory' | 'indexedDB';
+
+/**
+ * Upgrades a persisted cache entry from one schema version to the next.
+ */
+export interface CacheEntryMigration {
+    /** Schema version this migration upgrades from */
+    fromVersion: number;
+    /**
+     * Transforms an entry stored at `fromVersion` into the `fromVersion + 1` shape.
+     * Returning null drops the entry.
+     */
+    migrate: (entry: unknown) => CacheEntry<unknown> | null;
+}
+
+/**
+ * Options for the persistent IndexedDB storage backend.
+ */
+export interface PersistentCacheOptions {
+    /** Database name prefix; each feature gets its own database */
+    dbNamePrefix?: string;
+    /** Maximum serialized size of a feature's persisted entries in bytes */
+    maxBytes?: number;
+    /** Current cache entry schema version */
+    schemaVersion?: number;
+    /** Migrations for entries persisted with an older schema version */
+    migrations?: CacheEntryMigration[];
+    /** IndexedDB factory, defaults to the global indexedDB */
+    indexedDB?: IDBFactory;
+}
+
 /**
  * Configuration for cache service manager.
  */
@@ -199,4 +234,10 @@ export interface CacheServiceConfig {
     defaultCache?: Partial<CacheConfig>;
     /** Feature-specific cache configurations */
     featureCaches?: Record<string, Partial<CacheConfig>>;
+    /** Default storage backend for all feature caches (defaults to memory) */
+    defaultStorage?: CacheStorageType;
+    /** Feature-specific storage backends */
+    featureStorage?: Record<string, CacheStorageType>;
+    /** Options for features using the IndexedDB backend */
+    persistence?: PersistentCacheOptions;
 }
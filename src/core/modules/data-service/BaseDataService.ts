@@ -12,7 +12,8 @@ import {
   UpdateStrategy,
   WebSocketManager,
   QueryExecutor,
-  DataStateManager
+  DataStateManager,
+  getRootEntity
 } from './services';
 
 import type {
@@ -30,7 +31,10 @@ import type {
   ICacheManager,
   IUpdateStrategy,
   IWebSocketManager,
-  IQueryExecutor
+  IQueryExecutor,
+  EntityDefinition,
+  EntityShape,
+  EntityUpdate
 } from './services';
 import type { ICacheProvider } from '@/core/cache';
 import type { Container } from '@/core/modules/dependency-injection/container/Container';
@@ -108,13 +112,18 @@ export abstract class BaseDataService implements IBaseDataService {
       cacheStrategy = 'USER_CONTENT',
       websocketTopics = [],
       updateStrategy = 'merge',
+      entities,
       ...queryOptions
     } = options;
 
     const cacheConfig = this.CACHE_CONFIG[cacheStrategy];
 
     // Set up WebSocket listeners for real-time updates
-    this.setupWebSocketListeners(key, websocketTopics, updateStrategy);
+    if (entities) {
+      this.setupEntityListeners(key, websocketTopics, entities);
+    } else {
+      this.setupWebSocketListeners(key, websocketTopics, updateStrategy);
+    }
 
     /**
    * Execute a query with intelligent caching and WebSocket integration
@@ -133,13 +142,18 @@ export abstract class BaseDataService implements IBaseDataService {
       cacheStrategy = 'USER_CONTENT',
       websocketTopics = [],
       updateStrategy = 'merge',
+      entities,
       ...queryOptions
     } = options;
 
     const cacheConfig = this.CACHE_CONFIG[cacheStrategy];
 
     // Set up WebSocket listeners for real-time updates
-    this.setupWebSocketListeners(key, websocketTopics, updateStrategy);
+    if (entities) {
+      this.setupEntityListeners(key, websocketTopics, entities);
+    } else {
+      this.setupWebSocketListeners(key, websocketTopics, updateStrategy);
+    }
 
     // Execute query with optimal cache configuration and performance monitoring
     return withPerformanceTiming(
@@ -151,7 +165,8 @@ export abstract class BaseDataService implements IBaseDataService {
       },
       {
         ...cacheConfig,
-        ...queryOptions
+        ...queryOptions,
+        ...(entities ? { normalizer: this.cacheManager.getEntityStore().forQuery(entities) } : {})
       }
     );
   }
@@ -243,6 +258,28 @@ export abstract class BaseDataService implements IBaseDataService {
     );
   }
 
+  /**
+   * Set up WebSocket listeners updating the entities of a normalized query
+   * Delegates to WebSocketManager service
+   */
+  protected setupEntityListeners(
+    queryKey: string | string[],
+    topics: string[],
+    shape: EntityShape
+  ) {
+    const definition = getRootEntity(shape);
+    if (!definition || topics.length === 0) return;
+
+    const cacheKey = Array.isArray(queryKey) ? queryKey.join(':') : queryKey;
+
+    this.webSocketManager.setupEntityListeners(
+      cacheKey,
+      topics,
+      definition,
+      this.cacheManager.getEntityStore()
+    );
+  }
+
   /**
    * Handle WebSocket message and update cache accordingly
    * Delegates to WebSocketManager service
@@ -316,6 +353,39 @@ export abstract class BaseDataService implements IBaseDataService {
     this.webSocketManager.cleanup(cacheKey, topics);
   }
 
+  /**
+   * Update an entity in every query that references it
+   * Returns a rollback, so it can back performOptimisticUpdate
+   */
+  protected updateEntity<T>(definition: EntityDefinition<T>, id: string | number, update: EntityUpdate<T>): () => void {
+    return this.cacheManager.getEntityStore().updateEntity(definition, id, update);
+  }
+
+  /**
+   * Remove an entity from every query that references it
+   */
+  protected removeEntity<T>(definition: EntityDefinition<T>, id: string | number) {
+    this.cacheManager.getEntityStore().removeEntity(definition, id);
+  }
+
+  /**
+   * Cache a result as references to its entities
+   * Delegates to the EntityStore shared through CacheManager
+   */
+  protected cacheEntities<T>(key: string | string[], data: T, shape: EntityShape, ttl?: number) {
+    const cacheKey = Array.isArray(key) ? key.join(':') : key;
+    this.cacheManager.getEntityStore().writeQuery(cacheKey, data, shape, ttl || this.CACHE_CONFIG.USER_CONTENT.cacheTime);
+  }
+
+  /**
+   * Get a result cached with cacheEntities, with its entities' current state
+   * Delegates to the EntityStore shared through CacheManager
+   */
+  protected getCachedEntities<T>(key: string | string[], shape: EntityShape): Promise<T | undefined> {
+    const cacheKey = Array.isArray(key) ? key.join(':') : key;
+    return this.cacheManager.getEntityStore().readQuery<T>(cacheKey, shape);
+  }
+
   /**
    * Manually invalidate cache entries
    * Delegates to CacheManager service
@@ -0,0 +1,179 @@
+/**
+ * Entity Store Tests
+ *
+ * Tests normalization of query results into shared entities, propagation of
+ * entity updates to every query referencing them and schema validation.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { z } from 'zod';
+
+import { createCacheProvider } from '@/core/modules/caching';
+import type { ICacheProvider } from '@/core/modules/caching';
+
+let cache: ICacheProvider;
+const warn = jest.fn();
+
+jest.unstable_mockModule('@/core/modules/dependency-injection', () => ({
+  useDIContainer: () => ({ getByToken: () => cache })
+}));
+
+jest.unstable_mockModule('@/core/modules/logging', () => ({
+  getLogger: () => ({ info: jest.fn(), warn, error: jest.fn(), debug: jest.fn() })
+}));
+
+const { EntityStore, defineEntity } = await import('../services/EntityStore');
+const { useCustomQuery } = await import('@/core/hooks/query/useCustomQuery');
+const { queryRegistry } = await import('@/core/hooks/query/queryRegistry');
+
+const USER = defineEntity('user', {
+  schema: z.object({ id: z.union([z.string(), z.number()]), username: z.string() })
+});
+const POST = defineEntity('post', {
+  schema: z.object({ id: z.union([z.string(), z.number()]), text: z.string(), likeCount: z.number() })
+});
+const CHAT = defineEntity('chat', {
+  schema: z.object({ id: z.string(), members: z.array(z.any()) }),
+  relations: { members: [USER] }
+});
+
+const PAGE_SHAPE = { content: [POST] };
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('EntityStore', () => {
+  let store: InstanceType<typeof EntityStore>;
+
+  beforeEach(() => {
+    cache = createCacheProvider({ cleanupInterval: 0 });
+    store = new EntityStore(cache);
+    queryRegistry.reset();
+  });
+
+  it('stores query results as references to shared entities', async () => {
+    const page = { content: [{ id: 1, text: 'hello', likeCount: 0 }], last: true };
+
+    const stored = store.normalize('feed:page:0', page, PAGE_SHAPE);
+
+    expect(stored).toEqual({ content: [{ entityType: 'post', id: 1 }], last: true });
+    expect(store.getEntity(POST, 1)).toEqual({ id: 1, text: 'hello', likeCount: 0 });
+    await expect(store.denormalize('feed:page:0', stored, PAGE_SHAPE)).resolves.toEqual(page);
+  });
+
+  it('publishes entity updates to every query referencing the entity', async () => {
+    const post = { id: 1, text: 'hello', likeCount: 0 };
+    store.normalize('feed:page:0', { content: [post] }, PAGE_SHAPE);
+    store.normalize('post:1', post, POST);
+    const feedListener = jest.fn();
+    const postListener = jest.fn();
+    queryRegistry.subscribe('feed:page:0', feedListener);
+    queryRegistry.subscribe('post:1', postListener);
+
+    const rollback = store.updateEntity(POST, 1, { likeCount: 1 });
+    await flush();
+
+    expect(feedListener).toHaveBeenLastCalledWith({ content: [{ ...post, likeCount: 1 }] }, expect.any(Number));
+    expect(postListener).toHaveBeenLastCalledWith({ ...post, likeCount: 1 }, expect.any(Number));
+
+    rollback();
+    await flush();
+    expect(postListener).toHaveBeenLastCalledWith(post, expect.any(Number));
+  });
+
+  it('updates other queries when one query receives newer data', async () => {
+    store.normalize('feed:page:0', { content: [{ id: 1, text: 'hello', likeCount: 0 }] }, PAGE_SHAPE);
+    const feedListener = jest.fn();
+    queryRegistry.subscribe('feed:page:0', feedListener);
+
+    store.normalize('post:1', { id: 1, text: 'hello', likeCount: 3 }, POST);
+    store.normalize('post:1', { id: 1, text: 'hello', likeCount: 3 }, POST);
+    await flush();
+
+    expect(feedListener).toHaveBeenCalledTimes(1);
+    expect(feedListener).toHaveBeenCalledWith({ content: [{ id: 1, text: 'hello', likeCount: 3 }] }, expect.any(Number));
+  });
+
+  it('keeps entities that do not match their schema inline', () => {
+    const stored = store.normalize('post:2', { id: 2, text: 'no counts' }, POST);
+
+    expect(stored).toEqual({ id: 2, text: 'no counts' });
+    expect(store.getEntity(POST, 2)).toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.anything(), '[EntityStore] post:2 does not match its schema, keeping it inline');
+  });
+
+  it('caches query results written by data services as references', async () => {
+    const page = { content: [{ id: 1, text: 'hello', likeCount: 0 }] };
+
+    store.writeQuery('search:posts', page, PAGE_SHAPE);
+    await flush();
+    store.updateEntity(POST, 1, { likeCount: 2 });
+
+    await expect(cache.get('search:posts')).resolves.toEqual({ content: [{ entityType: 'post', id: 1 }] });
+    await expect(store.readQuery('search:posts', PAGE_SHAPE)).resolves.toEqual({ content: [{ id: 1, text: 'hello', likeCount: 2 }] });
+    await expect(store.readQuery('search:users', PAGE_SHAPE)).resolves.toBeUndefined();
+  });
+
+  it('drops removed entities from lists', async () => {
+    const stored = store.normalize('feed:page:0', {
+      content: [{ id: 1, text: 'a', likeCount: 0 }, { id: 2, text: 'b', likeCount: 0 }]
+    }, PAGE_SHAPE);
+
+    store.removeEntity(POST, 1);
+
+    await expect(store.denormalize('feed:page:0', stored, PAGE_SHAPE)).resolves.toEqual({
+      content: [{ id: 2, text: 'b', likeCount: 0 }]
+    });
+  });
+
+  it('normalizes nested entities and restores them from the cache after a reload', async () => {
+    const chat = { id: 'c1', members: [{ id: 'u1', username: 'ada' }] };
+    const stored = store.normalize('chat:c1', chat, CHAT);
+    await flush();
+
+    expect(stored).toEqual({ entityType: 'chat', id: 'c1' });
+    expect(store.getEntity(CHAT, 'c1')).toEqual({ id: 'c1', members: [{ entityType: 'user', id: 'u1' }] });
+    expect(store.getEntity(USER, 'u1')).toEqual({ id: 'u1', username: 'ada' });
+
+    const reloaded = new EntityStore(cache);
+    await expect(reloaded.denormalize('chat:c1', stored, CHAT)).resolves.toEqual(chat);
+  });
+
+  it('merges WebSocket payloads into known entities', async () => {
+    store.normalize('post:1', { id: 1, text: 'hello', likeCount: 0 }, POST);
+    const listener = jest.fn();
+    queryRegistry.subscribe('post:1', listener);
+
+    store.mergeEntity(POST, { id: 1, likeCount: 7 });
+    await flush();
+
+    expect(listener).toHaveBeenCalledWith({ id: 1, text: 'hello', likeCount: 7 }, expect.any(Number));
+  });
+
+  it('shows an entity update in every useCustomQuery view at once', async () => {
+    const normalizer = store.forQuery(PAGE_SHAPE);
+    const postNormalizer = store.forQuery(POST);
+    const post = { id: 1, text: 'hello', likeCount: 0 };
+
+    const feed = renderHook(() => useCustomQuery('feed:page:0', async () => ({ content: [post] }), {
+      normalizer,
+      refetchOnMount: false
+    }));
+    const detail = renderHook(() => useCustomQuery('post:1', async () => post, {
+      normalizer: postNormalizer,
+      refetchOnMount: false
+    }));
+
+    await waitFor(() => expect(feed.result.current.isSuccess).toBe(true));
+    await waitFor(() => expect(detail.result.current.isSuccess).toBe(true));
+    await expect(cache.get('feed:page:0')).resolves.toEqual({ content: [{ entityType: 'post', id: 1 }] });
+
+    await act(async () => {
+      store.updateEntity(POST, 1, { likeCount: 1 });
+      await flush();
+    });
+
+    expect(feed.result.current.data?.content[0]?.likeCount).toBe(1);
+    expect(detail.result.current.data?.likeCount).toBe(1);
+  });
+});
@@ -22,6 +22,11 @@ export type {
 
 export type {
   ICacheManager,
+  IEntityStore,
+  EntityDefinition,
+  EntityShape,
+  EntityRef,
+  EntityUpdate,
   IUpdateStrategy,
   IWebSocketManager,
   IQueryExecutor
@@ -45,9 +50,14 @@ export {
   UpdateStrategy,
   WebSocketManager,
   QueryExecutor,
-  DataStateManager
+  DataStateManager,
+  EntityStore,
+  getEntityStore
 } from './services';
 
+// Entity definitions - Normalized entities shared across queries
+export { defineEntity } from './services';
+
 // Base class for extension
 export { BaseDataService } from './BaseDataService';
 
@@ -78,6 +88,7 @@ export const DATA_SERVICE_INFO = {
     'Real-time WebSocket integration',
     'Optimistic updates with rollback',
     'Intelligent cache invalidation',
+    'Normalized entity store',
     'Multiple cache strategies',
     'Dependency injection support',
     'TypeScript support',
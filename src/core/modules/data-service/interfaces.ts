@@ -10,6 +10,7 @@ import type { InfiniteQueryOptions } from '@/core/hooks/query';
 import type { MutationOptions } from '@/core/hooks/query';
 import type { QueryOptions } from '@/core/hooks/query';
 import type { IWebSocketService } from '@/core/websocket/types';
+import type { EntityShape } from './services/IEntityStore';
 
 /**
  * Data state interface for tracking operation status
@@ -174,6 +175,11 @@ export interface IDataServiceQueryOptions<T> extends QueryOptions<T> {
   cacheStrategy?: keyof ICacheConfig;
   websocketTopics?: string[];
   updateStrategy?: WebSocketUpdateStrategy;
+  /**
+   * Where entities are found in the result; the cache then holds references
+   * and WebSocket messages on websocketTopics update the entities
+   */
+  entities?: EntityShape;
 }
 
 /**
@@ -4,11 +4,18 @@
  * Implements cache operations with intelligent key management
  */
 
+import { getEntityStore } from './EntityStore';
+
 import type { ICacheManager } from './ICacheManager';
+import type { IEntityStore } from './IEntityStore';
 import type { ICacheProvider } from '@/core/cache';
 
 export class CacheManager implements ICacheManager {
-  constructor(private readonly cache: ICacheProvider) {}
+  private readonly entityStore: IEntityStore;
+
+  constructor(private readonly cache: ICacheProvider) {
+    this.entityStore = getEntityStore(cache);
+  }
 
   get<T>(key: string): T | undefined {
     return this.cache.get<T>(key);
@@ -46,4 +53,8 @@ export class CacheManager implements ICacheManager {
 
     return sortedParams ? `${base}:${sortedParams}` : base;
   }
+
+  getEntityStore(): IEntityStore {
+    return this.entityStore;
+  }
 }
@@ -0,0 +1,394 @@
+/**
+ * Entity Store Implementation
+ *
+ * Keeps one copy of every entity (post, user, message, ...) and stores query
+ * results as references to it, so an update to an entity reaches every query
+ * that contains it. Entities are validated with their zod schema and mirrored
+ * into the cache provider so normalized results survive a reload.
+ */
+
+import { DataServiceConfig } from '../config/DataServiceConfig';
+
+import type {
+  EntityDefinition,
+  EntityRef,
+  EntityShape,
+  EntityUpdate,
+  IEntityStore
+} from './IEntityStore';
+import type { QueryNormalizer } from '@/core/hooks/query/useCustomQuery';
+import type { ICacheProvider } from '@/core/modules/caching';
+import type { ZodType } from 'zod';
+
+import { queryRegistry, replaceEqualDeep } from '@/core/hooks/query/queryRegistry';
+import { getLogger } from '@/core/modules/logging';
+import type { ILoggingContext } from '@/core/modules/logging';
+
+type EntityRecord = Record<string, unknown>;
+
+const LOG_CONTEXT: ILoggingContext = { component: 'EntityStore' };
+
+interface TrackedQuery {
+  stored: unknown;
+  shape: EntityShape;
+}
+
+/**
+ * Define an entity type for normalization
+ *
+ * @param name Entity type name, used in references and cache keys
+ * @param options Schema validating the entity, id attribute and nested entities
+ */
+export function defineEntity<T>(
+  name: string,
+  options: {
+    schema: ZodType<T>;
+    idAttribute?: string;
+    relations?: Record<string, EntityShape>;
+  }
+): EntityDefinition<T> {
+  return {
+    kind: 'entity',
+    name,
+    schema: options.schema,
+    idAttribute: options.idAttribute ?? 'id',
+    relations: options.relations ?? {}
+  };
+}
+
+function isEntityDefinition(shape: EntityShape): shape is EntityDefinition {
+  return (shape as { kind?: unknown }).kind === 'entity';
+}
+
+function isListShape(shape: EntityShape): shape is readonly EntityShape[] {
+  return Array.isArray(shape);
+}
+
+/**
+ * Get the entity at the root of a shape (a single entity or a list of them)
+ */
+export function getRootEntity(shape: EntityShape): EntityDefinition | undefined {
+  if (isListShape(shape)) {
+    return shape[0] ? getRootEntity(shape[0]) : undefined;
+  }
+  return isEntityDefinition(shape) ? shape : undefined;
+}
+
+function isRecord(value: unknown): value is EntityRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEntityRef(value: unknown): value is EntityRef {
+  return isRecord(value)
+    && typeof value.entityType === 'string'
+    && 'id' in value
+    && Object.keys(value).length === 2;
+}
+
+export class EntityStore implements IEntityStore {
+  private readonly entities = new Map<string, EntityRecord>();
+  private readonly queries = new Map<string, TrackedQuery>();
+  // entity key -> query keys referencing it, and the reverse
+  private readonly dependents = new Map<string, Set<string>>();
+  private readonly queryEntities = new Map<string, Set<string>>();
+  private readonly logger = getLogger('app.dataService.entityStore');
+
+  constructor(
+    private readonly cache: ICacheProvider,
+    private readonly ttl: number = DataServiceConfig.CACHE_CONFIG.USER_CONTENT.cacheTime
+  ) {}
+
+  normalize(queryKey: string, data: unknown, shape: EntityShape): unknown {
+    const entityKeys = new Set<string>();
+    const changed = new Set<string>();
+    const stored = this.normalizeValue(data, shape, entityKeys, changed);
+
+    this.track(queryKey, stored, shape, entityKeys);
+    this.notify(changed, queryKey);
+    return stored;
+  }
+
+  async denormalize(queryKey: string, stored: unknown, shape: EntityShape): Promise<unknown> {
+    const entityKeys = new Set<string>();
+    const data = await this.denormalizeValue(stored, shape, entityKeys);
+
+    this.track(queryKey, stored, shape, entityKeys);
+    return data;
+  }
+
+  forQuery(shape: EntityShape): QueryNormalizer {
+    return {
+      normalize: (key, data) => this.normalize(key, data, shape),
+      denormalize: (key, stored) => this.denormalize(key, stored, shape)
+    };
+  }
+
+  async readQuery<T>(queryKey: string, shape: EntityShape): Promise<T | undefined> {
+    const stored = await this.cache.get<unknown>(queryKey);
+    if (stored === null || stored === undefined) {
+      return undefined;
+    }
+
+    return await this.denormalize(queryKey, stored, shape) as T | undefined;
+  }
+
+  writeQuery<T>(queryKey: string, data: T, shape: EntityShape, ttl: number = this.ttl): void {
+    void this.cache.set(queryKey, this.normalize(queryKey, data, shape), ttl);
+  }
+
+  getEntity<T>(definition: EntityDefinition<T>, id: string | number): T | undefined {
+    return this.entities.get(this.getEntityKey(definition.name, id)) as T | undefined;
+  }
+
+  mergeEntity<T>(definition: EntityDefinition<T>, entity: Partial<T>): void {
+    const id = (entity as EntityRecord)[definition.idAttribute];
+    if (typeof id !== 'string' && typeof id !== 'number') {
+      return;
+    }
+
+    if (this.entities.has(this.getEntityKey(definition.name, id))) {
+      this.updateEntity(definition, id, entity);
+      return;
+    }
+
+    // Unknown entity: store it only if it is complete
+    const changed = new Set<string>();
+    this.normalizeValue(entity, definition, new Set(), changed);
+    this.notify(changed);
+  }
+
+  updateEntity<T>(definition: EntityDefinition<T>, id: string | number, update: EntityUpdate<T>): () => void {
+    const key = this.getEntityKey(definition.name, id);
+    const current = this.entities.get(key) as T | undefined;
+    if (current === undefined) {
+      return () => undefined;
+    }
+
+    const next = typeof update === 'function' ? update(current) : { ...current, ...update };
+    this.writeEntity(key, next as EntityRecord);
+    this.notify(new Set([key]));
+
+    return () => {
+      this.writeEntity(key, current as EntityRecord);
+      this.notify(new Set([key]));
+    };
+  }
+
+  removeEntity<T>(definition: EntityDefinition<T>, id: string | number): void {
+    const key = this.getEntityKey(definition.name, id);
+    this.entities.delete(key);
+    void this.cache.delete(this.getCacheKey(key));
+    this.notify(new Set([key]));
+  }
+
+  clear(): void {
+    this.entities.clear();
+    this.queries.clear();
+    this.dependents.clear();
+    this.queryEntities.clear();
+  }
+
+  private normalizeValue(value: unknown, shape: EntityShape, entityKeys: Set<string>, changed: Set<string>): unknown {
+    if (value === null || value === undefined) {
+      return value;
+    }
+
+    if (isEntityDefinition(shape)) {
+      return this.normalizeEntity(value, shape, entityKeys, changed);
+    }
+
+    if (isListShape(shape)) {
+      const itemShape = shape[0];
+      return Array.isArray(value) && itemShape
+        ? value.map(item => this.normalizeValue(item, itemShape, entityKeys, changed))
+        : value;
+    }
+
+    if (!isRecord(value)) {
+      return value;
+    }
+
+    const result: EntityRecord = { ...value };
+    Object.entries(shape).forEach(([field, fieldShape]) => {
+      if (field in value) {
+        result[field] = this.normalizeValue(value[field], fieldShape, entityKeys, changed);
+      }
+    });
+    return result;
+  }
+
+  private normalizeEntity(
+    value: unknown,
+    definition: EntityDefinition,
+    entityKeys: Set<string>,
+    changed: Set<string>
+  ): unknown {
+    if (!isRecord(value)) {
+      return value;
+    }
+
+    const id = value[definition.idAttribute];
+    if (typeof id !== 'string' && typeof id !== 'number') {
+      return value;
+    }
+
+    const validation = definition.schema.safeParse(value);
+    if (!validation.success) {
+      this.logger.warn(
+        { ...LOG_CONTEXT, additionalData: { issues: validation.error.issues } },
+        `[EntityStore] ${definition.name}:${id} does not match its schema, keeping it inline`
+      );
+      return value;
+    }
+
+    const record: EntityRecord = { ...value };
+    Object.entries(definition.relations).forEach(([field, relationShape]) => {
+      if (field in value) {
+        record[field] = this.normalizeValue(value[field], relationShape, entityKeys, changed);
+      }
+    });
+
+    const key = this.getEntityKey(definition.name, id);
+    const existing = this.entities.get(key);
+    const next = existing ? { ...existing, ...record } : record;
+    if (!existing || replaceEqualDeep(existing, next) !== existing) {
+      this.writeEntity(key, next);
+      changed.add(key);
+    }
+
+    entityKeys.add(key);
+    const ref: EntityRef = { entityType: definition.name, id };
+    return ref;
+  }
+
+  private async denormalizeValue(stored: unknown, shape: EntityShape, entityKeys: Set<string>): Promise<unknown> {
+    if (stored === null || stored === undefined) {
+      return stored;
+    }
+
+    if (isEntityDefinition(shape)) {
+      return this.denormalizeEntity(stored, shape, entityKeys);
+    }
+
+    if (isListShape(shape)) {
+      const itemShape = shape[0];
+      if (!Array.isArray(stored) || !itemShape) {
+        return stored;
+      }
+      const items = await Promise.all(stored.map(item => this.denormalizeValue(item, itemShape, entityKeys)));
+      // Removed entities drop out of lists
+      return items.filter((item, index) => item !== undefined || !isEntityRef(stored[index]));
+    }
+
+    if (!isRecord(stored)) {
+      return stored;
+    }
+
+    const result: EntityRecord = { ...stored };
+    await Promise.all(Object.entries(shape).map(async ([field, fieldShape]) => {
+      if (field in stored) {
+        result[field] = await this.denormalizeValue(stored[field], fieldShape, entityKeys);
+      }
+    }));
+    return result;
+  }
+
+  private async denormalizeEntity(
+    stored: unknown,
+    definition: EntityDefinition,
+    entityKeys: Set<string>
+  ): Promise<unknown> {
+    if (!isEntityRef(stored)) {
+      // Entity kept inline because it did not match its schema
+      return stored;
+    }
+
+    const key = this.getEntityKey(stored.entityType, stored.id);
+    entityKeys.add(key);
+
+    let entity = this.entities.get(key);
+    if (!entity) {
+      const persisted = await this.cache.get<EntityRecord>(this.getCacheKey(key));
+      if (!persisted) {
+        return undefined;
+      }
+      entity = persisted;
+      this.entities.set(key, persisted);
+    }
+
+    const result: EntityRecord = { ...entity };
+    await Promise.all(Object.entries(definition.relations).map(async ([field, relationShape]) => {
+      if (field in result) {
+        result[field] = await this.denormalizeValue(result[field], relationShape, entityKeys);
+      }
+    }));
+    return result;
+  }
+
+  private writeEntity(key: string, entity: EntityRecord): void {
+    this.entities.set(key, entity);
+    void this.cache.set(this.getCacheKey(key), entity, this.ttl);
+  }
+
+  private track(queryKey: string, stored: unknown, shape: EntityShape, entityKeys: Set<string>): void {
+    this.queryEntities.get(queryKey)?.forEach(key => {
+      this.dependents.get(key)?.delete(queryKey);
+    });
+
+    this.queries.set(queryKey, { stored, shape });
+    this.queryEntities.set(queryKey, entityKeys);
+    entityKeys.forEach(key => {
+      let queryKeys = this.dependents.get(key);
+      if (!queryKeys) {
+        queryKeys = new Set();
+        this.dependents.set(key, queryKeys);
+      }
+      queryKeys.add(queryKey);
+    });
+  }
+
+  /**
+   * Re-publish every query referencing a changed entity to its observers
+   */
+  private notify(changed: Set<string>, sourceQueryKey?: string): void {
+    const queryKeys = new Set<string>();
+    changed.forEach(key => {
+      this.dependents.get(key)?.forEach(queryKey => {
+        if (queryKey !== sourceQueryKey) {
+          queryKeys.add(queryKey);
+        }
+      });
+    });
+
+    queryKeys.forEach(queryKey => {
+      const query = this.queries.get(queryKey);
+      if (!query) return;
+
+      void this.denormalizeValue(query.stored, query.shape, new Set()).then(data => {
+        queryRegistry.publish(queryKey, data);
+      });
+    });
+  }
+
+  private getEntityKey(name: string, id: string | number): string {
+    return `${name}:${id}`;
+  }
+
+  private getCacheKey(entityKey: string): string {
+    return `entity:${entityKey}`;
+  }
+}
+
+const ENTITY_STORES = new WeakMap<ICacheProvider, EntityStore>();
+
+/**
+ * Get the entity store shared by every data service using a cache provider
+ */
+export function getEntityStore(cache: ICacheProvider): EntityStore {
+  let store = ENTITY_STORES.get(cache);
+  if (!store) {
+    store = new EntityStore(cache);
+    ENTITY_STORES.set(cache, store);
+  }
+  return store;
+}
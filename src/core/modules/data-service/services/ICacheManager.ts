@@ -4,6 +4,7 @@
  * Single responsibility: Cache operations and management
  */
 
+import type { IEntityStore } from './IEntityStore';
 
 export interface ICacheManager {
   /**
@@ -40,4 +41,9 @@ export interface ICacheManager {
    * Generate cache key from parameters
    */
   generateKey(base: string, params?: Record<string, any>): string;
+
+  /**
+   * Get the normalized entity store backed by this cache
+   */
+  getEntityStore(): IEntityStore;
 }
@@ -0,0 +1,96 @@
+/**
+ * Entity Store Interface
+ *
+ * Single responsibility: Normalized storage of entities shared across queries
+ */
+
+import type { QueryNormalizer } from '@/core/hooks/query/useCustomQuery';
+import type { ZodType } from 'zod';
+
+/**
+ * Entity type, created with defineEntity
+ */
+export interface EntityDefinition<T = unknown> {
+  readonly kind: 'entity';
+  readonly name: string;
+  readonly schema: ZodType<T>;
+  readonly idAttribute: string;
+  readonly relations: Readonly<Record<string, EntityShape>>;
+}
+
+/**
+ * Where entities are found in a response: an entity, a list of a shape
+ * (written as a one-element array), or an object whose fields hold shapes
+ * (e.g. `{ content: [POST_ENTITY] }`)
+ */
+export type EntityShape =
+  | EntityDefinition
+  | readonly EntityShape[]
+  | { readonly [field: string]: EntityShape };
+
+/**
+ * Reference stored in place of an entity inside normalized query results
+ */
+export interface EntityRef {
+  entityType: string;
+  id: string | number;
+}
+
+/**
+ * Partial patch or updater function applied to an entity
+ */
+export type EntityUpdate<T> = Partial<T> | ((current: T) => T);
+
+export interface IEntityStore {
+  /**
+   * Split a query result into entities and return it with references
+   */
+  normalize(queryKey: string, data: unknown, shape: EntityShape): unknown;
+
+  /**
+   * Rebuild a query result from its references
+   */
+  denormalize(queryKey: string, stored: unknown, shape: EntityShape): Promise<unknown>;
+
+  /**
+   * Create a query normalizer for useCustomQuery bound to a shape
+   */
+  forQuery(shape: EntityShape): QueryNormalizer;
+
+  /**
+   * Read a query result cached with writeQuery, rebuilt from its entities
+   * @returns undefined when the result or one of its root entities is not cached
+   */
+  readQuery<T>(queryKey: string, shape: EntityShape): Promise<T | undefined>;
+
+  /**
+   * Normalize a query result and cache it as references to its entities
+   */
+  writeQuery<T>(queryKey: string, data: T, shape: EntityShape, ttl?: number): void;
+
+  /**
+   * Get the current state of an entity
+   */
+  getEntity<T>(definition: EntityDefinition<T>, id: string | number): T | undefined;
+
+  /**
+   * Merge fields received from the server (e.g. a WebSocket event) into an entity
+   */
+  mergeEntity<T>(definition: EntityDefinition<T>, entity: Partial<T>): void;
+
+  /**
+   * Update an entity in every query that references it
+   * @returns Rollback restoring the previous state
+   */
+  updateEntity<T>(definition: EntityDefinition<T>, id: string | number, update: EntityUpdate<T>): () => void;
+
+  /**
+   * Remove an entity; lists referencing it drop the item
+   */
+  removeEntity<T>(definition: EntityDefinition<T>, id: string | number): void;
+
+  /**
+   * Drop all entities and query references
+   */
+  clear(): void;
+}
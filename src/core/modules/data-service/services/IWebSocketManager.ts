@@ -5,6 +5,7 @@
  */
 
 import type { ICacheManager } from './ICacheManager';
+import type { EntityDefinition, IEntityStore } from './IEntityStore';
 import type { IUpdateStrategy } from './IUpdateStrategy';
 import type { IWebSocketService } from '@/core/websocket/types';
 
@@ -31,6 +32,16 @@ export interface IWebSocketManager {
     cacheConfig: any
   ): void;
 
+  /**
+   * Set up WebSocket listeners merging received entities into the entity store
+   */
+  setupEntityListeners(
+    queryKey: string,
+    topics: string[],
+    definition: EntityDefinition,
+    entityStore: IEntityStore
+  ): void;
+
   /**
    * Clean up WebSocket listeners
    */
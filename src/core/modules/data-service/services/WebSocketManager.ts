@@ -5,6 +5,7 @@
  */
 
 import type { ICacheManager } from './ICacheManager';
+import type { EntityDefinition, IEntityStore } from './IEntityStore';
 import type { IUpdateStrategy } from './IUpdateStrategy';
 import type { IWebSocketManager } from './IWebSocketManager';
 import type { IWebSocketService } from '@/core/websocket/types';
@@ -60,6 +61,29 @@ export class WebSocketManager implements IWebSocketManager {
     }
   }
 
+  setupEntityListeners(
+    queryKey: string,
+    topics: string[],
+    definition: EntityDefinition,
+    entityStore: IEntityStore
+  ): void {
+    topics.forEach(topic => {
+      const unsubscribe = this.webSocket.subscribe(topic, (message: any) => {
+        try {
+          const entity = message.data || message;
+          if (!entity) return;
+
+          // The entity store re-publishes every query referencing the entity
+          entityStore.mergeEntity(definition, entity);
+        } catch (error) {
+          console.error(`Error handling WebSocket entity update for ${queryKey}:`, error);
+        }
+      });
+
+      this.storeUnsubscribeFunction(queryKey, topic, unsubscribe);
+    });
+  }
+
   cleanup(cacheKey: string, topics: string[]): void {
     topics.forEach(topic => {
       const unsubscribeKey = `${cacheKey}:${topic}`;
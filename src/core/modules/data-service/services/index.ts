@@ -6,6 +6,13 @@
 
 // Interfaces
 export type { ICacheManager } from './ICacheManager';
+export type {
+  IEntityStore,
+  EntityDefinition,
+  EntityShape,
+  EntityRef,
+  EntityUpdate
+} from './IEntityStore';
 export type { IUpdateStrategy, UpdateStrategyType } from './IUpdateStrategy';
 export type { IWebSocketManager } from './IWebSocketManager';
 export type { IQueryExecutor } from './IQueryExecutor';
@@ -14,6 +21,7 @@ export type { IDataStateManager } from '../interfaces';
 // Implementations
 export { DataStateManager } from './DataStateManager';
 export { CacheManager } from './CacheManager';
+export { EntityStore, defineEntity, getEntityStore, getRootEntity } from './EntityStore';
 export { UpdateStrategy } from './UpdateStrategy';
 export { WebSocketManager } from './WebSocketManager';
 export { QueryExecutor } from './QueryExecutor';
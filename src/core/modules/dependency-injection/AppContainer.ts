@@ -120,7 +120,8 @@ export function createAppContainer() {
     null as any, // IFeedRepository - will be injected properly later
     null as any, // IPostRepository - will be injected properly later  
     null as any, // ICommentRepository - will be injected properly later
-    {} // FeedDataServiceConfig
+    {}, // FeedDataServiceConfig
+    cacheProvider
   );
   container.registerInstanceByToken(TYPES.FEED_DATA_SERVICE, feedDataService);
 
@@ -237,6 +237,50 @@ export const StandardErrorMessages: Record<string, ErrorMessageTemplate> = {
       'Use backup codes'
     ]
   },
+  'AUTH_004': {
+    code: 'AUTH_004',
+    category: ErrorCategory.AUTHENTICATION,
+    severity: ErrorSeverity.MEDIUM,
+    technicalMessage: 'Verification failed: Token is invalid, used or expired',
+    userMessage: 'This link is invalid or has expired. Please request a new one.',
+    suggestedActions: [
+      'Open the most recent email we sent you',
+      'Request a new link'
+    ],
+    recoveryOptions: [
+      'Request a new link',
+      'Contact support'
+    ]
+  },
+  'AUTH_005': {
+    code: 'AUTH_005',
+    category: ErrorCategory.AUTHENTICATION,
+    severity: ErrorSeverity.MEDIUM,
+    technicalMessage: 'Password reset failed: Rate limit exceeded',
+    userMessage: 'Too many password reset attempts. Please wait before trying again.',
+    suggestedActions: [
+      'Check your inbox and spam folder for an earlier email',
+      'Wait before requesting another link'
+    ],
+    recoveryOptions: [
+      'Wait and retry',
+      'Contact support'
+    ]
+  },
+  'AUTH_006': {
+    code: 'AUTH_006',
+    category: ErrorCategory.AUTHENTICATION,
+    severity: ErrorSeverity.LOW,
+    technicalMessage: 'Email change failed: Email address is already in use',
+    userMessage: 'That email address is already used by another account.',
+    suggestedActions: [
+      'Use a different email address',
+      'Sign in to the other account if it is yours'
+    ],
+    recoveryOptions: [
+      'Try another email address'
+    ]
+  },
 
   // Network errors
   'NET_001': {
@@ -0,0 +1,179 @@
+/**
+ * Circuit Breaker Tests
+ *
+ * Tests circuit state transitions, Retry-After handling and the shared retry
+ * budget, and how the REST client retries and fails fast through them.
+ */
+
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+
+import { ERROR_CODES } from '../constants';
+import { RestClient } from '../rest/RestClient';
+import { CircuitBreakerRegistry, toEndpointKey } from '../strategies/CircuitBreaker';
+import { RetryBudget } from '../strategies/RetryBudget';
+import { parseRetryAfter } from '../utils';
+
+/**
+ * Minimal fetch Response stand-in; jsdom does not provide one
+ */
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) => {
+  const all: Record<string, string> = { 'content-type': 'application/json', ...headers };
+  return {
+    status,
+    headers: {
+      get: (name: string) => all[name.toLowerCase()] ?? null,
+      forEach: (callback: (value: string, key: string) => void) => {
+        Object.entries(all).forEach(([key, value]) => callback(value, key));
+      }
+    },
+    text: () => Promise.resolve(JSON.stringify(body))
+  };
+};
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('opens after consecutive failures, half-opens after the open period and closes on a successful trial', () => {
+    jest.useFakeTimers();
+    const registry = new CircuitBreakerRegistry({ failureThreshold: 2, openDuration: 1000 });
+    const changes: string[] = [];
+    registry.subscribe(snapshot => changes.push(snapshot.state));
+    const breaker = registry.get('api.test/feed');
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(registry.getHealthStatus().status).toBe('unhealthy');
+
+    jest.advanceTimersByTime(1000);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(changes).toEqual(['open', 'half-open', 'closed']);
+    registry.reset();
+  });
+
+  it('reopens when the half-open trial fails and uses Retry-After as the open period', () => {
+    jest.useFakeTimers();
+    const registry = new CircuitBreakerRegistry({ failureThreshold: 5, openDuration: 30000 });
+    const breaker = registry.get('api.test/feed');
+
+    breaker.recordFailure(2000);
+    expect(breaker.getState()).toBe('open');
+    jest.advanceTimersByTime(2000);
+    expect(breaker.tryAcquire()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(registry.getTrippedCircuits()).toHaveLength(1);
+    registry.reset();
+  });
+
+  it('groups URLs by endpoint and parses both Retry-After formats', () => {
+    expect(toEndpointKey('http://api.test/posts/12?page=1')).toBe(toEndpointKey('http://api.test/posts/13'));
+    expect(toEndpointKey('http://api.test/posts/12')).toBe('api.test/posts/:id');
+
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(new Date(5000).toUTCString(), 2000)).toBe(3000);
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('RetryBudget', () => {
+  it('allows retries up to the ratio of recent requests and recovers as the window slides', () => {
+    const budget = new RetryBudget({ ratio: 0.5, minRetriesPerSecond: 0, windowMs: 1000 });
+    for (let i = 0; i < 4; i++) budget.recordRequest(0);
+
+    expect(budget.tryRetry(10)).toBe(true);
+    expect(budget.tryRetry(10)).toBe(true);
+    expect(budget.tryRetry(10)).toBe(false);
+
+    budget.recordRequest(1500);
+    budget.recordRequest(1500);
+    expect(budget.getStats(1500)).toEqual({ requests: 2, retries: 0, available: 1 });
+  });
+});
+
+describe('RestClient resilience', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  const createClient = (registry: CircuitBreakerRegistry, budget: RetryBudget) => new RestClient({
+    baseURL: 'http://api.test',
+    retryConfig: { maxAttempts: 3, retryDelay: 1, exponentialBackoff: false },
+    circuitBreakers: registry,
+    retryBudget: budget
+  });
+
+  it('retries transient failures of idempotent requests and reports the retry count', async () => {
+    const fetchMock = jest.fn<() => Promise<unknown>>()
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({ id: 1 }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const client = createClient(new CircuitBreakerRegistry(), new RetryBudget());
+
+    const response = await client.get('/feed');
+
+    expect(response.data).toEqual({ id: 1 });
+    expect(response.metadata?.retryCount).toBe(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(client.getMetrics().retryRate).toBe(1);
+  });
+
+  it('does not retry non-idempotent requests', async () => {
+    const fetchMock = jest.fn<() => Promise<unknown>>().mockResolvedValue(jsonResponse({}, 503));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const client = createClient(new CircuitBreakerRegistry(), new RetryBudget());
+
+    const response = await client.post('/posts', { text: 'hi' });
+
+    expect(response.status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops retrying once the shared budget is spent', async () => {
+    const fetchMock = jest.fn<() => Promise<unknown>>().mockRejectedValue(new TypeError('Failed to fetch'));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const budget = new RetryBudget({ ratio: 0, minRetriesPerSecond: 0.1, windowMs: 10000 });
+    const registry = new CircuitBreakerRegistry();
+    const first = createClient(registry, budget);
+    const second = createClient(registry, budget);
+
+    await first.get('/feed');
+    await second.get('/profile');
+
+    // One retry in the whole budget: 2 attempts for the first request, 1 for the second
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('fails fast for every client once an endpoint circuit is open', async () => {
+    const fetchMock = jest.fn<() => Promise<unknown>>()
+      .mockResolvedValue(jsonResponse({}, 500));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const registry = new CircuitBreakerRegistry({ failureThreshold: 2 });
+    const budget = new RetryBudget();
+    const first = createClient(registry, budget);
+    const second = createClient(registry, budget);
+
+    await first.get('/feed');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const response = await second.get('/feed');
+
+    expect(response.success).toBe(false);
+    expect(response.error?.code).toBe(ERROR_CODES.CIRCUIT_OPEN_ERROR);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(second.getHealth()).toMatchObject({ status: 'unhealthy', circuits: [{ endpoint: 'api.test/feed', state: 'open' }] });
+    registry.reset();
+  });
+});
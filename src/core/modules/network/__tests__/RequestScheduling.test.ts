@@ -0,0 +1,173 @@
+/**
+ * Request Scheduling Tests
+ *
+ * Tests per-host concurrency limits, priority ordering and cancellation in
+ * the request scheduler, and how the REST client reports cancelled and
+ * queued requests in its metrics.
+ */
+
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+
+import { ERROR_CODES } from '../constants';
+import { RequestScheduler } from '../rest/RequestScheduler';
+import { RestClient } from '../rest/RestClient';
+import { RequestPriority } from '../types';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Minimal fetch Response stand-in; jsdom does not provide one
+ */
+const jsonResponse = (body: unknown, status = 200) => ({
+  status,
+  headers: {
+    get: (name: string) => (name.toLowerCase() === 'content-type' ? 'application/json' : null),
+    forEach: () => undefined
+  },
+  text: () => Promise.resolve(JSON.stringify(body))
+});
+
+/**
+ * fetch mock whose calls stay pending until resolved or aborted
+ */
+function createControlledFetch() {
+  const pending: { url: string; resolve: (body: unknown) => void }[] = [];
+  const fetchMock = jest.fn((url: string, init: RequestInit) => new Promise((resolve, reject) => {
+    init.signal?.addEventListener('abort', () => {
+      reject(Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' }));
+    });
+    pending.push({ url, resolve: body => resolve(jsonResponse(body)) });
+  }));
+  return { fetchMock, pending };
+}
+
+describe('RequestScheduler', () => {
+  it('limits parallel requests per host and starts queued ones as slots free up', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrentPerHost: 2 });
+    const started: string[] = [];
+
+    const slots = ['a', 'b', 'c'].map(name =>
+      scheduler.acquire('api.test').then(slot => {
+        started.push(name);
+        return slot;
+      })
+    );
+    const other = scheduler.acquire('cdn.test').then(slot => {
+      started.push('cdn');
+      return slot;
+    });
+    await flush();
+
+    expect(started).toEqual(['a', 'b', 'cdn']);
+    expect(scheduler.getActiveCount('api.test')).toBe(2);
+    expect(scheduler.getQueuedCount('api.test')).toBe(1);
+
+    (await slots[0]!).release();
+    await flush();
+
+    expect(started).toEqual(['a', 'b', 'cdn', 'c']);
+    expect(scheduler.getQueuedCount()).toBe(0);
+    (await other).release();
+  });
+
+  it('starts higher priority requests first and keeps FIFO order within a priority', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrentPerHost: 1 });
+    const started: string[] = [];
+    const enqueue = (name: string, priority: RequestPriority) =>
+      scheduler.acquire('api.test', priority).then(slot => {
+        started.push(name);
+        slot.release();
+      });
+
+    const blocker = await scheduler.acquire('api.test');
+    const done = Promise.all([
+      enqueue('prefetch', RequestPriority.LOW),
+      enqueue('first click', RequestPriority.HIGH),
+      enqueue('page load', RequestPriority.NORMAL),
+      enqueue('second click', RequestPriority.HIGH)
+    ]);
+
+    blocker.release();
+    await done;
+
+    expect(started).toEqual(['first click', 'second click', 'page load', 'prefetch']);
+  });
+
+  it('drops a queued request when its signal aborts', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrentPerHost: 1 });
+    const blocker = await scheduler.acquire('api.test');
+    const controller = new AbortController();
+
+    const queued = scheduler.acquire('api.test', RequestPriority.NORMAL, controller.signal);
+    controller.abort();
+
+    await expect(queued).rejects.toMatchObject({ code: ERROR_CODES.CANCELLED_ERROR });
+    expect(scheduler.getQueuedCount('api.test')).toBe(0);
+    blocker.release();
+    expect(scheduler.getActiveCount()).toBe(0);
+  });
+});
+
+describe('RestClient scheduling and cancellation', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    jest.useRealTimers();
+  });
+
+  it('cancels an in-flight request and counts it separately from failures', async () => {
+    const { fetchMock, pending } = createControlledFetch();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const client = new RestClient({ baseURL: 'http://api.test' });
+    const controller = new AbortController();
+
+    const request = client.get('/search?q=ca', { signal: controller.signal });
+    await flush();
+    expect(pending).toHaveLength(1);
+    controller.abort();
+
+    const response = await request;
+    expect(response.success).toBe(false);
+    expect(response.error?.code).toBe(ERROR_CODES.CANCELLED_ERROR);
+
+    const metrics = client.getMetrics();
+    expect(metrics.totalRequests).toBe(1);
+    expect(metrics.cancelledRequests).toBe(1);
+    expect(metrics.failedRequests).toBe(0);
+  });
+
+  it('queues requests over the host limit and reports the queue wait time', async () => {
+    jest.useFakeTimers({ doNotFake: ['setTimeout'] });
+    jest.setSystemTime(0);
+    const { fetchMock, pending } = createControlledFetch();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    const client = new RestClient({ baseURL: 'http://api.test', scheduler: { maxConcurrentPerHost: 1 } });
+
+    const prefetch = client.get('/feed?page=2', { priority: RequestPriority.LOW });
+    const background = client.get('/notifications', { priority: RequestPriority.LOW });
+    const userAction = client.get('/profile', { priority: RequestPriority.HIGH });
+    await flush();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime(40);
+    pending[0]!.resolve({ page: 2 });
+    await prefetch;
+    await flush();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1]![0]).toBe('http://api.test/profile');
+
+    pending[1]!.resolve({ id: 'me' });
+    await expect(userAction).resolves.toMatchObject({ data: { id: 'me' }, success: true });
+    await flush();
+    pending[2]!.resolve([]);
+    await background;
+
+    const metrics = client.getMetrics();
+    expect(metrics.successfulRequests).toBe(3);
+    expect(metrics.requestsByStatus[200]).toBe(3);
+    // Two of the three requests waited 40ms for the first one to finish
+    expect(metrics.averageQueueWaitTime).toBeCloseTo(80 / 3);
+  });
+});
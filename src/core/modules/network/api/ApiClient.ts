@@ -128,7 +128,9 @@ export class ApiClient implements IApiClient {
             cacheHitRate: 0,
             retryRate: 0,
             errorRate: 0,
-            requestsByStatus: {}
+            requestsByStatus: {},
+            cancelledRequests: 0,
+            averageQueueWaitTime: 0
         };
     }
 
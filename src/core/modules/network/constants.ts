@@ -73,10 +73,12 @@ export const ERROR_CODES = {
     NOT_FOUND_ERROR: 'NOT_FOUND_ERROR',
     METHOD_NOT_ALLOWED_ERROR: 'METHOD_NOT_ALLOWED_ERROR',
     UNSUPPORTED_MEDIA_TYPE_ERROR: 'UNSUPPORTED_MEDIA_TYPE_ERROR',
+    CANCELLED_ERROR: 'CANCELLED_ERROR',
 
     // Server Errors
     SERVER_ERROR: 'SERVER_ERROR',
     SERVICE_UNAVAILABLE_ERROR: 'SERVICE_UNAVAILABLE_ERROR',
+    CIRCUIT_OPEN_ERROR: 'CIRCUIT_OPEN_ERROR',
     BAD_GATEWAY_ERROR: 'BAD_GATEWAY_ERROR',
 
     // Generic Errors
@@ -136,6 +138,20 @@ export const RETRY_CONFIG = {
     BACKOFF_MULTIPLIER: 2
 } as const;
 
+// Circuit Breaker Configuration
+export const CIRCUIT_BREAKER_CONFIG = {
+    FAILURE_THRESHOLD: 5,
+    OPEN_DURATION: 30000,  // 30 seconds
+    HALF_OPEN_MAX_REQUESTS: 1
+} as const;
+
+// Retry Budget Configuration (shared by all clients)
+export const RETRY_BUDGET_CONFIG = {
+    RATIO: 0.2,            // Retries per request within the window
+    MIN_RETRIES_PER_SECOND: 1,
+    WINDOW: 10000          // 10 seconds
+} as const;
+
 // Cache Configuration
 export const CACHE_CONFIG = {
     DEFAULT_TTL: 300000,   // 5 minutes
@@ -159,6 +175,11 @@ export const REQUEST_PRIORITIES = {
     CRITICAL: 4
 } as const;
 
+// Request Scheduling
+export const SCHEDULER_CONFIG = {
+    DEFAULT_MAX_CONCURRENT_PER_HOST: 6
+} as const;
+
 // Common Request Headers (defined early to avoid circular dependency)
 export const DEFAULT_REQUEST_HEADERS = {
     [COMMON_HEADERS.CONTENT_TYPE]: CONTENT_TYPES.JSON,
@@ -15,10 +15,12 @@ export type {
     RetryConfig,
     CacheConfig,
     InterceptorConfig,
+    SchedulerConfig,
     RequestInterceptor,
     ResponseInterceptor,
     ErrorInterceptor,
     ApiConfig,
+    RequestOptions,
     ResponseMetadata,
     ApiHealthStatus,
     ApiMetrics,
@@ -78,9 +80,12 @@ export {
     COMMON_HEADERS,
     TIMEOUTS,
     RETRY_CONFIG,
+    RETRY_BUDGET_CONFIG,
+    CIRCUIT_BREAKER_CONFIG,
     CACHE_CONFIG,
     RATE_LIMITS,
     REQUEST_PRIORITIES,
+    SCHEDULER_CONFIG,
     ENVIRONMENT_CONFIG,
     DEFAULT_API_CONFIG,
     DEFAULT_REQUEST_HEADERS,
@@ -97,6 +102,10 @@ export {
     createValidationError,
     createNotFoundError,
     createServerError,
+    createCancelledError,
+    isCancelledError,
+    createCircuitOpenError,
+    parseRetryAfter,
     isApiError,
     isApiResponse,
     isSuccessStatus,
@@ -128,6 +137,21 @@ export {
     STATUS_CATEGORIES
 } from './types';
 
+// Circuit breakers and retry budget shared by REST clients
+export {
+    CircuitBreakerRegistry,
+    circuitBreakers,
+    toEndpointKey
+} from './strategies/CircuitBreaker';
+export type {
+    CircuitState,
+    CircuitBreakerConfig,
+    CircuitSnapshot,
+    CircuitListener
+} from './strategies/CircuitBreaker';
+export { RetryBudget, globalRetryBudget } from './strategies/RetryBudget';
+export type { RetryBudgetConfig, RetryBudgetStats } from './strategies/RetryBudget';
+
 // Default client instance for convenience
 export { defaultApiClient } from './factory';
 
@@ -157,6 +181,8 @@ export const NETWORK_MODULE_INFO = {
         'Dependency injection support',
         'Type safety throughout',
         'Timeout and cancellation support',
+        'Per-host concurrency limits with request priorities',
+        'Per-endpoint circuit breakers with a shared retry budget',
         'Response parsing for multiple formats'
     ],
     dependencies: [
@@ -5,6 +5,10 @@
  * Internal implementation details are hidden from consumers.
  */
 
+import type { CircuitBreakerRegistry, CircuitSnapshot } from './strategies/CircuitBreaker';
+import type { RetryBudget } from './strategies/RetryBudget';
+import type { RequestPriority } from './types';
+
 export interface IApiClient {
     // HTTP Methods
     get<T>(url: string, config?: ApiConfig): Promise<ApiResponse<T>>;
@@ -35,6 +39,11 @@ export interface IApiClientConfig {
     retryConfig?: RetryConfig;
     cacheConfig?: CacheConfig;
     interceptors?: InterceptorConfig;
+    scheduler?: SchedulerConfig;
+    /** Defaults to the registry shared by all clients */
+    circuitBreakers?: CircuitBreakerRegistry;
+    /** Defaults to the budget shared by all clients */
+    retryBudget?: RetryBudget;
 }
 
 export interface ApiResponse<T> {
@@ -77,6 +86,15 @@ export interface CacheConfig {
     keyGenerator?: (url: string, config?: ApiConfig) => string;
 }
 
+/**
+ * Concurrency limits for the request scheduler. Requests beyond the limit
+ * wait in a per-host queue ordered by priority.
+ */
+export interface SchedulerConfig {
+    maxConcurrentPerHost: number;
+    hostLimits?: Record<string, number>;
+}
+
 export interface InterceptorConfig {
     request?: RequestInterceptor[];
     response?: ResponseInterceptor[];
@@ -97,8 +115,14 @@ export interface ApiConfig {
     data?: unknown;
     timeout?: number;
     signal?: AbortSignal;
+    priority?: RequestPriority;
 }
 
+/**
+ * Per-request options that repositories forward to the API client
+ */
+export type RequestOptions = Pick<ApiConfig, 'signal' | 'priority'>;
+
 export interface ResponseMetadata {
     duration: number;
     cached: boolean;
@@ -112,6 +136,8 @@ export interface ApiHealthStatus {
     responseTime: number;
     errorRate: number;
     uptime: number;
+    /** Endpoints whose circuit is open or half-open */
+    circuits?: CircuitSnapshot[];
 }
 
 export interface ApiMetrics {
@@ -123,6 +149,8 @@ export interface ApiMetrics {
     retryRate: number;
     errorRate: number;
     requestsByStatus: Record<number, number>;
+    cancelledRequests: number;
+    averageQueueWaitTime: number;
 }
 
 // Token Provider Interface
@@ -0,0 +1,168 @@
+/**
+ * Request Scheduler
+ *
+ * Limits how many requests run in parallel against each host. Requests over
+ * the limit wait in a per-host queue ordered by priority, so user-initiated
+ * calls start ahead of background prefetches.
+ * This file is part of the internal implementation and should not be exported.
+ */
+
+import { REQUEST_PRIORITIES } from '../constants';
+import { RequestPriority } from '../types';
+import { createCancelledError } from '../utils';
+
+import type { SchedulerConfig } from '../interfaces';
+
+/**
+ * A running request's hold on one of its host's slots
+ */
+export interface SchedulerSlot {
+    /** Time spent in the queue before the slot was granted, in ms */
+    waitTime: number;
+    release: () => void;
+}
+
+interface QueuedRequest {
+    weight: number;
+    start: () => void;
+}
+
+interface HostQueue {
+    active: number;
+    waiting: QueuedRequest[];
+}
+
+const PRIORITY_WEIGHTS: Record<RequestPriority, number> = {
+    [RequestPriority.LOW]: REQUEST_PRIORITIES.LOW,
+    [RequestPriority.NORMAL]: REQUEST_PRIORITIES.NORMAL,
+    [RequestPriority.HIGH]: REQUEST_PRIORITIES.HIGH,
+    [RequestPriority.CRITICAL]: REQUEST_PRIORITIES.CRITICAL
+};
+
+/**
+ * Per-host concurrency limiter with priority queues
+ */
+export class RequestScheduler {
+    private readonly hosts = new Map<string, HostQueue>();
+
+    constructor(private config: SchedulerConfig) {}
+
+    updateConfig(config: SchedulerConfig): void {
+        this.config = config;
+        for (const host of Array.from(this.hosts.keys())) {
+            this.drain(host);
+        }
+    }
+
+    /**
+     * Waits for a free slot on the host. Requests of equal priority start in
+     * the order they were queued. Rejects with a cancellation error if the
+     * signal aborts while the request is still queued.
+     */
+    acquire(
+        host: string,
+        priority: RequestPriority = RequestPriority.NORMAL,
+        signal?: AbortSignal
+    ): Promise<SchedulerSlot> {
+        if (signal?.aborted) {
+            return Promise.reject(createCancelledError());
+        }
+
+        const queue = this.getQueue(host);
+        const enqueuedAt = Date.now();
+
+        return new Promise<SchedulerSlot>((resolve, reject) => {
+            const entry: QueuedRequest = {
+                weight: PRIORITY_WEIGHTS[priority],
+                start: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    queue.active++;
+
+                    let released = false;
+                    resolve({
+                        waitTime: Date.now() - enqueuedAt,
+                        release: () => {
+                            if (released) return;
+                            released = true;
+                            queue.active--;
+                            this.drain(host);
+                        }
+                    });
+                }
+            };
+
+            const onAbort = () => {
+                const index = queue.waiting.indexOf(entry);
+                if (index !== -1) {
+                    queue.waiting.splice(index, 1);
+                    this.drain(host);
+                }
+                reject(createCancelledError());
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            // Insert after every queued request of the same or higher priority
+            const position = queue.waiting.findIndex(queued => queued.weight < entry.weight);
+            if (position === -1) {
+                queue.waiting.push(entry);
+            } else {
+                queue.waiting.splice(position, 0, entry);
+            }
+
+            this.drain(host);
+        });
+    }
+
+    /**
+     * Number of requests waiting for a slot, for one host or all hosts
+     */
+    getQueuedCount(host?: string): number {
+        return this.sum(host, queue => queue.waiting.length);
+    }
+
+    /**
+     * Number of requests holding a slot, for one host or all hosts
+     */
+    getActiveCount(host?: string): number {
+        return this.sum(host, queue => queue.active);
+    }
+
+    private sum(host: string | undefined, count: (queue: HostQueue) => number): number {
+        if (host !== undefined) {
+            const queue = this.hosts.get(host);
+            return queue ? count(queue) : 0;
+        }
+        let total = 0;
+        this.hosts.forEach(queue => {
+            total += count(queue);
+        });
+        return total;
+    }
+
+    private getQueue(host: string): HostQueue {
+        let queue = this.hosts.get(host);
+        if (!queue) {
+            queue = { active: 0, waiting: [] };
+            this.hosts.set(host, queue);
+        }
+        return queue;
+    }
+
+    private getLimit(host: string): number {
+        return Math.max(1, this.config.hostLimits?.[host] ?? this.config.maxConcurrentPerHost);
+    }
+
+    private drain(host: string): void {
+        const queue = this.hosts.get(host);
+        if (!queue) return;
+
+        const limit = this.getLimit(host);
+        while (queue.active < limit && queue.waiting.length > 0) {
+            queue.waiting.shift()?.start();
+        }
+
+        if (queue.active === 0 && queue.waiting.length === 0) {
+            this.hosts.delete(host);
+        }
+    }
+}
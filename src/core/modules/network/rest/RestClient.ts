@@ -9,18 +9,30 @@ import {
     HTTP_STATUS,
     ERROR_CODES,
     CONTENT_TYPES,
-    DEFAULT_REQUEST_HEADERS
+    DEFAULT_REQUEST_HEADERS,
+    RETRY_CONFIG,
+    SCHEDULER_CONFIG
 } from '../constants';
+import { circuitBreakers, toEndpointKey } from '../strategies/CircuitBreaker';
+import { globalRetryBudget } from '../strategies/RetryBudget';
+import { RetryStrategyFactory } from '../strategies/RetryStrategy';
 import {
     createApiError,
+    createCancelledError,
+    createCircuitOpenError,
+    createServerError,
     createSuccessResponse,
     createErrorResponse,
     generateRequestId,
+    isCancelledError,
     mergeHeaders,
     isJsonContent,
-    parseJsonResponse
+    parseJsonResponse,
+    parseRetryAfter
 } from '../utils';
 
+import { RequestScheduler } from './RequestScheduler';
+
 import type {
     IApiClient,
     IApiClientConfig,
@@ -28,14 +40,50 @@ import type {
     ApiConfig,
     ApiError,
     ApiHealthStatus,
-    ApiMetrics
+    ApiMetrics,
+    RetryConfig
 } from '../interfaces';
+import type { CircuitBreakerRegistry } from '../strategies/CircuitBreaker';
+import type { RetryBudget } from '../strategies/RetryBudget';
+import type { IRetryStrategy } from '../strategies/RetryStrategy';
+
+/**
+ * Counters behind getMetrics()
+ */
+interface RequestCounters {
+    total: number;
+    successful: number;
+    failed: number;
+    cancelled: number;
+    retries: number;
+    totalResponseTime: number;
+    totalQueueWaitTime: number;
+    scheduled: number;
+    byStatus: Record<number, number>;
+}
+
+/**
+ * Methods retried without an explicit retryCondition
+ */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
 
 /**
  * Internal REST Client implementation
+ *
+ * Requests go through a per-host scheduler: at most
+ * `scheduler.maxConcurrentPerHost` run at once and the rest wait in priority
+ * order. Passing `signal` in ApiConfig cancels a request whether it is still
+ * queued or already in flight.
+ *
+ * Transient failures (network errors, timeouts, 5xx and 429) are retried with
+ * the configured retry strategy, but only while the endpoint's circuit is not
+ * open and the retry budget shared by all clients has room.
  */
 export class RestClient implements IApiClient {
     private config: IApiClientConfig;
+    private readonly scheduler: RequestScheduler;
+    private retryStrategy: IRetryStrategy;
+    private counters: RequestCounters = RestClient.emptyCounters();
     private readonly interceptors: {
         request: ((config: ApiConfig) => ApiConfig)[];
         response: ((response: ApiResponse<unknown>) => ApiResponse<unknown>)[];
@@ -56,9 +104,16 @@ export class RestClient implements IApiClient {
                 enabled: true,
                 ttl: 300000
             },
-            ...config
+            ...config,
+            scheduler: {
+                maxConcurrentPerHost: SCHEDULER_CONFIG.DEFAULT_MAX_CONCURRENT_PER_HOST,
+                ...config.scheduler
+            }
         };
 
+        this.scheduler = new RequestScheduler(this.config.scheduler!);
+        this.retryStrategy = RestClient.createRetryStrategy(this.config.retryConfig);
+
         this.interceptors = {
             request: [],
             response: [],
@@ -103,6 +158,12 @@ export class RestClient implements IApiClient {
 
     updateConfig(config: Partial<IApiClientConfig>): void {
         this.config = { ...this.config, ...config };
+        if (config.scheduler) {
+            this.scheduler.updateConfig(config.scheduler);
+        }
+        if (config.retryConfig) {
+            this.retryStrategy = RestClient.createRetryStrategy(config.retryConfig);
+        }
     }
 
     getConfig(): IApiClientConfig {
@@ -110,66 +171,249 @@ export class RestClient implements IApiClient {
     }
 
     getHealth(): ApiHealthStatus {
+        const { total, successful, failed, totalResponseTime } = this.counters;
+        const completed = successful + failed;
+
         return {
-            status: 'healthy',
-            lastCheck: Date.now(),
-            responseTime: 0,
-            errorRate: 0,
-            uptime: 0
+            ...this.getCircuitBreakers().getHealthStatus(),
+            responseTime: completed > 0 ? totalResponseTime / completed : 0,
+            errorRate: total > 0 ? failed / total : 0
         };
     }
 
     getMetrics(): ApiMetrics {
+        const { total, successful, failed, cancelled, totalResponseTime, totalQueueWaitTime, scheduled, byStatus } = this.counters;
+        const completed = successful + failed;
+
         return {
-            totalRequests: 0,
-            successfulRequests: 0,
-            failedRequests: 0,
-            averageResponseTime: 0,
+            totalRequests: total,
+            successfulRequests: successful,
+            failedRequests: failed,
+            averageResponseTime: completed > 0 ? totalResponseTime / completed : 0,
             cacheHitRate: 0,
-            retryRate: 0,
-            errorRate: 0,
-            requestsByStatus: {}
+            retryRate: total > 0 ? this.counters.retries / total : 0,
+            errorRate: total > 0 ? failed / total : 0,
+            requestsByStatus: { ...byStatus },
+            cancelledRequests: cancelled,
+            averageQueueWaitTime: scheduled > 0 ? totalQueueWaitTime / scheduled : 0
+        };
+    }
+
+    /**
+     * Clears the counters behind getMetrics()
+     */
+    resetMetrics(): void {
+        this.counters = RestClient.emptyCounters();
+    }
+
+    private static emptyCounters(): RequestCounters {
+        return {
+            total: 0,
+            successful: 0,
+            failed: 0,
+            cancelled: 0,
+            retries: 0,
+            totalResponseTime: 0,
+            totalQueueWaitTime: 0,
+            scheduled: 0,
+            byStatus: {}
         };
     }
 
     private async request<T>(config: ApiConfig): Promise<ApiResponse<T>> {
         const requestId = generateRequestId();
         const startTime = Date.now();
+        this.counters.total++;
 
         try {
             // Apply request interceptors
             const finalConfig = await this.applyRequestInterceptors(config);
 
             // Build final request
+            const url = this.buildUrl(finalConfig.url!);
             const request = this.buildRequest(finalConfig);
 
             // Execute request
-            const response = await this.executeRequest(request);
+            const { response, retryCount } = await this.executeWithRetries(url, request, finalConfig);
 
             // Apply response interceptors
             const finalResponse = await this.applyResponseInterceptors(response);
 
             // Calculate duration
             const duration = Date.now() - startTime;
+            this.recordCompletion(finalResponse.status, finalResponse.success, duration);
 
             return {
                 ...finalResponse,
                 metadata: {
                     duration,
                     cached: false,
-                    retryCount: 0,
+                    retryCount,
                     requestId
                 }
-            };
+            } as ApiResponse<T>;
 
         } catch (error) {
             // Apply error interceptors
             const apiError = await this.applyErrorInterceptors(error, requestId);
 
+            if (isCancelledError(apiError)) {
+                this.counters.cancelled++;
+            } else {
+                this.recordCompletion(HTTP_STATUS.INTERNAL_SERVER_ERROR, false, Date.now() - startTime);
+            }
+
             return createErrorResponse<T>(apiError);
         }
     }
 
+    /**
+     * Sends the request through the endpoint's circuit breaker and retries
+     * transient failures. A Retry-After header opens the circuit for the
+     * requested time; the request then waits that long and retries as the
+     * half-open trial.
+     */
+    private async executeWithRetries(
+        url: string,
+        request: RequestInit,
+        config: ApiConfig
+    ): Promise<{ response: ApiResponse<unknown>; retryCount: number }> {
+        const endpoint = toEndpointKey(url);
+        const breaker = this.getCircuitBreakers().get(endpoint);
+        const budget = this.getRetryBudget();
+        budget.recordRequest();
+
+        for (let attempt = 1; ; attempt++) {
+            if (!breaker.tryAcquire()) {
+                throw createCircuitOpenError(endpoint, breaker.getSnapshot().retryAt);
+            }
+
+            let response: ApiResponse<unknown> | null = null;
+            let error: ApiError | null = null;
+            try {
+                response = await this.executeScheduled(url, request, config);
+            } catch (caught) {
+                error = this.normalizeError(caught);
+            }
+
+            if (response && !this.isTransientStatus(response.status)) {
+                breaker.recordSuccess();
+                return { response, retryCount: attempt - 1 };
+            }
+            if (error && !this.isTransientError(error)) {
+                breaker.recordIgnored();
+                throw error;
+            }
+
+            const retryAfter = parseRetryAfter(response?.headers['retry-after']);
+            breaker.recordFailure(retryAfter);
+
+            const failure = error ?? createServerError(response!.status);
+            const circuitAllowsRetry = breaker.getState() !== 'open' ||
+                (retryAfter !== null && retryAfter <= RETRY_CONFIG.MAX_DELAY);
+            if (!circuitAllowsRetry || !this.shouldRetry(attempt, config.method, failure) || !budget.tryRetry()) {
+                if (error) {
+                    throw error;
+                }
+                return { response: response!, retryCount: attempt - 1 };
+            }
+
+            this.counters.retries++;
+            await this.waitForRetry(Math.max(this.retryStrategy.getDelay(attempt), retryAfter ?? 0), config.signal);
+        }
+    }
+
+    /**
+     * Runs one attempt in a scheduler slot for the host
+     */
+    private async executeScheduled(url: string, request: RequestInit, config: ApiConfig): Promise<ApiResponse<unknown>> {
+        const slot = await this.scheduler.acquire(this.getHost(url), config.priority, config.signal);
+        this.counters.scheduled++;
+        this.counters.totalQueueWaitTime += slot.waitTime;
+
+        try {
+            return await this.executeRequest(url, request, config.timeout ?? this.config.timeout ?? 10000);
+        } finally {
+            slot.release();
+        }
+    }
+
+    private shouldRetry(attempt: number, method: string | undefined, error: ApiError): boolean {
+        const retryCondition = this.config.retryConfig?.retryCondition;
+        if (retryCondition) {
+            if (!retryCondition(error)) return false;
+        } else if (!IDEMPOTENT_METHODS.has((method || 'GET').toUpperCase())) {
+            return false;
+        }
+
+        return this.retryStrategy.shouldRetry(attempt, new Error(error.message));
+    }
+
+    private isTransientStatus(status: number): boolean {
+        return status >= HTTP_STATUS.INTERNAL_SERVER_ERROR || status === HTTP_STATUS.TOO_MANY_REQUESTS;
+    }
+
+    private isTransientError(error: ApiError): boolean {
+        return error.code === ERROR_CODES.NETWORK_ERROR || error.code === ERROR_CODES.TIMEOUT_ERROR;
+    }
+
+    private waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(createCancelledError());
+                return;
+            }
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(createCancelledError());
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, delay);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private getCircuitBreakers(): CircuitBreakerRegistry {
+        return this.config.circuitBreakers ?? circuitBreakers;
+    }
+
+    private getRetryBudget(): RetryBudget {
+        return this.config.retryBudget ?? globalRetryBudget;
+    }
+
+    private static createRetryStrategy(retryConfig?: RetryConfig): IRetryStrategy {
+        if (!retryConfig || retryConfig.maxAttempts <= 1) {
+            return RetryStrategyFactory.getNoRetry();
+        }
+        return RetryStrategyFactory.createStrategy(retryConfig.exponentialBackoff ? 'exponential' : 'linear', {
+            delay: retryConfig.retryDelay,
+            maxAttempts: retryConfig.maxAttempts
+        });
+    }
+
+    private recordCompletion(status: number, success: boolean, duration: number): void {
+        if (success) {
+            this.counters.successful++;
+        } else {
+            this.counters.failed++;
+        }
+        this.counters.totalResponseTime += duration;
+        this.counters.byStatus[status] = (this.counters.byStatus[status] ?? 0) + 1;
+    }
+
+    /**
+     * Requests are limited per host; relative URLs all share the same-origin queue
+     */
+    private getHost(url: string): string {
+        try {
+            return new URL(url).host;
+        } catch {
+            return '';
+        }
+    }
+
     private async applyRequestInterceptors(config: ApiConfig): Promise<ApiConfig> {
         let finalConfig = { ...config };
 
@@ -201,7 +445,6 @@ export class RestClient implements IApiClient {
     }
 
     private buildRequest(config: ApiConfig): RequestInit {
-        const url = this.buildUrl(config.url!);
         const headers = this.buildHeaders(config);
         const body = this.buildBody(config.data, headers);
 
@@ -251,23 +494,26 @@ export class RestClient implements IApiClient {
         return String(data);
     }
 
-    private async executeRequest(request: RequestInit): Promise<ApiResponse<unknown>> {
+    private async executeRequest(url: string, request: RequestInit, timeout: number): Promise<ApiResponse<unknown>> {
         const { method, headers, body, signal } = request;
-        const url = (request as { url?: string }).url || '';
 
-        try {
-            // Create AbortController for timeout
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), this.config.timeout || 10000);
-
-            // Combine signals if provided
-            if (signal) {
-                signal.addEventListener('abort', () => {
-                    clearTimeout(timeoutId);
-                    controller.abort();
-                });
-            }
+        // Create AbortController for timeout
+        const controller = new AbortController();
+        let timedOut = false;
+        const timeoutId = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeout);
+
+        // Combine signals if provided
+        const onAbort = () => controller.abort();
+        if (signal?.aborted) {
+            controller.abort();
+        } else {
+            signal?.addEventListener('abort', onAbort, { once: true });
+        }
 
+        try {
             // Execute fetch request
             const response = await fetch(url, {
                 method,
@@ -276,8 +522,6 @@ export class RestClient implements IApiClient {
                 signal: controller.signal
             });
 
-            clearTimeout(timeoutId);
-
             // Parse response
             let data: unknown = null;
             const contentType = response.headers.get('content-type') || '';
@@ -298,15 +542,18 @@ export class RestClient implements IApiClient {
             });
 
             // Create success response
-            return createSuccessResponse(data, response.status);
+            return { ...createSuccessResponse(data, response.status), headers: headersObj };
 
         } catch (error: unknown) {
             // Handle different error types
-            if (error.name === 'AbortError') {
+            if (controller.signal.aborted) {
+                if (!timedOut) {
+                    throw createCancelledError();
+                }
                 throw createApiError(
                     ERROR_CODES.TIMEOUT_ERROR,
                     'Request timeout',
-                    { timeout: this.config.timeout }
+                    { timeout }
                 );
             }
 
@@ -320,9 +567,12 @@ export class RestClient implements IApiClient {
 
             throw createApiError(
                 ERROR_CODES.UNKNOWN_ERROR,
-                error.message || 'Unknown error occurred',
+                (error instanceof Error && error.message) || 'Unknown error occurred',
                 { originalError: error }
             );
+        } finally {
+            clearTimeout(timeoutId);
+            signal?.removeEventListener('abort', onAbort);
         }
     }
 
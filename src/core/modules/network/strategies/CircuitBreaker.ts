@@ -0,0 +1,292 @@
+/**
+ * Circuit Breaker for Network Module
+ *
+ * Tracks failures per endpoint and stops sending requests to an endpoint that
+ * keeps failing, so a backend outage costs one failing request per endpoint
+ * instead of one per component.
+ *
+ * closed    - requests flow, consecutive failures are counted
+ * open      - requests fail fast until the open period ends; a Retry-After
+ *             header from the server replaces the configured period
+ * half-open - a limited number of trial requests decide whether to close again
+ */
+
+import { CIRCUIT_BREAKER_CONFIG } from '../constants';
+
+import type { ApiHealthStatus } from '../interfaces';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit rejects requests, in ms */
+  openDuration: number;
+  /** Trial requests allowed while half-open */
+  halfOpenMaxRequests: number;
+}
+
+/**
+ * Point-in-time view of one endpoint's circuit
+ */
+export interface CircuitSnapshot {
+  endpoint: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  /** When an open circuit lets the next trial request through */
+  retryAt: number | null;
+}
+
+export type CircuitListener = (snapshot: CircuitSnapshot, previous: CircuitState) => void;
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: CIRCUIT_BREAKER_CONFIG.FAILURE_THRESHOLD,
+  openDuration: CIRCUIT_BREAKER_CONFIG.OPEN_DURATION,
+  halfOpenMaxRequests: CIRCUIT_BREAKER_CONFIG.HALF_OPEN_MAX_REQUESTS
+};
+
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+/**
+ * Groups URLs by endpoint: host plus path, with id segments collapsed,
+ * so `/posts/12` and `/posts/13` share one circuit.
+ */
+export function toEndpointKey(url: string): string {
+  let host = '';
+  let path = url;
+  try {
+    const parsed = new URL(url);
+    host = parsed.host;
+    path = parsed.pathname;
+  } catch {
+    path = url.split('?')[0] ?? url;
+  }
+
+  const normalized = path
+    .split('/')
+    .map(segment => (ID_SEGMENT.test(segment) ? ':id' : segment))
+    .join('/');
+  return `${host}${normalized}`;
+}
+
+/**
+ * Circuit breaker for a single endpoint
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private retryAt: number | null = null;
+  private trialsInFlight = 0;
+  private halfOpenTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    readonly endpoint: string,
+    private readonly getConfig: () => CircuitBreakerConfig,
+    private readonly onChange: (breaker: CircuitBreaker, previous: CircuitState) => void
+  ) {}
+
+  /**
+   * Whether a request may be sent now. While half-open only a limited number
+   * of trial requests pass; each must end in recordSuccess, recordFailure or
+   * recordIgnored.
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    if (this.state === 'open' && this.retryAt !== null && now >= this.retryAt) {
+      this.transition('half-open');
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'half-open' && this.trialsInFlight < this.getConfig().halfOpenMaxRequests) {
+      this.trialsInFlight++;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state === 'half-open') {
+      this.trialsInFlight = Math.max(0, this.trialsInFlight - 1);
+      this.transition('closed');
+    }
+  }
+
+  /**
+   * @param retryAfter - Delay the server asked for (Retry-After), in ms.
+   * Opens the circuit right away, since the server told clients to back off.
+   */
+  recordFailure(retryAfter: number | null = null, now: number = Date.now()): void {
+    this.consecutiveFailures++;
+    const wasTrial = this.state === 'half-open';
+    if (wasTrial) {
+      this.trialsInFlight = Math.max(0, this.trialsInFlight - 1);
+    }
+
+    if (wasTrial || retryAfter !== null || this.consecutiveFailures >= this.getConfig().failureThreshold) {
+      this.open(now, retryAfter);
+    }
+  }
+
+  /**
+   * The request ended without saying anything about the endpoint's health,
+   * e.g. it was cancelled by the caller
+   */
+  recordIgnored(): void {
+    if (this.state === 'half-open') {
+      this.trialsInFlight = Math.max(0, this.trialsInFlight - 1);
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getSnapshot(): CircuitSnapshot {
+    return {
+      endpoint: this.endpoint,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      retryAt: this.retryAt
+    };
+  }
+
+  dispose(): void {
+    this.clearHalfOpenTimer();
+  }
+
+  private open(now: number, retryAfter: number | null): void {
+    const openFor = retryAfter ?? this.getConfig().openDuration;
+    this.openedAt = now;
+    this.retryAt = now + openFor;
+    this.trialsInFlight = 0;
+
+    // Move to half-open on time even if no request asks, so status displays recover
+    this.clearHalfOpenTimer();
+    this.halfOpenTimer = setTimeout(() => {
+      this.halfOpenTimer = null;
+      if (this.state === 'open') {
+        this.transition('half-open');
+      }
+    }, openFor);
+
+    this.transition('open');
+  }
+
+  private transition(next: CircuitState): void {
+    const previous = this.state;
+    if (next === 'closed') {
+      this.openedAt = null;
+      this.retryAt = null;
+      this.trialsInFlight = 0;
+      this.clearHalfOpenTimer();
+    }
+    if (next === 'half-open') {
+      this.trialsInFlight = 0;
+      this.clearHalfOpenTimer();
+    }
+
+    this.state = next;
+    if (previous !== next || next === 'open') {
+      this.onChange(this, previous);
+    }
+  }
+
+  private clearHalfOpenTimer(): void {
+    if (this.halfOpenTimer) {
+      clearTimeout(this.halfOpenTimer);
+      this.halfOpenTimer = null;
+    }
+  }
+}
+
+/**
+ * Circuit breakers keyed by endpoint, shared by every client that uses the registry
+ */
+export class CircuitBreakerRegistry {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly listeners = new Set<CircuitListener>();
+  private config: CircuitBreakerConfig;
+
+  constructor(config: Partial<CircuitBreakerConfig> = {}) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+  }
+
+  configure(config: Partial<CircuitBreakerConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  get(endpoint: string): CircuitBreaker {
+    let breaker = this.breakers.get(endpoint);
+    if (!breaker) {
+      breaker = new CircuitBreaker(endpoint, () => this.config, (changed, previous) => {
+        const snapshot = changed.getSnapshot();
+        this.listeners.forEach(listener => listener(snapshot, previous));
+      });
+      this.breakers.set(endpoint, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Subscribes to circuit state changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: CircuitListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getSnapshots(): CircuitSnapshot[] {
+    return Array.from(this.breakers.values(), breaker => breaker.getSnapshot());
+  }
+
+  /**
+   * Circuits that are not closed
+   */
+  getTrippedCircuits(): CircuitSnapshot[] {
+    return this.getSnapshots().filter(snapshot => snapshot.state !== 'closed');
+  }
+
+  /**
+   * Health derived from circuit states: degraded while any circuit is open or
+   * half-open, unhealthy once every known endpoint is open.
+   */
+  getHealthStatus(now: number = Date.now()): ApiHealthStatus {
+    const circuits = this.getSnapshots();
+    const tripped = circuits.filter(snapshot => snapshot.state !== 'closed');
+    const open = tripped.filter(snapshot => snapshot.state === 'open');
+
+    let status: ApiHealthStatus['status'] = 'healthy';
+    if (circuits.length > 0 && open.length === circuits.length) {
+      status = 'unhealthy';
+    } else if (tripped.length > 0) {
+      status = 'degraded';
+    }
+
+    return {
+      status,
+      lastCheck: now,
+      responseTime: 0,
+      errorRate: circuits.length > 0 ? tripped.length / circuits.length : 0,
+      uptime: 0,
+      circuits: tripped
+    };
+  }
+
+  reset(): void {
+    this.breakers.forEach(breaker => breaker.dispose());
+    this.breakers.clear();
+  }
+}
+
+/**
+ * Registry shared by all REST clients
+ */
+export const circuitBreakers = new CircuitBreakerRegistry();
@@ -0,0 +1,99 @@
+/**
+ * Retry Budget for Network Module
+ *
+ * Caps retries relative to the number of requests sent, across every client
+ * sharing the budget. A single failing call still gets its retries, but when
+ * the backend is down retries cannot multiply the load on it.
+ */
+
+import { RETRY_BUDGET_CONFIG } from '../constants';
+
+export interface RetryBudgetConfig {
+  /** Retries allowed per request sent within the window (0.2 = 20%) */
+  ratio: number;
+  /** Retries always allowed per second, so low traffic can still retry */
+  minRetriesPerSecond: number;
+  /** Sliding window the ratio is measured over, in ms */
+  windowMs: number;
+}
+
+export interface RetryBudgetStats {
+  requests: number;
+  retries: number;
+  available: number;
+}
+
+export const DEFAULT_RETRY_BUDGET_CONFIG: RetryBudgetConfig = {
+  ratio: RETRY_BUDGET_CONFIG.RATIO,
+  minRetriesPerSecond: RETRY_BUDGET_CONFIG.MIN_RETRIES_PER_SECOND,
+  windowMs: RETRY_BUDGET_CONFIG.WINDOW
+};
+
+/**
+ * Sliding-window retry budget
+ */
+export class RetryBudget {
+  private requests: number[] = [];
+  private retries: number[] = [];
+  private config: RetryBudgetConfig;
+
+  constructor(config: Partial<RetryBudgetConfig> = {}) {
+    this.config = { ...DEFAULT_RETRY_BUDGET_CONFIG, ...config };
+  }
+
+  configure(config: Partial<RetryBudgetConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Records an original (non-retry) request
+   */
+  recordRequest(now: number = Date.now()): void {
+    this.prune(now);
+    this.requests.push(now);
+  }
+
+  /**
+   * Spends one retry if the budget allows it
+   */
+  tryRetry(now: number = Date.now()): boolean {
+    this.prune(now);
+    if (this.retries.length >= this.getAllowance()) {
+      return false;
+    }
+    this.retries.push(now);
+    return true;
+  }
+
+  getStats(now: number = Date.now()): RetryBudgetStats {
+    this.prune(now);
+    return {
+      requests: this.requests.length,
+      retries: this.retries.length,
+      available: Math.max(0, Math.floor(this.getAllowance() - this.retries.length))
+    };
+  }
+
+  reset(): void {
+    this.requests = [];
+    this.retries = [];
+  }
+
+  private getAllowance(): number {
+    const { ratio, minRetriesPerSecond, windowMs } = this.config;
+    return Math.max(minRetriesPerSecond * (windowMs / 1000), this.requests.length * ratio);
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.config.windowMs;
+    const firstRequest = this.requests.findIndex(timestamp => timestamp > cutoff);
+    this.requests = firstRequest === -1 ? [] : this.requests.slice(firstRequest);
+    const firstRetry = this.retries.findIndex(timestamp => timestamp > cutoff);
+    this.retries = firstRetry === -1 ? [] : this.retries.slice(firstRetry);
+  }
+}
+
+/**
+ * Budget shared by all REST clients
+ */
+export const globalRetryBudget = new RetryBudget();
@@ -59,6 +59,8 @@ export const CONTENT_TYPES = {
 export const ERROR_CODES = {
     NETWORK_ERROR: 'NETWORK_ERROR',
     TIMEOUT_ERROR: 'TIMEOUT_ERROR',
+    CANCELLED_ERROR: 'CANCELLED_ERROR',
+    CIRCUIT_OPEN_ERROR: 'CIRCUIT_OPEN_ERROR',
     AUTHENTICATION_ERROR: 'AUTHENTICATION_ERROR',
     AUTHORIZATION_ERROR: 'AUTHORIZATION_ERROR',
     VALIDATION_ERROR: 'VALIDATION_ERROR',
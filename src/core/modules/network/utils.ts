@@ -106,6 +106,53 @@ export function createServerError(status: number, message?: string): ApiError {
     );
 }
 
+/**
+ * Creates a cancellation error for requests aborted by the caller
+ */
+export function createCancelledError(message?: string): ApiError {
+    return createApiError(
+        ERROR_CODES.CANCELLED_ERROR,
+        message || 'Request was cancelled',
+        { type: 'cancelled' }
+    );
+}
+
+/**
+ * Checks if an error comes from a cancelled request
+ */
+export function isCancelledError(error: unknown): boolean {
+    return isApiError(error) && error.code === ERROR_CODES.CANCELLED_ERROR;
+}
+
+/**
+ * Creates the error returned while an endpoint's circuit is open
+ */
+export function createCircuitOpenError(endpoint: string, retryAt: number | null): ApiError {
+    return createApiError(
+        ERROR_CODES.CIRCUIT_OPEN_ERROR,
+        'Service temporarily unavailable',
+        { type: 'circuit-open', endpoint, retryAt }
+    );
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into ms.
+ * Returns null when the header is missing or invalid.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+    if (!value) {
+        return null;
+    }
+
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed) * 1000;
+    }
+
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
 /**
  * Checks if an error is an API error
  */
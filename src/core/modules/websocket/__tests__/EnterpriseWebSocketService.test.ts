@@ -0,0 +1,133 @@
+/**
+ * Enterprise WebSocket Service Tests
+ *
+ * Tests recovery of sequenced topic messages: missed messages are requested
+ * from the server, subscriptions resume after a reconnect and topics that
+ * cannot be replayed are resynced through the feature listeners.
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+
+import type { ICacheServiceManager } from '../../caching';
+import type { WebSocketMessage } from '../services/EnterpriseWebSocketService';
+
+jest.unstable_mockModule('../../logging', () => ({
+  getLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() })
+}));
+
+const { EnterpriseWebSocketService } = await import('../services/EnterpriseWebSocketService');
+
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: WebSocketMessage[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+
+  constructor() {
+    FakeWebSocket.instances.push(this);
+    setTimeout(() => {
+      this.readyState = FakeWebSocket.OPEN;
+      this.onopen?.();
+    }, 0);
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data) as WebSocketMessage);
+  }
+
+  close(): void {
+    this.readyState = 3;
+  }
+
+  receive(message: Partial<WebSocketMessage>): void {
+    this.onmessage?.({ data: JSON.stringify({ id: `srv-${message.sequence ?? message.type}`, type: 'message', feature: 'chat', payload: {}, ...message }) });
+  }
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('EnterpriseWebSocketService sequence recovery', () => {
+  let service: InstanceType<typeof EnterpriseWebSocketService>;
+  let onMessage: jest.Mock<(message: WebSocketMessage) => void>;
+  let onResync: jest.Mock<(topic: string) => Promise<void>>;
+  const originalWebSocket = globalThis.WebSocket;
+
+  const latestSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1]!;
+  const sentOfType = (type: string) => FakeWebSocket.instances.flatMap(socket => socket.sent).filter(message => message.type === type);
+
+  beforeEach(async () => {
+    FakeWebSocket.instances = [];
+    globalThis.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+
+    const cache = { set: async () => undefined };
+    service = new EnterpriseWebSocketService({ getCache: () => cache } as unknown as ICacheServiceManager);
+    await service.connect('token', { reconnectDelay: 1, replayTimeout: 50, maxReplayGap: 10 });
+
+    onMessage = jest.fn();
+    onResync = jest.fn(async () => undefined);
+    service.subscribe('chat', { onMessage, onResync });
+  });
+
+  afterEach(() => {
+    service.disconnect();
+    globalThis.WebSocket = originalWebSocket;
+  });
+
+  it('requests missed messages and delivers the topic in order', async () => {
+    const socket = latestSocket();
+    socket.receive({ topic: 'chat:1', sequence: 1 });
+    socket.receive({ topic: 'chat:1', sequence: 4 });
+
+    expect(sentOfType('replay').map(message => message.payload)).toEqual([{ topic: 'chat:1', lastSequence: 1 }]);
+
+    socket.receive({ topic: 'chat:1', sequence: 2 });
+    socket.receive({ topic: 'chat:1', sequence: 3 });
+    socket.receive({ topic: 'chat:1', sequence: 3 });
+
+    const delivered = onMessage.mock.calls.map(([message]) => message.sequence);
+    expect([...new Set(delivered)]).toEqual([1, 2, 3, 4]);
+    expect(service.getConnectionMetrics()).toMatchObject({ gapsDetected: 1, gapsRecovered: 1 });
+    expect(onResync).not.toHaveBeenCalled();
+  });
+
+  it('resumes subscriptions from the last sequence after a reconnect', async () => {
+    latestSocket().receive({ topic: 'chat:1', sequence: 7 });
+
+    latestSocket().onclose?.({ code: 1006 });
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(sentOfType('resume').map(message => message.payload)).toEqual([
+      { subscriptions: [{ topic: 'chat:1', lastSequence: 7 }] }
+    ]);
+  });
+
+  it('resyncs through the feature when the gap is too big or the replay times out', async () => {
+    const socket = latestSocket();
+    socket.receive({ topic: 'chat:1', sequence: 1 });
+    socket.receive({ topic: 'chat:1', sequence: 50 });
+    await flush();
+
+    expect(onResync).toHaveBeenCalledWith('chat:1');
+    expect(onMessage.mock.calls.map(([message]) => message.sequence)).toContain(50);
+
+    socket.receive({ topic: 'chat:1', sequence: 53 });
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(onResync).toHaveBeenCalledTimes(2);
+    expect(service.getConnectionMetrics()).toMatchObject({ gapsDetected: 2, gapsRecovered: 2 });
+  });
+
+  it('resyncs topics the server can no longer replay', async () => {
+    latestSocket().receive({ topic: 'chat:1', sequence: 1 });
+    latestSocket().receive({ feature: 'system', type: 'resync_required', payload: { topic: 'chat:1' } });
+    await flush();
+
+    expect(onResync).toHaveBeenCalledWith('chat:1');
+  });
+});
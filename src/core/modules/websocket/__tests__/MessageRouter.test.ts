@@ -0,0 +1,102 @@
+/**
+ * Message Router Tests
+ *
+ * Tests schema validation of routed messages: handlers receive parsed
+ * payloads and invalid messages reach the dead letter queue with the
+ * validation error attached.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { z } from 'zod';
+
+import type { ICacheServiceManager } from '../../caching';
+import type { WebSocketMessage } from '../services/EnterpriseWebSocketService';
+
+jest.unstable_mockModule('../../logging', () => ({
+  getLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() })
+}));
+
+const { MessageRouter, MessageValidationError } = await import('../services/MessageRouter');
+type MessageValidationError = InstanceType<typeof MessageValidationError>;
+
+const TYPING_SCHEMA = z.object({
+  userId: z.string(),
+  isTyping: z.boolean()
+});
+
+const createMessage = (payload: unknown): WebSocketMessage => ({
+  id: 'msg-1',
+  type: 'typing',
+  feature: 'chat',
+  payload,
+  timestamp: new Date()
+});
+
+describe('MessageRouter schema validation', () => {
+  let router: InstanceType<typeof MessageRouter>;
+
+  beforeEach(() => {
+    const cache = { set: async () => undefined };
+    router = new MessageRouter({ getCache: () => cache } as unknown as ICacheServiceManager);
+  });
+
+  it('passes the parsed payload to the route handler', async () => {
+    const handler = jest.fn((message: { payload: z.infer<typeof TYPING_SCHEMA> }) => {
+      expect(message.payload.isTyping).toBe(true);
+    });
+    router.registerRoute({
+      feature: 'chat',
+      messageType: 'typing',
+      schema: TYPING_SCHEMA.transform(payload => ({ ...payload, userId: payload.userId.trim() })),
+      handler,
+      priority: 1,
+      enabled: true
+    });
+
+    await router.routeMessage(createMessage({ userId: ' u1 ', isTyping: true }));
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ payload: { userId: 'u1', isTyping: true } }));
+    expect(router.getDeadLetterQueue()).toHaveLength(0);
+  });
+
+  it('sends invalid messages to the dead letter queue with the validation error', async () => {
+    const handler = jest.fn<() => void>();
+    router.registerRoute({
+      feature: 'chat',
+      messageType: 'typing',
+      schema: TYPING_SCHEMA,
+      handler,
+      priority: 1,
+      enabled: true
+    });
+    const message = createMessage({ userId: 42 });
+
+    await expect(router.routeMessage(message)).rejects.toBeInstanceOf(MessageValidationError);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(router.getMetrics().validationErrors).toBe(1);
+
+    const deadLetters = router.getDeadLetterQueue();
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]?.message).toBe(message);
+    const error = deadLetters[0]?.error as MessageValidationError;
+    expect(error.route).toBe('chat:typing');
+    expect(error.issues.map(issue => issue.path[0])).toEqual(['userId', 'isTyping']);
+  });
+
+  it('keeps messages that still fail in the dead letter queue once on retry', async () => {
+    router.registerRoute({
+      feature: 'chat',
+      messageType: 'typing',
+      schema: TYPING_SCHEMA,
+      handler: () => undefined,
+      priority: 1,
+      enabled: true
+    });
+    await router.routeMessage(createMessage({})).catch(() => undefined);
+
+    await router.retryDeadLetterMessages();
+
+    expect(router.getDeadLetterQueue()).toHaveLength(1);
+  });
+});
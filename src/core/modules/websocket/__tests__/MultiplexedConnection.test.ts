@@ -0,0 +1,167 @@
+/**
+ * Multiplexed Connection Tests
+ *
+ * Tests logical channels sharing one physical link: outgoing frames are
+ * scheduled fairly by channel priority, full channel queues push back on
+ * senders and the connection manager reports channels next to the link.
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+import type { ICacheServiceManager } from '../../caching';
+import type {
+  ConnectionMetrics,
+  IEnterpriseWebSocketService,
+  WebSocketEventListener,
+  WebSocketMessage
+} from '../services/EnterpriseWebSocketService';
+
+jest.unstable_mockModule('../../logging', () => ({
+  getLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() })
+}));
+
+const { ChannelBackpressureError, MultiplexedConnection } = await import('../managers/MultiplexedConnection');
+const { ConnectionManager } = await import('../managers/ConnectionManager');
+
+class FakeLink implements IEnterpriseWebSocketService {
+  connected = false;
+  sent: Omit<WebSocketMessage, 'id' | 'timestamp'>[] = [];
+  listeners = new Map<string, WebSocketEventListener[]>();
+
+  async connect(): Promise<void> {
+    this.connected = true;
+    this.listeners.get('system')?.forEach(listener => listener.onConnect?.());
+  }
+
+  disconnect(): void {
+    this.connected = false;
+  }
+
+  async sendMessage(message: Omit<WebSocketMessage, 'id' | 'timestamp'>): Promise<void> {
+    this.sent.push(message);
+  }
+
+  subscribe(feature: string, listener: WebSocketEventListener): () => void {
+    this.listeners.set(feature, [...(this.listeners.get(feature) ?? []), listener]);
+    return () => this.listeners.set(feature, (this.listeners.get(feature) ?? []).filter(l => l !== listener));
+  }
+
+  unsubscribe(feature: string): void {
+    this.listeners.delete(feature);
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getConnectionMetrics(): ConnectionMetrics {
+    return {
+      connectedAt: null,
+      lastMessageAt: null,
+      messagesReceived: 0,
+      messagesSent: this.sent.length,
+      reconnectAttempts: 0,
+      averageLatency: 0,
+      connectionUptime: 0,
+      gapsDetected: 0,
+      gapsRecovered: 0
+    };
+  }
+
+  getConnectionState(): 'connected' | 'disconnected' {
+    return this.connected ? 'connected' : 'disconnected';
+  }
+}
+
+const frame = (feature: string, n: number) => ({ type: 'message', feature, payload: { n } });
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('MultiplexedConnection', () => {
+  let link: FakeLink;
+  let connection: InstanceType<typeof MultiplexedConnection>;
+
+  beforeEach(() => {
+    link = new FakeLink();
+    connection = new MultiplexedConnection(link, 3);
+  });
+
+  it('queues frames until the link connects and shares it by priority', async () => {
+    const chat = connection.openChannel('chat', 2);
+    const feed = connection.openChannel('feed', 1);
+
+    const sends = [
+      chat.sendMessage(frame('chat', 1)),
+      chat.sendMessage(frame('chat', 2)),
+      chat.sendMessage(frame('chat', 3)),
+      feed.sendMessage(frame('feed', 1)),
+      feed.sendMessage(frame('feed', 2))
+    ];
+    expect(link.sent).toHaveLength(0);
+
+    await chat.connect('token');
+    await Promise.all(sends);
+
+    expect(link.sent.map(message => message.feature)).toEqual(['chat', 'chat', 'feed', 'chat', 'feed']);
+    expect(chat.getStats()).toMatchObject({ framesSent: 3, queuedFrames: 0 });
+  });
+
+  it('rejects sends on a full channel without blocking other channels', async () => {
+    const chat = connection.openChannel('chat', 1);
+    const feed = connection.openChannel('feed', 1);
+
+    const queued = [1, 2, 3].map(n => chat.sendMessage(frame('chat', n)));
+    await expect(chat.sendMessage(frame('chat', 4))).rejects.toBeInstanceOf(ChannelBackpressureError);
+    const feedSend = feed.sendMessage(frame('feed', 1));
+
+    await feed.connect('token');
+    await Promise.all([...queued, feedSend]);
+
+    expect(chat.getStats()).toMatchObject({ framesSent: 3, framesRejected: 1 });
+    expect(link.sent).toHaveLength(4);
+  });
+
+  it('rejects queued frames and drops the link when the last channel closes', async () => {
+    const chat = connection.openChannel('chat', 1);
+    await chat.connect('token');
+    link.disconnect();
+
+    const pending = chat.sendMessage(frame('chat', 1));
+    chat.disconnect();
+
+    await expect(pending).rejects.toThrow('closed');
+    expect(connection.getChannels()).toHaveLength(0);
+  });
+});
+
+describe('ConnectionManager multiplexing', () => {
+  it('reports logical channels alongside the physical link', async () => {
+    const link = new FakeLink();
+    const cache = { get: async () => null, set: async () => undefined, invalidate: async () => undefined, clear: async () => undefined };
+    const manager = new ConnectionManager(
+      { getCache: () => cache } as unknown as ICacheServiceManager,
+      { enableMultiplexing: true, channelQueueSize: 5, healthCheckInterval: 60_000 },
+      () => link
+    );
+
+    const chatId = await manager.createConnection('chat', 3);
+    const feedId = await manager.createConnection('feed', 1);
+    const connections = manager.getAllConnections();
+
+    expect(connections.filter(conn => conn.kind === 'physical')).toHaveLength(1);
+    const [linkEntry] = connections.filter(conn => conn.kind === 'physical');
+    expect(connections.filter(conn => conn.kind === 'channel')).toEqual([
+      expect.objectContaining({ id: chatId, feature: 'chat', linkId: linkEntry!.id }),
+      expect.objectContaining({ id: feedId, feature: 'feed', linkId: linkEntry!.id })
+    ]);
+
+    const chat = await manager.getConnection('chat');
+    const pending = chat!.sendMessage(frame('chat', 1));
+    await flush();
+    expect(await manager.getConnectionHealth(chatId)).toMatchObject({ queuedFrames: 1, queueCapacity: 5 });
+
+    await manager.removeConnection(linkEntry!.id);
+    await expect(pending).rejects.toThrow('closed');
+    expect(manager.getAllConnections()).toHaveLength(0);
+    await manager.cleanup();
+  });
+});
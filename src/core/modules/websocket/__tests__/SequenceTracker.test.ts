@@ -0,0 +1,80 @@
+/**
+ * Sequence Tracker Tests
+ *
+ * Tests per-topic ordering of sequenced WebSocket messages: duplicates are
+ * dropped, gaps are reported once and held messages are released in order.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+import { SequenceTracker } from '../services/SequenceTracker';
+
+import type { SequencedMessage } from '../services/SequenceTracker';
+
+const createMessage = (sequence: number, topic = 'chat:1'): SequencedMessage => ({
+  id: `msg-${topic}-${sequence}`,
+  type: 'message',
+  feature: 'chat',
+  payload: { sequence },
+  timestamp: new Date(),
+  topic,
+  sequence
+});
+
+const sequencesOf = (messages: { sequence?: number }[]) => messages.map(message => message.sequence);
+
+describe('SequenceTracker', () => {
+  let tracker: SequenceTracker;
+
+  beforeEach(() => {
+    tracker = new SequenceTracker();
+  });
+
+  it('delivers in-order messages and drops duplicates', () => {
+    expect(tracker.accept(createMessage(5))).toMatchObject({ status: 'deliver', recovered: false });
+    expect(tracker.accept(createMessage(6))).toMatchObject({ status: 'deliver' });
+    expect(tracker.accept(createMessage(6))).toEqual({ status: 'duplicate' });
+    expect(tracker.accept(createMessage(3))).toEqual({ status: 'duplicate' });
+
+    expect(tracker.getPositions()).toEqual([{ topic: 'chat:1', lastSequence: 6 }]);
+  });
+
+  it('reports a gap once and releases held messages when it is filled', () => {
+    tracker.accept(createMessage(1));
+
+    expect(tracker.accept(createMessage(4))).toEqual({ status: 'gap', topic: 'chat:1', lastSequence: 1, missing: 2 });
+    expect(tracker.accept(createMessage(5))).toEqual({ status: 'buffered' });
+    expect(tracker.accept(createMessage(4))).toEqual({ status: 'duplicate' });
+
+    const partial = tracker.accept(createMessage(2));
+    expect(partial).toMatchObject({ status: 'deliver', recovered: false });
+    expect(tracker.hasGap('chat:1')).toBe(true);
+
+    const filled = tracker.accept(createMessage(3));
+    expect(filled.status).toBe('deliver');
+    if (filled.status === 'deliver') {
+      expect(sequencesOf(filled.messages)).toEqual([3, 4, 5]);
+      expect(filled.recovered).toBe(true);
+    }
+    expect(tracker.getPositions()).toEqual([{ topic: 'chat:1', lastSequence: 5 }]);
+  });
+
+  it('skips a gap and moves past the held messages', () => {
+    tracker.accept(createMessage(1));
+    tracker.accept(createMessage(9));
+    tracker.accept(createMessage(8));
+
+    expect(sequencesOf(tracker.skipGap('chat:1'))).toEqual([8, 9]);
+    expect(tracker.hasGap('chat:1')).toBe(false);
+    expect(tracker.accept(createMessage(10))).toMatchObject({ status: 'deliver' });
+  });
+
+  it('tracks topics independently', () => {
+    tracker.accept(createMessage(1, 'chat:1'));
+    tracker.accept(createMessage(40, 'notification:7'));
+
+    expect(tracker.accept(createMessage(3, 'chat:1')).status).toBe('gap');
+    expect(tracker.accept(createMessage(41, 'notification:7')).status).toBe('deliver');
+    expect(tracker.getFeature('notification:7')).toBe('chat');
+  });
+});
@@ -44,13 +44,17 @@ export type {
 
 // Message Router - Public API Only (Black Box Pattern)
 export type {
-  FeatureMessageStats, IMessageRouter, MessageHandler, MessageRoute, MessageRouterConfig, MessageTransformer, MessageValidator, RoutingMetrics
+  DeadLetterMessage, FeatureMessageStats, IMessageRouter, MessageHandler, MessageRoute, MessageRouterConfig, MessageTransformer, MessageValidator, RoutingMetrics, TypedWebSocketMessage
 } from './services/MessageRouter';
+export { MessageValidationError } from './services/MessageRouter';
+export type { SequencedMessage, TopicPosition } from './services/SequenceTracker';
 
 // Connection Management - Public API Only (Black Box Pattern)
 export type {
   ConnectionHealth, ConnectionPool, ConnectionPoolConfig, IConnectionManager
 } from './managers/ConnectionManager';
+export type { ChannelStats } from './managers/MultiplexedConnection';
+export { ChannelBackpressureError } from './managers/MultiplexedConnection';
 
 // Dependency Injection - Public API Factory Functions (Black Box Pattern)
 export {
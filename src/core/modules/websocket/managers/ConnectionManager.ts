@@ -7,7 +7,12 @@
 
 import { ICacheServiceManager } from '../../caching';
 import { getLogger } from '../../logging';
-import { IEnterpriseWebSocketService } from '../services/EnterpriseWebSocketService';
+import { EnterpriseWebSocketService } from '../services/EnterpriseWebSocketService';
+
+import { MultiplexedConnection } from './MultiplexedConnection';
+
+import type { LogicalChannel } from './MultiplexedConnection';
+import type { IEnterpriseWebSocketService } from '../services/EnterpriseWebSocketService';
 
 export interface ConnectionPool {
   id: string;
@@ -17,6 +22,10 @@ export interface ConnectionPool {
   isActive: boolean;
   lastUsed: Date;
   healthScore: number;
+  /** Physical socket (default), or logical channel carried by a multiplexed link */
+  kind?: 'physical' | 'channel';
+  /** Physical connection carrying a channel */
+  linkId?: string;
 }
 
 export interface ConnectionHealth {
@@ -27,6 +36,9 @@ export interface ConnectionHealth {
   errorCount: number;
   lastError: Date | null;
   lastHealthCheck: Date;
+  /** Outgoing frames waiting in a channel queue, and the queue capacity */
+  queuedFrames?: number;
+  queueCapacity?: number;
 }
 
 export interface ConnectionPoolConfig {
@@ -36,6 +48,10 @@ export interface ConnectionPoolConfig {
   maxRetries: number;
   loadBalancingStrategy: 'round-robin' | 'least-connections' | 'priority';
   enableFailover: boolean;
+  /** Carry every feature as a logical channel over one physical connection (default: false) */
+  enableMultiplexing?: boolean;
+  /** Outgoing frames a channel may queue before sends are rejected (default: 100) */
+  channelQueueSize?: number;
 }
 
 /**
@@ -57,18 +73,27 @@ export interface IConnectionManager {
 export class ConnectionManager implements IConnectionManager {
   private readonly connections = new Map<string, ConnectionPool>();
   private readonly healthChecks = new Map<string, NodeJS.Timeout>();
-  private readonly config: ConnectionPoolConfig;
+  private readonly healthStatus = new Map<string, ConnectionHealth>();
+  private healthCheckTimer: NodeJS.Timeout | null = null;
+  private readonly config: Required<ConnectionPoolConfig>;
   private roundRobinIndex = 0;
+  private multiplexer: { id: string; connection: MultiplexedConnection } | null = null;
   private readonly logger = getLogger('app.websocket.connectionManager');
 
   constructor(
-    private readonly cache: ICacheServiceManager
+    private readonly cache: ICacheServiceManager,
+    config?: Partial<ConnectionPoolConfig>,
+    private readonly createLink: () => IEnterpriseWebSocketService = () => new EnterpriseWebSocketService(cache)
   ) {
-    this.config = this.getDefaultConfig();
+    this.config = { ...this.getDefaultConfig(), ...config };
     this.startHealthChecks();
   }
 
   async createConnection(feature: string, priority: number = 1): Promise<string> {
+    if (this.config.enableMultiplexing) {
+      return this.createChannel(feature, priority);
+    }
+
     const connectionId = this.generateConnectionId(feature);
 
     // Check if we've reached max connections
@@ -87,14 +112,69 @@ export class ConnectionManager implements IConnectionManager {
       priority,
       isActive: true,
       lastUsed: new Date(),
-      healthScore: 100
+      healthScore: 100,
+      kind: 'physical'
     };
 
-    this.connections.set(connectionId, connectionPool);
+    this.registerConnection(connectionPool);
+
+    this.logger.info(`[ConnectionManager] Created connection for feature: ${feature}, ID: ${connectionId}`);
+
+    return connectionId;
+  }
+
+  /**
+   * Open a logical channel for a feature on the shared physical connection
+   */
+  private createChannel(feature: string, priority: number): string {
+    const existing = Array.from(this.connections.values())
+      .find(conn => conn.kind === 'channel' && conn.feature === feature);
+    if (existing) {
+      existing.isActive = true;
+      existing.lastUsed = new Date();
+      return existing.id;
+    }
+
+    if (!this.multiplexer) {
+      const link = this.createLink();
+      const linkId = this.generateConnectionId('multiplexed');
+      this.multiplexer = { id: linkId, connection: new MultiplexedConnection(link, this.config.channelQueueSize) };
+      this.registerConnection({
+        id: linkId,
+        feature: '*',
+        service: link,
+        priority: 0,
+        isActive: true,
+        lastUsed: new Date(),
+        healthScore: 100,
+        kind: 'physical'
+      });
+    }
+
+    const channelId = this.generateConnectionId(feature);
+    this.registerConnection({
+      id: channelId,
+      feature,
+      service: this.multiplexer.connection.openChannel(feature, priority),
+      priority,
+      isActive: true,
+      lastUsed: new Date(),
+      healthScore: 100,
+      kind: 'channel',
+      linkId: this.multiplexer.id
+    });
+
+    this.logger.info({}, `[ConnectionManager] Opened channel for feature: ${feature}, ID: ${channelId}`);
+
+    return channelId;
+  }
+
+  private registerConnection(connection: ConnectionPool): void {
+    this.connections.set(connection.id, connection);
 
     // Initialize health status
-    this.healthStatus.set(connectionId, {
-      connectionId,
+    this.healthStatus.set(connection.id, {
+      connectionId: connection.id,
       status: 'healthy',
       latency: 0,
       uptime: 0,
@@ -102,10 +182,6 @@ export class ConnectionManager implements IConnectionManager {
       lastError: null,
       lastHealthCheck: new Date()
     });
-
-    this.logger.info(`[ConnectionManager] Created connection for feature: ${feature}, ID: ${connectionId}`);
-
-    return connectionId;
   }
 
   async getConnection(feature: string): Promise<IEnterpriseWebSocketService | null> {
@@ -165,7 +241,11 @@ export class ConnectionManager implements IConnectionManager {
       return cachedHealth;
     }
 
-    const health = this.healthStatus.get(connectionId) || null;
+    const status = this.healthStatus.get(connectionId);
+    const channel = this.getChannel(connectionId);
+    const health = status && channel
+      ? { ...status, queuedFrames: channel.queue.length, queueCapacity: channel.capacity }
+      : status || null;
     if (health) {
       // Cache health status for 15 seconds
       await this.cache.getCache('websocket').set(cacheKey, health, 15000);
@@ -181,8 +261,21 @@ export class ConnectionManager implements IConnectionManager {
   async removeConnection(connectionId: string): Promise<void> {
     const connection = this.connections.get(connectionId);
     if (connection) {
-      // Disconnect the WebSocket service
-      if (connection.service && connection.service.isConnected()) {
+      if (connection.id === this.multiplexer?.id) {
+        // Channels cannot outlive the link carrying them
+        const channelIds = Array.from(this.connections.values())
+          .filter(conn => conn.linkId === connectionId)
+          .map(conn => conn.id);
+        for (const channelId of channelIds) {
+          await this.removeConnection(channelId);
+        }
+        this.multiplexer = null;
+      }
+
+      // Disconnect the WebSocket service (or close the channel)
+      if (connection.kind === 'channel') {
+        connection.service?.disconnect();
+      } else if (connection.service && connection.service.isConnected()) {
         connection.service.disconnect();
       }
 
@@ -247,7 +340,7 @@ export class ConnectionManager implements IConnectionManager {
       throw new Error('Connection service not available');
     }
 
-    const currentHealth = this.healthStatus.get(connection.id) || {
+    const currentHealth: ConnectionHealth = this.healthStatus.get(connection.id) || {
       connectionId: connection.id,
       status: 'healthy',
       latency: 0,
@@ -265,10 +358,15 @@ export class ConnectionManager implements IConnectionManager {
       // Calculate latency (ping test)
       const latency = await this.measureLatency(connection.service);
 
+      // A channel whose queue is nearly full is degraded even on a healthy link
+      const channel = this.getChannel(connection.id);
+      const backpressure = channel ? channel.queue.length / channel.capacity : 0;
+      const status = this.determineHealthStatus(isConnected, latency, currentHealth.errorCount);
+
       // Update health status
       const health: ConnectionHealth = {
         ...currentHealth,
-        status: this.determineHealthStatus(isConnected, latency, currentHealth.errorCount),
+        status: status === 'healthy' && backpressure >= 0.8 ? 'degraded' : status,
         latency,
         uptime: metrics.connectionUptime,
         lastHealthCheck: new Date()
@@ -306,6 +404,11 @@ export class ConnectionManager implements IConnectionManager {
     }
   }
 
+  private getChannel(connectionId: string): LogicalChannel | undefined {
+    const connection = this.connections.get(connectionId);
+    return connection?.kind === 'channel' ? connection.service as LogicalChannel : undefined;
+  }
+
   private determineHealthStatus(isConnected: boolean, latency: number, errorCount: number): 'healthy' | 'degraded' | 'unhealthy' {
     if (!isConnected || errorCount > 5) {
       return 'unhealthy';
@@ -434,14 +537,16 @@ export class ConnectionManager implements IConnectionManager {
     return `conn_${feature}_${timestamp}_${random}`;
   }
 
-  private getDefaultConfig(): ConnectionPoolConfig {
+  private getDefaultConfig(): Required<ConnectionPoolConfig> {
     return {
       maxConnections: 10,
       healthCheckInterval: 30000, // 30 seconds
       connectionTimeout: 10000, // 10 seconds
       maxRetries: 3,
       loadBalancingStrategy: 'priority',
-      enableFailover: true
+      enableFailover: true,
+      enableMultiplexing: false,
+      channelQueueSize: 100
     };
   }
 
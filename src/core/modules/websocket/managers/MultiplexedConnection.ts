@@ -0,0 +1,260 @@
+/**
+ * Multiplexed WebSocket Connection.
+ *
+ * Carries logical channels for several features over one physical
+ * connection. Outgoing frames are queued per channel (bounded, for
+ * backpressure) and scheduled by weighted round-robin on the channel
+ * priority, so busy high-priority channels cannot starve the others.
+ */
+
+import { getLogger } from '../../logging';
+
+import type {
+  ConnectionMetrics,
+  IEnterpriseWebSocketService,
+  WebSocketConfig,
+  WebSocketEventListener,
+  WebSocketMessage
+} from '../services/EnterpriseWebSocketService';
+
+type OutgoingMessage = Omit<WebSocketMessage, 'id' | 'timestamp'>;
+
+interface QueuedFrame {
+  message: OutgoingMessage;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Thrown when a channel's outgoing queue is full
+ */
+export class ChannelBackpressureError extends Error {
+  constructor(readonly feature: string, readonly capacity: number) {
+    super(`Channel ${feature} has ${capacity} frames queued`);
+    this.name = 'ChannelBackpressureError';
+  }
+}
+
+export interface ChannelStats {
+  feature: string;
+  priority: number;
+  queuedFrames: number;
+  capacity: number;
+  framesSent: number;
+  framesRejected: number;
+}
+
+/**
+ * Logical channel of a multiplexed connection. It behaves like a dedicated
+ * WebSocket service for its feature while sharing the physical link.
+ */
+export class LogicalChannel implements IEnterpriseWebSocketService {
+  readonly queue: QueuedFrame[] = [];
+  framesSent = 0;
+  framesRejected = 0;
+  messagesReceived = 0;
+  isOpen = true;
+  private readonly unsubscribers: (() => void)[] = [];
+
+  constructor(
+    readonly feature: string,
+    readonly priority: number,
+    readonly capacity: number,
+    private readonly connection: MultiplexedConnection
+  ) {}
+
+  async connect(token: string, config?: Partial<WebSocketConfig>): Promise<void> {
+    this.isOpen = true;
+    await this.connection.connectLink(token, config);
+  }
+
+  disconnect(): void {
+    this.connection.closeChannel(this);
+  }
+
+  sendMessage(message: OutgoingMessage): Promise<void> {
+    if (!this.isOpen) {
+      return Promise.reject(new Error(`Channel ${this.feature} is closed`));
+    }
+
+    if (this.queue.length >= this.capacity) {
+      this.framesRejected++;
+      return Promise.reject(new ChannelBackpressureError(this.feature, this.capacity));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      this.queue.push({ message, resolve, reject });
+      this.connection.schedule();
+    });
+  }
+
+  subscribe(feature: string, listener: WebSocketEventListener): () => void {
+    const unsubscribe = this.connection.link.subscribe(feature, {
+      ...listener,
+      ...(listener.onMessage && {
+        onMessage: (message: WebSocketMessage) => {
+          this.messagesReceived++;
+          listener.onMessage!(message);
+        }
+      })
+    });
+    this.unsubscribers.push(unsubscribe);
+    return unsubscribe;
+  }
+
+  unsubscribe(): void {
+    // Only drop this channel's listeners; other channels share the feature map
+    this.releaseListeners();
+  }
+
+  isConnected(): boolean {
+    return this.isOpen && this.connection.link.isConnected();
+  }
+
+  getConnectionMetrics(): ConnectionMetrics {
+    return {
+      ...this.connection.link.getConnectionMetrics(),
+      messagesSent: this.framesSent,
+      messagesReceived: this.messagesReceived
+    };
+  }
+
+  getConnectionState(): 'connecting' | 'connected' | 'disconnected' | 'reconnecting' | 'error' {
+    return this.isOpen ? this.connection.link.getConnectionState() : 'disconnected';
+  }
+
+  getStats(): ChannelStats {
+    return {
+      feature: this.feature,
+      priority: this.priority,
+      queuedFrames: this.queue.length,
+      capacity: this.capacity,
+      framesSent: this.framesSent,
+      framesRejected: this.framesRejected
+    };
+  }
+
+  releaseListeners(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers.length = 0;
+  }
+}
+
+/**
+ * One physical WebSocket connection shared by logical channels
+ */
+export class MultiplexedConnection {
+  private readonly channels = new Map<string, LogicalChannel>();
+  private readonly logger = getLogger('app.websocket.multiplexer');
+  private draining = false;
+  // Weighted round-robin state: channel whose turn it is and sends left in it
+  private turn: string | undefined;
+  private credit = 0;
+  private unsubscribeLink: (() => void) | null = null;
+
+  constructor(
+    readonly link: IEnterpriseWebSocketService,
+    private readonly channelCapacity: number
+  ) {}
+
+  openChannel(feature: string, priority: number): LogicalChannel {
+    const existing = this.channels.get(feature);
+    if (existing) {
+      existing.isOpen = true;
+      return existing;
+    }
+
+    const channel = new LogicalChannel(feature, priority, this.channelCapacity, this);
+    this.channels.set(feature, channel);
+    this.logger.info({}, `[Multiplexer] Opened channel: ${feature}, priority: ${priority}`);
+    return channel;
+  }
+
+  closeChannel(channel: LogicalChannel): void {
+    channel.isOpen = false;
+    channel.releaseListeners();
+    channel.queue.splice(0).forEach(frame => frame.reject(new Error(`Channel ${channel.feature} is closed`)));
+    this.channels.delete(channel.feature);
+    this.logger.info({}, `[Multiplexer] Closed channel: ${channel.feature}`);
+
+    if (this.channels.size === 0 && this.link.isConnected()) {
+      this.unsubscribeLink?.();
+      this.unsubscribeLink = null;
+      this.link.disconnect();
+    }
+  }
+
+  async connectLink(token: string, config?: Partial<WebSocketConfig>): Promise<void> {
+    if (!this.unsubscribeLink) {
+      // Frames queued while the link was down go out once it is back
+      this.unsubscribeLink = this.link.subscribe('system', { onConnect: () => this.schedule() });
+    }
+
+    if (!this.link.isConnected()) {
+      await this.link.connect(token, config);
+    }
+    this.schedule();
+  }
+
+  getChannels(): LogicalChannel[] {
+    return Array.from(this.channels.values());
+  }
+
+  /**
+   * Start sending queued frames unless a drain is already running
+   */
+  schedule(): void {
+    if (this.draining) {
+      return;
+    }
+    void this.drain();
+  }
+
+  private async drain(): Promise<void> {
+    this.draining = true;
+
+    try {
+      let frame = this.link.isConnected() ? this.nextFrame() : undefined;
+      while (frame) {
+        const { channel, queued } = frame;
+        try {
+          await this.link.sendMessage(queued.message);
+          channel.framesSent++;
+          queued.resolve();
+        } catch (error) {
+          queued.reject(error instanceof Error ? error : new Error(String(error)));
+        }
+        frame = this.link.isConnected() ? this.nextFrame() : undefined;
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Pick the next frame: each channel with queued frames gets a turn of up
+   * to `priority` sends per round, higher priorities first
+   */
+  private nextFrame(): { channel: LogicalChannel; queued: QueuedFrame } | undefined {
+    const order = this.getChannels().sort((a, b) => b.priority - a.priority);
+    if (!order.some(channel => channel.queue.length > 0)) {
+      this.turn = undefined;
+      this.credit = 0;
+      return undefined;
+    }
+
+    let index = order.findIndex(channel => channel.feature === this.turn);
+    if (index === -1 || this.credit <= 0 || order[index]!.queue.length === 0) {
+      // The turn passes to the next channel with queued frames
+      do {
+        index = (index + 1) % order.length;
+      } while (order[index]!.queue.length === 0);
+      this.turn = order[index]!.feature;
+      this.credit = Math.max(1, order[index]!.priority);
+    }
+
+    const channel = order[index]!;
+    this.credit--;
+    return { channel, queued: channel.queue.shift()! };
+  }
+}
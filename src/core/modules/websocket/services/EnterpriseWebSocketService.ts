@@ -9,10 +9,15 @@ import { type ICacheServiceManager } from '../../caching';
 
 // Import centralized logging
 import { getLogger } from '../../logging';
+import type { ILoggingContext } from '../../logging';
 
 // Import centralized error handling
 import { createSystemError, createNetworkError } from '../../error';
 
+import { isSequencedMessage, SequenceTracker } from './SequenceTracker';
+
+import type { SequencedMessage } from './SequenceTracker';
+
 // WebSocket Message Types
 export interface WebSocketMessage {
   id: string;
@@ -21,6 +26,10 @@ export interface WebSocketMessage {
   payload: unknown;
   timestamp: Date;
   metadata?: Record<string, unknown>;
+  /** Subscription topic for messages the server numbers per topic (e.g. `chat:42`) */
+  topic?: string;
+  /** Position of the message in its topic, used to detect missed messages */
+  sequence?: number;
 }
 
 export interface WebSocketConfig {
@@ -30,6 +39,10 @@ export interface WebSocketConfig {
   heartbeatInterval: number;
   enableMetrics: boolean;
   connectionTimeout: number;
+  /** Largest gap in a topic requested from the server before falling back to a REST resync */
+  maxReplayGap: number;
+  /** Time to wait for a requested replay before falling back to a REST resync */
+  replayTimeout: number;
 }
 
 export interface ConnectionMetrics {
@@ -40,6 +53,8 @@ export interface ConnectionMetrics {
   reconnectAttempts: number;
   averageLatency: number;
   connectionUptime: number;
+  gapsDetected: number;
+  gapsRecovered: number;
 }
 
 export interface WebSocketEventListener {
@@ -48,6 +63,11 @@ export interface WebSocketEventListener {
   onMessage?: (message: WebSocketMessage) => void;
   onError?: (error: Event) => void;
   onReconnect?: (attempt: number) => void;
+  /**
+   * Called when missed messages in a topic of the feature cannot be replayed;
+   * the feature should reload the topic through its repositories
+   */
+  onResync?: (topic: string) => Promise<void> | void;
 }
 
 /**
@@ -64,6 +84,8 @@ export interface IEnterpriseWebSocketService {
   getConnectionState(): 'connecting' | 'connected' | 'disconnected' | 'reconnecting' | 'error';
 }
 
+const LOG_CONTEXT: ILoggingContext = { component: 'EnterpriseWebSocketService' };
+
 /**
  * Enterprise WebSocket Service Implementation
  */
@@ -78,6 +100,8 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
   private latencyTimer: NodeJS.Timeout | null = null;
   private connectionStartTime: number = 0;
   private token: string | null = null;
+  private readonly sequenceTracker = new SequenceTracker();
+  private readonly replayTimers = new Map<string, NodeJS.Timeout>();
   private readonly logger = getLogger('app.websocket');
 
   constructor(
@@ -89,7 +113,7 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
 
   async connect(token: string, config?: Partial<WebSocketConfig>): Promise<void> {
     if (this.connectionState === 'connected' || this.connectionState === 'connecting') {
-      this.logger.warn('[WebSocket] Already connecting or connected');
+      this.logger.warn(LOG_CONTEXT, '[WebSocket] Already connecting or connected');
       return;
     }
 
@@ -120,12 +144,12 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
         timeoutPromise
       ]);
 
-      this.logger.info('[WebSocket] Connected successfully');
+      this.logger.info(LOG_CONTEXT, '[WebSocket] Connected successfully');
       this.startHeartbeat();
 
     } catch (error) {
       this.connectionState = 'error';
-      this.logger.error('[WebSocket] Connection failed:', error instanceof Error ? error : new Error(String(error)));
+      this.logger.error(LOG_CONTEXT, '[WebSocket] Connection failed:', error instanceof Error ? error : new Error(String(error)));
       throw createSystemError('Connection failed', 'EnterpriseWebSocketService', 'connect');
     }
   }
@@ -141,8 +165,9 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
     this.connectionState = 'disconnected';
     this.token = null;
     this.listeners.clear();
+    this.sequenceTracker.reset();
 
-    this.logger.info('[WebSocket] Disconnected');
+    this.logger.info(LOG_CONTEXT, '[WebSocket] Disconnected');
   }
 
   async sendMessage(message: Omit<WebSocketMessage, 'id' | 'timestamp'>): Promise<void> {
@@ -165,9 +190,9 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
       const websocketCache = this.cache.getCache('websocket');
       websocketCache.set(`ws:sent:${fullMessage.id}`, fullMessage, 60000); // 1 minute
 
-      this.logger.debug('[WebSocket] Message sent:', fullMessage);
+      this.logger.debug(LOG_CONTEXT, '[WebSocket] Message sent:', fullMessage);
     } catch (error) {
-      this.logger.error('[WebSocket] Failed to send message:', error instanceof Error ? error : new Error(String(error)));
+      this.logger.error(LOG_CONTEXT, '[WebSocket] Failed to send message:', error instanceof Error ? error : new Error(String(error)));
       throw createSystemError('Failed to send message', 'EnterpriseWebSocketService', 'sendMessage');
     }
   }
@@ -180,7 +205,7 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
     const featureListeners = this.listeners.get(feature)!;
     featureListeners.push(listener);
 
-    this.logger.debug(`[WebSocket] Subscribed to feature: ${feature}`);
+    this.logger.debug(LOG_CONTEXT, `[WebSocket] Subscribed to feature: ${feature}`);
 
     // Return unsubscribe function
     return () => {
@@ -196,7 +221,7 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
 
   unsubscribe(feature: string): void {
     this.listeners.delete(feature);
-    this.logger.debug(`[WebSocket] Unsubscribed from feature: ${feature}`);
+    this.logger.debug(LOG_CONTEXT, `[WebSocket] Unsubscribed from feature: ${feature}`);
   }
 
   isConnected(): boolean {
@@ -226,8 +251,9 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
         this.metrics.connectedAt = new Date();
         this.metrics.reconnectAttempts = 0;
 
-        this.logger.info('[WebSocket] Connection opened');
+        this.logger.info(LOG_CONTEXT, '[WebSocket] Connection opened');
         this.notifyListeners('onConnect');
+        this.resumeSubscriptions();
         resolve();
       };
 
@@ -251,12 +277,18 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
           const websocketCache = this.cache.getCache('websocket');
           websocketCache.set(`ws:received:${message.id}`, message, 300000); // 5 minutes
 
-          this.logger.debug('[WebSocket] Message received:', message);
-          this.notifyFeatureListeners(message);
-          this.notifyListeners('onMessage', message);
+          this.logger.debug(LOG_CONTEXT, '[WebSocket] Message received:', message);
+
+          if (message.feature === 'system' && message.type === 'resync_required') {
+            this.handleResyncRequired(message);
+          } else if (isSequencedMessage(message)) {
+            this.handleSequencedMessage(message);
+          } else {
+            this.deliverMessage(message);
+          }
 
         } catch (error) {
-          this.logger.error('[WebSocket] Message parsing error:', error instanceof Error ? error : new Error(String(error)));
+          this.logger.error(LOG_CONTEXT, '[WebSocket] Message parsing error:', error instanceof Error ? error : new Error(String(error)));
         }
       };
 
@@ -264,7 +296,7 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
         this.connectionState = 'disconnected';
         this.clearTimers();
 
-        this.logger.info('[WebSocket] Connection closed:', event);
+        this.logger.info(LOG_CONTEXT, '[WebSocket] Connection closed:', event);
         this.notifyListeners('onDisconnect', event);
 
         // Attempt reconnection if not manual disconnect
@@ -275,7 +307,7 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
 
       this.ws.onerror = (error) => {
         this.connectionState = 'error';
-        this.logger.error('[WebSocket] Connection error:', error instanceof Error ? error : new Error(String(error)));
+        this.logger.error(LOG_CONTEXT, '[WebSocket] Connection error:', error instanceof Error ? error : new Error(String(error)));
         this.notifyListeners('onError', error);
         reject(createSystemError('Connection error', 'EnterpriseWebSocketService', 'setupWebSocketHandlers'));
       };
@@ -290,7 +322,7 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
     this.connectionState = 'reconnecting';
     this.metrics.reconnectAttempts++;
 
-    this.logger.info(`[WebSocket] Reconnect attempt ${this.metrics.reconnectAttempts}/${this.config.reconnectAttempts}`);
+    this.logger.info(LOG_CONTEXT, `[WebSocket] Reconnect attempt ${this.metrics.reconnectAttempts}/${this.config.reconnectAttempts}`);
     this.notifyListeners('onReconnect', this.metrics.reconnectAttempts);
 
     const delay = this.config.reconnectDelay * Math.pow(2, this.metrics.reconnectAttempts - 1);
@@ -301,17 +333,141 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
           await this.connect(this.token);
         }
       } catch (error) {
-        this.logger.error('[WebSocket] Reconnection failed:', error instanceof Error ? error : new Error(String(error)));
+        this.logger.error(LOG_CONTEXT, '[WebSocket] Reconnection failed:', error instanceof Error ? error : new Error(String(error)));
         if (this.metrics.reconnectAttempts < this.config.reconnectAttempts) {
           this.handleReconnect();
         } else {
           this.connectionState = 'error';
-          this.logger.error('[WebSocket] Max reconnect attempts reached');
+          this.logger.error(LOG_CONTEXT, '[WebSocket] Max reconnect attempts reached');
         }
       }
     }, delay);
   }
 
+  private deliverMessage(message: WebSocketMessage): void {
+    this.notifyFeatureListeners(message);
+    this.notifyListeners('onMessage', message);
+  }
+
+  /**
+   * Deliver topic messages in order, asking the server to replay missed ones
+   */
+  private handleSequencedMessage(message: SequencedMessage): void {
+    const result = this.sequenceTracker.accept(message);
+
+    switch (result.status) {
+      case 'duplicate':
+        this.logger.debug(LOG_CONTEXT, `[WebSocket] Dropped duplicate message ${message.topic}#${message.sequence}`);
+        break;
+      case 'buffered':
+        break;
+      case 'deliver':
+        result.messages.forEach(delivered => this.deliverMessage(delivered));
+        if (result.recovered) {
+          this.clearReplayTimer(message.topic);
+          this.metrics.gapsRecovered++;
+          this.logger.info(LOG_CONTEXT, `[WebSocket] Recovered missed messages in: ${message.topic}`);
+        }
+        break;
+      case 'gap':
+        this.metrics.gapsDetected++;
+        this.logger.warn(LOG_CONTEXT, `[WebSocket] Missed ${result.missing} message(s) in: ${result.topic}`);
+        if (result.missing > this.config.maxReplayGap) {
+          void this.resyncTopic(result.topic);
+        } else {
+          this.requestReplay(result.topic, result.lastSequence);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Ask the server for the messages after the last one delivered, falling
+   * back to a REST resync if they do not arrive in time
+   */
+  private requestReplay(topic: string, lastSequence: number): void {
+    this.sendMessage({
+      type: 'replay',
+      feature: 'system',
+      payload: { topic, lastSequence }
+    }).catch(error => {
+      this.logger.error(LOG_CONTEXT, '[WebSocket] Replay request failed:', error instanceof Error ? error : new Error(String(error)));
+    });
+
+    this.clearReplayTimer(topic);
+    this.replayTimers.set(topic, setTimeout(() => {
+      this.replayTimers.delete(topic);
+      if (this.sequenceTracker.hasGap(topic)) {
+        void this.resyncTopic(topic);
+      }
+    }, this.config.replayTimeout));
+  }
+
+  /**
+   * Send the last sequence seen per topic after a reconnect so the server
+   * replays what was sent while the connection was down
+   */
+  private resumeSubscriptions(): void {
+    const subscriptions = this.sequenceTracker.getPositions();
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    this.sendMessage({
+      type: 'resume',
+      feature: 'system',
+      payload: { subscriptions }
+    }).catch(error => {
+      this.logger.error(LOG_CONTEXT, '[WebSocket] Resume request failed:', error instanceof Error ? error : new Error(String(error)));
+    });
+  }
+
+  /**
+   * The server no longer holds the missed messages for a topic
+   */
+  private handleResyncRequired(message: WebSocketMessage): void {
+    const payload = message.payload as { topic?: unknown } | null;
+    if (typeof payload?.topic !== 'string') {
+      this.logger.warn(LOG_CONTEXT, '[WebSocket] Resync required without a topic');
+      return;
+    }
+
+    this.metrics.gapsDetected++;
+    void this.resyncTopic(payload.topic);
+  }
+
+  /**
+   * Reload a topic through the feature listeners, then release the messages
+   * held behind the gap
+   */
+  private async resyncTopic(topic: string): Promise<void> {
+    this.clearReplayTimer(topic);
+    const feature = this.sequenceTracker.getFeature(topic) ?? topic.split(':')[0] ?? topic;
+    const resyncHandlers = (this.listeners.get(feature) ?? [])
+      .map(listener => listener.onResync)
+      .filter((onResync): onResync is NonNullable<WebSocketEventListener['onResync']> => onResync !== undefined);
+
+    try {
+      await Promise.all(resyncHandlers.map(onResync => Promise.resolve(onResync(topic))));
+      if (resyncHandlers.length > 0) {
+        this.metrics.gapsRecovered++;
+      }
+      this.logger.info(LOG_CONTEXT, `[WebSocket] Resynced topic: ${topic}`);
+    } catch (error) {
+      this.logger.error(LOG_CONTEXT, `[WebSocket] Resync failed for topic: ${topic}`, error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      this.sequenceTracker.skipGap(topic).forEach(held => this.deliverMessage(held));
+    }
+  }
+
+  private clearReplayTimer(topic: string): void {
+    const timer = this.replayTimers.get(topic);
+    if (timer) {
+      clearTimeout(timer);
+      this.replayTimers.delete(topic);
+    }
+  }
+
   private startHeartbeat(): void {
     this.heartbeatTimer = setInterval(() => {
       if (this.isConnected()) {
@@ -320,7 +476,7 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
           feature: 'system',
           payload: { timestamp: Date.now() }
         }).catch(error => {
-          this.logger.error('[WebSocket] Heartbeat failed:', error instanceof Error ? error : new Error(String(error)));
+          this.logger.error(LOG_CONTEXT, '[WebSocket] Heartbeat failed:', error instanceof Error ? error : new Error(String(error)));
         });
       }
     }, this.config.heartbeatInterval);
@@ -339,6 +495,8 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
       clearTimeout(this.latencyTimer);
       this.latencyTimer = null;
     }
+    this.replayTimers.forEach(timer => clearTimeout(timer));
+    this.replayTimers.clear();
   }
 
   private notifyFeatureListeners(message: WebSocketMessage): void {
@@ -374,7 +532,7 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
               break;
           }
         } catch (error) {
-          this.logger.error(`[WebSocket] Error in ${event} handler:`, error instanceof Error ? error : new Error(String(error)));
+          this.logger.error(LOG_CONTEXT, `[WebSocket] Error in ${event} handler:`, error instanceof Error ? error : new Error(String(error)));
         }
       });
     });
@@ -396,7 +554,9 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
       reconnectDelay: 1000,
       heartbeatInterval: 30000,
       enableMetrics: true,
-      connectionTimeout: 10000
+      connectionTimeout: 10000,
+      maxReplayGap: 100,
+      replayTimeout: 5000
     };
   }
 
@@ -408,7 +568,9 @@ export class EnterpriseWebSocketService implements IEnterpriseWebSocketService {
       messagesSent: 0,
       reconnectAttempts: 0,
       averageLatency: 0,
-      connectionUptime: 0
+      connectionUptime: 0,
+      gapsDetected: 0,
+      gapsRecovered: 0
     };
   }
 }
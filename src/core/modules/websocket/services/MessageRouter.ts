@@ -10,22 +10,58 @@ import { getLogger } from '../../logging';
 
 import { WebSocketMessage } from './EnterpriseWebSocketService';
 
-export interface MessageRoute {
+import type { ZodError, ZodType } from 'zod';
+
+export interface MessageRoute<TPayload = unknown> {
   feature: string;
   messageType: string;
-  handler: MessageHandler;
+  handler: MessageHandler<TPayload>;
+  /**
+   * Zod schema for the message payload. Handlers receive the parsed payload;
+   * messages that do not match go to the dead letter queue.
+   */
+  schema?: ZodType<TPayload>;
   validator?: MessageValidator;
   transformer?: MessageTransformer;
   priority: number;
   enabled: boolean;
 }
 
-export type MessageHandler = (message: WebSocketMessage) => Promise<void> | void;
+/**
+ * WebSocket message whose payload has been validated against a route schema
+ */
+export type TypedWebSocketMessage<TPayload> = Omit<WebSocketMessage, 'payload'> & { payload: TPayload };
+
+export type MessageHandler<TPayload = unknown> = (message: TypedWebSocketMessage<TPayload>) => Promise<void> | void;
 
 export type MessageValidator = (message: WebSocketMessage) => boolean | Promise<boolean>;
 
 export type MessageTransformer = (message: WebSocketMessage) => WebSocketMessage | Promise<WebSocketMessage>;
 
+/**
+ * Message that could not be routed or processed, with the reason
+ */
+export interface DeadLetterMessage {
+  message: WebSocketMessage;
+  error: Error;
+  failedAt: Date;
+}
+
+/**
+ * Thrown when a message payload does not match its route schema
+ */
+export class MessageValidationError extends Error {
+  readonly route: string;
+  readonly issues: ZodError['issues'];
+
+  constructor(route: string, error: ZodError) {
+    super(`Message validation failed for: ${route}`);
+    this.name = 'MessageValidationError';
+    this.route = route;
+    this.issues = error.issues;
+  }
+}
+
 export interface RoutingMetrics {
   totalMessages: number;
   messagesRouted: number;
@@ -56,7 +92,7 @@ export interface MessageRouterConfig {
  * Message Router Interface
  */
 export interface IMessageRouter {
-  registerRoute(route: MessageRoute): void;
+  registerRoute<TPayload>(route: MessageRoute<TPayload>): void;
   unregisterRoute(feature: string, messageType: string): void;
   routeMessage(message: WebSocketMessage): Promise<void>;
   getRoutes(): MessageRoute[];
@@ -72,7 +108,7 @@ export class MessageRouter {
   private readonly routes = new Map<string, MessageRoute[]>();
   private readonly metrics: RoutingMetrics;
   private readonly config: MessageRouterConfig;
-  private deadLetterQueue: WebSocketMessage[] = [];
+  private deadLetterQueue: DeadLetterMessage[] = [];
   private readonly logger = getLogger('app.websocket.messageRouter');
 
   constructor(
@@ -83,7 +119,7 @@ export class MessageRouter {
     this.initializeDefaultRoutes();
   }
 
-  registerRoute(route: MessageRoute): void {
+  registerRoute<TPayload>(route: MessageRoute<TPayload>): void {
     const key = this.getRouteKey(route.feature, route.messageType);
 
     if (!this.routes.has(key)) {
@@ -91,7 +127,8 @@ export class MessageRouter {
     }
 
     const routeList = this.routes.get(key)!;
-    routeList.push(route);
+    // The schema guarantees the handler only sees TPayload
+    routeList.push(route as unknown as MessageRoute);
 
     // Sort by priority (higher priority first)
     routeList.sort((a, b) => b.priority - a.priority);
@@ -152,9 +189,7 @@ export class MessageRouter {
       this.updateMetrics(message.feature, Date.now() - startTime, false);
 
       // Add to dead letter queue if enabled
-      if (this.config.deadLetterQueue) {
-        this.deadLetterQueue.push(message);
-      }
+      this.addToDeadLetterQueue(message, errorObj);
 
       throw errorObj;
     }
@@ -218,9 +253,21 @@ export class MessageRouter {
       }
     }
 
+    // Schema validation always runs: handlers rely on it for their payload type
+    if (route.schema) {
+      const result = route.schema.safeParse(processedMessage.payload);
+      if (!result.success) {
+        this.metrics.validationErrors++;
+        throw new MessageValidationError(`${route.feature}:${route.messageType}`, result.error);
+      }
+      processedMessage = { ...processedMessage, payload: result.data };
+    }
+
+    const handlerMessage = processedMessage;
+
     // Execute handler with timeout
     await this.executeWithTimeout(
-      () => route.handler(processedMessage),
+      () => route.handler(handlerMessage),
       this.config.maxProcessingTime
     );
 
@@ -253,9 +300,7 @@ export class MessageRouter {
     this.metrics.messagesDropped++;
 
     // Add to dead letter queue if enabled
-    if (this.config.deadLetterQueue) {
-      this.deadLetterQueue.push(message);
-    }
+    this.addToDeadLetterQueue(message, new Error(`No route for: ${message.feature}:${message.type}`));
 
     // Cache unroutable message for analysis
     const messageCache = this.cache.getCache('message-router');
@@ -265,6 +310,12 @@ export class MessageRouter {
     }, 3600000); // 1 hour
   }
 
+  private addToDeadLetterQueue(message: WebSocketMessage, error: Error): void {
+    if (this.config.deadLetterQueue) {
+      this.deadLetterQueue.push({ message, error, failedAt: new Date() });
+    }
+  }
+
   private updateMetrics(feature: string, processingTime: number, success: boolean): void {
     if (!this.config.enableMetrics) {
       return;
@@ -425,7 +476,7 @@ export class MessageRouter {
   /**
    * Get dead letter queue messages
    */
-  getDeadLetterQueue(): WebSocketMessage[] {
+  getDeadLetterQueue(): DeadLetterMessage[] {
     return [...this.deadLetterQueue];
   }
 
@@ -441,18 +492,17 @@ export class MessageRouter {
    * Retry messages from dead letter queue
    */
   async retryDeadLetterMessages(): Promise<void> {
-    const messages = [...this.deadLetterQueue];
+    const entries = [...this.deadLetterQueue];
     this.deadLetterQueue = [];
 
-    for (const message of messages) {
+    for (const { message } of entries) {
       try {
         await this.routeMessage(message);
         this.logger.debug(`[MessageRouter] Successfully retried message: ${message.id}`);
       } catch (error) {
+        // routeMessage puts it back in the queue with the new error
         const errorObj = error instanceof Error ? error : new Error(String(error));
         this.logger.error(`[MessageRouter] Failed to retry message: ${message.id}`, errorObj);
-        // Put it back in the queue
-        this.deadLetterQueue.push(message);
       }
     }
   }
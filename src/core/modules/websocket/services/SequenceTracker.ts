@@ -0,0 +1,139 @@
+/**
+ * WebSocket Sequence Tracker.
+ *
+ * Tracks the last sequence number delivered per topic so missed events can be
+ * requested after a reconnect. Duplicates are dropped and messages arriving
+ * after a gap are held until the gap is filled or given up on.
+ */
+
+import type { WebSocketMessage } from './EnterpriseWebSocketService';
+
+/**
+ * Message belonging to a sequenced topic
+ */
+export type SequencedMessage = WebSocketMessage & { topic: string; sequence: number };
+
+/**
+ * Last sequence delivered for a topic, sent to the server on resubscribe
+ */
+export interface TopicPosition {
+  topic: string;
+  lastSequence: number;
+}
+
+export type SequenceResult =
+  /** Messages ready for delivery, in order; `recovered` when they closed a gap */
+  | { status: 'deliver'; messages: WebSocketMessage[]; recovered: boolean }
+  | { status: 'duplicate' }
+  /** Held behind a gap that has already been reported */
+  | { status: 'buffered' }
+  /** New gap: `missing` messages after `lastSequence` were not received */
+  | { status: 'gap'; topic: string; lastSequence: number; missing: number };
+
+export function isSequencedMessage(message: WebSocketMessage): message is SequencedMessage {
+  return typeof message.topic === 'string' && typeof message.sequence === 'number';
+}
+
+export class SequenceTracker {
+  private readonly positions = new Map<string, number>();
+  private readonly pending = new Map<string, Map<number, SequencedMessage>>();
+  private readonly topicFeatures = new Map<string, string>();
+
+  accept(message: SequencedMessage): SequenceResult {
+    const { topic, sequence } = message;
+    const lastSequence = this.positions.get(topic);
+    this.topicFeatures.set(topic, message.feature);
+
+    // First message seen for the topic sets the starting position
+    if (lastSequence === undefined) {
+      this.positions.set(topic, sequence);
+      return { status: 'deliver', messages: [message], recovered: false };
+    }
+
+    const buffered = this.pending.get(topic);
+    if (sequence <= lastSequence || buffered?.has(sequence)) {
+      return { status: 'duplicate' };
+    }
+
+    if (sequence === lastSequence + 1) {
+      this.positions.set(topic, sequence);
+      const flushed = this.flush(topic);
+      return {
+        status: 'deliver',
+        messages: [message, ...flushed],
+        recovered: !!buffered && !this.pending.has(topic)
+      };
+    }
+
+    if (buffered) {
+      buffered.set(sequence, message);
+      return { status: 'buffered' };
+    }
+
+    this.pending.set(topic, new Map([[sequence, message]]));
+    return { status: 'gap', topic, lastSequence, missing: sequence - lastSequence - 1 };
+  }
+
+  /**
+   * Give up on the gap in a topic (after a REST resync) and release the
+   * messages held behind it
+   */
+  skipGap(topic: string): WebSocketMessage[] {
+    const buffered = this.pending.get(topic);
+    if (!buffered) {
+      return [];
+    }
+
+    this.pending.delete(topic);
+    const messages = [...buffered.values()].sort((a, b) => a.sequence - b.sequence);
+    const last = messages[messages.length - 1];
+    if (last) {
+      this.positions.set(topic, last.sequence);
+    }
+    return messages;
+  }
+
+  hasGap(topic: string): boolean {
+    return this.pending.has(topic);
+  }
+
+  getFeature(topic: string): string | undefined {
+    return this.topicFeatures.get(topic);
+  }
+
+  getPositions(): TopicPosition[] {
+    return [...this.positions.entries()].map(([topic, lastSequence]) => ({ topic, lastSequence }));
+  }
+
+  reset(): void {
+    this.positions.clear();
+    this.pending.clear();
+    this.topicFeatures.clear();
+  }
+
+  /**
+   * Deliver held messages that now follow the topic position
+   */
+  private flush(topic: string): WebSocketMessage[] {
+    const buffered = this.pending.get(topic);
+    if (!buffered) {
+      return [];
+    }
+
+    const flushed: WebSocketMessage[] = [];
+    let next = (this.positions.get(topic) ?? 0) + 1;
+    let message = buffered.get(next);
+    while (message) {
+      buffered.delete(next);
+      flushed.push(message);
+      this.positions.set(topic, next);
+      next++;
+      message = buffered.get(next);
+    }
+
+    if (buffered.size === 0) {
+      this.pending.delete(topic);
+    }
+    return flushed;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Password Reset Tests.
+ *
+ * Checks the client-side limits on reset requests and attempts, and that
+ * failures of the recovery endpoints map to StandardErrorMessages.
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+
+import { checkPasswordResetLimit, clearPasswordResetLimit } from '../../application/services/passwordResetLimiter';
+import {
+    ACCOUNT_RECOVERY_ERRORS,
+    getAccountRecoveryErrorCode,
+    getAccountRecoveryErrorMessage
+} from '../../domain/accountRecovery';
+import { StandardErrorMessages } from '@core/modules/error/messages/StandardErrorMessages';
+
+const checkTimes = async (count: number, email?: string) => {
+    const results = [];
+    for (let i = 0; i < count; i++) {
+        results.push(await checkPasswordResetLimit(email));
+    }
+    return results.map(result => result.allowed);
+};
+
+describe('checkPasswordResetLimit', () => {
+    afterEach(() => {
+        clearPasswordResetLimit();
+    });
+
+    it('allows two reset emails per address an hour', async () => {
+        expect(await checkTimes(3, 'alice@example.com')).toEqual([true, true, false]);
+    });
+
+    it('counts addresses regardless of case and whitespace', async () => {
+        await checkPasswordResetLimit('alice@example.com');
+        await checkPasswordResetLimit(' Alice@Example.com ');
+
+        expect((await checkPasswordResetLimit('ALICE@example.com')).allowed).toBe(false);
+    });
+
+    it('limits attempts without an email to three per client', async () => {
+        expect(await checkTimes(4)).toEqual([true, true, true, false]);
+    });
+
+    it('counts requests for every address against the client', async () => {
+        await checkPasswordResetLimit('alice@example.com');
+        await checkPasswordResetLimit('bob@example.com');
+        await checkPasswordResetLimit('carol@example.com');
+
+        expect((await checkPasswordResetLimit('dave@example.com')).allowed).toBe(false);
+    });
+
+    it('starts over once cleared', async () => {
+        await checkTimes(3, 'alice@example.com');
+
+        clearPasswordResetLimit();
+
+        expect((await checkPasswordResetLimit('alice@example.com')).allowed).toBe(true);
+    });
+});
+
+describe('account recovery errors', () => {
+    it.each([
+        [0, ACCOUNT_RECOVERY_ERRORS.NETWORK],
+        [400, ACCOUNT_RECOVERY_ERRORS.TOKEN_INVALID],
+        [410, ACCOUNT_RECOVERY_ERRORS.TOKEN_INVALID],
+        [409, ACCOUNT_RECOVERY_ERRORS.EMAIL_TAKEN],
+        [429, ACCOUNT_RECOVERY_ERRORS.RATE_LIMITED],
+        [503, ACCOUNT_RECOVERY_ERRORS.SERVER]
+    ])('maps status %i to %s', (status, code) => {
+        expect(getAccountRecoveryErrorCode(status)).toBe(code);
+    });
+
+    it('has a standard message for every code', () => {
+        Object.values(ACCOUNT_RECOVERY_ERRORS).forEach(code => {
+            expect(getAccountRecoveryErrorMessage(code)).toBe(StandardErrorMessages[code]?.userMessage);
+        });
+    });
+});
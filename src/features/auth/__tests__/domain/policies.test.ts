@@ -0,0 +1,124 @@
+/**
+ * Authorization Policy Tests.
+ *
+ * Checks that `can` requires the role's permission first, then narrows it
+ * by ownership, role, post visibility and account privacy.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+import { PERMISSIONS, ROLES } from '../../domain/permissions';
+import { can, hasRoleAtLeast, POLICIES } from '../../domain/policies';
+
+import type { PolicyRule, PolicySubject, PostResource } from '../../domain/policies';
+
+const alice: PolicySubject = { id: 'alice', role: ROLES.USER };
+const bob: PolicySubject = { id: 'bob', role: ROLES.USER };
+const moderator: PolicySubject = { id: 'mod', roles: [ROLES.MODERATOR] };
+const guest: PolicySubject = { id: 'guest', role: ROLES.GUEST };
+
+const alicesPost: PostResource = { type: 'post', authorId: 'alice' };
+
+describe('Authorization policies', () => {
+    describe('without a resource', () => {
+        it('checks the permission of the role', () => {
+            expect(can(alice, PERMISSIONS.CREATE_POSTS)).toBe(true);
+            expect(can(guest, PERMISSIONS.CREATE_POSTS)).toBe(false);
+            expect(can(moderator, PERMISSIONS.MANAGE_CONTENT)).toBe(true);
+        });
+
+        it('accepts explicitly granted permissions', () => {
+            expect(can({ id: 'svc', permissions: [PERMISSIONS.VIEW_ANALYTICS] }, PERMISSIONS.VIEW_ANALYTICS)).toBe(true);
+        });
+
+        it('denies signed-out users', () => {
+            expect(can(null, PERMISSIONS.READ_POSTS)).toBe(false);
+        });
+    });
+
+    describe('posts', () => {
+        it('lets only the author edit', () => {
+            expect(can(alice, PERMISSIONS.EDIT_POSTS, alicesPost)).toBe(true);
+            expect(can(bob, PERMISSIONS.EDIT_POSTS, alicesPost)).toBe(false);
+            expect(can(moderator, PERMISSIONS.EDIT_POSTS, alicesPost)).toBe(false);
+        });
+
+        it('does not let anyone edit a repost', () => {
+            expect(can(alice, PERMISSIONS.EDIT_POSTS, { ...alicesPost, isRepost: true })).toBe(false);
+        });
+
+        it('lets the author or a moderator delete', () => {
+            expect(can(alice, PERMISSIONS.DELETE_POSTS, alicesPost)).toBe(true);
+            expect(can(moderator, PERMISSIONS.DELETE_POSTS, alicesPost)).toBe(true);
+            expect(can(bob, PERMISSIONS.DELETE_POSTS, alicesPost)).toBe(false);
+        });
+
+        it('shows friends-only posts to the author, followers and moderators', () => {
+            const friendsOnly: PostResource = { ...alicesPost, viewAccess: 'friends' };
+
+            expect(can(bob, PERMISSIONS.READ_POSTS, friendsOnly)).toBe(false);
+            expect(can(bob, PERMISSIONS.READ_POSTS, { ...friendsOnly, viewerFollowsAuthor: true })).toBe(true);
+            expect(can(alice, PERMISSIONS.READ_POSTS, friendsOnly)).toBe(true);
+            expect(can(moderator, PERMISSIONS.READ_POSTS, friendsOnly)).toBe(true);
+            expect(can(guest, PERMISSIONS.READ_POSTS, { ...friendsOnly, viewAccess: 'anyone' })).toBe(true);
+        });
+    });
+
+    describe('comments', () => {
+        const bobsComment = { type: 'comment', authorId: 'bob', postAuthorId: 'alice' } as const;
+
+        it('lets only the author edit', () => {
+            expect(can(bob, PERMISSIONS.EDIT_COMMENTS, bobsComment)).toBe(true);
+            expect(can(alice, PERMISSIONS.EDIT_COMMENTS, bobsComment)).toBe(false);
+        });
+
+        it('lets the author, the post author and moderators delete', () => {
+            expect(can(bob, PERMISSIONS.DELETE_COMMENTS, bobsComment)).toBe(true);
+            expect(can(alice, PERMISSIONS.DELETE_COMMENTS, bobsComment)).toBe(true);
+            expect(can(moderator, PERMISSIONS.DELETE_COMMENTS, bobsComment)).toBe(true);
+            expect(can({ id: 'carol', role: ROLES.USER }, PERMISSIONS.DELETE_COMMENTS, bobsComment)).toBe(false);
+        });
+    });
+
+    describe('chats and profiles', () => {
+        it('limits chats to their members', () => {
+            const chat = { type: 'chat', memberIds: ['alice', 'bob'] } as const;
+
+            expect(can(alice, PERMISSIONS.DELETE_MESSAGES, chat)).toBe(true);
+            expect(can(moderator, PERMISSIONS.READ_MESSAGES, chat)).toBe(false);
+        });
+
+        it('shows private accounts to themselves, followers and moderators', () => {
+            const profile = { type: 'profile', userId: 'alice', isPrivateAccount: true } as const;
+
+            expect(can(bob, PERMISSIONS.VIEW_PROFILES, profile)).toBe(false);
+            expect(can(bob, PERMISSIONS.VIEW_PROFILES, { ...profile, viewerFollows: true })).toBe(true);
+            expect(can(alice, PERMISSIONS.VIEW_PROFILES, profile)).toBe(true);
+            expect(can(moderator, PERMISSIONS.VIEW_PROFILES, profile)).toBe(true);
+        });
+
+        it('compares ids across string and number', () => {
+            expect(can({ id: 7, role: ROLES.USER }, PERMISSIONS.EDIT_PROFILE, { type: 'profile', userId: '7' })).toBe(true);
+        });
+    });
+
+    describe('custom policies', () => {
+        it('lets deny rules override allow rules', () => {
+            const frozen: PolicyRule = {
+                action: PERMISSIONS.EDIT_POSTS,
+                resource: 'post',
+                effect: 'deny',
+                description: 'Frozen',
+                when: () => true
+            };
+
+            expect(can(alice, PERMISSIONS.EDIT_POSTS, alicesPost, [...POLICIES, frozen])).toBe(false);
+        });
+    });
+
+    it('ranks roles', () => {
+        expect(hasRoleAtLeast({ role: ROLES.ADMIN }, ROLES.MODERATOR)).toBe(true);
+        expect(hasRoleAtLeast({ role: ROLES.USER }, ROLES.MODERATOR)).toBe(false);
+        expect(hasRoleAtLeast({}, ROLES.GUEST)).toBe(false);
+    });
+});
@@ -8,7 +8,14 @@
 export { useLoginForm } from './useLoginForm';
 export { useSignupForm } from './useSignupForm';
 export { useActivationForm } from './useActivationForm';
+export { useForgotPasswordForm } from './useForgotPasswordForm';
+export { useResetPasswordForm } from './useResetPasswordForm';
+export { useEmailChangeForm } from './useEmailChangeForm';
+export { useConfirmEmailChange } from './useConfirmEmailChange';
 export { useSecurityMonitor } from './useSecurityMonitor';
+export { useSessionRevocation } from './useSessionRevocation';
+export { useRequireRecentAuth } from './useRequireRecentAuth';
+export { usePolicy } from './usePolicy';
 export { useTimer } from './useTimer';
 
 // Enterprise Auth Hooks (new - recommended for use)
@@ -0,0 +1,51 @@
+import { AuthRequestError, fetchEmailChangeConfirmation } from "@features/auth/data/authRequests";
+import { ACCOUNT_RECOVERY_ERRORS, getAccountRecoveryErrorMessage } from "@features/auth/domain/accountRecovery";
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+
+export type EmailChangeStatus = "confirming" | "confirmed" | "failed";
+
+/**
+ * useConfirmEmailChange hook.
+ *
+ * Confirms an email change with the `token` from the link sent to the new
+ * address, as soon as the page opens. The page is behind ProtectedRoute, so
+ * the link only confirms the change for a signed-in account.
+ */
+export const useConfirmEmailChange = () => {
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get("token") ?? "";
+    const [status, setStatus] = useState<EmailChangeStatus>(token ? "confirming" : "failed");
+    const [error, setError] = useState<string | null>(
+        token ? null : getAccountRecoveryErrorMessage(ACCOUNT_RECOVERY_ERRORS.TOKEN_INVALID)
+    );
+    const navigate = useNavigate();
+    // Tokens are single use; StrictMode would otherwise send it twice and fail the second time
+    const sentToken = useRef<string | null>(null);
+
+    useEffect(() => {
+        if (!token || sentToken.current === token) return;
+        sentToken.current = token;
+
+        fetchEmailChangeConfirmation(token)
+            .then(() => setStatus("confirmed"))
+            .catch((err: unknown) => {
+                console.error("Email change confirmation failed:", err);
+                setStatus("failed");
+                setError(getAccountRecoveryErrorMessage(err instanceof AuthRequestError ? err.code : ACCOUNT_RECOVERY_ERRORS.SERVER));
+            });
+    }, [token]);
+
+    /**
+     * Handles navigating back to the settings page.
+     */
+    const handleSettingsBtn = () => {
+        navigate("/settings");
+    };
+
+    return {
+        status,
+        error,
+        handleSettingsBtn,
+    };
+};
@@ -0,0 +1,90 @@
+import { useFeatureAuth } from "@/core/hooks/useAuthentication";
+import { isValidEmail } from "@core/modules/authentication/providers/ProviderUtils";
+import { StepUpRequiredError } from "@core/modules/authentication/services/StepUpAuthService";
+import { AuthRequestError, fetchEmailChangeRequest } from "@features/auth/data/authRequests";
+import { ACCOUNT_RECOVERY_ERRORS, getAccountRecoveryErrorMessage } from "@features/auth/domain/accountRecovery";
+import * as React from "react";
+import { useRequireRecentAuth } from "./useRequireRecentAuth";
+
+interface EmailChangeFormReturn {
+    email: string;
+    currentEmail: string | null;
+    isSubmitting: boolean;
+    isSent: boolean;
+    error: string | null;
+    handleSubmit: (event: React.FormEvent) => Promise<void>;
+    handleChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+/**
+ * useEmailChangeForm hook.
+ *
+ * This hook manages the form that moves the signed-in account to a new email
+ * address. The form is mounted behind ProtectedRoute, so there is always a
+ * session. Asking for the change needs a recent password or MFA proof; the
+ * address only changes once the link sent to it is opened, which proves the
+ * user owns it.
+ */
+export const useEmailChangeForm = (): EmailChangeFormReturn => {
+    const { token, userEmail } = useFeatureAuth();
+    const { requireRecentAuth, isPending } = useRequireRecentAuth();
+    const [email, setEmail] = React.useState("");
+    const [isSent, setIsSent] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+
+    /**
+     * Handles the form submission event.
+     *
+     * @param {React.FormEvent} event - The form submission event.
+     */
+    const handleSubmit = async (event: React.FormEvent): Promise<void> => {
+        event.preventDefault();
+
+        const address = email.trim();
+        if (!address) {
+            setError(getAccountRecoveryErrorMessage(ACCOUNT_RECOVERY_ERRORS.REQUIRED_FIELD));
+            return;
+        }
+        if (!isValidEmail(address)) {
+            setError(getAccountRecoveryErrorMessage(ACCOUNT_RECOVERY_ERRORS.INVALID_INPUT));
+            return;
+        }
+        if (address.toLowerCase() === userEmail?.toLowerCase()) {
+            setError("That is already your email address.");
+            return;
+        }
+
+        try {
+            setError(null);
+            await requireRecentAuth(() => fetchEmailChangeRequest(token || "", address), "Change your email address");
+            setIsSent(true);
+
+        } catch (err) {
+            // The user closed the step-up prompt; nothing was sent
+            if (err instanceof StepUpRequiredError) return;
+
+            console.error("Email change request failed:", err);
+            setError(getAccountRecoveryErrorMessage(err instanceof AuthRequestError ? err.code : ACCOUNT_RECOVERY_ERRORS.SERVER));
+        }
+    };
+
+    /**
+     * Handles changes to the email field.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} event - The change event of the input.
+     */
+    const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        setEmail(event.target.value);
+        setIsSent(false);
+    };
+
+    return {
+        email,
+        currentEmail: userEmail,
+        isSubmitting: isPending,
+        isSent,
+        error,
+        handleSubmit,
+        handleChange,
+    };
+};
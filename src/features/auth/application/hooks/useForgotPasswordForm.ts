@@ -0,0 +1,100 @@
+import { isValidEmail } from "@core/modules/authentication/providers/ProviderUtils";
+import { AuthRequestError, fetchPasswordResetRequest } from "@features/auth/data/authRequests";
+import { ACCOUNT_RECOVERY_ERRORS, getAccountRecoveryErrorMessage } from "@features/auth/domain/accountRecovery";
+import * as React from "react";
+import { useNavigate } from "react-router-dom";
+import { checkPasswordResetLimit } from "../services/passwordResetLimiter";
+
+interface ForgotPasswordFormReturn {
+    email: string;
+    isSubmitting: boolean;
+    isSent: boolean;
+    error: string | null;
+    handleSubmit: (event: React.FormEvent) => Promise<void>;
+    handleChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+    handleLoginBtn: () => void;
+}
+
+/**
+ * useForgotPasswordForm hook.
+ *
+ * This hook manages the forgot-password form, which emails a reset link to the
+ * account. Requests count against the `password_reset_ip` and
+ * `password_reset_email` rate limits before anything is sent.
+ *
+ * The confirmation reads the same whether or not the account exists, so the
+ * form cannot be used to find out which emails are registered.
+ */
+export const useForgotPasswordForm = (): ForgotPasswordFormReturn => {
+    const [email, setEmail] = React.useState("");
+    const [isSubmitting, setIsSubmitting] = React.useState(false);
+    const [isSent, setIsSent] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+    const navigate = useNavigate();
+
+    /**
+     * Handles the form submission event.
+     *
+     * @param {React.FormEvent} event - The form submission event.
+     */
+    const handleSubmit = async (event: React.FormEvent): Promise<void> => {
+        event.preventDefault();
+
+        const address = email.trim();
+        if (!address) {
+            setError(getAccountRecoveryErrorMessage(ACCOUNT_RECOVERY_ERRORS.REQUIRED_FIELD));
+            return;
+        }
+        if (!isValidEmail(address)) {
+            setError(getAccountRecoveryErrorMessage(ACCOUNT_RECOVERY_ERRORS.INVALID_INPUT));
+            return;
+        }
+
+        try {
+            setIsSubmitting(true);
+            setError(null);
+
+            const limit = await checkPasswordResetLimit(address);
+            if (!limit.allowed) {
+                setError(getAccountRecoveryErrorMessage(ACCOUNT_RECOVERY_ERRORS.RATE_LIMITED));
+                return;
+            }
+
+            await fetchPasswordResetRequest(address);
+            setIsSent(true);
+
+        } catch (err) {
+            console.error("Password reset request failed:", err);
+            setError(getAccountRecoveryErrorMessage(err instanceof AuthRequestError ? err.code : ACCOUNT_RECOVERY_ERRORS.SERVER));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    /**
+     * Handles changes to the email field.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} event - The change event of the input.
+     */
+    const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        setEmail(event.target.value);
+        setIsSent(false);
+    };
+
+    /**
+     * Handles navigating back to the login page.
+     */
+    const handleLoginBtn = () => {
+        navigate("/auth/login");
+    };
+
+    return {
+        email,
+        isSubmitting,
+        isSent,
+        error,
+        handleSubmit,
+        handleChange,
+        handleLoginBtn,
+    };
+};
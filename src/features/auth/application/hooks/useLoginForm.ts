@@ -1,3 +1,7 @@
+import { mfaService } from '@core/modules/authentication/services/MFAService';
+import { isWebAuthnSupported } from '@core/modules/authentication/utils/webauthn';
+import { useAuthStore } from '@core/modules/state-management/zustand';
+import { fetchPasskeyLogin } from '@/features/auth/data/authRequests';
 import * as React from 'react';
 import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
@@ -8,8 +12,11 @@ interface LoginFormReturn {
     isError: boolean;
     error: string | null;
     handleLoginForm: (event: React.FormEvent) => Promise<void>;
+    isPasskeySupported: boolean;
+    handlePasskeyLogin: () => Promise<void>;
     handleFormChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
     handleSignupBtn: () => void;
+    handleForgotPasswordBtn: () => void;
 }
 
 interface AuthError extends Error {
@@ -24,6 +31,7 @@ interface AuthError extends Error {
  * Features:
  * - Form state management
  * - Authentication handling
+ * - Passwordless sign-in with passkeys
  * - Error handling
  * - Navigation
  */
@@ -33,6 +41,8 @@ export const useLoginForm = (): LoginFormReturn => {
     const [isAuthenticating, setIsAuthenticating] = React.useState(false);
     const [isError, setIsError] = React.useState(false);
     const [error, setError] = React.useState<string | null>(null);
+    const [isPasskeySupported] = React.useState(() => isWebAuthnSupported());
+    const setAuthData = useAuthStore(state => state.setAuthData);
     const navigate = useNavigate();
 
     useEffect(() => {
@@ -81,6 +91,34 @@ export const useLoginForm = (): LoginFormReturn => {
         }
     };
 
+    /**
+     * Signs in with a discoverable passkey instead of email and password
+     * and opens a session for the passkey's owner.
+     */
+    const handlePasskeyLogin = async (): Promise<void> => {
+        try {
+            setIsAuthenticating(true);
+            setIsError(false);
+            setError(null);
+
+            const userId = await mfaService.signInWithPasskey();
+            const authData = await fetchPasskeyLogin(userId);
+            setAuthData(authData);
+            navigate("/");
+
+        } catch (err) {
+            // The browser rejects with NotAllowedError when the user dismisses the prompt
+            if (err instanceof DOMException && err.name === 'NotAllowedError') return;
+
+            const authError = err as AuthError;
+            console.error("Passkey login failed:", authError);
+            setIsError(true);
+            setError(authError.message || 'Passkey login failed');
+        } finally {
+            setIsAuthenticating(false);
+        }
+    };
+
     /**
      * Handles changes to form input fields.
      * 
@@ -100,6 +138,13 @@ export const useLoginForm = (): LoginFormReturn => {
         console.log('Navigate to signup page');
     };
 
+    /**
+     * Handles navigating to the forgot-password page.
+     */
+    const handleForgotPasswordBtn = () => {
+        navigate("/auth/forgot-password");
+    };
+
     return {
         formData: {
             email: formData.email || '',
@@ -109,7 +154,10 @@ export const useLoginForm = (): LoginFormReturn => {
         isError,
         error,
         handleLoginForm,
+        isPasskeySupported,
+        handlePasskeyLogin,
         handleFormChange,
         handleSignupBtn,
+        handleForgotPasswordBtn,
     };
 };
@@ -8,8 +8,15 @@ import {
   MFAMethod,
   TOTPEnrollmentData,
   SMSEnrollmentData,
-  BackupCodesEnrollmentData
-} from '@core/auth/services/MFAService';
+  BackupCodesEnrollmentData,
+  SecurityKeyEnrollmentData,
+  BiometricEnrollmentData,
+  PasskeyMethod,
+  mfaService as sharedMFAService
+} from '@core/modules/authentication/services/MFAService';
+import { isWebAuthnSupported } from '@core/modules/authentication/utils/webauthn';
+
+export type { MFAMethod, PasskeyMethod };
 
 /**
  * React hook for Multi-Factor Authentication (MFA)
@@ -53,6 +60,10 @@ export interface UseMFAReturn {
   backupCodes: BackupCodesEnrollmentData | null;
   isGeneratingBackupCodes: boolean;
   
+  // Passkeys (security keys and platform biometrics)
+  isPasskeySupported: boolean;
+  isPasskeyEnrolling: boolean;
+  
   // Actions
   enrollTOTP: () => Promise<TOTPEnrollmentData>;
   verifyTOTPEnrollment: (enrollmentId: string, code: string) => Promise<boolean>;
@@ -60,6 +71,12 @@ export interface UseMFAReturn {
   verifySMSEnrollment: (enrollmentId: string, code: string) => Promise<boolean>;
   generateBackupCodes: () => Promise<BackupCodesEnrollmentData>;
   verifyBackupCode: (code: string) => Promise<boolean>;
+  enrollSecurityKey: (keyName: string) => Promise<SecurityKeyEnrollmentData>;
+  enrollBiometric: (type?: BiometricEnrollmentData['type']) => Promise<BiometricEnrollmentData>;
+  /** Runs the WebAuthn ceremony; the result is the code for verifyChallenge */
+  requestPasskeyAssertion: (method: PasskeyMethod) => Promise<string>;
+  /** Emails a one-time code, accepted by verifyChallenge with the 'email' method */
+  sendEmailVerificationCode: (email: string) => Promise<void>;
   
   // Challenge flow
   createChallenge: (requiredMethods?: string[]) => Promise<MFAChallenge>;
@@ -85,7 +102,8 @@ export function useMFA(options: UseMFAOptions = {}): UseMFAReturn {
     ...config
   } = options;
 
-  const [mfaService] = useState(() => new MFAService(config));
+  // Without custom config, share the app-wide service so enrollments are visible everywhere
+  const [mfaService] = useState(() => (Object.keys(config).length > 0 ? new MFAService(config) : sharedMFAService));
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [availableMethods, setAvailableMethods] = useState<MFAMethod[]>([]);
@@ -104,6 +122,10 @@ export function useMFA(options: UseMFAOptions = {}): UseMFAReturn {
   const [backupCodes, setBackupCodes] = useState<BackupCodesEnrollmentData | null>(null);
   const [isGeneratingBackupCodes, setIsGeneratingBackupCodes] = useState(false);
 
+  // Passkey state
+  const [isPasskeySupported] = useState(() => isWebAuthnSupported());
+  const [isPasskeyEnrolling, setIsPasskeyEnrolling] = useState(false);
+
   const serviceRef = useRef(mfaService);
   const userIdRef = useRef(userId);
 
@@ -164,7 +186,8 @@ export function useMFA(options: UseMFAOptions = {}): UseMFAReturn {
       const userEnrollments = serviceRef.current.getUserEnrollments(userIdRef.current);
       setEnrollments(userEnrollments);
 
-      debugLog('TOTP enrollment created', { enrollmentId: enrollment.secret.substring(0, 8) + '...' });
+      // The secret is a live credential now, so keep it out of logs
+      debugLog('TOTP enrollment created');
       return enrollment;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to enroll in TOTP';
@@ -311,6 +334,103 @@ export function useMFA(options: UseMFAOptions = {}): UseMFAReturn {
     }
   }, [debugLog]);
 
+  // Security key enrollment
+  const enrollSecurityKey = useCallback(async (keyName: string): Promise<SecurityKeyEnrollmentData> => {
+    if (!userIdRef.current) {
+      throw new Error('User ID is required for security key enrollment');
+    }
+
+    try {
+      setIsPasskeyEnrolling(true);
+      setError(null);
+
+      const enrollment = await serviceRef.current.enrollSecurityKey(userIdRef.current, keyName);
+
+      // Refresh enrollments and methods
+      setEnrollments(serviceRef.current.getUserEnrollments(userIdRef.current));
+      setAvailableMethods(await serviceRef.current.getAvailableMethods(userIdRef.current));
+
+      debugLog('Security key enrolled', { keyName, transports: enrollment.transports });
+      return enrollment;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to enroll security key';
+      setError(errorMessage);
+      debugLog('Security key enrollment failed', err);
+      throw err;
+    } finally {
+      setIsPasskeyEnrolling(false);
+    }
+  }, [debugLog]);
+
+  // Biometric (platform passkey) enrollment
+  const enrollBiometric = useCallback(async (type?: BiometricEnrollmentData['type']): Promise<BiometricEnrollmentData> => {
+    if (!userIdRef.current) {
+      throw new Error('User ID is required for biometric enrollment');
+    }
+
+    try {
+      setIsPasskeyEnrolling(true);
+      setError(null);
+
+      const enrollment = await serviceRef.current.enrollBiometric(userIdRef.current, type);
+
+      // Refresh enrollments and methods
+      setEnrollments(serviceRef.current.getUserEnrollments(userIdRef.current));
+      setAvailableMethods(await serviceRef.current.getAvailableMethods(userIdRef.current));
+
+      debugLog('Biometric enrolled', { type: enrollment.type });
+      return enrollment;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to enroll biometric';
+      setError(errorMessage);
+      debugLog('Biometric enrollment failed', err);
+      throw err;
+    } finally {
+      setIsPasskeyEnrolling(false);
+    }
+  }, [debugLog]);
+
+  // Passkey assertion for a security key or biometric challenge
+  const requestPasskeyAssertion = useCallback(async (method: PasskeyMethod): Promise<string> => {
+    if (!userIdRef.current) {
+      throw new Error('User ID is required for passkey verification');
+    }
+
+    try {
+      setError(null);
+
+      const assertion = await serviceRef.current.requestPasskeyAssertion(userIdRef.current, method);
+
+      debugLog('Passkey assertion created', { method });
+      return assertion;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to use passkey';
+      setError(errorMessage);
+      debugLog('Passkey assertion failed', err);
+      throw err;
+    }
+  }, [debugLog]);
+
+  // Email code, the fallback when an enrolled method cannot be used
+  const sendEmailVerificationCode = useCallback(async (email: string): Promise<void> => {
+    if (!userIdRef.current) {
+      throw new Error('User ID is required for email verification');
+    }
+
+    try {
+      setError(null);
+
+      await serviceRef.current.sendEmailVerificationCode(userIdRef.current, email);
+
+      debugLog('Email verification code sent');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to send email verification code';
+      setError(errorMessage);
+      debugLog('Email verification code sending failed', err);
+      throw err;
+    }
+  }, [debugLog]);
+
   // Create MFA challenge
   const createChallenge = useCallback(async (requiredMethods?: string[]): Promise<MFAChallenge> => {
     if (!userIdRef.current) {
@@ -413,7 +533,7 @@ export function useMFA(options: UseMFAOptions = {}): UseMFAReturn {
     const enrollment = enrollments.find(e => e.method.type === methodType);
     
     if (!enrollment) return 'not-enrolled';
-    return enrollment.status;
+    return enrollment.status === 'revoked' ? 'disabled' : enrollment.status;
   }, [enrollments]);
 
   // Get enrollment progress
@@ -453,6 +573,10 @@ export function useMFA(options: UseMFAOptions = {}): UseMFAReturn {
     backupCodes,
     isGeneratingBackupCodes,
     
+    // Passkeys
+    isPasskeySupported,
+    isPasskeyEnrolling,
+    
     // Actions
     enrollTOTP,
     verifyTOTPEnrollment,
@@ -460,6 +584,10 @@ export function useMFA(options: UseMFAOptions = {}): UseMFAReturn {
     verifySMSEnrollment,
     generateBackupCodes,
     verifyBackupCode,
+    enrollSecurityKey,
+    enrollBiometric,
+    requestPasskeyAssertion,
+    sendEmailVerificationCode,
     
     // Challenge flow
     createChallenge,
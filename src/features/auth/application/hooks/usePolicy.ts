@@ -0,0 +1,38 @@
+import { useCallback, useMemo } from "react";
+import { useFeatureAuth } from "@/core/hooks/useAuthentication";
+import { can as evaluate } from "../../domain/policies";
+
+import type { Permission } from "../../domain/permissions";
+import type { PolicyResource, PolicySubject } from "../../domain/policies";
+
+/**
+ * Hook for attribute-based authorization of the signed-in user.
+ *
+ * @returns {{
+ *     subject: PolicySubject | null,                                          // The signed-in user as policies see them.
+ *     can: (action: Permission, resource?: PolicyResource) => boolean         // Whether they may perform the action.
+ * }} - The subject and a bound `can`.
+ */
+export const usePolicy = () => {
+    const { isAuthenticated, userId, authData } = useFeatureAuth();
+    const user = authData?.user as (PolicySubject & { id?: string }) | undefined;
+
+    const subject = useMemo<PolicySubject | null>(() => {
+        if (!isAuthenticated) return null;
+        return {
+            id: user?.id ?? userId ?? null,
+            ...(user?.role && { role: user.role }),
+            ...(user?.roles && { roles: user.roles }),
+            ...(user?.permissions && { permissions: user.permissions })
+        };
+    }, [isAuthenticated, userId, user]);
+
+    const can = useCallback(
+        (action: Permission, resource?: PolicyResource) => evaluate(subject, action, resource),
+        [subject]
+    );
+
+    return { subject, can };
+};
+
+export default usePolicy;
@@ -0,0 +1,43 @@
+import { useCallback, useState } from 'react';
+import { DEFAULT_STEP_UP_MAX_AGE, stepUpAuthService } from '@core/modules/authentication/services/StepUpAuthService';
+
+/**
+ * React hook for step-up re-authentication
+ *
+ * Wraps sensitive actions so they only run once the user has confirmed their
+ * password or an MFA method within the last `maxAgeMinutes`. When the last
+ * proof is older, the step-up prompt opens and the action resumes as soon as
+ * the user verifies; it rejects with StepUpRequiredError if they cancel.
+ *
+ * Usage:
+ * ```tsx
+ * const { requireRecentAuth } = useRequireRecentAuth(10);
+ * const handleDelete = () => requireRecentAuth(() => deleteAccount(), 'Delete your account');
+ * ```
+ */
+export function useRequireRecentAuth(maxAgeMinutes: number = DEFAULT_STEP_UP_MAX_AGE / 60000) {
+  const maxAge = maxAgeMinutes * 60 * 1000;
+  const [isPending, setIsPending] = useState(false);
+
+  const requireRecentAuth = useCallback(async <T>(action: () => T | Promise<T>, reason?: string): Promise<T> => {
+    setIsPending(true);
+    try {
+      return await stepUpAuthService.withRecentAuth(action, maxAge, reason);
+    } finally {
+      setIsPending(false);
+    }
+  }, [maxAge]);
+
+  const isRecent = useCallback(() => stepUpAuthService.isRecent(maxAge), [maxAge]);
+
+  return {
+    /** Run an action behind a recent password or MFA proof */
+    requireRecentAuth,
+    /** Whether the user verified within the window */
+    isRecent,
+    /** Whether a guarded action is waiting for verification or running */
+    isPending
+  };
+}
+
+export default useRequireRecentAuth;
@@ -0,0 +1,123 @@
+import { validatePasswordStrength } from "@core/modules/authentication/providers/ProviderUtils";
+import { AuthRequestError, fetchPasswordReset } from "@features/auth/data/authRequests";
+import { ACCOUNT_RECOVERY_ERRORS, getAccountRecoveryErrorMessage } from "@features/auth/domain/accountRecovery";
+import * as React from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { checkPasswordResetLimit, clearPasswordResetLimit } from "../services/passwordResetLimiter";
+
+interface ResetPasswordFormReturn {
+    formData: { password: string; confirmPassword: string };
+    hasToken: boolean;
+    isSubmitting: boolean;
+    isComplete: boolean;
+    error: string | null;
+    handleSubmit: (event: React.FormEvent) => Promise<void>;
+    handleChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+    handleLoginBtn: () => void;
+    handleRequestNewLink: () => void;
+}
+
+/**
+ * useResetPasswordForm hook.
+ *
+ * This hook manages the form behind the emailed reset link, whose `token`
+ * query parameter authorizes setting a new password. Attempts count against
+ * the `password_reset_ip` rate limit, so a leaked link cannot be hammered
+ * from one browser. The server signs out every session of the account once
+ * the password changes.
+ */
+export const useResetPasswordForm = (): ResetPasswordFormReturn => {
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get("token") ?? "";
+    const [formData, setFormData] = React.useState({ password: "", confirmPassword: "" });
+    const [isSubmitting, setIsSubmitting] = React.useState(false);
+    const [isComplete, setIsComplete] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(
+        token ? null : getAccountRecoveryErrorMessage(ACCOUNT_RECOVERY_ERRORS.TOKEN_INVALID)
+    );
+    const navigate = useNavigate();
+
+    /**
+     * Handles the form submission event.
+     *
+     * @param {React.FormEvent} event - The form submission event.
+     */
+    const handleSubmit = async (event: React.FormEvent): Promise<void> => {
+        event.preventDefault();
+        if (!token) return;
+
+        const { password, confirmPassword } = formData;
+        if (!password || !confirmPassword) {
+            setError(getAccountRecoveryErrorMessage(ACCOUNT_RECOVERY_ERRORS.REQUIRED_FIELD));
+            return;
+        }
+        if (password !== confirmPassword) {
+            setError("Passwords don't match, please try again");
+            setFormData({ password, confirmPassword: "" });
+            return;
+        }
+        const strength = validatePasswordStrength(password);
+        if (!strength.isValid) {
+            setError(strength.errors[0] ?? getAccountRecoveryErrorMessage(ACCOUNT_RECOVERY_ERRORS.INVALID_INPUT));
+            return;
+        }
+
+        try {
+            setIsSubmitting(true);
+            setError(null);
+
+            const limit = await checkPasswordResetLimit();
+            if (!limit.allowed) {
+                setError(getAccountRecoveryErrorMessage(ACCOUNT_RECOVERY_ERRORS.RATE_LIMITED));
+                return;
+            }
+
+            await fetchPasswordReset(token, password);
+            clearPasswordResetLimit();
+            setFormData({ password: "", confirmPassword: "" });
+            setIsComplete(true);
+
+        } catch (err) {
+            console.error("Password reset failed:", err);
+            setError(getAccountRecoveryErrorMessage(err instanceof AuthRequestError ? err.code : ACCOUNT_RECOVERY_ERRORS.SERVER));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    /**
+     * Handles changes to the password fields.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} event - The change event of the input.
+     */
+    const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = event.target;
+        setFormData({ ...formData, [name]: value });
+    };
+
+    /**
+     * Handles navigating to the login page.
+     */
+    const handleLoginBtn = () => {
+        navigate("/auth/login");
+    };
+
+    /**
+     * Handles navigating to the forgot-password page for a fresh link.
+     */
+    const handleRequestNewLink = () => {
+        navigate("/auth/forgot-password");
+    };
+
+    return {
+        formData,
+        hasToken: token !== "",
+        isSubmitting,
+        isComplete,
+        error,
+        handleSubmit,
+        handleChange,
+        handleLoginBtn,
+        handleRequestNewLink,
+    };
+};
@@ -0,0 +1,32 @@
+import { useFeatureAuth } from "@/core/hooks/useAuthentication";
+import { useEnterpriseWebSocket } from "@/core/hooks/useWebSocket";
+import { createDeviceSessionService } from "@/core/modules/authentication/services/DeviceSessionService";
+import { createAuthApiClient } from "@/core/modules/network";
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+
+/**
+ * Signs this tab out as soon as its session is revoked from another device.
+ *
+ * The backend pushes the revocation over the WebSocket to the tabs of the
+ * revoked session, and `DeviceSessionService.watchRevocation` relays it to
+ * sibling tabs; either way the local auth state is cleared and the user is
+ * sent to the sign-in page.
+ */
+export const useSessionRevocation = () => {
+    const { token, isAuthenticated, clearAuth } = useFeatureAuth();
+    const { subscribe } = useEnterpriseWebSocket();
+    const navigate = useNavigate();
+
+    useEffect(() => {
+        if (!isAuthenticated || !token) return;
+
+        const sessionService = createDeviceSessionService(createAuthApiClient(token));
+        return sessionService.watchRevocation({ subscribe }, () => {
+            clearAuth();
+            navigate("/auth/login?reason=revoked", { replace: true });
+        });
+    }, [isAuthenticated, token, subscribe, clearAuth, navigate]);
+};
+
+export default useSessionRevocation;
@@ -0,0 +1,37 @@
+import { AuthRateLimiter, DefaultRateLimitConfigs } from "@core/modules/authentication/security/AuthRateLimiting";
+
+import type { IRateLimitResult } from "@core/modules/authentication/security/AuthRateLimiting";
+
+/**
+ * Identifier for the `password_reset_ip` limit. The browser cannot see its
+ * own IP, so the client-side limit covers everything sent from this tab;
+ * the server applies the real per-IP limit.
+ */
+export const LOCAL_CLIENT_ID = "local";
+
+let limiter: AuthRateLimiter | null = null;
+
+const getLimiter = (): AuthRateLimiter => {
+    limiter ??= new AuthRateLimiter({
+        password_reset_ip: DefaultRateLimitConfigs.password_reset_ip!,
+        password_reset_email: DefaultRateLimitConfigs.password_reset_email!
+    });
+    return limiter;
+};
+
+/**
+ * Counts a reset request or reset attempt against the password reset limits.
+ *
+ * @param email - Account the reset is for, when known; requesting a link counts
+ *                against both limits, setting the new password only against this client's
+ */
+export const checkPasswordResetLimit = (email?: string): Promise<IRateLimitResult> =>
+    getLimiter().checkPasswordReset(LOCAL_CLIENT_ID, email?.trim().toLowerCase());
+
+/**
+ * Forgets recorded attempts, e.g. after the password was reset.
+ */
+export const clearPasswordResetLimit = (): void => {
+    limiter?.destroy();
+    limiter = null;
+};
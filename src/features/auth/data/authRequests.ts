@@ -1,14 +1,20 @@
 import {
     ACTIVATE_ACCOUNT,
+    CHANGE_EMAIL_URL,
+    CONFIRM_EMAIL_CHANGE_URL,
+    FORGOT_PASSWORD_URL,
     LOGIN_URL,
     LOGOUT_URL,
+    PASSKEY_LOGIN_URL,
     RESEND_CODE,
+    RESET_PASSWORD_URL,
     REFRESH_TOKEN,
     SIGNUP_URL
-} from "@/core/shared/apiPath";
-import { createApiClient, type IApiClient } from "@/core/network";
+} from "@/shared/constants/apiPath";
+import { createApiClient, createAuthApiClient, type ApiResponse, type IApiClient } from "@/core/modules/network";
 import { AuthRequest, AuthResponse, RefreshTokenResponse, RegisterRequest } from "@/features/auth/data/models/auth";
 import { AuthResponseSchema, RefreshTokenResponseSchema } from "@/features/auth/data/models/authZod";
+import { getAccountRecoveryErrorCode, type AccountRecoveryErrorCode } from "@/features/auth/domain/accountRecovery";
 import { JwtToken } from "@/shared/api/models/common";
 
 // Create authenticated API client
@@ -23,6 +29,14 @@ export const fetchLogin = async (body: AuthRequest): Promise<AuthResponse> => {
     return AuthResponseSchema.parse(response.data);
 };
 
+/**
+ * Opens a session for the owner of a passkey verified by MFAService.signInWithPasskey.
+ */
+export const fetchPasskeyLogin = async (userId: string): Promise<AuthResponse> => {
+    const response = await apiClient.post(PASSKEY_LOGIN_URL, { userId });
+    return AuthResponseSchema.parse(response.data);
+};
+
 export const fetchLogout = async (): Promise<void> => {
     await apiClient.post(LOGOUT_URL);
 };
@@ -38,4 +52,50 @@ export const fetchActivation = async (code: string): Promise<void> => {
 
 export const fetchResendCode = async (email: string): Promise<void> => {
     await apiClient.post(RESEND_CODE + `?email=${email}`);
-};
\ No newline at end of file
+};
+
+/**
+ * A recovery request the server refused; `status` is 0 when no response came back.
+ */
+export class AuthRequestError extends Error {
+    readonly code: AccountRecoveryErrorCode;
+
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = "AuthRequestError";
+        this.code = getAccountRecoveryErrorCode(status);
+    }
+}
+
+// The API client resolves error statuses instead of rejecting them
+const ensureOk = <T>(response: ApiResponse<T>): ApiResponse<T> => {
+    if (!response.success) {
+        throw new AuthRequestError(0, response.error?.message ?? "No response from server");
+    }
+    if (response.status >= 400) {
+        throw new AuthRequestError(response.status, response.statusText);
+    }
+    return response;
+};
+
+/**
+ * Emails a reset link; succeeds whether or not the account exists.
+ */
+export const fetchPasswordResetRequest = async (email: string): Promise<void> => {
+    ensureOk(await apiClient.post(FORGOT_PASSWORD_URL, { email }));
+};
+
+export const fetchPasswordReset = async (token: string, password: string): Promise<void> => {
+    ensureOk(await apiClient.post(RESET_PASSWORD_URL, { token, password }));
+};
+
+/**
+ * Emails a confirmation link to the new address; the email only changes once it is opened.
+ */
+export const fetchEmailChangeRequest = async (accessToken: string, email: string): Promise<void> => {
+    ensureOk(await createAuthApiClient(accessToken).post(CHANGE_EMAIL_URL, { email }));
+};
+
+export const fetchEmailChangeConfirmation = async (token: string): Promise<void> => {
+    ensureOk(await apiClient.post(CONFIRM_EMAIL_CHANGE_URL, { token }));
+};
@@ -1,10 +1,14 @@
 import type { AxiosInstance } from 'axios';
 import {
     ACTIVATE_ACCOUNT,
+    CHANGE_EMAIL_URL,
+    CONFIRM_EMAIL_CHANGE_URL,
+    FORGOT_PASSWORD_URL,
     LOGIN_URL,
     LOGOUT_URL,
     REFRESH_TOKEN,
     RESEND_CODE,
+    RESET_PASSWORD_URL,
     SIGNUP_URL
 } from "@/shared/constants/apiPath";
 import { AuthRequest, AuthResponse, RefreshTokenResponse, RegisterRequest } from "@auth/data/models/auth";
@@ -55,6 +59,23 @@ export class AuthRepository implements IAuthRepository {
         return await this.apiClient.post(RESEND_CODE + `?email=${email}`);
     }
 
+    // Password reset and email change
+    async requestPasswordReset(email: string): Promise<void> {
+        await this.apiClient.post(FORGOT_PASSWORD_URL, { email });
+    }
+
+    async resetPassword(token: string, newPassword: string): Promise<void> {
+        await this.apiClient.post(RESET_PASSWORD_URL, { token, password: newPassword });
+    }
+
+    async requestEmailChange(newEmail: string): Promise<void> {
+        await this.apiClient.post(CHANGE_EMAIL_URL, { email: newEmail });
+    }
+
+    async confirmEmailChange(token: string): Promise<void> {
+        await this.apiClient.post(CONFIRM_EMAIL_CHANGE_URL, { token });
+    }
+
     // User session management
     async getUserSessions(userId: string): Promise<UserSession[]> {
         const { data } = await this.apiClient.get(`/auth/sessions/${userId}`);
@@ -0,0 +1,39 @@
+// Error codes of the password reset and email change flows
+//
+// Every failure the flows can show maps to a template in StandardErrorMessages,
+// so the screens say the same thing for the same problem as the rest of the app.
+
+import { StandardErrorMessages } from '@core/modules/error/messages/StandardErrorMessages';
+
+export const ACCOUNT_RECOVERY_ERRORS = {
+    /** Reset or email change token is unknown, used or expired */
+    TOKEN_INVALID: 'AUTH_004',
+    /** Too many reset requests or attempts */
+    RATE_LIMITED: 'AUTH_005',
+    /** The new email belongs to another account */
+    EMAIL_TAKEN: 'AUTH_006',
+    INVALID_INPUT: 'VAL_001',
+    REQUIRED_FIELD: 'VAL_002',
+    /** No response, e.g. offline or timed out */
+    NETWORK: 'NET_001',
+    SERVER: 'NET_003'
+} as const;
+
+export type AccountRecoveryErrorCode = typeof ACCOUNT_RECOVERY_ERRORS[keyof typeof ACCOUNT_RECOVERY_ERRORS];
+
+/**
+ * Error code for an HTTP status of the recovery endpoints; 0 means no response.
+ */
+export const getAccountRecoveryErrorCode = (status: number): AccountRecoveryErrorCode => {
+    if (status === 0) return ACCOUNT_RECOVERY_ERRORS.NETWORK;
+    if (status === 409) return ACCOUNT_RECOVERY_ERRORS.EMAIL_TAKEN;
+    if (status === 429) return ACCOUNT_RECOVERY_ERRORS.RATE_LIMITED;
+    if (status === 400 || status === 404 || status === 410) return ACCOUNT_RECOVERY_ERRORS.TOKEN_INVALID;
+    return ACCOUNT_RECOVERY_ERRORS.SERVER;
+};
+
+/**
+ * User-facing message of an error code.
+ */
+export const getAccountRecoveryErrorMessage = (code: AccountRecoveryErrorCode): string =>
+    StandardErrorMessages[code]?.userMessage ?? 'Something went wrong. Please try again.';
@@ -22,6 +22,12 @@ export interface IAuthRepository {
   activateAccount(code: string): Promise<Response>;
   resendCode(email: string): Promise<Response>;
 
+  // Password reset and email change
+  requestPasswordReset(email: string): Promise<void>;
+  resetPassword(token: string, newPassword: string): Promise<void>;
+  requestEmailChange(newEmail: string): Promise<void>;
+  confirmEmailChange(token: string): Promise<void>;
+
   // User session management
   getUserSessions(userId: string): Promise<UserSession[]>;
   revokeSession(sessionId: string): Promise<void>;
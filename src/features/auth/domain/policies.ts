@@ -0,0 +1,217 @@
+// Attribute-based authorization policies on top of PERMISSIONS
+//
+// A permission says what a role may do in general ("users may edit posts");
+// a policy narrows it by the attributes of the subject and the resource
+// ("only the author may edit this post"). `can` first requires the
+// permission, then every matching deny rule must fail and, when there are
+// allow rules for the action and resource type, one of them must hold.
+
+import { getRolePermissions, PERMISSIONS, ROLES } from './permissions';
+
+import type { Permission, Role } from './permissions';
+
+type Id = string | number;
+
+/**
+ * The user asking. `role` is the legacy single role, `roles` the one in AuthUser.
+ */
+export interface PolicySubject {
+    id?: Id | null;
+    role?: string;
+    roles?: string[];
+    permissions?: string[];
+}
+
+export interface PostResource {
+    type: 'post';
+    authorId: Id;
+    viewAccess?: 'friends' | 'anyone' | 'all';
+    isRepost?: boolean;
+    /** Whether the subject follows the author, for friends-only posts */
+    viewerFollowsAuthor?: boolean;
+}
+
+export interface CommentResource {
+    type: 'comment';
+    authorId: Id;
+    /** Author of the post the comment is on */
+    postAuthorId?: Id;
+}
+
+export interface ChatResource {
+    type: 'chat';
+    memberIds: readonly Id[];
+}
+
+export interface ProfileResource {
+    type: 'profile';
+    userId: Id;
+    isPrivateAccount?: boolean;
+    /** Whether the subject follows this profile */
+    viewerFollows?: boolean;
+}
+
+export type PolicyResource = PostResource | CommentResource | ChatResource | ProfileResource;
+
+export interface PolicyRule<R extends PolicyResource = PolicyResource> {
+    action: Permission;
+    resource: R['type'];
+    effect: 'allow' | 'deny';
+    description: string;
+    when: (subject: PolicySubject, resource: R) => boolean;
+}
+
+// Roles in increasing order of privilege
+const ROLE_ORDER: Role[] = [ROLES.GUEST, ROLES.USER, ROLES.MODERATOR, ROLES.ADMIN, ROLES.SUPER_ADMIN];
+
+/**
+ * All roles of a subject, legacy `role` included
+ */
+const getSubjectRoles = (subject: PolicySubject): string[] =>
+    [...(subject.roles ?? []), ...(subject.role ? [subject.role] : [])];
+
+/**
+ * Check if the subject holds `role` or one above it
+ */
+export const hasRoleAtLeast = (subject: PolicySubject, role: Role): boolean => {
+    const minimum = ROLE_ORDER.indexOf(role);
+    return getSubjectRoles(subject).some(candidate => ROLE_ORDER.indexOf(candidate as Role) >= minimum);
+};
+
+/**
+ * Check if the subject holds a permission, explicitly or through one of its roles
+ */
+export const holdsPermission = (subject: PolicySubject, permission: string): boolean =>
+    (subject.permissions ?? []).includes(permission)
+    || getSubjectRoles(subject).some(role => getRolePermissions(role).includes(permission));
+
+const sameId = (a: Id | null | undefined, b: Id | null | undefined): boolean =>
+    a !== null && a !== undefined && b !== null && b !== undefined && String(a) === String(b);
+
+/**
+ * Check if the subject owns the resource: authored it, is a member of it, or is it
+ */
+export const isOwner = (subject: PolicySubject, resource: PolicyResource): boolean => {
+    switch (resource.type) {
+        case 'post':
+        case 'comment':
+            return sameId(subject.id, resource.authorId);
+        case 'chat':
+            return resource.memberIds.some(memberId => sameId(subject.id, memberId));
+        case 'profile':
+            return sameId(subject.id, resource.userId);
+    }
+};
+
+const isModerator = (subject: PolicySubject) => hasRoleAtLeast(subject, ROLES.MODERATOR);
+
+const rule = <R extends PolicyResource>(policy: PolicyRule<R>) => policy as unknown as PolicyRule;
+
+/**
+ * Default policies of the app
+ */
+export const POLICIES: PolicyRule[] = [
+    rule<PostResource>({
+        action: PERMISSIONS.READ_POSTS,
+        resource: 'post',
+        effect: 'allow',
+        description: 'Anyone may read public posts; friends-only posts need the author, a follower or a moderator',
+        when: (subject, post) => post.viewAccess !== 'friends'
+            || isOwner(subject, post) || post.viewerFollowsAuthor === true || isModerator(subject)
+    }),
+    rule<PostResource>({
+        action: PERMISSIONS.EDIT_POSTS,
+        resource: 'post',
+        effect: 'allow',
+        description: 'Only the author may edit a post',
+        when: isOwner
+    }),
+    rule<PostResource>({
+        action: PERMISSIONS.EDIT_POSTS,
+        resource: 'post',
+        effect: 'deny',
+        description: 'Reposts have no text of their own to edit',
+        when: (_subject, post) => post.isRepost === true
+    }),
+    rule<PostResource>({
+        action: PERMISSIONS.DELETE_POSTS,
+        resource: 'post',
+        effect: 'allow',
+        description: 'The author or a moderator may delete a post',
+        when: (subject, post) => isOwner(subject, post) || isModerator(subject)
+    }),
+    rule<CommentResource>({
+        action: PERMISSIONS.EDIT_COMMENTS,
+        resource: 'comment',
+        effect: 'allow',
+        description: 'Only the author may edit a comment',
+        when: isOwner
+    }),
+    rule<CommentResource>({
+        action: PERMISSIONS.DELETE_COMMENTS,
+        resource: 'comment',
+        effect: 'allow',
+        description: 'The author, the author of the post, or a moderator on any post may delete a comment',
+        when: (subject, comment) => isOwner(subject, comment)
+            || sameId(subject.id, comment.postAuthorId) || isModerator(subject)
+    }),
+    rule<ChatResource>({
+        action: PERMISSIONS.READ_MESSAGES,
+        resource: 'chat',
+        effect: 'allow',
+        description: 'Only members may read a chat',
+        when: isOwner
+    }),
+    rule<ChatResource>({
+        action: PERMISSIONS.SEND_MESSAGES,
+        resource: 'chat',
+        effect: 'allow',
+        description: 'Only members may send to a chat',
+        when: isOwner
+    }),
+    rule<ChatResource>({
+        action: PERMISSIONS.DELETE_MESSAGES,
+        resource: 'chat',
+        effect: 'allow',
+        description: 'Only members may remove a chat',
+        when: isOwner
+    }),
+    rule<ProfileResource>({
+        action: PERMISSIONS.VIEW_PROFILES,
+        resource: 'profile',
+        effect: 'allow',
+        description: 'Private accounts are visible to themselves, their followers and moderators',
+        when: (subject, profile) => !profile.isPrivateAccount
+            || isOwner(subject, profile) || profile.viewerFollows === true || isModerator(subject)
+    }),
+    rule<ProfileResource>({
+        action: PERMISSIONS.EDIT_PROFILE,
+        resource: 'profile',
+        effect: 'allow',
+        description: 'Only the owner may edit a profile',
+        when: isOwner
+    })
+];
+
+/**
+ * Check if a subject may perform an action, optionally on a resource
+ *
+ * Without a resource only the permission is checked, as for routes.
+ */
+export const can = (
+    subject: PolicySubject | null | undefined,
+    action: Permission,
+    resource?: PolicyResource,
+    policies: PolicyRule[] = POLICIES
+): boolean => {
+    if (!subject || !holdsPermission(subject, action)) return false;
+    if (!resource) return true;
+
+    const matching = policies.filter(policy => policy.action === action && policy.resource === resource.type);
+    if (matching.some(policy => policy.effect === 'deny' && policy.when(subject, resource))) {
+        return false;
+    }
+
+    const allowRules = matching.filter(policy => policy.effect === 'allow');
+    return allowRules.length === 0 || allowRules.some(policy => policy.when(subject, resource));
+};
@@ -6,7 +6,11 @@ import { AuthContainer as StyledAuthContainer } from "../styles/AuthStyles";
 import withErrorBoundary from "@/shared/hooks/withErrorBoundary";
 import { ReactNode } from "react";
 import ActivationForm from "./ActivationForm";
+import ConfirmEmailChange from "./ConfirmEmailChange";
+import EmailChangeForm from "./EmailChangeForm";
+import ForgotPasswordForm from "./ForgotPasswordForm";
 import LoginForm from "./LoginForm";
+import ResetPasswordForm from "./ResetPasswordForm";
 import { SecurityMonitor } from "./SecurityMonitor";
 import SignupForm from "./SignupForm";
 
@@ -26,7 +30,8 @@ interface IAuthContainerState {
 }
 
 /**
- * AuthContainer component manages authentication forms (Login, Signup, Activation).
+ * AuthContainer component manages authentication forms (Login, Signup, Activation,
+ * password reset and email change).
  * Uses global auth store for centralized state management.
  * 
  * Converted to class-based component following enterprise patterns with proper state management
@@ -91,6 +96,14 @@ class AuthContainer extends BaseClassComponent<IAuthContainerProps, IAuthContain
                 return <LoginForm />;
             case "activation":
                 return <ActivationForm />;
+            case "forgot-password":
+                return <ForgotPasswordForm />;
+            case "reset-password":
+                return <ResetPasswordForm />;
+            case "change-email":
+                return <EmailChangeForm />;
+            case "confirm-email":
+                return <ConfirmEmailChange />;
             default:
                 return null;
         }
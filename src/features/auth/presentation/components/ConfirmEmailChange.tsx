@@ -0,0 +1,29 @@
+import { useConfirmEmailChange } from "@features/auth/application/hooks/useConfirmEmailChange";
+import withErrorBoundary from "@shared/hooks/withErrorBoundary";
+import { ActivationContainer } from "@auth/presentation/styles/AuthStyles";
+import OutlineButton from "@/shared/ui/buttons/OutlineButton";
+import { LoadingSpinner } from "@/shared/ui/components";
+import { Text, Title } from "@/shared/ui/components/typography";
+
+/**
+ * ConfirmEmailChange component.
+ *
+ * Landing page of the link sent to a new email address; confirms the change on open.
+ */
+const ConfirmEmailChange: React.FC = () => {
+    const { status, error, handleSettingsBtn } = useConfirmEmailChange();
+
+    return (
+        <ActivationContainer>
+            <Title variant="h2">confirm email</Title>
+            {status === "confirming" && <LoadingSpinner size="md" />}
+            {status === "confirmed" && (
+                <Text size="md">your email address has been changed. use it the next time you login.</Text>
+            )}
+            {status === "failed" && <Text color="red">{error}</Text>}
+            {status !== "confirming" && <OutlineButton onClick={handleSettingsBtn} name="settings" />}
+        </ActivationContainer>
+    );
+};
+
+export default withErrorBoundary(ConfirmEmailChange);
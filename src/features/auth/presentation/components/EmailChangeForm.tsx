@@ -0,0 +1,52 @@
+import { useEmailChangeForm } from "@features/auth/application/hooks/useEmailChangeForm";
+import withErrorBoundary from "@shared/hooks/withErrorBoundary";
+import { FormContainer } from "@auth/presentation/styles/AuthStyles";
+import GradientButton from "@/shared/ui/buttons/GradientButton";
+import { Input } from "@/shared/ui/components";
+import { Container } from "@/shared/ui/components/layout";
+import FormStyled from "@/shared/ui/components/utility/FormStyled";
+import { Text, Title } from "@/shared/ui/components/typography";
+
+/**
+ * EmailChangeForm component.
+ *
+ * Asks for a new email address for the signed-in account and sends a
+ * confirmation link to it; the old address stays in use until it is opened.
+ */
+const EmailChangeForm: React.FC = () => {
+    const {
+        email,
+        currentEmail,
+        isSubmitting,
+        isSent,
+        error,
+        handleSubmit,
+        handleChange,
+    } = useEmailChangeForm();
+
+    return (
+        <FormContainer>
+            <Title variant="h2">change email</Title>
+            {currentEmail && <Text size="md">{`your email is ${currentEmail}`}</Text>}
+            {isSent && (
+                <Text size="md">{`we've sent a confirmation link to ${email.trim()}. your email changes once you open it.`}</Text>
+            )}
+            <FormStyled className="email-change-form">
+                <Container>
+                    <Input
+                        type="email"
+                        placeholder="new email"
+                        name="email"
+                        autoComplete="email"
+                        value={email}
+                        onChange={handleChange}
+                    />
+                </Container>
+            </FormStyled>
+            {error && <Text color="red">{error}</Text>}
+            <GradientButton onClick={handleSubmit} disabled={isSubmitting} name={isSent ? "send again" : "send link"} />
+        </FormContainer>
+    );
+};
+
+export default withErrorBoundary(EmailChangeForm);
@@ -0,0 +1,57 @@
+import { useForgotPasswordForm } from "@features/auth/application/hooks/useForgotPasswordForm";
+import withErrorBoundary from "@shared/hooks/withErrorBoundary";
+import { FormContainer } from "@auth/presentation/styles/AuthStyles";
+import GradientButton from "@/shared/ui/buttons/GradientButton";
+import OutlineButton from "@/shared/ui/buttons/OutlineButton";
+import { Input } from "@/shared/ui/components";
+import { Container } from "@/shared/ui/components/layout";
+import FormStyled from "@/shared/ui/components/utility/FormStyled";
+import { Text, Title } from "@/shared/ui/components/typography";
+
+/**
+ * ForgotPasswordForm component.
+ *
+ * Asks for the account's email and sends a password reset link to it.
+ */
+const ForgotPasswordForm: React.FC = () => {
+    const {
+        email,
+        isSubmitting,
+        isSent,
+        error,
+        handleSubmit,
+        handleChange,
+        handleLoginBtn,
+    } = useForgotPasswordForm();
+
+    return (
+        <FormContainer>
+            <Title variant="h2">forgot password</Title>
+            {isSent ? (
+                <Text size="md">
+                    {`if an account exists for ${email.trim()}, we've sent it a link to reset the password. the link expires in 30 minutes.`}
+                </Text>
+            ) : (
+                <Text size="md">enter your email and we'll send you a link to reset your password</Text>
+            )}
+            <FormStyled className="forgot-password-form">
+                <Container>
+                    <Input
+                        type="email"
+                        placeholder="email"
+                        name="email"
+                        autoComplete="email"
+                        value={email}
+                        onChange={handleChange}
+                    />
+                </Container>
+            </FormStyled>
+            {error && <Text color="red">{error}</Text>}
+            <GradientButton onClick={handleSubmit} disabled={isSubmitting} name={isSent ? "send again" : "send link"} />
+            <Text variant="h4">remembered it?</Text>
+            <OutlineButton onClick={handleLoginBtn} name="login" />
+        </FormContainer>
+    );
+};
+
+export default withErrorBoundary(ForgotPasswordForm);
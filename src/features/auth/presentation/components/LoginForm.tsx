@@ -82,8 +82,11 @@ class LoginForm extends BaseClassComponent<ILoginFormProps, ILoginFormState> {
             isError: false,
             error: null,
             handleLoginForm: () => { },
+            isPasskeySupported: false,
+            handlePasskeyLogin: () => { },
             handleFormChange: () => { },
-            handleSignupBtn: () => { }
+            handleSignupBtn: () => { },
+            handleForgotPasswordBtn: () => { }
         };
 
         return {
@@ -92,8 +95,11 @@ class LoginForm extends BaseClassComponent<ILoginFormProps, ILoginFormState> {
             isError: hookData.isError,
             error: hookData.error,
             handleLoginForm: hookData.handleLoginForm,
+            isPasskeySupported: hookData.isPasskeySupported,
+            handlePasskeyLogin: hookData.handlePasskeyLogin,
             handleFormChange: hookData.handleFormChange,
-            handleSignupBtn: hookData.handleSignupBtn
+            handleSignupBtn: hookData.handleSignupBtn,
+            handleForgotPasswordBtn: hookData.handleForgotPasswordBtn
         };
     }
 
@@ -111,8 +117,11 @@ class LoginForm extends BaseClassComponent<ILoginFormProps, ILoginFormState> {
             isError,
             error,
             handleLoginForm,
+            isPasskeySupported,
+            handlePasskeyLogin,
             handleFormChange,
             handleSignupBtn,
+            handleForgotPasswordBtn,
         } = this.getFormData();
 
         if (isAuthenticating) return <LoadingSpinner size="md" />;
@@ -138,6 +147,10 @@ class LoginForm extends BaseClassComponent<ILoginFormProps, ILoginFormState> {
                     </Container>
                 </FormStyled>
                 <GradientButton onClick={handleLoginForm} />
+                {isPasskeySupported && (
+                    <OutlineButton onClick={handlePasskeyLogin} name="sign in with a passkey" />
+                )}
+                <OutlineButton onClick={handleForgotPasswordBtn} name="forgot password?" />
                 <Text variant="h4">don't have an account?</Text>
                 <OutlineButton onClick={handleSignupBtn} name="signup" />
             </FormContainer>
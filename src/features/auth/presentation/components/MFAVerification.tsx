@@ -11,24 +11,23 @@ import { useMFA, useMFAVerification, MFAMethod } from '@features/auth/applicatio
  * - Backup code verification
  * - Biometric authentication
  * - Security key verification
+ * - Email code fallback, offered when the user's address is known
  */
 export const MFAVerification: React.FC<{
   userId: string;
   onVerificationComplete: (success: boolean) => void;
   requiredMethods?: string[];
-}> = ({ userId, onVerificationComplete, requiredMethods }) => {
+  email?: string;
+}> = ({ userId, onVerificationComplete, requiredMethods, email }) => {
   const {
     availableMethods,
     currentChallenge,
     createChallenge,
-    verifyChallenge,
+    requestPasskeyAssertion,
+    sendEmailVerificationCode,
     isLoading,
-    error
-  } = useMFAVerification(userId);
-
-  const {
+    error,
     currentMethod,
-    isVerifying,
     verificationAttempts,
     startVerification,
     completeVerification,
@@ -70,6 +69,12 @@ export const MFAVerification: React.FC<{
     }
   };
 
+  // Security keys and biometrics sign a WebAuthn challenge instead of typing a code
+  const handlePasskeyVerification = async (method: 'security-key' | 'biometric') => {
+    const assertion = await requestPasskeyAssertion(method);
+    await handleVerification(assertion);
+  };
+
   if (isLoading) {
     return (
       <div style={{ textAlign: 'center', padding: '40px' }}>
@@ -105,7 +110,7 @@ export const MFAVerification: React.FC<{
         </p>
 
         <div style={{ display: 'grid', gap: '12px' }}>
-          {availableMethods.map((method) => (
+          {availableMethods.filter(method => method.type !== 'email' || email).map((method) => (
             <button
               key={method.type}
               onClick={() => startVerification(method)}
@@ -200,22 +205,23 @@ export const MFAVerification: React.FC<{
 
         {currentMethod.type === 'biometric' && (
           <BiometricVerification
-            onVerify={() => handleVerification('biometric')}
+            onVerify={() => handlePasskeyVerification('biometric')}
             attempts={verificationAttempts}
           />
         )}
 
         {currentMethod.type === 'security-key' && (
           <SecurityKeyVerification
-            onVerify={() => handleVerification('security-key')}
+            onVerify={() => handlePasskeyVerification('security-key')}
             attempts={verificationAttempts}
           />
         )}
 
-        {currentMethod.type === 'email' && (
+        {currentMethod.type === 'email' && email && (
           <EmailVerification
             code={verificationCode}
             onCodeChange={setVerificationCode}
+            onSendCode={() => sendEmailVerificationCode(email)}
             onVerify={() => handleVerification(verificationCode)}
             attempts={verificationAttempts}
           />
@@ -515,7 +521,7 @@ const BackupCodeVerification: React.FC<{
  * Biometric Verification Component
  */
 const BiometricVerification: React.FC<{
-  onVerify: () => void;
+  onVerify: () => Promise<void>;
   attempts: number;
 }> = ({ onVerify, attempts }) => {
   const [isVerifying, setIsVerifying] = useState(false);
@@ -523,8 +529,6 @@ const BiometricVerification: React.FC<{
   const handleVerify = async () => {
     setIsVerifying(true);
     try {
-      // In a real implementation, this would use WebAuthn API
-      await new Promise(resolve => setTimeout(resolve, 2000));
       await onVerify();
     } catch (err) {
       console.error('Biometric verification failed:', err);
@@ -611,7 +615,7 @@ const BiometricVerification: React.FC<{
  * Security Key Verification Component
  */
 const SecurityKeyVerification: React.FC<{
-  onVerify: () => void;
+  onVerify: () => Promise<void>;
   attempts: number;
 }> = ({ onVerify, attempts }) => {
   const [isVerifying, setIsVerifying] = useState(false);
@@ -619,8 +623,6 @@ const SecurityKeyVerification: React.FC<{
   const handleVerify = async () => {
     setIsVerifying(true);
     try {
-      // In a real implementation, this would use WebAuthn API
-      await new Promise(resolve => setTimeout(resolve, 2000));
       await onVerify();
     } catch (err) {
       console.error('Security key verification failed:', err);
@@ -709,10 +711,49 @@ const SecurityKeyVerification: React.FC<{
 const EmailVerification: React.FC<{
   code: string;
   onCodeChange: (code: string) => void;
+  onSendCode: () => Promise<void>;
   onVerify: () => void;
   attempts: number;
-}> = ({ code, onCodeChange, onVerify, attempts }) => {
+}> = ({ code, onCodeChange, onSendCode, onVerify, attempts }) => {
   const [isVerifying, setIsVerifying] = useState(false);
+  const [canResend, setCanResend] = useState(false);
+  const [resendTimer, setResendTimer] = useState(0);
+  const timerRef = React.useRef<ReturnType<typeof setInterval> | null>(null);
+  const sentRef = React.useRef(false);
+
+  const sendCode = async () => {
+    setCanResend(false);
+    setResendTimer(60);
+
+    if (timerRef.current) clearInterval(timerRef.current);
+    timerRef.current = setInterval(() => {
+      setResendTimer(prev => {
+        if (prev <= 1) {
+          if (timerRef.current) clearInterval(timerRef.current);
+          setCanResend(true);
+          return 0;
+        }
+        return prev - 1;
+      });
+    }, 1000);
+
+    try {
+      await onSendCode();
+    } catch (err) {
+      console.error('Failed to send email code:', err);
+    }
+  };
+
+  // Nothing is emailed until the user picks this method, and only once per visit
+  React.useEffect(() => {
+    if (!sentRef.current) {
+      sentRef.current = true;
+      void sendCode();
+    }
+    return () => {
+      if (timerRef.current) clearInterval(timerRef.current);
+    };
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -760,23 +801,43 @@ const EmailVerification: React.FC<{
         )}
       </div>
 
-      <button
-        type="submit"
-        disabled={isVerifying || code.length !== 6}
-        style={{
-          backgroundColor: '#3b82f6',
-          color: 'white',
-          border: 'none',
-          borderRadius: '8px',
-          padding: '16px 24px',
-          fontSize: '16px',
-          fontWeight: '500',
-          cursor: (isVerifying || code.length !== 6) ? 'not-allowed' : 'pointer',
-          width: '100%'
-        }}
-      >
-        {isVerifying ? 'Verifying...' : 'Verify Code'}
-      </button>
+      <div style={{ display: 'flex', gap: '12px' }}>
+        <button
+          type="submit"
+          disabled={isVerifying || code.length !== 6}
+          style={{
+            backgroundColor: '#3b82f6',
+            color: 'white',
+            border: 'none',
+            borderRadius: '8px',
+            padding: '16px 24px',
+            fontSize: '16px',
+            fontWeight: '500',
+            cursor: (isVerifying || code.length !== 6) ? 'not-allowed' : 'pointer',
+            flex: 1
+          }}
+        >
+          {isVerifying ? 'Verifying...' : 'Verify Code'}
+        </button>
+
+        <button
+          type="button"
+          onClick={sendCode}
+          disabled={!canResend}
+          style={{
+            backgroundColor: canResend ? '#6b7280' : '#e5e7eb',
+            color: 'white',
+            border: 'none',
+            borderRadius: '8px',
+            padding: '16px 24px',
+            fontSize: '16px',
+            fontWeight: '500',
+            cursor: canResend ? 'pointer' : 'not-allowed'
+          }}
+        >
+          {canResend ? 'Resend' : `${resendTimer}s`}
+        </button>
+      </div>
     </form>
   );
 };
@@ -794,11 +855,31 @@ export const MFAManagement: React.FC<{ userId: string }> = ({ userId }) => {
     refreshMethods,
     isLoading,
     error,
-    getMethodStatus
+    getMethodStatus,
+    isPasskeySupported,
+    isPasskeyEnrolling,
+    enrollSecurityKey,
+    enrollBiometric
   } = useMFA({ userId });
 
   const [showDisableConfirm, setShowDisableConfirm] = useState<string | null>(null);
 
+  // Passkey methods enroll in place; the browser prompt is the whole setup flow
+  const handleSetUp = async (method: MFAMethod) => {
+    try {
+      if (method.type === 'security-key') {
+        const keyCount = enrollments.filter(e => e.method.type === 'security-key').length;
+        await enrollSecurityKey(`Security key ${keyCount + 1}`);
+      } else if (method.type === 'biometric') {
+        await enrollBiometric();
+      }
+    } catch (err) {
+      console.error('Failed to set up MFA method:', err);
+    }
+  };
+
+  const isPasskeyMethod = (method: MFAMethod) => method.type === 'security-key' || method.type === 'biometric';
+
   const handleDisableMFA = async (enrollmentId: string) => {
     try {
       await disableMFA(enrollmentId);
@@ -986,6 +1067,9 @@ export const MFAManagement: React.FC<{ userId: string }> = ({ userId }) => {
                     </p>
                   </div>
                   <button
+                    onClick={() => handleSetUp(method)}
+                    disabled={isPasskeyMethod(method) && (!isPasskeySupported || isPasskeyEnrolling)}
+                    title={isPasskeyMethod(method) && !isPasskeySupported ? 'This browser does not support passkeys' : undefined}
                     style={{
                       backgroundColor: '#3b82f6',
                       color: 'white',
@@ -997,7 +1081,7 @@ export const MFAManagement: React.FC<{ userId: string }> = ({ userId }) => {
                       cursor: 'pointer'
                     }}
                   >
-                    Set Up
+                    {isPasskeyMethod(method) && isPasskeyEnrolling ? 'Waiting...' : 'Set Up'}
                   </button>
                 </div>
               </div>
@@ -0,0 +1,67 @@
+import { useResetPasswordForm } from "@features/auth/application/hooks/useResetPasswordForm";
+import withErrorBoundary from "@shared/hooks/withErrorBoundary";
+import { FormContainer } from "@auth/presentation/styles/AuthStyles";
+import GradientButton from "@/shared/ui/buttons/GradientButton";
+import OutlineButton from "@/shared/ui/buttons/OutlineButton";
+import { PassInput } from "@/shared/ui/components/forms";
+import { Container } from "@/shared/ui/components/layout";
+import FormStyled from "@/shared/ui/components/utility/FormStyled";
+import { Text, Title } from "@/shared/ui/components/typography";
+
+/**
+ * ResetPasswordForm component.
+ *
+ * Sets a new password with the token from an emailed reset link.
+ */
+const ResetPasswordForm: React.FC = () => {
+    const {
+        formData,
+        hasToken,
+        isSubmitting,
+        isComplete,
+        error,
+        handleSubmit,
+        handleChange,
+        handleLoginBtn,
+        handleRequestNewLink,
+    } = useResetPasswordForm();
+
+    if (isComplete) {
+        return (
+            <FormContainer>
+                <Title variant="h2">password changed</Title>
+                <Text size="md">your password has been reset and you've been signed out on all devices. login with your new password.</Text>
+                <GradientButton onClick={handleLoginBtn} name="login" />
+            </FormContainer>
+        );
+    }
+
+    if (!hasToken) {
+        return (
+            <FormContainer>
+                <Title variant="h2">reset password</Title>
+                {error && <Text color="red">{error}</Text>}
+                <OutlineButton onClick={handleRequestNewLink} name="request a new link" />
+            </FormContainer>
+        );
+    }
+
+    return (
+        <FormContainer>
+            <Title variant="h2">reset password</Title>
+            <Text size="md">choose a new password with at least 8 characters, an uppercase letter and a number</Text>
+            <FormStyled className="reset-password-form">
+                <Container>
+                    <PassInput name="password" value={formData.password} handleChange={handleChange} />
+                    <PassInput name="confirmPassword" value={formData.confirmPassword} handleChange={handleChange} />
+                </Container>
+            </FormStyled>
+            {error && <Text color="red">{error}</Text>}
+            <GradientButton onClick={handleSubmit} disabled={isSubmitting} name="reset password" />
+            <Text variant="h4">link expired?</Text>
+            <OutlineButton onClick={handleRequestNewLink} name="request a new link" />
+        </FormContainer>
+    );
+};
+
+export default withErrorBoundary(ResetPasswordForm);
@@ -0,0 +1,212 @@
+import React, { ReactNode, useCallback, useEffect, useRef, useState } from 'react';
+import { useFeatureAuth } from '@/core/hooks/useAuthentication';
+import { mfaService } from '@core/modules/authentication/services/MFAService';
+import { stepUpAuthService, StepUpRequest } from '@core/modules/authentication/services/StepUpAuthService';
+import { createAuthApiClient } from '@/core/modules/network';
+import { MFAVerification } from '@features/auth/presentation/components/MFAVerification';
+
+/**
+ * Step-Up Authentication Provider
+ *
+ * Registers the prompt that StepUpAuthService opens when a sensitive action
+ * needs a recent proof. Users with an active MFA method verify with the
+ * MFAVerification flow; otherwise, or if they prefer, they confirm their
+ * password. The blocked action resumes as soon as they succeed.
+ */
+export const StepUpAuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { userId, userEmail, token } = useFeatureAuth();
+  const [request, setRequest] = useState<StepUpRequest | null>(null);
+  const resolveRef = useRef<((verified: boolean) => void) | null>(null);
+
+  useEffect(() => {
+    const unregister = stepUpAuthService.setPrompt(nextRequest => new Promise<boolean>(resolve => {
+      resolveRef.current = resolve;
+      setRequest(nextRequest);
+    }));
+
+    return () => {
+      unregister();
+      // Don't leave a blocked action hanging
+      resolveRef.current?.(false);
+      resolveRef.current = null;
+    };
+  }, []);
+
+  const finish = useCallback((verified: boolean) => {
+    resolveRef.current?.(verified);
+    resolveRef.current = null;
+    setRequest(null);
+  }, []);
+
+  return (
+    <>
+      {children}
+      {request && (
+        <StepUpAuthModal
+          request={request}
+          userId={userId ?? ''}
+          token={token ?? null}
+          email={userEmail ?? undefined}
+          onVerified={() => finish(true)}
+          onCancel={() => finish(false)}
+        />
+      )}
+    </>
+  );
+};
+
+/**
+ * Step-Up Authentication Modal
+ *
+ * Asks the signed-in user to prove it's them before a sensitive action.
+ */
+const StepUpAuthModal: React.FC<{
+  request: StepUpRequest;
+  userId: string;
+  token: string | null;
+  email: string | undefined;
+  onVerified: () => void;
+  onCancel: () => void;
+}> = ({ request, userId, token, email, onVerified, onCancel }) => {
+  const [hasMFA] = useState(() => mfaService.getUserEnrollments(userId).some(e => e.status === 'active'));
+  const [usePassword, setUsePassword] = useState(!hasMFA);
+  const [password, setPassword] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleMFAComplete = (success: boolean) => {
+    if (success) {
+      onVerified();
+    } else {
+      setError('Too many failed attempts. Confirm with your password instead.');
+      setUsePassword(true);
+    }
+  };
+
+  const handlePasswordSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!token) {
+      setError('You are signed out. Sign in again to continue.');
+      return;
+    }
+
+    try {
+      setIsVerifying(true);
+      setError(null);
+      await stepUpAuthService.verifyPassword(createAuthApiClient(token), password);
+      onVerified();
+    } catch (err) {
+      console.error('Password re-authentication failed:', err);
+      setError('Incorrect password');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="step-up-title"
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 9999
+      }}
+    >
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        padding: '32px',
+        maxWidth: '540px',
+        width: '90%',
+        maxHeight: '90vh',
+        overflowY: 'auto',
+        boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)'
+      }}>
+        <h2 id="step-up-title" style={{ margin: '0 0 8px 0', fontSize: '22px', fontWeight: '600' }}>
+          Confirm it's you
+        </h2>
+        <p style={{ margin: '0 0 24px 0', color: '#6b7280', fontSize: '15px' }}>
+          {request.reason ? `${request.reason} requires` : 'This action requires'} a recent sign-in.
+        </p>
+
+        {error && (
+          <p style={{ color: '#dc2626', margin: '0 0 16px 0', fontSize: '14px' }}>❌ {error}</p>
+        )}
+
+        {usePassword ? (
+          <form onSubmit={handlePasswordSubmit}>
+            <input
+              type="password"
+              autoComplete="current-password"
+              autoFocus
+              placeholder="Password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              style={{
+                width: '100%',
+                padding: '12px',
+                border: '2px solid #e5e7eb',
+                borderRadius: '8px',
+                fontSize: '16px',
+                marginBottom: '16px',
+                boxSizing: 'border-box'
+              }}
+            />
+            <button
+              type="submit"
+              disabled={isVerifying || password.length === 0}
+              style={{
+                backgroundColor: (isVerifying || password.length === 0) ? '#9ca3af' : '#3b82f6',
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                padding: '12px 24px',
+                fontSize: '16px',
+                fontWeight: '500',
+                cursor: (isVerifying || password.length === 0) ? 'not-allowed' : 'pointer',
+                width: '100%'
+              }}
+            >
+              {isVerifying ? 'Verifying...' : 'Confirm'}
+            </button>
+          </form>
+        ) : (
+          <MFAVerification userId={userId} onVerificationComplete={handleMFAComplete} {...(email && { email })} />
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '20px' }}>
+          {hasMFA ? (
+            <button
+              type="button"
+              onClick={() => {
+                setError(null);
+                setUsePassword(!usePassword);
+              }}
+              style={{ background: 'none', border: 'none', color: '#3b82f6', cursor: 'pointer', fontSize: '14px', padding: 0 }}
+            >
+              {usePassword ? 'Use two-factor authentication instead' : 'Use your password instead'}
+            </button>
+          ) : <span />}
+          <button
+            type="button"
+            onClick={onCancel}
+            style={{ background: 'none', border: 'none', color: '#6b7280', cursor: 'pointer', fontSize: '14px', padding: 0 }}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StepUpAuthProvider;
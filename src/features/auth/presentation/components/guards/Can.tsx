@@ -0,0 +1,32 @@
+import { ReactNode } from "react";
+import { usePolicy } from "@features/auth/application/hooks/usePolicy";
+
+import type { Permission } from "@/features/auth/domain/permissions";
+import type { PolicyResource } from "@/features/auth/domain/policies";
+
+interface CanProps {
+    action: Permission;
+    resource?: PolicyResource;
+    children: ReactNode;
+    fallback?: ReactNode;
+}
+
+/**
+ * Policy-based component renderer.
+ *
+ * Renders its children only if the signed-in user may perform `action`
+ * on `resource` under the authorization policies.
+ *
+ * @param {CanProps} props - Component props
+ * @param {Permission} props.action - Action to check, as a permission
+ * @param {PolicyResource} props.resource - Optional resource and its attributes
+ * @param {ReactNode} props.children - Children to render if allowed
+ * @param {ReactNode} props.fallback - Fallback to render if not allowed
+ */
+export const Can = ({ action, resource, children, fallback = null }: CanProps) => {
+    const { can } = usePolicy();
+
+    return can(action, resource) ? <>{children}</> : <>{fallback}</>;
+};
+
+export default Can;
@@ -1,32 +1,81 @@
 import { Navigate, useLocation } from "react-router-dom";
-import { ReactNode } from "react";
+import { ReactNode, useCallback, useEffect, useState } from "react";
 import { useFeatureAuth } from '@/core/modules/authentication/hooks/useFeatureAuth';
+import { usePolicy } from "@features/auth/application/hooks/usePolicy";
+import { useRequireRecentAuth } from "@features/auth/application/hooks/useRequireRecentAuth";
 import { LoadingSpinner } from "@/shared/ui/components";
 
+import type { Permission } from "@/features/auth/domain/permissions";
+
 interface ProtectedRouteProps {
     children: ReactNode;
-    requiredPermissions?: string[];
+    requiredPermissions?: Permission[];
     fallback?: string;
+    requireRecentAuth?: number;
 }
 
+/**
+ * Renders its children only after the user has verified within `maxAgeMinutes`.
+ * If they cancel the step-up prompt, they can try again from here.
+ */
+const RecentAuthGate = ({ children, maxAgeMinutes }: { children: ReactNode; maxAgeMinutes: number }) => {
+    const { requireRecentAuth, isRecent } = useRequireRecentAuth(maxAgeMinutes);
+    const [status, setStatus] = useState<"verifying" | "verified" | "cancelled">(
+        () => isRecent() ? "verified" : "verifying"
+    );
+
+    const requestProof = useCallback(() => requireRecentAuth(() => setStatus("verified"))
+        .catch(() => setStatus("cancelled")), [requireRecentAuth]);
+
+    const retry = () => {
+        setStatus("verifying");
+        void requestProof();
+    };
+
+    useEffect(() => {
+        if (!isRecent()) {
+            void requestProof();
+        }
+    }, [isRecent, requestProof]);
+
+    if (status === "verified") {
+        return <>{children}</>;
+    }
+
+    if (status === "cancelled") {
+        return (
+            <div style={{ textAlign: "center", padding: "40px" }}>
+                <p>Confirm it's you to open this page.</p>
+                <button type="button" onClick={retry}>Verify</button>
+            </div>
+        );
+    }
+
+    return <LoadingSpinner size="md" />;
+};
+
 /**
  * ProtectedRoute component for route-level security.
  * 
  * Protects routes by checking authentication status and optional permissions.
- * Redirects unauthenticated users to signin page.
+ * Redirects unauthenticated users to signin page. Routes with `requireRecentAuth`
+ * also ask for a fresh password or MFA proof before rendering.
  * 
  * @param {ProtectedRouteProps} props - Component props
  * @param {ReactNode} props.children - Child components to render if authenticated
- * @param {string[]} props.requiredPermissions - Optional permissions required
+ * @param {Permission[]} props.requiredPermissions - Optional permissions required, checked against the authorization policies
  * @param {string} props.fallback - Optional redirect path (defaults to /signin)
+ * @param {number} props.requireRecentAuth - Optional minutes within which the user must have verified
  * @returns {JSX.Element} - Protected route component
  */
 export const ProtectedRoute = ({
     children,
     requiredPermissions = [],
-    fallback = "/signin"
+    fallback = "/signin",
+    requireRecentAuth
 }: ProtectedRouteProps) => {
     const { isAuthenticated, authData } = useFeatureAuth();
+    const { can } = usePolicy();
     const location = useLocation();
 
     // Show loading spinner while checking authentication
@@ -42,15 +91,18 @@ export const ProtectedRoute = ({
 
     // Check permissions if required
     if (requiredPermissions.length > 0) {
-        const hasPermission = requiredPermissions.every(permission =>
-            authData?.user?.permissions?.includes(permission)
-        );
+        const hasPermission = requiredPermissions.every(permission => can(permission));
 
         if (!hasPermission) {
             return <Navigate to="/unauthorized" replace />;
         }
     }
 
+    // Sensitive routes need a recent proof on top of the session
+    if (requireRecentAuth !== undefined) {
+        return <RecentAuthGate maxAgeMinutes={requireRecentAuth}>{children}</RecentAuthGate>;
+    }
+
     // Render children if authenticated and authorized
     return <>{children}</>;
 };
@@ -4,6 +4,7 @@
  * Exports all authentication guard components including:
  * - Route-level authentication guards
  * - Permission-based route protection
+ * - Policy-based rendering
  * - Higher-order component authentication
  * - Enterprise routing patterns
  */
@@ -12,6 +13,7 @@
 export { AuthGuard } from './AuthGuard';
 export { ProtectedRoute } from './ProtectedRoute';
 export { withAuth, useAuth, PermissionGate } from './withAuth';
+export { Can } from './Can';
 
 // Enterprise Routing
 export { EnterpriseRoutes } from './EnterpriseRoutesPattern';
@@ -26,6 +26,7 @@ export {
   withAuth,
   useAuth,
   PermissionGate,
+  Can,
   EnterpriseRoutes
 } from './guards';
 
@@ -68,6 +69,11 @@ export type {
   SessionTimeoutStatusProps
 } from '@features/auth/presentation/components/SessionTimeoutProvider';
 
+// Step-Up Re-Authentication
+export { StepUpAuthProvider } from '@features/auth/presentation/components/StepUpAuthProvider';
+export { useRequireRecentAuth } from '@features/auth/application/hooks/useRequireRecentAuth';
+export { StepUpAuthService, StepUpRequiredError, stepUpAuthService } from '@core/modules/authentication/services/StepUpAuthService';
+
 
 /**
  * Quick Start Guide
@@ -1,5 +1,8 @@
 import { ReactNode, useEffect } from "react";
 import { useFeatureAuth } from '@/core/hooks/useAuthentication';
+import { stepUpAuthService } from "@/core/modules/authentication/services/StepUpAuthService";
+import { useSessionRevocation } from "../../application/hooks/useSessionRevocation";
+import { StepUpAuthProvider } from "../components/StepUpAuthProvider";
 import { getRolePermissions } from "../../domain/permissions";
 
 interface AuthProviderProps {
@@ -10,7 +13,9 @@ interface AuthProviderProps {
  * AuthProvider component for authentication initialization and utilities.
  * 
  * Provides authentication context, initializes user permissions based on role,
- * and handles auth-related side effects.
+ * and handles auth-related side effects, including signing out when the session
+ * is revoked from another device. Also hosts the step-up prompt that sensitive
+ * actions open to ask for a recent password or MFA proof.
  * 
  * @param {AuthProviderProps} props - Component props
  * @param {ReactNode} props.children - Child components
@@ -18,6 +23,8 @@ interface AuthProviderProps {
 export const AuthProvider = ({ children }: AuthProviderProps) => {
     const { isAuthenticated, authData } = useFeatureAuth();
 
+    useSessionRevocation();
+
     useEffect(() => {
         // Auto-populate user permissions based on role
         if (isAuthenticated && authData?.user) {
@@ -37,10 +44,12 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         if (!isAuthenticated) {
             // Note: Form data reset would be handled by the auth service or a separate form state
             console.log('User logged out, form data would be reset');
+            // A proof given by the previous user must not carry over
+            stepUpAuthService.clear();
         }
     }, [isAuthenticated]);
 
-    return <>{children}</>;
+    return <StepUpAuthProvider>{children}</StepUpAuthProvider>;
 };
 
 /**
@@ -4,7 +4,11 @@ import { LoginBody, SignupBody, ActivationData } from "../../../shared/types/aut
 export enum AuthPages {
     LOGIN = "LOGIN",
     SIGNUP = "SIGNUP",
-    ACTIVATION = "ACTIVATION"
+    ACTIVATION = "ACTIVATION",
+    FORGOT_PASSWORD = "FORGOT_PASSWORD",
+    RESET_PASSWORD = "RESET_PASSWORD",
+    CHANGE_EMAIL = "CHANGE_EMAIL",
+    CONFIRM_EMAIL = "CONFIRM_EMAIL"
 }
 
 export interface AuthState {
@@ -0,0 +1,102 @@
+/**
+ * Attachments Unit Tests.
+ *
+ * Unit tests for the attachment limits and checks of the chat domain.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+    MAX_ATTACHMENTS,
+    checkAttachments,
+    formatFileSize,
+    getAttachmentKind,
+    getImageAttachments
+} from '@chat/domain/attachments';
+import { ValidationError } from '@core/modules/error/classes/ValidationError';
+import type { MessageResponse } from '@/features/chat/data/models/chat';
+
+const MB = 1024 * 1024;
+
+const file = (name: string, type: string, size: number = 1024) => ({ name, type, size });
+
+describe('attachments', () => {
+    describe('getAttachmentKind', () => {
+        it('should sort accepted types into images, audio clips and files', () => {
+            expect(getAttachmentKind('image/png')).toBe('image');
+            expect(getAttachmentKind('audio/mpeg')).toBe('audio');
+            expect(getAttachmentKind('application/pdf')).toBe('file');
+        });
+
+        it('should not accept other types', () => {
+            expect(getAttachmentKind('application/x-msdownload')).toBeNull();
+            expect(getAttachmentKind('')).toBeNull();
+        });
+    });
+
+    describe('checkAttachments', () => {
+        it('should accept files within the limits', () => {
+            const files = [file('photo.jpg', 'image/jpeg'), file('notes.pdf', 'application/pdf')];
+
+            const { accepted, error } = checkAttachments(files);
+
+            expect(accepted).toEqual(files);
+            expect(error).toBeNull();
+        });
+
+        it('should keep valid files and explain every rejected one', () => {
+            const files = [
+                file('photo.jpg', 'image/jpeg', 11 * MB),
+                file('setup.exe', 'application/x-msdownload'),
+                file('clip.mp3', 'audio/mpeg', 11 * MB)
+            ];
+
+            const { accepted, error } = checkAttachments(files);
+
+            expect(accepted.map(candidate => candidate.name)).toEqual(['clip.mp3']);
+            expect(error).toBeInstanceOf(ValidationError);
+            expect(error?.getErrorFields()).toEqual(['photo.jpg', 'setup.exe']);
+            expect(error?.getErrorsForField('photo.jpg')[0]?.rule).toBe('size');
+            expect(error?.getErrorsForField('setup.exe')[0]?.rule).toBe('type');
+            expect(error?.userMessage).toContain('"photo.jpg" is larger than 10.0 MB, the limit for images');
+        });
+
+        it('should count the attachments already picked', () => {
+            const files = [file('a.png', 'image/png'), file('b.png', 'image/png')];
+
+            const { accepted, error } = checkAttachments(files, MAX_ATTACHMENTS - 1);
+
+            expect(accepted.map(candidate => candidate.name)).toEqual(['a.png']);
+            expect(error?.getErrorsForField('b.png')[0]?.rule).toBe('count');
+        });
+    });
+
+    describe('formatFileSize', () => {
+        it('should use the largest fitting unit', () => {
+            expect(formatFileSize(512)).toBe('512 B');
+            expect(formatFileSize(1536)).toBe('1.5 KB');
+            expect(formatFileSize(2.5 * MB)).toBe('2.5 MB');
+        });
+    });
+
+    describe('getImageAttachments', () => {
+        it('should return the images of a message in order', () => {
+            const image = (id: string) => ({ id, kind: 'image' as const, name: `${id}.png`, mimeType: 'image/png', size: 1, url: `/${id}` });
+            const message: MessageResponse = {
+                id: 'message-1',
+                chatId: 'chat-1',
+                senderId: 'user-1',
+                recipientId: 'user-2',
+                senderName: 'Alice',
+                text: '',
+                isSeen: false,
+                attachments: [
+                    image('first'),
+                    { id: 'notes', kind: 'file', name: 'notes.pdf', mimeType: 'application/pdf', size: 1, url: '/notes' },
+                    image('second')
+                ]
+            };
+
+            expect(getImageAttachments(message).map(attachment => attachment.id)).toEqual(['first', 'second']);
+        });
+    });
+});
@@ -0,0 +1,258 @@
+/**
+ * Encryption Unit Tests.
+ *
+ * Encrypts and decrypts messages with device keys generated by Web Crypto:
+ * messages between the devices of two members, ciphertext that was tampered
+ * with or moved to another chat, safety numbers, and the encryption service
+ * that sets up devices and decrypts what other devices sent.
+ */
+
+import { webcrypto } from 'node:crypto';
+
+import { describe, it, expect, jest, beforeAll, afterAll } from '@jest/globals';
+
+import {
+    UNREADABLE_MESSAGE_TEXT,
+    canEncryptChat,
+    formatSafetyNumber,
+    toSafetyNumberDigits
+} from '@chat/domain/encryption';
+import {
+    EncryptionError,
+    computeSafetyNumber,
+    decryptMessage,
+    encryptMessage,
+    exportPublicKey,
+    generateDeviceId,
+    generateDeviceKeyPair
+} from '@chat/data/encryption/messageCrypto';
+import { MemoryDeviceKeyStore } from '@chat/data/encryption/DeviceKeyStore';
+import type { ChatResponse, DeviceKey, MessageResponse } from '@/features/chat/data/models/chat';
+import type { IChatRepository } from '@chat/domain/entities/IChatRepository';
+
+const warn = jest.fn();
+
+jest.unstable_mockModule('@/core/modules/logging', () => ({
+    getLogger: () => ({ info: jest.fn(), warn, error: jest.fn(), debug: jest.fn() })
+}));
+
+const { MessageEncryptionService } = await import('@chat/data/encryption/MessageEncryptionService');
+
+// The shared jest setup mocks crypto.subtle; these tests need real keys.
+// Buffers, also those inside algorithm parameters, are copied into Node's
+// realm, which does not accept jsdom's ArrayBuffer.
+const mockedCrypto = globalThis.crypto as { subtle: SubtleCrypto };
+let mockedSubtle: SubtleCrypto;
+
+const toNodeArgument = (value: unknown): unknown => {
+    if (ArrayBuffer.isView(value)) {
+        return Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    }
+    if (Object.prototype.toString.call(value) === '[object ArrayBuffer]') {
+        return Buffer.from(value as ArrayBuffer);
+    }
+    if (value && Object.getPrototypeOf(value) === Object.prototype) {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toNodeArgument(entry)]));
+    }
+    return value;
+};
+
+beforeAll(() => {
+    mockedSubtle = mockedCrypto.subtle;
+    mockedCrypto.subtle = new Proxy(webcrypto.subtle, {
+        get: (target, name: keyof SubtleCrypto) => (...args: unknown[]) =>
+            (target[name] as (...params: unknown[]) => unknown).apply(target, args.map(toNodeArgument))
+    }) as unknown as SubtleCrypto;
+});
+
+afterAll(() => {
+    mockedCrypto.subtle = mockedSubtle;
+});
+
+const createDevice = async () => {
+    const keyPair = await generateDeviceKeyPair();
+    return { deviceId: generateDeviceId(), keyPair, privateKey: keyPair.privateKey, publicKey: keyPair.publicKey };
+};
+
+const expectEncryptionError = async (promise: Promise<unknown>, code: EncryptionError['code']) => {
+    const error = await promise.then(() => null, (reason: unknown) => reason);
+    expect(error).toBeInstanceOf(EncryptionError);
+    expect((error as EncryptionError).code).toBe(code);
+};
+
+/**
+ * A key directory shared by the repositories of several users, as the server would be.
+ */
+const createKeyDirectory = () => {
+    const deviceKeys: DeviceKey[] = [];
+    const repositoryOf = (userId: string) => ({
+        registerDeviceKey: async (deviceId: string, publicKey: string) => {
+            const deviceKey = { deviceId, userId, publicKey, createDate: new Date().toISOString() };
+            if (!deviceKeys.some(key => key.deviceId === deviceId)) deviceKeys.push(deviceKey);
+            return deviceKey;
+        },
+        getDeviceKeys: async (ownerId: string) => deviceKeys.filter(key => key.userId === ownerId)
+    }) as unknown as IChatRepository;
+    return { deviceKeys, repositoryOf };
+};
+
+const chat = { id: 'chat-1', userIds: ['alice', 'bob'], members: [], isEncrypted: true } as ChatResponse;
+
+const messageFrom = (senderId: string, overrides: Partial<MessageResponse> = {}): MessageResponse => ({
+    id: 'message-1',
+    chatId: 'chat-1',
+    senderId,
+    recipientId: senderId === 'alice' ? 'bob' : 'alice',
+    senderName: senderId,
+    text: '',
+    isSeen: false,
+    ...overrides
+});
+
+describe('encryption', () => {
+    describe('domain', () => {
+        it('should only encrypt chats between two people', () => {
+            expect(canEncryptChat({ userIds: ['alice', 'bob'] })).toBe(true);
+            expect(canEncryptChat({ userIds: ['alice', 'bob', 'carol'] })).toBe(false);
+            expect(canEncryptChat({ userIds: ['alice', 'alice'] })).toBe(false);
+        });
+
+        it('should turn five bytes into a group of five digits', () => {
+            const fingerprint = new Uint8Array(32);
+            fingerprint.set([0, 0, 0, 0x30, 0x39], 0);
+            fingerprint.set([0xff, 0xff, 0xff, 0xff, 0xff], 5);
+
+            const digits = toSafetyNumberDigits(fingerprint);
+
+            expect(digits).toHaveLength(30);
+            expect(digits.slice(0, 5)).toBe('12345');
+            // 2^40 - 1 = 1099511627775
+            expect(digits.slice(5, 10)).toBe('27775');
+            expect(formatSafetyNumber(digits)).toHaveLength(6);
+        });
+    });
+
+    describe('messageCrypto', () => {
+        it('should let every addressed device read a message', async () => {
+            const [alicePhone, bobPhone, bobLaptop] = await Promise.all([createDevice(), createDevice(), createDevice()]);
+
+            const payload = await encryptMessage('meet at the quiet café', 'chat-1', alicePhone, [alicePhone, bobPhone, bobLaptop]);
+
+            expect(payload.ciphertext).not.toContain('café');
+            expect(payload.keys.map(key => key.deviceId)).toEqual([alicePhone.deviceId, bobPhone.deviceId, bobLaptop.deviceId]);
+            for (const device of [alicePhone, bobPhone, bobLaptop]) {
+                await expect(decryptMessage(payload, 'chat-1', device, alicePhone.publicKey)).resolves.toBe('meet at the quiet café');
+            }
+        });
+
+        it('should not let other devices read a message', async () => {
+            const [alice, bob, eve] = await Promise.all([createDevice(), createDevice(), createDevice()]);
+            const payload = await encryptMessage('hello', 'chat-1', alice, [bob]);
+
+            await expectEncryptionError(decryptMessage(payload, 'chat-1', eve, alice.publicKey), 'not_addressed');
+            // Claiming to be the addressed device takes its private key
+            await expectEncryptionError(decryptMessage(payload, 'chat-1', { ...eve, deviceId: bob.deviceId }, alice.publicKey), 'decryption_failed');
+        });
+
+        it('should reject ciphertext that was tampered with or moved to another chat', async () => {
+            const [alice, bob] = await Promise.all([createDevice(), createDevice()]);
+            const payload = await encryptMessage('hello', 'chat-1', alice, [bob]);
+            const flipped = (payload.ciphertext[0] === 'A' ? 'B' : 'A') + payload.ciphertext.slice(1);
+
+            await expectEncryptionError(decryptMessage({ ...payload, ciphertext: flipped }, 'chat-1', bob, alice.publicKey), 'decryption_failed');
+            await expectEncryptionError(decryptMessage(payload, 'chat-2', bob, alice.publicKey), 'decryption_failed');
+        });
+
+        it('should give both members the same safety number, until a device is added', async () => {
+            const [alice, bob, bobLaptop] = await Promise.all([createDevice(), createDevice(), createDevice()]);
+            const aliceKeys = [await exportPublicKey(alice.publicKey)];
+            const bobKeys = [await exportPublicKey(bob.publicKey)];
+
+            const seenByAlice = await computeSafetyNumber([{ userId: 'alice', publicKeys: aliceKeys }, { userId: 'bob', publicKeys: bobKeys }]);
+            const seenByBob = await computeSafetyNumber([{ userId: 'bob', publicKeys: bobKeys }, { userId: 'alice', publicKeys: aliceKeys }]);
+            const afterNewDevice = await computeSafetyNumber([
+                { userId: 'alice', publicKeys: aliceKeys },
+                { userId: 'bob', publicKeys: [...bobKeys, await exportPublicKey(bobLaptop.publicKey)] }
+            ]);
+
+            expect(seenByAlice).toMatch(/^\d{60}$/);
+            expect(seenByBob).toBe(seenByAlice);
+            expect(afterNewDevice).not.toBe(seenByAlice);
+        });
+    });
+
+    describe('MessageEncryptionService', () => {
+        it('should set a device up once and keep its key', async () => {
+            const { deviceKeys, repositoryOf } = createKeyDirectory();
+            const keyStore = new MemoryDeviceKeyStore();
+
+            const first = await new MessageEncryptionService(repositoryOf('alice'), keyStore).getDevice('token');
+            const again = await new MessageEncryptionService(repositoryOf('alice'), keyStore).getDevice('token');
+
+            expect(again.deviceId).toBe(first.deviceId);
+            expect(deviceKeys).toEqual([expect.objectContaining({ userId: 'alice', deviceId: first.deviceId, publicKey: first.publicKey })]);
+        });
+
+        it('should decrypt messages between members, on the sender\'s devices too', async () => {
+            const { repositoryOf } = createKeyDirectory();
+            const alice = new MessageEncryptionService(repositoryOf('alice'), new MemoryDeviceKeyStore());
+            const bob = new MessageEncryptionService(repositoryOf('bob'), new MemoryDeviceKeyStore());
+            await bob.getDevice('token');
+
+            const encrypted = await alice.encrypt(chat, 'only for bob', 'token');
+            const message = messageFrom('alice', { encrypted });
+
+            expect((await bob.decrypt(message, 'token')).text).toBe('only for bob');
+            expect((await alice.decrypt(message, 'token')).text).toBe('only for bob');
+        });
+
+        it('should decrypt the quoted message of a reply', async () => {
+            const { repositoryOf } = createKeyDirectory();
+            const alice = new MessageEncryptionService(repositoryOf('alice'), new MemoryDeviceKeyStore());
+            const bob = new MessageEncryptionService(repositoryOf('bob'), new MemoryDeviceKeyStore());
+            await Promise.all([alice.getDevice('token'), bob.getDevice('token')]);
+
+            const reply = messageFrom('bob', {
+                encrypted: await bob.encrypt(chat, 'sure', 'token'),
+                replyTo: { id: 'message-0', senderId: 'alice', senderName: 'alice', text: '', encrypted: await alice.encrypt(chat, 'coffee?', 'token') }
+            });
+
+            const decrypted = await alice.decrypt(reply, 'token');
+
+            expect(decrypted.text).toBe('sure');
+            expect(decrypted.replyTo?.text).toBe('coffee?');
+        });
+
+        it('should not encrypt to a member without a device', async () => {
+            const { repositoryOf } = createKeyDirectory();
+            const alice = new MessageEncryptionService(repositoryOf('alice'), new MemoryDeviceKeyStore());
+
+            await expectEncryptionError(alice.encrypt(chat, 'hello?', 'token'), 'no_device_keys');
+            await expectEncryptionError(alice.encrypt({ ...chat, userIds: ['alice', 'bob', 'carol'] }, 'hi all', 'token'), 'unsupported_chat');
+        });
+
+        it('should not let a member pass a message off as the other\'s', async () => {
+            const { repositoryOf } = createKeyDirectory();
+            const alice = new MessageEncryptionService(repositoryOf('alice'), new MemoryDeviceKeyStore());
+            const bob = new MessageEncryptionService(repositoryOf('bob'), new MemoryDeviceKeyStore());
+            await bob.getDevice('token');
+
+            // Sent from Alice's device, but claiming Bob as its sender
+            const forged = messageFrom('bob', { encrypted: await alice.encrypt(chat, 'it was bob', 'token') });
+
+            expect((await bob.decrypt(forged, 'token')).text).toBe(UNREADABLE_MESSAGE_TEXT);
+            expect(warn).toHaveBeenCalledWith(expect.objectContaining({ action: 'decryptMessage' }), 'Could not decrypt message');
+        });
+
+        it('should compute the same safety number for both members', async () => {
+            const { repositoryOf } = createKeyDirectory();
+            const alice = new MessageEncryptionService(repositoryOf('alice'), new MemoryDeviceKeyStore());
+            const bob = new MessageEncryptionService(repositoryOf('bob'), new MemoryDeviceKeyStore());
+            await bob.getDevice('token');
+
+            const seenByAlice = await alice.getSafetyNumber(['alice', 'bob'], 'token');
+
+            expect(await bob.getSafetyNumber(['bob', 'alice'], 'token')).toBe(seenByAlice);
+        });
+    });
+});
@@ -0,0 +1,163 @@
+/**
+ * Message Search Unit Tests.
+ *
+ * Unit tests for the message search rules of the chat domain and for the
+ * index searching the messages loaded on this device.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+    buildSearchSnippet,
+    findSearchMatches,
+    getSearchTerms,
+    isSearchQuery,
+    matchesSearch,
+    splitSearchSnippet,
+    toSearchDateBounds,
+    toSearchResults
+} from '@chat/domain/messageSearch';
+import { UNREADABLE_MESSAGE_TEXT } from '@chat/domain/encryption';
+import { MessageSearchIndex } from '@chat/data/search/MessageSearchIndex';
+import type { MessageResponse } from '@/features/chat/data/models/chat';
+
+const message = (id: string, text: string, overrides: Partial<MessageResponse> = {}): MessageResponse => ({
+    id,
+    chatId: 'chat-1',
+    senderId: 'user-2',
+    recipientId: 'user-1',
+    senderName: 'bob',
+    text,
+    isSeen: true,
+    createDate: '2026-10-01T12:00:00.000Z',
+    ...overrides
+});
+
+const encrypted = { version: 1 as const, senderDeviceId: 'device-1', iv: 'iv', ciphertext: 'secret', keys: [] };
+
+describe('message search', () => {
+    describe('getSearchTerms', () => {
+        it('should fold the words of a query', () => {
+            expect(getSearchTerms('  Café  LINK café ')).toEqual(['cafe', 'link']);
+        });
+
+        it('should only search queries of at least two characters', () => {
+            expect(isSearchQuery(' a ')).toBe(false);
+            expect(isSearchQuery('ab')).toBe(true);
+        });
+    });
+
+    describe('matchesSearch', () => {
+        const link = message('m1', 'Here is the link to the Crème brûlée recipe', { senderId: 'user-3' });
+
+        it('should find messages containing every word, ignoring case and accents', () => {
+            expect(matchesSearch(link, { text: 'creme LINK' })).toBe(true);
+            expect(matchesSearch(link, { text: 'creme pdf' })).toBe(false);
+        });
+
+        it('should apply the chat, sender and date filters', () => {
+            expect(matchesSearch(link, { text: 'link', chatId: 'chat-1', senderId: 'user-3' })).toBe(true);
+            expect(matchesSearch(link, { text: 'link', chatId: 'chat-2' })).toBe(false);
+            expect(matchesSearch(link, { text: 'link', senderId: 'user-2' })).toBe(false);
+            expect(matchesSearch(link, { text: 'link', from: new Date('2026-10-01T12:00:00.000Z') })).toBe(true);
+            expect(matchesSearch(link, { text: 'link', to: new Date('2026-10-01T12:00:00.000Z') })).toBe(false);
+        });
+
+        it('should only find encrypted messages this device could decrypt', () => {
+            expect(matchesSearch(message('m2', 'the link', { encrypted }), { text: 'link' })).toBe(true);
+            expect(matchesSearch(message('m3', UNREADABLE_MESSAGE_TEXT, { encrypted }), { text: 'encrypted' })).toBe(false);
+        });
+    });
+
+    describe('snippets', () => {
+        it('should highlight matches in the original text', () => {
+            expect(findSearchMatches('Crème and CREME', ['creme'])).toEqual([{ start: 0, end: 5 }, { start: 10, end: 15 }]);
+            expect(findSearchMatches('linked', ['link', 'inked'])).toEqual([{ start: 0, end: 6 }]);
+        });
+
+        it('should cut long texts around the first match', () => {
+            const text = `${'word '.repeat(40)}the link is here ${'tail '.repeat(40)}`;
+
+            const snippet = buildSearchSnippet(text, ['link'], 60);
+
+            expect(snippet.text.startsWith('…')).toBe(true);
+            expect(snippet.text.endsWith('…')).toBe(true);
+            expect(snippet.highlights).toHaveLength(1);
+            const [highlight] = snippet.highlights;
+            expect(snippet.text.slice(highlight!.start, highlight!.end)).toBe('link');
+        });
+
+        it('should split a snippet into plain and highlighted parts', () => {
+            const snippet = buildSearchSnippet('send the link please', ['link']);
+
+            expect(splitSearchSnippet(snippet)).toEqual([
+                { text: 'send the ', isMatch: false },
+                { text: 'link', isMatch: true },
+                { text: ' please', isMatch: false }
+            ]);
+        });
+    });
+
+    describe('toSearchResults', () => {
+        it('should list each message once, newest first', () => {
+            const older = message('m1', 'old link', { createDate: '2026-09-01T00:00:00.000Z' });
+            const newer = message('m2', 'new link', { createDate: '2026-10-01T00:00:00.000Z' });
+
+            const results = toSearchResults([older, newer, older], { text: 'link' });
+
+            expect(results.map(result => result.message.id)).toEqual(['m2', 'm1']);
+        });
+    });
+
+    describe('toSearchDateBounds', () => {
+        it('should include the whole last day', () => {
+            const bounds = toSearchDateBounds({ startDate: new Date('2026-10-01'), endDate: new Date('2026-10-03') });
+
+            expect(bounds.from.toISOString()).toBe('2026-10-01T00:00:00.000Z');
+            expect(bounds.to.toISOString()).toBe('2026-10-04T00:00:00.000Z');
+        });
+    });
+});
+
+describe('MessageSearchIndex', () => {
+    it('should search indexed messages newest first', () => {
+        const index = new MessageSearchIndex();
+        index.add([
+            message('m1', 'the link', { createDate: '2026-09-01T00:00:00.000Z' }),
+            message('m2', 'another link', { createDate: '2026-10-01T00:00:00.000Z' }),
+            message('m3', 'nothing here')
+        ]);
+
+        expect(index.search({ text: 'link' }).map(found => found.id)).toEqual(['m2', 'm1']);
+        expect(index.search({ text: 'link' }, 1).map(found => found.id)).toEqual(['m2']);
+    });
+
+    it('should replace edited messages and drop removed ones', () => {
+        const index = new MessageSearchIndex();
+        index.add([message('m1', 'the link'), message('m2', 'a link', { chatId: 'chat-2' })]);
+
+        index.add([message('m1', 'the address')]);
+        expect(index.search({ text: 'link' }).map(found => found.id)).toEqual(['m2']);
+
+        index.removeChat('chat-2');
+        expect(index.search({ text: 'link' })).toEqual([]);
+
+        index.remove('m1');
+        expect(index.size).toBe(0);
+    });
+
+    it('should forget the least recently loaded messages first', () => {
+        const index = new MessageSearchIndex(2);
+        index.add([message('m1', 'link one'), message('m2', 'link two')]);
+        index.add([message('m1', 'link one'), message('m3', 'link three')]);
+
+        expect(index.size).toBe(2);
+        expect(index.search({ text: 'link' }).map(found => found.id).sort()).toEqual(['m1', 'm3']);
+    });
+
+    it('should not keep messages without readable text', () => {
+        const index = new MessageSearchIndex();
+        index.add([message('m1', ''), message('m2', UNREADABLE_MESSAGE_TEXT, { encrypted })]);
+
+        expect(index.size).toBe(0);
+    });
+});
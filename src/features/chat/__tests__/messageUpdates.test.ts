@@ -0,0 +1,146 @@
+/**
+ * Message Updates Unit Tests.
+ *
+ * Unit tests for the reaction, edit and quote helpers of the chat domain.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+    addReaction,
+    applyEdit,
+    applyMessageUpdate,
+    hasReacted,
+    removeReaction,
+    summarizeReactions,
+    toQuotedMessage
+} from '@chat/domain/messageUpdates';
+import type { MessageResponse } from '@/features/chat/data/models/chat';
+import { SocketEventType } from '@/shared/api/models/websocketNative';
+
+const message: MessageResponse = {
+    id: 'message-1',
+    chatId: 'chat-1',
+    senderId: 'user-1',
+    recipientId: 'user-2',
+    senderName: 'Alice',
+    text: 'Hello',
+    isSeen: false
+};
+
+describe('messageUpdates', () => {
+    describe('addReaction', () => {
+        it('should add a reaction', () => {
+            const updated = addReaction(message, { emoji: '👍', userId: 'user-2', timestamp: 1 });
+
+            expect(updated.reactions).toEqual([{ emoji: '👍', userId: 'user-2', timestamp: 1 }]);
+            expect(hasReacted(updated, '👍', 'user-2')).toBe(true);
+            expect(message.reactions).toBeUndefined();
+        });
+
+        it('should ignore a repeated reaction of the same user', () => {
+            const once = addReaction(message, { emoji: '👍', userId: 'user-2', timestamp: 1 });
+            const twice = addReaction(once, { emoji: '👍', userId: 'user-2', timestamp: 2 });
+
+            expect(twice).toBe(once);
+        });
+    });
+
+    describe('removeReaction', () => {
+        it('should remove only the reaction of the given user and emoji', () => {
+            const reacted = [
+                { emoji: '👍', userId: 'user-1', timestamp: 1 },
+                { emoji: '👍', userId: 'user-2', timestamp: 2 },
+                { emoji: '❤️', userId: 'user-2', timestamp: 3 }
+            ].reduce(addReaction, message);
+
+            const updated = removeReaction(reacted, '👍', 'user-2');
+
+            expect(updated.reactions).toEqual([
+                { emoji: '👍', userId: 'user-1', timestamp: 1 },
+                { emoji: '❤️', userId: 'user-2', timestamp: 3 }
+            ]);
+        });
+
+        it('should return the message unchanged when the reaction does not exist', () => {
+            expect(removeReaction(message, '👍', 'user-2')).toBe(message);
+        });
+    });
+
+    describe('applyEdit', () => {
+        it('should replace the text and mark the message as edited', () => {
+            const updated = applyEdit(message, 'Hello there', '2024-01-01T10:00:00Z');
+
+            expect(updated).toMatchObject({ text: 'Hello there', isEdited: true, editDate: '2024-01-01T10:00:00Z' });
+        });
+    });
+
+    describe('applyMessageUpdate', () => {
+        it('should merge an edited message', () => {
+            const edited = applyEdit(message, 'Hello there', '2024-01-01T10:00:00Z');
+
+            const updated = applyMessageUpdate(message, {
+                type: SocketEventType.EDIT_MESSAGE,
+                chatId: 'chat-1',
+                messageId: 'message-1',
+                message: edited
+            });
+
+            expect(updated).toEqual(edited);
+        });
+
+        it('should add and remove reactions', () => {
+            const reaction = { emoji: '😂', userId: 'user-2', timestamp: 1 };
+
+            const added = applyMessageUpdate(message, {
+                type: SocketEventType.ADD_REACTION, chatId: 'chat-1', messageId: 'message-1', reaction
+            });
+            const removed = applyMessageUpdate(added, {
+                type: SocketEventType.REMOVE_REACTION, chatId: 'chat-1', messageId: 'message-1', reaction
+            });
+
+            expect(added.reactions).toEqual([reaction]);
+            expect(removed.reactions).toEqual([]);
+        });
+
+        it('should ignore events of other messages', () => {
+            const updated = applyMessageUpdate(message, {
+                type: SocketEventType.ADD_REACTION,
+                chatId: 'chat-1',
+                messageId: 'message-2',
+                reaction: { emoji: '😂', userId: 'user-2', timestamp: 1 }
+            });
+
+            expect(updated).toBe(message);
+        });
+    });
+
+    describe('summarizeReactions', () => {
+        it('should group reactions by emoji in order of first use', () => {
+            const summaries = summarizeReactions([
+                { emoji: '❤️', userId: 'user-2', timestamp: 1 },
+                { emoji: '👍', userId: 'user-1', timestamp: 2 },
+                { emoji: '❤️', userId: 'user-3', timestamp: 3 }
+            ], 'user-1');
+
+            expect(summaries).toEqual([
+                { emoji: '❤️', count: 2, reactedByMe: false },
+                { emoji: '👍', count: 1, reactedByMe: true }
+            ]);
+        });
+
+        it('should return no summaries without reactions', () => {
+            expect(summarizeReactions(undefined, 'user-1')).toEqual([]);
+        });
+    });
+
+    describe('toQuotedMessage', () => {
+        it('should keep only what a reply shows', () => {
+            expect(toQuotedMessage(message)).toEqual({
+                id: 'message-1',
+                senderId: 'user-1',
+                senderName: 'Alice',
+                text: 'Hello'
+            });
+        });
+    });
+});
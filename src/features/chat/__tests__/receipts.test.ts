@@ -0,0 +1,100 @@
+/**
+ * Read Receipts Unit Tests.
+ *
+ * Unit tests for the delivery and read states of messages, per member and
+ * for the chat as a whole, and for the unread rule built on them.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { applyReceipt, getDeliveryState, getRecipientState, getSeenBy } from '@chat/domain/receipts';
+import { isUnreadBy } from '@chat/domain/unread';
+import type { MessageReceipt, MessageResponse } from '@/features/chat/data/models/chat';
+
+const SENT = '2026-10-01T12:00:00.000Z';
+const LATER = '2026-10-01T12:05:00.000Z';
+
+const receipt = (userId: string, state: MessageReceipt['state']): MessageReceipt => ({ userId, state, updateDate: SENT });
+
+const message = (overrides: Partial<MessageResponse> = {}): MessageResponse => ({
+    id: 'm1',
+    chatId: 'chat-1',
+    senderId: 'user-1',
+    recipientId: 'user-2',
+    senderName: 'alice',
+    text: 'hello',
+    isSeen: false,
+    createDate: SENT,
+    ...overrides
+});
+
+describe('read receipts', () => {
+    describe('getDeliveryState', () => {
+        it('should only count a message as far as its furthest behind member', () => {
+            const group = message({ receipts: [receipt('user-2', 'read'), receipt('user-3', 'delivered')] });
+
+            expect(getDeliveryState(group)).toBe('delivered');
+            expect(getRecipientState(group, 'user-2')).toBe('read');
+        });
+
+        it('should fall back to isSeen without receipts', () => {
+            expect(getDeliveryState(message())).toBe('sent');
+            expect(getDeliveryState(message({ isSeen: true }))).toBe('read');
+            expect(getRecipientState(message({ isSeen: true }), 'user-2')).toBe('read');
+        });
+    });
+
+    describe('applyReceipt', () => {
+        it('should move a member forward and mark the message seen once everyone read it', () => {
+            const sent = message({ receipts: [receipt('user-2', 'sent'), receipt('user-3', 'read')] });
+
+            const delivered = applyReceipt(sent, 'user-2', 'delivered', LATER);
+            expect(getRecipientState(delivered, 'user-2')).toBe('delivered');
+            expect(delivered.isSeen).toBe(false);
+
+            const read = applyReceipt(delivered, 'user-2', 'read', LATER);
+            expect(read.receipts).toEqual([{ userId: 'user-2', state: 'read', updateDate: LATER }, receipt('user-3', 'read')]);
+            expect(read.isSeen).toBe(true);
+        });
+
+        it('should never move a member back', () => {
+            const read = message({ receipts: [receipt('user-2', 'read')], isSeen: true });
+
+            expect(applyReceipt(read, 'user-2', 'delivered', LATER)).toBe(read);
+            expect(applyReceipt(read, 'user-2', 'read', LATER)).toBe(read);
+        });
+
+        it('should ignore receipts of the sender and add members without one', () => {
+            const sent = message();
+
+            expect(applyReceipt(sent, 'user-1', 'read', LATER)).toBe(sent);
+            expect(applyReceipt(sent, 'user-2', 'delivered', LATER).receipts).toEqual([
+                { userId: 'user-2', state: 'delivered', updateDate: LATER }
+            ]);
+        });
+    });
+
+    describe('getSeenBy', () => {
+        it('should list the members who read a message, other than the viewer', () => {
+            const group = message({
+                receipts: [receipt('user-2', 'read'), receipt('user-3', 'delivered'), receipt('user-4', 'read')]
+            });
+
+            expect(getSeenBy(group, 'user-1')).toEqual(['user-2', 'user-4']);
+            expect(getSeenBy(group, 'user-4')).toEqual(['user-2']);
+        });
+    });
+
+    describe('isUnreadBy', () => {
+        it('should use the receipt of the member', () => {
+            const group = message({ receipts: [receipt('user-2', 'read'), receipt('user-3', 'delivered')] });
+
+            expect(isUnreadBy(group, 'user-2')).toBe(false);
+            expect(isUnreadBy(group, 'user-3')).toBe(true);
+        });
+
+        it('should never count the member\'s own messages', () => {
+            expect(isUnreadBy(message(), 'user-1')).toBe(false);
+            expect(isUnreadBy(message(), 'user-2')).toBe(true);
+        });
+    });
+});
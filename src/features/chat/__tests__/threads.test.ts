@@ -0,0 +1,107 @@
+/**
+ * Threads Unit Tests.
+ *
+ * Unit tests for the thread helpers of the chat domain.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+    addThreadReply,
+    countUnreadThreads,
+    hasThread,
+    isThreadParticipant,
+    isThreadReply
+} from '@chat/domain/threads';
+import { applyMessageUpdate } from '@chat/domain/messageUpdates';
+import type { MessageResponse, ThreadResponse } from '@/features/chat/data/models/chat';
+import { SocketEventType } from '@/shared/api/models/websocketNative';
+
+const root: MessageResponse = {
+    id: 'message-1',
+    chatId: 'chat-1',
+    senderId: 'user-1',
+    recipientId: 'user-2',
+    senderName: 'Alice',
+    text: 'Shall we plan the trip?',
+    isSeen: false
+};
+
+const reply = (id: string, senderId: string, createDate: string): MessageResponse => ({
+    id,
+    chatId: 'chat-1',
+    senderId,
+    recipientId: 'user-1',
+    senderName: 'Bob',
+    text: 'Sure',
+    isSeen: false,
+    threadId: 'message-1',
+    createDate
+});
+
+describe('threads', () => {
+    describe('isThreadReply', () => {
+        it('should tell thread replies from chat messages', () => {
+            expect(isThreadReply(root)).toBe(false);
+            expect(isThreadReply(reply('reply-1', 'user-2', '2024-01-01T10:00:00Z'))).toBe(true);
+        });
+    });
+
+    describe('addThreadReply', () => {
+        it('should start a thread with the first reply', () => {
+            const updated = addThreadReply(root, reply('reply-1', 'user-2', '2024-01-01T10:00:00Z'));
+
+            expect(updated.threadSummary).toEqual({
+                replyCount: 1,
+                participantIds: ['user-2'],
+                lastReplyDate: '2024-01-01T10:00:00Z'
+            });
+            expect(hasThread(updated)).toBe(true);
+            expect(hasThread(root)).toBe(false);
+        });
+
+        it('should count each replier once', () => {
+            const once = addThreadReply(root, reply('reply-1', 'user-2', '2024-01-01T10:00:00Z'));
+            const twice = addThreadReply(once, reply('reply-2', 'user-2', '2024-01-01T10:05:00Z'));
+
+            expect(twice.threadSummary?.replyCount).toBe(2);
+            expect(twice.threadSummary?.participantIds).toEqual(['user-2']);
+            expect(twice.threadSummary?.lastReplyDate).toBe('2024-01-01T10:05:00Z');
+        });
+    });
+
+    describe('isThreadParticipant', () => {
+        it('should include the sender of the root and the repliers', () => {
+            const updated = addThreadReply(root, reply('reply-1', 'user-2', '2024-01-01T10:00:00Z'));
+
+            expect(isThreadParticipant(updated, 'user-1')).toBe(true);
+            expect(isThreadParticipant(updated, 'user-2')).toBe(true);
+            expect(isThreadParticipant(updated, 'user-3')).toBe(false);
+        });
+    });
+
+    describe('countUnreadThreads', () => {
+        it('should count threads with unread replies', () => {
+            const threads: ThreadResponse[] = [
+                { chatId: 'chat-1', root, unreadCount: 2 },
+                { chatId: 'chat-1', root: { ...root, id: 'message-2' }, unreadCount: 0 }
+            ];
+
+            expect(countUnreadThreads(threads)).toBe(1);
+        });
+    });
+
+    describe('applyMessageUpdate', () => {
+        it('should replace the thread summary', () => {
+            const threadSummary = { replyCount: 3, participantIds: ['user-2', 'user-3'], lastReplyDate: '2024-01-01T10:00:00Z' };
+
+            const updated = applyMessageUpdate(root, {
+                type: SocketEventType.THREAD_UPDATE,
+                chatId: 'chat-1',
+                messageId: 'message-1',
+                threadSummary
+            });
+
+            expect(updated.threadSummary).toEqual(threadSummary);
+        });
+    });
+});
@@ -0,0 +1,181 @@
+/**
+ * Voice Notes Unit Tests.
+ *
+ * Unit tests for the voice note rules of the chat domain and for the
+ * recorder, run against a mocked MediaRecorder and microphone.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import {
+    MAX_VOICE_NOTE_MS,
+    formatVoiceNoteDuration,
+    getNextPlaybackRate,
+    isVoiceNote,
+    isVoiceRecordingSupported,
+    pickVoiceNoteMimeType,
+    toBaseMimeType,
+    toWaveform
+} from '@chat/domain/voiceNotes';
+import { VoiceRecorder, type VoiceRecording } from '@chat/data/media/VoiceRecorder';
+import type { Attachment } from '@/features/chat/data/models/chat';
+
+/**
+ * Stand-in for MediaRecorder: data arrives once recording stops, as it does
+ * in browsers when no timeslice is given.
+ */
+class MockMediaRecorder {
+    static isTypeSupported = jest.fn((mimeType: string) => mimeType === 'audio/webm;codecs=opus');
+    static instances: MockMediaRecorder[] = [];
+
+    state: 'inactive' | 'recording' = 'inactive';
+    mimeType: string;
+    ondataavailable: ((event: { data: Blob }) => void) | null = null;
+    onstop: (() => void) | null = null;
+
+    constructor(readonly stream: unknown, options?: { mimeType?: string }) {
+        this.mimeType = options?.mimeType ?? '';
+        MockMediaRecorder.instances.push(this);
+    }
+
+    start() {
+        this.state = 'recording';
+    }
+
+    stop() {
+        this.state = 'inactive';
+        this.ondataavailable?.({ data: new Blob(['voice'], { type: this.mimeType }) });
+        this.onstop?.();
+    }
+}
+
+const track = { stop: jest.fn() };
+const getUserMedia = jest.fn(async (_constraints: MediaStreamConstraints) => ({ getTracks: () => [track] }));
+
+const setMediaSupport = (isSupported: boolean) => {
+    Object.defineProperty(globalThis, 'MediaRecorder', { value: isSupported ? MockMediaRecorder : undefined, configurable: true, writable: true });
+    Object.defineProperty(navigator, 'mediaDevices', { value: isSupported ? { getUserMedia } : undefined, configurable: true });
+};
+
+describe('voice notes', () => {
+    describe('toWaveform', () => {
+        it('should keep the peak of each bar, scaled to the loudest', () => {
+            expect(toWaveform([0.1, 0.2, 0.4, 0.1], 2)).toEqual([0.5, 1]);
+            expect(toWaveform([0.5], 3)).toEqual([1, 1, 1]);
+        });
+
+        it('should stay flat without sound', () => {
+            expect(toWaveform([], 4)).toEqual([]);
+            expect(toWaveform([0, 0], 2)).toEqual([0, 0]);
+        });
+    });
+
+    it('should format clip lengths as minutes and seconds', () => {
+        expect(formatVoiceNoteDuration(0)).toBe('0:00');
+        expect(formatVoiceNoteDuration(65_400)).toBe('1:05');
+        expect(formatVoiceNoteDuration(MAX_VOICE_NOTE_MS)).toBe('2:00');
+    });
+
+    it('should cycle through the playback speeds', () => {
+        expect(getNextPlaybackRate(1)).toBe(1.5);
+        expect(getNextPlaybackRate(1.5)).toBe(2);
+        expect(getNextPlaybackRate(2)).toBe(1);
+    });
+
+    it('should drop codec parameters from recorded MIME types', () => {
+        expect(toBaseMimeType('audio/webm;codecs=opus')).toBe('audio/webm');
+        expect(toBaseMimeType('audio/MP4')).toBe('audio/mp4');
+    });
+
+    it('should tell voice notes from other audio attachments', () => {
+        const audio: Attachment = { id: 'a1', kind: 'audio', name: 'song.mp3', mimeType: 'audio/mpeg', size: 10, url: 'blob:a1' };
+
+        expect(isVoiceNote(audio)).toBe(false);
+        expect(isVoiceNote({ ...audio, voiceNote: { durationMs: 1000, waveform: [] } })).toBe(true);
+    });
+});
+
+describe('VoiceRecorder', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+        MockMediaRecorder.instances = [];
+        track.stop.mockClear();
+        getUserMedia.mockClear();
+        setMediaSupport(true);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        setMediaSupport(false);
+    });
+
+    it('should record in a supported format and release the microphone once stopped', async () => {
+        const recordings: VoiceRecording[] = [];
+        const recorder = new VoiceRecorder({ onStop: recording => recordings.push(recording) });
+
+        expect(isVoiceRecordingSupported()).toBe(true);
+        expect(pickVoiceNoteMimeType()).toBe('audio/webm;codecs=opus');
+
+        await recorder.start();
+        expect(getUserMedia).toHaveBeenCalledWith({ audio: true });
+        expect(recorder.isRecording).toBe(true);
+
+        jest.advanceTimersByTime(3000);
+        recorder.stop();
+
+        expect(recorder.isRecording).toBe(false);
+        expect(track.stop).toHaveBeenCalled();
+        expect(recordings).toHaveLength(1);
+        expect(recordings[0]!.mimeType).toBe('audio/webm');
+        expect(recordings[0]!.durationMs).toBe(3000);
+        expect(recordings[0]!.blob.size).toBeGreaterThan(0);
+    });
+
+    it('should report progress while recording', async () => {
+        const onProgress = jest.fn();
+        const recorder = new VoiceRecorder({ onProgress });
+
+        await recorder.start();
+        jest.advanceTimersByTime(300);
+
+        expect(onProgress).toHaveBeenLastCalledWith(300, []);
+        recorder.cancel();
+    });
+
+    it('should stop by itself at the longest clip', async () => {
+        const onStop = jest.fn();
+        const recorder = new VoiceRecorder({ maxDurationMs: 5000, onStop });
+
+        await recorder.start();
+        jest.advanceTimersByTime(5000);
+
+        expect(recorder.isRecording).toBe(false);
+        expect(onStop).toHaveBeenCalledWith(expect.objectContaining({ durationMs: 5000 }));
+    });
+
+    it('should throw a cancelled recording away', async () => {
+        const onStop = jest.fn();
+        const recorder = new VoiceRecorder({ onStop });
+
+        await recorder.start();
+        recorder.cancel();
+
+        expect(onStop).not.toHaveBeenCalled();
+        expect(track.stop).toHaveBeenCalled();
+    });
+
+    it('should not record where the browser cannot', async () => {
+        setMediaSupport(false);
+
+        expect(isVoiceRecordingSupported()).toBe(false);
+        await expect(new VoiceRecorder().start()).rejects.toThrow('cannot be recorded in this browser');
+        expect(getUserMedia).not.toHaveBeenCalled();
+    });
+
+    it('should pass on a denied microphone', async () => {
+        const denied = Object.assign(new Error('Permission denied'), { name: 'NotAllowedError' });
+        getUserMedia.mockRejectedValueOnce(denied as never);
+
+        await expect(new VoiceRecorder().start()).rejects.toBe(denied);
+        expect(MockMediaRecorder.instances).toHaveLength(0);
+    });
+});
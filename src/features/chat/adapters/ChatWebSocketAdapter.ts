@@ -12,11 +12,20 @@ import type {
     IMessageRouter,
     IWebSocketCacheManager,
     WebSocketMessage,
-    MessageRoute,
-    MessageHandler
-} from '@/core/websocket';
-import { MessageResponse, ChatEvent } from '../data/models/chat';
+    TypedWebSocketMessage
+} from '@/core/modules/websocket';
+import { MessageResponse, ChatEvent, MessageReceiptEvent, MessageUpdateEvent } from '../data/models/chat';
+import {
+    ChatEventSchema,
+    MessageReceiptEventSchema,
+    MessageResponseSchema,
+    MessageUpdateEventSchema,
+    OnlineStatusEventSchema,
+    PresenceEventSchema,
+    TypingIndicatorEventSchema
+} from '../data/models/chatZod';
 import { ResId } from '@/shared/api/models/common';
+import { SocketEventType } from '@/shared/api/models/websocketNative';
 import {
     ChatEventHandlers,
     ChatAdapterConfig,
@@ -28,7 +37,7 @@ import {
 // Chat-specific WebSocket message types
 export interface ChatWebSocketMessage extends Omit<WebSocketMessage, 'id' | 'timestamp'> {
     feature: 'chat';
-    messageType: 'message' | 'typing' | 'online_status' | 'presence' | 'chat_event';
+    messageType: 'message' | 'message_update' | 'thread_message' | 'typing' | 'online_status' | 'presence' | 'chat_event' | 'delivery_confirmation';
     chatId?: string;
     userId?: string;
 }
@@ -50,6 +59,7 @@ export class ChatWebSocketAdapter {
     private isInitialized = false;
     private startTime = Date.now();
     private unsubscribeFunctions: (() => void)[] = [];
+    private resyncCallbacks: Map<string, Set<() => Promise<void> | void>> = new Map();
 
     constructor(
         private enterpriseWebSocket: IEnterpriseWebSocketService,
@@ -329,30 +339,140 @@ export class ChatWebSocketAdapter {
      * Subscribe to chat messages
      */
     subscribeToMessages(chatId: string, callback: (message: MessageResponse) => void): () => void {
-        const handler: MessageHandler = async (message: WebSocketMessage) => {
-            const chatMessage = message as unknown as ChatWebSocketMessage;
-            if (chatMessage.feature === 'chat' &&
-                chatMessage.messageType === 'message' &&
-                chatMessage.chatId === chatId) {
+        this.messageRouter.registerRoute({
+            feature: 'chat',
+            messageType: 'message',
+            schema: MessageResponseSchema,
+            handler: (message) => {
+                if (this.getChatId(message) !== chatId) return;
                 this.metrics.messagesReceived++;
                 this.metrics.lastActivity = Date.now();
-                callback(message.payload as MessageResponse);
-            }
+                callback(message.payload);
+            },
+            priority: 1,
+            enabled: true
+        });
+
+        // Return unsubscribe function
+        return () => {
+            this.messageRouter.unregisterRoute('chat', 'message');
         };
+    }
 
-        const route: MessageRoute = {
+    /**
+     * Subscribe to edits, reaction changes and thread reply counts of messages in a chat
+     */
+    subscribeToMessageUpdates(chatId: string, callback: (event: MessageUpdateEvent) => void): () => void {
+        this.messageRouter.registerRoute({
             feature: 'chat',
-            messageType: 'message',
-            handler,
+            messageType: 'message_update',
+            schema: MessageUpdateEventSchema,
+            handler: (message) => {
+                if (this.getChatId(message) !== chatId) return;
+                this.metrics.lastActivity = Date.now();
+
+                const event = message.payload;
+                switch (event.type) {
+                    case SocketEventType.EDIT_MESSAGE:
+                        if (!this.config.enableMessageEditing) return;
+                        this.eventHandlers.onMessageEdited?.(event.message);
+                        break;
+                    case SocketEventType.ADD_REACTION:
+                        if (!this.config.enableMessageReactions) return;
+                        this.eventHandlers.onReactionAdded?.(event.messageId, event.chatId, event.reaction);
+                        break;
+                    case SocketEventType.REMOVE_REACTION:
+                        if (!this.config.enableMessageReactions) return;
+                        this.eventHandlers.onReactionRemoved?.(event.messageId, event.chatId, event.reaction);
+                        break;
+                    case SocketEventType.THREAD_UPDATE:
+                        this.eventHandlers.onThreadUpdated?.(event.messageId, event.chatId, event.threadSummary);
+                        break;
+                }
+                callback(event);
+            },
+            priority: 1,
+            enabled: true
+        });
+
+        return () => {
+            this.messageRouter.unregisterRoute('chat', 'message_update');
+        };
+    }
+
+    /**
+     * Subscribe to the messages of a chat reaching or being read by its members, in batches
+     */
+    subscribeToReceipts(chatId: string, callback: (event: MessageReceiptEvent) => void): () => void {
+        this.messageRouter.registerRoute({
+            feature: 'chat',
+            messageType: 'delivery_confirmation',
+            schema: MessageReceiptEventSchema,
+            handler: (message) => {
+                if (this.getChatId(message) !== chatId || !this.config.enableMessageDeliveryConfirmation) return;
+                this.metrics.lastActivity = Date.now();
+
+                const event = message.payload;
+                const timestamp = Date.parse(event.date);
+                event.messageIds.forEach(messageId => {
+                    this.eventHandlers.onMessageDelivered?.({
+                        messageId,
+                        chatId: event.chatId,
+                        userId: event.userId,
+                        delivered: true,
+                        read: event.state === 'read',
+                        timestamp
+                    });
+                    if (event.state === 'read') {
+                        this.eventHandlers.onMessageRead?.(messageId, event.chatId, event.userId);
+                    }
+                });
+                callback(event);
+            },
             priority: 1,
             enabled: true
+        });
+
+        return () => {
+            this.messageRouter.unregisterRoute('chat', 'delivery_confirmation');
         };
+    }
 
-        this.messageRouter.registerRoute(route);
+    /**
+     * Subscribe to a chat being reloaded because missed messages could not be replayed
+     */
+    subscribeToResync(chatId: string, callback: () => Promise<void> | void): () => void {
+        const callbacks = this.resyncCallbacks.get(chatId) ?? new Set();
+        callbacks.add(callback);
+        this.resyncCallbacks.set(chatId, callbacks);
 
-        // Return unsubscribe function
         return () => {
-            this.messageRouter.unregisterRoute('chat', 'message');
+            callbacks.delete(callback);
+            if (callbacks.size === 0) this.resyncCallbacks.delete(chatId);
+        };
+    }
+
+    /**
+     * Subscribe to the replies of a thread; only one thread is followed at a time
+     */
+    subscribeToThread(chatId: string, threadId: string, callback: (message: MessageResponse) => void): () => void {
+        this.messageRouter.registerRoute({
+            feature: 'chat',
+            messageType: 'thread_message',
+            schema: MessageResponseSchema,
+            handler: (message) => {
+                if (this.getChatId(message) !== chatId || String(message.payload.threadId) !== threadId) return;
+                this.metrics.messagesReceived++;
+                this.metrics.lastActivity = Date.now();
+                this.eventHandlers.onThreadMessage?.(message.payload);
+                callback(message.payload);
+            },
+            priority: 1,
+            enabled: true
+        });
+
+        return () => {
+            this.messageRouter.unregisterRoute('chat', 'thread_message');
         };
     }
 
@@ -360,29 +480,22 @@ export class ChatWebSocketAdapter {
      * Subscribe to typing indicators
      */
     subscribeToTypingIndicators(chatId: string, callback: (userIds: string[]) => void): () => void {
-        const handler: MessageHandler = async (message: WebSocketMessage) => {
-            const chatMessage = message as unknown as ChatWebSocketMessage;
-            if (chatMessage.feature === 'chat' &&
-                chatMessage.messageType === 'typing' &&
-                chatMessage.chatId === chatId) {
+        this.messageRouter.registerRoute({
+            feature: 'chat',
+            messageType: 'typing',
+            schema: TypingIndicatorEventSchema,
+            handler: (message) => {
+                if (this.getChatId(message) !== chatId) return;
                 this.metrics.typingIndicatorsReceived++;
                 this.metrics.lastActivity = Date.now();
 
                 const { userId, isTyping } = message.payload;
                 this.updateLocalTypingIndicator(chatId, userId, isTyping);
                 callback(Array.from(this.typingIndicators.get(chatId) || []));
-            }
-        };
-
-        const route: MessageRoute = {
-            feature: 'chat',
-            messageType: 'typing',
-            handler,
+            },
             priority: 2,
             enabled: true
-        };
-
-        this.messageRouter.registerRoute(route);
+        });
 
         return () => {
             this.messageRouter.unregisterRoute('chat', 'typing');
@@ -393,9 +506,11 @@ export class ChatWebSocketAdapter {
      * Subscribe to online status updates
      */
     subscribeToOnlineStatus(callback: (userId: string, isOnline: boolean) => void): () => void {
-        const handler: MessageHandler = async (message: WebSocketMessage) => {
-            const chatMessage = message as unknown as ChatWebSocketMessage;
-            if (chatMessage.feature === 'chat' && chatMessage.messageType === 'online_status') {
+        this.messageRouter.registerRoute({
+            feature: 'chat',
+            messageType: 'online_status',
+            schema: OnlineStatusEventSchema,
+            handler: (message) => {
                 this.metrics.onlineStatusUpdates++;
                 this.metrics.lastActivity = Date.now();
 
@@ -407,18 +522,10 @@ export class ChatWebSocketAdapter {
                 }
 
                 callback(userId, isOnline);
-            }
-        };
-
-        const route: MessageRoute = {
-            feature: 'chat',
-            messageType: 'online_status',
-            handler,
+            },
             priority: 3,
             enabled: true
-        };
-
-        this.messageRouter.registerRoute(route);
+        });
 
         return () => {
             this.messageRouter.unregisterRoute('chat', 'online_status');
@@ -429,24 +536,18 @@ export class ChatWebSocketAdapter {
      * Subscribe to presence updates
      */
     subscribeToPresence(callback: (presence: PresenceData) => void): () => void {
-        const handler: MessageHandler = async (message: WebSocketMessage) => {
-            const chatMessage = message as unknown as ChatWebSocketMessage;
-            if (chatMessage.feature === 'chat' && chatMessage.messageType === 'presence') {
-                this.metrics.presenceUpdates++;
-                this.metrics.lastActivity = Date.now();
-                callback(message.payload as PresenceData);
-            }
-        };
-
-        const route: MessageRoute = {
+        this.messageRouter.registerRoute({
             feature: 'chat',
             messageType: 'presence',
-            handler,
+            schema: PresenceEventSchema,
+            handler: (message) => {
+                this.metrics.presenceUpdates++;
+                this.metrics.lastActivity = Date.now();
+                callback(message.payload);
+            },
             priority: 3,
             enabled: true
-        };
-
-        this.messageRouter.registerRoute(route);
+        });
 
         return () => {
             this.messageRouter.unregisterRoute('chat', 'presence');
@@ -457,23 +558,17 @@ export class ChatWebSocketAdapter {
      * Subscribe to chat events
      */
     subscribeToChatEvents(callback: (event: ChatEvent) => void): () => void {
-        const handler: MessageHandler = async (message: WebSocketMessage) => {
-            const chatMessage = message as unknown as ChatWebSocketMessage;
-            if (chatMessage.feature === 'chat' && chatMessage.messageType === 'chat_event') {
-                this.metrics.lastActivity = Date.now();
-                callback(message.payload as ChatEvent);
-            }
-        };
-
-        const route: MessageRoute = {
+        this.messageRouter.registerRoute({
             feature: 'chat',
             messageType: 'chat_event',
-            handler,
+            schema: ChatEventSchema,
+            handler: (message) => {
+                this.metrics.lastActivity = Date.now();
+                callback(message.payload);
+            },
             priority: 1,
             enabled: true
-        };
-
-        this.messageRouter.registerRoute(route);
+        });
 
         return () => {
             this.messageRouter.unregisterRoute('chat', 'chat_event');
@@ -538,11 +633,12 @@ export class ChatWebSocketAdapter {
         // Clear local state
         this.typingIndicators.clear();
         this.onlineUsers.clear();
+        this.resyncCallbacks.clear();
         this.messageDeliveryCallbacks.clear();
         this.eventHandlers = {};
 
         // Unregister all routes
-        const messageTypes = ['message', 'typing', 'online_status', 'presence', 'chat_event'];
+        const messageTypes = ['message', 'message_update', 'thread_message', 'typing', 'online_status', 'presence', 'chat_event', 'delivery_confirmation'];
         messageTypes.forEach(messageType => {
             this.messageRouter.unregisterRoute('chat', messageType);
         });
@@ -559,8 +655,8 @@ export class ChatWebSocketAdapter {
             enableOnlineStatus: true,
             enablePresenceManagement: true,
             enableMessageDeliveryConfirmation: true,
-            enableMessageReactions: false,
-            enableMessageEditing: false,
+            enableMessageReactions: true,
+            enableMessageEditing: true,
             enableMessageDeletion: true,
             typingIndicatorTimeout: 3000,
             onlineStatusHeartbeat: 30000,
@@ -635,6 +731,15 @@ export class ChatWebSocketAdapter {
             onDisconnect: () => {
                 this.eventHandlers.onConnectionChange?.(false);
             },
+            onResync: async (topic: string) => {
+                // Chat topics are `chat:<chatId>`
+                const chatId = topic.slice(topic.indexOf(':') + 1);
+                const callbacks = Array.from(this.resyncCallbacks.get(chatId) ?? []);
+                await Promise.all([
+                    this.eventHandlers.onResync?.(chatId),
+                    ...callbacks.map(callback => callback())
+                ]);
+            },
             onError: (error: Event) => {
                 const chatError: ChatWebSocketError = {
                     type: 'connection',
@@ -658,6 +763,13 @@ export class ChatWebSocketAdapter {
         // The actual subscription is handled in subscribeToEnterpriseWebSocket()
     }
 
+    /**
+     * Get the chat a routed message was sent to
+     */
+    private getChatId(message: TypedWebSocketMessage<unknown>): string | undefined {
+        return (message as unknown as ChatWebSocketMessage).chatId;
+    }
+
     /**
      * Update local typing indicators
      */
@@ -689,8 +801,8 @@ export class ChatWebSocketAdapter {
             const cacheKey = `chat:${chatId}:messages`;
             await this.cacheManager.set(cacheKey, message, 300000); // 5 minutes TTL
 
-            // Invalidate chat list cache
-            await this.cacheManager.invalidatePattern(`chat:${chatId}:*`);
+            // Invalidate chat cache
+            await this.cacheManager.invalidate(`chat:${chatId}`);
         } catch (error) {
             console.error('Failed to update message cache:', error);
         }
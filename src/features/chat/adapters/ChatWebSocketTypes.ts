@@ -5,14 +5,16 @@
  * Extends enterprise WebSocket types with chat-specific features.
  */
 
+import type { z } from 'zod';
 import { WebSocketMessage, WebSocketFeatureConfig } from '@/core/websocket/types';
-import { MessageResponse, ChatEvent } from '../models/chat';
+import type { MessageReactionSchema, PresenceEventSchema } from '../data/models/chatZod';
+import { MessageResponse, ChatEvent, ThreadSummary } from '../models/chat';
 import { ResId } from '@/shared/api/models/common';
 
 // Chat-specific WebSocket message types
 export interface ChatWebSocketMessage extends WebSocketMessage {
   feature: 'chat';
-  messageType: 'message' | 'typing' | 'online_status' | 'presence' | 'chat_event' | 'delivery_confirmation';
+  messageType: 'message' | 'message_update' | 'thread_message' | 'typing' | 'online_status' | 'presence' | 'chat_event' | 'delivery_confirmation';
   chatId?: string;
   userId?: string;
   data: any;
@@ -25,7 +27,7 @@ export interface ChatMessageData {
   senderId: ResId;
   content: string;
   timestamp: number;
-  type: 'text' | 'image' | 'file' | 'system';
+  type: 'text' | 'image' | 'file' | 'voice' | 'system';
   metadata?: {
     edited?: boolean;
     editedAt?: number;
@@ -38,11 +40,7 @@ export interface ChatMessageData {
 }
 
 // Message reaction
-export interface MessageReaction {
-  emoji: string;
-  userId: ResId;
-  timestamp: number;
-}
+export type MessageReaction = z.infer<typeof MessageReactionSchema>;
 
 // Typing indicator data
 export interface TypingIndicatorData {
@@ -63,14 +61,7 @@ export interface OnlineStatusData {
 }
 
 // Presence data
-export interface PresenceData {
-  userId: ResId;
-  chatId?: ResId;
-  status: 'online' | 'away' | 'busy' | 'invisible';
-  lastActivity: number;
-  currentChat?: ResId;
-  isTyping?: boolean;
-}
+export type PresenceData = z.infer<typeof PresenceEventSchema>;
 
 // Message delivery confirmation
 export interface MessageDeliveryConfirmation {
@@ -178,6 +169,10 @@ export interface ChatEventHandlers {
   onMessage?: (message: MessageResponse) => void;
   onMessageEdited?: (message: MessageResponse) => void;
   onMessageDeleted?: (messageId: ResId, chatId: ResId) => void;
+  onReactionAdded?: (messageId: ResId, chatId: ResId, reaction: MessageReaction) => void;
+  onReactionRemoved?: (messageId: ResId, chatId: ResId, reaction: MessageReaction) => void;
+  onThreadMessage?: (message: MessageResponse) => void;
+  onThreadUpdated?: (messageId: ResId, chatId: ResId, threadSummary: ThreadSummary) => void;
   onMessageDelivered?: (confirmation: MessageDeliveryConfirmation) => void;
   onMessageRead?: (messageId: ResId, chatId: ResId, userId: ResId) => void;
   onTypingIndicator?: (chatId: ResId, userIds: ResId[]) => void;
@@ -188,6 +183,8 @@ export interface ChatEventHandlers {
   onConnectionChange?: (isConnected: boolean) => void;
   onUserJoined?: (userId: ResId, chatId: ResId) => void;
   onUserLeft?: (userId: ResId, chatId: ResId) => void;
+  // Messages missed while disconnected could not be replayed; reload the chat
+  onResync?: (chatId: string) => Promise<void> | void;
 }
 
 // Chat WebSocket error
@@ -0,0 +1,190 @@
+/**
+ * Attachment Uploads Hook
+ *
+ * Uploads the files picked for the next message. Every file gets its own
+ * FileUploadService, so each shows its own progress and can be cancelled
+ * without touching the others.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useFeatureAuth } from '@/core/hooks/useAuthentication';
+import type { Attachment, AttachmentKind } from "@/features/chat/data/models/chat";
+import type { ValidationError } from '@core/modules/error/classes/ValidationError';
+import { createFileUploadService, type FetchCallback, type UploadStatus } from '@/shared/services/FileUploadService';
+import { processImage } from '@/shared/utils/imageUtils';
+import { checkAttachments, getAttachmentKind } from '@chat/domain/attachments';
+import { useChatServices } from './useChatServices';
+
+/**
+ * A file picked for the next message, while and after it uploads.
+ */
+export interface PendingAttachment {
+    localId: string;
+    name: string;
+    kind: AttachmentKind;
+    size: number;
+    /** Object URL of the thumbnail, for images */
+    previewUrl?: string;
+    status: UploadStatus;
+    progress: number;
+    /** The uploaded attachment, once the upload succeeded */
+    attachment?: Attachment;
+    error?: string;
+}
+
+interface UploadEntry {
+    service: ReturnType<typeof createFileUploadService>;
+    unsubscribe: () => void;
+    previewUrl?: string;
+}
+
+/**
+ * Custom hook to upload the attachments of the next message.
+ *
+ * @returns {Object} - The picked files with their progress, the IDs to send and the actions on them.
+ */
+export const useAttachmentUploads = () => {
+    const { token } = useFeatureAuth();
+    const { chatDataService } = useChatServices();
+    const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+    const [error, setError] = useState<ValidationError | null>(null);
+    const uploads = useRef(new Map<string, UploadEntry>());
+    const nextId = useRef(0);
+
+    const update = useCallback((localId: string, changes: Partial<PendingAttachment>) => {
+        setAttachments(current => current.map(pending => (pending.localId === localId ? { ...pending, ...changes } : pending)));
+    }, []);
+
+    const release = useCallback((localId: string) => {
+        const entry = uploads.current.get(localId);
+        if (!entry) return;
+
+        entry.unsubscribe();
+        entry.service.cancelUpload();
+        entry.service.destroy();
+        if (entry.previewUrl) URL.revokeObjectURL(entry.previewUrl);
+        uploads.current.delete(localId);
+    }, []);
+
+    /**
+     * Prepare a file and upload it; images are resized and stripped of metadata first.
+     */
+    const startUpload = useCallback(async (localId: string, file: File, kind: AttachmentKind) => {
+        const entry = uploads.current.get(localId);
+        if (!entry) return;
+
+        let upload = file;
+        let thumbnail: Blob | null = null;
+        if (kind === 'image') {
+            try {
+                const processed = await processImage(file);
+                upload = processed.file;
+                thumbnail = processed.thumbnail;
+            } catch (processingError) {
+                console.error('Error preparing image attachment:', { name: file.name, error: processingError });
+                update(localId, { status: 'error', error: 'This image could not be read' });
+                return;
+            }
+        }
+
+        // Removed while the image was being prepared
+        if (!entry.service.isActive()) return;
+
+        if (thumbnail) {
+            entry.previewUrl = URL.createObjectURL(thumbnail);
+            update(localId, { previewUrl: entry.previewUrl, size: upload.size });
+        }
+
+        const fetchCallback: FetchCallback = (formData, options) => {
+            if (thumbnail) formData.append('thumbnail', thumbnail, 'thumbnail.jpg');
+            return chatDataService.uploadAttachment(formData, token || '', options);
+        };
+        entry.service.setFetchCallback(fetchCallback);
+        entry.service.setFile(upload);
+
+        try {
+            await entry.service.uploadFile();
+        } catch (uploadError) {
+            // The service keeps the error for the subscriber
+            console.error('Error uploading attachment:', { name: file.name, error: uploadError });
+        }
+    }, [chatDataService, token, update]);
+
+    /**
+     * Check picked files against the attachment limits and start uploading the valid ones.
+     */
+    const addFiles = useCallback((files: FileList | File[]) => {
+        const { accepted, error: validationError } = checkAttachments(Array.from(files), uploads.current.size);
+        setError(validationError);
+
+        const added = accepted.map((file): PendingAttachment => {
+            const localId = `attachment-${++nextId.current}`;
+            const service = createFileUploadService();
+            const unsubscribe = service.subscribe(state => {
+                if (state.status === 'idle') return;
+                update(localId, {
+                    status: state.status,
+                    progress: state.progress,
+                    ...(state.status === 'success' && { attachment: state.response as Attachment }),
+                    ...(state.status === 'error' && { error: String(state.response) })
+                });
+            });
+            uploads.current.set(localId, { service, unsubscribe });
+
+            return {
+                localId,
+                name: file.name,
+                kind: getAttachmentKind(file.type) ?? 'file',
+                size: file.size,
+                status: 'idle',
+                progress: 0
+            };
+        });
+
+        setAttachments(current => [...current, ...added]);
+        added.forEach((pending, index) => {
+            const file = accepted[index];
+            if (file) startUpload(pending.localId, file, pending.kind);
+        });
+    }, [startUpload, update]);
+
+    /**
+     * Cancel the upload of a file, if it is still running, and take it off the message.
+     */
+    const remove = useCallback((localId: string) => {
+        release(localId);
+        setAttachments(current => current.filter(pending => pending.localId !== localId));
+    }, [release]);
+
+    /**
+     * Forget every picked file, e.g. once the message is sent.
+     */
+    const clear = useCallback(() => {
+        Array.from(uploads.current.keys()).forEach(release);
+        setAttachments([]);
+        setError(null);
+    }, [release]);
+
+    // Uploads still running when the composer goes away are cancelled
+    useEffect(() => () => {
+        Array.from(uploads.current.keys()).forEach(release);
+    }, [release]);
+
+    const attachmentIds = useMemo(
+        () => attachments.flatMap(pending => (pending.attachment ? [pending.attachment.id] : [])),
+        [attachments]
+    );
+
+    return {
+        attachments,
+        error,
+        attachmentIds,
+        isUploading: attachments.some(pending => pending.status === 'idle' || pending.status === 'uploading'),
+        addFiles,
+        remove,
+        clear,
+        dismissError: () => setError(null)
+    };
+};
+
+export default useAttachmentUploads;
@@ -0,0 +1,80 @@
+/**
+ * Chat Encryption Hook
+ *
+ * Tells whether a chat is end-to-end encrypted, turns encryption on and
+ * loads the safety number the members compare to verify each other.
+ */
+
+import { useFeatureAuth } from '@/core/hooks/useAuthentication';
+import { useCustomMutation, useCustomQuery } from '@/core/hooks';
+import { CACHE_TIME_MAPPINGS } from '@/core/hooks/services/migrationUtils';
+import type { ChatResponse } from "@/features/chat/data/models/chat";
+import { canEncryptChat, formatSafetyNumber } from '@chat/domain/encryption';
+import { useChatServices } from './useChatServices';
+
+/**
+ * Custom hook for the end-to-end encryption of a chat.
+ *
+ * @param {string} chatId - The chat.
+ * @returns {Object} - Whether the chat is or can be encrypted, the mutation that encrypts it and its safety number.
+ */
+export const useChatEncryption = (chatId: string) => {
+    const { token } = useFeatureAuth();
+    const { chatDataService } = useChatServices();
+
+    // Shares its cache entry with the chat details of `useChat`
+    const chat = useCustomQuery<ChatResponse>(
+        ['chat', 'details', chatId],
+        () => chatDataService.getChatDetails(chatId, token || ''),
+        {
+            enabled: !!token && !!chatId,
+            staleTime: CACHE_TIME_MAPPINGS.CHAT_STALE_TIME,
+            cacheTime: CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME,
+            onError: (error) => {
+                console.error('Error loading chat:', { chatId, error: error.message });
+            }
+        }
+    );
+
+    const isEncrypted = !!chat.data?.isEncrypted;
+
+    // Device keys change when either member adds a device, so the number is never kept for long
+    const safetyNumber = useCustomQuery<string>(
+        ['chat', 'safetyNumber', chatId],
+        () => chatDataService.getSafetyNumber(chatId, token || ''),
+        {
+            enabled: !!token && isEncrypted,
+            staleTime: 0,
+            cacheTime: CACHE_TIME_MAPPINGS.CHAT_STALE_TIME,
+            onError: (error) => {
+                console.error('Error computing safety number:', { chatId, error: error.message });
+            }
+        }
+    );
+
+    const enableEncryption = useCustomMutation(
+        async () => await chatDataService.enableEncryption(chatId, token || ''),
+        {
+            onSuccess: (encryptedChat: ChatResponse) => {
+                chat.setData(encryptedChat);
+            },
+            onError: (error) => {
+                console.error('Error enabling encryption:', { chatId, error: error.message });
+            }
+        }
+    );
+
+    return {
+        isEncrypted,
+        canEncrypt: !!chat.data && !isEncrypted && canEncryptChat(chat.data),
+        enableEncryption,
+        safetyNumber: safetyNumber.data ? formatSafetyNumber(safetyNumber.data) : [],
+        isSafetyNumberLoading: safetyNumber.isLoading,
+        safetyNumberError: safetyNumber.error,
+        refreshSafetyNumber: safetyNumber.refetch
+    };
+};
+
+export type ChatEncryption = ReturnType<typeof useChatEncryption>;
+
+export default useChatEncryption;
@@ -18,6 +18,7 @@ export const useChatServices = () => {
     webSocketService: diContainer.getWebSocketService(),
     chatMetricsService: diContainer.getChatMetricsService(),
     chatPresenceService: diContainer.getChatPresenceService(),
-    chatAnalyticsService: diContainer.getChatAnalyticsService()
+    chatAnalyticsService: diContainer.getChatAnalyticsService(),
+    chatWebSocketAdapter: diContainer.getChatWebSocketAdapter()
   };
 };
@@ -0,0 +1,44 @@
+/**
+ * Message Edit History Hook
+ *
+ * Loads the previous versions of an edited message on demand.
+ */
+
+import { useFeatureAuth } from '@/core/hooks/useAuthentication';
+import { useCustomQuery } from '@/core/hooks';
+import { CACHE_TIME_MAPPINGS } from '@/core/hooks/services/migrationUtils';
+import type { MessageEditList, MessageResponse } from "@/features/chat/data/models/chat";
+import { useChatServices } from './useChatServices';
+
+/**
+ * Custom hook to load the edit history of a message.
+ *
+ * @param {MessageResponse} message - The message whose history to load.
+ * @param {boolean} enabled - Load only once the history is shown.
+ * @returns {Object} - The previous versions of the message, oldest first, and the loading state.
+ */
+export const useMessageEditHistory = (message: MessageResponse, enabled: boolean) => {
+    const { token } = useFeatureAuth();
+    const { chatDataService } = useChatServices();
+
+    const { data, isLoading, error } = useCustomQuery<MessageEditList>(
+        ['message', 'edits', String(message.id), message.editDate ?? ''],
+        () => chatDataService.getMessageEditHistory(message.id, token || ''),
+        {
+            enabled: enabled && !!message.isEdited && !!token,
+            staleTime: CACHE_TIME_MAPPINGS.CHAT_STALE_TIME,
+            cacheTime: CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME,
+            onError: (error) => {
+                console.error('Error loading message edit history:', { messageId: message.id, error: error.message });
+            }
+        }
+    );
+
+    return {
+        edits: data ?? [],
+        isLoading,
+        error
+    };
+};
+
+export default useMessageEditHistory;
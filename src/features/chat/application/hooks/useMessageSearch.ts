@@ -0,0 +1,85 @@
+/**
+ * Message Search Hook
+ *
+ * Searches the text of messages as the user types, across all chats or
+ * within one, falling back to the messages loaded on this device when the
+ * server cannot be reached.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useFeatureAuth } from '@/core/hooks/useAuthentication';
+import { useCustomInfiniteQuery } from '@/core/hooks';
+import { CACHE_TIME_MAPPINGS } from '@/core/hooks/services/migrationUtils';
+import { isSearchQuery, type MessageSearchQuery, type MessageSearchResult } from '@chat/domain/messageSearch';
+import { useChatServices } from './useChatServices';
+
+/**
+ * Time the query has to stay the same before it is searched, in milliseconds.
+ */
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Custom hook to search messages.
+ *
+ * @param {MessageSearchQuery} query - The words to find and the chat, sender and date filters.
+ * @param {boolean} enabled - Search only while the results are shown.
+ * @returns {Object} - The results newest first, whether the search ran offline, the loading state and paging.
+ */
+export const useMessageSearch = (query: MessageSearchQuery, enabled: boolean = true) => {
+    const { token } = useFeatureAuth();
+    const { chatDataService } = useChatServices();
+    const [text, setText] = useState(query.text);
+    const [isOffline, setIsOffline] = useState(false);
+
+    // Search once the user stops typing, not on every key
+    useEffect(() => {
+        const timeout = setTimeout(() => setText(query.text), SEARCH_DELAY_MS);
+        return () => clearTimeout(timeout);
+    }, [query.text]);
+
+    const { chatId, senderId, from, to } = query;
+    const searchQuery = useMemo<MessageSearchQuery>(() => ({
+        text,
+        ...(chatId !== undefined && { chatId }),
+        ...(senderId !== undefined && { senderId }),
+        ...(from && { from }),
+        ...(to && { to })
+    }), [text, chatId, senderId, from?.getTime(), to?.getTime()]);
+
+    const canSearch = enabled && !!token && isSearchQuery(text);
+
+    const fetchResults = useCallback(async (pageParam = 0) => {
+        const page = await chatDataService.searchMessages(searchQuery, pageParam, token || '');
+        if (pageParam === 0) setIsOffline(page.isOffline);
+        return { data: page.results, hasNextPage: page.hasNextPage };
+    }, [chatDataService, searchQuery, token]);
+
+    const results = useCustomInfiniteQuery<MessageSearchResult>(
+        ['chats', 'search', text, String(chatId ?? ''), String(senderId ?? ''), from?.toISOString() ?? '', to?.toISOString() ?? ''],
+        fetchResults,
+        {
+            enabled: canSearch,
+            staleTime: CACHE_TIME_MAPPINGS.SEARCH_STALE_TIME,
+            cacheTime: CACHE_TIME_MAPPINGS.SEARCH_CACHE_TIME,
+            getNextPageParam: (lastPage: unknown, allPages: unknown[]) => {
+                const resultsPage = lastPage as { hasNextPage: boolean };
+                return resultsPage.hasNextPage ? allPages.length : undefined;
+            },
+            onError: (error) => {
+                console.error('Error searching messages:', { error: error.message });
+            }
+        }
+    );
+
+    return {
+        results: canSearch ? results.data : [],
+        isSearching: enabled && isSearchQuery(query.text) && (text !== query.text || results.isLoading),
+        isOffline: canSearch && isOffline,
+        error: canSearch ? results.error : null,
+        hasNextPage: canSearch && results.hasNextPage,
+        isFetchingNextPage: results.isFetchingNextPage,
+        fetchNextPage: results.fetchNextPage
+    };
+};
+
+export default useMessageSearch;
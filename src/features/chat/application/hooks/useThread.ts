@@ -0,0 +1,137 @@
+/**
+ * Thread Hook
+ *
+ * Loads a thread side conversation, follows its replies in real time and
+ * sends new replies.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useFeatureAuth } from '@/core/hooks/useAuthentication';
+import { useCustomInfiniteQuery, useCustomMutation, useCustomQuery } from '@/core/hooks';
+import { CACHE_TIME_MAPPINGS } from '@/core/hooks/services/migrationUtils';
+import type { MessageResponse, ThreadResponse } from "@/features/chat/data/models/chat";
+import { addThreadReply } from '@chat/domain/threads';
+import { useChatServices } from './useChatServices';
+
+/**
+ * Custom hook to open a thread.
+ *
+ * @param {string} chatId - The chat the thread belongs to.
+ * @param {string} threadId - The ID of the message that started the thread.
+ * @returns {Object} - The thread, its replies oldest first, paging and the reply mutation.
+ */
+export const useThread = (chatId: string, threadId: string) => {
+    const { token, userId } = useFeatureAuth();
+    const { chatDataService, chatWebSocketAdapter } = useChatServices();
+
+    const thread = useCustomQuery<ThreadResponse>(
+        ['chats', 'thread', threadId],
+        () => chatDataService.getThread(threadId, token || ''),
+        {
+            enabled: !!token && !!threadId,
+            staleTime: CACHE_TIME_MAPPINGS.CHAT_STALE_TIME,
+            cacheTime: CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME,
+            onError: (error) => {
+                console.error('Error loading thread:', { threadId, error: error.message });
+            }
+        }
+    );
+
+    // Pages hold the newest replies first, like the messages of a chat
+    const replies = useCustomInfiniteQuery<MessageResponse>(
+        ['chats', 'thread', threadId, 'messages'],
+        async (pageParam = 0) => {
+            const page = await chatDataService.getThreadMessages(threadId, pageParam, token || '');
+            return {
+                data: page.content || [],
+                hasNextPage: !page.last,
+                hasPreviousPage: !page.first
+            };
+        },
+        {
+            enabled: !!token && !!threadId,
+            staleTime: CACHE_TIME_MAPPINGS.CHAT_STALE_TIME,
+            cacheTime: CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME,
+            getNextPageParam: (lastPage: unknown, allPages: unknown[]) => {
+                const repliesPage = lastPage as { hasNextPage: boolean };
+                return repliesPage.hasNextPage ? allPages.length : undefined;
+            },
+            onError: (error) => {
+                console.error('Error loading thread replies:', { threadId, error: error.message });
+            }
+        }
+    );
+
+    const markAsRead = useCallback(() => {
+        if (!token || !userId) return;
+        chatDataService.markThreadAsRead(String(userId), threadId, token).catch((error: unknown) => {
+            console.error('Error marking thread as read:', { threadId, error });
+        });
+    }, [chatDataService, threadId, token, userId]);
+
+    /**
+     * Show a reply once, whether it comes back from the server or over the socket.
+     */
+    const addReply = useCallback((reply: MessageResponse) => {
+        const newest = replies.pages[0]?.data ?? [];
+        if (replies.data.some(message => String(message.id) === String(reply.id))) return;
+
+        replies.setData([reply, ...newest], 0);
+        if (thread.data) {
+            thread.setData({ ...thread.data, root: addThreadReply(thread.data.root, reply) });
+        }
+    }, [replies, thread]);
+
+    // Real-time replies outlive renders, so they go through the latest callbacks
+    const addReplyRef = useRef(addReply);
+    addReplyRef.current = addReply;
+    const markAsReadRef = useRef(markAsRead);
+    markAsReadRef.current = markAsRead;
+
+    // An open thread is read: on opening and as replies arrive
+    useEffect(() => {
+        if (!chatId || !threadId) return;
+        markAsReadRef.current();
+
+        return chatWebSocketAdapter.subscribeToThread(chatId, threadId, (reply) => {
+            // Replies in an encrypted chat arrive as ciphertext
+            chatDataService.decryptMessage(reply, token || '').then((message) => addReplyRef.current(message));
+            markAsReadRef.current();
+        });
+    }, [chatId, threadId, chatWebSocketAdapter, chatDataService, token]);
+
+    const sendReply = useCustomMutation(
+        async (text: string) => {
+            return await chatDataService.sendMessage(chatId, {
+                chatId,
+                senderId: userId,
+                recipientId: thread.data?.root.senderId ?? '',
+                text,
+                threadId
+            }, token || '');
+        },
+        {
+            onSuccess: (reply: MessageResponse) => {
+                addReply(reply);
+            },
+            onError: (error) => {
+                console.error('Error sending thread reply:', { threadId, error: error.message });
+            },
+            retry: 1,
+            retryDelay: 1000
+        }
+    );
+
+    return {
+        thread: thread.data,
+        replies: [...replies.data].reverse(),
+        isLoading: thread.isLoading || replies.isLoading,
+        error: thread.error ?? replies.error,
+        hasOlderReplies: replies.hasNextPage,
+        isFetchingOlderReplies: replies.isFetchingNextPage,
+        fetchOlderReplies: replies.fetchNextPage,
+        sendReply
+    };
+};
+
+export default useThread;
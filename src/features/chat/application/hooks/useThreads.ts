@@ -0,0 +1,50 @@
+/**
+ * Threads Hook
+ *
+ * Lists the threads the signed-in user took part in, for the "Threads" view
+ * of the chat sidebar.
+ */
+
+import { useFeatureAuth } from '@/core/hooks/useAuthentication';
+import { useCustomQuery } from '@/core/hooks';
+import { CACHE_TIME_MAPPINGS } from '@/core/hooks/services/migrationUtils';
+import type { ThreadList } from "@/features/chat/data/models/chat";
+import { countUnreadThreads } from '@chat/domain/threads';
+import { useChatServices } from './useChatServices';
+
+/**
+ * Custom hook to list the threads of the signed-in user.
+ *
+ * @param {boolean} enabled - Load only while the threads are shown.
+ * @returns {Object} - The most recently active threads, how many have unread replies and the loading state.
+ */
+export const useThreads = (enabled: boolean = true) => {
+    const { token, userId } = useFeatureAuth();
+    const { chatDataService } = useChatServices();
+
+    const { data, isLoading, error, refetch } = useCustomQuery<ThreadList>(
+        ['chats', 'threads', String(userId)],
+        () => chatDataService.getThreads(String(userId), 0, token || ''),
+        {
+            enabled: enabled && !!token && !!userId,
+            staleTime: CACHE_TIME_MAPPINGS.CHAT_STALE_TIME,
+            cacheTime: CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME,
+            refetchInterval: CACHE_TIME_MAPPINGS.CHAT_REFETCH_INTERVAL,
+            onError: (error) => {
+                console.error('Error loading threads:', { error: error.message });
+            }
+        }
+    );
+
+    const threads = data?.content ?? [];
+
+    return {
+        threads,
+        unreadThreadCount: countUnreadThreads(threads),
+        isLoading,
+        error,
+        refetch
+    };
+};
+
+export default useThreads;
@@ -5,17 +5,22 @@
  * Provides enterprise-grade custom query-based chat functionality with advanced features.
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useCustomQuery } from '@/core/modules/hooks/useCustomQuery';
 import { useCustomMutation } from '@/core/modules/hooks/useCustomMutation';
 import { useCustomInfiniteQuery } from '@/core/modules/hooks/useCustomInfiniteQuery';
-import type { ChatList, ChatResponse, CreateChatRequest, PagedMessage } from "@/features/chat/data/models/chat";
+import type { QueryFunctionContext } from '@/core/hooks';
+import { RequestPriority } from '@/core/modules/network/types';
+import type { ChatList, ChatResponse, CreateChatRequest, MessageResponse, PagedMessage } from "@/features/chat/data/models/chat";
 import { useFeatureAuth } from '@/core/modules/authentication';
 import type { ResId, JwtToken } from "@/shared/api/models/common";
 import { useChatServices } from './useChatServices';
 import { useCacheInvalidation } from '@/core/hooks/migrationUtils';
 import type { ChatMetrics } from '@/features/chat/application/services/ChatMetricsService';
 import { CHAT_CACHE_KEYS } from '@chat/data/cache/ChatCacheKeys';
+import { addReaction, applyEdit, applyMessageUpdate, removeReaction } from '@chat/domain/messageUpdates';
+import { applyReceipt } from '@chat/domain/receipts';
+import { isUnreadBy } from '@chat/domain/unread';
 import { CACHE_TIME_MAPPINGS } from '@/core/hooks/migrationUtils';
 
 /**
@@ -86,8 +91,17 @@ export interface UnifiedChatActions {
     addParticipant: any;
     removeParticipant: any;
     markMessagesAsRead: any;
+    markMessageSeen: (message: MessageResponse) => void;
+    editMessage: any;
+    addReaction: any;
+    removeReaction: any;
 }
 
+/**
+ * Time messages seen are collected before their read receipts are sent together, in milliseconds
+ */
+const READ_RECEIPT_BATCH_MS = 1000;
+
 /**
  * Default configuration
  */
@@ -119,7 +133,7 @@ export const useUnifiedChat = (
     options: UseChatOptions = {}
 ): UnifiedChatState & UnifiedChatActions => {
     const [token, setToken] = useState<JwtToken | null>(null);
-    const { chatDataService, chatFeatureService, webSocketService, chatMetricsService, chatPresenceService, chatAnalyticsService } = useChatServices();
+    const { chatDataService, chatFeatureService, webSocketService, chatMetricsService, chatPresenceService, chatAnalyticsService, chatWebSocketAdapter } = useChatServices();
     const invalidateCache = useCacheInvalidation();
 
     // Merge options with defaults
@@ -232,11 +246,11 @@ export const useUnifiedChat = (
     // Get chats query with advanced features and performance tracking
     const chats = useCustomQuery(
         ['chats', userId, `strategy:${config.cacheStrategy}`, `realtime:${config.enableRealTime}`],
-        async () => {
+        async ({ signal, priority }: QueryFunctionContext) => {
             const startTime = performance.now();
             try {
                 if (!token) return { content: [] };
-                const result = await chatDataService.getChats(userId, token);
+                const result = await chatDataService.getChats(userId, token, { signal, priority });
                 const duration = performance.now() - startTime;
                 chatMetricsService.recordQuery('getChats', duration, true, false);
                 return Array.isArray(result) ? { content: result } : result;
@@ -303,6 +317,68 @@ export const useUnifiedChat = (
         }
     );
 
+    /**
+     * Replace a loaded message in place
+     *
+     * @returns A function restoring the pages that were changed
+     */
+    const updateLoadedMessage = useCallback((messageId: ResId, update: (message: MessageResponse) => MessageResponse) => {
+        const changedPages: Array<{ pageIndex: number; data: MessageResponse[] }> = [];
+
+        messages.pages.forEach((page: { data: MessageResponse[] }, pageIndex: number) => {
+            if (!page.data.some(message => String(message.id) === String(messageId))) return;
+            changedPages.push({ pageIndex, data: page.data });
+            messages.setData(page.data.map(message => String(message.id) === String(messageId) ? update(message) : message), pageIndex);
+        });
+
+        return () => {
+            changedPages.forEach(({ pageIndex, data }) => messages.setData(data, pageIndex));
+        };
+    }, [messages]);
+
+    // Real-time updates outlive renders, so they go through the latest updater
+    const updateLoadedMessageRef = useRef(updateLoadedMessage);
+    updateLoadedMessageRef.current = updateLoadedMessage;
+
+    // Apply edits and reactions of other members as they happen
+    useEffect(() => {
+        if (!config.enableRealTime || !chatId) return;
+
+        chatWebSocketAdapter.initialize().catch((error: unknown) => {
+            console.error('UnifiedChat: Chat WebSocket adapter failed to initialize:', error);
+        });
+
+        return chatWebSocketAdapter.subscribeToMessageUpdates(chatId, (event) => {
+            updateLoadedMessageRef.current(event.messageId, message => applyMessageUpdate(message, event));
+        });
+    }, [config.enableRealTime, chatId, chatWebSocketAdapter]);
+
+    // Show how far messages got to each member as their devices report it
+    useEffect(() => {
+        if (!config.enableRealTime || !chatId) return;
+
+        return chatWebSocketAdapter.subscribeToReceipts(chatId, (event) => {
+            event.messageIds.forEach(messageId => {
+                updateLoadedMessageRef.current(messageId, message => applyReceipt(message, event.userId, event.state, event.date));
+            });
+        });
+    }, [config.enableRealTime, chatId, chatWebSocketAdapter]);
+
+    // Queries reloaded when missed messages could not be replayed
+    const resyncQueriesRef = useRef({ chats, messages });
+    resyncQueriesRef.current = { chats, messages };
+
+    // Reload the chat over REST when the socket missed more than it can replay
+    useEffect(() => {
+        if (!config.enableRealTime || !chatId || !token) return;
+
+        return chatWebSocketAdapter.subscribeToResync(chatId, async () => {
+            await chatDataService.resyncChat(chatId, token);
+            invalidateCache.invalidateUserChatData(userId);
+            await Promise.all([resyncQueriesRef.current.messages.refetch(), resyncQueriesRef.current.chats.refetch()]);
+        });
+    }, [config.enableRealTime, chatId, token, userId, chatWebSocketAdapter, chatDataService, invalidateCache]);
+
     // Get participants (only if chatId is provided)
     const participants = useCustomQuery(
         chatId ? ['chats', 'participants', chatId, `strategy:${config.cacheStrategy}`, `realtime:${config.enableRealTime}`] : ['chats', 'participants', 'none'],
@@ -336,9 +412,9 @@ export const useUnifiedChat = (
     // Get unread count (now implemented)
     const unreadCount = useCustomQuery(
         ['chats', 'unreadCount', userId, `strategy:${config.cacheStrategy}`, `realtime:${config.enableRealTime}`],
-        async () => {
+        async ({ signal, priority }: QueryFunctionContext) => {
             if (!token) return 0;
-            return await chatDataService.getUnreadCount(userId, token);
+            return await chatDataService.getUnreadCount(userId, token, { signal, priority });
         },
         {
             staleTime: getStaleTime('unread'),
@@ -577,6 +653,67 @@ export const useUnifiedChat = (
                 };
             } : undefined,
             retry: 3,
+            retryDelay: 1000,
+            // Messages sent offline stay in the chat and are delivered once the connection is back
+            offline: { mutationKey: 'chat:sendMessage' }
+        }
+    );
+
+    // Edit a message; the server keeps the previous text in its edit history
+    const editMessage = useCustomMutation(
+        async ({ chatId: messageChatId, messageId, text }: { chatId: string, messageId: ResId, text: string }) => {
+            return await chatDataService.editMessage(messageChatId, messageId, text, token);
+        },
+        {
+            onSuccess: (data: MessageResponse) => {
+                console.log('UnifiedChat: Message edited successfully:', data.id);
+                updateLoadedMessage(data.id, () => data);
+            },
+            onError: (error) => {
+                console.error('UnifiedChat: Error editing message:', error);
+            },
+            optimisticUpdate: config.enableOptimisticUpdates ? (_cache, variables) =>
+                updateLoadedMessage(variables.messageId, message => applyEdit(message, variables.text, new Date().toISOString()))
+                : undefined,
+            retry: 1,
+            retryDelay: 1000
+        }
+    );
+
+    // React to a message with an emoji
+    const addMessageReaction = useCustomMutation(
+        async ({ chatId: messageChatId, messageId, emoji }: { chatId: string, messageId: ResId, emoji: string }) => {
+            return await chatDataService.addReaction(messageChatId, messageId, emoji, token);
+        },
+        {
+            onError: (error) => {
+                console.error('UnifiedChat: Error adding reaction:', error);
+            },
+            optimisticUpdate: config.enableOptimisticUpdates ? (_cache, variables) =>
+                updateLoadedMessage(variables.messageId, message => addReaction(message, {
+                    emoji: variables.emoji,
+                    userId,
+                    timestamp: Date.now()
+                }))
+                : undefined,
+            retry: 1,
+            retryDelay: 1000
+        }
+    );
+
+    // Take back an emoji reaction
+    const removeMessageReaction = useCustomMutation(
+        async ({ chatId: messageChatId, messageId, emoji }: { chatId: string, messageId: ResId, emoji: string }) => {
+            return await chatDataService.removeReaction(messageChatId, messageId, emoji, token);
+        },
+        {
+            onError: (error) => {
+                console.error('UnifiedChat: Error removing reaction:', error);
+            },
+            optimisticUpdate: config.enableOptimisticUpdates ? (_cache, variables) =>
+                updateLoadedMessage(variables.messageId, message => removeReaction(message, variables.emoji, userId))
+                : undefined,
+            retry: 1,
             retryDelay: 1000
         }
     );
@@ -688,8 +825,8 @@ export const useUnifiedChat = (
         },
         {
             onSuccess: (data, variables) => {
-                console.log('UnifiedChat: Messages marked as read:', data.marked || variables.messageIds?.length);
-                invalidateCache.invalidateChatData(variables.chatId);
+                console.log('UnifiedChat: Messages marked as read:', data?.marked || variables.messageIds?.length);
+                // The loaded messages were marked read when seen; only the unread counts are stale
                 invalidateCache.invalidateUserChatData(userId);
             },
             onError: (error) => {
@@ -700,20 +837,63 @@ export const useUnifiedChat = (
         }
     );
 
-    // Additional utility methods
+    // Messages seen since the last read receipts were sent, by chat
+    const pendingReadsRef = useRef(new Map<string, Set<string>>());
+    const readTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const markMessagesAsReadRef = useRef(markMessagesAsRead);
+    markMessagesAsReadRef.current = markMessagesAsRead;
+
+    /**
+     * Send the read receipts collected so far, one request per chat
+     */
+    const flushReadReceipts = useCallback(() => {
+        if (readTimerRef.current) {
+            clearTimeout(readTimerRef.current);
+            readTimerRef.current = null;
+        }
+        pendingReadsRef.current.forEach((messageIds, readChatId) => {
+            markMessagesAsReadRef.current.mutate({ chatId: readChatId, messageIds: [...messageIds] });
+        });
+        pendingReadsRef.current.clear();
+    }, []);
+
+    /**
+     * Count a message as read once it was on screen. The message reads as seen
+     * at once, while its read receipt waits for others to send them together.
+     */
+    const markMessageSeen = useCallback((message: MessageResponse) => {
+        if (!isUnreadBy(message, userId)) return;
+
+        const messageChatId = String(message.chatId);
+        const pending = pendingReadsRef.current.get(messageChatId) ?? new Set<string>();
+        if (pending.has(String(message.id))) return;
+        pending.add(String(message.id));
+        pendingReadsRef.current.set(messageChatId, pending);
+
+        updateLoadedMessage(message.id, loaded => applyReceipt(loaded, userId, 'read', new Date().toISOString()));
+        if (!readTimerRef.current) {
+            readTimerRef.current = setTimeout(flushReadReceipts, READ_RECEIPT_BATCH_MS);
+        }
+    }, [userId, updateLoadedMessage, flushReadReceipts]);
+
+    // Send what was read before leaving the chat
+    useEffect(() => flushReadReceipts, [chatId, flushReadReceipts]);
+
+    // Additional utility methods; prefetches warm the data service cache and
+    // queue behind requests the user is waiting for
     const prefetchChats = useCallback(async (userId: string) => {
         if (token) {
             console.log('UnifiedChat: Prefetching chats for user:', userId);
-            // Prefetching would be implemented in the cache service
+            await chatDataService.getChats(userId, token, { priority: RequestPriority.LOW });
         }
-    }, [token]);
+    }, [chatDataService, token]);
 
     const prefetchMessages = useCallback(async (chatId: ResId) => {
         if (token) {
             console.log('UnifiedChat: Prefetching messages for chat:', chatId);
-            // Prefetching would be implemented in the cache service
+            await chatDataService.getMessages(chatId, 0, token, { priority: RequestPriority.LOW });
         }
-    }, [token]);
+    }, [chatDataService, token]);
 
     const invalidateAllCache = useCallback(() => {
         invalidateCache.invalidateUserChatData(userId);
@@ -768,7 +948,11 @@ export const useUnifiedChat = (
         searchChats,
         addParticipant,
         removeParticipant,
-        markMessagesAsRead
+        markMessagesAsRead,
+        markMessageSeen,
+        editMessage,
+        addReaction: addMessageReaction,
+        removeReaction: removeMessageReaction
     };
 };
 
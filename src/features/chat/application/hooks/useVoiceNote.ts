@@ -0,0 +1,177 @@
+/**
+ * Voice Note Hook
+ *
+ * Records a voice note, keeps it for a preview and sends it as an audio
+ * attachment carrying its length and waveform. Nothing is uploaded until
+ * the user chose to send the recording.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useFeatureAuth } from '@/core/hooks/useAuthentication';
+import type { ResId } from '@/shared/api/models/common';
+import { checkAttachments } from '@chat/domain/attachments';
+import {
+    MIN_VOICE_NOTE_MS,
+    VOICE_RECORDING_UNSUPPORTED_MESSAGE,
+    WAVEFORM_BARS,
+    isVoiceRecordingSupported
+} from '@chat/domain/voiceNotes';
+import { VoiceRecorder, type VoiceRecording } from '@chat/data/media/VoiceRecorder';
+import { useChatServices } from './useChatServices';
+
+export type VoiceNoteStatus = 'idle' | 'recording' | 'recorded' | 'sending';
+
+/**
+ * A recording waiting to be sent, with an object URL to preview it.
+ */
+export interface RecordedVoiceNote extends VoiceRecording {
+    url: string;
+}
+
+/**
+ * Message for a recording that could not start.
+ *
+ * @param error - The error of getUserMedia or MediaRecorder
+ * @returns The message to show
+ */
+const toRecordingErrorMessage = (error: unknown): string => {
+    const name = error instanceof Error ? error.name : '';
+    if (name === 'NotAllowedError' || name === 'SecurityError') return 'Allow access to the microphone to record a voice message';
+    if (name === 'NotFoundError') return 'No microphone was found';
+    return 'The recording could not be started';
+};
+
+/**
+ * Custom hook to record and send a voice note.
+ *
+ * @returns {Object} - The recording state, the recording to preview and the actions on it.
+ */
+export const useVoiceNote = () => {
+    const { token } = useFeatureAuth();
+    const { chatDataService } = useChatServices();
+    const [status, setStatus] = useState<VoiceNoteStatus>('idle');
+    const [elapsedMs, setElapsedMs] = useState(0);
+    const [levels, setLevels] = useState<number[]>([]);
+    const [recording, setRecording] = useState<RecordedVoiceNote | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const recorderRef = useRef<VoiceRecorder | null>(null);
+    const recordingUrlRef = useRef<string | null>(null);
+
+    const keepRecording = useCallback((next: RecordedVoiceNote | null) => {
+        if (recordingUrlRef.current) URL.revokeObjectURL(recordingUrlRef.current);
+        recordingUrlRef.current = next?.url ?? null;
+        setRecording(next);
+    }, []);
+
+    /**
+     * Throw the recording away, stopping it if it is still running.
+     */
+    const discard = useCallback(() => {
+        recorderRef.current?.cancel();
+        recorderRef.current = null;
+        keepRecording(null);
+        setStatus('idle');
+        setElapsedMs(0);
+        setLevels([]);
+    }, [keepRecording]);
+
+    /**
+     * Start recording, replacing a recording that was not sent.
+     */
+    const start = useCallback(async () => {
+        discard();
+        if (!isVoiceRecordingSupported()) {
+            setError(VOICE_RECORDING_UNSUPPORTED_MESSAGE);
+            return;
+        }
+        setError(null);
+
+        const recorder = new VoiceRecorder({
+            onProgress: (elapsed, sampled) => {
+                setElapsedMs(elapsed);
+                setLevels(sampled.slice(-WAVEFORM_BARS));
+            },
+            onStop: (result) => {
+                recorderRef.current = null;
+                setLevels([]);
+                if (result.durationMs < MIN_VOICE_NOTE_MS) {
+                    setStatus('idle');
+                    setError('Voice messages must be at least a second long');
+                    return;
+                }
+                keepRecording({ ...result, url: URL.createObjectURL(result.blob) });
+                setStatus('recorded');
+            }
+        });
+        recorderRef.current = recorder;
+
+        try {
+            await recorder.start();
+            setStatus('recording');
+        } catch (startError) {
+            console.error('Error starting voice recording:', startError);
+            recorderRef.current = null;
+            setError(toRecordingErrorMessage(startError));
+        }
+    }, [discard, keepRecording]);
+
+    /**
+     * Stop recording and keep the recording for a preview.
+     */
+    const stop = useCallback(() => {
+        recorderRef.current?.stop();
+    }, []);
+
+    /**
+     * Upload the recording and send it with a message.
+     *
+     * @param onSend - Sends the message carrying the uploaded voice note
+     */
+    const send = useCallback(async (onSend: (attachmentIds: ResId[]) => Promise<void>) => {
+        if (!recording) return;
+
+        const extension = recording.mimeType === 'audio/mp4' ? 'm4a' : recording.mimeType.split('/')[1] ?? 'webm';
+        const file = new File([recording.blob], `voice-message-${Date.now()}.${extension}`, { type: recording.mimeType });
+        const { error: validationError } = checkAttachments([file]);
+        if (validationError) {
+            setError(validationError.userMessage ?? 'This recording cannot be sent');
+            return;
+        }
+
+        setStatus('sending');
+        try {
+            const formData = new FormData();
+            formData.append('file', file);
+            formData.append('durationMs', String(Math.round(recording.durationMs)));
+            formData.append('waveform', JSON.stringify(recording.waveform));
+            const attachment = await chatDataService.uploadAttachment(formData, token || '');
+            await onSend([attachment.id]);
+            discard();
+        } catch (sendError) {
+            console.error('Error sending voice message:', sendError);
+            setError('The voice message could not be sent');
+            setStatus('recorded');
+        }
+    }, [recording, chatDataService, token, discard]);
+
+    // A recording still running when the recorder goes away is thrown away
+    useEffect(() => () => {
+        recorderRef.current?.cancel();
+        if (recordingUrlRef.current) URL.revokeObjectURL(recordingUrlRef.current);
+    }, []);
+
+    return {
+        status,
+        elapsedMs,
+        levels,
+        recording,
+        error,
+        start,
+        stop,
+        discard,
+        send,
+        dismissError: () => setError(null)
+    };
+};
+
+export default useVoiceNote;
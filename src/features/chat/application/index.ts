@@ -21,3 +21,10 @@ export {
 } from './hooks/useUnifiedChat';
 export { useChat, type ChatState, type ChatActions } from './hooks/useChat';
 export { useChatServices } from './hooks/useChatServices';
+export { useThread } from './hooks/useThread';
+export { useThreads } from './hooks/useThreads';
+export { useMessageSearch } from './hooks/useMessageSearch';
+export { useAttachmentUploads } from './hooks/useAttachmentUploads';
+export type { PendingAttachment } from './hooks/useAttachmentUploads';
+export { useChatEncryption } from './hooks/useChatEncryption';
+export type { ChatEncryption } from './hooks/useChatEncryption';
@@ -191,7 +191,9 @@ export class ChatFeatureService {
       return false;
     }
 
-    if (!messageData.content || typeof messageData.content !== 'string' || messageData.content.trim() === '') {
+    // A message with attachments may go without text
+    const hasAttachments = Array.isArray(messageData.attachmentIds) && messageData.attachmentIds.length > 0;
+    if (typeof messageData.content !== 'string' || (!hasAttachments && messageData.content.trim() === '')) {
       return false;
     }
 
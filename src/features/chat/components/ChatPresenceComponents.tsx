@@ -6,7 +6,8 @@
 
 import React, { useState, useEffect } from 'react';
 import { useUnifiedChat } from '@/features/chat/application/hooks/useUnifiedChat';
-import { useTypingIndicator } from '@/features/chat/application/hooks/useChatPresence';
+import { ResId } from '@/shared/api/models/commonNative';
+import EnhancedMessageInput from '@/features/chat/presentation/components/messages/EnhancedMessageInput';
 
 interface PresenceIndicatorProps {
     userId: string;
@@ -185,70 +186,41 @@ export const ChatPresenceBar: React.FC<ChatPresenceBarProps> = ({
 interface MessageInputProps {
     chatId: string;
     onSendMessage: (message: string) => void;
+    onSendVoiceNote?: (attachmentIds: ResId[]) => Promise<void>;
     className?: string;
 }
 
 /**
- * Message input with typing indicator integration
+ * Message input with typing indicator integration; voice messages are
+ * offered when onSendVoiceNote is given
  */
 export const MessageInputWithTyping: React.FC<MessageInputProps> = ({
     chatId,
     onSendMessage,
+    onSendVoiceNote,
     className = ''
 }) => {
     const [message, setMessage] = useState('');
-    const chat = useUnifiedChat('current-user');
-    const { startTyping, stopTyping } = useTypingIndicator('current-user', chatId);
 
-    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const value = e.target.value;
-        setMessage(value);
-        
+    // Typing is reported by EnhancedMessageInput, which starts and stops it as the text changes
+    const handleEnter = (value: string) => {
         if (value.trim()) {
-            startTyping();
-        } else {
-            stopTyping();
-        }
-    };
-
-    const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-        if (e.key === 'Enter' && message.trim()) {
-            onSendMessage(message.trim());
-            setMessage('');
-            stopTyping();
+            onSendMessage(value.trim());
         }
-    };
-
-    const handleBlur = () => {
-        stopTyping();
+        setMessage('');
     };
 
     return (
-        <div className={`border-t border-gray-200 px-4 py-3 ${className}`}>
-            <div className=\"flex items-center space-x-2\">
-                <input
-                    type=\"text\"
-                    value={message}
-                    onChange={handleInputChange}
-                    onKeyPress={handleKeyPress}
-                    onBlur={handleBlur}
-                    placeholder=\"Type a message...\"
-                    className=\"flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent\"
-                />
-                <button
-                    onClick={() => {
-                        if (message.trim()) {
-                            onSendMessage(message.trim());
-                            setMessage('');
-                            stopTyping();
-                        }
-                    }}
-                    disabled={!message.trim()}
-                    className=\"px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed\"
-                >
-                    Send
-                </button>
-            </div>
+        <div className={className}>
+            <EnhancedMessageInput
+                value={message}
+                onChange={setMessage}
+                onEnter={handleEnter}
+                placeholder="Type a message..."
+                enabled={true}
+                chatId={chatId}
+                {...(onSendVoiceNote && { onSendVoiceNote })}
+            />
         </div>
     );
 };
@@ -9,6 +9,11 @@ export const CHAT_CACHE_KEYS = {
   // Messages
   MESSAGES: (chatId: string, page: number = 0) => `chat:${chatId}:messages:${page}`,
   MESSAGE: (messageId: string) => `chat:message:${messageId}`,
+  MESSAGE_EDITS: (messageId: string) => `chat:message:${messageId}:edits`,
+  
+  // Threads, named after the message that started them
+  THREAD: (messageId: string) => `chat:message:${messageId}:thread`,
+  THREAD_MESSAGES: (messageId: string, page: number = 0) => `chat:message:${messageId}:thread:messages:${page}`,
   
   // Chat metadata
   CHAT_INFO: (chatId: string) => `chat:info:${chatId}`,
@@ -21,6 +26,7 @@ export const CHAT_CACHE_KEYS = {
   // User-specific
   USER_CHATS: (userId: string) => `chat:user:${userId}:chats`,
   UNREAD_COUNT: (userId: string) => `chat:user:${userId}:unread`,
+  USER_THREADS: (userId: string, page: number = 0) => `chat:user:${userId}:threads:${page}`,
   
   // Collections
   RECENT_CHATS: (userId: string, limit: number = 20) => `chat:user:${userId}:recent:${limit}`,
@@ -52,6 +58,12 @@ export const CHAT_INVALIDATION_PATTERNS = {
   // Specific message and its related data
   SPECIFIC_MESSAGE: (messageId: string) => `chat:message:${messageId}*`,
   
+  // A thread and its replies
+  THREAD: (messageId: string) => `chat:message:${messageId}:thread*`,
+  
+  // All pages of a user's threads
+  USER_THREADS: (userId: string) => `chat:user:${userId}:threads*`,
+  
   // All typing indicators for a chat
   TYPING_INDICATORS: (chatId: string) => `chat:typing:${chatId}*`,
   
@@ -0,0 +1,119 @@
+/**
+ * Device Key Store
+ *
+ * Keeps the key pair of this device. IndexedDB stores CryptoKey objects as
+ * they are, so the private key stays non-extractable across reloads; where
+ * IndexedDB is missing the key lives in memory and a new device is set up
+ * on every load.
+ */
+
+import { isIndexedDBAvailable } from '@/core/modules/caching/storage/IndexedDBCacheStorage';
+
+/**
+ * The key pair of this device, as published under `deviceId`.
+ */
+export interface DeviceKeyRecord {
+    deviceId: string;
+    keyPair: CryptoKeyPair;
+    publicKey: string;
+    createDate: string;
+}
+
+/**
+ * Storage for the key pair of this device.
+ */
+export interface IDeviceKeyStore {
+    load(): Promise<DeviceKeyRecord | null>;
+    save(record: DeviceKeyRecord): Promise<void>;
+    clear(): Promise<void>;
+}
+
+const DATABASE_NAME = 'quietspace-chat-encryption';
+const DATABASE_VERSION = 1;
+const OBJECT_STORE_NAME = 'device';
+const RECORD_KEY = 'current';
+
+/**
+ * Wraps an IDBRequest in a promise.
+ * @param request - Request to wrap
+ * @returns Promise resolving to the request result
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+}
+
+/**
+ * Device key store backed by IndexedDB.
+ */
+export class IndexedDBDeviceKeyStore implements IDeviceKeyStore {
+    private database: Promise<IDBDatabase> | null = null;
+
+    constructor(private readonly factory: IDBFactory = indexedDB) { }
+
+    async load(): Promise<DeviceKeyRecord | null> {
+        const store = await this.objectStore('readonly');
+        const record = await promisifyRequest<DeviceKeyRecord | undefined>(store.get(RECORD_KEY));
+        return record ?? null;
+    }
+
+    async save(record: DeviceKeyRecord): Promise<void> {
+        const store = await this.objectStore('readwrite');
+        await promisifyRequest(store.put(record, RECORD_KEY));
+    }
+
+    async clear(): Promise<void> {
+        const store = await this.objectStore('readwrite');
+        await promisifyRequest(store.delete(RECORD_KEY));
+    }
+
+    private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        const database = await this.open();
+        return database.transaction(OBJECT_STORE_NAME, mode).objectStore(OBJECT_STORE_NAME);
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            const request = this.factory.open(DATABASE_NAME, DATABASE_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(OBJECT_STORE_NAME);
+            };
+            this.database = promisifyRequest(request);
+        }
+        return this.database;
+    }
+}
+
+/**
+ * Device key store kept in memory, for tests and browsers without IndexedDB.
+ */
+export class MemoryDeviceKeyStore implements IDeviceKeyStore {
+    private record: DeviceKeyRecord | null = null;
+
+    async load(): Promise<DeviceKeyRecord | null> {
+        return this.record;
+    }
+
+    async save(record: DeviceKeyRecord): Promise<void> {
+        this.record = record;
+    }
+
+    async clear(): Promise<void> {
+        this.record = null;
+    }
+}
+
+/**
+ * Creates the device key store for this browser.
+ * @param factory - Optional IndexedDB factory to use instead of the global one
+ * @returns An IndexedDB store, or a memory store where IndexedDB is missing
+ */
+export function createDeviceKeyStore(factory?: IDBFactory): IDeviceKeyStore {
+    if (!isIndexedDBAvailable(factory)) {
+        console.warn('DeviceKeyStore: IndexedDB is not available, encryption keys will not survive a reload');
+        return new MemoryDeviceKeyStore();
+    }
+    return new IndexedDBDeviceKeyStore(factory ?? indexedDB);
+}
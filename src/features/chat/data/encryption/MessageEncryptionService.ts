@@ -0,0 +1,215 @@
+/**
+ * Message Encryption Service
+ *
+ * Encrypts and decrypts the text of messages in end-to-end encrypted chats
+ * for the chat data service. Sets this device up on first use, looks up the
+ * device keys of chat members and remembers what it decrypted, so pages that
+ * are read again are not decrypted again.
+ */
+
+import type { ChatResponse, EncryptedPayload, MessageResponse } from "@/features/chat/data/models/chat";
+import type { IChatRepository } from "@chat/domain/entities/IChatRepository";
+import { UNREADABLE_MESSAGE_TEXT, canEncryptChat } from "@chat/domain/encryption";
+import type { JwtToken, ResId } from "@/shared/api/models/common";
+import { getLogger } from "@/core/modules/logging";
+import type { DeviceKeyRecord, IDeviceKeyStore } from './DeviceKeyStore';
+import {
+    EncryptionError,
+    computeSafetyNumber,
+    decryptMessage,
+    encryptMessage,
+    exportPublicKey,
+    generateDeviceId,
+    generateDeviceKeyPair,
+    importPublicKey
+} from './messageCrypto';
+import type { RecipientDevice } from './messageCrypto';
+
+export class MessageEncryptionService {
+    private device: Promise<DeviceKeyRecord> | null = null;
+    // Public keys of other devices, by user and device ID
+    private publicKeys: Map<string, Promise<CryptoKey>> = new Map();
+    // Decrypted texts, by sending device and IV, which is unique per message
+    private texts: Map<string, Promise<string>> = new Map();
+    private readonly logger = getLogger('app.chat.encryption');
+
+    constructor(
+        private repository: IChatRepository,
+        private keyStore: IDeviceKeyStore
+    ) { }
+
+    /**
+     * Load the key pair of this device, generating it on first use. The public
+     * key is published once per session, which also restores it if the server lost it.
+     *
+     * @param token - Authentication token
+     * @returns The key pair of this device
+     */
+    getDevice(token: JwtToken): Promise<DeviceKeyRecord> {
+        if (!this.device) {
+            this.device = this.setUpDevice(token).catch((error: unknown) => {
+                this.device = null;
+                throw error;
+            });
+        }
+        return this.device;
+    }
+
+    /**
+     * Encrypt the text of a message to every device of both members.
+     *
+     * @param chat - The chat the message is sent to
+     * @param text - The text of the message
+     * @param token - Authentication token
+     * @returns The encrypted message
+     * @throws EncryptionError if the chat cannot be encrypted or a member has no device
+     */
+    async encrypt(chat: ChatResponse, text: string, token: JwtToken): Promise<EncryptedPayload> {
+        if (!canEncryptChat(chat)) {
+            throw new EncryptionError('unsupported_chat', 'Only one-to-one chats can be encrypted');
+        }
+        const device = await this.getDevice(token);
+
+        const recipients: RecipientDevice[] = [];
+        for (const userId of chat.userIds) {
+            // Keys are looked up on every send, so a member's new devices can read along
+            const devices = await this.loadDeviceKeys(userId, token);
+            if (devices.length === 0) {
+                throw new EncryptionError('no_device_keys', `User ${userId} has no device to encrypt to`);
+            }
+            recipients.push(...devices);
+        }
+
+        return await encryptMessage(
+            text,
+            String(chat.id),
+            { deviceId: device.deviceId, privateKey: device.keyPair.privateKey },
+            recipients
+        );
+    }
+
+    /**
+     * Decrypt the text of a message and of the message it quotes. A message this
+     * device cannot read gets a placeholder text instead.
+     *
+     * @param message - The message as the server sent it
+     * @param token - Authentication token
+     * @returns The message with its text decrypted, or the message itself if it is not encrypted
+     */
+    async decrypt(message: MessageResponse, token: JwtToken): Promise<MessageResponse> {
+        const chatId = String(message.chatId);
+        const { encrypted, replyTo } = message;
+        if (!encrypted && !replyTo?.encrypted) return message;
+
+        const text = encrypted ? await this.decryptText(encrypted, chatId, message.senderId, token) : message.text;
+        const quote = replyTo?.encrypted
+            ? { ...replyTo, text: await this.decryptText(replyTo.encrypted, chatId, replyTo.senderId, token) }
+            : replyTo;
+
+        return { ...message, text, ...(quote && { replyTo: quote }) };
+    }
+
+    /**
+     * Compute the safety number two members compare to verify their device keys.
+     *
+     * @param userIds - The members of a one-to-one chat
+     * @param token - Authentication token
+     * @returns The safety number
+     * @throws EncryptionError if a member has no device
+     */
+    async getSafetyNumber(userIds: ResId[], token: JwtToken): Promise<string> {
+        // This device counts towards the number, so it has to be published first
+        await this.getDevice(token);
+
+        const members = await Promise.all(userIds.map(async userId => {
+            const devices = await this.repository.getDeviceKeys(userId, token);
+            if (devices.length === 0) {
+                throw new EncryptionError('no_device_keys', `User ${userId} has no device to verify`);
+            }
+            return { userId: String(userId), publicKeys: devices.map(device => device.publicKey) };
+        }));
+
+        return await computeSafetyNumber(members);
+    }
+
+    private async setUpDevice(token: JwtToken): Promise<DeviceKeyRecord> {
+        let record = await this.keyStore.load();
+        if (!record) {
+            const keyPair = await generateDeviceKeyPair();
+            record = {
+                deviceId: generateDeviceId(),
+                keyPair,
+                publicKey: await exportPublicKey(keyPair.publicKey),
+                createDate: new Date().toISOString()
+            };
+            await this.keyStore.save(record);
+        }
+
+        await this.repository.registerDeviceKey(record.deviceId, record.publicKey, token);
+        return record;
+    }
+
+    /**
+     * Fetch the device keys of a user and remember them for decryption.
+     */
+    private async loadDeviceKeys(userId: ResId, token: JwtToken): Promise<RecipientDevice[]> {
+        const devices = await this.repository.getDeviceKeys(userId, token);
+        return await Promise.all(devices.map(async device => {
+            const publicKey = importPublicKey(device.publicKey);
+            this.publicKeys.set(`${userId}>${device.deviceId}`, publicKey);
+            return { deviceId: device.deviceId, publicKey: await publicKey };
+        }));
+    }
+
+    /**
+     * Find the public key of the device a message came from. The device has to
+     * belong to the sender, so no member can pass a message off as another's.
+     */
+    private async getSenderKey(senderId: ResId, deviceId: string, token: JwtToken): Promise<CryptoKey> {
+        const key = `${senderId}>${deviceId}`;
+        if (!this.publicKeys.has(key)) {
+            // The sender may have added a device since their keys were fetched
+            await this.loadDeviceKeys(senderId, token);
+        }
+        const publicKey = this.publicKeys.get(key);
+        if (!publicKey) {
+            throw new EncryptionError('unknown_sender_device', `Device ${deviceId} does not belong to user ${senderId}`);
+        }
+        return await publicKey;
+    }
+
+    private decryptText(payload: EncryptedPayload, chatId: string, senderId: ResId, token: JwtToken): Promise<string> {
+        const key = `${payload.senderDeviceId}>${payload.iv}`;
+        let text = this.texts.get(key);
+        if (!text) {
+            text = this.decryptPayload(payload, chatId, senderId, token);
+            this.texts.set(key, text);
+        }
+        return text;
+    }
+
+    private async decryptPayload(payload: EncryptedPayload, chatId: string, senderId: ResId, token: JwtToken): Promise<string> {
+        const key = `${payload.senderDeviceId}>${payload.iv}`;
+        try {
+            const device = await this.getDevice(token);
+            const senderKey = await this.getSenderKey(senderId, payload.senderDeviceId, token);
+            return await decryptMessage(payload, chatId, { deviceId: device.deviceId, privateKey: device.keyPair.privateKey }, senderKey);
+        } catch (error) {
+            // A message that cannot be decrypted stays unreadable; a failed request is tried again
+            if (!(error instanceof EncryptionError)) this.texts.delete(key);
+            this.logger.warn(
+                {
+                    component: 'MessageEncryptionService',
+                    action: 'decryptMessage',
+                    additionalData: {
+                        chatId,
+                        senderDeviceId: payload.senderDeviceId,
+                        error: error instanceof Error ? error.message : String(error)
+                    }
+                },
+                'Could not decrypt message'
+            );
+            return UNREADABLE_MESSAGE_TEXT;
+        }
+    }
+}
@@ -0,0 +1,202 @@
+/**
+ * Message Crypto
+ *
+ * Web Crypto primitives of end-to-end encrypted chats. Every device has an
+ * ECDH P-256 key pair whose private key never leaves it. A message is
+ * encrypted once with a fresh AES-GCM key, and that key is wrapped for each
+ * recipient device with a key both devices derive from their ECDH keys, so the
+ * server only ever relays ciphertext.
+ */
+
+import type { EncryptedPayload, WrappedKey } from "@/features/chat/data/models/chat";
+import { combineSafetyNumber, toSafetyNumberDigits } from "@chat/domain/encryption";
+import { base64URLDecode, base64URLEncode } from "@core/modules/authentication/utils/webauthn";
+
+export const ENCRYPTION_VERSION = 1;
+
+const KEY_PAIR_PARAMS: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+const MESSAGE_KEY_BYTES = 32;
+const IV_BYTES = 12;
+const DEVICE_ID_BYTES = 16;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export type EncryptionErrorCode =
+    | 'unsupported_version'
+    | 'no_device_keys'
+    | 'not_addressed'
+    | 'unknown_sender_device'
+    | 'decryption_failed'
+    | 'unsupported_chat';
+
+/**
+ * Thrown when a message cannot be encrypted or decrypted
+ */
+export class EncryptionError extends Error {
+    readonly code: EncryptionErrorCode;
+
+    constructor(code: EncryptionErrorCode, message: string) {
+        super(message);
+        this.name = 'EncryptionError';
+        this.code = code;
+    }
+}
+
+/** A device a message is encrypted to */
+export interface RecipientDevice {
+    deviceId: string;
+    publicKey: CryptoKey;
+}
+
+/** The device a message is encrypted or decrypted on */
+export interface LocalDevice {
+    deviceId: string;
+    privateKey: CryptoKey;
+}
+
+const randomBytes = (length: number): Uint8Array<ArrayBuffer> => crypto.getRandomValues(new Uint8Array(length));
+
+/**
+ * Generates a random ID for a new device
+ */
+export function generateDeviceId(): string {
+    return base64URLEncode(randomBytes(DEVICE_ID_BYTES));
+}
+
+/**
+ * Generates the key pair of a device. The private key cannot be exported, so
+ * it can be kept in IndexedDB but never read back out of the browser.
+ */
+export async function generateDeviceKeyPair(): Promise<CryptoKeyPair> {
+    return await crypto.subtle.generateKey(KEY_PAIR_PARAMS, false, ['deriveBits']);
+}
+
+/**
+ * Encodes a public key as base64url, the form it is published in
+ */
+export async function exportPublicKey(publicKey: CryptoKey): Promise<string> {
+    return base64URLEncode(await crypto.subtle.exportKey('raw', publicKey));
+}
+
+/**
+ * Decodes a published public key
+ */
+export async function importPublicKey(publicKey: string): Promise<CryptoKey> {
+    return await crypto.subtle.importKey('raw', base64URLDecode(publicKey), KEY_PAIR_PARAMS, true, []);
+}
+
+/**
+ * Derives the key that wraps message keys between two devices. Either device
+ * derives the same key from its own private key and the other's public key.
+ */
+async function deriveWrappingKey(privateKey: CryptoKey, publicKey: CryptoKey, senderDeviceId: string, recipientDeviceId: string): Promise<CryptoKey> {
+    const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+    const keyMaterial = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+    return await crypto.subtle.deriveKey(
+        {
+            name: 'HKDF',
+            hash: 'SHA-256',
+            salt: new Uint8Array(32),
+            info: encoder.encode(`quietspace-message-key:${senderDeviceId}>${recipientDeviceId}`)
+        },
+        keyMaterial,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+/**
+ * Encrypts the text of a message to every recipient device. The chat ID is
+ * authenticated along with the text, so ciphertext cannot be replayed in another chat.
+ *
+ * @param text - The text of the message
+ * @param chatId - The chat the message is sent to
+ * @param sender - The sending device
+ * @param recipients - Every device that may read the message, the sending user's included
+ * @returns The encrypted message
+ */
+export async function encryptMessage(text: string, chatId: string, sender: LocalDevice, recipients: RecipientDevice[]): Promise<EncryptedPayload> {
+    if (recipients.length === 0) {
+        throw new EncryptionError('no_device_keys', 'A message needs at least one device to be encrypted to');
+    }
+
+    const messageKeyBytes = randomBytes(MESSAGE_KEY_BYTES);
+    const messageKey = await crypto.subtle.importKey('raw', messageKeyBytes, 'AES-GCM', false, ['encrypt']);
+    const iv = randomBytes(IV_BYTES);
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: encoder.encode(chatId) },
+        messageKey,
+        encoder.encode(text)
+    );
+
+    const keys: WrappedKey[] = await Promise.all(recipients.map(async recipient => {
+        const wrappingKey = await deriveWrappingKey(sender.privateKey, recipient.publicKey, sender.deviceId, recipient.deviceId);
+        const wrapIv = randomBytes(IV_BYTES);
+        const wrappedKey = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: wrapIv }, wrappingKey, messageKeyBytes);
+        return { deviceId: recipient.deviceId, iv: base64URLEncode(wrapIv), wrappedKey: base64URLEncode(wrappedKey) };
+    }));
+
+    return {
+        version: ENCRYPTION_VERSION,
+        senderDeviceId: sender.deviceId,
+        iv: base64URLEncode(iv),
+        ciphertext: base64URLEncode(ciphertext),
+        keys
+    };
+}
+
+/**
+ * Decrypts the text of a message on this device.
+ *
+ * @param payload - The encrypted message
+ * @param chatId - The chat the message was sent to
+ * @param recipient - This device
+ * @param senderPublicKey - The public key of the device that sent the message
+ * @returns The text of the message
+ * @throws EncryptionError if the message was not encrypted to this device or was tampered with
+ */
+export async function decryptMessage(payload: EncryptedPayload, chatId: string, recipient: LocalDevice, senderPublicKey: CryptoKey): Promise<string> {
+    if (payload.version !== ENCRYPTION_VERSION) {
+        throw new EncryptionError('unsupported_version', `Unsupported encryption version: ${payload.version}`);
+    }
+    const entry = payload.keys.find(key => key.deviceId === recipient.deviceId);
+    if (!entry) {
+        throw new EncryptionError('not_addressed', 'The message was not encrypted to this device');
+    }
+
+    try {
+        const wrappingKey = await deriveWrappingKey(recipient.privateKey, senderPublicKey, payload.senderDeviceId, recipient.deviceId);
+        const messageKeyBytes = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: base64URLDecode(entry.iv) },
+            wrappingKey,
+            base64URLDecode(entry.wrappedKey)
+        );
+        const messageKey = await crypto.subtle.importKey('raw', messageKeyBytes, 'AES-GCM', false, ['decrypt']);
+        const text = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: base64URLDecode(payload.iv), additionalData: encoder.encode(chatId) },
+            messageKey,
+            base64URLDecode(payload.ciphertext)
+        );
+        return decoder.decode(text);
+    } catch (error) {
+        throw new EncryptionError('decryption_failed', `The message could not be decrypted: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Computes the safety number of two members from the public keys of their
+ * devices. Both members get the same number as long as they see the same keys.
+ *
+ * @param members - Each member with the public keys of all their devices
+ * @returns The safety number, 30 digits per member
+ */
+export async function computeSafetyNumber(members: { userId: string; publicKeys: string[] }[]): Promise<string> {
+    const halves = await Promise.all(members.map(async ({ userId, publicKeys }) => {
+        const keys = [...publicKeys].sort().join(',');
+        const fingerprint = await crypto.subtle.digest('SHA-256', encoder.encode(`quietspace-safety-number:${userId}:${keys}`));
+        return { userId, digits: toSafetyNumberDigits(new Uint8Array(fingerprint)) };
+    }));
+    return combineSafetyNumber(halves);
+}
@@ -11,5 +11,15 @@ export { MockChatRepository } from './repositories/MockChatRepository';
 // Data services
 export { ChatDataService } from './services/ChatDataService';
 
+// End-to-end encryption
+export { MessageEncryptionService } from './encryption/MessageEncryptionService';
+export { createDeviceKeyStore, IndexedDBDeviceKeyStore, MemoryDeviceKeyStore } from './encryption/DeviceKeyStore';
+export type { DeviceKeyRecord, IDeviceKeyStore } from './encryption/DeviceKeyStore';
+export { EncryptionError } from './encryption/messageCrypto';
+export type { EncryptionErrorCode } from './encryption/messageCrypto';
+
+// Message search on this device
+export { MessageSearchIndex } from './search/MessageSearchIndex';
+
 // Cache utilities
 export { CHAT_CACHE_KEYS, CHAT_INVALIDATION_PATTERNS, ChatCacheUtils } from './cache/ChatCacheKeys';
@@ -0,0 +1,186 @@
+/**
+ * Voice Recorder
+ *
+ * Records a voice note from the microphone with MediaRecorder. While it
+ * records, the loudness of the input is sampled for the live waveform, and
+ * recording stops by itself at the longest clip allowed. The microphone is
+ * released as soon as recording ends, however it ends.
+ */
+
+import {
+    MAX_VOICE_NOTE_MS,
+    VOICE_RECORDING_UNSUPPORTED_MESSAGE,
+    isVoiceRecordingSupported,
+    pickVoiceNoteMimeType,
+    toBaseMimeType,
+    toWaveform
+} from "@chat/domain/voiceNotes";
+
+/**
+ * How often the loudness is sampled, and progress reported.
+ */
+const SAMPLE_INTERVAL_MS = 100;
+
+/**
+ * Speech rarely uses the full range, so levels are boosted to fill the waveform.
+ */
+const LEVEL_GAIN = 3;
+
+const FALLBACK_MIME_TYPE = 'audio/webm';
+
+/**
+ * A finished recording.
+ */
+export interface VoiceRecording {
+    blob: Blob;
+    /** MIME type without codec parameters */
+    mimeType: string;
+    durationMs: number;
+    waveform: number[];
+}
+
+export interface VoiceRecorderOptions {
+    maxDurationMs?: number;
+    /** Called while recording with the time recorded so far and the loudness samples, from 0 to 1 */
+    onProgress?: (elapsedMs: number, levels: readonly number[]) => void;
+    /** Called once recording stopped, by `stop()` or at the longest clip; not after `cancel()` */
+    onStop?: (recording: VoiceRecording) => void;
+}
+
+interface LevelMeter {
+    context: AudioContext;
+    analyser: AnalyserNode;
+    samples: Uint8Array<ArrayBuffer>;
+}
+
+export class VoiceRecorder {
+    private recorder: MediaRecorder | null = null;
+    private stream: MediaStream | null = null;
+    private meter: LevelMeter | null = null;
+    private chunks: Blob[] = [];
+    private levels: number[] = [];
+    private startedAt = 0;
+    private sampleTimer: ReturnType<typeof setInterval> | null = null;
+    private limitTimer: ReturnType<typeof setTimeout> | null = null;
+    private isCancelled = false;
+
+    constructor(private readonly options: VoiceRecorderOptions = {}) { }
+
+    get isRecording(): boolean {
+        return this.recorder?.state === 'recording';
+    }
+
+    /**
+     * Ask for the microphone and start recording.
+     *
+     * @throws Error if recording is not supported, or the getUserMedia error if the microphone is not available
+     */
+    async start(): Promise<void> {
+        if (this.recorder) throw new Error('Already recording');
+        if (!isVoiceRecordingSupported()) throw new Error(VOICE_RECORDING_UNSUPPORTED_MESSAGE);
+
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        const mimeType = pickVoiceNoteMimeType();
+        let recorder: MediaRecorder;
+        try {
+            recorder = mimeType ? new MediaRecorder(stream, { mimeType }) : new MediaRecorder(stream);
+        } catch (error) {
+            stream.getTracks().forEach(track => track.stop());
+            throw error;
+        }
+
+        this.stream = stream;
+        this.recorder = recorder;
+        this.chunks = [];
+        this.levels = [];
+        this.isCancelled = false;
+
+        recorder.ondataavailable = (event: BlobEvent) => {
+            if (event.data.size > 0) this.chunks.push(event.data);
+        };
+        recorder.onstop = () => this.finish(recorder);
+        recorder.start();
+
+        this.startedAt = Date.now();
+        this.meter = this.createMeter(stream);
+        this.sampleTimer = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS);
+        this.limitTimer = setTimeout(() => this.stop(), this.options.maxDurationMs ?? MAX_VOICE_NOTE_MS);
+    }
+
+    /**
+     * Stop recording; the recording is passed to `onStop` once the last data arrived.
+     */
+    stop(): void {
+        if (this.recorder?.state === 'recording') this.recorder.stop();
+    }
+
+    /**
+     * Stop recording and throw the recording away.
+     */
+    cancel(): void {
+        this.isCancelled = true;
+        if (this.recorder?.state === 'recording') {
+            this.recorder.stop();
+        } else {
+            this.release();
+        }
+    }
+
+    private finish(recorder: MediaRecorder): void {
+        const maxDurationMs = this.options.maxDurationMs ?? MAX_VOICE_NOTE_MS;
+        const durationMs = Math.min(Date.now() - this.startedAt, maxDurationMs);
+        const mimeType = toBaseMimeType(recorder.mimeType || this.chunks[0]?.type || FALLBACK_MIME_TYPE);
+        const recording: VoiceRecording = {
+            blob: new Blob(this.chunks, { type: mimeType }),
+            mimeType,
+            durationMs,
+            waveform: toWaveform(this.levels)
+        };
+        const isCancelled = this.isCancelled;
+
+        this.release();
+        if (!isCancelled) this.options.onStop?.(recording);
+    }
+
+    private sample(): void {
+        if (this.meter) {
+            const { analyser, samples } = this.meter;
+            analyser.getByteTimeDomainData(samples);
+            // Root mean square of the signal, centred on 128
+            const power = samples.reduce((sum, sample) => sum + ((sample - 128) / 128) ** 2, 0) / samples.length;
+            this.levels.push(Math.min(1, Math.sqrt(power) * LEVEL_GAIN));
+        }
+        this.options.onProgress?.(Date.now() - this.startedAt, this.levels);
+    }
+
+    /**
+     * Loudness meter of the microphone; recording works without one where Web Audio is missing.
+     */
+    private createMeter(stream: MediaStream): LevelMeter | null {
+        if (typeof AudioContext === 'undefined') return null;
+        try {
+            const context = new AudioContext();
+            const analyser = context.createAnalyser();
+            analyser.fftSize = 1024;
+            context.createMediaStreamSource(stream).connect(analyser);
+            return { context, analyser, samples: new Uint8Array(analyser.fftSize) };
+        } catch (error) {
+            console.warn('VoiceRecorder: Could not measure the input level:', error);
+            return null;
+        }
+    }
+
+    private release(): void {
+        if (this.sampleTimer) clearInterval(this.sampleTimer);
+        if (this.limitTimer) clearTimeout(this.limitTimer);
+        this.sampleTimer = null;
+        this.limitTimer = null;
+        this.stream?.getTracks().forEach(track => track.stop());
+        this.meter?.context.close().catch(() => undefined);
+        this.stream = null;
+        this.meter = null;
+        this.recorder = null;
+        this.chunks = [];
+        this.levels = [];
+    }
+}
@@ -1,20 +1,56 @@
 import { z } from "zod";
 import {
     AtLeastTwoElemSchema,
+    AttachmentKindSchema,
+    AttachmentSchema,
     ChatEventSchema,
     ChatListSchema,
     ChatResponseSchema,
     CreateChatSchema,
+    DeviceKeyListSchema,
+    DeviceKeySchema,
+    EncryptedPayloadSchema,
+    MessageEditListSchema,
+    MessageDeliveryStateSchema,
+    MessageEditSchema,
+    MessageReactionSchema,
+    MessageReceiptEventSchema,
+    MessageReceiptSchema,
     MessageRequestSchema,
     MessageListSchema,
     MessagePageSchema,
-    MessageResponseSchema
+    MessageResponseSchema,
+    MessageUpdateEventSchema,
+    QuotedMessageSchema,
+    ThreadListSchema,
+    ThreadResponseSchema,
+    ThreadSummarySchema,
+    VoiceNoteSchema,
+    WrappedKeySchema
 } from "./chatZod";
 
 
 export type ChatEvent = z.infer<typeof ChatEventSchema>;
 export type MessageRequest = z.infer<typeof MessageRequestSchema>;
 export type MessageResponse = z.infer<typeof MessageResponseSchema>;
+export type MessageReaction = z.infer<typeof MessageReactionSchema>;
+export type MessageEdit = z.infer<typeof MessageEditSchema>;
+export type MessageEditList = z.infer<typeof MessageEditListSchema>;
+export type QuotedMessage = z.infer<typeof QuotedMessageSchema>;
+export type MessageUpdateEvent = z.infer<typeof MessageUpdateEventSchema>;
+export type MessageDeliveryState = z.infer<typeof MessageDeliveryStateSchema>;
+export type MessageReceipt = z.infer<typeof MessageReceiptSchema>;
+export type MessageReceiptEvent = z.infer<typeof MessageReceiptEventSchema>;
+export type ThreadSummary = z.infer<typeof ThreadSummarySchema>;
+export type ThreadResponse = z.infer<typeof ThreadResponseSchema>;
+export type ThreadList = z.infer<typeof ThreadListSchema>;
+export type AttachmentKind = z.infer<typeof AttachmentKindSchema>;
+export type Attachment = z.infer<typeof AttachmentSchema>;
+export type VoiceNote = z.infer<typeof VoiceNoteSchema>;
+export type WrappedKey = z.infer<typeof WrappedKeySchema>;
+export type EncryptedPayload = z.infer<typeof EncryptedPayloadSchema>;
+export type DeviceKey = z.infer<typeof DeviceKeySchema>;
+export type DeviceKeyList = z.infer<typeof DeviceKeyListSchema>;
 export type ChatResponse = z.infer<typeof ChatResponseSchema>;
 export type CreateChatRequest = z.infer<typeof CreateChatSchema>;
 export type MessageList = z.infer<typeof MessageListSchema>;
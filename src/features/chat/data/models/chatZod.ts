@@ -3,6 +3,7 @@ import { BaseSchema, PageContentSchema, PageSchema, ResIdSchema } from "../../..
 import { UserResponseSchema } from "../../../../features/profile/data/models/userZod";
 import { BaseEventSchema } from "../../../../shared/api/models/websocketZod";
 import { PhotoResponseSchema } from "../../../../shared/api/models/photoZod";
+import { SocketEventType } from "../../../../shared/api/models/websocketNative";
 
 
 export const ChatEventSchema = BaseEventSchema.extend({
@@ -12,12 +13,128 @@ export const ChatEventSchema = BaseEventSchema.extend({
     recipientId: ResIdSchema.optional()
 });
 
+export const TypingIndicatorEventSchema = z.object({
+    userId: z.string(),
+    isTyping: z.boolean()
+});
+
+export const OnlineStatusEventSchema = z.object({
+    userId: z.string(),
+    isOnline: z.boolean()
+});
+
+export const PresenceEventSchema = z.object({
+    userId: ResIdSchema,
+    chatId: ResIdSchema.optional(),
+    status: z.enum(['online', 'away', 'busy', 'invisible']),
+    lastActivity: z.number(),
+    currentChat: ResIdSchema.optional(),
+    isTyping: z.boolean().optional()
+});
+
+export const MessageReactionSchema = z.object({
+    emoji: z.string(),
+    userId: ResIdSchema,
+    timestamp: z.number()
+});
+
+// A previous version of an edited message, replaced at `editDate`
+export const MessageEditSchema = z.object({
+    text: z.string(),
+    editDate: z.string()
+});
+
+// A message key, wrapped for one device of a chat member
+export const WrappedKeySchema = z.object({
+    deviceId: z.string(),
+    iv: z.string(),
+    wrappedKey: z.string()
+});
+
+// Text of an end-to-end encrypted message, as the server sees it
+export const EncryptedPayloadSchema = z.object({
+    version: z.literal(1),
+    senderDeviceId: z.string(),
+    iv: z.string(),
+    ciphertext: z.string(),
+    keys: z.array(WrappedKeySchema)
+});
+
+// Snapshot of the message a reply quotes, so it renders before the original is loaded
+export const QuotedMessageSchema = z.object({
+    id: ResIdSchema,
+    senderId: ResIdSchema,
+    senderName: z.string(),
+    text: z.string(),
+    encrypted: EncryptedPayloadSchema.optional()
+});
+
+// Reply count preview of a message that started a thread
+export const ThreadSummarySchema = z.object({
+    replyCount: z.number(),
+    lastReplyDate: z.string().optional(),
+    participantIds: z.array(ResIdSchema)
+});
+
+// How far a message got to one recipient
+export const MessageDeliveryStateSchema = z.enum(['sent', 'delivered', 'read']);
+
+// Delivery state of a message for one of the other members of its chat, as of `updateDate`
+export const MessageReceiptSchema = z.object({
+    userId: ResIdSchema,
+    state: MessageDeliveryStateSchema,
+    updateDate: z.string()
+});
+
+// Messages of a chat that reached a member, or that the member read, in one batch
+export const MessageReceiptEventSchema = z.object({
+    chatId: ResIdSchema,
+    userId: ResIdSchema,
+    messageIds: z.array(ResIdSchema),
+    state: MessageDeliveryStateSchema.exclude(['sent']),
+    date: z.string()
+});
+
+export const AttachmentKindSchema = z.enum(['image', 'file', 'audio']);
+
+// A clip recorded in the chat; `waveform` holds its loudness from 0 to 1, in evenly spaced bars
+export const VoiceNoteSchema = z.object({
+    durationMs: z.number(),
+    waveform: z.array(z.number())
+});
+
+// An uploaded file, sent along with a message by its ID
+export const AttachmentSchema = z.object({
+    id: ResIdSchema,
+    kind: AttachmentKindSchema,
+    name: z.string(),
+    mimeType: z.string(),
+    size: z.number(),
+    url: z.string(),
+    thumbnailUrl: z.string().optional(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+    voiceNote: VoiceNoteSchema.optional()
+});
+
+// The public key of a device, which messages are encrypted to
+export const DeviceKeySchema = z.object({
+    deviceId: z.string(),
+    userId: ResIdSchema,
+    publicKey: z.string(),
+    createDate: z.string()
+});
+
 export const MessageRequestSchema = z.object({
     chatId: ResIdSchema,
     senderId: ResIdSchema,
     recipientId: ResIdSchema,
     photoData: z.any().optional(),
-    text: z.string()
+    text: z.string(),
+    replyToId: ResIdSchema.optional(),
+    threadId: ResIdSchema.optional(),
+    attachmentIds: z.array(ResIdSchema).optional(),
+    encrypted: EncryptedPayloadSchema.optional()
 });
 
 export const MessageResponseSchema = MessageRequestSchema.extend({
@@ -25,11 +142,53 @@ export const MessageResponseSchema = MessageRequestSchema.extend({
     senderName: z.string(),
     isSeen: z.boolean(),
     photo: PhotoResponseSchema.optional(),
+    reactions: z.array(MessageReactionSchema).optional(),
+    isEdited: z.boolean().optional(),
+    editDate: z.string().optional(),
+    replyTo: QuotedMessageSchema.optional(),
+    threadSummary: ThreadSummarySchema.optional(),
+    attachments: z.array(AttachmentSchema).optional(),
+    receipts: z.array(MessageReceiptSchema).optional()
+});
+
+export const MessageUpdateEventSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal(SocketEventType.EDIT_MESSAGE),
+        chatId: ResIdSchema,
+        messageId: ResIdSchema,
+        message: MessageResponseSchema
+    }),
+    z.object({
+        type: z.literal(SocketEventType.ADD_REACTION),
+        chatId: ResIdSchema,
+        messageId: ResIdSchema,
+        reaction: MessageReactionSchema
+    }),
+    z.object({
+        type: z.literal(SocketEventType.REMOVE_REACTION),
+        chatId: ResIdSchema,
+        messageId: ResIdSchema,
+        reaction: MessageReactionSchema
+    }),
+    z.object({
+        type: z.literal(SocketEventType.THREAD_UPDATE),
+        chatId: ResIdSchema,
+        messageId: ResIdSchema,
+        threadSummary: ThreadSummarySchema
+    })
+]);
+
+// A thread as seen by the signed-in user: the message that started it and what they have not read yet
+export const ThreadResponseSchema = z.object({
+    chatId: ResIdSchema,
+    root: MessageResponseSchema,
+    unreadCount: z.number()
 });
 
 export const ChatResponseSchema = BaseSchema.extend({
     userIds: z.array(ResIdSchema),
     members: z.array(UserResponseSchema),
+    isEncrypted: z.boolean().optional(),
     recentMessage: MessageResponseSchema.optional()
 });
 
@@ -46,5 +205,8 @@ export const CreateChatSchema = z.object({
 });
 
 export const MessageListSchema = PageContentSchema(MessageResponseSchema);
+export const MessageEditListSchema = z.array(MessageEditSchema);
 export const MessagePageSchema = PageSchema(MessageResponseSchema);
-export const ChatListSchema = PageSchema(ChatResponseSchema);
\ No newline at end of file
+export const ChatListSchema = PageSchema(ChatResponseSchema);
+export const ThreadListSchema = PageSchema(ThreadResponseSchema);
+export const DeviceKeyListSchema = z.array(DeviceKeySchema);
\ No newline at end of file
@@ -0,0 +1,21 @@
+/**
+ * Chat Entities
+ *
+ * Normalized entity definitions for messages and chats. Chat members and the
+ * recent message are stored as references to the user and message entities.
+ */
+
+import { ChatResponseSchema, MessageResponseSchema } from './chatZod';
+
+import { defineEntity } from '@/core/modules/data-service';
+import { USER_ENTITY } from '@/features/profile/data/models/entities';
+
+export const MESSAGE_ENTITY = defineEntity('message', { schema: MessageResponseSchema });
+
+export const CHAT_ENTITY = defineEntity('chat', {
+    schema: ChatResponseSchema,
+    relations: {
+        members: [USER_ENTITY],
+        recentMessage: MESSAGE_ENTITY
+    }
+});
@@ -1,8 +1,11 @@
 import type { AxiosInstance } from 'axios';
-import { CHAT_PATH, CHAT_PATH_BY_MEMBER } from "@/core/shared/apiPath";
-import { ChatList, ChatResponse, CreateChatRequest, PagedMessage } from "../models/chat";
+import { CHAT_PATH, CHAT_PATH_BY_MEMBER, ENCRYPTION_PATH, MESSAGE_PATH } from "@/shared/constants/apiPath";
+import { Attachment, ChatList, ChatResponse, CreateChatRequest, DeviceKey, DeviceKeyList, MessageEditList, MessageResponse, PagedMessage, ThreadList, ThreadResponse } from "../models/chat";
 import { JwtToken, ResId } from "@/shared/api/models/common";
 import type { IChatRepository } from "@chat/domain/entities/IChatRepository";
+import type { MessageSearchQuery } from "@chat/domain/messageSearch";
+import type { UploadRequestOptions } from "@/shared/services/FileUploadService";
+import type { RequestOptions } from "@/core/modules/network";
 
 /**
  * Chat Repository - Handles chat-related API operations
@@ -10,9 +13,10 @@ import type { IChatRepository } from "@chat/domain/entities/IChatRepository";
 export class ChatRepository implements IChatRepository {
     constructor(private apiClient: AxiosInstance) { }
 
-    async getChats(userId: string, token: JwtToken): Promise<ChatList> {
+    async getChats(userId: string, token: JwtToken, options?: RequestOptions): Promise<ChatList> {
         const { data } = await this.apiClient.get(CHAT_PATH_BY_MEMBER + `/${userId}`, {
-            headers: { Authorization: `Bearer ${token}` }
+            headers: { Authorization: `Bearer ${token}` },
+            ...options
         });
         return data;
     }
@@ -51,9 +55,10 @@ export class ChatRepository implements IChatRepository {
         });
     }
 
-    async getMessages(chatId: ResId, page: number, token: JwtToken): Promise<PagedMessage> {
+    async getMessages(chatId: ResId, page: number, token: JwtToken, options?: RequestOptions): Promise<PagedMessage> {
         const { data } = await this.apiClient.get(CHAT_PATH + `/${chatId}/messages?page=${page}`, {
-            headers: { Authorization: `Bearer ${token}` }
+            headers: { Authorization: `Bearer ${token}` },
+            ...options
         });
         return data;
     }
@@ -79,6 +84,19 @@ export class ChatRepository implements IChatRepository {
         return data;
     }
 
+    async searchMessages(query: MessageSearchQuery, page: number, token: JwtToken): Promise<PagedMessage> {
+        const params = new URLSearchParams({ query: query.text, page: String(page) });
+        if (query.chatId !== undefined) params.set('chatId', String(query.chatId));
+        if (query.senderId !== undefined) params.set('senderId', String(query.senderId));
+        if (query.from) params.set('from', query.from.toISOString());
+        if (query.to) params.set('to', query.to.toISOString());
+
+        const { data } = await this.apiClient.get(MESSAGE_PATH + `/search?${params}`, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+        return data;
+    }
+
     async getChatParticipants(chatId: ResId, token: JwtToken): Promise<any[]> {
         const { data } = await this.apiClient.get(CHAT_PATH + `/${chatId}/participants`, {
             headers: { Authorization: `Bearer ${token}` }
@@ -93,9 +111,10 @@ export class ChatRepository implements IChatRepository {
         return data;
     }
 
-    async getUnreadCount(userId: string, token: JwtToken): Promise<number> {
+    async getUnreadCount(userId: string, token: JwtToken, options?: RequestOptions): Promise<number> {
         const { data } = await this.apiClient.get(CHAT_PATH + `/unread/count?userId=${userId}`, {
-            headers: { Authorization: `Bearer ${token}` }
+            headers: { Authorization: `Bearer ${token}` },
+            ...options
         });
         return data.count || 0;
     }
@@ -105,4 +124,93 @@ export class ChatRepository implements IChatRepository {
             headers: { Authorization: `Bearer ${token}` }
         });
     }
-}
+
+    async editMessage(messageId: ResId, text: string, token: JwtToken): Promise<MessageResponse> {
+        const { data } = await this.apiClient.patch(MESSAGE_PATH + `/${messageId}`, { text }, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+        return data;
+    }
+
+    async getMessageEditHistory(messageId: ResId, token: JwtToken): Promise<MessageEditList> {
+        const { data } = await this.apiClient.get(MESSAGE_PATH + `/${messageId}/edits`, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+        return data;
+    }
+
+    async addReaction(messageId: ResId, emoji: string, token: JwtToken): Promise<MessageResponse> {
+        const { data } = await this.apiClient.post(MESSAGE_PATH + `/${messageId}/reactions`, { emoji }, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+        return data;
+    }
+
+    async removeReaction(messageId: ResId, emoji: string, token: JwtToken): Promise<MessageResponse> {
+        const { data } = await this.apiClient.delete(MESSAGE_PATH + `/${messageId}/reactions/${encodeURIComponent(emoji)}`, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+        return data;
+    }
+
+    async getThreads(page: number, token: JwtToken): Promise<ThreadList> {
+        const { data } = await this.apiClient.get(CHAT_PATH + `/threads?page=${page}`, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+        return data;
+    }
+
+    async getThread(messageId: ResId, token: JwtToken): Promise<ThreadResponse> {
+        const { data } = await this.apiClient.get(MESSAGE_PATH + `/${messageId}/thread`, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+        return data;
+    }
+
+    async getThreadMessages(messageId: ResId, page: number, token: JwtToken): Promise<PagedMessage> {
+        const { data } = await this.apiClient.get(MESSAGE_PATH + `/${messageId}/thread/messages?page=${page}`, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+        return data;
+    }
+
+    async markThreadAsRead(messageId: ResId, token: JwtToken): Promise<void> {
+        await this.apiClient.post(MESSAGE_PATH + `/${messageId}/thread/read`, {}, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+    }
+
+    async uploadAttachment(formData: FormData, token: JwtToken, options?: UploadRequestOptions): Promise<Attachment> {
+        const { data } = await this.apiClient.post(MESSAGE_PATH + `/attachments`, formData, {
+            headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'multipart/form-data' },
+            ...(options && {
+                signal: options.signal,
+                onUploadProgress: (event) => {
+                    if (event.total) options.onProgress((event.loaded / event.total) * 100);
+                }
+            })
+        });
+        return data;
+    }
+
+    async registerDeviceKey(deviceId: string, publicKey: string, token: JwtToken): Promise<DeviceKey> {
+        const { data } = await this.apiClient.put(ENCRYPTION_PATH + `/devices/${encodeURIComponent(deviceId)}`, { publicKey }, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+        return data;
+    }
+
+    async getDeviceKeys(userId: ResId, token: JwtToken): Promise<DeviceKeyList> {
+        const { data } = await this.apiClient.get(ENCRYPTION_PATH + `/users/${userId}/devices`, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+        return data;
+    }
+
+    async enableEncryption(chatId: ResId, token: JwtToken): Promise<ChatResponse> {
+        const { data } = await this.apiClient.post(CHAT_PATH + `/${chatId}/encryption`, {}, {
+            headers: { Authorization: `Bearer ${token}` }
+        });
+        return data;
+    }
+}
\ No newline at end of file
@@ -5,10 +5,11 @@
  * Provides in-memory data storage and simulated API responses.
  */
 
-import type { ChatList, ChatResponse, CreateChatRequest, PagedMessage } from "@/features/chat/data/models/chat";
+import type { Attachment, ChatList, ChatResponse, CreateChatRequest, DeviceKey, DeviceKeyList, MessageEditList, MessageResponse, PagedMessage, ThreadList, ThreadResponse } from "@/features/chat/data/models/chat";
 import type { ResId } from "@/shared/api/models/common";
 import type { JwtToken } from "@/shared/api/models/common";
 import type { IChatRepository } from "@chat/domain/entities/IChatRepository";
+import type { UploadRequestOptions } from "@/shared/services/FileUploadService";
 import type {
     ChatMessage,
     ChatAttachment,
@@ -19,6 +20,10 @@ import type {
     ChatTypingIndicator,
     ChatNotification
 } from "@chat/domain/entities/ChatEntities";
+import { addReaction, applyEdit, removeReaction } from "@chat/domain/messageUpdates";
+import { addThreadReply, hasThread, isThreadParticipant } from "@chat/domain/threads";
+import { getAttachmentKind } from "@chat/domain/attachments";
+import { matchesSearch, toSearchResults, type MessageSearchQuery } from "@chat/domain/messageSearch";
 
 /**
  * Mock Chat Repository implementation.
@@ -26,6 +31,14 @@ import type {
 export class MockChatRepository implements IChatRepository {
     private token: JwtToken | null;
     private mockData: Map<string, any> = new Map();
+    private editHistory: Map<string, MessageEditList> = new Map();
+    private threadReplies: Map<string, any[]> = new Map();
+    // Number of replies of each thread the current user has read
+    private threadReadCounts: Map<string, number> = new Map();
+    private deviceKeys: Map<string, DeviceKey[]> = new Map();
+    private encryptedChatIds: Set<string> = new Set();
+    // The mock data is seen through the eyes of user-1
+    private readonly currentUserId = 'user-1';
 
     constructor(token: JwtToken | null = null) {
         this.token = token;
@@ -223,9 +236,17 @@ export class MockChatRepository implements IChatRepository {
             senderId: messageData.senderId,
             content: messageData.content,
             timestamp: new Date().toISOString(),
-            isRead: false
+            isRead: false,
+            ...(messageData.threadId && { threadId: messageData.threadId }),
+            ...(messageData.encrypted && { text: '', encrypted: messageData.encrypted })
         };
 
+        if (messageData.threadId) {
+            const threadId = String(messageData.threadId);
+            this.threadReplies.set(threadId, [response, ...(this.threadReplies.get(threadId) ?? [])]);
+            this.replaceMessage(addThreadReply(this.findMessage(threadId), { ...response, createDate: response.timestamp } as any));
+        }
+
         console.log('MockChatRepository: Message sent successfully');
         return response;
     }
@@ -242,6 +263,7 @@ export class MockChatRepository implements IChatRepository {
         const response = {
             id: chatId,
             name: `Chat ${chatId}`,
+            ...(this.encryptedChatIds.has(String(chatId)) && { isEncrypted: true }),
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString()
         };
@@ -296,6 +318,24 @@ export class MockChatRepository implements IChatRepository {
         return response;
     }
 
+    /**
+     * Search the text of the mock messages and thread replies.
+     */
+    async searchMessages(query: MessageSearchQuery, page: number): Promise<PagedMessage> {
+        console.log('MockChatRepository: Searching messages with query:', query.text, 'page:', page);
+
+        // Simulate API delay
+        await new Promise(resolve => setTimeout(resolve, 150));
+
+        // Mock messages keep their text as `content` and their date as `timestamp`
+        const messages = [...this.mockData.get('messages').content, ...[...this.threadReplies.values()].flat()]
+            .map((msg: any) => ({ ...msg, text: msg.text || msg.content || '', createDate: msg.createDate ?? msg.timestamp }));
+        const found = toSearchResults(messages.filter(msg => matchesSearch(msg, query)), query).map(result => result.message);
+
+        console.log('MockChatRepository: Message search completed successfully');
+        return this.toPage(page === 0 ? found : []);
+    }
+
     /**
      * Get chat participants.
      */
@@ -393,4 +433,229 @@ export class MockChatRepository implements IChatRepository {
         console.log('MockChatRepository: Unread count retrieved successfully');
         return unreadCount;
     }
-}
+
+    /**
+     * Edit the text of a message.
+     */
+    async editMessage(messageId: ResId, text: string): Promise<MessageResponse> {
+        console.log('MockChatRepository: Editing message:', messageId);
+
+        // Simulate API delay
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        const message = this.findMessage(messageId);
+        const editDate = new Date().toISOString();
+        const history = this.editHistory.get(String(messageId)) ?? [];
+        this.editHistory.set(String(messageId), [...history, { text: message.text ?? message.content, editDate }]);
+
+        const edited = this.replaceMessage(applyEdit(message, text, editDate));
+        console.log('MockChatRepository: Message edited successfully');
+        return edited;
+    }
+
+    /**
+     * Get the edit history of a message.
+     */
+    async getMessageEditHistory(messageId: ResId): Promise<MessageEditList> {
+        console.log('MockChatRepository: Getting edit history for message:', messageId);
+
+        // Simulate API delay
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        return this.editHistory.get(String(messageId)) ?? [];
+    }
+
+    /**
+     * React to a message.
+     */
+    async addReaction(messageId: ResId, emoji: string): Promise<MessageResponse> {
+        console.log('MockChatRepository: Adding reaction to message:', messageId, emoji);
+
+        // Simulate API delay
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        const reaction = { emoji, userId: this.currentUserId, timestamp: Date.now() };
+        return this.replaceMessage(addReaction(this.findMessage(messageId), reaction));
+    }
+
+    /**
+     * Remove a reaction from a message.
+     */
+    async removeReaction(messageId: ResId, emoji: string): Promise<MessageResponse> {
+        console.log('MockChatRepository: Removing reaction from message:', messageId, emoji);
+
+        // Simulate API delay
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        return this.replaceMessage(removeReaction(this.findMessage(messageId), emoji, this.currentUserId));
+    }
+
+    /**
+     * Get the threads the current user took part in.
+     */
+    async getThreads(page: number): Promise<ThreadList> {
+        console.log('MockChatRepository: Getting threads, page:', page);
+
+        // Simulate API delay
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        const threads = this.mockData.get('messages').content
+            .filter((msg: any) => hasThread(msg) && isThreadParticipant(msg, this.currentUserId))
+            .map((msg: any) => this.toThread(msg));
+        return this.toPage(threads);
+    }
+
+    /**
+     * Get a thread.
+     */
+    async getThread(messageId: ResId): Promise<ThreadResponse> {
+        console.log('MockChatRepository: Getting thread:', messageId);
+
+        // Simulate API delay
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        return this.toThread(this.findMessage(messageId));
+    }
+
+    /**
+     * Get the replies of a thread.
+     */
+    async getThreadMessages(messageId: ResId, page: number): Promise<PagedMessage> {
+        console.log('MockChatRepository: Getting replies of thread:', messageId, 'page:', page);
+
+        // Simulate API delay
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        return this.toPage(this.threadReplies.get(String(messageId)) ?? []);
+    }
+
+    /**
+     * Mark a thread as read.
+     */
+    async markThreadAsRead(messageId: ResId): Promise<void> {
+        console.log('MockChatRepository: Marking thread as read:', messageId);
+
+        // Simulate API delay
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        this.threadReadCounts.set(String(messageId), this.findMessage(messageId).threadSummary?.replyCount ?? 0);
+    }
+
+    /**
+     * Upload an attachment, reporting progress in steps.
+     */
+    async uploadAttachment(formData: FormData, _token: JwtToken, options?: UploadRequestOptions): Promise<Attachment> {
+        const file = formData.get('file') as File;
+        console.log('MockChatRepository: Uploading attachment:', file.name);
+
+        // Simulate a slow upload that can be cancelled
+        for (let progress = 25; progress <= 100; progress += 25) {
+            await new Promise(resolve => setTimeout(resolve, 100));
+            if (options?.signal.aborted) throw new Error('Upload cancelled');
+            options?.onProgress(progress);
+        }
+
+        const url = URL.createObjectURL(file);
+        const durationMs = formData.get('durationMs');
+        return {
+            id: `attachment-${Date.now()}`,
+            kind: getAttachmentKind(file.type) ?? 'file',
+            name: file.name,
+            mimeType: file.type,
+            size: file.size,
+            url,
+            ...(formData.has('thumbnail') && { thumbnailUrl: URL.createObjectURL(formData.get('thumbnail') as Blob) }),
+            ...(durationMs !== null && {
+                voiceNote: { durationMs: Number(durationMs), waveform: JSON.parse(String(formData.get('waveform') ?? '[]')) }
+            })
+        };
+    }
+
+    /**
+     * Publish a device key of the current user.
+     */
+    async registerDeviceKey(deviceId: string, publicKey: string): Promise<DeviceKey> {
+        console.log('MockChatRepository: Registering device key:', deviceId);
+
+        const deviceKey = { deviceId, userId: this.currentUserId, publicKey, createDate: new Date().toISOString() };
+        const others = (this.deviceKeys.get(this.currentUserId) ?? []).filter(key => key.deviceId !== deviceId);
+        this.deviceKeys.set(this.currentUserId, [...others, deviceKey]);
+        return deviceKey;
+    }
+
+    /**
+     * Get the device keys of a user.
+     */
+    async getDeviceKeys(userId: ResId): Promise<DeviceKeyList> {
+        console.log('MockChatRepository: Getting device keys of user:', userId);
+        return this.deviceKeys.get(String(userId)) ?? [];
+    }
+
+    /**
+     * Turn on end-to-end encryption for a chat.
+     */
+    async enableEncryption(chatId: ResId, token: JwtToken): Promise<ChatResponse> {
+        console.log('MockChatRepository: Enabling encryption for chat:', chatId);
+
+        this.encryptedChatIds.add(String(chatId));
+        return await this.getChatDetails(chatId, token);
+    }
+
+    /**
+     * Describe a thread as seen by the current user.
+     */
+    private toThread(root: any): ThreadResponse {
+        const replyCount = root.threadSummary?.replyCount ?? 0;
+        return {
+            chatId: root.chatId,
+            root,
+            unreadCount: replyCount - (this.threadReadCounts.get(String(root.id)) ?? 0)
+        };
+    }
+
+    /**
+     * Wrap mock items in a single page.
+     */
+    private toPage(content: any[]): any {
+        return {
+            content,
+            pageable: {
+                pageNumber: 0,
+                pageSize: content.length,
+                sort: { sorted: false, unsorted: true, empty: false },
+                offset: 0,
+                paged: true,
+                unpaged: false
+            },
+            totalPages: 1,
+            totalElements: content.length,
+            last: true,
+            first: true,
+            size: content.length,
+            number: 0,
+            sort: { sorted: false, unsorted: true, empty: false },
+            numberOfElements: content.length,
+            empty: content.length === 0
+        };
+    }
+
+    /**
+     * Find a mock message by ID.
+     */
+    private findMessage(messageId: ResId): any {
+        const message = this.mockData.get('messages').content.find((msg: any) => String(msg.id) === String(messageId));
+        if (!message) {
+            throw new Error(`Message not found: ${messageId}`);
+        }
+        return message;
+    }
+
+    /**
+     * Store an updated mock message in place of the old one.
+     */
+    private replaceMessage(message: any): any {
+        const messages = this.mockData.get('messages');
+        messages.content = messages.content.map((msg: any) => String(msg.id) === String(message.id) ? message : msg);
+        return message;
+    }
+}
\ No newline at end of file
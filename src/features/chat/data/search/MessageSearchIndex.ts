@@ -0,0 +1,96 @@
+/**
+ * Message Search Index
+ *
+ * Keeps the messages this device loaded recently, so they can be searched
+ * without the server: when offline, and in encrypted chats whose texts the
+ * server never sees. The index lives in memory only, so decrypted texts are
+ * never written to storage.
+ */
+
+import type { MessageResponse } from "@/features/chat/data/models/chat";
+import type { ResId } from "@/shared/api/models/common";
+import {
+    containsSearchTerms,
+    getSearchTerms,
+    isSearchableMessage,
+    matchesSearchFilters,
+    normalizeSearchText,
+    type MessageSearchQuery
+} from "@chat/domain/messageSearch";
+
+/**
+ * Messages kept by default; the least recently loaded go first.
+ */
+const DEFAULT_CAPACITY = 5000;
+
+interface IndexedMessage {
+    message: MessageResponse;
+    normalizedText: string;
+}
+
+export class MessageSearchIndex {
+    // Insertion ordered, so the first entry is the least recently loaded
+    private entries: Map<string, IndexedMessage> = new Map();
+
+    constructor(private readonly capacity: number = DEFAULT_CAPACITY) { }
+
+    /**
+     * Add or update messages. Messages without searchable text are dropped,
+     * such as ones an edit emptied.
+     */
+    add(messages: readonly MessageResponse[]): void {
+        messages.forEach(message => {
+            const id = String(message.id);
+            this.entries.delete(id);
+            if (isSearchableMessage(message)) {
+                this.entries.set(id, { message, normalizedText: normalizeSearchText(message.text) });
+            }
+        });
+
+        for (const id of this.entries.keys()) {
+            if (this.entries.size <= this.capacity) break;
+            this.entries.delete(id);
+        }
+    }
+
+    remove(messageId: ResId): void {
+        this.entries.delete(String(messageId));
+    }
+
+    removeChat(chatId: ResId): void {
+        for (const [id, { message }] of this.entries) {
+            if (String(message.chatId) === String(chatId)) this.entries.delete(id);
+        }
+    }
+
+    /**
+     * Find the indexed messages matching a query.
+     *
+     * @param query - The query
+     * @param limit - Most messages to return
+     * @returns The matches, newest first
+     */
+    search(query: MessageSearchQuery, limit?: number): MessageResponse[] {
+        const terms = getSearchTerms(query.text);
+        if (terms.length === 0) return [];
+
+        const matches: MessageResponse[] = [];
+        this.entries.forEach(({ message, normalizedText }) => {
+            if (containsSearchTerms(normalizedText, terms) && matchesSearchFilters(message, query)) {
+                matches.push(message);
+            }
+        });
+
+        const sentAt = (message: MessageResponse) => (message.createDate ? Date.parse(message.createDate) : 0) || 0;
+        matches.sort((a, b) => sentAt(b) - sentAt(a));
+        return limit === undefined ? matches : matches.slice(0, limit);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    get size(): number {
+        return this.entries.size;
+    }
+}
@@ -7,11 +7,20 @@
  */
 
 import { createCacheProvider, type ICacheProvider } from '@/core/cache';
+import { getEntityStore, type IEntityStore } from '@/core/modules/data-service';
 import type { IChatRepository } from '@/features/chat/domain/entities/IChatRepository';
 import { CHAT_CACHE_KEYS, CHAT_INVALIDATION_PATTERNS } from '../cache/ChatCacheKeys';
+import { CHAT_ENTITY, MESSAGE_ENTITY } from '../models/entities';
 import { CACHE_TIME_MAPPINGS } from '@/core/hooks/migrationUtils';
-import type { ChatList, ChatResponse, CreateChatRequest, PagedMessage } from "@/features/chat/data/models/chat";
+import type { Attachment, ChatList, ChatResponse, CreateChatRequest, MessageEditList, MessageResponse, PagedMessage, ThreadList, ThreadResponse } from "@/features/chat/data/models/chat";
 import type { ResId, JwtToken } from "@/shared/api/models/common";
+import type { UploadRequestOptions } from "@/shared/services/FileUploadService";
+import type { RequestOptions } from "@/core/modules/network";
+import { ENCRYPTED_CHAT_ATTACHMENTS_MESSAGE, isEncryptedMessage } from "@chat/domain/encryption";
+import { isSearchQuery, toSearchResults, type MessageSearchPage, type MessageSearchQuery } from "@chat/domain/messageSearch";
+import type { MessageEncryptionService } from '../encryption/MessageEncryptionService';
+import { EncryptionError } from '../encryption/messageCrypto';
+import { MessageSearchIndex } from '../search/MessageSearchIndex';
 // import { WebSocketService } from './WebSocketService';
 
 // Temporary interface for migration
@@ -22,28 +31,40 @@ interface WebSocketService {
   subscribe(event: string, callback: (data: any) => void): () => void;
 }
 
+const CHAT_LIST_SHAPE = { content: [CHAT_ENTITY] };
+const MESSAGE_PAGE_SHAPE = { content: [MESSAGE_ENTITY] };
+
 export class ChatDataService {
+  // Chats and pages hold references, so an edited message or renamed member shows everywhere
+  private readonly entities: IEntityStore;
+
   constructor(
     private cache: ICacheProvider,
     private repository: IChatRepository,
-    private webSocketService: WebSocketService
-  ) { }
+    private webSocketService: WebSocketService,
+    private encryption?: MessageEncryptionService,
+    private searchIndex: MessageSearchIndex = new MessageSearchIndex()
+  ) {
+    this.entities = getEntityStore(cache);
+  }
 
   // Chat operations
-  async getChats(userId: string, token: JwtToken): Promise<ChatList> {
+  async getChats(userId: string, token: JwtToken, options?: RequestOptions): Promise<ChatList> {
     const cacheKey = CHAT_CACHE_KEYS.USER_CHATS(userId);
 
     // Cache-first lookup
-    let chats = this.cache.get<ChatList>(cacheKey);
-    if (chats) return chats;
+    let chats = await this.entities.readQuery<ChatList>(cacheKey, CHAT_LIST_SHAPE);
+    if (!chats) {
+      // Fetch from repository
+      chats = await this.repository.getChats(userId, token, options);
 
-    // Fetch from repository
-    chats = await this.repository.getChats(userId, token);
-
-    // Cache with medium TTL for chat lists
-    this.cache.set(cacheKey, chats, CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME);
+      // Cache with medium TTL for chat lists
+      this.entities.writeQuery(cacheKey, chats, CHAT_LIST_SHAPE, CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME);
+    }
 
-    return chats;
+    // Only ciphertext is cached; texts are decrypted as they are read
+    if (!chats.content.some((chat: ChatResponse) => chat.recentMessage && this.needsDecryption(chat.recentMessage))) return chats;
+    return { ...chats, content: await Promise.all(chats.content.map((chat: ChatResponse) => this.decryptChat(chat, token))) };
   }
 
   async createChat(chatData: CreateChatRequest, token: JwtToken): Promise<ChatResponse> {
@@ -54,7 +75,7 @@ export class ChatDataService {
 
     // Cache the new chat
     const chatCacheKey = CHAT_CACHE_KEYS.CHAT_INFO(String(result.id));
-    this.cache.set(chatCacheKey, result, CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME);
+    this.entities.writeQuery(chatCacheKey, result, CHAT_ENTITY, CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME);
 
     // Send real-time notification
     this.webSocketService.send('chat_created', result, String(result.id), String(chatData.userIds[0]));
@@ -69,6 +90,7 @@ export class ChatDataService {
     this.cache.invalidatePattern(CHAT_INVALIDATION_PATTERNS.CHAT_MESSAGES(String(chatId)));
     this.cache.invalidate(CHAT_CACHE_KEYS.CHAT_INFO(String(chatId)));
     this.cache.invalidate(CHAT_CACHE_KEYS.CHAT_PARTICIPANTS(String(chatId)));
+    this.searchIndex.removeChat(chatId);
 
     // Send real-time notification
     this.webSocketService.send('chat_deleted', { chatId }, chatId);
@@ -80,16 +102,16 @@ export class ChatDataService {
     const cacheKey = CHAT_CACHE_KEYS.CHAT_INFO(String(chatId));
 
     // Cache-first lookup
-    let chat = this.cache.get<ChatResponse>(cacheKey);
-    if (chat) return chat;
+    let chat = await this.entities.readQuery<ChatResponse>(cacheKey, CHAT_ENTITY);
+    if (!chat) {
+      // Fetch from repository
+      chat = await this.repository.getChatDetails(chatId, token);
 
-    // Fetch from repository
-    chat = await this.repository.getChatDetails(chatId, token);
-
-    // Cache with longer TTL for chat info
-    this.cache.set(cacheKey, chat, CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME);
+      // Cache with longer TTL for chat info
+      this.entities.writeQuery(cacheKey, chat, CHAT_ENTITY, CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME);
+    }
 
-    return chat;
+    return await this.decryptChat(chat, token);
   }
 
   async updateChatSettings(chatId: ResId, settings: any, token: JwtToken): Promise<ChatResponse> {
@@ -97,7 +119,7 @@ export class ChatDataService {
 
     // Update cache
     const cacheKey = CHAT_CACHE_KEYS.CHAT_INFO(String(chatId));
-    this.cache.set(cacheKey, result, CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME);
+    this.entities.writeQuery(cacheKey, result, CHAT_ENTITY, CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME);
 
     // Invalidate settings cache
     this.cache.invalidate(CHAT_CACHE_KEYS.CHAT_SETTINGS(String(chatId)));
@@ -109,28 +131,37 @@ export class ChatDataService {
   }
 
   // Message operations
-  async getMessages(chatId: ResId, page: number, token: JwtToken): Promise<PagedMessage> {
+  async getMessages(chatId: ResId, page: number, token: JwtToken, options?: RequestOptions): Promise<PagedMessage> {
     const cacheKey = CHAT_CACHE_KEYS.MESSAGES(String(chatId), page);
 
     // Cache-first lookup
-    let messages = this.cache.get<PagedMessage>(cacheKey);
-    if (messages) return messages;
+    let messages = await this.entities.readQuery<PagedMessage>(cacheKey, MESSAGE_PAGE_SHAPE);
+    if (!messages) {
+      // Fetch from repository
+      messages = await this.repository.getMessages(chatId, page, token, options);
 
-    // Fetch from repository
-    messages = await this.repository.getMessages(chatId, page, token);
-
-    // Cache with medium TTL for messages
-    this.cache.set(cacheKey, messages, CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME);
+      // Cache with medium TTL for messages
+      this.entities.writeQuery(cacheKey, messages, MESSAGE_PAGE_SHAPE, CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME);
+    }
 
-    return messages;
+    return this.indexPage(await this.decryptPage(messages, token));
   }
 
   async sendMessage(chatId: ResId, messageData: any, token: JwtToken): Promise<any> {
-    const result = await this.repository.sendMessage(chatId, messageData, token);
+    const outgoing = await this.encryptOutgoing(chatId, messageData, token);
+    const result = await this.repository.sendMessage(chatId, outgoing, token);
 
     // Invalidate message caches for this chat
     this.cache.invalidatePattern(CHAT_INVALIDATION_PATTERNS.CHAT_MESSAGES(String(chatId)));
 
+    // A thread reply also changes the thread and its reply count preview
+    if (messageData.threadId) {
+      this.cache.invalidatePattern(CHAT_INVALIDATION_PATTERNS.THREAD(String(messageData.threadId)));
+      if (messageData.senderId) {
+        this.cache.invalidatePattern(CHAT_INVALIDATION_PATTERNS.USER_THREADS(String(messageData.senderId)));
+      }
+    }
+
     // Invalidate user chat data for all participants
     if (messageData.participants) {
       messageData.participants.forEach((userId: string) => {
@@ -138,10 +169,12 @@ export class ChatDataService {
       });
     }
 
-    // Send real-time message
+    // Send real-time message; other clients get the ciphertext the server stored
     this.webSocketService.sendMessage(chatId, result);
 
-    return result;
+    const message = await this.decryptMessage(result, token);
+    this.searchIndex.add([message]);
+    return message;
   }
 
   async deleteMessage(messageId: string, token: JwtToken): Promise<void> {
@@ -149,11 +182,185 @@ export class ChatDataService {
 
     // Invalidate message cache
     this.cache.invalidate(CHAT_CACHE_KEYS.MESSAGE(messageId));
+    this.searchIndex.remove(messageId);
 
     // Send real-time notification
     this.webSocketService.send('message_deleted', { messageId }, undefined, undefined);
   }
 
+  // Edits and reactions are broadcast by the server, so only the caches are updated here
+  async editMessage(chatId: ResId, messageId: ResId, text: string, token: JwtToken): Promise<MessageResponse> {
+    // An edit would go out as plaintext, so encrypted messages are final
+    const chat = await this.getChatDetails(chatId, token);
+    if (chat.isEncrypted) {
+      throw new EncryptionError('unsupported_chat', 'Messages in an encrypted chat cannot be edited');
+    }
+
+    const result = await this.repository.editMessage(messageId, text, token);
+    this.entities.mergeEntity(MESSAGE_ENTITY, result);
+
+    this.cache.invalidate(CHAT_CACHE_KEYS.MESSAGE(String(messageId)));
+    this.cache.invalidate(CHAT_CACHE_KEYS.MESSAGE_EDITS(String(messageId)));
+    this.cache.invalidatePattern(CHAT_INVALIDATION_PATTERNS.CHAT_MESSAGES(String(chatId)));
+    this.searchIndex.add([result]);
+
+    return result;
+  }
+
+  async getMessageEditHistory(messageId: ResId, token: JwtToken): Promise<MessageEditList> {
+    const cacheKey = CHAT_CACHE_KEYS.MESSAGE_EDITS(String(messageId));
+
+    let history = this.cache.get<MessageEditList>(cacheKey);
+    if (history) return history;
+
+    history = await this.repository.getMessageEditHistory(messageId, token);
+    this.cache.set(cacheKey, history, CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME);
+
+    return history;
+  }
+
+  async addReaction(chatId: ResId, messageId: ResId, emoji: string, token: JwtToken): Promise<MessageResponse> {
+    const result = await this.repository.addReaction(messageId, emoji, token);
+    this.entities.mergeEntity(MESSAGE_ENTITY, result);
+    this.cache.invalidatePattern(CHAT_INVALIDATION_PATTERNS.CHAT_MESSAGES(String(chatId)));
+    return result;
+  }
+
+  async removeReaction(chatId: ResId, messageId: ResId, emoji: string, token: JwtToken): Promise<MessageResponse> {
+    const result = await this.repository.removeReaction(messageId, emoji, token);
+    this.entities.mergeEntity(MESSAGE_ENTITY, result);
+    this.cache.invalidatePattern(CHAT_INVALIDATION_PATTERNS.CHAT_MESSAGES(String(chatId)));
+    return result;
+  }
+
+  // Thread operations
+  async getThreads(userId: string, page: number, token: JwtToken): Promise<ThreadList> {
+    const cacheKey = CHAT_CACHE_KEYS.USER_THREADS(userId, page);
+
+    let threads = this.cache.get<ThreadList>(cacheKey);
+    if (!threads) {
+      threads = await this.repository.getThreads(page, token);
+
+      // Unread counts change with every reply, so keep them briefly
+      this.cache.set(cacheKey, threads, CACHE_TIME_MAPPINGS.CHAT_STALE_TIME);
+    }
+
+    if (!threads.content.some((thread: ThreadResponse) => this.needsDecryption(thread.root))) return threads;
+    return { ...threads, content: await Promise.all(threads.content.map((thread: ThreadResponse) => this.decryptThread(thread, token))) };
+  }
+
+  async getThread(messageId: ResId, token: JwtToken): Promise<ThreadResponse> {
+    const cacheKey = CHAT_CACHE_KEYS.THREAD(String(messageId));
+
+    let thread = this.cache.get<ThreadResponse>(cacheKey);
+    if (!thread) {
+      thread = await this.repository.getThread(messageId, token);
+      this.cache.set(cacheKey, thread, CACHE_TIME_MAPPINGS.CHAT_STALE_TIME);
+    }
+
+    return await this.decryptThread(thread, token);
+  }
+
+  async getThreadMessages(messageId: ResId, page: number, token: JwtToken): Promise<PagedMessage> {
+    const cacheKey = CHAT_CACHE_KEYS.THREAD_MESSAGES(String(messageId), page);
+
+    let messages = this.cache.get<PagedMessage>(cacheKey);
+    if (!messages) {
+      messages = await this.repository.getThreadMessages(messageId, page, token);
+      this.cache.set(cacheKey, messages, CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME);
+    }
+
+    return this.indexPage(await this.decryptPage(messages, token));
+  }
+
+  async markThreadAsRead(userId: string, messageId: ResId, token: JwtToken): Promise<void> {
+    await this.repository.markThreadAsRead(messageId, token);
+
+    // Threads are read as replies arrive, so this also drops the cached replies
+    this.cache.invalidatePattern(CHAT_INVALIDATION_PATTERNS.THREAD(String(messageId)));
+    this.cache.invalidatePattern(CHAT_INVALIDATION_PATTERNS.USER_THREADS(userId));
+  }
+
+  async uploadAttachment(formData: FormData, token: JwtToken, options?: UploadRequestOptions): Promise<Attachment> {
+    // Uploads are one-off and belong to no message yet, so nothing is cached
+    return await this.repository.uploadAttachment(formData, token, options);
+  }
+
+  // Encryption operations
+  async enableEncryption(chatId: ResId, token: JwtToken): Promise<ChatResponse> {
+    const encryption = this.requireEncryption();
+
+    // Publish this device first, so the chat has a device to encrypt to
+    await encryption.getDevice(token);
+    const result = await this.repository.enableEncryption(chatId, token);
+
+    this.cache.set(CHAT_CACHE_KEYS.CHAT_INFO(String(chatId)), result, CACHE_TIME_MAPPINGS.CHAT_CACHE_TIME);
+    this.cache.invalidatePattern(CHAT_INVALIDATION_PATTERNS.USER_CHAT_DATA('*'));
+
+    return await this.decryptChat(result, token);
+  }
+
+  async getSafetyNumber(chatId: ResId, token: JwtToken): Promise<string> {
+    const chat = await this.getChatDetails(chatId, token);
+    return await this.requireEncryption().getSafetyNumber(chat.userIds, token);
+  }
+
+  /**
+   * Decrypt a message that did not come through this service, such as one received over the WebSocket
+   */
+  async decryptMessage(message: MessageResponse, token: JwtToken): Promise<MessageResponse> {
+    if (!this.encryption || !this.needsDecryption(message)) return message;
+    return await this.encryption.decrypt(message, token);
+  }
+
+  private async encryptOutgoing(chatId: ResId, messageData: any, token: JwtToken): Promise<any> {
+    if (!this.encryption) return messageData;
+
+    const chat = await this.getChatDetails(chatId, token);
+    if (!chat.isEncrypted) return messageData;
+
+    // Files are uploaded before the message is sent, so the server already holds them as plaintext
+    if (messageData.attachmentIds?.length) {
+      throw new EncryptionError('unsupported_chat', ENCRYPTED_CHAT_ATTACHMENTS_MESSAGE);
+    }
+
+    // The server of an encrypted chat never sees the text, not even an empty caption
+    const { text, content, ...rest } = messageData;
+    return { ...rest, text: '', encrypted: await this.encryption.encrypt(chat, text ?? content ?? '', token) };
+  }
+
+  private needsDecryption(message: MessageResponse): boolean {
+    return isEncryptedMessage(message) || (!!message.replyTo && isEncryptedMessage(message.replyTo));
+  }
+
+  private async decryptPage(page: PagedMessage, token: JwtToken): Promise<PagedMessage> {
+    if (!this.encryption || !page.content.some(message => this.needsDecryption(message))) return page;
+    return { ...page, content: await Promise.all(page.content.map(message => this.decryptMessage(message, token))) };
+  }
+
+  private indexPage(page: PagedMessage): PagedMessage {
+    this.searchIndex.add(page.content);
+    return page;
+  }
+
+  private async decryptChat(chat: ChatResponse, token: JwtToken): Promise<ChatResponse> {
+    if (!chat.recentMessage) return chat;
+    const recentMessage = await this.decryptMessage(chat.recentMessage, token);
+    return recentMessage === chat.recentMessage ? chat : { ...chat, recentMessage };
+  }
+
+  private async decryptThread(thread: ThreadResponse, token: JwtToken): Promise<ThreadResponse> {
+    const root = await this.decryptMessage(thread.root, token);
+    return root === thread.root ? thread : { ...thread, root };
+  }
+
+  private requireEncryption(): MessageEncryptionService {
+    if (!this.encryption) {
+      throw new Error('End-to-end encryption is not available');
+    }
+    return this.encryption;
+  }
+
   async markMessagesAsRead(chatId: ResId, messageIds: string[], token: JwtToken): Promise<any> {
     const result = await this.repository.markMessagesAsRead(chatId, messageIds, token);
 
@@ -169,7 +376,7 @@ export class ChatDataService {
     return result;
   }
 
-  async getUnreadCount(userId: string, token: JwtToken): Promise<number> {
+  async getUnreadCount(userId: string, token: JwtToken, options?: RequestOptions): Promise<number> {
     const cacheKey = CHAT_CACHE_KEYS.UNREAD_COUNT(userId);
 
     // Very short TTL for unread count (real-time data)
@@ -177,7 +384,7 @@ export class ChatDataService {
     if (count !== undefined) return count;
 
     // Fetch from repository
-    count = await this.repository.getUnreadCount(userId, token);
+    count = await this.repository.getUnreadCount(userId, token, options);
 
     // Cache with very short TTL (30 seconds)
     this.cache.set(cacheKey, count, 30000);
@@ -202,6 +409,41 @@ export class ChatDataService {
     return results;
   }
 
+  /**
+   * Search the text of messages, across all chats or within one. Results are
+   * not cached, as every new message may change them; instead the messages
+   * loaded on this device are searched when the server cannot be reached.
+   */
+  async searchMessages(query: MessageSearchQuery, page: number, token: JwtToken): Promise<MessageSearchPage> {
+    if (!isSearchQuery(query.text)) return { results: [], hasNextPage: false, isOffline: false };
+
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return this.searchLoadedMessages(query);
+
+    let found: PagedMessage;
+    try {
+      found = await this.repository.searchMessages(query, page, token);
+    } catch (error) {
+      // No response at all means the server is out of reach; anything else is a real failure
+      if ((error as { isAxiosError?: boolean; response?: unknown })?.isAxiosError && !(error as { response?: unknown }).response) {
+        return this.searchLoadedMessages(query);
+      }
+      throw error;
+    }
+
+    // The server never sees the texts of encrypted chats, so those come from this device
+    const decrypted = page === 0 ? this.searchIndex.search(query).filter(message => isEncryptedMessage(message)) : [];
+
+    return {
+      results: toSearchResults([...found.content, ...decrypted], query),
+      hasNextPage: !found.last,
+      isOffline: false
+    };
+  }
+
+  private searchLoadedMessages(query: MessageSearchQuery): MessageSearchPage {
+    return { results: toSearchResults(this.searchIndex.search(query), query), hasNextPage: false, isOffline: true };
+  }
+
   // Participant operations (enhanced with validation)
   async getChatParticipants(chatId: ResId, token: JwtToken): Promise<any[]> {
     const cacheKey = CHAT_CACHE_KEYS.CHAT_PARTICIPANTS(String(chatId));
@@ -372,6 +614,14 @@ export class ChatDataService {
     this.cache.invalidate(CHAT_CACHE_KEYS.TYPING_INDICATORS(String(chatId)));
   }
 
+  /**
+   * Reload a chat from the repository after WebSocket messages were missed
+   */
+  async resyncChat(chatId: ResId, token: JwtToken): Promise<PagedMessage> {
+    await this.invalidateChatData(chatId);
+    return this.getMessages(chatId, 0, token);
+  }
+
   async invalidateUserData(userId: string): Promise<void> {
     this.cache.invalidatePattern(CHAT_INVALIDATION_PATTERNS.USER_CHAT_DATA(userId));
   }
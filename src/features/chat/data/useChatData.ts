@@ -1,6 +1,6 @@
 import { ChatList, ChatResponse, CreateChatRequest, PagedMessage } from "./models/chat";
 import { ResId } from "@/shared/api/models/common";
-import { useCustomQuery } from '@/core/hooks';
+import { useCustomQuery, type QueryFunctionContext } from '@/core/hooks';
 import { useCustomMutation } from '@/core/hooks';
 import { useCustomInfiniteQuery } from '@/core/hooks';
 import { useChatServices } from '../application/hooks/useChatServices';
@@ -17,9 +17,9 @@ export const useGetChats = () => {
 
     return useCustomQuery(
         ['chats', authData.userId],
-        async (): Promise<ChatList> => {
+        async ({ signal, priority }: QueryFunctionContext): Promise<ChatList> => {
             if (!authData.isAuthenticated) return { content: [], totalElements: 0, totalPages: 0, last: true, first: true, size: 0, number: 0, numberOfElements: 0, empty: true, pageable: { pageNumber: 0, pageSize: 0, sort: { sorted: false, unsorted: true, empty: true }, offset: 0, paged: false, unpaged: true }, sort: { sorted: false, unsorted: true, empty: true } };
-            return await chatDataService.getChats(authData.userId, authData.accessToken);
+            return await chatDataService.getChats(authData.userId, authData.accessToken, { signal, priority });
         },
         {
             retry: 3,
@@ -16,6 +16,8 @@ import { ChatPresenceService } from "@chat/application/services/ChatPresenceServ
 import { ChatRepository } from "@chat/data/repositories/ChatRepository";
 import { MockChatRepository } from "@chat/data/repositories/MockChatRepository";
 import { ChatDataService } from "@chat/data/services/ChatDataService";
+import { MessageEncryptionService } from "@chat/data/encryption/MessageEncryptionService";
+import { createDeviceKeyStore } from "@chat/data/encryption/DeviceKeyStore";
 import type { IChatRepository } from "@chat/domain/entities/IChatRepository";
 import type { Container } from '@core/di/container';
 
@@ -127,7 +129,9 @@ export class ChatDIContainer {
         // Register Chat data service
         const chatRepository = this.repositories.get('chat');
         if (chatRepository) {
-            const chatDataService = new ChatDataService(this.cache, chatRepository, this.webSocketService);
+            // Keys of this device are kept in IndexedDB, so encrypted chats stay readable after a reload
+            const messageEncryptionService = new MessageEncryptionService(chatRepository, createDeviceKeyStore());
+            const chatDataService = new ChatDataService(this.cache, chatRepository, this.webSocketService, messageEncryptionService);
             this.services.set('chatDataService', chatDataService);
 
             // Register Chat feature service
@@ -0,0 +1,160 @@
+/**
+ * Attachments.
+ *
+ * Limits and checks for the files sent with a message. Files are checked
+ * before anything is uploaded, so a rejected file never leaves the device;
+ * the server enforces the same limits.
+ */
+
+import type { Attachment, AttachmentKind, MessageResponse } from "@/features/chat/data/models/chat";
+import { ValidationError } from "@core/modules/error/classes/ValidationError";
+
+const MB = 1024 * 1024;
+
+/**
+ * Most attachments one message can carry.
+ */
+export const MAX_ATTACHMENTS = 10;
+
+/**
+ * MIME types accepted for each kind of attachment.
+ */
+export const ATTACHMENT_TYPES: Record<AttachmentKind, readonly string[]> = {
+    image: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+    audio: ['audio/mpeg', 'audio/mp4', 'audio/ogg', 'audio/wav', 'audio/webm'],
+    file: [
+        'application/pdf',
+        'text/plain',
+        'text/csv',
+        'application/zip',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.ms-excel',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    ]
+};
+
+/**
+ * Largest accepted file for each kind of attachment, in bytes.
+ */
+export const MAX_ATTACHMENT_SIZE: Record<AttachmentKind, number> = {
+    image: 10 * MB,
+    audio: 20 * MB,
+    file: 25 * MB
+};
+
+/**
+ * Value for the `accept` attribute of an attachment file input.
+ */
+export const ATTACHMENT_ACCEPT = Object.values(ATTACHMENT_TYPES).flat().join(',');
+
+export const ATTACHMENT_VALIDATION_CODE = 'ATTACHMENT_INVALID';
+
+const KIND_LABELS: Record<AttachmentKind, string> = {
+    image: 'images',
+    audio: 'audio clips',
+    file: 'files'
+};
+
+/**
+ * What the checks need to know about a file; `File` satisfies it.
+ */
+export interface AttachmentCandidate {
+    name: string;
+    size: number;
+    type: string;
+}
+
+/**
+ * Files that passed the checks, and the error describing the ones that did not.
+ */
+export interface AttachmentCheck<T extends AttachmentCandidate> {
+    accepted: T[];
+    error: ValidationError | null;
+}
+
+/**
+ * Kind of attachment a MIME type is sent as.
+ *
+ * @param mimeType - The MIME type of the file
+ * @returns The kind, or null if the type is not accepted
+ */
+export const getAttachmentKind = (mimeType: string): AttachmentKind | null => {
+    const kinds = Object.keys(ATTACHMENT_TYPES) as AttachmentKind[];
+    return kinds.find(kind => ATTACHMENT_TYPES[kind].includes(mimeType.toLowerCase())) ?? null;
+};
+
+/**
+ * Human-readable file size, e.g. "2.5 MB".
+ *
+ * @param bytes - The size in bytes
+ * @returns The formatted size
+ */
+export const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < MB) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / MB).toFixed(1)} MB`;
+};
+
+/**
+ * Check picked files against the type, size and count limits. Valid files are
+ * kept even when others are rejected.
+ *
+ * @param files - The picked files
+ * @param pendingCount - Attachments already waiting to be sent with the message
+ * @returns The accepted files and a ValidationError listing every rejected one
+ */
+export const checkAttachments = <T extends AttachmentCandidate>(
+    files: readonly T[],
+    pendingCount: number = 0
+): AttachmentCheck<T> => {
+    const accepted: T[] = [];
+    const problems: Array<{ field: string; message: string; value: any; rule: string }> = [];
+
+    files.forEach(file => {
+        const kind = getAttachmentKind(file.type);
+        if (!kind) {
+            problems.push({ field: file.name, message: `"${file.name}" is not a supported file type`, value: file.type, rule: 'type' });
+        } else if (file.size > MAX_ATTACHMENT_SIZE[kind]) {
+            problems.push({
+                field: file.name,
+                message: `"${file.name}" is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE[kind])}, the limit for ${KIND_LABELS[kind]}`,
+                value: file.size,
+                rule: 'size'
+            });
+        } else if (pendingCount + accepted.length >= MAX_ATTACHMENTS) {
+            problems.push({
+                field: file.name,
+                message: `"${file.name}" was not added: a message can carry up to ${MAX_ATTACHMENTS} attachments`,
+                value: file.name,
+                rule: 'count'
+            });
+        } else {
+            accepted.push(file);
+        }
+    });
+
+    if (problems.length === 0) return { accepted, error: null };
+
+    const error = new ValidationError(
+        `${problems.length} attachment(s) rejected`,
+        ATTACHMENT_VALIDATION_CODE,
+        'attachments',
+        problems.map(problem => problem.field),
+        problems[0]?.rule,
+        {
+            userMessage: problems.map(problem => problem.message).join('\n'),
+            validationErrors: problems
+        }
+    );
+    return { accepted, error };
+};
+
+/**
+ * Images of a message, in the order they are shown in the gallery.
+ *
+ * @param message - The message
+ * @returns The image attachments
+ */
+export const getImageAttachments = (message: MessageResponse): Attachment[] =>
+    (message.attachments ?? []).filter(attachment => attachment.kind === 'image');
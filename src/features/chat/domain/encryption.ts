@@ -0,0 +1,91 @@
+/**
+ * Encryption.
+ *
+ * Rules for end-to-end encrypted chats. Only one-to-one chats can be
+ * encrypted, and once a chat is encrypted it stays that way. Members check
+ * nobody is listening in by comparing safety numbers, which are derived from
+ * the device keys of both members and change whenever one of them adds a device.
+ */
+
+import type { ChatResponse, EncryptedPayload } from "@/features/chat/data/models/chat";
+
+/**
+ * Digits in each group of a safety number, and groups contributed by each member.
+ */
+export const SAFETY_NUMBER_GROUP_LENGTH = 5;
+export const SAFETY_NUMBER_GROUPS_PER_USER = 6;
+
+/**
+ * Text shown for a message this device holds no key for, such as one sent
+ * before the device was set up.
+ */
+export const UNREADABLE_MESSAGE_TEXT = 'This message is encrypted and cannot be read on this device';
+
+/**
+ * Why files and voice messages are not offered in an encrypted chat: only
+ * message text is encrypted, attachments would reach the server as plaintext.
+ */
+export const ENCRYPTED_CHAT_ATTACHMENTS_MESSAGE = 'Files and voice messages cannot be sent in an encrypted chat';
+
+/**
+ * Whether a chat may be end-to-end encrypted: only chats between two people can.
+ *
+ * @param chat - The chat
+ * @returns True for a one-to-one chat
+ */
+export function canEncryptChat(chat: Pick<ChatResponse, 'userIds'>): boolean {
+    return new Set(chat.userIds.map(String)).size === 2;
+}
+
+/**
+ * Whether a message or quote carries ciphertext in place of its text.
+ *
+ * @param message - The message
+ * @returns True if the text has to be decrypted
+ */
+export function isEncryptedMessage(message: { encrypted?: EncryptedPayload | undefined }): boolean {
+    return !!message.encrypted;
+}
+
+/**
+ * Turns the fingerprint of one member's device keys into their half of a
+ * safety number: every five bytes become a group of five digits.
+ *
+ * @param fingerprint - A hash of the member's device keys, of at least 30 bytes
+ * @returns The digits, 30 of them
+ */
+export function toSafetyNumberDigits(fingerprint: Uint8Array): string {
+    let digits = '';
+    for (let group = 0; group < SAFETY_NUMBER_GROUPS_PER_USER; group++) {
+        const chunk = fingerprint.slice(group * 5, group * 5 + 5);
+        if (chunk.length < 5) throw new Error('Fingerprint is too short for a safety number');
+        // 40 bits are beyond bitwise operators, so the chunk is read with arithmetic
+        const value = chunk.reduce((total, byte) => total * 256 + byte, 0);
+        digits += String(value % 10 ** SAFETY_NUMBER_GROUP_LENGTH).padStart(SAFETY_NUMBER_GROUP_LENGTH, '0');
+    }
+    return digits;
+}
+
+/**
+ * Combines the halves of both members into one safety number. The halves are
+ * ordered by user ID, so both members see the same number.
+ *
+ * @param halves - The digits of each member, by user ID
+ * @returns The safety number
+ */
+export function combineSafetyNumber(halves: { userId: string; digits: string }[]): string {
+    return [...halves]
+        .sort((a, b) => (a.userId < b.userId ? -1 : a.userId > b.userId ? 1 : 0))
+        .map(half => half.digits)
+        .join('');
+}
+
+/**
+ * Splits a safety number into the groups of digits it is read out in.
+ *
+ * @param safetyNumber - The safety number
+ * @returns Its groups of five digits
+ */
+export function formatSafetyNumber(safetyNumber: string): string[] {
+    return safetyNumber.match(new RegExp(`\\d{1,${SAFETY_NUMBER_GROUP_LENGTH}}`, 'g')) ?? [];
+}
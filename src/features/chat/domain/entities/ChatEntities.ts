@@ -56,7 +56,7 @@ export interface ChatMessage {
     content: string;
     timestamp: string;
     isRead: boolean;
-    messageType: 'text' | 'image' | 'file' | 'system';
+    messageType: 'text' | 'image' | 'file' | 'voice' | 'system';
     attachments?: ChatAttachment[];
     replyTo?: string;
     reactions?: ChatReaction[];
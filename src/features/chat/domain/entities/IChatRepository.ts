@@ -5,9 +5,12 @@
  * Provides abstraction for chat CRUD operations.
  */
 
-import type { ChatList, ChatResponse, CreateChatRequest, PagedMessage } from "@/features/chat/data/models/chat";
+import type { Attachment, ChatList, ChatResponse, CreateChatRequest, DeviceKey, DeviceKeyList, MessageEditList, MessageResponse, PagedMessage, ThreadList, ThreadResponse } from "@/features/chat/data/models/chat";
 import type { ResId } from "@/shared/api/models/common";
 import type { JwtToken } from "@/shared/api/models/common";
+import type { RequestOptions } from "@/core/modules/network";
+import type { UploadRequestOptions } from "@/shared/services/FileUploadService";
+import type { MessageSearchQuery } from "../messageSearch";
 
 /**
  * Chat Repository interface.
@@ -18,9 +21,10 @@ export interface IChatRepository {
      * 
      * @param userId - The user ID
      * @param token - Authentication token
+     * @param options - Cancellation signal and scheduling priority
      * @returns Promise resolving to chat list
      */
-    getChats(userId: string, token: JwtToken): Promise<ChatList>;
+    getChats(userId: string, token: JwtToken, options?: RequestOptions): Promise<ChatList>;
 
     /**
      * Create a new chat.
@@ -46,9 +50,10 @@ export interface IChatRepository {
      * @param chatId - The chat ID
      * @param page - The page number
      * @param token - Authentication token
+     * @param options - Cancellation signal and scheduling priority
      * @returns Promise resolving to paged messages
      */
-    getMessages(chatId: ResId, page: number, token: JwtToken): Promise<PagedMessage>;
+    getMessages(chatId: ResId, page: number, token: JwtToken, options?: RequestOptions): Promise<PagedMessage>;
 
     /**
      * Send a message in a chat.
@@ -89,6 +94,17 @@ export interface IChatRepository {
      */
     searchChats(query: string, userId: string, token: JwtToken): Promise<ChatList>;
 
+    /**
+     * Search the text of the messages in the chats of the signed-in user,
+     * thread replies included. Encrypted messages are never found.
+     * 
+     * @param query - The words to find and the chat, sender and date filters
+     * @param page - The page number
+     * @param token - Authentication token
+     * @returns Promise resolving to the matching messages, newest first
+     */
+    searchMessages(query: MessageSearchQuery, page: number, token: JwtToken): Promise<PagedMessage>;
+
     /**
      * Get chat participants.
      * 
@@ -133,9 +149,10 @@ export interface IChatRepository {
      * 
      * @param userId - The user ID
      * @param token - Authentication token
+     * @param options - Cancellation signal and scheduling priority
      * @returns Promise resolving to unread count
      */
-    getUnreadCount(userId: string, token: JwtToken): Promise<number>;
+    getUnreadCount(userId: string, token: JwtToken, options?: RequestOptions): Promise<number>;
 
     /**
      * Delete a message.
@@ -145,4 +162,118 @@ export interface IChatRepository {
      * @returns Promise resolving to delete response
      */
     deleteMessage(messageId: string, token: JwtToken): Promise<Response>;
-}
+
+    /**
+     * Edit the text of a message; only its sender may edit it.
+     * 
+     * @param messageId - The message ID
+     * @param text - The new text
+     * @param token - Authentication token
+     * @returns Promise resolving to the edited message
+     */
+    editMessage(messageId: ResId, text: string, token: JwtToken): Promise<MessageResponse>;
+
+    /**
+     * Get the previous versions of an edited message, oldest first.
+     * 
+     * @param messageId - The message ID
+     * @param token - Authentication token
+     * @returns Promise resolving to the edit history
+     */
+    getMessageEditHistory(messageId: ResId, token: JwtToken): Promise<MessageEditList>;
+
+    /**
+     * React to a message with an emoji.
+     * 
+     * @param messageId - The message ID
+     * @param emoji - The emoji
+     * @param token - Authentication token
+     * @returns Promise resolving to the message with its reactions
+     */
+    addReaction(messageId: ResId, emoji: string, token: JwtToken): Promise<MessageResponse>;
+
+    /**
+     * Remove the signed-in user's emoji reaction from a message.
+     * 
+     * @param messageId - The message ID
+     * @param emoji - The emoji
+     * @param token - Authentication token
+     * @returns Promise resolving to the message with its reactions
+     */
+    removeReaction(messageId: ResId, emoji: string, token: JwtToken): Promise<MessageResponse>;
+
+    /**
+     * Get the threads the signed-in user took part in, most recently active first.
+     * 
+     * @param page - The page number
+     * @param token - Authentication token
+     * @returns Promise resolving to paged threads
+     */
+    getThreads(page: number, token: JwtToken): Promise<ThreadList>;
+
+    /**
+     * Get a thread with the message that started it.
+     * 
+     * @param messageId - The ID of the message that started the thread
+     * @param token - Authentication token
+     * @returns Promise resolving to the thread
+     */
+    getThread(messageId: ResId, token: JwtToken): Promise<ThreadResponse>;
+
+    /**
+     * Get the replies of a thread. Replies are sent with `sendMessage` and a `threadId`.
+     * 
+     * @param messageId - The ID of the message that started the thread
+     * @param page - The page number
+     * @param token - Authentication token
+     * @returns Promise resolving to paged replies
+     */
+    getThreadMessages(messageId: ResId, page: number, token: JwtToken): Promise<PagedMessage>;
+
+    /**
+     * Mark every reply of a thread as read by the signed-in user.
+     * 
+     * @param messageId - The ID of the message that started the thread
+     * @param token - Authentication token
+     * @returns Promise resolving once the thread is read
+     */
+    markThreadAsRead(messageId: ResId, token: JwtToken): Promise<void>;
+
+    /**
+     * Upload a file to send with a message.
+     * 
+     * @param formData - The file as `file`, and for images a `thumbnail`
+     * @param token - Authentication token
+     * @param options - Progress callback and abort signal of the upload
+     * @returns Promise resolving to the attachment, sent by its ID
+     */
+    uploadAttachment(formData: FormData, token: JwtToken, options?: UploadRequestOptions): Promise<Attachment>;
+
+    /**
+     * Publish the public key of one of the signed-in user's devices.
+     * 
+     * @param deviceId - The device ID
+     * @param publicKey - The public key, base64url encoded
+     * @param token - Authentication token
+     * @returns Promise resolving to the published key
+     */
+    registerDeviceKey(deviceId: string, publicKey: string, token: JwtToken): Promise<DeviceKey>;
+
+    /**
+     * Get the public keys of every device of a user.
+     * 
+     * @param userId - The user ID
+     * @param token - Authentication token
+     * @returns Promise resolving to the device keys
+     */
+    getDeviceKeys(userId: ResId, token: JwtToken): Promise<DeviceKeyList>;
+
+    /**
+     * Turn on end-to-end encryption for a one-to-one chat; it cannot be turned off.
+     * 
+     * @param chatId - The chat ID
+     * @param token - Authentication token
+     * @returns Promise resolving to the encrypted chat
+     */
+    enableEncryption(chatId: ResId, token: JwtToken): Promise<ChatResponse>;
+}
\ No newline at end of file
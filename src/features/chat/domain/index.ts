@@ -16,3 +16,94 @@ export type {
     ChatReaction,
     ChatSettings
 } from './entities/ChatEntities';
+
+// Message reactions, edits and replies
+export {
+    QUICK_REACTIONS,
+    addReaction,
+    applyEdit,
+    applyMessageUpdate,
+    hasReacted,
+    removeReaction,
+    summarizeReactions,
+    toQuotedMessage
+} from './messageUpdates';
+export type { ReactionSummary } from './messageUpdates';
+
+// Threads
+export {
+    addThreadReply,
+    countUnreadThreads,
+    hasThread,
+    isThreadParticipant,
+    isThreadReply
+} from './threads';
+
+// Attachments
+export {
+    ATTACHMENT_ACCEPT,
+    ATTACHMENT_TYPES,
+    ATTACHMENT_VALIDATION_CODE,
+    MAX_ATTACHMENTS,
+    MAX_ATTACHMENT_SIZE,
+    checkAttachments,
+    formatFileSize,
+    getAttachmentKind,
+    getImageAttachments
+} from './attachments';
+export type { AttachmentCandidate, AttachmentCheck } from './attachments';
+
+// Voice notes
+export {
+    MAX_VOICE_NOTE_MS,
+    MIN_VOICE_NOTE_MS,
+    VOICE_NOTE_MIME_TYPES,
+    VOICE_NOTE_PLAYBACK_RATES,
+    VOICE_RECORDING_UNSUPPORTED_MESSAGE,
+    WAVEFORM_BARS,
+    formatVoiceNoteDuration,
+    getNextPlaybackRate,
+    isVoiceNote,
+    isVoiceRecordingSupported,
+    pickVoiceNoteMimeType,
+    toBaseMimeType,
+    toWaveform
+} from './voiceNotes';
+
+// Encryption
+export {
+    ENCRYPTED_CHAT_ATTACHMENTS_MESSAGE,
+    SAFETY_NUMBER_GROUP_LENGTH,
+    SAFETY_NUMBER_GROUPS_PER_USER,
+    UNREADABLE_MESSAGE_TEXT,
+    canEncryptChat,
+    combineSafetyNumber,
+    formatSafetyNumber,
+    isEncryptedMessage,
+    toSafetyNumberDigits
+} from './encryption';
+
+// Unread messages
+export { findFirstUnreadMessage, isUnreadBy } from './unread';
+
+// Read receipts
+export { applyReceipt, getDeliveryState, getReceipt, getRecipientState, getSeenBy } from './receipts';
+
+// Message search
+export {
+    MIN_SEARCH_LENGTH,
+    SNIPPET_LENGTH,
+    buildSearchSnippet,
+    containsSearchTerms,
+    findSearchMatches,
+    getSearchTerms,
+    isSearchQuery,
+    isSearchableMessage,
+    matchesSearch,
+    matchesSearchFilters,
+    normalizeSearchText,
+    splitSearchSnippet,
+    toSearchDateBounds,
+    toSearchResults
+} from './messageSearch';
+export type { MessageSearchPage, MessageSearchQuery, MessageSearchResult, SearchSnippet, TextRange } from './messageSearch';
@@ -0,0 +1,294 @@
+/**
+ * Message Search.
+ *
+ * Pure helpers for finding messages by their text. A message matches when it
+ * contains every word of the query, ignoring case and accents, and passes the
+ * chat, sender and date filters. The same rules apply to results of the server
+ * and to messages searched on this device, so both read alike.
+ */
+
+import type { MessageResponse } from "@/features/chat/data/models/chat";
+import type { ResId } from "@/shared/api/models/common";
+import { UNREADABLE_MESSAGE_TEXT, isEncryptedMessage } from './encryption';
+
+/**
+ * Shortest query searched for, in characters.
+ */
+export const MIN_SEARCH_LENGTH = 2;
+
+/**
+ * Length of the text shown around the first match of a result.
+ */
+export const SNIPPET_LENGTH = 120;
+
+const ELLIPSIS = '…';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What to search for.
+ */
+export interface MessageSearchQuery {
+    /** Words every message found contains */
+    text: string;
+    /** Only messages of this chat; every chat of the user if not given */
+    chatId?: ResId;
+    /** Only messages of this sender */
+    senderId?: ResId;
+    /** Only messages sent at or after this time */
+    from?: Date;
+    /** Only messages sent before this time */
+    to?: Date;
+}
+
+/**
+ * Part of a text, end exclusive.
+ */
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * Text around the first match of a message, with the matches to highlight.
+ */
+export interface SearchSnippet {
+    text: string;
+    highlights: TextRange[];
+}
+
+/**
+ * A message found by a search.
+ */
+export interface MessageSearchResult {
+    message: MessageResponse;
+    snippet: SearchSnippet;
+}
+
+/**
+ * A page of search results.
+ */
+export interface MessageSearchPage {
+    results: MessageSearchResult[];
+    hasNextPage: boolean;
+    /** True when the server could not be reached and only messages on this device were searched */
+    isOffline: boolean;
+}
+
+/**
+ * Fold a text for comparison, remembering where each folded character came from.
+ */
+const foldText = (text: string): { folded: string; positions: number[] } => {
+    let folded = '';
+    const positions: number[] = [];
+    let index = 0;
+
+    for (const character of text) {
+        const foldedCharacter = character.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+        folded += foldedCharacter;
+        for (let i = 0; i < foldedCharacter.length; i++) positions.push(index);
+        index += character.length;
+    }
+    positions.push(text.length);
+
+    return { folded, positions };
+};
+
+/**
+ * Fold a text for comparison: lower case and without accents.
+ *
+ * @param text - The text
+ * @returns The folded text
+ */
+export const normalizeSearchText = (text: string): string => foldText(text).folded;
+
+/**
+ * Words of a query, folded and without duplicates.
+ *
+ * @param text - The query
+ * @returns The words to look for
+ */
+export const getSearchTerms = (text: string): string[] =>
+    [...new Set(normalizeSearchText(text).split(/\s+/).filter(Boolean))];
+
+/**
+ * Whether a query is long enough to search for.
+ *
+ * @param text - The query
+ * @returns True if the query can be searched
+ */
+export const isSearchQuery = (text: string): boolean => text.trim().length >= MIN_SEARCH_LENGTH;
+
+/**
+ * Whether a message has text to search. Encrypted messages count only once
+ * this device decrypted them.
+ *
+ * @param message - The message
+ * @returns True if the message can be found by its text
+ */
+export const isSearchableMessage = (message: MessageResponse): boolean => {
+    if (!message.text) return false;
+    return !isEncryptedMessage(message) || message.text !== UNREADABLE_MESSAGE_TEXT;
+};
+
+/**
+ * Whether a folded text contains every search term.
+ *
+ * @param normalizedText - Text folded with normalizeSearchText
+ * @param terms - Terms from getSearchTerms
+ * @returns True if all terms occur
+ */
+export const containsSearchTerms = (normalizedText: string, terms: readonly string[]): boolean =>
+    terms.length > 0 && terms.every(term => normalizedText.includes(term));
+
+/**
+ * Whether a message passes the chat, sender and date filters of a query.
+ *
+ * @param message - The message
+ * @param query - The query
+ * @returns True if the message passes
+ */
+export const matchesSearchFilters = (message: MessageResponse, query: MessageSearchQuery): boolean => {
+    if (query.chatId !== undefined && String(message.chatId) !== String(query.chatId)) return false;
+    if (query.senderId !== undefined && String(message.senderId) !== String(query.senderId)) return false;
+    if (!query.from && !query.to) return true;
+
+    const sentAt = message.createDate ? Date.parse(message.createDate) : NaN;
+    if (Number.isNaN(sentAt)) return false;
+    if (query.from && sentAt < query.from.getTime()) return false;
+    return !query.to || sentAt < query.to.getTime();
+};
+
+/**
+ * Whether a message matches a query.
+ *
+ * @param message - The message
+ * @param query - The query
+ * @returns True if the message is a result of the query
+ */
+export const matchesSearch = (message: MessageResponse, query: MessageSearchQuery): boolean =>
+    isSearchableMessage(message)
+    && matchesSearchFilters(message, query)
+    && containsSearchTerms(normalizeSearchText(message.text), getSearchTerms(query.text));
+
+/**
+ * Find where search terms occur in a text.
+ *
+ * @param text - The text
+ * @param terms - Terms from getSearchTerms
+ * @returns The matches, in order and without overlaps
+ */
+export const findSearchMatches = (text: string, terms: readonly string[]): TextRange[] => {
+    const { folded, positions } = foldText(text);
+    const matches: TextRange[] = [];
+
+    terms.forEach(term => {
+        let from = folded.indexOf(term);
+        while (from !== -1) {
+            matches.push({ start: positions[from]!, end: positions[from + term.length]! });
+            from = folded.indexOf(term, from + term.length);
+        }
+    });
+
+    return matches
+        .sort((a, b) => a.start - b.start)
+        .reduce<TextRange[]>((merged, match) => {
+            const last = merged[merged.length - 1];
+            if (last && match.start <= last.end) {
+                last.end = Math.max(last.end, match.end);
+            } else {
+                merged.push({ ...match });
+            }
+            return merged;
+        }, []);
+};
+
+/**
+ * Cut the text around the first match of a message, so results show why they matched.
+ *
+ * @param text - The text of the message
+ * @param terms - Terms from getSearchTerms
+ * @param length - Longest snippet, not counting the ellipses
+ * @returns The snippet
+ */
+export const buildSearchSnippet = (text: string, terms: readonly string[], length: number = SNIPPET_LENGTH): SearchSnippet => {
+    const matches = findSearchMatches(text, terms);
+    const first = matches[0];
+
+    let start = 0;
+    if (first && text.length > length) {
+        // Put the first match a third into the snippet, leaving room for what follows it
+        start = Math.max(0, Math.min(first.start - Math.floor(length / 3), text.length - length));
+        const wordStart = text.lastIndexOf(' ', start);
+        if (wordStart > 0 && start - wordStart < 16) start = wordStart + 1;
+    }
+    const end = Math.min(text.length, start + length);
+
+    const prefix = start > 0 ? ELLIPSIS : '';
+    const suffix = end < text.length ? ELLIPSIS : '';
+    const shift = prefix.length - start;
+
+    return {
+        text: prefix + text.slice(start, end) + suffix,
+        highlights: matches
+            .filter(match => match.end > start && match.start < end)
+            .map(match => ({ start: Math.max(match.start, start) + shift, end: Math.min(match.end, end) + shift }))
+    };
+};
+
+/**
+ * Split a snippet into plain and highlighted parts, for rendering.
+ *
+ * @param snippet - The snippet
+ * @returns The parts, in order
+ */
+export const splitSearchSnippet = (snippet: SearchSnippet): Array<{ text: string; isMatch: boolean }> => {
+    const parts: Array<{ text: string; isMatch: boolean }> = [];
+    let position = 0;
+
+    snippet.highlights.forEach(({ start, end }) => {
+        if (start > position) parts.push({ text: snippet.text.slice(position, start), isMatch: false });
+        parts.push({ text: snippet.text.slice(start, end), isMatch: true });
+        position = end;
+    });
+    if (position < snippet.text.length) parts.push({ text: snippet.text.slice(position), isMatch: false });
+
+    return parts;
+};
+
+/**
+ * Turn messages found for a query into results, newest first and each message once.
+ *
+ * @param messages - Messages found, possibly by more than one source
+ * @param query - The query
+ * @returns The results
+ */
+export const toSearchResults = (messages: readonly MessageResponse[], query: MessageSearchQuery): MessageSearchResult[] => {
+    const terms = getSearchTerms(query.text);
+    const seen = new Set<string>();
+    const sentAt = (message: MessageResponse) => (message.createDate ? Date.parse(message.createDate) : 0) || 0;
+
+    return messages
+        .filter(message => {
+            const id = String(message.id);
+            if (seen.has(id)) return false;
+            seen.add(id);
+            return true;
+        })
+        .sort((a, b) => sentAt(b) - sentAt(a))
+        .map(message => ({ message, snippet: buildSearchSnippet(message.text, terms) }));
+};
+
+/**
+ * Time bounds of a range of whole days picked in a date picker, which picks
+ * days as midnight UTC. The last day is included.
+ *
+ * @param range - First and last day
+ * @returns The `from` and `to` of a query
+ */
+export const toSearchDateBounds = (range: { startDate: Date; endDate: Date }): { from: Date; to: Date } => {
+    const startOfDay = (date: Date) => Math.floor(date.getTime() / DAY_MS) * DAY_MS;
+    return {
+        from: new Date(startOfDay(range.startDate)),
+        to: new Date(startOfDay(range.endDate) + DAY_MS)
+    };
+};
@@ -0,0 +1,142 @@
+/**
+ * Message Updates.
+ *
+ * Pure helpers that apply reactions, edits and real-time message update
+ * events (including thread reply counts) to a message. The same functions back the optimistic updates and
+ * the WebSocket sync, so both produce identical messages.
+ */
+
+import type {
+    MessageReaction,
+    MessageResponse,
+    MessageUpdateEvent,
+    QuotedMessage
+} from "@/features/chat/data/models/chat";
+import type { ResId } from "@/shared/api/models/common";
+import { SocketEventType } from "@/shared/api/models/websocketNative";
+
+/**
+ * Emojis offered by the reaction picker.
+ */
+export const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"] as const;
+
+/**
+ * Reactions of one emoji on a message, as shown under it.
+ */
+export interface ReactionSummary {
+    emoji: string;
+    count: number;
+    reactedByMe: boolean;
+}
+
+const isSameId = (a: ResId, b: ResId): boolean => String(a) === String(b);
+
+/**
+ * Whether a user already reacted to a message with an emoji.
+ *
+ * @param message - The message
+ * @param emoji - The emoji
+ * @param userId - The user ID
+ * @returns True if the reaction exists
+ */
+export const hasReacted = (message: MessageResponse, emoji: string, userId: ResId): boolean =>
+    (message.reactions ?? []).some(reaction => reaction.emoji === emoji && isSameId(reaction.userId, userId));
+
+/**
+ * Add a reaction to a message; a user reacts at most once with each emoji.
+ *
+ * @param message - The message
+ * @param reaction - The reaction to add
+ * @returns The updated message
+ */
+export const addReaction = (message: MessageResponse, reaction: MessageReaction): MessageResponse => {
+    if (hasReacted(message, reaction.emoji, reaction.userId)) return message;
+    return { ...message, reactions: [...(message.reactions ?? []), reaction] };
+};
+
+/**
+ * Remove a user's reaction from a message.
+ *
+ * @param message - The message
+ * @param emoji - The emoji of the reaction
+ * @param userId - The user ID
+ * @returns The updated message
+ */
+export const removeReaction = (message: MessageResponse, emoji: string, userId: ResId): MessageResponse => {
+    if (!hasReacted(message, emoji, userId)) return message;
+    return {
+        ...message,
+        reactions: (message.reactions ?? []).filter(reaction =>
+            reaction.emoji !== emoji || !isSameId(reaction.userId, userId))
+    };
+};
+
+/**
+ * Replace the text of a message and mark it as edited.
+ *
+ * @param message - The message
+ * @param text - The new text
+ * @param editDate - When the message was edited
+ * @returns The updated message
+ */
+export const applyEdit = (message: MessageResponse, text: string, editDate: string): MessageResponse => ({
+    ...message,
+    text,
+    isEdited: true,
+    editDate
+});
+
+/**
+ * Apply a real-time update event to a message; events of other messages are ignored.
+ *
+ * @param message - The message
+ * @param event - The update event
+ * @returns The updated message
+ */
+export const applyMessageUpdate = (message: MessageResponse, event: MessageUpdateEvent): MessageResponse => {
+    if (!isSameId(message.id, event.messageId)) return message;
+
+    switch (event.type) {
+        case SocketEventType.EDIT_MESSAGE:
+            return { ...message, ...event.message };
+        case SocketEventType.ADD_REACTION:
+            return addReaction(message, event.reaction);
+        case SocketEventType.REMOVE_REACTION:
+            return removeReaction(message, event.reaction.emoji, event.reaction.userId);
+        case SocketEventType.THREAD_UPDATE:
+            return { ...message, threadSummary: event.threadSummary };
+    }
+};
+
+/**
+ * Group the reactions of a message by emoji, in the order they were first used.
+ *
+ * @param reactions - The reactions of the message
+ * @param userId - The signed-in user ID
+ * @returns One summary per emoji
+ */
+export const summarizeReactions = (reactions: MessageReaction[] = [], userId?: ResId): ReactionSummary[] => {
+    const summaries = new Map<string, ReactionSummary>();
+
+    reactions.forEach(reaction => {
+        const summary = summaries.get(reaction.emoji) ?? { emoji: reaction.emoji, count: 0, reactedByMe: false };
+        summary.count++;
+        summary.reactedByMe ||= userId !== undefined && isSameId(reaction.userId, userId);
+        summaries.set(reaction.emoji, summary);
+    });
+
+    return Array.from(summaries.values());
+};
+
+/**
+ * Snapshot of a message for a reply to quote.
+ *
+ * @param message - The message replied to
+ * @returns The quoted message
+ */
+export const toQuotedMessage = (message: MessageResponse): QuotedMessage => ({
+    id: message.id,
+    senderId: message.senderId,
+    senderName: message.senderName,
+    text: message.text
+});
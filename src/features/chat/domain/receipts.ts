@@ -0,0 +1,94 @@
+/**
+ * Read Receipts.
+ *
+ * Pure helpers for how far a message got to each of the other members of its
+ * chat: sent, delivered to one of their devices, or read. States only move
+ * forward, so a late or repeated receipt never takes one back. Messages from
+ * servers without receipts fall back to `isSeen`.
+ */
+
+import type { MessageDeliveryState, MessageReceipt, MessageResponse } from "@/features/chat/data/models/chat";
+import type { ResId } from "@/shared/api/models/common";
+
+const STATE_ORDER: readonly MessageDeliveryState[] = ['sent', 'delivered', 'read'];
+
+const isSameId = (a: ResId, b: ResId): boolean => String(a) === String(b);
+
+const rankOf = (state: MessageDeliveryState): number => STATE_ORDER.indexOf(state);
+
+/**
+ * Receipt of a message for one member.
+ *
+ * @param message - The message
+ * @param userId - The member
+ * @returns The receipt, or undefined if the message carries none for the member
+ */
+export const getReceipt = (message: MessageResponse, userId: ResId): MessageReceipt | undefined =>
+    message.receipts?.find(receipt => isSameId(receipt.userId, userId));
+
+/**
+ * How far a message got to one member.
+ *
+ * @param message - The message
+ * @param userId - The member
+ * @returns The delivery state for the member
+ */
+export const getRecipientState = (message: MessageResponse, userId: ResId): MessageDeliveryState =>
+    getReceipt(message, userId)?.state ?? (message.isSeen ? 'read' : 'sent');
+
+/**
+ * How far a message got to all other members: it counts as read once every one of them read it.
+ *
+ * @param message - The message
+ * @returns The state reached by every recipient
+ */
+export const getDeliveryState = (message: MessageResponse): MessageDeliveryState => {
+    if (!message.receipts || message.receipts.length === 0) {
+        return message.isSeen ? 'read' : 'sent';
+    }
+    return message.receipts.reduce<MessageDeliveryState>(
+        (lowest, receipt) => rankOf(receipt.state) < rankOf(lowest) ? receipt.state : lowest,
+        'read'
+    );
+};
+
+/**
+ * Members who read a message, other than the one looking.
+ *
+ * @param message - The message
+ * @param viewerId - The signed-in member
+ * @returns IDs of the members who read it, in receipt order
+ */
+export const getSeenBy = (message: MessageResponse, viewerId: ResId): ResId[] =>
+    (message.receipts ?? [])
+        .filter(receipt => receipt.state === 'read' && !isSameId(receipt.userId, viewerId))
+        .map(receipt => receipt.userId);
+
+/**
+ * Record that a message reached a member or was read by them.
+ *
+ * @param message - The message
+ * @param userId - The member
+ * @param state - The state the message reached
+ * @param date - When it reached it
+ * @returns The updated message, or the same message if it already got that far
+ */
+export const applyReceipt = (
+    message: MessageResponse,
+    userId: ResId,
+    state: MessageDeliveryState,
+    date: string
+): MessageResponse => {
+    // A member has always read their own messages
+    if (isSameId(message.senderId, userId)) return message;
+
+    const current = getReceipt(message, userId);
+    if (current && rankOf(current.state) >= rankOf(state)) return message;
+
+    const receipt: MessageReceipt = { userId, state, updateDate: date };
+    const receipts = current
+        ? (message.receipts ?? []).map(other => other === current ? receipt : other)
+        : [...(message.receipts ?? []), receipt];
+
+    return { ...message, receipts, isSeen: receipts.every(other => other.state === 'read') };
+};
@@ -0,0 +1,70 @@
+/**
+ * Threads.
+ *
+ * Pure helpers for side conversations started from a message. A thread is
+ * named after the ID of the message that started it; its replies carry that
+ * ID as `threadId` and stay out of the main message stream.
+ */
+
+import type { MessageResponse, ThreadResponse, ThreadSummary } from "@/features/chat/data/models/chat";
+import type { ResId } from "@/shared/api/models/common";
+
+const isSameId = (a: ResId, b: ResId): boolean => String(a) === String(b);
+
+/**
+ * Whether a message is a reply inside a thread rather than a message of the chat itself.
+ *
+ * @param message - The message
+ * @returns True if the message belongs to a thread
+ */
+export const isThreadReply = (message: MessageResponse): boolean => message.threadId !== undefined;
+
+/**
+ * Whether a thread was started from a message.
+ *
+ * @param message - The message
+ * @returns True if the message has replies
+ */
+export const hasThread = (message: MessageResponse): boolean => (message.threadSummary?.replyCount ?? 0) > 0;
+
+/**
+ * Count a new reply in the summary of the message that started the thread.
+ *
+ * @param root - The message that started the thread
+ * @param reply - The new reply
+ * @returns The updated message
+ */
+export const addThreadReply = (root: MessageResponse, reply: MessageResponse): MessageResponse => {
+    const summary: ThreadSummary = root.threadSummary ?? { replyCount: 0, participantIds: [] };
+    const participantIds = summary.participantIds.some(id => isSameId(id, reply.senderId))
+        ? summary.participantIds
+        : [...summary.participantIds, reply.senderId];
+
+    return {
+        ...root,
+        threadSummary: {
+            replyCount: summary.replyCount + 1,
+            participantIds,
+            ...(reply.createDate && { lastReplyDate: reply.createDate })
+        }
+    };
+};
+
+/**
+ * Whether a user took part in a thread, by starting it or replying to it.
+ *
+ * @param root - The message that started the thread
+ * @param userId - The user ID
+ * @returns True if the user took part
+ */
+export const isThreadParticipant = (root: MessageResponse, userId: ResId): boolean =>
+    isSameId(root.senderId, userId) || (root.threadSummary?.participantIds ?? []).some(id => isSameId(id, userId));
+
+/**
+ * Number of threads with replies the user has not read.
+ *
+ * @param threads - The threads of the user
+ * @returns The number of unread threads
+ */
+export const countUnreadThreads = (threads: ThreadResponse[]): number =>
+    threads.filter(thread => thread.unreadCount > 0).length;
@@ -0,0 +1,35 @@
+/**
+ * Unread Messages.
+ *
+ * Pure helpers for the messages a member has not seen yet. Only messages
+ * from others count: a member has always seen their own. In group chats
+ * `isSeen` tells whether everyone read a message, so a member's own receipt
+ * decides when there is one.
+ */
+
+import type { MessageResponse } from "@/features/chat/data/models/chat";
+import type { ResId } from "@/shared/api/models/common";
+import { getReceipt } from './receipts';
+
+/**
+ * Whether a member has yet to see a message.
+ *
+ * @param message - The message
+ * @param userId - The member
+ * @returns True if the message is from someone else and unseen
+ */
+export const isUnreadBy = (message: MessageResponse, userId: ResId): boolean => {
+    if (String(message.senderId) === String(userId)) return false;
+    const receipt = getReceipt(message, userId);
+    return receipt ? receipt.state !== 'read' : !message.isSeen;
+};
+
+/**
+ * Find the first message a member has yet to see, where reading should pick up.
+ *
+ * @param messages - The messages of a chat, oldest first
+ * @param userId - The member
+ * @returns The oldest unread message, or undefined if the member is caught up
+ */
+export const findFirstUnreadMessage = (messages: readonly MessageResponse[], userId: ResId): MessageResponse | undefined =>
+    messages.find(message => isUnreadBy(message, userId));
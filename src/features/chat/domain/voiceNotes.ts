@@ -0,0 +1,117 @@
+/**
+ * Voice Notes.
+ *
+ * Limits and helpers for the short clips recorded in a chat. A voice note is
+ * sent as an audio attachment that also carries its length and waveform, so
+ * it can be drawn before the audio loads.
+ */
+
+import type { Attachment, VoiceNote } from "@/features/chat/data/models/chat";
+
+/**
+ * Longest clip that can be recorded; recording stops by itself there.
+ */
+export const MAX_VOICE_NOTE_MS = 2 * 60 * 1000;
+
+/**
+ * Shortest clip that is kept; anything shorter was most likely a slip.
+ */
+export const MIN_VOICE_NOTE_MS = 1000;
+
+/**
+ * Bars in the waveform sent with a clip.
+ */
+export const WAVEFORM_BARS = 48;
+
+/**
+ * Formats to record in, most preferred first. Browsers support different
+ * ones, e.g. Safari only records MP4.
+ */
+export const VOICE_NOTE_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm', 'audio/mp4'] as const;
+
+/**
+ * Playback speeds a voice note cycles through.
+ */
+export const VOICE_NOTE_PLAYBACK_RATES = [1, 1.5, 2] as const;
+
+export const VOICE_RECORDING_UNSUPPORTED_MESSAGE = 'Voice messages cannot be recorded in this browser. You can still attach an audio file.';
+
+/**
+ * Whether this browser can record voice notes.
+ *
+ * @returns True if both the microphone and MediaRecorder are available
+ */
+export const isVoiceRecordingSupported = (): boolean =>
+    typeof MediaRecorder !== 'undefined'
+    && typeof navigator !== 'undefined'
+    && typeof navigator.mediaDevices?.getUserMedia === 'function';
+
+/**
+ * Format to record in, out of the ones this browser supports.
+ *
+ * @returns The MIME type, or an empty string to let the browser choose
+ */
+export const pickVoiceNoteMimeType = (): string => {
+    if (typeof MediaRecorder === 'undefined' || typeof MediaRecorder.isTypeSupported !== 'function') return '';
+    return VOICE_NOTE_MIME_TYPES.find(mimeType => MediaRecorder.isTypeSupported(mimeType)) ?? '';
+};
+
+/**
+ * MIME type of a recording without its codec parameters, as attachments are checked against.
+ *
+ * @param mimeType - The MIME type the clip was recorded in, e.g. "audio/webm;codecs=opus"
+ * @returns The bare MIME type, e.g. "audio/webm"
+ */
+export const toBaseMimeType = (mimeType: string): string => mimeType.split(';')[0]?.trim().toLowerCase() ?? '';
+
+/**
+ * Reduce loudness samples taken while recording to a fixed number of bars,
+ * scaled so the loudest bar is full height.
+ *
+ * @param levels - Loudness samples from 0 to 1, in recording order
+ * @param bars - Number of bars
+ * @returns The peak of each bar, from 0 to 1; empty without samples
+ */
+export const toWaveform = (levels: readonly number[], bars: number = WAVEFORM_BARS): number[] => {
+    if (levels.length === 0) return [];
+
+    const peaks = Array.from({ length: bars }, (_, bar) => {
+        const start = Math.floor((bar * levels.length) / bars);
+        const end = Math.max(start + 1, Math.floor(((bar + 1) * levels.length) / bars));
+        return Math.max(...levels.slice(start, end));
+    });
+    const loudest = Math.max(...peaks);
+    return peaks.map(peak => (loudest > 0 ? Math.round((peak / loudest) * 100) / 100 : 0));
+};
+
+/**
+ * Clip length as minutes and seconds, e.g. "1:05".
+ *
+ * @param durationMs - The length in milliseconds
+ * @returns The formatted length
+ */
+export const formatVoiceNoteDuration = (durationMs: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(durationMs / 1000));
+    return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Playback speed that follows the current one.
+ *
+ * @param rate - The current speed
+ * @returns The next speed, back to normal after the fastest
+ */
+export const getNextPlaybackRate = (rate: number): number => {
+    const index = VOICE_NOTE_PLAYBACK_RATES.findIndex(candidate => candidate === rate);
+    return VOICE_NOTE_PLAYBACK_RATES[(index + 1) % VOICE_NOTE_PLAYBACK_RATES.length] ?? 1;
+};
+
+/**
+ * Whether an attachment is a voice note rather than an uploaded audio file.
+ *
+ * @param attachment - The attachment
+ * @returns True if it carries voice note details
+ */
+export const isVoiceNote = (attachment: Attachment): attachment is Attachment & { voiceNote: VoiceNote } =>
+    attachment.kind === 'audio' && attachment.voiceNote !== undefined;
+
@@ -0,0 +1,115 @@
+import React, { useRef, useState } from 'react';
+import useAttachmentUploads from "@features/chat/application/hooks/useAttachmentUploads";
+import useChatEncryption from "@features/chat/application/hooks/useChatEncryption";
+import { ATTACHMENT_ACCEPT, formatFileSize } from "@features/chat/domain/attachments";
+import { ResId } from '@/shared/api/models/commonNative';
+import { AttachmentTray, PendingAttachmentItem } from '../../styles/attachmentStyles';
+
+/**
+ * Props for the AttachmentComposer component.
+ *
+ * @interface AttachmentComposerProps
+ * @property {ResId} chatId - The chat the files are sent to.
+ * @property {(text: string, attachmentIds: ResId[]) => Promise<void>} onSend - Callback to send a message with the uploaded attachments.
+ */
+interface AttachmentComposerProps {
+    chatId: ResId;
+    onSend: (text: string, attachmentIds: ResId[]) => Promise<void>;
+}
+
+/**
+ * AttachmentComposer component to send files with a message. Picked files are
+ * checked against the attachment limits and upload right away, each with its own
+ * progress bar and a button to cancel it; the message can be sent once they are done.
+ * Nothing is offered in an encrypted chat, where files would be stored as plaintext.
+ *
+ * @param {AttachmentComposerProps} props - The props for the AttachmentComposer component.
+ * @returns {JSX.Element} - The rendered attachment composer.
+ */
+const AttachmentComposer: React.FC<AttachmentComposerProps> = ({ chatId, onSend }) => {
+    const { isEncrypted } = useChatEncryption(String(chatId));
+    const { attachments, error, attachmentIds, isUploading, addFiles, remove, clear, dismissError } = useAttachmentUploads();
+    const [caption, setCaption] = useState('');
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    /**
+     * Uploads the picked files and resets the input, so the same file can be picked again.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} event - The file input change event.
+     */
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        if (event.target.files) addFiles(event.target.files);
+        event.target.value = '';
+    };
+
+    /**
+     * Sends the message with every uploaded attachment, then empties the tray.
+     */
+    const handleSend = async () => {
+        await onSend(caption.trim(), attachmentIds);
+        setCaption('');
+        clear();
+    };
+
+    if (isEncrypted) return null;
+
+    return (
+        <AttachmentTray>
+            {attachments.map((pending) => (
+                <PendingAttachmentItem key={pending.localId} $failed={pending.status === 'error'}>
+                    {pending.previewUrl && <img src={pending.previewUrl} alt="" />}
+                    <span className="attachment-name">{pending.name}</span>
+                    {pending.status === 'error'
+                        ? <span>{pending.error ?? 'upload failed'}</span>
+                        : pending.status === 'success'
+                            ? <span>{formatFileSize(pending.size)}</span>
+                            : <progress max={100} value={pending.progress} aria-label={`Uploading ${pending.name}`} />}
+                    <button
+                        type="button"
+                        aria-label={pending.status === 'uploading' ? `Cancel upload of ${pending.name}` : `Remove ${pending.name}`}
+                        onClick={() => remove(pending.localId)}
+                    >
+                        ✕
+                    </button>
+                </PendingAttachmentItem>
+            ))}
+
+            {error && (
+                <span className="attachment-error" role="alert" onClick={dismissError}>
+                    {error.userMessage}
+                </span>
+            )}
+
+            <div className="attachment-tray-actions">
+                <input
+                    ref={inputRef}
+                    type="file"
+                    multiple
+                    hidden
+                    accept={ATTACHMENT_ACCEPT}
+                    onChange={handleFileChange}
+                />
+                <button type="button" onClick={() => inputRef.current?.click()}>attach files</button>
+                {attachments.length > 0 && (
+                    <>
+                        <input
+                            type="text"
+                            value={caption}
+                            placeholder="add a caption"
+                            onChange={(event) => setCaption(event.target.value)}
+                        />
+                        <button
+                            type="button"
+                            disabled={isUploading || attachmentIds.length === 0}
+                            onClick={handleSend}
+                        >
+                            {isUploading ? 'uploading ...' : 'send'}
+                        </button>
+                    </>
+                )}
+            </div>
+        </AttachmentTray>
+    );
+};
+
+export default AttachmentComposer;
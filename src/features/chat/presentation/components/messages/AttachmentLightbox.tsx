@@ -0,0 +1,79 @@
+import React, { useEffect } from 'react';
+import { Attachment } from "@/features/chat/data/models/chat";
+import { Lightbox } from '../../styles/attachmentStyles';
+
+/**
+ * Props for the AttachmentLightbox component.
+ *
+ * @interface AttachmentLightboxProps
+ * @property {Attachment[]} images - The images to page through.
+ * @property {number} index - The position of the image shown.
+ * @property {(index: number) => void} onNavigate - Callback to show another image.
+ * @property {() => void} onClose - Callback to close the lightbox.
+ */
+interface AttachmentLightboxProps {
+    images: Attachment[];
+    index: number;
+    onNavigate: (index: number) => void;
+    onClose: () => void;
+}
+
+/**
+ * AttachmentLightbox component that shows the images of a message full size,
+ * one at a time. The arrow keys page through them and Escape closes it.
+ *
+ * @param {AttachmentLightboxProps} props - The props for the AttachmentLightbox component.
+ * @returns {JSX.Element | null} - The rendered lightbox, or null without an image to show.
+ */
+const AttachmentLightbox: React.FC<AttachmentLightboxProps> = ({ images, index, onNavigate, onClose }) => {
+    const image = images[index];
+    const hasPrevious = index > 0;
+    const hasNext = index < images.length - 1;
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onClose();
+            if (event.key === 'ArrowLeft' && hasPrevious) onNavigate(index - 1);
+            if (event.key === 'ArrowRight' && hasNext) onNavigate(index + 1);
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [index, hasPrevious, hasNext, onNavigate, onClose]);
+
+    if (!image) return null;
+
+    return (
+        <Lightbox role="dialog" aria-modal="true" aria-label={image.name} onClick={onClose}>
+            <img src={image.url} alt={image.name} onClick={(event) => event.stopPropagation()} />
+
+            <button type="button" className="lightbox-close" aria-label="Close" onClick={onClose}>✕</button>
+            {hasPrevious && (
+                <button
+                    type="button"
+                    className="lightbox-previous"
+                    aria-label="Previous image"
+                    onClick={(event) => { event.stopPropagation(); onNavigate(index - 1); }}
+                >
+                    ‹
+                </button>
+            )}
+            {hasNext && (
+                <button
+                    type="button"
+                    className="lightbox-next"
+                    aria-label="Next image"
+                    onClick={(event) => { event.stopPropagation(); onNavigate(index + 1); }}
+                >
+                    ›
+                </button>
+            )}
+
+            <span className="lightbox-caption">
+                {image.name}{images.length > 1 && ` · ${index + 1} of ${images.length}`}
+            </span>
+        </Lightbox>
+    );
+};
+
+export default AttachmentLightbox;
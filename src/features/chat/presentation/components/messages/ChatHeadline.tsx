@@ -5,33 +5,55 @@ import { ConsumerFn } from "@/shared/types/genericTypes";
 import { FlexContainer } from "../../../../../shared/ui/components";
 import { Title } from "../../../../../shared/ui/components";
 import ChatMenu from "./ChatMenu";
+import useChatEncryption from "@features/chat/application/hooks/useChatEncryption";
+import { ENCRYPTED_CHAT_ATTACHMENTS_MESSAGE } from "@features/chat/domain/encryption";
+import { EncryptionIndicator } from "../../styles/encryptionStyles";
+import { PiLockSimpleFill } from "react-icons/pi";
 
 /**
  * Props for the ChatHeadline component.
  *
  * @interface ChatHeadlineProps
+ * @property {ResId} chatId - The ID of the chat.
  * @property {ResId} userId - The ID of the user whose avatar will be displayed.
  * @property {string} recipientName - The name of the chat recipient.
+ * @property {ResId[]} memberIds - IDs of the chat's members.
  * @property {ConsumerFn} handleDeleteChat - Function to handle chat deletion.
  */
 interface ChatHeadlineProps {
+    chatId: ResId;
     userId: ResId;
     recipientName: string;
+    memberIds: ResId[];
     handleDeleteChat: ConsumerFn;
 }
 
 /**
- * ChatHeadline component displays the chat header with the recipient's avatar and name.
+ * ChatHeadline component displays the chat header with the recipient's avatar and name,
+ * and a lock when the text of the chat is end-to-end encrypted.
  *
  * @param {ChatHeadlineProps} props - The props for the ChatHeadline component.
  * @returns {JSX.Element} - The rendered chat headline component.
  */
-const ChatHeadline: React.FC<ChatHeadlineProps> = ({ userId, recipientName, handleDeleteChat }) => {
+const ChatHeadline: React.FC<ChatHeadlineProps> = ({ chatId, userId, recipientName, memberIds, handleDeleteChat }) => {
+    const encryption = useChatEncryption(String(chatId));
+
     return (
         <ChatHeadlineStyles>
             <UserAvatarPhoto userId={userId} />
             <Title variant="h5" className="title">{recipientName}</Title>
-            <ChatMenu handleDeleteChat={handleDeleteChat} isMutable={true} />
+            {encryption.isEncrypted && (
+                <EncryptionIndicator title={`Message text in this chat is end-to-end encrypted; only you and the recipient can read it. ${ENCRYPTED_CHAT_ATTACHMENTS_MESSAGE}.`}>
+                    <PiLockSimpleFill aria-hidden="true" />
+                    end-to-end encrypted
+                </EncryptionIndicator>
+            )}
+            <ChatMenu
+                handleDeleteChat={handleDeleteChat}
+                memberIds={memberIds}
+                recipientName={recipientName}
+                encryption={encryption}
+            />
         </ChatHeadlineStyles>
     );
 }
@@ -1,28 +1,51 @@
+import { useState } from "react";
+import { ResId } from "@/shared/api/models/commonNative";
+import { PERMISSIONS } from "@/features/auth/domain/permissions";
+import { ChatResource } from "@/features/auth/domain/policies";
+import { Can } from "@features/auth/presentation/components/guards/Can";
 import { ProcedureFn } from "@/shared/types/genericTypes";
 import Clickable from "@shared/Clickable";
-import Conditional from "@shared/Conditional";
 import ListMenu from "@shared/ListMenu";
 import { PiDotsThreeVertical } from "react-icons/pi";
+import type { ChatEncryption } from "@features/chat/application/hooks/useChatEncryption";
+import SafetyNumberDialog from "./SafetyNumberDialog";
 
 /**
  * Props for the ChatMenu component.
  *
  * @interface ChatMenuProps
- * @property {boolean} isMutable - Indicates if the chat menu can be modified.
+ * @property {ResId[]} memberIds - IDs of the chat's members; only they may manage the chat.
+ * @property {string} recipientName - The name of the other member, to compare safety numbers with.
+ * @property {ChatEncryption} encryption - The end-to-end encryption of the chat.
  * @property {ProcedureFn} handleDeleteChat - Function to handle chat deletion.
  */
 interface ChatMenuProps {
-    isMutable: boolean;
+    memberIds: ResId[];
+    recipientName: string;
+    encryption: ChatEncryption;
     handleDeleteChat: ProcedureFn;
 }
 
 /**
- * ChatMenu component that provides options for managing a chat.
+ * ChatMenu component that provides options for managing a chat. A one-to-one
+ * chat can be end-to-end encrypted from here, after which the menu opens its safety number.
  *
  * @param {ChatMenuProps} props - The props for the ChatMenu component.
  * @returns {JSX.Element} - The rendered chat menu component.
  */
-const ChatMenu: React.FC<ChatMenuProps> = ({ isMutable, handleDeleteChat }) => {
+const ChatMenu: React.FC<ChatMenuProps> = ({ memberIds, recipientName, encryption, handleDeleteChat }) => {
+
+    const chat: ChatResource = { type: "chat", memberIds };
+    const [isSafetyNumberOpen, setIsSafetyNumberOpen] = useState(false);
+
+    const handleChatEncrypt = () => {
+        encryption.enableEncryption.mutate(undefined);
+    }
+
+    const handleShowSafetyNumber = () => {
+        encryption.refreshSafetyNumber();
+        setIsSafetyNumberOpen(true);
+    }
 
     const handleChatMute = () => {
         // TODO: handle chat mute
@@ -42,14 +65,36 @@ const ChatMenu: React.FC<ChatMenuProps> = ({ isMutable, handleDeleteChat }) => {
     }
 
     return (
-        <ListMenu menuIcon={<PiDotsThreeVertical />} >
-            <Conditional isEnabled={isMutable}>
-                <Clickable handleClick={handleChatMute} alt="mute chat" text="mute" />
-                <Clickable handleClick={handleChatRemove} alt="remove chat" text="remove" />
-                <Clickable handleClick={handleChatBlock} alt="block chat" text="block" />
-                <Clickable handleClick={handleChatReport} alt="report chat" text="report" />
-            </Conditional>
-        </ListMenu>
+        <>
+            <ListMenu menuIcon={<PiDotsThreeVertical />} >
+                <Can action={PERMISSIONS.READ_MESSAGES} resource={chat}>
+                    <Clickable handleClick={handleChatMute} alt="mute chat" text="mute" />
+                    {encryption.canEncrypt && (
+                        <Clickable handleClick={handleChatEncrypt} alt="encrypt chat end-to-end" text="encrypt" />
+                    )}
+                    {encryption.isEncrypted && (
+                        <Clickable handleClick={handleShowSafetyNumber} alt="verify safety number" text="safety number" />
+                    )}
+                </Can>
+                <Can action={PERMISSIONS.DELETE_MESSAGES} resource={chat}>
+                    <Clickable handleClick={handleChatRemove} alt="remove chat" text="remove" />
+                </Can>
+                <Can action={PERMISSIONS.READ_MESSAGES} resource={chat}>
+                    <Clickable handleClick={handleChatBlock} alt="block chat" text="block" />
+                    <Clickable handleClick={handleChatReport} alt="report chat" text="report" />
+                </Can>
+            </ListMenu>
+
+            {isSafetyNumberOpen && (
+                <SafetyNumberDialog
+                    recipientName={recipientName}
+                    safetyNumber={encryption.safetyNumber}
+                    isLoading={encryption.isSafetyNumberLoading}
+                    error={encryption.safetyNumberError}
+                    onClose={() => setIsSafetyNumberOpen(false)}
+                />
+            )}
+        </>
     )
 }
 
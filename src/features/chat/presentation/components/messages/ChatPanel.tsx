@@ -2,6 +2,10 @@ import ChatHeadline from "./ChatHeadline";
 import MessageInput from "./MessageInput";
 import MessagesList from "./MessageList";
 import Placeholder from "./Placeholder";
+import ThreadPanel from "../threads/ThreadPanel";
+import AttachmentComposer from "./AttachmentComposer";
+import MessageSearchPanel from "../search/MessageSearchPanel";
+import { SearchHeader, SearchSidePanel } from "../../styles/messageSearchStyles";
 import { ChatBoard } from "../../styles/ChatPanelStyles";
 import ErrorComponent from "@/shared/errors/ErrorComponent";
 import { Text } from "../../../../shared/ui/components";
@@ -15,6 +19,10 @@ import { useParams } from "react-router-dom";
 import useUserQueries from "@/core/network/api/queries/userQueries";
 import { BaseClassComponent, IBaseComponentProps, IBaseComponentState } from "@/shared/components/base/BaseClassComponent";
 import { ReactNode } from "react";
+import { MessageResponse } from "@/features/chat/data/models/chat";
+import { ResId } from "@/shared/api/models/commonNative";
+import type { ChatMessageData } from "@features/chat/adapters/ChatWebSocketTypes";
+import { hasReacted } from "@features/chat/domain/messageUpdates";
 
 /**
  * Props for the ChatPanel component.
@@ -43,6 +51,10 @@ interface IChatPanelState extends IBaseComponentState {
     recipientId: string;
     recipientName: string;
     performanceSummary: any;
+    replyTo: MessageResponse | null;
+    openThreadId: string | null;
+    jumpToMessageId: string | null;
+    showSearch: boolean;
 }
 
 /**
@@ -55,6 +67,8 @@ interface IChatPanelState extends IBaseComponentState {
 class ChatPanel extends BaseClassComponent<IChatPanelProps, IChatPanelState> {
 
     private userQueries: any;
+    private lastThreadParam: string | null = null;
+    private lastMessageParam: string | null = null;
 
     protected override getInitialState(): Partial<IChatPanelState> {
         return {
@@ -73,17 +87,25 @@ class ChatPanel extends BaseClassComponent<IChatPanelProps, IChatPanelState> {
             recipient: null,
             recipientId: '',
             recipientName: '',
-            performanceSummary: null
+            performanceSummary: null,
+            replyTo: null,
+            openThreadId: null,
+            jumpToMessageId: null,
+            showSearch: false
         };
     }
 
     protected override onMount(): void {
         super.onMount();
         this.initializeChat();
+        this.syncThreadFromUrl();
+        this.syncMessageFromUrl();
     }
 
     protected override onUpdate(): void {
         this.updateChatState();
+        this.syncThreadFromUrl();
+        this.syncMessageFromUrl();
     }
 
     /**
@@ -181,18 +203,25 @@ class ChatPanel extends BaseClassComponent<IChatPanelProps, IChatPanelState> {
     /**
      * Handle message sending with analytics
      */
-    private handleSendMessage = async (messageText: string): Promise<void> => {
+    private handleSendMessage = async (
+        messageText: string,
+        attachmentIds: ResId[] = [],
+        type: ChatMessageData['type'] = attachmentIds.length > 0 ? 'file' : 'text'
+    ): Promise<void> => {
         try {
-            const { validatedChatId, chat, recipientId } = this.state;
+            const { validatedChatId, chat, recipientId, replyTo } = this.state;
 
             await chat.sendMessage({
                 chatId: validatedChatId,
                 messageData: {
                     content: messageText,
-                    type: 'text',
-                    timestamp: Date.now()
+                    type,
+                    timestamp: Date.now(),
+                    ...(replyTo && { replyToId: replyTo.id }),
+                    ...(attachmentIds.length > 0 && { attachmentIds })
                 }
             });
+            this.safeSetState({ replyTo: null });
 
             // Track analytics event
             chat.recordAnalyticsEvent?.({
@@ -202,6 +231,8 @@ class ChatPanel extends BaseClassComponent<IChatPanelProps, IChatPanelState> {
                 timestamp: Date.now(),
                 metadata: {
                     messageLength: messageText.length,
+                    attachmentCount: attachmentIds.length,
+                    messageType: type,
                     recipientId
                 }
             });
@@ -210,6 +241,123 @@ class ChatPanel extends BaseClassComponent<IChatPanelProps, IChatPanelState> {
         }
     };
 
+    /**
+     * Send a recorded voice note as a message of its own
+     */
+    private handleSendVoiceNote = (attachmentIds: ResId[]): Promise<void> =>
+        this.handleSendMessage('', attachmentIds, 'voice');
+
+    /**
+     * Add a reaction, or take it back if the user already reacted with the emoji
+     */
+    private handleToggleReaction = (message: MessageResponse, emoji: string): void => {
+        const { chat, validatedChatId, user } = this.state;
+        const mutation = hasReacted(message, emoji, user.id) ? chat.removeReaction : chat.addReaction;
+        mutation.mutate({ chatId: validatedChatId, messageId: message.id, emoji });
+    };
+
+    /**
+     * Save the new text of an own message
+     */
+    private handleEditMessage = (message: MessageResponse, text: string): void => {
+        const { chat, validatedChatId } = this.state;
+        chat.editMessage.mutate({ chatId: validatedChatId, messageId: message.id, text });
+    };
+
+    /**
+     * Count a message read once it was on screen; receipts go out in batches
+     */
+    private handleMessageSeen = (message: MessageResponse): void => {
+        this.state.chat?.markMessageSeen?.(message);
+    };
+
+    /**
+     * Quote a message in the next message sent
+     */
+    private handleReply = (message: MessageResponse): void => {
+        this.safeSetState({ replyTo: message });
+    };
+
+    /**
+     * Send the next message without a quote
+     */
+    private handleCancelReply = (): void => {
+        this.safeSetState({ replyTo: null });
+    };
+
+    /**
+     * Open the thread named by the `thread` URL parameter, e.g. when it is picked in the sidebar
+     */
+    private syncThreadFromUrl = (): void => {
+        const threadParam = new URLSearchParams(window.location.search).get('thread');
+        if (threadParam === this.lastThreadParam) return;
+        this.lastThreadParam = threadParam;
+        this.safeSetState({ openThreadId: threadParam });
+    };
+
+    /**
+     * Show a thread next to the chat, keeping it in the URL so it can be shared
+     */
+    private setOpenThread = (threadId: string | null): void => {
+        const url = new URL(window.location.href);
+        if (threadId) {
+            url.searchParams.set('thread', threadId);
+        } else {
+            url.searchParams.delete('thread');
+        }
+        window.history.replaceState(window.history.state, '', url);
+        this.lastThreadParam = threadId;
+        this.safeSetState({ openThreadId: threadId });
+    };
+
+    /**
+     * Scroll to the message named by the `message` URL parameter, e.g. when it is picked in the search of the sidebar
+     */
+    private syncMessageFromUrl = (): void => {
+        const messageParam = new URLSearchParams(window.location.search).get('message');
+        if (messageParam === this.lastMessageParam) return;
+        this.lastMessageParam = messageParam;
+        this.safeSetState({ jumpToMessageId: messageParam });
+    };
+
+    /**
+     * Show a message found by the search of this chat, or the thread it was replied in
+     */
+    private handleSelectSearchResult = (message: MessageResponse): void => {
+        if (message.threadId !== undefined) {
+            this.setOpenThread(String(message.threadId));
+            return;
+        }
+
+        const messageId = String(message.id);
+        const url = new URL(window.location.href);
+        url.searchParams.set('message', messageId);
+        window.history.replaceState(window.history.state, '', url);
+        this.lastMessageParam = messageId;
+        this.safeSetState({ jumpToMessageId: messageId });
+    };
+
+    /**
+     * Toggle the message search next to the chat
+     */
+    private toggleSearch = (): void => {
+        this.safeSetState(prev => ({ showSearch: !prev.showSearch }));
+    };
+
+    /**
+     * Open the thread started from a message
+     */
+    private handleOpenThread = (message: MessageResponse): void => {
+        this.setOpenThread(String(message.id));
+    };
+
+    /**
+     * Close the thread panel
+     */
+    private handleCloseThread = (): void => {
+        this.setOpenThread(null);
+    };
+
     /**
      * Handle chat deletion with analytics
      */
@@ -267,7 +415,7 @@ class ChatPanel extends BaseClassComponent<IChatPanelProps, IChatPanelState> {
      * Render messages or placeholder
      */
     private renderMessages = (): ReactNode => {
-        const { messages, user, recipientName } = this.state;
+        const { messages, user, recipientName, jumpToMessageId, participants } = this.state;
 
         if (!messages?.pages?.length) {
             return <Placeholder Icon={PiChatsCircle} message="there's no messages, start a chat" type="h4" />;
@@ -292,12 +440,19 @@ class ChatPanel extends BaseClassComponent<IChatPanelProps, IChatPanelState> {
                 signedUserId={user.id}
                 fetchNextPage={messages.fetchNextPage}
                 messages={allMessages}
+                onToggleReaction={this.handleToggleReaction}
+                onEditMessage={this.handleEditMessage}
+                onReply={this.handleReply}
+                onOpenThread={this.handleOpenThread}
+                jumpToMessageId={jumpToMessageId}
+                members={participants ?? []}
+                onMessageSeen={this.handleMessageSeen}
             />
         );
     };
 
     protected override renderContent(): ReactNode {
-        const { isLoading, isError, showAnalytics, recipientName, onlineUsers, typingUsers, recipientId, performanceSummary, messages, participants, validatedChatId } = this.state;
+        const { isLoading, isError, showAnalytics, recipientName, onlineUsers, typingUsers, recipientId, performanceSummary, messages, participants, validatedChatId, replyTo, openThreadId, showSearch, user } = this.state;
 
         if (isError) {
             return this.renderError();
@@ -311,101 +466,161 @@ class ChatPanel extends BaseClassComponent<IChatPanelProps, IChatPanelState> {
         const participantIds = participants?.map((p: any) => p.id) || [];
 
         return (
-            <ChatBoard>
-                {/* Chat Header with presence */}
-                <div className="border-b border-gray-200 px-4 py-3 bg-white">
-                    <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-3">
-                            <div>
-                                <h3 className="text-lg font-semibold text-gray-900">{recipientName}</h3>
-                                <div className="flex items-center space-x-2 text-sm text-gray-500">
-                                    <span>{onlineUsers.length} online</span>
-                                    {typingUsers.length > 0 && (
-                                        <span className="text-blue-600">{typingUsers.length} typing</span>
-                                    )}
+            <div className="flex w-full h-full">
+                <ChatBoard>
+                    {/* Chat Header with presence */}
+                    <div className="border-b border-gray-200 px-4 py-3 bg-white">
+                        <div className="flex items-center justify-between">
+                            <div className="flex items-center space-x-3">
+                                <div>
+                                    <ChatHeadline
+                                        chatId={validatedChatId}
+                                        userId={recipientId}
+                                        recipientName={recipientName}
+                                        memberIds={participantIds}
+                                        handleDeleteChat={this.handleDeleteChat}
+                                    />
+                                    <div className="flex items-center space-x-2 text-sm text-gray-500">
+                                        <span>{onlineUsers.length} online</span>
+                                        {typingUsers.length > 0 && (
+                                            <span className="text-blue-600">{typingUsers.length} typing</span>
+                                        )}
+                                    </div>
                                 </div>
+                                {recipientId && (
+                                    <PresenceIndicator
+                                        userId={recipientId}
+                                        showStatus={true}
+                                        showTyping={true}
+                                    />
+                                )}
+                            </div>
+
+                            {/* Performance and Analytics */}
+                            <div className="flex items-center space-x-2">
+                                {performanceSummary && (
+                                    <div className={`text-xs px-2 py-1 rounded ${performanceSummary.overall === 'excellent' ? 'bg-green-100 text-green-700' :
+                                        performanceSummary.overall === 'good' ? 'bg-blue-100 text-blue-700' :
+                                            'bg-yellow-100 text-yellow-700'
+                                        }`}>
+                                        {performanceSummary.overall}
+                                    </div>
+                                )}
+                                <button
+                                    onClick={this.toggleSearch}
+                                    aria-pressed={showSearch}
+                                    className="text-xs px-2 py-1 bg-gray-100 rounded hover:bg-gray-200"
+                                >
+                                    Search
+                                </button>
+                                <button
+                                    onClick={this.toggleAnalytics}
+                                    className="text-xs px-2 py-1 bg-gray-100 rounded hover:bg-gray-200"
+                                >
+                                    {showAnalytics ? 'Hide' : 'Show'} Analytics
+                                </button>
+                                <button
+                                    onClick={this.handleDeleteChat}
+                                    className="text-xs px-2 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+                                >
+                                    Delete Chat
+                                </button>
                             </div>
-                            {recipientId && (
-                                <PresenceIndicator
-                                    userId={recipientId}
-                                    showStatus={true}
-                                    showTyping={true}
-                                />
-                            )}
                         </div>
+                    </div>
 
-                        {/* Performance and Analytics */}
-                        <div className="flex items-center space-x-2">
-                            {performanceSummary && (
-                                <div className={`text-xs px-2 py-1 rounded ${performanceSummary.overall === 'excellent' ? 'bg-green-100 text-green-700' :
-                                    performanceSummary.overall === 'good' ? 'bg-blue-100 text-blue-700' :
-                                        'bg-yellow-100 text-yellow-700'
-                                    }`}>
-                                    {performanceSummary.overall}
+                    {/* Analytics Panel */}
+                    {showAnalytics && this.state.chat?.getMetrics && (
+                        <div className="border-b border-gray-200 px-4 py-3 bg-gray-50">
+                            <h4 className="text-sm font-medium text-gray-900 mb-2">Chat Analytics</h4>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+                                <div className="bg-white p-2 rounded">
+                                    <div className="font-medium">Messages</div>
+                                    <div className="text-gray-600">{messageCount}</div>
+                                </div>
+                                <div className="bg-white p-2 rounded">
+                                    <div className="font-medium">Participants</div>
+                                    <div className="text-gray-600">{participants?.length || 0}</div>
+                                </div>
+                                <div className="bg-white p-2 rounded">
+                                    <div className="font-medium">Online</div>
+                                    <div className="text-gray-600">{onlineUsers.length}</div>
+                                </div>
+                                <div className="bg-white p-2 rounded">
+                                    <div className="font-medium">Typing</div>
+                                    <div className="text-gray-600">{typingUsers.length}</div>
                                 </div>
-                            )}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Messages */}
+                    {this.renderMessages()}
+
+                    {/* Typing Indicator */}
+                    <TypingIndicator
+                        chatId={validatedChatId}
+                        participantIds={participantIds}
+                    />
+
+                    {/* Presence Bar */}
+                    <ChatPresenceBar
+                        chatId={validatedChatId}
+                        participantIds={participantIds}
+                    />
+
+                    {/* Message being replied to */}
+                    {replyTo && (
+                        <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-t border-gray-200 text-sm">
+                            <span className="truncate text-gray-600">
+                                replying to <strong>{replyTo.senderName}</strong>: {replyTo.text}
+                            </span>
                             <button
-                                onClick={this.toggleAnalytics}
+                                onClick={this.handleCancelReply}
                                 className="text-xs px-2 py-1 bg-gray-100 rounded hover:bg-gray-200"
                             >
-                                {showAnalytics ? 'Hide' : 'Show'} Analytics
-                            </button>
-                            <button
-                                onClick={this.handleDeleteChat}
-                                className="text-xs px-2 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
-                            >
-                                Delete Chat
+                                Cancel
                             </button>
                         </div>
-                    </div>
-                </div>
-
-                {/* Analytics Panel */}
-                {showAnalytics && this.state.chat?.getMetrics && (
-                    <div className="border-b border-gray-200 px-4 py-3 bg-gray-50">
-                        <h4 className="text-sm font-medium text-gray-900 mb-2">Chat Analytics</h4>
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
-                            <div className="bg-white p-2 rounded">
-                                <div className="font-medium">Messages</div>
-                                <div className="text-gray-600">{messageCount}</div>
-                            </div>
-                            <div className="bg-white p-2 rounded">
-                                <div className="font-medium">Participants</div>
-                                <div className="text-gray-600">{participants?.length || 0}</div>
-                            </div>
-                            <div className="bg-white p-2 rounded">
-                                <div className="font-medium">Online</div>
-                                <div className="text-gray-600">{onlineUsers.length}</div>
-                            </div>
-                            <div className="bg-white p-2 rounded">
-                                <div className="font-medium">Typing</div>
-                                <div className="text-gray-600">{typingUsers.length}</div>
-                            </div>
-                        </div>
-                    </div>
+                    )}
+
+                    {/* Files to send */}
+                    <AttachmentComposer chatId={validatedChatId} onSend={this.handleSendMessage} />
+
+                    {/* Message Input with Typing */}
+                    <MessageInputWithTyping
+                        chatId={validatedChatId}
+                        onSendMessage={this.handleSendMessage}
+                        onSendVoiceNote={this.handleSendVoiceNote}
+                    />
+                </ChatBoard>
+
+                {/* Message search within this chat */}
+                {showSearch && (
+                    <SearchSidePanel aria-label="Search messages">
+                        <SearchHeader>
+                            <span>Search</span>
+                            <button type="button" aria-label="Close search" onClick={this.toggleSearch}>✕</button>
+                        </SearchHeader>
+                        <MessageSearchPanel
+                            chatId={validatedChatId}
+                            senders={participants ?? []}
+                            onSelectResult={this.handleSelectSearchResult}
+                        />
+                    </SearchSidePanel>
                 )}
 
-                {/* Messages */}
-                {this.renderMessages()}
-
-                {/* Typing Indicator */}
-                <TypingIndicator
-                    chatId={validatedChatId}
-                    participantIds={participantIds}
-                />
-
-                {/* Presence Bar */}
-                <ChatPresenceBar
-                    chatId={validatedChatId}
-                    participantIds={participantIds}
-                />
-
-                {/* Message Input with Typing */}
-                <MessageInputWithTyping
-                    chatId={validatedChatId}
-                    onSendMessage={this.handleSendMessage}
-                />
-            </ChatBoard>
+                {/* Thread side panel */}
+                {openThreadId && (
+                    <ThreadPanel
+                        key={openThreadId}
+                        chatId={validatedChatId}
+                        threadId={openThreadId}
+                        signedUserId={user.id}
+                        onClose={this.handleCloseThread}
+                    />
+                )}
+            </div>
         );
     }
 }
@@ -6,10 +6,11 @@
  * - Presence awareness
  * - Enhanced user experience
  * - Analytics integration
+ * - Voice messages
  */
 
 import styles from "../../styles/messageInputStyles";
-import { ConsumerFn } from "@/shared/types/genericTypes";
+import { ResId } from '@/shared/api/models/commonNative';
 import { Container } from "../../../../../shared/ui/components";
 import EmojiInput from "@shared/EmojiInput";
 import FormStyled from "@shared/FormStyled";
@@ -18,29 +19,32 @@ import { useParams } from "react-router-dom";
 import { useTypingIndicator } from "@features/chat/application/hooks/useChatPresence";
 import { PresenceIndicator } from "@features/chat/components/ChatPresenceComponents";
 import useUserQueries from "@/core/network/api/queries/userQueries";
+import VoiceNoteRecorder from "./VoiceNoteRecorder";
 
 /**
  * Props for the Enhanced MessageInput component.
  *
  * @interface EnhancedMessageInputProps
  * @property {string} value - The current value of the input.
- * @property {ConsumerFn} onChange - Callback function to handle input changes.
- * @property {ConsumerFn} onEnter - Callback function to handle the Enter key press.
+ * @property {Function} onChange - Callback function to handle input changes.
+ * @property {Function} onEnter - Callback function to handle the Enter key press.
  * @property {string} placeholder - Placeholder text for the input.
  * @property {boolean} enabled - Indicates if the input is enabled.
  * @property {string} chatId - The ID of the current chat.
  * @property {Function} onTypingStart - Callback when user starts typing.
  * @property {Function} onTypingStop - Callback when user stops typing.
+ * @property {Function} [onSendVoiceNote] - Callback to send a recorded voice note; recording is offered only with it.
  */
 interface EnhancedMessageInputProps {
     value: string;
-    onChange: ConsumerFn;
-    onEnter: ConsumerFn;
+    onChange: (value: string) => void;
+    onEnter: (value: string) => void;
     placeholder: string;
     enabled: boolean;
     chatId: string;
     onTypingStart?: () => void;
     onTypingStop?: () => void;
+    onSendVoiceNote?: (attachmentIds: ResId[]) => Promise<void>;
 }
 
 /**
@@ -57,7 +61,8 @@ const EnhancedMessageInput: React.FC<EnhancedMessageInputProps> = ({
     enabled,
     chatId,
     onTypingStart,
-    onTypingStop
+    onTypingStop,
+    onSendVoiceNote
 }) => {
     const classes = styles();
     const messageInput = useRef("");
@@ -164,6 +169,9 @@ const EnhancedMessageInput: React.FC<EnhancedMessageInputProps> = ({
                 </div>
             </div>
 
+            {/* Voice message */}
+            {onSendVoiceNote && <VoiceNoteRecorder chatId={chatId} onSend={onSendVoiceNote} />}
+
             {/* Main input */}
             <FormStyled className={classes.inputForm}>
                 <EmojiInput
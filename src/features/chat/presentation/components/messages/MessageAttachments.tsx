@@ -0,0 +1,68 @@
+import React from 'react';
+import { Attachment } from "@/features/chat/data/models/chat";
+import { formatFileSize } from "@features/chat/domain/attachments";
+import { isVoiceNote } from "@features/chat/domain/voiceNotes";
+import VoiceNotePlayer from './VoiceNotePlayer';
+import { AttachmentAudio, AttachmentFile, AttachmentGrid } from '../../styles/attachmentStyles';
+
+/**
+ * Props for the MessageAttachments component.
+ *
+ * @interface MessageAttachmentsProps
+ * @property {Attachment[]} attachments - The attachments of a message.
+ * @property {(index: number) => void} [onOpenImage] - Optional callback to show an image, by its position among the images, in the lightbox.
+ */
+interface MessageAttachmentsProps {
+    attachments: Attachment[];
+    onOpenImage?: (index: number) => void;
+}
+
+/**
+ * MessageAttachments component that shows the files sent with a message: images
+ * as a grid of thumbnails, voice notes over their waveform, other audio clips as
+ * players and other files as download links.
+ *
+ * @param {MessageAttachmentsProps} props - The props for the MessageAttachments component.
+ * @returns {JSX.Element} - The rendered attachments.
+ */
+const MessageAttachments: React.FC<MessageAttachmentsProps> = ({ attachments, onOpenImage }) => {
+    const images = attachments.filter(attachment => attachment.kind === 'image');
+    const others = attachments.filter(attachment => attachment.kind !== 'image');
+
+    return (
+        <>
+            {images.length > 0 && (
+                <AttachmentGrid $count={images.length}>
+                    {images.map((image, index) => (
+                        <button
+                            key={image.id}
+                            type="button"
+                            aria-label={`Open ${image.name}`}
+                            onClick={() => onOpenImage?.(index)}
+                        >
+                            <img src={image.thumbnailUrl ?? image.url} alt={image.name} loading="lazy" />
+                        </button>
+                    ))}
+                </AttachmentGrid>
+            )}
+
+            {others.map((attachment) => isVoiceNote(attachment) ? (
+                <VoiceNotePlayer
+                    key={attachment.id}
+                    src={attachment.url}
+                    durationMs={attachment.voiceNote.durationMs}
+                    waveform={attachment.voiceNote.waveform}
+                />
+            ) : attachment.kind === 'audio' ? (
+                <AttachmentAudio key={attachment.id} controls preload="none" src={attachment.url} aria-label={attachment.name} />
+            ) : (
+                <AttachmentFile key={attachment.id} href={attachment.url} download={attachment.name} target="_blank" rel="noreferrer">
+                    <span className="attachment-name">{attachment.name}</span>
+                    <span className="attachment-size">{formatFileSize(attachment.size)}</span>
+                </AttachmentFile>
+            ))}
+        </>
+    );
+};
+
+export default MessageAttachments;
@@ -1,10 +1,17 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { MessageResponse } from "@/features/chat/data/models/chat";
 import useMessage from "@features/chat/application/hooks/useMessage";
+import useMessageEditHistory from "@features/chat/application/hooks/useMessageEditHistory";
+import { QUICK_REACTIONS, summarizeReactions } from "@features/chat/domain/messageUpdates";
+import { hasThread, isThreadReply } from "@features/chat/domain/threads";
+import { isEncryptedMessage } from "@features/chat/domain/encryption";
+import { getDeliveryState } from "@features/chat/domain/receipts";
+import MessageAttachments from './MessageAttachments';
 import { MessageCard } from '../../../../../shared/ui/components/social';
 import type { IMessageCardProps } from '../../../../../shared/ui/components/social';
 import { ResId } from '@/shared/api/models/commonNative';
 import useHoverState from '@shared/hooks/useHoverState';
+import { EditedMarker, EditHistory, MessageActions, Quote, ReactionChip, Reactions, ReceiptList, ThreadPreview } from '../../styles/messageStyles';
 
 /**
  * Props for the MessageBox component.
@@ -12,16 +19,45 @@ import useHoverState from '@shared/hooks/useHoverState';
  * @interface MessageBoxProps
  * @property {MessageResponse} message - The message data to display.
  * @property {React.CSSProperties} [style] - Optional custom styles for the message box.
+ * @property {ResId} [signedUserId] - The ID of the signed-in user, to tell own messages and reactions apart.
  * @property {(messageId: ResId) => void} [onDelete] - Optional callback function to handle message deletion.
+ * @property {(message: MessageResponse, emoji: string) => void} [onToggleReaction] - Optional callback to add or take back a reaction.
+ * @property {(message: MessageResponse, text: string) => void} [onEdit] - Optional callback to save an edited text.
+ * @property {(message: MessageResponse) => void} [onReply] - Optional callback to start a reply quoting the message.
+ * @property {(message: MessageResponse) => void} [onOpenThread] - Optional callback to open the thread started from the message.
+ * @property {(message: MessageResponse, index: number) => void} [onOpenImage] - Optional callback to show an image of the message in the lightbox.
+ * @property {(messageId: ResId) => void} [onJumpToMessage] - Optional callback to bring the quoted message into view, for lists that do not render every message.
+ * @property {(userId: ResId) => string | undefined} [getMemberName] - Optional lookup of member names, to list who an own message reached.
  */
 interface MessageBoxProps {
     message: MessageResponse;
     style?: React.CSSProperties;
+    signedUserId?: ResId;
     onDelete?: (messageId: ResId) => void;
+    onToggleReaction?: (message: MessageResponse, emoji: string) => void;
+    onEdit?: (message: MessageResponse, text: string) => void;
+    onReply?: (message: MessageResponse) => void;
+    onOpenThread?: (message: MessageResponse) => void;
+    onOpenImage?: (message: MessageResponse, index: number) => void;
+    onJumpToMessage?: (messageId: ResId) => void;
+    getMemberName?: (userId: ResId) => string | undefined;
 }
 
 /**
- * MessageBox component that displays a message and provides options for deletion.
+ * ID of the element rendering a message, used to jump to the message a reply quotes.
+ *
+ * @param {ResId} messageId - The message ID.
+ * @returns {string} - The element ID.
+ */
+export const getMessageElementId = (messageId: ResId): string => `message-${messageId}`;
+
+/**
+ * MessageBox component that displays a message and provides options for deletion,
+ * reactions, editing and replying. A reply shows the message it quotes, which
+ * scrolls into view when clicked, and an edited message can show its earlier versions.
+ * A message that started a thread shows its reply count, which opens the thread,
+ * and the files sent with a message show below its text. Own messages show
+ * whether they were delivered and read, and in group chats by whom.
  *
  * @param {MessageBoxProps} props - The props for the MessageBox component.
  * @returns {JSX.Element} - The rendered message box component.
@@ -29,14 +65,37 @@ interface MessageBoxProps {
 const MessageBox: React.FC<MessageBoxProps> = ({
     message,
     style,
-    onDelete
+    signedUserId,
+    onDelete,
+    onToggleReaction,
+    onEdit,
+    onReply,
+    onOpenThread,
+    onOpenImage,
+    onJumpToMessage,
+    getMemberName
 }) => {
-    const { user, messageSeenStatus } = useMessage(message);
+    const { user } = useMessage(message);
     const {
         isHovering,
         handleMouseOver,
         handleMouseOut
     } = useHoverState();
+    const [isPickingReaction, setIsPickingReaction] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(message.text);
+    const [isHistoryShown, setIsHistoryShown] = useState(false);
+    const [areReceiptsShown, setAreReceiptsShown] = useState(false);
+    const { edits } = useMessageEditHistory(message, isHistoryShown);
+
+    const isOwn = signedUserId !== undefined
+        ? String(message.senderId) === String(signedUserId)
+        : message.senderId === user?.id;
+    const reactions = summarizeReactions(message.reactions, signedUserId);
+    // Threads do not nest, so replies inside a thread cannot start one
+    const canOpenThread = !!onOpenThread && !isThreadReply(message);
+    // One recipient's state is the message's own, so only group chats list them
+    const canShowReceipts = isOwn && (message.receipts?.length ?? 0) > 1;
 
     const handleDeleteMessage = () => {
         if (onDelete) {
@@ -47,6 +106,50 @@ const MessageBox: React.FC<MessageBoxProps> = ({
         }
     };
 
+    /**
+     * Scrolls the quoted message into view, if it is loaded.
+     */
+    const handleQuoteClick = () => {
+        if (!message.replyTo) return;
+        if (onJumpToMessage) {
+            onJumpToMessage(message.replyTo.id);
+            return;
+        }
+        document.getElementById(getMessageElementId(message.replyTo.id))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    };
+
+    /**
+     * Adds or takes back a reaction and closes the picker.
+     *
+     * @param {string} emoji - The emoji of the reaction.
+     */
+    const handleReaction = (emoji: string) => {
+        setIsPickingReaction(false);
+        onToggleReaction?.(message, emoji);
+    };
+
+    /**
+     * Opens the inline editor with the current text.
+     */
+    const handleStartEdit = () => {
+        setDraft(message.text);
+        setIsEditing(true);
+    };
+
+    /**
+     * Saves the edited text; an empty or unchanged text just closes the editor.
+     *
+     * @param {React.FormEvent} event - The form submission event.
+     */
+    const handleSubmitEdit = (event: React.FormEvent) => {
+        event.preventDefault();
+        const text = draft.trim();
+        if (text && text !== message.text) {
+            onEdit?.(message, text);
+        }
+        setIsEditing(false);
+    };
+
     // Convert message data to MessageCard props
     const messageCardProps: IMessageCardProps = {
         message: message.text,
@@ -56,9 +159,9 @@ const MessageBox: React.FC<MessageBoxProps> = ({
             name: 'Unknown User',
         },
         timestamp: new Date(message.createDate || Date.now()).toLocaleString(),
-        isOwn: message.senderId === user?.id,
-        status: messageSeenStatus?.isSeen ? 'read' : 'sent',
-        showDelete: message.senderId === user?.id && isHovering,
+        isOwn,
+        status: getDeliveryState(message),
+        showDelete: isOwn && isHovering,
         onDelete: handleDeleteMessage,
         onClick: () => {
             console.log(`Message clicked: ${message.id}`);
@@ -67,11 +170,114 @@ const MessageBox: React.FC<MessageBoxProps> = ({
 
     return (
         <div
+            id={getMessageElementId(message.id)}
             onMouseOver={handleMouseOver}
             onMouseOut={handleMouseOut}
             style={style}
         >
-            <MessageCard {...messageCardProps} />
+            {message.replyTo && (
+                <Quote type="button" onClick={handleQuoteClick}>
+                    <strong>{message.replyTo.senderName}</strong>
+                    {message.replyTo.text}
+                </Quote>
+            )}
+
+            {isEditing ? (
+                <form onSubmit={handleSubmitEdit}>
+                    <input
+                        autoFocus
+                        value={draft}
+                        onChange={(event) => setDraft(event.target.value)}
+                        onKeyDown={(event) => event.key === 'Escape' && setIsEditing(false)}
+                    />
+                    <button type="submit">save</button>
+                    <button type="button" onClick={() => setIsEditing(false)}>cancel</button>
+                </form>
+            ) : (
+                <MessageCard {...messageCardProps} />
+            )}
+
+            {message.attachments && message.attachments.length > 0 && (
+                <MessageAttachments
+                    attachments={message.attachments}
+                    {...(onOpenImage && { onOpenImage: (index: number) => onOpenImage(message, index) })}
+                />
+            )}
+
+            {message.isEdited && (
+                <EditedMarker type="button" onClick={() => setIsHistoryShown(!isHistoryShown)}>
+                    edited
+                </EditedMarker>
+            )}
+            {isHistoryShown && edits.length > 0 && (
+                <EditHistory>
+                    {edits.map((edit) => (
+                        <li key={edit.editDate}>
+                            <time dateTime={edit.editDate}>{new Date(edit.editDate).toLocaleString()}</time>
+                            {edit.text}
+                        </li>
+                    ))}
+                </EditHistory>
+            )}
+
+            {reactions.length > 0 && (
+                <Reactions>
+                    {reactions.map(({ emoji, count, reactedByMe }) => (
+                        <ReactionChip
+                            key={emoji}
+                            type="button"
+                            $active={reactedByMe}
+                            aria-pressed={reactedByMe}
+                            onClick={() => handleReaction(emoji)}
+                        >
+                            {emoji} {count}
+                        </ReactionChip>
+                    ))}
+                </Reactions>
+            )}
+
+            {canShowReceipts && areReceiptsShown && (
+                <ReceiptList aria-label="Delivery">
+                    {message.receipts?.map((receipt) => (
+                        <li key={receipt.userId}>
+                            <span>{getMemberName?.(receipt.userId) ?? receipt.userId}</span>
+                            <span className={`receipt-${receipt.state}`}>{receipt.state}</span>
+                        </li>
+                    ))}
+                </ReceiptList>
+            )}
+
+            {canOpenThread && hasThread(message) && message.threadSummary && (
+                <ThreadPreview type="button" onClick={() => onOpenThread?.(message)}>
+                    <strong>
+                        {message.threadSummary.replyCount} {message.threadSummary.replyCount === 1 ? 'reply' : 'replies'}
+                    </strong>
+                    {message.threadSummary.lastReplyDate && (
+                        <time dateTime={message.threadSummary.lastReplyDate}>
+                            last reply {new Date(message.threadSummary.lastReplyDate).toLocaleString()}
+                        </time>
+                    )}
+                </ThreadPreview>
+            )}
+
+            {isHovering && !isEditing && (
+                <MessageActions>
+                    {isPickingReaction
+                        ? QUICK_REACTIONS.map((emoji) => (
+                            <button key={emoji} type="button" onClick={() => handleReaction(emoji)}>{emoji}</button>
+                        ))
+                        : onToggleReaction && <button type="button" onClick={() => setIsPickingReaction(true)}>react</button>}
+                    {onReply && <button type="button" onClick={() => onReply(message)}>reply</button>}
+                    {canOpenThread && <button type="button" onClick={() => onOpenThread?.(message)}>reply in thread</button>}
+                    {/* Encrypted messages cannot be edited, as an edit would reach the server as plaintext */}
+                    {isOwn && onEdit && !isEncryptedMessage(message) && <button type="button" onClick={handleStartEdit}>edit</button>}
+                    {canShowReceipts && (
+                        <button type="button" aria-pressed={areReceiptsShown} onClick={() => setAreReceiptsShown(!areReceiptsShown)}>
+                            seen by
+                        </button>
+                    )}
+                </MessageActions>
+            )}
         </div>
     );
 };
@@ -83,7 +289,12 @@ const MessageBox: React.FC<MessageBoxProps> = ({
 const MemoizedMessageBox = React.memo(MessageBox, (prevProps, nextProps) =>
     prevProps.message.id === nextProps.message.id &&
     prevProps.message.text === nextProps.message.text &&
-    prevProps.message.isSeen === nextProps.message.isSeen
+    prevProps.message.isSeen === nextProps.message.isSeen &&
+    prevProps.message.editDate === nextProps.message.editDate &&
+    prevProps.message.reactions === nextProps.message.reactions &&
+    prevProps.message.threadSummary === nextProps.message.threadSummary &&
+    prevProps.message.attachments === nextProps.message.attachments &&
+    prevProps.message.receipts === nextProps.message.receipts
 );
 
 export { MessageBox, MemoizedMessageBox };
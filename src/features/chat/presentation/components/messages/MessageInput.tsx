@@ -1,5 +1,6 @@
 import { InputSection, InputForm } from "../../styles/MessageInputStyles";
 import { ConsumerFn } from "@/shared/types/genericTypes";
+import { ResId } from '@/shared/api/models/commonNative';
 import EmojiInput from "@shared/EmojiInput";
 import FormStyled from "@shared/FormStyled";
 import { useRef } from "react";
@@ -13,6 +14,7 @@ import { useRef } from "react";
  * @property {ConsumerFn} onEnter - Callback function to handle the Enter key press.
  * @property {string} placeholder - Placeholder text for the input.
  * @property {boolean} enabled - Indicates if the input is enabled.
+ * @property {Function} [onSendVoiceNote] - Callback to send a recorded voice note, offered in chats.
  */
 interface MessageinputProps {
     value: string;
@@ -20,6 +22,7 @@ interface MessageinputProps {
     onEnter: ConsumerFn;
     placeholder: string;
     enabled: boolean;
+    onSendVoiceNote?: (attachmentIds: ResId[]) => Promise<void>;
 }
 
 /**
@@ -29,7 +32,7 @@ interface MessageinputProps {
  * @param {MessageinputProps} props - The props for the MessageInput component.
  * @returns {JSX.Element} - The rendered message input component.
  */
-const MessageInput: React.FC<MessageinputProps> = ({ value, onChange, onEnter, placeholder, enabled }) => {
+const MessageInput: React.FC<MessageinputProps> = ({ value, onChange, onEnter, placeholder, enabled, onSendVoiceNote }) => {
     const { chatId } = useParams();
 
     // If chatId is available, use enhanced version with typing indicators
@@ -45,6 +48,7 @@ const MessageInput: React.FC<MessageinputProps> = ({ value, onChange, onEnter, p
                 chatId={chatId}
                 onTypingStart={() => console.log('User started typing')}
                 onTypingStop={() => console.log('User stopped typing')}
+                {...(onSendVoiceNote && { onSendVoiceNote })}
             />
         );
     }
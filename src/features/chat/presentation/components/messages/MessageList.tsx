@@ -1,27 +1,58 @@
-import { MessageResponse } from "@/features/chat/data/models/chat";
+import { Attachment, MessageResponse } from "@/features/chat/data/models/chat";
 import { ResId } from "@/shared/api/models/commonNative";
 import PostMessageCard from "@/features/feed/presentation/components/post/PostMessageCard";
-import InfinateScrollContainer, { InfinateScrollContainerProps } from "@/shared/ui/components/layout/InfinateScrollContainer/InfinateScrollContainer";
-import { Messages } from "../../styles/MessageListStyles";
+import { VirtualizedList } from "@/shared/ui/components/layout/VirtualizedList";
+import type { VisibleRange } from "@/shared/ui/components/layout/VirtualizedList";
+import { JumpToUnreadButton, Messages, SeenByRow } from "../../styles/messageListStyles";
 import { extractId } from "@/shared/utils/stringUtils";
 import MessageBox from "./MessageBox";
+import SeenOnView from "./SeenOnView";
+import AttachmentLightbox from "./AttachmentLightbox";
+import { getImageAttachments } from "@features/chat/domain/attachments";
+import { findFirstUnreadMessage, isUnreadBy } from "@features/chat/domain/unread";
+import { getSeenBy } from "@features/chat/domain/receipts";
+import { Avatar } from "@/shared/ui/components";
 import { PresenceIndicator } from "@features/chat/components/ChatPresenceComponents";
 import { BaseClassComponent, IBaseComponentProps, IBaseComponentState } from "@/shared/components/base/BaseClassComponent";
-import { ReactNode } from "react";
+import React, { ReactNode } from "react";
 import { useParams } from "react-router-dom";
 import useUserQueries from "@/core/network/api/queries/userQueries";
 
 /**
- * Props for the MessagesList component, extending InfinateScrollContainerProps.
+ * Most avatars shown under the last message before the rest are counted.
+ */
+const MAX_SEEN_BY_AVATARS = 5;
+
+/**
+ * Props for the MessagesList component.
  *
  * @interface IMessageListProps
- * @extends InfinateScrollContainerProps
- * @property {Array<MessageResponse>} messages - The array of message objects to display.
+ * @property {Array<MessageResponse>} messages - The array of message objects to display, newest first.
+ * @property {boolean} hasNextPage - Whether there are older messages to fetch.
+ * @property {boolean} isFetchingNextPage - Whether older messages are being fetched.
+ * @property {() => void} fetchNextPage - Fetches the next page of older messages.
  * @property {ResId} signedUserId - The ID of the signed-in user for styling purposes.
+ * @property {(message: MessageResponse, emoji: string) => void} [onToggleReaction] - Adds or takes back a reaction.
+ * @property {(message: MessageResponse, text: string) => void} [onEditMessage] - Saves an edited message.
+ * @property {(message: MessageResponse) => void} [onReply] - Starts a reply quoting a message.
+ * @property {(message: MessageResponse) => void} [onOpenThread] - Opens the thread started from a message.
+ * @property {ResId | null} [jumpToMessageId] - A message to bring into view, loading older pages until it is found.
+ * @property {Array<{ id: ResId; username: string }>} [members] - The members of the chat, to name who read a message.
+ * @property {(message: MessageResponse) => void} [onMessageSeen] - Called once an unread message was on screen.
  */
-export interface IMessageListProps extends IBaseComponentProps, InfinateScrollContainerProps {
+export interface IMessageListProps extends IBaseComponentProps {
     messages: Array<MessageResponse>;
+    hasNextPage: boolean;
+    isFetchingNextPage: boolean;
+    fetchNextPage: () => void;
     signedUserId: ResId;
+    onToggleReaction?: (message: MessageResponse, emoji: string) => void;
+    onEditMessage?: (message: MessageResponse, text: string) => void;
+    onReply?: (message: MessageResponse) => void;
+    onOpenThread?: (message: MessageResponse) => void;
+    jumpToMessageId?: ResId | null;
+    members?: Array<{ id: ResId; username: string }>;
+    onMessageSeen?: (message: MessageResponse) => void;
 }
 
 /**
@@ -34,6 +65,9 @@ interface IMessageListState extends IBaseComponentState {
     chatId: string;
     onlineInterval: NodeJS.Timeout | null;
     typingInterval: NodeJS.Timeout | null;
+    gallery: { images: Attachment[]; index: number } | null;
+    visibleRange: VisibleRange | null;
+    activeMessageId: ResId | null;
 }
 
 /**
@@ -42,12 +76,22 @@ interface IMessageListState extends IBaseComponentState {
  * This component renders a list of chat messages with real-time presence indicators,
  * typing indicators, and infinite scroll functionality. It simulates real-time updates
  * that would normally come from WebSocket connections.
+ *
+ * Only the messages in view are rendered. Older messages load on top without moving
+ * the messages being read, and the list can jump to the first unread message or to
+ * any message by ID, such as the one a reply quotes. Unread messages count as
+ * read once they were on screen, and the last message shows who has read it.
  * 
  * Converted to class-based component following enterprise patterns.
  */
 class MessagesList extends BaseClassComponent<IMessageListProps, IMessageListState> {
 
     private userQueries: any;
+    private listRef = React.createRef<VirtualizedList<MessageResponse>>();
+    // Messages oldest first, as the list shows them top to bottom
+    private ordered: { source: MessageResponse[]; messages: MessageResponse[] } | null = null;
+    // Message to jump to once the page holding it has loaded
+    private pendingJumpId: ResId | null = null;
 
     protected override getInitialState(): Partial<IMessageListState> {
         return {
@@ -56,7 +100,10 @@ class MessagesList extends BaseClassComponent<IMessageListProps, IMessageListSta
             user: null,
             chatId: '',
             onlineInterval: null,
-            typingInterval: null
+            typingInterval: null,
+            gallery: null,
+            visibleRange: null,
+            activeMessageId: null
         };
     }
 
@@ -74,6 +121,10 @@ class MessagesList extends BaseClassComponent<IMessageListProps, IMessageListSta
 
         // Start real-time simulations
         this.startRealTimeUpdates();
+
+        if (this.props.jumpToMessageId) {
+            this.jumpToMessage(this.props.jumpToMessageId);
+        }
     }
 
     protected override onUnmount(): void {
@@ -87,12 +138,20 @@ class MessagesList extends BaseClassComponent<IMessageListProps, IMessageListSta
         }
     }
 
-    protected override onUpdate(): void {
+    protected override onUpdate(prevProps: IMessageListProps): void {
         // Update user data if needed
         if (this.userQueries) {
             const user = this.userQueries.getSignedUserElseThrow();
             this.safeSetState({ user });
         }
+
+        const { jumpToMessageId, messages, hasNextPage } = this.props;
+        if (jumpToMessageId && jumpToMessageId !== prevProps.jumpToMessageId) {
+            this.jumpToMessage(jumpToMessageId);
+        } else if (this.pendingJumpId !== null && (messages !== prevProps.messages || hasNextPage !== prevProps.hasNextPage)) {
+            // Another page came in, which may hold the message
+            this.jumpToMessage(this.pendingJumpId);
+        }
     }
 
     /**
@@ -133,6 +192,83 @@ class MessagesList extends BaseClassComponent<IMessageListProps, IMessageListSta
         this.safeSetState({ onlineInterval, typingInterval });
     };
 
+    /**
+     * The messages oldest first, reversed only when the messages change
+     */
+    private getOrderedMessages = (): MessageResponse[] => {
+        const { messages } = this.props;
+        if (this.ordered?.source !== messages) {
+            this.ordered = { source: messages, messages: [...messages].reverse() };
+        }
+        return this.ordered.messages;
+    };
+
+    private getMessageKey = (message: MessageResponse): ResId => message.id;
+
+    /**
+     * Bring a message into view and mark it. A message older than the loaded
+     * pages is looked for page by page, until there are no pages left.
+     *
+     * @param {ResId} messageId - The ID of the message.
+     */
+    public jumpToMessage = (messageId: ResId): void => {
+        const { hasNextPage, isFetchingNextPage, fetchNextPage } = this.props;
+        const message = this.props.messages.find(item => String(item.id) === String(messageId));
+
+        if (message && this.listRef.current?.scrollToKey(message.id, 'center')) {
+            this.pendingJumpId = null;
+            this.safeSetState({ activeMessageId: message.id });
+            return;
+        }
+
+        this.pendingJumpId = hasNextPage ? messageId : null;
+        if (hasNextPage && !isFetchingNextPage) {
+            fetchNextPage();
+        }
+    };
+
+    /**
+     * Jump to the oldest message the signed-in user has not seen
+     */
+    private handleJumpToUnread = (): void => {
+        const unread = findFirstUnreadMessage(this.getOrderedMessages(), this.props.signedUserId);
+        if (!unread) return;
+
+        this.listRef.current?.scrollToKey(unread.id, 'start');
+        this.safeSetState({ activeMessageId: unread.id });
+    };
+
+    private handleVisibleRangeChange = (visibleRange: VisibleRange): void => {
+        this.safeSetState({ visibleRange });
+    };
+
+    /**
+     * Whether the oldest unread message is out of view, so the jump button is worth showing
+     */
+    private isUnreadOutOfView = (orderedMessages: MessageResponse[]): boolean => {
+        const { visibleRange } = this.state;
+        const unread = findFirstUnreadMessage(orderedMessages, this.props.signedUserId);
+        if (!unread || !visibleRange) return false;
+
+        const index = orderedMessages.indexOf(unread);
+        return index < visibleRange.start || index >= visibleRange.end;
+    };
+
+    /**
+     * Show the images of a message in the lightbox, starting from one of them
+     */
+    private handleOpenImage = (message: MessageResponse, index: number): void => {
+        this.safeSetState({ gallery: { images: getImageAttachments(message), index } });
+    };
+
+    private handleNavigateGallery = (index: number): void => {
+        this.safeSetState(prev => ({ gallery: prev.gallery && { ...prev.gallery, index } }));
+    };
+
+    private handleCloseGallery = (): void => {
+        this.safeSetState({ gallery: null });
+    };
+
     /**
      * Determines the style to apply based on the sender ID.
      *
@@ -152,10 +288,101 @@ class MessagesList extends BaseClassComponent<IMessageListProps, IMessageListSta
             borderRadius: '1rem 1rem 0rem 1rem'
         };
 
-    protected override renderContent(): ReactNode {
-        const { messages, signedUserId, isFetchingNextPage, hasNextPage, fetchNextPage } = this.props;
+    private getMemberName = (userId: ResId): string | undefined =>
+        this.props.members?.find(member => String(member.id) === String(userId))?.username;
+
+    /**
+     * Renders the avatars of the members who read the last message.
+     *
+     * @param {MessageResponse} message - The last message.
+     * @returns {ReactNode} - The row, or nothing if no one else has read it.
+     */
+    private renderSeenBy = (message: MessageResponse): ReactNode => {
+        const readers = getSeenBy(message, this.props.signedUserId);
+        if (readers.length === 0) return null;
+
+        const names = readers.map(userId => this.getMemberName(userId) ?? String(userId));
+        return (
+            <SeenByRow aria-label={`Seen by ${names.join(', ')}`}>
+                {names.slice(0, MAX_SEEN_BY_AVATARS).map((name, index) => (
+                    <span key={String(readers[index])} title={name}>
+                        <Avatar size="xs" alt={name} />
+                    </span>
+                ))}
+                {names.length > MAX_SEEN_BY_AVATARS && (
+                    <span className="seen-by-more">+{names.length - MAX_SEEN_BY_AVATARS}</span>
+                )}
+            </SeenByRow>
+        );
+    };
+
+    /**
+     * Renders a message with the presence of its sender.
+     *
+     * @param {MessageResponse} message - The message to render.
+     * @returns {ReactNode} - The rendered message.
+     */
+    private renderMessage = (message: MessageResponse): ReactNode => {
+        const { messages, signedUserId, onToggleReaction, onEditMessage, onReply, onOpenThread, onMessageSeen } = this.props;
         const { onlineUsers, typingUsers } = this.state;
 
+        const appliedStyle = this.getAppliedStyle(message.senderId, signedUserId);
+        const isOnline = onlineUsers.has(message.senderId);
+        const isTyping = typingUsers.has(message.senderId);
+
+        return (
+            <SeenOnView
+                className="relative"
+                enabled={!!onMessageSeen && isUnreadBy(message, signedUserId)}
+                onSeen={() => onMessageSeen?.(message)}
+            >
+                {message.text.startsWith("##MP##") ? (
+                    <PostMessageCard style={appliedStyle} postId={extractId(message.text)} />
+                ) : (
+                    <MessageBox
+                        style={appliedStyle}
+                        message={message}
+                        signedUserId={signedUserId}
+                        {...(onToggleReaction && { onToggleReaction })}
+                        {...(onEditMessage && { onEdit: onEditMessage })}
+                        {...(onReply && { onReply })}
+                        {...(onOpenThread && { onOpenThread })}
+                        onOpenImage={this.handleOpenImage}
+                        onJumpToMessage={this.jumpToMessage}
+                        getMemberName={this.getMemberName}
+                    />
+                )}
+
+                {/* Messages are newest first, so the first one is the last in the chat */}
+                {message === messages[0] && this.renderSeenBy(message)}
+
+                {/* Presence indicator for message sender */}
+                {message.senderId !== signedUserId && (
+                    <div className="absolute top-2 right-2">
+                        <PresenceIndicator
+                            userId={message.senderId}
+                            showStatus={true}
+                            showTyping={isTyping}
+                            className="w-2 h-2"
+                        />
+                    </div>
+                )}
+
+                {/* Online status indicator */}
+                {message.senderId !== signedUserId && isOnline && (
+                    <div className="absolute bottom-2 right-2">
+                        <div className="w-2 h-2 bg-green-500 rounded-full border border-white"></div>
+                    </div>
+                )}
+            </SeenOnView>
+        );
+    };
+
+    protected override renderContent(): ReactNode {
+        const { isFetchingNextPage, hasNextPage, fetchNextPage } = this.props;
+        const { onlineUsers, typingUsers, gallery, activeMessageId } = this.state;
+        const orderedMessages = this.getOrderedMessages();
+
         return (
             <Messages>
                 {/* Real-time status bar */}
@@ -201,46 +428,38 @@ class MessagesList extends BaseClassComponent<IMessageListProps, IMessageListSta
                 )}
 
                 {/* Messages */}
-                <InfinateScrollContainer
-                    isFetchingNextPage={isFetchingNextPage}
+                <VirtualizedList
+                    ref={this.listRef}
+                    items={orderedMessages}
+                    getItemKey={this.getMessageKey}
+                    // A new function on every render, so presence changes reach the rendered messages
+                    renderItem={message => this.renderMessage(message)}
+                    estimatedItemHeight={72}
+                    gap={8}
                     hasNextPage={hasNextPage}
+                    isFetchingNextPage={isFetchingNextPage}
                     fetchNextPage={fetchNextPage}
-                >
-                    {messages.map((message, key) => {
-                        const appliedStyle = this.getAppliedStyle(message.senderId, signedUserId);
-                        const isOnline = onlineUsers.has(message.senderId);
-                        const isTyping = typingUsers.has(message.senderId);
-
-                        return (
-                            <div key={key} className="relative">
-                                {message.text.startsWith("##MP##") ? (
-                                    <PostMessageCard style={appliedStyle} postId={extractId(message.text)} />
-                                ) : (
-                                    <MessageBox style={appliedStyle} message={message} />
-                                )}
+                    nextPageEdge="start"
+                    followEnd
+                    activeKey={activeMessageId}
+                    onVisibleRangeChange={this.handleVisibleRangeChange}
+                    ariaLabel="messages"
+                />
 
-                                {/* Presence indicator for message sender */}
-                                {message.senderId !== signedUserId && (
-                                    <div className="absolute top-2 right-2">
-                                        <PresenceIndicator
-                                            userId={message.senderId}
-                                            showStatus={true}
-                                            showTyping={isTyping}
-                                            className="w-2 h-2"
-                                        />
-                                    </div>
-                                )}
+                {this.isUnreadOutOfView(orderedMessages) && (
+                    <JumpToUnreadButton type="button" onClick={this.handleJumpToUnread}>
+                        jump to unread
+                    </JumpToUnreadButton>
+                )}
 
-                                {/* Online status indicator */}
-                                {message.senderId !== signedUserId && isOnline && (
-                                    <div className="absolute bottom-2 right-2">
-                                        <div className="w-2 h-2 bg-green-500 rounded-full border border-white"></div>
-                                    </div>
-                                )}
-                            </div>
-                        );
-                    })}
-                </InfinateScrollContainer>
+                {gallery && (
+                    <AttachmentLightbox
+                        images={gallery.images}
+                        index={gallery.index}
+                        onNavigate={this.handleNavigateGallery}
+                        onClose={this.handleCloseGallery}
+                    />
+                )}
             </Messages>
         );
     }
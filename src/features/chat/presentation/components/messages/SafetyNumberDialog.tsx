@@ -0,0 +1,71 @@
+import React, { useEffect } from 'react';
+import { SafetyNumberCard, SafetyNumberOverlay } from '../../styles/encryptionStyles';
+
+/**
+ * Props for the SafetyNumberDialog component.
+ *
+ * @interface SafetyNumberDialogProps
+ * @property {string} recipientName - The name of the other member of the chat.
+ * @property {string[]} safetyNumber - The safety number, in groups of five digits.
+ * @property {boolean} isLoading - Whether the safety number is being computed.
+ * @property {Error | null} error - Why the safety number could not be computed, if it could not.
+ * @property {() => void} onClose - Callback to close the dialog.
+ */
+interface SafetyNumberDialogProps {
+    recipientName: string;
+    safetyNumber: string[];
+    isLoading: boolean;
+    error: Error | null;
+    onClose: () => void;
+}
+
+/**
+ * SafetyNumberDialog component that shows the safety number of an encrypted
+ * chat. When both members see the same number, nobody is reading along;
+ * Escape or a click outside the card closes it.
+ *
+ * @param {SafetyNumberDialogProps} props - The props for the SafetyNumberDialog component.
+ * @returns {JSX.Element} - The rendered dialog.
+ */
+const SafetyNumberDialog: React.FC<SafetyNumberDialogProps> = ({ recipientName, safetyNumber, isLoading, error, onClose }) => {
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onClose();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    return (
+        <SafetyNumberOverlay onClick={onClose}>
+            <SafetyNumberCard
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="safety-number-title"
+                onClick={(event) => event.stopPropagation()}
+            >
+                <h2 id="safety-number-title">verify safety number</h2>
+                <p>
+                    Compare these numbers with {recipientName}, in person or on a call. If they match,
+                    your messages are only readable on your devices and theirs. The number changes when
+                    either of you adds a device.
+                </p>
+
+                {error ? (
+                    <p className="safety-number-error" role="alert">{error.message}</p>
+                ) : isLoading ? (
+                    <p>computing safety number ...</p>
+                ) : (
+                    <p className="safety-number" aria-label="safety number">
+                        {safetyNumber.map((group, index) => <span key={index}>{group}</span>)}
+                    </p>
+                )}
+
+                <button type="button" onClick={onClose}>close</button>
+            </SafetyNumberCard>
+        </SafetyNumberOverlay>
+    );
+};
+
+export default SafetyNumberDialog;
@@ -0,0 +1,66 @@
+import React, { ReactNode, useEffect, useRef } from 'react';
+
+/**
+ * Share of a message that has to be on screen for it to count as seen.
+ */
+const SEEN_THRESHOLD = 0.6;
+
+/**
+ * Props for the SeenOnView component.
+ *
+ * @interface SeenOnViewProps
+ * @property {boolean} enabled - Whether to watch for the content being seen; off once it was.
+ * @property {() => void} onSeen - Called once the content was on screen while the page was visible.
+ * @property {string} [className] - Optional class of the wrapping element.
+ * @property {ReactNode} children - The content to watch.
+ */
+interface SeenOnViewProps {
+    enabled: boolean;
+    onSeen: () => void;
+    className?: string;
+    children: ReactNode;
+}
+
+/**
+ * SeenOnView component that tells when its content was actually seen: mostly
+ * on screen, in a tab that is not hidden. Content scrolled past in a background
+ * tab counts once the tab is shown again while it is still in view.
+ *
+ * @param {SeenOnViewProps} props - The props for the SeenOnView component.
+ * @returns {JSX.Element} - The wrapped content.
+ */
+const SeenOnView: React.FC<SeenOnViewProps> = ({ enabled, onSeen, className, children }) => {
+    const ref = useRef<HTMLDivElement>(null);
+    // The latest callback, without watching again on every render
+    const onSeenRef = useRef(onSeen);
+    onSeenRef.current = onSeen;
+
+    useEffect(() => {
+        const element = ref.current;
+        if (!enabled || !element || typeof IntersectionObserver === 'undefined') return;
+
+        let isInView = false;
+        let isReported = false;
+        const report = () => {
+            if (isReported || !isInView || document.visibilityState !== 'visible') return;
+            isReported = true;
+            onSeenRef.current();
+        };
+
+        const observer = new IntersectionObserver(([entry]) => {
+            isInView = !!entry?.isIntersecting;
+            report();
+        }, { threshold: SEEN_THRESHOLD });
+        observer.observe(element);
+        document.addEventListener('visibilitychange', report);
+
+        return () => {
+            observer.disconnect();
+            document.removeEventListener('visibilitychange', report);
+        };
+    }, [enabled]);
+
+    return <div ref={ref} className={className}>{children}</div>;
+};
+
+export default SeenOnView;
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatVoiceNoteDuration, getNextPlaybackRate } from "@features/chat/domain/voiceNotes";
+import { VoiceNotePlayerStyled, Waveform } from '../../styles/voiceNoteStyles';
+
+/**
+ * Props for the VoiceNotePlayer component.
+ *
+ * @interface VoiceNotePlayerProps
+ * @property {string} src - URL of the clip.
+ * @property {number} durationMs - Length of the clip, as recorded.
+ * @property {number[]} waveform - Loudness of the clip from 0 to 1, in evenly spaced bars.
+ * @property {string} [label] - Accessible name of the player.
+ */
+interface VoiceNotePlayerProps {
+    src: string;
+    durationMs: number;
+    waveform: number[];
+    label?: string;
+}
+
+/**
+ * VoiceNotePlayer component that plays a voice note over its waveform. The
+ * waveform doubles as the seek bar and the speed button cycles through the
+ * playback rates. The recorded length is used rather than the one the browser
+ * reports, which is unknown for clips recorded as WebM.
+ *
+ * @param {VoiceNotePlayerProps} props - The props for the VoiceNotePlayer component.
+ * @returns {JSX.Element} - The rendered player.
+ */
+const VoiceNotePlayer: React.FC<VoiceNotePlayerProps> = ({ src, durationMs, waveform, label = 'Voice message' }) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [positionMs, setPositionMs] = useState(0);
+    const [playbackRate, setPlaybackRate] = useState(1);
+
+    useEffect(() => {
+        if (audioRef.current) audioRef.current.playbackRate = playbackRate;
+    }, [playbackRate]);
+
+    const togglePlayback = () => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        if (audio.paused) {
+            audio.play().catch(error => console.error('Error playing voice message:', error));
+        } else {
+            audio.pause();
+        }
+    };
+
+    /**
+     * Jump to a point of the clip.
+     *
+     * @param {React.ChangeEvent<HTMLInputElement>} event - The seek bar change event.
+     */
+    const handleSeek = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const nextPositionMs = Number(event.target.value);
+        if (audioRef.current) audioRef.current.currentTime = nextPositionMs / 1000;
+        setPositionMs(nextPositionMs);
+    };
+
+    const progress = durationMs > 0 ? Math.min(1, positionMs / durationMs) : 0;
+
+    return (
+        <VoiceNotePlayerStyled role="group" aria-label={label}>
+            <audio
+                ref={audioRef}
+                src={src}
+                preload="metadata"
+                onPlay={() => setIsPlaying(true)}
+                onPause={() => setIsPlaying(false)}
+                onTimeUpdate={(event) => setPositionMs(event.currentTarget.currentTime * 1000)}
+                onEnded={() => setPositionMs(0)}
+            />
+            <button type="button" aria-label={isPlaying ? 'Pause' : 'Play'} onClick={togglePlayback}>
+                {isPlaying ? '❚❚' : '▶'}
+            </button>
+            <div className="voice-note-track">
+                <Waveform aria-hidden="true">
+                    {waveform.map((level, index) => (
+                        <span
+                            key={index}
+                            className={(index + 0.5) / waveform.length <= progress ? 'played' : undefined}
+                            style={{ height: `${Math.max(8, level * 100)}%` }}
+                        />
+                    ))}
+                </Waveform>
+                <input
+                    type="range"
+                    min={0}
+                    max={durationMs}
+                    step={100}
+                    value={Math.min(positionMs, durationMs)}
+                    aria-label="Seek"
+                    aria-valuetext={formatVoiceNoteDuration(positionMs)}
+                    onChange={handleSeek}
+                />
+            </div>
+            <span className="voice-note-time">
+                {formatVoiceNoteDuration(isPlaying || positionMs > 0 ? positionMs : durationMs)}
+            </span>
+            <button
+                type="button"
+                aria-label={`Playback speed ${playbackRate}×`}
+                onClick={() => setPlaybackRate(getNextPlaybackRate(playbackRate))}
+            >
+                {playbackRate}×
+            </button>
+        </VoiceNotePlayerStyled>
+    );
+};
+
+export default VoiceNotePlayer;
@@ -0,0 +1,80 @@
+import React from 'react';
+import useVoiceNote from "@features/chat/application/hooks/useVoiceNote";
+import useChatEncryption from "@features/chat/application/hooks/useChatEncryption";
+import { MAX_VOICE_NOTE_MS, formatVoiceNoteDuration } from "@features/chat/domain/voiceNotes";
+import { ResId } from '@/shared/api/models/commonNative';
+import VoiceNotePlayer from './VoiceNotePlayer';
+import { VoiceRecorderBar, Waveform } from '../../styles/voiceNoteStyles';
+
+/**
+ * Props for the VoiceNoteRecorder component.
+ *
+ * @interface VoiceNoteRecorderProps
+ * @property {ResId} chatId - The chat the voice note is sent to.
+ * @property {(attachmentIds: ResId[]) => Promise<void>} onSend - Callback to send a message carrying the uploaded voice note.
+ */
+interface VoiceNoteRecorderProps {
+    chatId: ResId;
+    onSend: (attachmentIds: ResId[]) => Promise<void>;
+}
+
+/**
+ * VoiceNoteRecorder component to record a voice note, listen to it and send
+ * it. The input level is drawn while recording, which stops by itself at the
+ * longest clip allowed. Browsers that cannot record get an explanation instead.
+ * Nothing is offered in an encrypted chat, where the recording would be stored as plaintext.
+ *
+ * @param {VoiceNoteRecorderProps} props - The props for the VoiceNoteRecorder component.
+ * @returns {JSX.Element} - The rendered voice note recorder.
+ */
+const VoiceNoteRecorder: React.FC<VoiceNoteRecorderProps> = ({ chatId, onSend }) => {
+    const { isEncrypted } = useChatEncryption(String(chatId));
+    const { status, elapsedMs, levels, recording, error, start, stop, discard, send, dismissError } = useVoiceNote();
+
+    if (isEncrypted) return null;
+
+    return (
+        <VoiceRecorderBar>
+            {status === 'idle' && (
+                <button type="button" aria-label="Record a voice message" onClick={start}>🎤 voice</button>
+            )}
+
+            {status === 'recording' && (
+                <>
+                    <span className="voice-recording-dot" aria-hidden="true" />
+                    <Waveform aria-hidden="true">
+                        {levels.map((level, index) => (
+                            <span key={index} className="played" style={{ height: `${Math.max(8, level * 100)}%` }} />
+                        ))}
+                    </Waveform>
+                    <span className="voice-recording-time" role="timer">
+                        {formatVoiceNoteDuration(elapsedMs)} / {formatVoiceNoteDuration(MAX_VOICE_NOTE_MS)}
+                    </span>
+                    <button type="button" aria-label="Cancel recording" onClick={discard}>✕</button>
+                    <button type="button" onClick={stop}>stop</button>
+                </>
+            )}
+
+            {(status === 'recorded' || status === 'sending') && recording && (
+                <>
+                    <VoiceNotePlayer
+                        src={recording.url}
+                        durationMs={recording.durationMs}
+                        waveform={recording.waveform}
+                        label="Recorded voice message"
+                    />
+                    <button type="button" aria-label="Discard recording" disabled={status === 'sending'} onClick={discard}>✕</button>
+                    <button type="button" disabled={status === 'sending'} onClick={() => send(onSend)}>
+                        {status === 'sending' ? 'sending ...' : 'send'}
+                    </button>
+                </>
+            )}
+
+            {error && (
+                <span className="voice-error" role="alert" onClick={dismissError}>{error}</span>
+            )}
+        </VoiceRecorderBar>
+    );
+};
+
+export default VoiceNoteRecorder;
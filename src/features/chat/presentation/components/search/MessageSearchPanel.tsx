@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { useNavigate } from "react-router-dom";
+import { MessageResponse } from "@/features/chat/data/models/chat";
+import { ResId } from '@/shared/api/models/commonNative';
+import { DateRangePicker } from '@/shared/ui/components/forms/DateRangePicker';
+import type { IDateRange } from '@/shared/ui/components/forms/DateRangePicker';
+import useMessageSearch from "@features/chat/application/hooks/useMessageSearch";
+import {
+    MIN_SEARCH_LENGTH,
+    isSearchQuery,
+    splitSearchSnippet,
+    toSearchDateBounds,
+    type MessageSearchQuery,
+    type MessageSearchResult
+} from '@chat/domain/messageSearch';
+import { SearchFilters, SearchResultCard, SearchResults, SearchStatus } from '../../styles/messageSearchStyles';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A member whose messages the search can be narrowed to.
+ */
+export interface SearchSender {
+    id: ResId;
+    username: string;
+}
+
+/**
+ * Props for the MessageSearchPanel component.
+ *
+ * @interface MessageSearchPanelProps
+ * @property {ResId} [chatId] - Search only this chat; all chats of the user if not given.
+ * @property {SearchSender[]} senders - The members to offer in the sender filter.
+ * @property {(chatId: ResId) => string | undefined} [getChatName] - Name of a chat, shown with results from all chats.
+ * @property {(message: MessageResponse) => void} [onSelectResult] - Called when a result is picked; it opens the chat at the message if not given.
+ */
+interface MessageSearchPanelProps {
+    chatId?: ResId;
+    senders: SearchSender[];
+    getChatName?: (chatId: ResId) => string | undefined;
+    onSelectResult?: (message: MessageResponse) => void;
+}
+
+/**
+ * URL of a chat scrolled to one of its messages, or of the thread a reply belongs to.
+ *
+ * @param {MessageResponse} message - The message.
+ * @returns {string} - The URL.
+ */
+export const getMessageUrl = (message: MessageResponse): string => message.threadId !== undefined
+    ? `/chat/${message.chatId}?thread=${encodeURIComponent(String(message.threadId))}`
+    : `/chat/${message.chatId}?message=${encodeURIComponent(String(message.id))}`;
+
+/**
+ * The last 30 days, as whole days the date picker can show.
+ */
+const getDefaultDateRange = (): IDateRange => {
+    const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+    return { startDate: new Date(today - 29 * DAY_MS), endDate: new Date(today) };
+};
+
+/**
+ * MessageSearchPanel component that searches the text of messages, within a
+ * chat or across all of them, by sender and date. Results show the text around
+ * the match with the searched words highlighted, and open the chat scrolled to
+ * the message. Without a connection the messages loaded on this device are searched.
+ *
+ * @param {MessageSearchPanelProps} props - The props for the MessageSearchPanel component.
+ * @returns {JSX.Element} - The rendered search panel.
+ */
+const MessageSearchPanel: React.FC<MessageSearchPanelProps> = ({ chatId, senders, getChatName, onSelectResult }) => {
+    const navigate = useNavigate();
+    const [text, setText] = useState('');
+    const [senderId, setSenderId] = useState('');
+    const [dateRange, setDateRange] = useState<IDateRange | null>(null);
+
+    const query: MessageSearchQuery = {
+        text,
+        ...(chatId !== undefined && { chatId }),
+        ...(senderId && { senderId }),
+        ...(dateRange && toSearchDateBounds(dateRange))
+    };
+    const { results, isSearching, isOffline, error, hasNextPage, isFetchingNextPage, fetchNextPage } = useMessageSearch(query);
+
+    const handleSelect = (message: MessageResponse) => {
+        if (onSelectResult) {
+            onSelectResult(message);
+        } else {
+            navigate(getMessageUrl(message));
+        }
+    };
+
+    const renderStatus = () => {
+        if (!isSearchQuery(text)) return <SearchStatus>type at least {MIN_SEARCH_LENGTH} characters to search</SearchStatus>;
+        if (isSearching) return <SearchStatus>searching ...</SearchStatus>;
+        if (error) return <SearchStatus role="alert">could not search messages</SearchStatus>;
+        if (results.length === 0) return <SearchStatus>no messages found</SearchStatus>;
+        return null;
+    };
+
+    const renderResult = ({ message, snippet }: MessageSearchResult) => {
+        const chatName = chatId === undefined ? getChatName?.(message.chatId) : undefined;
+
+        return (
+            <li key={message.id}>
+                <SearchResultCard type="button" onClick={() => handleSelect(message)}>
+                    <span className="search-result-meta">
+                        <span>
+                            <strong>{message.senderName}</strong>
+                            {chatName && <> in {chatName}</>}
+                            {message.threadId !== undefined && <> · thread</>}
+                        </span>
+                        {message.createDate && <span>{new Date(message.createDate).toLocaleDateString()}</span>}
+                    </span>
+                    <span className="search-result-text">
+                        {splitSearchSnippet(snippet).map((part, index) => part.isMatch
+                            ? <mark key={index}>{part.text}</mark>
+                            : <React.Fragment key={index}>{part.text}</React.Fragment>)}
+                    </span>
+                </SearchResultCard>
+            </li>
+        );
+    };
+
+    return (
+        <>
+            <SearchFilters role="search">
+                <input
+                    type="search"
+                    value={text}
+                    placeholder={chatId === undefined ? 'search all messages ...' : 'search this chat ...'}
+                    aria-label="Search messages"
+                    maxLength={128}
+                    autoFocus
+                    onChange={(event) => setText(event.target.value)}
+                />
+                <div className="search-filter-row">
+                    <select aria-label="Sender" value={senderId} onChange={(event) => setSenderId(event.target.value)}>
+                        <option value="">from anyone</option>
+                        {senders.map((sender) => (
+                            <option key={sender.id} value={String(sender.id)}>from {sender.username}</option>
+                        ))}
+                    </select>
+                    <button
+                        type="button"
+                        className="search-date-toggle"
+                        aria-expanded={dateRange !== null}
+                        onClick={() => setDateRange(dateRange ? null : getDefaultDateRange())}
+                    >
+                        {dateRange ? 'any date' : 'pick dates'}
+                    </button>
+                </div>
+                {dateRange && (
+                    <DateRangePicker
+                        initialDateRange={dateRange}
+                        maxDate={new Date(Math.floor(Date.now() / DAY_MS) * DAY_MS + DAY_MS)}
+                        startLabel="From"
+                        endLabel="To"
+                        onDateRangeChange={setDateRange}
+                    />
+                )}
+            </SearchFilters>
+
+            {isOffline && <SearchStatus role="status">offline: only messages loaded on this device are searched</SearchStatus>}
+            {renderStatus()}
+
+            <SearchResults aria-label="Search results">
+                {results.map(renderResult)}
+                {hasNextPage && (
+                    <li>
+                        <button
+                            type="button"
+                            className="search-more"
+                            disabled={isFetchingNextPage}
+                            onClick={() => fetchNextPage()}
+                        >
+                            {isFetchingNextPage ? 'loading ...' : 'show more results'}
+                        </button>
+                    </li>
+                )}
+            </SearchResults>
+        </>
+    );
+};
+
+export default MessageSearchPanel;
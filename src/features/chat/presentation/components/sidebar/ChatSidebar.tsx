@@ -6,8 +6,14 @@ import styles from "../../styles/chatSidebarStyles";
 import { GenericWrapper } from "@shared-types/sharedComponentTypes";
 import ChatCard from "./ChatCard";
 import ChatQuery from "./ChatQuery";
+import ThreadList from "../threads/ThreadList";
+import MessageSearchPanel, { SearchSender } from "../search/MessageSearchPanel";
 import { TypingIndicator, PresenceIndicator } from "@features/chat/components/ChatPresenceComponents";
-import React from "react";
+import useThreads from "@features/chat/application/hooks/useThreads";
+import useUserQueries from "@/features/profile/data/userQueries";
+import { ResId } from "@/shared/api/models/commonNative";
+import { SidebarTab, SidebarTabs, UnreadBadge } from "../../styles/threadStyles";
+import React, { useMemo, useState } from "react";
 
 interface ChatSidebarProps extends GenericWrapper {
     chats: Array<ChatResponse>
@@ -23,6 +29,24 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
     chat
 }) => {
     const classes = styles();
+    const [view, setView] = useState<'chats' | 'threads' | 'search'>('chats');
+    const { threads, unreadThreadCount, isLoading: isLoadingThreads } = useThreads();
+    const { getSignedUserElseThrow } = useUserQueries();
+    const signedUserId = getSignedUserElseThrow().id;
+
+    // Everyone the user chats with, for the sender filter of the search
+    const senders = useMemo<SearchSender[]>(() => {
+        const byId = new Map<string, SearchSender>();
+        chats?.forEach(chatItem => chatItem.members?.forEach(member => byId.set(String(member.id), { id: member.id, username: member.username })));
+        return [...byId.values()].sort((a, b) => a.username.localeCompare(b.username));
+    }, [chats]);
+
+    // A chat is named after its other members, as on its card
+    const getChatName = (chatId: ResId): string | undefined => chats
+        ?.find(chatItem => String(chatItem.id) === String(chatId))
+        ?.members.filter(member => member.id !== signedUserId)
+        .map(member => member.username)
+        .join(', ');
 
     // Get participant IDs for typing indicators
     const getParticipantIds = (chatItem: ChatResponse): string[] => {
@@ -79,9 +103,25 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
             {/* Chat Query with real-time features */}
             <ChatQuery chat={chat} />
 
-            {/* Chat List with presence indicators */}
+            {/* Switch between chats and the threads the user took part in */}
+            <SidebarTabs role="tablist">
+                <SidebarTab type="button" role="tab" $active={view === 'chats'} aria-selected={view === 'chats'} onClick={() => setView('chats')}>
+                    Chats
+                </SidebarTab>
+                <SidebarTab type="button" role="tab" $active={view === 'threads'} aria-selected={view === 'threads'} onClick={() => setView('threads')}>
+                    Threads
+                    {unreadThreadCount > 0 && <UnreadBadge>{unreadThreadCount}</UnreadBadge>}
+                </SidebarTab>
+                <SidebarTab type="button" role="tab" $active={view === 'search'} aria-selected={view === 'search'} onClick={() => setView('search')}>
+                    Search
+                </SidebarTab>
+            </SidebarTabs>
+
+            {/* Chat List with presence indicators, the threads, or message search across all chats */}
             <div className="mt-4">
-                <ChatList />
+                {view === 'chats' && <ChatList />}
+                {view === 'threads' && <ThreadList threads={threads} isLoading={isLoadingThreads} />}
+                {view === 'search' && <MessageSearchPanel senders={senders} getChatName={getChatName} />}
             </div>
         </Container>
     )
@@ -0,0 +1,69 @@
+import React from 'react';
+import { useNavigate } from "react-router-dom";
+import Typography from "@/shared/ui/components/typography/Text";
+import { ThreadResponse } from "@/features/chat/data/models/chat";
+import { ThreadCard, UnreadBadge } from '../../styles/threadStyles';
+
+/**
+ * Props for the ThreadList component.
+ *
+ * @interface ThreadListProps
+ * @property {ThreadResponse[]} threads - The threads of the signed-in user, most recently active first.
+ * @property {boolean} isLoading - Whether the threads are still loading.
+ */
+interface ThreadListProps {
+    threads: ThreadResponse[];
+    isLoading: boolean;
+}
+
+/**
+ * URL of a chat with one of its threads open.
+ *
+ * @param {ThreadResponse} thread - The thread.
+ * @returns {string} - The URL.
+ */
+export const getThreadUrl = (thread: ThreadResponse): string =>
+    `/chat/${thread.chatId}?thread=${encodeURIComponent(String(thread.root.id))}`;
+
+/**
+ * ThreadList component for the "Threads" view of the chat sidebar. Each thread
+ * shows the message that started it, its reply count and how many replies are
+ * unread, and opens next to its chat when clicked.
+ *
+ * @param {ThreadListProps} props - The props for the ThreadList component.
+ * @returns {JSX.Element} - The rendered thread list.
+ */
+const ThreadList: React.FC<ThreadListProps> = ({ threads, isLoading }) => {
+    const navigate = useNavigate();
+
+    if (isLoading) return <Typography textAlign="center">loading threads ...</Typography>;
+    if (threads.length === 0) return <Typography textAlign="center">you have no threads yet</Typography>;
+
+    return (
+        <>
+            {threads.map((thread) => {
+                const { root, unreadCount } = thread;
+                const replyCount = root.threadSummary?.replyCount ?? 0;
+
+                return (
+                    <ThreadCard
+                        key={root.id}
+                        type="button"
+                        $unread={unreadCount > 0}
+                        onClick={() => navigate(getThreadUrl(thread))}
+                    >
+                        <span className="thread-card-text">
+                            <strong>{root.senderName}</strong>: {root.text}
+                        </span>
+                        <span className="thread-card-meta">
+                            {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+                            {unreadCount > 0 && <> · <UnreadBadge>{unreadCount}</UnreadBadge> unread</>}
+                        </span>
+                    </ThreadCard>
+                );
+            })}
+        </>
+    );
+};
+
+export default ThreadList;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import useThread from "@features/chat/application/hooks/useThread";
+import { ResId } from '@/shared/api/models/commonNative';
+import MessageBox from '../messages/MessageBox';
+import { ThreadHeader, ThreadPanel as Panel, ThreadReplies, ThreadReplyForm } from '../../styles/threadStyles';
+
+/**
+ * Props for the ThreadPanel component.
+ *
+ * @interface ThreadPanelProps
+ * @property {string} chatId - The chat the thread belongs to.
+ * @property {string} threadId - The ID of the message that started the thread.
+ * @property {ResId} signedUserId - The ID of the signed-in user.
+ * @property {() => void} onClose - Callback to close the panel.
+ */
+interface ThreadPanelProps {
+    chatId: string;
+    threadId: string;
+    signedUserId: ResId;
+    onClose: () => void;
+}
+
+/**
+ * ThreadPanel component that shows a thread next to the chat panel: the message
+ * that started it, its replies oldest first and a form to reply. Replies of other
+ * members appear as they are sent, and the thread counts as read while it is open.
+ *
+ * @param {ThreadPanelProps} props - The props for the ThreadPanel component.
+ * @returns {JSX.Element} - The rendered thread panel.
+ */
+const ThreadPanel: React.FC<ThreadPanelProps> = ({ chatId, threadId, signedUserId, onClose }) => {
+    const {
+        thread,
+        replies,
+        isLoading,
+        error,
+        hasOlderReplies,
+        isFetchingOlderReplies,
+        fetchOlderReplies,
+        sendReply
+    } = useThread(chatId, threadId);
+    const [draft, setDraft] = useState('');
+
+    /**
+     * Sends the reply and clears the form.
+     *
+     * @param {React.FormEvent} event - The form submission event.
+     */
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        const text = draft.trim();
+        if (!text) return;
+        sendReply.mutate(text);
+        setDraft('');
+    };
+
+    const renderBody = () => {
+        if (isLoading) return <p>loading thread ...</p>;
+        if (error || !thread) return <p>could not load the thread</p>;
+
+        return (
+            <>
+                <div className="thread-root">
+                    <MessageBox message={thread.root} signedUserId={signedUserId} />
+                </div>
+                {hasOlderReplies && (
+                    <button
+                        type="button"
+                        className="thread-older"
+                        disabled={isFetchingOlderReplies}
+                        onClick={() => fetchOlderReplies()}
+                    >
+                        {isFetchingOlderReplies ? 'loading ...' : 'show earlier replies'}
+                    </button>
+                )}
+                {replies.map((reply) => (
+                    <MessageBox key={reply.id} message={reply} signedUserId={signedUserId} />
+                ))}
+            </>
+        );
+    };
+
+    return (
+        <Panel aria-label="Thread">
+            <ThreadHeader>
+                <span>Thread</span>
+                <button type="button" aria-label="Close thread" onClick={onClose}>✕</button>
+            </ThreadHeader>
+
+            <ThreadReplies>
+                {renderBody()}
+            </ThreadReplies>
+
+            <ThreadReplyForm onSubmit={handleSubmit}>
+                <input
+                    value={draft}
+                    placeholder="reply in thread"
+                    onChange={(event) => setDraft(event.target.value)}
+                />
+                <button type="submit" disabled={!draft.trim() || !thread}>send</button>
+            </ThreadReplyForm>
+        </Panel>
+    );
+};
+
+export default ThreadPanel;
@@ -0,0 +1,183 @@
+/**
+ * Attachment Component Styles - Enterprise Styled-Components
+ *
+ * Styles for the attachments shown in a message, the image lightbox and the
+ * tray of files waiting to be sent.
+ */
+
+import styled from 'styled-components';
+import type { EnhancedTheme } from '@core/modules/theming';
+
+export const AttachmentGrid = styled.div<{ theme: EnhancedTheme; $count: number }>`
+  display: grid;
+  grid-template-columns: repeat(${props => Math.min(props.$count, 3)}, minmax(0, 1fr));
+  gap: ${props => props.theme.spacing.xs};
+  max-width: 20rem;
+  margin-top: ${props => props.theme.spacing.xs};
+
+  & button {
+    padding: 0;
+    cursor: zoom-in;
+    border: none;
+    border-radius: ${props => props.theme.radius.md};
+    overflow: hidden;
+    background-color: ${props => props.theme.colors.background.secondary};
+  }
+
+  & img {
+    display: block;
+    width: 100%;
+    aspect-ratio: 1;
+    object-fit: cover;
+  }
+`;
+
+export const AttachmentFile = styled.a<{ theme: EnhancedTheme }>`
+  display: flex;
+  align-items: center;
+  gap: ${props => props.theme.spacing.sm};
+  max-width: 20rem;
+  margin-top: ${props => props.theme.spacing.xs};
+  padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.sm};
+  border: 1px solid ${props => props.theme.colors.border};
+  border-radius: ${props => props.theme.radius.md};
+  color: ${props => props.theme.colors.text.primary};
+  font-size: ${props => props.theme.typography.fontSize.sm};
+  text-decoration: none;
+
+  & .attachment-name {
+    flex-grow: 1;
+    overflow: hidden;
+    white-space: nowrap;
+    text-overflow: ellipsis;
+  }
+
+  & .attachment-size {
+    color: ${props => props.theme.colors.text.secondary};
+    font-size: ${props => props.theme.typography.fontSize.xs};
+  }
+`;
+
+export const AttachmentAudio = styled.audio<{ theme: EnhancedTheme }>`
+  display: block;
+  max-width: 20rem;
+  margin-top: ${props => props.theme.spacing.xs};
+`;
+
+export const Lightbox = styled.div<{ theme: EnhancedTheme }>`
+  position: fixed;
+  inset: 0;
+  z-index: 1000;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background-color: rgba(0, 0, 0, 0.85);
+
+  & img {
+    max-width: 90vw;
+    max-height: 85vh;
+    object-fit: contain;
+  }
+
+  & button {
+    position: absolute;
+    cursor: pointer;
+    border: none;
+    background: none;
+    color: ${props => props.theme.colors.text.inverse};
+    font-size: ${props => props.theme.typography.fontSize.xl};
+  }
+
+  & .lightbox-close {
+    top: ${props => props.theme.spacing.md};
+    right: ${props => props.theme.spacing.md};
+  }
+
+  & .lightbox-previous {
+    left: ${props => props.theme.spacing.md};
+  }
+
+  & .lightbox-next {
+    right: ${props => props.theme.spacing.md};
+  }
+
+  & .lightbox-caption {
+    position: absolute;
+    bottom: ${props => props.theme.spacing.md};
+    color: ${props => props.theme.colors.text.inverse};
+    font-size: ${props => props.theme.typography.fontSize.sm};
+  }
+`;
+
+export const AttachmentTray = styled.div<{ theme: EnhancedTheme }>`
+  display: flex;
+  flex-flow: column nowrap;
+  gap: ${props => props.theme.spacing.xs};
+  padding: ${props => props.theme.spacing.sm} ${props => props.theme.spacing.md};
+  border-top: 1px solid ${props => props.theme.colors.border};
+
+  & .attachment-error {
+    white-space: pre-line;
+    color: ${props => props.theme.colors.semantic.error};
+    font-size: ${props => props.theme.typography.fontSize.xs};
+  }
+
+  & .attachment-tray-actions {
+    display: flex;
+    align-items: center;
+    gap: ${props => props.theme.spacing.xs};
+  }
+
+  & .attachment-tray-actions input[type="text"] {
+    flex-grow: 1;
+    padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.sm};
+    border: 1px solid ${props => props.theme.colors.border};
+    border-radius: ${props => props.theme.radius.md};
+  }
+
+  & .attachment-tray-actions button {
+    cursor: pointer;
+    padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.sm};
+    border: none;
+    border-radius: ${props => props.theme.radius.md};
+    background-color: ${props => props.theme.colors.background.secondary};
+
+    &:disabled {
+      cursor: default;
+      opacity: 0.5;
+    }
+  }
+`;
+
+export const PendingAttachmentItem = styled.div<{ theme: EnhancedTheme; $failed: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: ${props => props.theme.spacing.sm};
+  font-size: ${props => props.theme.typography.fontSize.sm};
+  color: ${props => props.$failed ? props.theme.colors.semantic.error : props.theme.colors.text.primary};
+
+  & img {
+    width: 2.5rem;
+    height: 2.5rem;
+    object-fit: cover;
+    border-radius: ${props => props.theme.radius.sm};
+  }
+
+  & .attachment-name {
+    flex-grow: 1;
+    overflow: hidden;
+    white-space: nowrap;
+    text-overflow: ellipsis;
+  }
+
+  & progress {
+    width: 6rem;
+  }
+
+  & button {
+    cursor: pointer;
+    border: none;
+    background: none;
+    color: ${props => props.theme.colors.text.secondary};
+  }
+`;
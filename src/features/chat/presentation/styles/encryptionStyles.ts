@@ -0,0 +1,78 @@
+/**
+ * Encryption Component Styles - Enterprise Styled-Components
+ *
+ * Styles for the indicator of an end-to-end encrypted chat and the dialog
+ * its members compare safety numbers in.
+ */
+
+import styled from 'styled-components';
+import type { EnhancedTheme } from '@core/modules/theming';
+
+export const EncryptionIndicator = styled.span<{ theme: EnhancedTheme }>`
+  display: inline-flex;
+  flex-shrink: 0;
+  align-items: center;
+  gap: ${props => props.theme.spacing.xs};
+  padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.sm};
+  border-radius: ${props => props.theme.radius.md};
+  background-color: ${props => props.theme.colors.background.secondary};
+  color: ${props => props.theme.colors.semantic.success};
+  font-size: ${props => props.theme.typography.fontSize.xs};
+  white-space: nowrap;
+`;
+
+export const SafetyNumberOverlay = styled.div<{ theme: EnhancedTheme }>`
+  position: fixed;
+  inset: 0;
+  z-index: 1000;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background-color: rgba(0, 0, 0, 0.5);
+`;
+
+export const SafetyNumberCard = styled.div<{ theme: EnhancedTheme }>`
+  display: flex;
+  flex-flow: column nowrap;
+  gap: ${props => props.theme.spacing.md};
+  width: min(24rem, 90vw);
+  padding: ${props => props.theme.spacing.lg};
+  border-radius: ${props => props.theme.radius.md};
+  background-color: ${props => props.theme.colors.background.primary};
+  color: ${props => props.theme.colors.text.primary};
+
+  & h2 {
+    margin: 0;
+    font-size: ${props => props.theme.typography.fontSize.lg};
+    font-weight: ${props => props.theme.typography.fontWeight.semibold};
+  }
+
+  & p {
+    margin: 0;
+    color: ${props => props.theme.colors.text.secondary};
+    font-size: ${props => props.theme.typography.fontSize.sm};
+  }
+
+  & .safety-number {
+    display: grid;
+    grid-template-columns: repeat(4, 1fr);
+    gap: ${props => props.theme.spacing.sm};
+    margin: 0;
+    font-family: monospace;
+    font-size: ${props => props.theme.typography.fontSize.lg};
+    text-align: center;
+  }
+
+  & .safety-number-error {
+    color: ${props => props.theme.colors.semantic.error};
+  }
+
+  & button {
+    align-self: flex-end;
+    cursor: pointer;
+    padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.md};
+    border: none;
+    border-radius: ${props => props.theme.radius.md};
+    background-color: ${props => props.theme.colors.background.secondary};
+  }
+`;
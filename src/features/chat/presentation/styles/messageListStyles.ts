@@ -9,11 +9,13 @@ import styled from 'styled-components';
 import { EnhancedTheme } from '../../../../core/theme';
 
 export const Messages = styled.div<{ theme: EnhancedTheme }>`
+  position: relative;
   display: flex;
   padding: 0 4%;
   grid-row: 1/2;
-  overflow: auto;
-  flex-direction: column-reverse;
+  min-height: 0;
+  overflow: hidden;
+  flex-direction: column;
   background-color: ${props => props.theme.colors.background.primary};
   
   /* Custom scrollbar styling */
@@ -42,6 +44,37 @@ export const Messages = styled.div<{ theme: EnhancedTheme }>`
   scrollbar-color: ${props => props.theme.colors.border} ${props => props.theme.colors.background.secondary};
 `;
 
+// Floating button taking the reader to the first message they have not seen
+export const JumpToUnreadButton = styled.button<{ theme: EnhancedTheme }>`
+  position: absolute;
+  left: 50%;
+  bottom: ${props => props.theme.spacing.md};
+  transform: translateX(-50%);
+  cursor: pointer;
+  padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.md};
+  border: none;
+  border-radius: ${props => props.theme.radius.full};
+  background-color: ${props => props.theme.colors.brand[500]};
+  color: white;
+  font-size: ${props => props.theme.typography.fontSize.sm};
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+`;
+
+// Avatars of the members who read the last message, under it
+export const SeenByRow = styled.div<{ theme: EnhancedTheme }>`
+  display: flex;
+  justify-content: flex-end;
+  align-items: center;
+  gap: 2px;
+  margin-top: ${props => props.theme.spacing.xs};
+  font-size: ${props => props.theme.typography.fontSize.xs};
+  color: ${props => props.theme.colors.text.secondary};
+
+  & .seen-by-more {
+    margin-left: ${props => props.theme.spacing.xs};
+  }
+`;
+
 // Legacy export for backward compatibility during migration
 export const messageListStyles = {
   messages: Messages,
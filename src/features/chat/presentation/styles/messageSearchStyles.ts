@@ -0,0 +1,133 @@
+/**
+ * Message Search Styles - Enterprise Styled-Components
+ *
+ * Styles for message search, in the side panel next to a chat and in the
+ * "Search" view of the chat sidebar.
+ */
+
+import styled from 'styled-components';
+import type { EnhancedTheme } from '@core/modules/theming';
+
+export const SearchSidePanel = styled.aside<{ theme: EnhancedTheme }>`
+  display: flex;
+  flex-flow: column nowrap;
+  width: 22rem;
+  flex-shrink: 0;
+  overflow: hidden;
+  border-left: 1px solid ${props => props.theme.colors.border};
+  background-color: ${props => props.theme.colors.background.primary};
+`;
+
+export const SearchHeader = styled.header<{ theme: EnhancedTheme }>`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: ${props => props.theme.spacing.sm} ${props => props.theme.spacing.md};
+  border-bottom: 1px solid ${props => props.theme.colors.border};
+  font-weight: ${props => props.theme.typography.fontWeight.medium};
+
+  & button {
+    cursor: pointer;
+    border: none;
+    background: none;
+    color: ${props => props.theme.colors.text.secondary};
+  }
+`;
+
+export const SearchFilters = styled.div<{ theme: EnhancedTheme }>`
+  display: flex;
+  flex-flow: column nowrap;
+  gap: ${props => props.theme.spacing.xs};
+  padding: ${props => props.theme.spacing.sm};
+
+  & input[type='search'],
+  & select {
+    width: 100%;
+    padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.sm};
+    border: 1px solid ${props => props.theme.colors.border};
+    border-radius: ${props => props.theme.radius.md};
+    background-color: ${props => props.theme.colors.background.primary};
+  }
+
+  & .search-filter-row {
+    display: flex;
+    align-items: center;
+    gap: ${props => props.theme.spacing.xs};
+  }
+
+  & .search-date-toggle {
+    flex-shrink: 0;
+    cursor: pointer;
+    border: none;
+    background: none;
+    font-size: ${props => props.theme.typography.fontSize.xs};
+    color: ${props => props.theme.colors.brand[600]};
+  }
+`;
+
+export const SearchStatus = styled.p<{ theme: EnhancedTheme }>`
+  margin: 0;
+  padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.sm};
+  font-size: ${props => props.theme.typography.fontSize.xs};
+  color: ${props => props.theme.colors.text.secondary};
+  text-align: center;
+`;
+
+export const SearchResults = styled.ul<{ theme: EnhancedTheme }>`
+  flex-grow: 1;
+  overflow-y: auto;
+  margin: 0;
+  padding: 0 ${props => props.theme.spacing.xs};
+  list-style: none;
+
+  & .search-more {
+    display: block;
+    margin: ${props => props.theme.spacing.xs} auto;
+    cursor: pointer;
+    border: none;
+    background: none;
+    font-size: ${props => props.theme.typography.fontSize.xs};
+    color: ${props => props.theme.colors.brand[600]};
+  }
+`;
+
+export const SearchResultCard = styled.button<{ theme: EnhancedTheme }>`
+  display: flex;
+  flex-flow: column nowrap;
+  gap: calc(${props => props.theme.spacing.xs} / 2);
+  width: 100%;
+  text-align: left;
+  cursor: pointer;
+  border: none;
+  padding: ${props => props.theme.spacing.sm};
+  border-radius: ${props => props.theme.radius.md};
+  background-color: ${props => props.theme.colors.background.transparent};
+  color: ${props => props.theme.colors.text.primary};
+  transition: all ${props => props.theme.animation.duration.fast} ${props => props.theme.animation.easing.ease};
+
+  &:hover,
+  &:focus-visible {
+    background-color: ${props => props.theme.colors.background.secondary};
+  }
+
+  & .search-result-meta {
+    display: flex;
+    justify-content: space-between;
+    gap: ${props => props.theme.spacing.xs};
+    font-size: ${props => props.theme.typography.fontSize.xs};
+    color: ${props => props.theme.colors.text.secondary};
+  }
+
+  & .search-result-text {
+    font-size: ${props => props.theme.typography.fontSize.sm};
+    overflow-wrap: anywhere;
+  }
+
+  & mark {
+    padding: 0 1px;
+    border-radius: 2px;
+    background-color: ${props => props.theme.colors.brand[100]};
+    color: inherit;
+    font-weight: ${props => props.theme.typography.fontWeight.medium};
+  }
+`;
@@ -82,6 +82,133 @@ export const Text = styled.div<{ theme: EnhancedTheme }>`
   }
 `;
 
+export const Quote = styled.button<{ theme: EnhancedTheme }>`
+  display: block;
+  width: 100%;
+  text-align: left;
+  cursor: pointer;
+  border: none;
+  border-left: 3px solid ${props => props.theme.colors.brand[400]};
+  border-radius: ${props => props.theme.radius.md};
+  background-color: ${props => props.theme.colors.background.secondary};
+  padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.md};
+  margin-bottom: ${props => props.theme.spacing.xs};
+  color: ${props => props.theme.colors.text.secondary};
+  font-size: ${props => props.theme.typography.fontSize.xs};
+  overflow: hidden;
+  white-space: nowrap;
+  text-overflow: ellipsis;
+
+  & strong {
+    color: ${props => props.theme.colors.text.primary};
+    margin-right: ${props => props.theme.spacing.xs};
+  }
+`;
+
+export const Reactions = styled.div<{ theme: EnhancedTheme }>`
+  display: flex;
+  flex-flow: row wrap;
+  gap: ${props => props.theme.spacing.xs};
+  margin-top: ${props => props.theme.spacing.xs};
+`;
+
+export const ReactionChip = styled.button<{ theme: EnhancedTheme; $active: boolean }>`
+  cursor: pointer;
+  font-size: ${props => props.theme.typography.fontSize.xs};
+  border-radius: ${props => props.theme.radius.md};
+  padding: 0 ${props => props.theme.spacing.xs};
+  border: 1px solid ${props => props.$active ? props.theme.colors.brand[400] : props.theme.colors.border};
+  background-color: ${props => props.theme.colors.background.secondary};
+  color: ${props => props.theme.colors.text.primary};
+  transition: all ${props => props.theme.animation.duration.fast} ${props => props.theme.animation.easing.ease};
+`;
+
+export const MessageActions = styled.div<{ theme: EnhancedTheme }>`
+  display: flex;
+  align-items: center;
+  gap: ${props => props.theme.spacing.xs};
+  margin-top: ${props => props.theme.spacing.xs};
+  font-size: ${props => props.theme.typography.fontSize.xs};
+
+  & button {
+    cursor: pointer;
+    border: none;
+    background: none;
+    padding: 0;
+    color: ${props => props.theme.colors.text.secondary};
+
+    &:hover {
+      color: ${props => props.theme.colors.text.primary};
+    }
+  }
+`;
+
+export const EditedMarker = styled.button<{ theme: EnhancedTheme }>`
+  cursor: pointer;
+  border: none;
+  background: none;
+  padding: 0;
+  font-style: italic;
+  font-size: ${props => props.theme.typography.fontSize.xs};
+  color: ${props => props.theme.colors.text.secondary};
+`;
+
+export const EditHistory = styled.ul<{ theme: EnhancedTheme }>`
+  list-style: none;
+  margin: ${props => props.theme.spacing.xs} 0 0;
+  padding: 0;
+  font-size: ${props => props.theme.typography.fontSize.xs};
+  color: ${props => props.theme.colors.text.secondary};
+
+  & li {
+    margin-bottom: ${props => props.theme.spacing.xs};
+  }
+
+  & time {
+    margin-right: ${props => props.theme.spacing.xs};
+  }
+`;
+
+export const ThreadPreview = styled.button<{ theme: EnhancedTheme }>`
+  display: flex;
+  align-items: baseline;
+  gap: ${props => props.theme.spacing.xs};
+  cursor: pointer;
+  border: none;
+  background: none;
+  padding: 0;
+  margin-top: ${props => props.theme.spacing.xs};
+  font-size: ${props => props.theme.typography.fontSize.xs};
+  color: ${props => props.theme.colors.text.secondary};
+
+  & strong {
+    color: ${props => props.theme.colors.brand[600]};
+  }
+
+  &:hover strong {
+    text-decoration: underline;
+  }
+`;
+
+// How far an own message got to each member of a group chat
+export const ReceiptList = styled.ul<{ theme: EnhancedTheme }>`
+  list-style: none;
+  margin: ${props => props.theme.spacing.xs} 0 0;
+  padding: 0;
+  font-size: ${props => props.theme.typography.fontSize.xs};
+  color: ${props => props.theme.colors.text.secondary};
+
+  & li {
+    display: flex;
+    justify-content: space-between;
+    gap: ${props => props.theme.spacing.sm};
+  }
+
+  & .receipt-read {
+    color: ${props => props.theme.colors.brand[600]};
+  }
+`;
+
 // Legacy export for backward compatibility during migration
 export const messageStyles = {
   message: Message,
@@ -0,0 +1,146 @@
+/**
+ * Thread Component Styles - Enterprise Styled-Components
+ *
+ * Styles for the thread side panel next to the chat panel and for the
+ * "Threads" view of the chat sidebar.
+ */
+
+import styled from 'styled-components';
+import type { EnhancedTheme } from '@core/modules/theming';
+
+export const ThreadPanel = styled.aside<{ theme: EnhancedTheme }>`
+  display: flex;
+  flex-flow: column nowrap;
+  width: 22rem;
+  flex-shrink: 0;
+  overflow: hidden;
+  border-left: 1px solid ${props => props.theme.colors.border};
+  background-color: ${props => props.theme.colors.background.primary};
+`;
+
+export const ThreadHeader = styled.header<{ theme: EnhancedTheme }>`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  padding: ${props => props.theme.spacing.sm} ${props => props.theme.spacing.md};
+  border-bottom: 1px solid ${props => props.theme.colors.border};
+  font-weight: ${props => props.theme.typography.fontWeight.medium};
+
+  & button {
+    cursor: pointer;
+    border: none;
+    background: none;
+    color: ${props => props.theme.colors.text.secondary};
+  }
+`;
+
+export const ThreadReplies = styled.div<{ theme: EnhancedTheme }>`
+  flex-grow: 1;
+  overflow-y: auto;
+  padding: ${props => props.theme.spacing.md};
+
+  & .thread-root {
+    padding-bottom: ${props => props.theme.spacing.sm};
+    margin-bottom: ${props => props.theme.spacing.sm};
+    border-bottom: 1px solid ${props => props.theme.colors.border};
+  }
+
+  & .thread-older {
+    display: block;
+    margin: 0 auto ${props => props.theme.spacing.sm};
+    cursor: pointer;
+    border: none;
+    background: none;
+    font-size: ${props => props.theme.typography.fontSize.xs};
+    color: ${props => props.theme.colors.brand[600]};
+  }
+`;
+
+export const ThreadReplyForm = styled.form<{ theme: EnhancedTheme }>`
+  display: flex;
+  gap: ${props => props.theme.spacing.xs};
+  padding: ${props => props.theme.spacing.sm} ${props => props.theme.spacing.md};
+  border-top: 1px solid ${props => props.theme.colors.border};
+
+  & input {
+    flex-grow: 1;
+    padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.sm};
+    border: 1px solid ${props => props.theme.colors.border};
+    border-radius: ${props => props.theme.radius.md};
+  }
+
+  & button {
+    cursor: pointer;
+    padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.sm};
+    border: none;
+    border-radius: ${props => props.theme.radius.md};
+    background-color: ${props => props.theme.colors.brand[600]};
+    color: ${props => props.theme.colors.text.inverse};
+
+    &:disabled {
+      cursor: default;
+      opacity: 0.5;
+    }
+  }
+`;
+
+export const SidebarTabs = styled.div<{ theme: EnhancedTheme }>`
+  display: flex;
+  gap: ${props => props.theme.spacing.xs};
+  padding: ${props => props.theme.spacing.sm} ${props => props.theme.spacing.sm} 0;
+`;
+
+export const SidebarTab = styled.button<{ theme: EnhancedTheme; $active: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: ${props => props.theme.spacing.xs};
+  cursor: pointer;
+  padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.sm};
+  border: none;
+  border-radius: ${props => props.theme.radius.full};
+  background-color: ${props => props.$active ? props.theme.colors.background.secondary : props.theme.colors.background.transparent};
+  color: ${props => props.$active ? props.theme.colors.text.primary : props.theme.colors.text.secondary};
+  font-weight: ${props => props.theme.typography.fontWeight.medium};
+`;
+
+export const ThreadCard = styled.button<{ theme: EnhancedTheme; $unread: boolean }>`
+  display: flex;
+  flex-flow: column nowrap;
+  gap: calc(${props => props.theme.spacing.xs} / 2);
+  width: 100%;
+  text-align: left;
+  cursor: pointer;
+  border: none;
+  padding: ${props => props.theme.spacing.sm};
+  border-radius: ${props => props.theme.radius.md} 0 0 ${props => props.theme.radius.md};
+  background-color: ${props => props.theme.colors.background.transparent};
+  color: ${props => props.theme.colors.text.primary};
+  font-weight: ${props => props.$unread ? props.theme.typography.fontWeight.medium : props.theme.typography.fontWeight.normal};
+  transition: all ${props => props.theme.animation.duration.fast} ${props => props.theme.animation.easing.ease};
+
+  &:hover {
+    background-color: ${props => props.theme.colors.background.secondary};
+  }
+
+  & .thread-card-text {
+    overflow: hidden;
+    white-space: nowrap;
+    text-overflow: ellipsis;
+    font-size: ${props => props.theme.typography.fontSize.sm};
+  }
+
+  & .thread-card-meta {
+    font-size: ${props => props.theme.typography.fontSize.xs};
+    color: ${props => props.theme.colors.text.secondary};
+  }
+`;
+
+export const UnreadBadge = styled.span<{ theme: EnhancedTheme }>`
+  min-width: 1.25rem;
+  padding: 0 ${props => props.theme.spacing.xs};
+  border-radius: ${props => props.theme.radius.full};
+  background-color: ${props => props.theme.colors.brand[600]};
+  color: ${props => props.theme.colors.text.inverse};
+  font-size: ${props => props.theme.typography.fontSize.xs};
+  text-align: center;
+`;
@@ -0,0 +1,111 @@
+/**
+ * Voice Note Styles - Enterprise Styled-Components
+ *
+ * Styles for recording a voice note next to the message input and for
+ * playing voice notes in messages.
+ */
+
+import styled from 'styled-components';
+import type { EnhancedTheme } from '@core/modules/theming';
+
+export const VoiceRecorderBar = styled.div<{ theme: EnhancedTheme }>`
+  display: flex;
+  flex-flow: row wrap;
+  align-items: center;
+  gap: ${props => props.theme.spacing.xs};
+  padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.md};
+  border-top: 1px solid ${props => props.theme.colors.border};
+  font-size: ${props => props.theme.typography.fontSize.sm};
+
+  & button {
+    cursor: pointer;
+    padding: ${props => props.theme.spacing.xs} ${props => props.theme.spacing.sm};
+    border: none;
+    border-radius: ${props => props.theme.radius.md};
+    background-color: ${props => props.theme.colors.background.secondary};
+
+    &:disabled {
+      cursor: default;
+      opacity: 0.5;
+    }
+  }
+
+  & .voice-recording-dot {
+    width: 0.5rem;
+    height: 0.5rem;
+    border-radius: 50%;
+    background-color: ${props => props.theme.colors.semantic.error};
+  }
+
+  & .voice-recording-time {
+    font-variant-numeric: tabular-nums;
+    color: ${props => props.theme.colors.text.secondary};
+  }
+
+  & .voice-error {
+    flex-basis: 100%;
+    cursor: pointer;
+    color: ${props => props.theme.colors.semantic.error};
+    font-size: ${props => props.theme.typography.fontSize.xs};
+  }
+`;
+
+export const Waveform = styled.div<{ theme: EnhancedTheme }>`
+  display: flex;
+  align-items: center;
+  gap: 1px;
+  flex-grow: 1;
+  min-width: 6rem;
+  height: 1.75rem;
+
+  & span {
+    flex: 1 1 0;
+    min-height: 2px;
+    border-radius: 1px;
+    background-color: ${props => props.theme.colors.border};
+  }
+
+  & span.played {
+    background-color: ${props => props.theme.colors.brand[600]};
+  }
+`;
+
+export const VoiceNotePlayerStyled = styled.div<{ theme: EnhancedTheme }>`
+  display: flex;
+  align-items: center;
+  gap: ${props => props.theme.spacing.xs};
+  width: 100%;
+  max-width: 20rem;
+  margin-top: ${props => props.theme.spacing.xs};
+  font-size: ${props => props.theme.typography.fontSize.xs};
+
+  & button {
+    flex-shrink: 0;
+    cursor: pointer;
+    border: none;
+    border-radius: ${props => props.theme.radius.md};
+    background-color: ${props => props.theme.colors.background.secondary};
+    padding: calc(${props => props.theme.spacing.xs} / 2) ${props => props.theme.spacing.xs};
+  }
+
+  & .voice-note-track {
+    position: relative;
+    flex-grow: 1;
+  }
+
+  /* The range input lies over the waveform, so dragging anywhere on it seeks */
+  & .voice-note-track input[type="range"] {
+    position: absolute;
+    inset: 0;
+    width: 100%;
+    margin: 0;
+    cursor: pointer;
+    opacity: 0;
+  }
+
+  & .voice-note-time {
+    flex-shrink: 0;
+    font-variant-numeric: tabular-nums;
+    color: ${props => props.theme.colors.text.secondary};
+  }
+`;
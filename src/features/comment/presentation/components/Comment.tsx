@@ -38,7 +38,6 @@ const Comment: React.FC<CommentProps> = ({ comment }) => {
             {/* Add CommentControls when available */}
             <CommentControls 
                 comment={comment}
-                isOwner={false} // TODO: Determine ownership
                 onLike={() => console.log('Like clicked')}
                 onReply={() => console.log('Reply clicked')}
             />
@@ -1,3 +1,8 @@
+import { PERMISSIONS } from "@/features/auth/domain/permissions";
+import { Can } from "@features/auth/presentation/components/guards/Can";
+
+import type { CommentResource } from "@/features/auth/domain/policies";
+
 // Define CommentResponse locally to avoid import issues
 interface CommentResponse {
     id: string;
@@ -14,7 +19,8 @@ interface CommentResponse {
  */
 interface CommentControlsProps {
     comment: CommentResponse;
-    isOwner?: boolean;
+    /** Author of the post the comment is on, who may also delete it */
+    postAuthorId?: string;
     isLiked?: boolean;
     onLike?: () => void;
     onReply?: () => void;
@@ -26,19 +32,27 @@ interface CommentControlsProps {
  * CommentControls component.
  * 
  * Provides controls for comment interactions like like, reply, edit, and delete.
+ * Edit and delete follow the authorization policies: the author edits, and the
+ * author, the post's author or a moderator deletes.
  * 
  * @param {CommentControlsProps} props - The component props.
  * @returns {JSX.Element} - The rendered CommentControls component.
  */
 const CommentControls: React.FC<CommentControlsProps> = ({
     comment,
-    isOwner = false,
+    postAuthorId,
     isLiked = false,
     onLike,
     onReply,
     onDelete,
     onEdit
 }) => {
+    const resource: CommentResource = {
+        type: "comment",
+        authorId: comment.authorId,
+        ...(postAuthorId !== undefined && { postAuthorId })
+    };
+
     // TODO: Implement full CommentControls when all dependencies are available
     return (
         <div className="comment-controls">
@@ -48,16 +62,16 @@ const CommentControls: React.FC<CommentControlsProps> = ({
             <button onClick={onReply} className="reply-button">
                 Reply
             </button>
-            {isOwner && (
-                <>
-                    <button onClick={onEdit} className="edit-button">
-                        Edit
-                    </button>
-                    <button onClick={onDelete} className="delete-button">
-                        Delete
-                    </button>
-                </>
-            )}
+            <Can action={PERMISSIONS.EDIT_COMMENTS} resource={resource}>
+                <button onClick={onEdit} className="edit-button">
+                    Edit
+                </button>
+            </Can>
+            <Can action={PERMISSIONS.DELETE_COMMENTS} resource={resource}>
+                <button onClick={onDelete} className="delete-button">
+                    Delete
+                </button>
+            </Can>
         </div>
     );
 };
@@ -8,7 +8,8 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import { IError, IErrorContext } from '../../../../core/modules/error/types';
-import { ErrorSeverity } from '../../../../core/modules/error/types';
+import { ErrorCategory, ErrorSeverity } from '../../../../core/modules/error/types';
+import { circuitBreakers } from '../../../../core/modules/network';
 
 interface ErrorToastProps {
     error: IError;
@@ -302,6 +303,11 @@ export const useErrorToastContainer = () => {
     }>>([]);
 
     const addToast = useCallback((error: IError, context?: IErrorContext) => {
+        // While a circuit is tripped the degraded-mode banner already reports the outage
+        if (error.category === ErrorCategory.NETWORK && circuitBreakers.getTrippedCircuits().length > 0) {
+            return;
+        }
+
         const id = `toast_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         const toast = {
             id,
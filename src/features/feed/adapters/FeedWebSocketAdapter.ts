@@ -11,9 +11,22 @@ import {
   IMessageRouter,
   IWebSocketCacheManager 
 } from '@/core/websocket';
+import type { TypedWebSocketMessage } from '@/core/modules/websocket';
 import { WebSocketFeatureConfig, WebSocketMessage } from '@/core/websocket/types';
+import { CommentResponse } from '../data/models/comment';
 import { PostResponse, PollResponse } from '../data/models/post';
+import {
+  CommentAddedEventSchema,
+  PostDeletedEventSchema,
+  ReactionEventSchema,
+  TrendingUpdateEventSchema
+} from '../data/models/schemas/feedEventZod';
+import { PostResponseSchema } from '../data/models/schemas/postZod';
 import { ResId } from '@/shared/api/models/common';
+import { z } from 'zod';
+
+// Message whose payload was validated against a route schema
+type FeedRouteMessage<TSchema extends z.ZodType> = TypedWebSocketMessage<z.infer<TSchema>>;
 
 // Feed-specific WebSocket message types
 export interface FeedWebSocketMessage extends WebSocketMessage {
@@ -79,7 +92,7 @@ export interface FeedEventHandlers {
   onPostDeleted?: (postId: ResId) => void;
   onReactionAdded?: (postId: ResId, userId: ResId, reactionType: string) => void;
   onReactionRemoved?: (postId: ResId, userId: ResId, reactionType: string) => void;
-  onCommentAdded?: (postId: ResId, comment: any) => void;
+  onCommentAdded?: (postId: ResId, comment: CommentResponse) => void;
   onCommentRemoved?: (postId: ResId, commentId: ResId) => void;
   onPollCreated?: (postId: ResId, poll: PollResponse) => void;
   onPollUpdated?: (postId: ResId, poll: PollResponse) => void;
@@ -89,6 +102,7 @@ export interface FeedEventHandlers {
   onBatchUpdate?: (updates: any[]) => void;
   onError?: (error: FeedWebSocketError) => void;
   onConnectionChange?: (isConnected: boolean) => void;
+  onResync?: (topic: string) => Promise<void> | void;
 }
 
 // Feed WebSocket error
@@ -126,6 +140,7 @@ export class FeedWebSocketAdapter {
   private metrics: FeedAdapterMetrics;
   private eventHandlers: FeedEventHandlers = {};
   private activeSubscriptions: Map<string, () => void> = new Map();
+  private unsubscribeResync: (() => void) | null = null;
   private updateQueue: FeedWebSocketMessage[] = [];
   private batchProcessor: NodeJS.Timeout | null = null;
   private trendingProcessor: NodeJS.Timeout | null = null;
@@ -157,8 +172,7 @@ export class FeedWebSocketAdapter {
       heartbeatInterval: 30000,
       reconnectAttempts: 5,
       messageValidation: true,
-      cacheInvalidation: true,
-      customRoutes: this.getFeedMessageRoutes()
+      cacheInvalidation: true
     };
 
     await this.enterpriseWebSocket.registerFeature(featureConfig);
@@ -472,6 +486,8 @@ export class FeedWebSocketAdapter {
   async cleanup(): Promise<void> {
     this.activeSubscriptions.forEach(unsubscribe => unsubscribe());
     this.activeSubscriptions.clear();
+    this.unsubscribeResync?.();
+    this.unsubscribeResync = null;
 
     if (this.batchProcessor) {
       clearInterval(this.batchProcessor);
@@ -617,88 +633,80 @@ export class FeedWebSocketAdapter {
   }
 
   /**
-   * Get feed message routes
-   */
-  private getFeedMessageRoutes(): any[] {
-    return [
-      {
-        pattern: { feature: 'feed', messageType: 'post_created' },
-        handler: 'handlePostCreated',
-        priority: 'high',
-        validation: true
-      },
-      {
-        pattern: { feature: 'feed', messageType: 'post_updated' },
-        handler: 'handlePostUpdated',
-        priority: 'medium',
-        validation: true
-      },
-      {
-        pattern: { feature: 'feed', messageType: 'post_deleted' },
-        handler: 'handlePostDeleted',
-        priority: 'high',
-        validation: false
-      },
-      {
-        pattern: { feature: 'feed', messageType: 'reaction_added' },
-        handler: 'handleReactionAdded',
-        priority: 'medium',
-        validation: false
-      },
-      {
-        pattern: { feature: 'feed', messageType: 'reaction_removed' },
-        handler: 'handleReactionRemoved',
-        priority: 'medium',
-        validation: false
-      },
-      {
-        pattern: { feature: 'feed', messageType: 'comment_added' },
-        handler: 'handleCommentAdded',
-        priority: 'medium',
-        validation: false
-      },
-      {
-        pattern: { feature: 'feed', messageType: 'trending_update' },
-        handler: 'handleTrendingUpdate',
-        priority: 'normal',
-        validation: false
-      }
-    ];
-  }
-
-  /**
-   * Register message handlers
+   * Register message routes; the router validates each payload against the
+   * route schema before the handler runs
    */
   private async registerMessageHandlers(): Promise<void> {
-    this.messageRouter.registerHandler('handlePostCreated', async (message: FeedWebSocketMessage) => {
-      this.eventHandlers.onPostCreated?.(message.data as PostResponse);
+    this.messageRouter.registerRoute({
+      feature: 'feed',
+      messageType: 'post_created',
+      schema: PostResponseSchema,
+      handler: (message: FeedRouteMessage<typeof PostResponseSchema>) => this.eventHandlers.onPostCreated?.(message.payload),
+      priority: 3,
+      enabled: true
     });
 
-    this.messageRouter.registerHandler('handlePostUpdated', async (message: FeedWebSocketMessage) => {
-      this.eventHandlers.onPostUpdated?.(message.data as PostResponse);
+    this.messageRouter.registerRoute({
+      feature: 'feed',
+      messageType: 'post_updated',
+      schema: PostResponseSchema,
+      handler: (message: FeedRouteMessage<typeof PostResponseSchema>) => this.eventHandlers.onPostUpdated?.(message.payload),
+      priority: 2,
+      enabled: true
     });
 
-    this.messageRouter.registerHandler('handlePostDeleted', async (message: FeedWebSocketMessage) => {
-      this.eventHandlers.onPostDeleted?.(message.data.postId as ResId);
+    this.messageRouter.registerRoute({
+      feature: 'feed',
+      messageType: 'post_deleted',
+      schema: PostDeletedEventSchema,
+      handler: (message: FeedRouteMessage<typeof PostDeletedEventSchema>) => this.eventHandlers.onPostDeleted?.(message.payload.postId),
+      priority: 3,
+      enabled: true
     });
 
-    this.messageRouter.registerHandler('handleReactionAdded', async (message: FeedWebSocketMessage) => {
-      const { postId, userId, reactionType } = message.data;
-      this.eventHandlers.onReactionAdded?.(postId as ResId, userId as ResId, reactionType);
+    this.messageRouter.registerRoute({
+      feature: 'feed',
+      messageType: 'reaction_added',
+      schema: ReactionEventSchema,
+      handler: (message: FeedRouteMessage<typeof ReactionEventSchema>) => {
+        const { postId, userId, reactionType } = message.payload;
+        this.eventHandlers.onReactionAdded?.(postId, userId, reactionType);
+      },
+      priority: 2,
+      enabled: true
     });
 
-    this.messageRouter.registerHandler('handleReactionRemoved', async (message: FeedWebSocketMessage) => {
-      const { postId, userId, reactionType } = message.data;
-      this.eventHandlers.onReactionRemoved?.(postId as ResId, userId as ResId, reactionType);
+    this.messageRouter.registerRoute({
+      feature: 'feed',
+      messageType: 'reaction_removed',
+      schema: ReactionEventSchema,
+      handler: (message: FeedRouteMessage<typeof ReactionEventSchema>) => {
+        const { postId, userId, reactionType } = message.payload;
+        this.eventHandlers.onReactionRemoved?.(postId, userId, reactionType);
+      },
+      priority: 2,
+      enabled: true
     });
 
-    this.messageRouter.registerHandler('handleCommentAdded', async (message: FeedWebSocketMessage) => {
-      const { postId, comment } = message.data;
-      this.eventHandlers.onCommentAdded?.(postId as ResId, comment);
+    this.messageRouter.registerRoute({
+      feature: 'feed',
+      messageType: 'comment_added',
+      schema: CommentAddedEventSchema,
+      handler: (message: FeedRouteMessage<typeof CommentAddedEventSchema>) => {
+        const { postId, comment } = message.payload;
+        this.eventHandlers.onCommentAdded?.(postId, comment);
+      },
+      priority: 2,
+      enabled: true
     });
 
-    this.messageRouter.registerHandler('handleTrendingUpdate', async (message: FeedWebSocketMessage) => {
-      this.eventHandlers.onTrendingUpdate?.(message.data.posts as PostResponse[]);
+    this.messageRouter.registerRoute({
+      feature: 'feed',
+      messageType: 'trending_update',
+      schema: TrendingUpdateEventSchema,
+      handler: (message: FeedRouteMessage<typeof TrendingUpdateEventSchema>) => this.eventHandlers.onTrendingUpdate?.(message.payload.posts),
+      priority: 1,
+      enabled: true
     });
   }
 
@@ -713,6 +721,15 @@ export class FeedWebSocketAdapter {
     this.enterpriseWebSocket.onDisconnect(() => {
       this.eventHandlers.onConnectionChange?.(false);
     });
+
+    // Updates missed while disconnected that cannot be replayed; the feed is reloaded over REST
+    this.unsubscribeResync = this.enterpriseWebSocket.subscribe('feed', {
+      onResync: async (topic: string) => {
+        await this.cacheManager.invalidatePattern('feed:*');
+        await this.cacheManager.invalidatePattern('post:*');
+        await this.eventHandlers.onResync?.(topic);
+      }
+    });
   }
 
   /**
@@ -238,6 +238,8 @@ export interface FeedEventHandlers {
   onError?: (error: FeedWebSocketError) => void;
   onConnectionChange?: (isConnected: boolean) => void;
   onSubscriptionChange?: (activeCount: number) => void;
+  // Updates missed while disconnected could not be replayed; reload the feed
+  onResync?: (topic: string) => Promise<void> | void;
 }
 
 // Feed WebSocket error
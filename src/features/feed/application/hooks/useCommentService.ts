@@ -87,6 +87,8 @@ export const useCreateComment = (onSuccess?: () => void, onError?: () => void) =
                 alert(`Error creating comment: ${error.message}`);
             },
             invalidateQueries: ['comments'], // Invalidate comments cache on creation
+            // Comments written offline are posted once the connection is back
+            offline: { mutationKey: 'comment:create' },
         }
     );
 };
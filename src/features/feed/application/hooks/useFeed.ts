@@ -16,10 +16,12 @@ export interface FeedState {
   loading: boolean;
   error: string | null;
   hasMore: boolean;
+  page: number;
 }
 
 export interface FeedActions {
   loadPosts: (page?: number) => Promise<void>;
+  loadMorePosts: () => Promise<void>;
   likePost: (postId: string) => Promise<void>;
   unlikePost: (postId: string) => Promise<void>;
   commentPost: (postId: string, content: string) => Promise<void>;
@@ -40,7 +42,8 @@ export const useFeed = (): FeedState & FeedActions => {
     posts: [],
     loading: false,
     error: null,
-    hasMore: true
+    hasMore: true,
+    page: 0
   });
 
   const loadPosts = useCallback(async (page: number = 0) => {
@@ -52,7 +55,8 @@ export const useFeed = (): FeedState & FeedActions => {
         ...prev,
         posts: page === 0 ? feed.items?.map(item => item.post) || [] : [...prev.posts, ...(feed.items?.map(item => item.post) || [])],
         loading: false,
-        hasMore: feed.items?.length === 20
+        hasMore: feed.items?.length === 20,
+        page
       }));
     } catch (error) {
       setState(prev => ({
@@ -125,9 +129,15 @@ export const useFeed = (): FeedState & FeedActions => {
     await loadPosts(0);
   }, [loadPosts]);
 
+  const loadMorePosts = useCallback(async () => {
+    if (state.loading || !state.hasMore) return;
+    await loadPosts(state.page + 1);
+  }, [loadPosts, state.loading, state.hasMore, state.page]);
+
   return {
     ...state,
     loadPosts,
+    loadMorePosts,
     likePost,
     unlikePost,
     commentPost,
@@ -386,6 +386,8 @@ export const usePostInteraction = () => {
             }) => {
                 console.error(`Error ${variables.interaction} post:`, error.message);
             },
+            // Interactions made offline are sent once the connection is back
+            offline: { mutationKey: 'post:interaction' },
         }
     );
 };
@@ -1,10 +1,12 @@
 import { useFeatureAuth } from '@/core/modules/authentication/hooks/useFeatureAuth';
 import { ResId } from "@/shared/api/models/common";
-import { useFeedServices } from "./useFeedService";
+import { useFeedServices, usePostInteraction } from "./useFeedService";
 
 const usePostActions = (postId: ResId) => {
     const { authData } = useFeatureAuth();
     const { feedFeatureService } = useFeedServices();
+    // Reactions go through the mutation so they are queued while offline
+    const postInteraction = usePostInteraction();
 
     const handleDeletePost = async (e: React.MouseEvent) => {
         e && e.stopPropagation();
@@ -35,12 +37,11 @@ const usePostActions = (postId: ResId) => {
         }
 
         try {
-            await feedFeatureService.interactWithPost(
+            await postInteraction.mutateAsync({
                 postId,
-                authData.user.id,
-                'like',
-                authData.accessToken
-            );
+                userId: authData.user.id,
+                interaction: 'like'
+            });
         } catch (error) {
             console.error('Error liking post:', error);
             // Error handling is done in the feature service
@@ -56,12 +57,11 @@ const usePostActions = (postId: ResId) => {
         }
 
         try {
-            await feedFeatureService.interactWithPost(
+            await postInteraction.mutateAsync({
                 postId,
-                authData.user.id,
-                'dislike',
-                authData.accessToken
-            );
+                userId: authData.user.id,
+                interaction: 'dislike'
+            });
         } catch (error) {
             console.error('Error disliking post:', error);
             // Error handling is done in the feature service
@@ -10,6 +10,8 @@ import { FeedDataService } from '../services/FeedDataService';
 import { PostDataService } from '../services/PostDataService';
 import { CommentDataService } from '../services/CommentDataService';
 
+type FeedDataServiceDependencies = ConstructorParameters<typeof FeedDataService>;
+
 /**
  * Register all feed data services in the DI container
  * Uses the decorator-based auto-registration approach
@@ -29,18 +31,17 @@ export function registerFeedDataServices(container: Container): void {
  * This is the recommended approach for better control
  */
 export function createFeedDataService(container: Container): FeedDataService {
-  const feedRepository = container.getByToken(TYPES.IFEED_REPOSITORY);
-  const postRepository = container.getByToken(TYPES.IPOST_REPOSITORY);
-  const commentRepository = container.getByToken(TYPES.ICOMMENT_REPOSITORY);
-  const cacheService = container.getByToken(TYPES.CACHE_SERVICE);
-  const webSocketService = container.getByToken(TYPES.WEBSOCKET_SERVICE);
+  const feedRepository = container.getByToken<FeedDataServiceDependencies[0]>(TYPES.IFEED_REPOSITORY);
+  const postRepository = container.getByToken<FeedDataServiceDependencies[1]>(TYPES.IPOST_REPOSITORY);
+  const commentRepository = container.getByToken<FeedDataServiceDependencies[2]>(TYPES.ICOMMENT_REPOSITORY);
+  const cacheService = container.getByToken<FeedDataServiceDependencies[4]>(TYPES.CACHE_SERVICE);
   
   return new FeedDataService(
     feedRepository,
     postRepository,
     commentRepository,
-    cacheService,
-    webSocketService
+    {},
+    cacheService
   );
 }
 
@@ -87,10 +88,10 @@ export function createFeedDataServicesWithConfig(
     commentConfig?: any;
   }
 ) {
-  const feedRepository = container.getByToken(TYPES.IFEED_REPOSITORY);
-  const postRepository = container.getByToken(TYPES.IPOST_REPOSITORY);
-  const commentRepository = container.getByToken(TYPES.ICOMMENT_REPOSITORY);
-  const cacheService = container.getByToken(TYPES.CACHE_SERVICE);
+  const feedRepository = container.getByToken<FeedDataServiceDependencies[0]>(TYPES.IFEED_REPOSITORY);
+  const postRepository = container.getByToken<FeedDataServiceDependencies[1]>(TYPES.IPOST_REPOSITORY);
+  const commentRepository = container.getByToken<FeedDataServiceDependencies[2]>(TYPES.ICOMMENT_REPOSITORY);
+  const cacheService = container.getByToken<FeedDataServiceDependencies[4]>(TYPES.CACHE_SERVICE);
   const webSocketService = container.getByToken(TYPES.WEBSOCKET_SERVICE);
   
   return {
@@ -98,9 +99,8 @@ export function createFeedDataServicesWithConfig(
       feedRepository,
       postRepository,
       commentRepository,
-      cacheService,
-      webSocketService,
-      config.feedConfig
+      config.feedConfig,
+      cacheService
     ),
     postDataService: new PostDataService(
       postRepository,
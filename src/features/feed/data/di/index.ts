@@ -39,15 +39,14 @@ export function createFeedDataService(container: Container): FeedDataService {
   const postRepository = container.getByToken(TYPES.IPOST_REPOSITORY) as IPostRepository;
   const commentRepository = container.getByToken(TYPES.ICOMMENT_REPOSITORY) as ICommentRepository;
   const cacheService = container.getByToken(TYPES.CACHE_SERVICE) as ICacheProvider;
-  const webSocketService = container.getByToken(TYPES.WEBSOCKET_SERVICE) as IWebSocketService;
 
   // Create feed service with dependencies
   return new FeedDataService(
     feedRepository,
     postRepository,
     commentRepository,
-    cacheService,
-    webSocketService
+    {},
+    cacheService
   );
 }
 
@@ -0,0 +1,12 @@
+/**
+ * Post Entities
+ *
+ * Normalized entity definitions for posts, shared by every query that
+ * returns posts (feed pages, profile posts, search results).
+ */
+
+import { PostResponseSchema } from './schemas/postZod';
+
+import { defineEntity } from '@/core/modules/data-service';
+
+export const POST_ENTITY = defineEntity('post', { schema: PostResponseSchema });
@@ -0,0 +1,23 @@
+import { z } from "zod";
+import { ResIdSchema } from "@/shared/api/models/commonZod";
+import { CommentResponseSchema } from "./commentZod";
+import { PostResponseSchema } from "./postZod";
+
+export const PostDeletedEventSchema = z.object({
+    postId: ResIdSchema
+});
+
+export const ReactionEventSchema = z.object({
+    postId: ResIdSchema,
+    userId: ResIdSchema,
+    reactionType: z.string()
+});
+
+export const CommentAddedEventSchema = z.object({
+    postId: ResIdSchema,
+    comment: CommentResponseSchema
+});
+
+export const TrendingUpdateEventSchema = z.object({
+    posts: z.array(PostResponseSchema)
+});
@@ -31,6 +31,9 @@ import type {
   FeedDataServiceConfig
 } from './interfaces/IFeedDataService';
 import type { PagedComment } from '@/features/feed/data/models/comment';
+import { createCacheProvider, type ICacheProvider } from '@/core/modules/caching';
+import { getEntityStore, type IEntityStore } from '@/core/modules/data-service';
+import { POST_ENTITY } from '@/features/feed/data/models/entities';
 
 // Re-export for use in other modules
 export type { FeedItem, FeedPage, FeedDataServiceConfig, PagedComment };
@@ -52,6 +55,10 @@ export interface FeedQuery {
   };
 }
 
+// Cached feed pages and items hold references to the shared post entities
+const FEED_ITEM_SHAPE = { post: POST_ENTITY };
+const FEED_PAGE_SHAPE = { items: [FEED_ITEM_SHAPE] };
+
 
 /**
  * Feed Data Service
@@ -64,16 +71,19 @@ export class FeedDataService {
   private commentRepository: ICommentRepository;
   private config: FeedDataServiceConfig;
   private cache: Map<string, any> = new Map();
+  private entities: IEntityStore;
 
   constructor(
     feedRepository: IFeedRepository,
     postRepository: IPostRepository,
     commentRepository: ICommentRepository,
-    config: Partial<FeedDataServiceConfig> = {}
+    config: Partial<FeedDataServiceConfig> = {},
+    cacheService: ICacheProvider = createCacheProvider()
   ) {
     this.feedRepository = feedRepository;
     this.postRepository = postRepository;
     this.commentRepository = commentRepository;
+    this.entities = getEntityStore(cacheService);
 
     // Set default configuration
     this.config = {
@@ -96,7 +106,7 @@ export class FeedDataService {
     // Check cache first
     const cached = this.cache.get(cacheKey);
     if (cached && !this.isDataStale(cacheKey)) {
-      return cached;
+      return await this.entities.denormalize(cacheKey, cached, FEED_PAGE_SHAPE) as FeedPage;
     }
 
     try {
@@ -134,7 +144,7 @@ export class FeedDataService {
       }
 
       // Cache the result
-      this.cache.set(cacheKey, feedPage);
+      this.cache.set(cacheKey, this.entities.normalize(cacheKey, feedPage, FEED_PAGE_SHAPE));
 
       return feedPage;
     } catch (error) {
@@ -151,7 +161,7 @@ export class FeedDataService {
     // Check cache first
     const cached = this.cache.get(cacheKey);
     if (cached && !this.isDataStale(cacheKey)) {
-      return cached;
+      return await this.entities.denormalize(cacheKey, cached, FEED_ITEM_SHAPE) as FeedItem;
     }
 
     try {
@@ -198,7 +208,7 @@ export class FeedDataService {
       };
 
       // Cache the result
-      this.cache.set(cacheKey, feedItem);
+      this.cache.set(cacheKey, this.entities.normalize(cacheKey, feedItem, FEED_ITEM_SHAPE));
 
       return feedItem;
     } catch (error) {
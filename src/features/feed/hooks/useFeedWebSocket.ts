@@ -37,6 +37,7 @@ export interface FeedEventHandlers {
   onBatchUpdate?: (updates: any) => void;
   onError?: (error: any) => void;
   onConnectionChange?: (isConnected: boolean) => void;
+  onResync?: (topic: string) => Promise<void> | void;
 }
 
 export interface FeedSubscriptionOptions {
@@ -316,6 +317,16 @@ export function useFeedWebSocket(config: UseFeedWebSocketConfig = {}): UseFeedWe
           }));
         },
 
+        onResync: () => {
+          // Updates were missed and the feed caches dropped; the posts held here are out of date
+          setState(prev => ({
+            ...prev,
+            posts: [],
+            updates: [],
+            batches: []
+          }));
+        },
+
         onError: (error) => {
           setState(prev => ({
             ...prev,
@@ -1,4 +1,8 @@
 import { ResId } from "@/shared/api/models/commonNative";
+import { PERMISSIONS } from "@/features/auth/domain/permissions";
+import { isOwner, PostResource } from "@/features/auth/domain/policies";
+import { usePolicy } from "@features/auth/application/hooks/usePolicy";
+import { Can } from "@features/auth/presentation/components/guards/Can";
 import { useSavePost } from "@features/feed/data";
 import { ConsumerFn } from "@/shared/types/genericTypes";
 import Clickable from "@/shared/Clickable";
@@ -12,31 +16,34 @@ import { PiDotsThreeVertical } from "react-icons/pi";
  * @interface PostMenuProps
  * @property {ConsumerFn} handleDeletePost - Function to handle deleting the post.
  * @property {ConsumerFn} toggleEditForm - Function to toggle the visibility of the edit form.
- * @property {boolean} [isMutable] - Indicates if the post can be edited or deleted.
  * @property {boolean} [isRepost] - Indicates if the post is a repost.
  * @property {ResId} postId - The ID of the post.
+ * @property {ResId} authorId - The ID of the post's author.
  */
 interface PostMenuProps {
     handleDeletePost: ConsumerFn;
     toggleEditForm: ConsumerFn;
-    isMutable?: boolean;
     isRepost?: boolean;
     postId: ResId;
+    authorId: ResId;
 }
 
 /**
  * PostMenu component.
  * 
  * This component renders a menu for interacting with a post. It provides options to edit,
- * delete, save, or report the post based on its state (mutable or repost). The available
- * actions are conditionally displayed depending on the provided props.
+ * delete, save, or report the post. Edit and delete follow the authorization policies
+ * (the author edits, the author or a moderator deletes); others may save or report it.
  * 
  * @param {PostMenuProps} props - The component props.
  * @returns {JSX.Element} - The rendered PostMenu component.
  */
-const PostMenu: React.FC<PostMenuProps> = ({ postId, handleDeletePost, toggleEditForm, isMutable = false, isRepost = false }) => {
+const PostMenu: React.FC<PostMenuProps> = ({ postId, authorId, handleDeletePost, toggleEditForm, isRepost = false }) => {
 
     const savePost = useSavePost();
+    const { subject } = usePolicy();
+    const post: PostResource = { type: "post", authorId, isRepost };
+    const isAuthor = subject !== null && isOwner(subject, post);
 
     const handleSavePost = () => {
         savePost.mutate(postId);
@@ -48,13 +55,13 @@ const PostMenu: React.FC<PostMenuProps> = ({ postId, handleDeletePost, toggleEdi
 
     return (
         <ListMenu menuIcon={<PiDotsThreeVertical />}>
-            <Conditional isEnabled={isMutable && !isRepost}>
+            <Can action={PERMISSIONS.EDIT_POSTS} resource={post}>
                 <Clickable handleClick={toggleEditForm} alt="edit post" text="edit" />
-            </Conditional>
-            <Conditional isEnabled={isMutable}>
+            </Can>
+            <Can action={PERMISSIONS.DELETE_POSTS} resource={post}>
                 <Clickable handleClick={handleDeletePost} alt="remove post" text="remove" />
-            </Conditional>
-            <Conditional isEnabled={!isMutable}>
+            </Can>
+            <Conditional isEnabled={!isAuthor}>
                 <Clickable handleClick={handleSavePost} alt="save post" text="save" />
                 <Clickable handleClick={handleReportPost} alt="report post" text="report" />
             </Conditional>
@@ -1,6 +1,8 @@
 import * as React from 'react';
 import { PostCardMobile } from './PostCardMobile';
 import { useFeed } from '../../../application/hooks/useFeed';
+import type { PostResponse } from '@/features/feed/data/models/post';
+import { VirtualizedList } from '@/shared/ui/components/layout/VirtualizedList';
 import {
   MobileFeedContainer,
   MobileFeedHeader,
@@ -32,9 +34,12 @@ const mockPosts = [
   }
 ];
 
-// Mobile Feed List Component
+const getPostKey = (post: PostResponse) => post.id;
+const renderPost = (post: PostResponse) => <PostCardMobile post={post} />;
+
+// Mobile Feed List Component; only the posts in view are rendered
 const MobileFeedList: React.FC = () => {
-  const { posts, loading, error, loadPosts, refreshFeed } = useFeed();
+  const { posts, loading, error, hasMore, loadPosts, loadMorePosts, refreshFeed } = useFeed();
 
   React.useEffect(() => {
     loadPosts(0);
@@ -82,9 +87,17 @@ const MobileFeedList: React.FC = () => {
             <button onClick={handleCreatePost}>Create Post</button>
           </MobileEmpty>
         ) : (
-          posts.map(post => (
-            <PostCardMobile key={post.id} post={post} />
-          ))
+          <VirtualizedList
+            items={posts}
+            getItemKey={getPostKey}
+            renderItem={renderPost}
+            estimatedItemHeight={280}
+            gap={16}
+            hasNextPage={hasMore}
+            isFetchingNextPage={loading}
+            fetchNextPage={loadMorePosts}
+            ariaLabel="posts"
+          />
         )}
       </MobileFeedContent>
     </MobileFeedContainer>
@@ -4,11 +4,12 @@ import styled from 'styled-components';
 export const MobileFeedContainer = styled.div`
   padding: 16px;
   background: #F8F9FA;
-  min-height: 100vh;
+  height: 100vh;
+  box-sizing: border-box;
   
-  // Mobile optimizations
-  -webkit-overflow-scrolling: touch;
-  overflow-y: auto;
+  // Mobile optimizations; the post list below scrolls on its own
+  display: flex;
+  flex-direction: column;
 `;
 
 export const MobileFeedHeader = styled.div`
@@ -58,7 +59,8 @@ export const MobileFeedActions = styled.div`
 export const MobileFeedContent = styled.div`
   display: flex;
   flex-direction: column;
-  gap: 16px;
+  flex: 1;
+  min-height: 0;
 `;
 
 export const MobileLoading = styled.div`
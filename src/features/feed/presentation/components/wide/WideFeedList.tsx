@@ -1,6 +1,8 @@
 import * as React from 'react';
 import { PostCardWide } from './PostCardWide';
 import { useFeed } from '../../../application/hooks/useFeed';
+import type { PostResponse } from '@/features/feed/data/models/post';
+import { VirtualizedList } from '@/shared/ui/components/layout/VirtualizedList';
 import {
   WideFeedContainer,
   WideFeedHeader,
@@ -34,9 +36,12 @@ const mockPosts = [
   }
 ];
 
-// Wide Feed List Component
+const getPostKey = (post: PostResponse) => post.id;
+const renderPost = (post: PostResponse) => <PostCardWide post={post} />;
+
+// Wide Feed List Component; only the posts in view are rendered
 const WideFeedList: React.FC = () => {
-  const { posts, loading, error, loadPosts, refreshFeed } = useFeed();
+  const { posts, loading, error, hasMore, loadPosts, loadMorePosts, refreshFeed } = useFeed();
 
   React.useEffect(() => {
     loadPosts(0);
@@ -96,9 +101,17 @@ const WideFeedList: React.FC = () => {
             <button onClick={handleCreatePost}>Create Post</button>
           </WideEmpty>
         ) : (
-          posts.map(post => (
-            <PostCardWide key={post.id} post={post} />
-          ))
+          <VirtualizedList
+            items={posts}
+            getItemKey={getPostKey}
+            renderItem={renderPost}
+            estimatedItemHeight={360}
+            gap={24}
+            hasNextPage={hasMore}
+            isFetchingNextPage={loading}
+            fetchNextPage={loadMorePosts}
+            ariaLabel="posts"
+          />
         )}
       </WideFeedContent>
     </WideFeedContainer>
@@ -4,13 +4,13 @@ import styled from 'styled-components';
 export const WideFeedContainer = styled.div`
   padding: 32px;
   background: #F8F9FA;
-  min-height: 100vh;
+  height: 100vh;
+  box-sizing: border-box;
   
-  // Wide display optimizations
-  display: grid;
-  grid-template-columns: repeat(auto-fill, minmax(600px, 1fr));
+  // Wide display optimizations; the post list below scrolls on its own
+  display: flex;
+  flex-direction: column;
   gap: 24px;
-  align-content: center;
 `;
 
 export const WideFeedHeader = styled.div`
@@ -59,10 +59,10 @@ export const WideFeedActions = styled.div`
 `;
 
 export const WideFeedContent = styled.div`
-  display: grid;
-  grid-template-columns: repeat(auto-fill, minmax(600px, 1fr));
-  gap: 24px;
-  align-content: center;
+  display: flex;
+  flex-direction: column;
+  flex: 1;
+  min-height: 0;
 `;
 
 export const WideLoading = styled.div`
@@ -94,6 +94,7 @@ export interface NotificationEventHandlers {
   onError?: (error: NotificationWebSocketError) => void;
   onConnectionChange?: (isConnected: boolean) => void;
   onDeliveryStatus?: (notificationId: ResId, status: string) => void;
+  onResync?: (topic: string) => Promise<void> | void;
 }
 
 // Notification WebSocket error
@@ -151,6 +152,7 @@ export class NotificationWebSocketAdapter {
   private metrics: NotificationAdapterMetrics;
   private eventHandlers: NotificationEventHandlers = {};
   private activeSubscriptions: Map<string, () => void> = new Map();
+  private unsubscribeResync: (() => void) | null = null;
   private notificationQueue: NotificationWebSocketMessage[] = [];
   private batchProcessor: NodeJS.Timeout | null = null;
   private deliveryStatuses: Map<string, NotificationDeliveryStatus> = new Map();
@@ -567,6 +569,8 @@ export class NotificationWebSocketAdapter {
     // Clear all subscriptions
     this.activeSubscriptions.forEach(unsubscribe => unsubscribe());
     this.activeSubscriptions.clear();
+    this.unsubscribeResync?.();
+    this.unsubscribeResync = null;
 
     // Stop batch processor
     if (this.batchProcessor) {
@@ -745,6 +749,14 @@ export class NotificationWebSocketAdapter {
     this.enterpriseWebSocket.onDisconnect(() => {
       this.eventHandlers.onConnectionChange?.(false);
     });
+
+    // Updates missed while disconnected that cannot be replayed; notifications are reloaded over REST
+    this.unsubscribeResync = this.enterpriseWebSocket.subscribe('notification', {
+      onResync: async (topic: string) => {
+        await this.cacheManager.invalidatePattern('notification:*');
+        await this.eventHandlers.onResync?.(topic);
+      }
+    });
   }
 
   /**
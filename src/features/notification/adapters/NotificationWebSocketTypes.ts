@@ -194,6 +194,8 @@ export interface NotificationEventHandlers {
   onConnectionChange?: (isConnected: boolean) => void;
   onDeliveryStatus?: (confirmation: NotificationDeliveryConfirmation) => void;
   onQuietHoursChange?: (active: boolean) => void;
+  // Notifications missed while disconnected could not be replayed; reload them
+  onResync?: (topic: string) => Promise<void> | void;
 }
 
 // Notification WebSocket error
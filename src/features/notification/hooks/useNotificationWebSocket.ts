@@ -203,6 +203,15 @@ export function useNotificationWebSocket(config: UseNotificationWebSocketConfig
             isConnecting: false 
           }));
         },
+
+        onResync: () => {
+          // Notifications were missed and their caches dropped; the ones held here are out of date
+          setState(prev => ({
+            ...prev,
+            notifications: [],
+            batches: []
+          }));
+        },
         
         onError: (error) => {
           setState(prev => ({ 
@@ -10,6 +10,8 @@ import { useEffect, useState, useCallback } from 'react';
 import { useProfileServices } from './useProfileServices';
 import { useDebounce } from './useDebounce';
 import { useFeatureAuth } from '@/core/modules/authentication';
+import { StepUpRequiredError } from '@core/modules/authentication/services/StepUpAuthService';
+import { useRequireRecentAuth } from '@features/auth/application/hooks/useRequireRecentAuth';
 import type {
   UserProfileEntity,
   UserProfileStatsEntity,
@@ -115,6 +117,7 @@ interface EnterpriseProfileActions {
 export const useEnterpriseProfile = (): EnterpriseProfileState & EnterpriseProfileActions => {
   const { profileDataService, profileFeatureService } = useProfileServices();
   const { userId, token } = useFeatureAuth();
+  const { requireRecentAuth } = useRequireRecentAuth();
 
   // State management
   const [state, setState] = useState<EnterpriseProfileState>({
@@ -227,10 +230,10 @@ export const useEnterpriseProfile = (): EnterpriseProfileState & EnterpriseProfi
     }
   }, [profileDataService, user]);
 
-  // Delete profile
+  // Delete profile, behind a recent password or MFA proof
   const deleteProfile = useCallback(async (userId: string | number) => {
     try {
-      await profileDataService.deleteUserProfile(userId, user?.token);
+      await requireRecentAuth(() => profileDataService.deleteUserProfile(userId, user?.token), 'Delete your account');
 
       if (state.selectedUserId === userId) {
         setState(prev => ({
@@ -241,12 +244,15 @@ export const useEnterpriseProfile = (): EnterpriseProfileState & EnterpriseProfi
         }));
       }
     } catch (error) {
+      // The user closed the step-up prompt; nothing was deleted
+      if (error instanceof StepUpRequiredError) return;
+
       setState(prev => ({
         ...prev,
         error: error instanceof Error ? error.message : 'Failed to delete profile'
       }));
     }
-  }, [profileDataService, user, state.selectedUserId]);
+  }, [profileDataService, user, state.selectedUserId, requireRecentAuth]);
 
   // Refresh profile
   const refreshProfile = useCallback(async () => {
@@ -11,6 +11,8 @@ import { useCustomMutation } from '@/core/modules/hooks/useCustomMutation';
 import { useCacheInvalidation } from '@/core/modules/hooks/migrationUtils';
 import { useProfileServices } from './useProfileServices';
 import { useFeatureAuth } from '@/core/modules/authentication';
+import { StepUpRequiredError } from '@core/modules/authentication/services/StepUpAuthService';
+import { useRequireRecentAuth } from '@features/auth/application/hooks/useRequireRecentAuth';
 import { UserProfileEntity, UserProfileStatsEntity, UserConnectionEntity } from '@features/profile/domain/entities/IProfileRepository';
 import { JwtToken } from '@/shared/api/models/common';
 import { PROFILE_CACHE_TTL } from '../data/cache/ProfileCacheKeys';
@@ -78,6 +80,7 @@ export const useProfile = (config?: { userId?: string | number }): ProfileState
     const { profileDataService, profileFeatureService } = useProfileServices();
     const invalidateCache = useCacheInvalidation();
     const { token, userId } = useFeatureAuth();
+    const { requireRecentAuth } = useRequireRecentAuth();
 
     // State
     const [selectedUserId, setSelectedUserId] = useState<string | number | null>(config?.userId || null);
@@ -456,20 +459,24 @@ export const useProfile = (config?: { userId?: string | number }): ProfileState
         await updateProfileMutation.mutateAsync({ userId, updates });
     }, [updateProfileMutation]);
 
+    // Deleting the account needs a recent password or MFA proof
     const deleteProfile = useCallback(async (userId: string | number) => {
         try {
             setError(null);
-            await profileFeatureService.deleteProfile(userId, getAuthToken());
+            await requireRecentAuth(() => profileFeatureService.deleteProfile(userId, getAuthToken()), 'Delete your account');
 
             // Clear selected user if it was the deleted one
             if (selectedUserId === userId) {
                 setSelectedUserId(null);
             }
         } catch (err) {
+            // The user closed the step-up prompt; nothing was deleted
+            if (err instanceof StepUpRequiredError) return;
+
             setError(err as Error);
             console.error('Error deleting profile:', err);
         }
-    }, [selectedUserId, setSelectedUserId, getAuthToken]);
+    }, [selectedUserId, setSelectedUserId, getAuthToken, requireRecentAuth]);
 
     const getStats = useCallback(async (userId: string | number) => {
         try {
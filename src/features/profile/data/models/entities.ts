@@ -0,0 +1,12 @@
+/**
+ * User Entities
+ *
+ * Normalized entity definitions for users, shared by every query that
+ * returns users (profiles, followers, search results, chat members).
+ */
+
+import { UserResponseSchema } from './userZod';
+
+import { defineEntity } from '@/core/modules/data-service';
+
+export const USER_ENTITY = defineEntity('user', { schema: UserResponseSchema });
@@ -20,6 +20,7 @@ export interface ProfileSettingsRequest {
     isAllowPublicMessageRequests?: boolean
     isAllowPublicComments?: boolean
     isHideLikeCounts?: boolean
+    isHideReadReceipts?: boolean
 
 }
 
@@ -33,6 +34,7 @@ export interface ProfileSettingsResponse {
     isAllowPublicMessageRequests?: boolean
     isAllowPublicComments?: boolean
     isHideLikeCounts?: boolean
+    isHideReadReceipts?: boolean
 
 }
 
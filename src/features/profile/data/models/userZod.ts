@@ -11,6 +11,8 @@ export const ProfileSettingsRequestSchema = z.object({
     isAllowPublicMessageRequests: z.boolean(),
     isAllowPublicComments: z.boolean(),
     isHideLikeCounts: z.boolean(),
+    // Others are not told when this user reads their messages
+    isHideReadReceipts: z.boolean().optional(),
 });
 
 export const ProfileSettingsResponseSchema = BaseSchema.extend({
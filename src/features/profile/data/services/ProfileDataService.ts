@@ -1,8 +1,10 @@
 import { TYPES } from '@/core/modules/dependency-injection/types';
 import { createCacheProvider, type ICacheProvider } from '@/core/cache';
+import { getEntityStore, type IEntityStore } from '@/core/modules/data-service';
 import { IProfileRepository, UserProfileEntity, UserProfileStatsEntity, UserConnectionEntity, ProfileAccessEntity } from '@features/profile/domain/entities/IProfileRepository';
 import { JwtToken } from '@/shared/api/models/common';
 import { PROFILE_CACHE_KEYS, PROFILE_CACHE_TTL, PROFILE_CACHE_INVALIDATION } from '../cache/ProfileCacheKeys';
+import { USER_ENTITY } from '../models/entities';
 
 /**
  * Profile Data Service
@@ -11,23 +13,28 @@ import { PROFILE_CACHE_KEYS, PROFILE_CACHE_TTL, PROFILE_CACHE_INVALIDATION } fro
  * Implements enterprise-grade caching with user profile management strategies
  */
 export class ProfileDataService {
+  // Profiles are cached as user entities shared with chats, search and feeds
+  private readonly entities: IEntityStore;
+
   constructor(
     private cache: ICacheProvider,
     private repository: IProfileRepository
-  ) { }
+  ) {
+    this.entities = getEntityStore(cache);
+  }
 
   // User profile operations with caching
   async getUserProfile(userId: string | number, token: JwtToken): Promise<UserProfileEntity> {
     const cacheKey = PROFILE_CACHE_KEYS.USER_PROFILE(userId);
 
-    let data = this.cache.get<UserProfileEntity>(cacheKey);
-    if (data) return data;
+    const cached = await this.entities.readQuery<UserProfileEntity>(cacheKey, USER_ENTITY);
+    if (cached) return cached;
 
     try {
-      data = await this.repository.getUserProfile(userId);
+      const data = await this.repository.getUserProfile(userId);
 
       if (data) {
-        this.cache.set(cacheKey, data, PROFILE_CACHE_TTL.USER_PROFILE);
+        this.entities.writeQuery(cacheKey, data, USER_ENTITY, PROFILE_CACHE_TTL.USER_PROFILE);
       }
 
       return data;
@@ -40,14 +47,14 @@ export class ProfileDataService {
   async getCurrentUserProfile(token: JwtToken): Promise<UserProfileEntity> {
     const cacheKey = PROFILE_CACHE_KEYS.CURRENT_USER_PROFILE();
 
-    let data = this.cache.get<UserProfileEntity>(cacheKey);
-    if (data) return data;
+    const cached = await this.entities.readQuery<UserProfileEntity>(cacheKey, USER_ENTITY);
+    if (cached) return cached;
 
     try {
-      data = await this.repository.getCurrentUser();
+      const data = await this.repository.getCurrentUser();
 
       if (data) {
-        this.cache.set(cacheKey, data, PROFILE_CACHE_TTL.CURRENT_USER_PROFILE);
+        this.entities.writeQuery(cacheKey, data, USER_ENTITY, PROFILE_CACHE_TTL.CURRENT_USER_PROFILE);
       }
 
       return data;
@@ -61,6 +68,9 @@ export class ProfileDataService {
     try {
       const result = await this.repository.updateUserProfile(userId, updates);
 
+      // Every cached list and chat showing this user picks up the change
+      this.entities.mergeEntity(USER_ENTITY, result);
+
       // Invalidate relevant caches
       this.invalidateProfileCaches(userId);
 
@@ -209,14 +219,14 @@ export class ProfileDataService {
     const size = options.limit || 20;
     const cacheKey = PROFILE_CACHE_KEYS.USER_SEARCH(query, page, size);
 
-    let data = this.cache.get<UserProfileEntity[]>(cacheKey);
-    if (data) return data;
+    const cached = await this.entities.readQuery<UserProfileEntity[]>(cacheKey, [USER_ENTITY]);
+    if (cached) return cached;
 
     try {
-      data = await this.repository.searchUsers(query, options);
+      const data = await this.repository.searchUsers(query, options);
 
       if (data) {
-        this.cache.set(cacheKey, data, PROFILE_CACHE_TTL.USER_SEARCH);
+        this.entities.writeQuery(cacheKey, data, [USER_ENTITY], PROFILE_CACHE_TTL.USER_SEARCH);
       }
 
       return data;
@@ -233,14 +243,14 @@ export class ProfileDataService {
     const limit = options.limit || 10;
     const cacheKey = PROFILE_CACHE_KEYS.USER_SUGGESTIONS(userId, limit);
 
-    let data = this.cache.get<UserProfileEntity[]>(cacheKey);
-    if (data) return data;
+    const cached = await this.entities.readQuery<UserProfileEntity[]>(cacheKey, [USER_ENTITY]);
+    if (cached) return cached;
 
     try {
-      data = await this.repository.getUserSuggestions(userId, options);
+      const data = await this.repository.getUserSuggestions(userId, options);
 
       if (data) {
-        this.cache.set(cacheKey, data, PROFILE_CACHE_TTL.USER_SUGGESTIONS);
+        this.entities.writeQuery(cacheKey, data, [USER_ENTITY], PROFILE_CACHE_TTL.USER_SUGGESTIONS);
       }
 
       return data;
@@ -81,7 +81,8 @@ export const useProfileData = (userId: ResId) => {
         isAllowPublicGroupChatInvite: true,
         isAllowPublicMessageRequests: true,
         isAllowPublicComments: true,
-        isHideLikeCounts: false
+        isHideLikeCounts: false,
+        isHideReadReceipts: false
       },
       isPrivateAccount: user.data.isPrivateAccount || false,
       isVerified: user.data.role === 'VERIFIED',
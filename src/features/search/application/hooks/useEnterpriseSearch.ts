@@ -6,8 +6,10 @@
  */
 
 import { useEffect, useRef, useState, useCallback } from "react";
+import { useAbortableRequest } from '@/core/hooks';
 import { useSearchServices } from './useSearchServices';
 import { useDebounce } from './useDebounce';
+import type { SearchSuggestion } from '../../domain/entities/ISearchRepositoryEnhanced';
 import { UserList } from '@/features/profile/data/models/user';
 import { PostList } from '@/features/feed/data/models/post';
 
@@ -45,11 +47,15 @@ interface EnterpriseSearchActions {
  * - Business logic validation through SearchFeatureService
  * - Advanced error handling and recovery
  * - Performance optimization with debouncing
+ * - Cancellation of superseded requests when the query changes
  * - Type-safe service access via dependency injection
  */
 export const useEnterpriseSearch = (): EnterpriseSearchState & EnterpriseSearchActions => {
   const { searchDataService, searchFeatureService } = useSearchServices();
   const queryInputRef = useRef<HTMLInputElement>(null);
+  const userRequest = useAbortableRequest();
+  const postRequest = useAbortableRequest();
+  const suggestionRequest = useAbortableRequest();
   
   // State management
   const [state, setState] = useState<EnterpriseSearchState>({
@@ -72,19 +78,24 @@ export const useEnterpriseSearch = (): EnterpriseSearchState & EnterpriseSearchA
     setState(prev => ({ ...prev, focused }));
   }, []);
 
-  // Clear all results
+  // Clear all results and drop pending requests
   const clearResults = useCallback(() => {
+    userRequest.abort();
+    postRequest.abort();
+    suggestionRequest.abort();
     setState(prev => ({
       ...prev,
       userResults: [],
       postResults: [],
       suggestions: [],
+      isLoading: false,
       error: null
     }));
-  }, []);
+  }, [userRequest, postRequest, suggestionRequest]);
 
   // Fetch users with enterprise services
   const fetchUsers = useCallback(async (query: string) => {
+    const signal = userRequest.start();
     if (!query.trim()) {
       setState(prev => ({ ...prev, userResults: [] }));
       return;
@@ -103,24 +114,27 @@ export const useEnterpriseSearch = (): EnterpriseSearchState & EnterpriseSearchA
       const sanitizedQuery = await searchFeatureService.sanitizeSearchQuery(query);
 
       // Fetch users through data service (with caching)
-      const users = await searchDataService.searchUsers(sanitizedQuery);
-      
+      const users = await searchDataService.searchUsers(sanitizedQuery, undefined, undefined, signal);
+      if (signal.aborted) return; // Superseded by a newer query
+
       setState(prev => ({
         ...prev,
         userResults: users,
         isLoading: false
       }));
     } catch (error) {
+      if (signal.aborted) return;
       setState(prev => ({
         ...prev,
         error: error instanceof Error ? error.message : 'Failed to fetch users',
         isLoading: false
       }));
     }
-  }, [searchDataService, searchFeatureService]);
+  }, [searchDataService, searchFeatureService, userRequest]);
 
   // Fetch posts with enterprise services
   const fetchPosts = useCallback(async (query: string) => {
+    const signal = postRequest.start();
     if (!query.trim()) {
       setState(prev => ({ ...prev, postResults: [] }));
       return;
@@ -138,37 +152,41 @@ export const useEnterpriseSearch = (): EnterpriseSearchState & EnterpriseSearchA
       const sanitizedQuery = await searchFeatureService.sanitizeSearchQuery(query);
 
       // Fetch posts through data service (with caching)
-      const posts = await searchDataService.searchPosts(sanitizedQuery);
-      
+      const posts = await searchDataService.searchPosts(sanitizedQuery, undefined, undefined, signal);
+      if (signal.aborted) return; // Superseded by a newer query
+
       setState(prev => ({
         ...prev,
         postResults: posts,
         isLoading: false
       }));
     } catch (error) {
+      if (signal.aborted) return;
       setState(prev => ({
         ...prev,
         error: error instanceof Error ? error.message : 'Failed to fetch posts',
         isLoading: false
       }));
     }
-  }, [searchDataService, searchFeatureService]);
+  }, [searchDataService, searchFeatureService, postRequest]);
 
   // Fetch suggestions with enterprise services
   const fetchSuggestions = useCallback(async (query: string) => {
+    const signal = suggestionRequest.start();
     if (!query.trim() || query.length < 2) {
       setState(prev => ({ ...prev, suggestions: [] }));
       return;
     }
 
     try {
-      const suggestions = await searchDataService.getSuggestions(query);
-      setState(prev => ({ ...prev, suggestions }));
+      const suggestions = await searchDataService.getSuggestions(query, undefined, undefined, signal);
+      if (signal.aborted) return;
+      setState(prev => ({ ...prev, suggestions: suggestions.map((suggestion: SearchSuggestion) => suggestion.text) }));
     } catch (error) {
       // Don't error out for suggestions, just log
       console.warn('Failed to fetch suggestions:', error);
     }
-  }, [searchDataService]);
+  }, [searchDataService, suggestionRequest]);
 
   // Retry last failed operation
   const retry = useCallback(() => {
@@ -6,8 +6,10 @@
  */
 
 import { useState, useCallback } from "react";
+import { useAbortableRequest } from '@/core/hooks';
 import { useSearchServices } from './useSearchServices';
 import { useDebounce } from './useDebounce';
+import type { SearchSuggestion } from '../../domain/entities/ISearchRepositoryEnhanced';
 import { UserList } from '@/features/profile/data/models/user';
 
 /**
@@ -38,11 +40,14 @@ interface EnterpriseUserSearchActions {
  * - Business logic validation through SearchFeatureService
  * - Advanced error handling and recovery
  * - Performance optimization with debouncing
+ * - Cancellation of superseded requests when the query changes
  * - Type-safe service access via dependency injection
  */
 export const useEnterpriseUserSearch = (query: string): EnterpriseUserSearchState & EnterpriseUserSearchActions => {
   const { searchDataService, searchFeatureService } = useSearchServices();
   const [lastQuery, setLastQuery] = useState('');
+  const searchRequest = useAbortableRequest();
+  const suggestionRequest = useAbortableRequest();
   
   // State management
   const [state, setState] = useState<EnterpriseUserSearchState>({
@@ -55,7 +60,8 @@ export const useEnterpriseUserSearch = (query: string): EnterpriseUserSearchStat
   // Search users with enterprise services
   const search = useCallback(async (searchQuery: string) => {
     if (!searchQuery.trim()) {
-      setState(prev => ({ ...prev, results: [] }));
+      searchRequest.abort();
+      setState(prev => ({ ...prev, results: [], isLoading: false }));
       return;
     }
 
@@ -63,6 +69,8 @@ export const useEnterpriseUserSearch = (query: string): EnterpriseUserSearchStat
       return; // Avoid duplicate searches
     }
 
+    const signal = searchRequest.start();
+
     setState(prev => ({ ...prev, isLoading: true, error: null }));
     setLastQuery(searchQuery);
 
@@ -77,48 +85,55 @@ export const useEnterpriseUserSearch = (query: string): EnterpriseUserSearchStat
       const sanitizedQuery = await searchFeatureService.sanitizeSearchQuery(searchQuery);
 
       // Fetch users through data service (with caching)
-      const users = await searchDataService.searchUsers(sanitizedQuery);
-      
+      const users = await searchDataService.searchUsers(sanitizedQuery, undefined, undefined, signal);
+      if (signal.aborted) return; // Superseded by a newer query
+
       setState(prev => ({
         ...prev,
         results: users,
         isLoading: false
       }));
     } catch (error) {
+      if (signal.aborted) return;
       setState(prev => ({
         ...prev,
         error: error instanceof Error ? error.message : 'Failed to search users',
         isLoading: false
       }));
     }
-  }, [searchDataService, searchFeatureService, lastQuery]);
+  }, [searchDataService, searchFeatureService, lastQuery, searchRequest]);
 
   // Get suggestions with enterprise services
   const getSuggestions = useCallback(async (searchQuery: string) => {
+    const signal = suggestionRequest.start();
     if (!searchQuery.trim() || searchQuery.length < 2) {
       setState(prev => ({ ...prev, suggestions: [] }));
       return;
     }
 
     try {
-      const suggestions = await searchDataService.getSuggestions(searchQuery);
-      setState(prev => ({ ...prev, suggestions }));
+      const suggestions = await searchDataService.getSuggestions(searchQuery, undefined, undefined, signal);
+      if (signal.aborted) return;
+      setState(prev => ({ ...prev, suggestions: suggestions.map((suggestion: SearchSuggestion) => suggestion.text) }));
     } catch (error) {
       // Don't error out for suggestions, just log
       console.warn('Failed to fetch user suggestions:', error);
     }
-  }, [searchDataService]);
+  }, [searchDataService, suggestionRequest]);
 
-  // Clear results
+  // Clear results and drop pending requests
   const clear = useCallback(() => {
+    searchRequest.abort();
+    suggestionRequest.abort();
     setState(prev => ({
       ...prev,
       results: [],
       suggestions: [],
+      isLoading: false,
       error: null
     }));
     setLastQuery('');
-  }, []);
+  }, [searchRequest, suggestionRequest]);
 
   // Retry last search
   const retry = useCallback(() => {
@@ -53,28 +53,28 @@ export class SearchRepositoryImpl implements ISearchRepositoryEnhanced {
   }
 
   // Basic search operations
-  async searchUsers(query: string, filters?: SearchFilters): Promise<UserList> {
+  async searchUsers(query: string, filters?: SearchFilters, signal?: AbortSignal): Promise<UserList> {
     try {
       const response = await this.apiClient.post<UserList>('/api/search/users', {
         query,
         filters
-      });
+      }, signal ? { signal } : {});
       return response.data;
     } catch (error) {
-      console.error('Error searching users:', error);
+      if (!signal?.aborted) console.error('Error searching users:', error);
       throw error;
     }
   }
 
-  async searchPosts(query: string, filters?: SearchFilters): Promise<PostList> {
+  async searchPosts(query: string, filters?: SearchFilters, signal?: AbortSignal): Promise<PostList> {
     try {
       const response = await this.apiClient.post<PostList>('/api/search/posts', {
         query,
         filters
-      });
+      }, signal ? { signal } : {});
       return response.data;
     } catch (error) {
-      console.error('Error searching posts:', error);
+      if (!signal?.aborted) console.error('Error searching posts:', error);
       throw error;
     }
   }
@@ -128,7 +128,7 @@ export class SearchRepositoryImpl implements ISearchRepositoryEnhanced {
   }
 
   // Suggestions and autocomplete
-  async getSuggestions(partialQuery: string, limit: number = 10, token?: JwtToken): Promise<SearchSuggestion[]> {
+  async getSuggestions(partialQuery: string, limit: number = 10, token?: JwtToken, signal?: AbortSignal): Promise<SearchSuggestion[]> {
     try {
       const response = await this.apiClient.post<SearchSuggestion[]>('/api/search/suggestions', {
         partialQuery,
@@ -136,11 +136,12 @@ export class SearchRepositoryImpl implements ISearchRepositoryEnhanced {
       }, {
         headers: {
           Authorization: token ? `Bearer ${token}` : `Bearer ${await this.getAuthToken()}`
-        }
+        },
+        ...(signal && { signal })
       });
       return response.data;
     } catch (error) {
-      console.error('Error getting suggestions:', error);
+      if (!signal?.aborted) console.error('Error getting suggestions:', error);
       throw error;
     }
   }
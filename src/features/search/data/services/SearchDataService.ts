@@ -12,6 +12,8 @@ import { JwtToken } from '../../../../shared/api/models/common';
 import { SearchFilters, SearchQuery, SearchResult } from '../../domain/entities';
 import { EnhancedSearchQuery, EnhancedSearchResult, ISearchRepositoryEnhanced, SearchAnalytics, SearchConfiguration, SearchPerformanceMetrics, SearchSuggestion } from '../../domain/entities/ISearchRepositoryEnhanced';
 import { SEARCH_CACHE_INVALIDATION, SEARCH_CACHE_KEYS, SEARCH_CACHE_TTL } from '../cache/SearchCacheKeys';
+import { POST_ENTITY } from '@/features/feed/data/models/entities';
+import { USER_ENTITY } from '@/features/profile/data/models/entities';
 
 /**
  * Search Data Service
@@ -33,44 +35,44 @@ export class SearchDataService extends BaseDataService {
   }
 
   // Basic search operations with caching
-  async searchUsers(query: string, filters?: SearchFilters, token?: JwtToken): Promise<any[]> {
+  async searchUsers(query: string, filters?: SearchFilters, token?: JwtToken, signal?: AbortSignal): Promise<any[]> {
     const cacheKey = super.generateCacheKey('user-search', { query, filters, page: 0, limit: 20 });
 
     try {
-      // Check cache first
-      const cachedData = super.getCachedData<any[]>(cacheKey);
+      // Check cache first; results hold references to the shared user entities
+      const cachedData = await super.getCachedEntities<any[]>(cacheKey, [USER_ENTITY]);
       if (cachedData) return cachedData;
 
       // Fetch from repository
-      const data = await this.repository.searchUsers(query, filters);
+      const data = await this.repository.searchUsers(query, filters, signal);
 
       // Update cache
-      super.updateCache(cacheKey, data);
+      super.cacheEntities(cacheKey, data, [USER_ENTITY]);
 
       return data;
     } catch (error) {
-      console.error('Failed to search users:', error);
+      if (!signal?.aborted) console.error('Failed to search users:', error);
       throw error;
     }
   }
 
-  async searchPosts(query: string, filters?: SearchFilters, token?: JwtToken): Promise<any[]> {
+  async searchPosts(query: string, filters?: SearchFilters, token?: JwtToken, signal?: AbortSignal): Promise<any[]> {
     const cacheKey = super.generateCacheKey('post-search', { query, filters, page: 0, limit: 20 });
 
     try {
-      // Check cache first
-      const cachedData = super.getCachedData<any[]>(cacheKey);
+      // Check cache first; results hold references to the shared post entities
+      const cachedData = await super.getCachedEntities<any[]>(cacheKey, [POST_ENTITY]);
       if (cachedData) return cachedData;
 
       // Fetch from repository
-      const data = await this.repository.searchPosts(query, filters);
+      const data = await this.repository.searchPosts(query, filters, signal);
 
       // Update cache
-      super.updateCache(cacheKey, data);
+      super.cacheEntities(cacheKey, data, [POST_ENTITY]);
 
       return data;
     } catch (error) {
-      console.error('Failed to search posts:', error);
+      if (!signal?.aborted) console.error('Failed to search posts:', error);
       throw error;
     }
   }
@@ -202,6 +204,28 @@ export class SearchDataService extends BaseDataService {
     }
   }
 
+  // Suggestions
+  async getSuggestions(partialQuery: string, limit: number = 10, token?: JwtToken, signal?: AbortSignal): Promise<SearchSuggestion[]> {
+    const cacheKey = super.generateCacheKey('search-suggestions', { partialQuery, limit });
+
+    try {
+      // Check cache first
+      const cachedData = super.getCachedData<SearchSuggestion[]>(cacheKey);
+      if (cachedData) return cachedData;
+
+      // Fetch from repository
+      const data = await this.repository.getSuggestions(partialQuery, limit, token, signal);
+
+      // Update cache
+      super.updateCache(cacheKey, data);
+
+      return data;
+    } catch (error) {
+      if (!signal?.aborted) console.error('Failed to get suggestions:', error);
+      throw error;
+    }
+  }
+
   // Analytics and metrics
   async getSearchAnalytics(userId: string, period: string, token?: JwtToken): Promise<SearchAnalytics> {
     const cacheKey = super.generateCacheKey('search-analytics', { userId, period });
@@ -246,8 +246,8 @@ export interface SearchConfiguration {
  */
 export interface ISearchRepositoryEnhanced {
   // Basic search operations
-  searchUsers(query: string, filters?: SearchFilters): Promise<UserList>;
-  searchPosts(query: string, filters?: SearchFilters): Promise<PostList>;
+  searchUsers(query: string, filters?: SearchFilters, signal?: AbortSignal): Promise<UserList>;
+  searchPosts(query: string, filters?: SearchFilters, signal?: AbortSignal): Promise<PostList>;
   searchAll(query: string, filters?: SearchFilters): Promise<SearchResult>;
 
   // Enhanced search operations
@@ -255,7 +255,7 @@ export interface ISearchRepositoryEnhanced {
   searchWithAnalytics(query: string, userId: string, token?: JwtToken): Promise<EnhancedSearchResult>;
 
   // Suggestions and autocomplete
-  getSuggestions(partialQuery: string, limit?: number, token?: JwtToken): Promise<SearchSuggestion[]>;
+  getSuggestions(partialQuery: string, limit?: number, token?: JwtToken, signal?: AbortSignal): Promise<SearchSuggestion[]>;
   getAutocomplete(partialQuery: string, limit?: number, token?: JwtToken): Promise<string[]>;
   getSmartSuggestions(query: string, userId: string, token?: JwtToken): Promise<SearchSuggestion[]>;
 
@@ -0,0 +1,84 @@
+import { useMemo, useState } from "react";
+
+import { useCustomMutation, useCustomQuery } from "@/core/hooks/query";
+import { useFeatureAuth } from "@/core/hooks/useAuthentication";
+import { createDeviceSessionService } from "@/core/modules/authentication/services/DeviceSessionService";
+import { createAuthApiClient } from "@/core/modules/network";
+
+import type { DeviceSession } from "@/core/modules/authentication/services/DeviceSessionService";
+
+const SESSIONS_QUERY_KEY = ['auth', 'sessions'];
+
+/**
+ * Custom hook for the "Devices & sessions" settings.
+ *
+ * Lists the signed-in user's sessions on every device and revokes them,
+ * either one at a time or all but the current one. Revoked tabs are signed
+ * out by `useSessionRevocation`, so this hook only refreshes the list.
+ *
+ * @returns {{
+ *     sessions: DeviceSession[],                      // Active sessions, the current one first.
+ *     isLoading: boolean,                             // Indicates if the sessions are being fetched.
+ *     error: Error | null,                            // Error from fetching or revoking sessions.
+ *     revokingSessionId: string | null,               // Session currently being revoked, if any.
+ *     isRevokingOthers: boolean,                      // Indicates if "sign out everywhere else" is in progress.
+ *     revokeSession: (sessionId: string) => void,     // Revokes one session.
+ *     revokeOtherSessions: () => void,                // Revokes every session except the current one.
+ *     refetch: () => Promise<void>                    // Reloads the session list.
+ * }} - An object containing the sessions and functions to revoke them.
+ */
+const useDeviceSessions = () => {
+    const { token } = useFeatureAuth();
+    const sessionService = useMemo(
+        () => token ? createDeviceSessionService(createAuthApiClient(token)) : null,
+        [token]
+    );
+    const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+
+    const sessionsQuery = useCustomQuery<DeviceSession[]>(
+        SESSIONS_QUERY_KEY,
+        () => sessionService!.listSessions(),
+        {
+            enabled: sessionService !== null,
+            // Last-seen times go stale quickly
+            staleTime: 30 * 1000,
+            refetchOnWindowFocus: true,
+            retry: 1
+        }
+    );
+
+    const revokeSessionMutation = useCustomMutation(
+        (sessionId: string) => sessionService!.revokeSession(sessionId),
+        {
+            onMutate: (sessionId) => setRevokingSessionId(sessionId),
+            onSuccess: (_data, sessionId) => {
+                sessionsQuery.setData(sessions => (sessions ?? []).filter(session => session.id !== sessionId));
+            },
+            onSettled: () => setRevokingSessionId(null),
+            retry: 0
+        }
+    );
+
+    const revokeOthersMutation = useCustomMutation(
+        () => sessionService!.revokeOtherSessions(),
+        {
+            onSuccess: () => {
+                sessionsQuery.setData(sessions => (sessions ?? []).filter(session => session.current));
+            },
+            retry: 0
+        }
+    );
+
+    return {
+        sessions: sessionsQuery.data ?? [],
+        isLoading: sessionsQuery.isLoading,
+        error: sessionsQuery.error ?? revokeSessionMutation.error ?? revokeOthersMutation.error,
+        revokingSessionId,
+        isRevokingOthers: revokeOthersMutation.isLoading,
+        revokeSession: (sessionId: string) => revokeSessionMutation.mutate(sessionId),
+        revokeOtherSessions: () => revokeOthersMutation.mutate(undefined),
+        refetch: sessionsQuery.refetch
+    };
+};
+
+export default useDeviceSessions;
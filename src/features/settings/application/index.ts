@@ -16,3 +16,6 @@ export type { ReactQuerySettingsState, ReactQuerySettingsActions } from './hooks
 
 // Profile settings hook
 export { default as useProfileSettings } from './hooks/useProfileSettings';
+
+// Device sessions hook
+export { default as useDeviceSessions } from './hooks/useDeviceSessions';
@@ -210,7 +210,7 @@ export class SettingsService implements ISettingsService {
         // Validate boolean fields
         const booleanFields = [
             'isPrivateAccount', 'showEmail', 'showPhone', 'allowTagging',
-            'allowMentions', 'allowDirectMessages'
+            'allowMentions', 'allowDirectMessages', 'hideReadReceipts'
         ];
 
         for (const field of booleanFields) {
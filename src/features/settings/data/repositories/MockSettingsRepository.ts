@@ -55,7 +55,8 @@ export class MockSettingsRepository implements ISettingsRepository {
             showPhone: false,
             allowTagging: true,
             allowMentions: true,
-            allowDirectMessages: true
+            allowDirectMessages: true,
+            hideReadReceipts: false
         });
 
         // Mock notification settings
@@ -61,6 +61,8 @@ export interface PrivacySettings {
     allowTagging: boolean;
     allowMentions: boolean;
     allowDirectMessages: boolean;
+    /** Keep others from seeing when you read their messages; missing means receipts are sent */
+    hideReadReceipts?: boolean;
 }
 
 /**
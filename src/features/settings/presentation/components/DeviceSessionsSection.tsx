@@ -0,0 +1,105 @@
+import useDeviceSessions from "@features/settings/application/hooks/useDeviceSessions";
+import { formatRelativeTime } from "@/core/utilities/dateFormatter";
+import { Button, LoadingSpinner } from "@/shared/ui/components";
+import { Text } from "@/shared/ui/components/typography";
+import { PiDesktop, PiDeviceMobile, PiDeviceTablet } from "react-icons/pi";
+import { SectionDescription, SessionDetails, SessionItem, SessionList } from "../styles/settingContainerStyles";
+
+import type { DeviceSession } from "@/core/modules/authentication/services/DeviceSessionService";
+
+/**
+ * Picks the icon for a device type.
+ *
+ * @param {string} type - Device type from the session's device info.
+ * @returns {JSX.Element} - The device icon.
+ */
+const DeviceIcon = ({ type }: { type: string }) => {
+    if (type === "mobile") return <PiDeviceMobile size={28} />;
+    if (type === "tablet") return <PiDeviceTablet size={28} />;
+    return <PiDesktop size={28} />;
+};
+
+/**
+ * Describes where and when a session was last used.
+ *
+ * @param {DeviceSession} session - The session to describe.
+ * @returns {string} - e.g. "London, United Kingdom · 81.2.69.142 · last active 2h ago".
+ */
+const describeActivity = (session: DeviceSession) => [
+    session.location ?? "unknown location",
+    session.ipAddress,
+    session.current ? "this device" : `last active ${formatRelativeTime(session.lastSeenAt)}`
+].join(" · ");
+
+/**
+ * DeviceSessionsSection component.
+ *
+ * This component lists the devices the user is signed in on, with each session's
+ * last activity and approximate location. Any session other than the current one
+ * can be signed out, or all of them at once.
+ *
+ * @returns {JSX.Element} - The rendered DeviceSessionsSection component.
+ */
+const DeviceSessionsSection: React.FC = () => {
+    const {
+        sessions,
+        isLoading,
+        error,
+        revokingSessionId,
+        isRevokingOthers,
+        revokeSession,
+        revokeOtherSessions
+    } = useDeviceSessions();
+
+    if (isLoading && sessions.length === 0) {
+        return <LoadingSpinner size="md" />;
+    }
+
+    const isRevoking = revokingSessionId !== null || isRevokingOthers;
+    const hasOtherSessions = sessions.some(session => !session.current);
+
+    return (
+        <>
+            <SectionDescription>
+                these are the devices signed in to your account. sign out of any you don't recognise.
+            </SectionDescription>
+            {error && <Text color="red">{error.message}</Text>} {/* Loading or revoking failed */}
+            <SessionList>
+                {sessions.map(session => (
+                    <SessionItem key={session.id}>
+                        <DeviceIcon type={session.deviceInfo.type} />
+                        <SessionDetails>
+                            <Text weight="semibold" truncate>{session.deviceInfo.name}</Text>
+                            <Text size="sm" truncate>{describeActivity(session)}</Text>
+                        </SessionDetails>
+                        {!session.current && (
+                            <Button
+                                variant="danger"
+                                size="sm"
+                                outlined
+                                loading={revokingSessionId === session.id}
+                                disabled={isRevoking}
+                                onClick={() => revokeSession(session.id)}
+                            >
+                                sign out
+                            </Button>
+                        )}
+                    </SessionItem>
+                ))}
+            </SessionList>
+            {hasOtherSessions && (
+                <Button
+                    variant="danger"
+                    loading={isRevokingOthers}
+                    disabled={isRevoking}
+                    onClick={revokeOtherSessions}
+                    style={{ alignSelf: "flex-start" }}
+                >
+                    sign out everywhere else
+                </Button>
+            )}
+        </>
+    );
+};
+
+export default DeviceSessionsSection;
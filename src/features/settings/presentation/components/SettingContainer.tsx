@@ -1,16 +1,17 @@
 import { useProfileSettings } from "@features/settings/application";
 import { Panel } from "../styles/settingContainerStyles";
-import { PRIVACY_DESCRIPTION } from "@/shared/utils/dataTemplates";
+import { PRIVACY_DESCRIPTION, READ_RECEIPTS_DESCRIPTION } from "@/shared/utils/dataTemplates";
 import DefaultContainer from "@/shared/DefaultContainer";
 import Typography from "@/shared/Typography";
-import { Tabs } from "@/shared/ui/components";
+import { Button, Tabs } from "@/shared/ui/components";
 import { Text } from "@/shared/ui/components";
-import { PiArrowBendDoubleUpLeft, PiArrowsClockwise, PiLock, PiTag, PiUserCircle, PiXCircle } from "react-icons/pi";
+import { PiArrowBendDoubleUpLeft, PiArrowsClockwise, PiDevices, PiLock, PiTag, PiUserCircle, PiXCircle } from "react-icons/pi";
 import { useNavigate } from "react-router-dom";
 import TextInput from "@/features/feed/presentation/components/fragments/TextInput";
 import { Container } from "@/shared/ui/components/layout/Container";
 import ErrorComponent from "@/shared/errors/ErrorComponent";
 import SwitchStyled from "@/shared/SwitchStyled";
+import DeviceSessionsSection from "./DeviceSessionsSection";
 import ProfilePhotoModifier from "./ProfilePhotoModifier";
 import SettingsPanel from "./SettingsPanel";
 
@@ -18,7 +19,7 @@ import SettingsPanel from "./SettingsPanel";
  * SettingsContainer component.
  * 
  * This component provides a settings interface for the user, including profile, privacy, mentions,
- * sharing, replies, and blocking settings. It utilizes hooks to fetch and manage user settings,
+ * sharing, replies, blocking, and devices & sessions settings. It utilizes hooks to fetch and manage user settings,
  * and handles errors gracefully by displaying an error component if necessary.
  * 
  * @returns {JSX.Element} - The rendered SettingsContainer component.
@@ -69,6 +70,8 @@ function SettingsContainer() {
                     </Tabs.Tab>
                     <Tabs.Tab value="blocking" label="Blocking" leftSection={<PiXCircle size={24} />}>
                     </Tabs.Tab>
+                    <Tabs.Tab value="devices" label="Devices" leftSection={<PiDevices size={24} />}>
+                    </Tabs.Tab>
                 </Tabs.List>
 
                 <Panel>
@@ -84,6 +87,12 @@ function SettingsContainer() {
                                     value={settings.bio}
                                 /> {/* Input for bio */}
                             </Container>
+                            <Container>
+                                <Typography type="h4">Email</Typography>
+                                <Button variant="secondary" size="sm" outlined onClick={() => navigate("/auth/change-email")}>
+                                    change email
+                                </Button> {/* Confirmed through a link sent to the new address */}
+                            </Container>
                         </SettingsPanel>
                     </Tabs.Panel>
 
@@ -99,6 +108,16 @@ function SettingsContainer() {
                                 checked={settings.isPrivateAccount}
                                 onChange={handleSwitchChange} // Handle switch changes
                             />
+                            <SwitchStyled
+                                color="blue"
+                                name="isHideReadReceipts"
+                                labelPosition="left"
+                                label="hide read receipts"
+                                description={READ_RECEIPTS_DESCRIPTION}
+                                size="md"
+                                checked={!!settings.isHideReadReceipts}
+                                onChange={handleSwitchChange}
+                            />
                         </SettingsPanel>
                     </Tabs.Panel>
 
@@ -114,6 +133,12 @@ function SettingsContainer() {
                     <Tabs.Panel value="blocking">
                         <Text ta="center">blocking settings</Text> {/* Placeholder for blocking settings */}
                     </Tabs.Panel>
+
+                    <Tabs.Panel value="devices">
+                        <SettingsPanel label="Devices & sessions">
+                            <DeviceSessionsSection /> {/* Sessions on other devices, with sign out */}
+                        </SettingsPanel>
+                    </Tabs.Panel>
                 </Panel>
             </Tabs>
         </DefaultContainer>
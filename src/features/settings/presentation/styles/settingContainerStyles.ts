@@ -121,6 +121,38 @@ export const SectionDescription = styled.p<{ theme: EnhancedTheme }>`
   }
 `;
 
+export const SessionList = styled.ul<{ theme: EnhancedTheme }>`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  border: 1px solid ${props => props.theme.colors.border};
+  border-radius: ${props => props.theme.radius.md};
+`;
+
+export const SessionItem = styled.li<{ theme: EnhancedTheme }>`
+  display: flex;
+  align-items: center;
+  gap: ${props => props.theme.spacing.md};
+  padding: ${props => props.theme.spacing.md};
+  border-bottom: 1px solid ${props => props.theme.colors.border};
+  
+  &:last-child {
+    border-bottom: none;
+  }
+  
+  @media (max-width: ${props => props.theme.breakpoints.sm}) {
+    gap: ${props => props.theme.spacing.sm};
+    padding: ${props => props.theme.spacing.sm};
+  }
+`;
+
+export const SessionDetails = styled.div`
+  flex: 1;
+  min-width: 0;
+  display: flex;
+  flex-direction: column;
+`;
+
 // Backward compatibility exports
 export const SettingContainerStyles = {
   panel: Panel,
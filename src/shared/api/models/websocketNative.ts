@@ -21,6 +21,10 @@ export enum SocketEventType {
     DISCONNECT = "DISCONNECT",
     DELETE_MESSAGE = "DELETE_MESSAGE",
     SEEN_MESSAGE = "SEEN_MESSAGE",
+    EDIT_MESSAGE = "EDIT_MESSAGE",
+    ADD_REACTION = "ADD_REACTION",
+    REMOVE_REACTION = "REMOVE_REACTION",
+    THREAD_UPDATE = "THREAD_UPDATE",
     SEEN_NOTIFICATION = "SEEN_NOTIFICATION",
     JOINED_CHAT = "JOINED_CHAT",
     LEFT_CHAT = "LEFT_CHAT",
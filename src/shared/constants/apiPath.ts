@@ -11,10 +11,17 @@ export const USER_PROFILE_URL = USER_PATH + "/profile";
 export const POST_URL = BASE_URL + "/posts";
 export const SIGNUP_URL = AUTH_URL + "/register";
 export const LOGIN_URL = AUTH_URL + "/authenticate";
+export const PASSKEY_LOGIN_URL = AUTH_URL + "/passkey";
 export const LOGOUT_URL = AUTH_URL + "/signout";
 export const RESEND_CODE = AUTH_URL + "/resend-code";
 export const ACTIVATE_ACCOUNT = AUTH_URL + "/activate-account";
 export const REFRESH_TOKEN = AUTH_URL + "/refresh-token";
+export const SESSIONS_URL = AUTH_URL + "/sessions";
+export const REAUTHENTICATE_URL = AUTH_URL + "/reauthenticate";
+export const FORGOT_PASSWORD_URL = AUTH_URL + "/forgot-password";
+export const RESET_PASSWORD_URL = AUTH_URL + "/reset-password";
+export const CHANGE_EMAIL_URL = AUTH_URL + "/change-email";
+export const CONFIRM_EMAIL_CHANGE_URL = AUTH_URL + "/confirm-email-change";
 export const COMMENT_PATH = BASE_URL + "/comments";
 export const COMMENT_LIKE = BASE_URL + "/comment-like";
 export const COMMENT_LIKE_TOGGLE = COMMENT_LIKE + "/toggle-like";
@@ -24,6 +31,7 @@ export const CHAT_PATH = BASE_URL + "/chats";
 export const CHAT_PATH_BY_OWNER = CHAT_PATH + "/owner";
 export const CHAT_PATH_BY_MEMBER = CHAT_PATH + "/members";
 export const MESSAGE_PATH = BASE_URL + "/messages";
+export const ENCRYPTION_PATH = BASE_URL + "/encryption";
 export const FOLLOW_PATH = BASE_URL + "/followers";
 export const NOTIFICATION_PATH = BASE_URL + "/notifications";
 export const REACTION_PATH = BASE_URL + "/reactions";
@@ -7,7 +7,7 @@
 
 import { ChangeEvent } from "react";
 import { BaseClassComponent, IBaseComponentProps, IBaseComponentState } from '../components/base/BaseClassComponent';
-import { createFileUploadService, IUploadState, FetchCallback } from '../services/FileUploadService';
+import { createFileUploadService, IUploadState, FetchCallback, UploadStatus } from '../services/FileUploadService';
 
 /**
  * Props interface for FileUploadHookService
@@ -106,22 +106,33 @@ export class FileUploadHookService extends BaseClassComponent<IFileUploadHookSer
     }
   };
 
+  /**
+   * Cancels the upload in progress.
+   */
+  public handleCancelUpload = (): void => {
+    this.fileUploadService.cancelUpload();
+  };
+
   /**
    * Get file upload utilities (hook-style API)
    */
   public getUploadUtilities(): {
     file: File | null;
-    status: "idle" | "uploading" | "error" | "success";
+    status: UploadStatus;
     response: any;
+    progress: number;
     handleFileChange: (e: ChangeEvent<HTMLInputElement>) => void;
     handleFileUpload: () => Promise<void>;
+    handleCancelUpload: () => void;
   } {
     return {
       file: this.state.uploadState.file,
       status: this.state.uploadState.status,
       response: this.state.uploadState.response,
+      progress: this.state.uploadState.progress,
       handleFileChange: this.handleFileChange,
-      handleFileUpload: this.handleFileUpload
+      handleFileUpload: this.handleFileUpload,
+      handleCancelUpload: this.handleCancelUpload
     };
   }
 
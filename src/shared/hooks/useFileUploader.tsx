@@ -1,8 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from "react";
 import { createFileUploadHookService } from "./FileUploadHookService";
+import type { FetchCallback } from "../services/FileUploadService";
 
-export type UploadStatus = "idle" | "uploading" | "error" | "success";
-export type FetchCallback = (formData: FormData) => Promise<any>;
+export type { UploadStatus, FetchCallback, UploadRequestOptions } from "../services/FileUploadService";
 
 /**
  * FileUpload context for direct service integration
@@ -57,8 +57,10 @@ export const FileUploadProvider: React.FC<{ children: React.ReactNode; fetchCall
  *     file: File | null,                             // The currently selected file.
  *     status: UploadStatus,                          // The status of upload process.
  *     response: any,                                 // The response from upload callback.
+ *     progress: number,                              // Percentage of the file sent, from 0 to 100.
  *     handleFileChange: (e: any) => void, // Handler for file input changes.
- *     handleFileUpload: () => Promise<void>         // Function to initiate the file upload.
+ *     handleFileUpload: () => Promise<void>,        // Function to initiate the file upload.
+ *     handleCancelUpload: () => void                 // Function to cancel the upload in progress.
  * }} - An object containing file upload state and handler functions.
  */
 export const useFileUploader = (fetchCallback: FetchCallback) => {
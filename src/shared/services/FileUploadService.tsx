@@ -7,14 +7,23 @@
 
 import { ChangeEvent } from "react";
 
-export type UploadStatus = "idle" | "uploading" | "error" | "success";
-export type FetchCallback = (formData: FormData) => Promise<any>;
+export type UploadStatus = "idle" | "uploading" | "error" | "success" | "cancelled";
+
+// Lets the fetch callback report progress and stop when the upload is cancelled
+export interface UploadRequestOptions {
+    signal: AbortSignal;
+    onProgress: (progress: number) => void;
+}
+
+export type FetchCallback = (formData: FormData, options?: UploadRequestOptions) => Promise<any>;
 
 // Upload state interface
 export interface IUploadState {
     file: File | null;
     status: UploadStatus;
     response: any;
+    /** Percentage of the file sent, from 0 to 100 */
+    progress: number;
 }
 
 // Service interface for type safety
@@ -23,6 +32,7 @@ export interface IFileUploadService {
     setFile(file: File | null): void;
     handleFileChange(event: ChangeEvent<HTMLInputElement>): void;
     uploadFile(): Promise<void>;
+    cancelUpload(): void;
     subscribe(callback: (state: IUploadState) => void): () => void;
     unsubscribe(callback: (state: IUploadState) => void): void;
     reset(): void;
@@ -47,12 +57,14 @@ class FileUploadService implements IFileUploadService {
     private isDestroyed: boolean = false;
     private subscriptionIdCounter: number = 0;
     private fetchCallback: FetchCallback | null = null;
+    private abortController: AbortController | null = null;
 
     constructor(fetchCallback?: FetchCallback) {
         this.state = {
             file: null,
             status: 'idle',
-            response: null
+            response: null,
+            progress: 0
         };
         this.fetchCallback = fetchCallback || null;
     }
@@ -70,10 +82,12 @@ class FileUploadService implements IFileUploadService {
     public setFile = (file: File | null): void => {
         if (this.isDestroyed) return;
 
+        this.abortController?.abort();
         this.updateState({
             file,
             status: file ? 'idle' : 'idle',
-            response: null
+            response: null,
+            progress: 0
         });
     };
 
@@ -95,22 +109,36 @@ class FileUploadService implements IFileUploadService {
             return;
         }
 
+        const abortController = new AbortController();
+        this.abortController = abortController;
+
         this.updateState({
             ...this.state,
-            status: 'uploading'
+            status: 'uploading',
+            progress: 0
         });
 
         const formData = new FormData();
         formData.append("file", this.state.file);
 
+        const onProgress = (progress: number): void => {
+            if (abortController.signal.aborted) return;
+            this.updateState({ progress: Math.min(100, Math.max(0, Math.round(progress))) });
+        };
+
         try {
-            const result = await this.fetchCallback(formData);
+            const result = await this.fetchCallback(formData, { signal: abortController.signal, onProgress });
+            if (abortController.signal.aborted) return;
             this.updateState({
                 file: this.state.file,
                 status: 'success',
-                response: result
+                response: result,
+                progress: 100
             });
         } catch (error: unknown) {
+            // A cancelled upload is not an error
+            if (abortController.signal.aborted) return;
+
             const errorMessage = (error as Error).message;
             this.updateState({
                 file: this.state.file,
@@ -120,9 +148,27 @@ class FileUploadService implements IFileUploadService {
             
             // Re-throw error for handling by subscribers
             throw error;
+        } finally {
+            if (this.abortController === abortController) {
+                this.abortController = null;
+            }
         }
     };
 
+    /**
+     * Cancel the upload in progress
+     */
+    public cancelUpload = (): void => {
+        if (this.isDestroyed || !this.abortController) return;
+
+        this.abortController.abort();
+        this.abortController = null;
+        this.updateState({
+            status: 'cancelled',
+            response: null
+        });
+    };
+
     /**
      * Update state and notify subscribers
      */
@@ -200,10 +246,13 @@ class FileUploadService implements IFileUploadService {
      * Reset the upload state
      */
     public reset = (): void => {
+        this.abortController?.abort();
+        this.abortController = null;
         this.updateState({
             file: null,
             status: 'idle',
-            response: null
+            response: null,
+            progress: 0
         });
     };
 
@@ -263,13 +312,16 @@ class FileUploadService implements IFileUploadService {
     public destroy = (): void => {
         if (this.isDestroyed) return;
 
+        this.abortController?.abort();
+        this.abortController = null;
         this.isDestroyed = true;
         this.subscriptions.clear();
         this.fetchCallback = null;
         this.state = {
             file: null,
             status: 'idle',
-            response: null
+            response: null,
+            progress: 0
         };
     };
 }
@@ -297,6 +349,7 @@ export const useFileUploadService = (fetchCallback: FetchCallback) => {
         setFile: service.setFile,
         handleFileChange: service.handleFileChange,
         uploadFile: service.uploadFile,
+        cancelUpload: service.cancelUpload,
         subscribe: service.subscribe,
         unsubscribe: service.unsubscribe,
         reset: service.reset,
@@ -0,0 +1,133 @@
+/**
+ * VirtualizedList Tests
+ *
+ * Tests for the layout calculations of the virtualized list and for the
+ * items it renders and moves keyboard focus between.
+ */
+
+import { describe, expect, it, jest } from '@jest/globals';
+import '@testing-library/jest-dom/jest-globals';
+import { fireEvent, render, screen } from '@testing-library/react';
+import {
+    VirtualizedList,
+    computeItemOffsets,
+    findItemIndexAt,
+    findVisibleRange,
+    getScrollTopForIndex
+} from '../layout/VirtualizedList';
+import type { IVirtualizedListProps } from '../layout/VirtualizedList';
+
+describe('VirtualizedList layout', () => {
+    const keys = ['a', 'b', 'c', 'd'];
+
+    it('lays items out from measured heights, estimating the rest', () => {
+        const heights = new Map([['a', 10], ['c', 30]]);
+
+        expect(computeItemOffsets(keys, heights, 20)).toEqual([0, 10, 30, 60, 80]);
+    });
+
+    it('puts the gap between items but not after the last one', () => {
+        expect(computeItemOffsets(keys, new Map(), 10, 5)).toEqual([0, 15, 30, 45, 55]);
+    });
+
+    it('finds the item at a position', () => {
+        const offsets = [0, 10, 30, 60, 80];
+
+        expect(findItemIndexAt(offsets, 0)).toBe(0);
+        expect(findItemIndexAt(offsets, 29)).toBe(1);
+        expect(findItemIndexAt(offsets, 30)).toBe(2);
+        expect(findItemIndexAt(offsets, 500)).toBe(3);
+        expect(findItemIndexAt([0], 10)).toBe(0);
+    });
+
+    it('widens the visible range by the overscan, within the list', () => {
+        const offsets = computeItemOffsets(Array.from({ length: 100 }, (_, index) => index), new Map(), 10);
+
+        expect(findVisibleRange(offsets, 200, 50)).toEqual({ start: 20, end: 25 });
+        expect(findVisibleRange(offsets, 200, 50, 3)).toEqual({ start: 17, end: 28 });
+        expect(findVisibleRange(offsets, 0, 50, 3)).toEqual({ start: 0, end: 8 });
+        expect(findVisibleRange([0], 0, 50, 3)).toEqual({ start: 0, end: 0 });
+    });
+
+    it('computes the scroll position bringing an item into view', () => {
+        const offsets = computeItemOffsets(Array.from({ length: 100 }, (_, index) => index), new Map(), 10);
+
+        expect(getScrollTopForIndex(offsets, 50, 100, 0, 'start')).toBe(500);
+        expect(getScrollTopForIndex(offsets, 50, 100, 0, 'end')).toBe(410);
+        expect(getScrollTopForIndex(offsets, 50, 100, 0, 'center')).toBe(455);
+        // 'auto' scrolls as little as it can, and not at all for an item in view
+        expect(getScrollTopForIndex(offsets, 50, 100, 0)).toBe(410);
+        expect(getScrollTopForIndex(offsets, 50, 100, 600)).toBe(500);
+        expect(getScrollTopForIndex(offsets, 50, 100, 460)).toBe(460);
+        // Never past either end
+        expect(getScrollTopForIndex(offsets, 99, 100, 0, 'start')).toBe(900);
+        expect(getScrollTopForIndex(offsets, 0, 100, 300, 'center')).toBe(0);
+    });
+});
+
+describe('VirtualizedList', () => {
+    type Item = { id: string; label: string };
+    const items: Item[] = Array.from({ length: 1000 }, (_, index) => ({ id: `item-${index}`, label: `Item ${index}` }));
+    const renderList = (props: Partial<IVirtualizedListProps<Item>> = {}) => render(
+        <VirtualizedList
+            items={items}
+            getItemKey={item => item.id}
+            renderItem={item => <span>{item.label}</span>}
+            overscan={2}
+            ariaLabel="items"
+            {...props}
+        />
+    );
+
+    it('renders only the items in view', () => {
+        renderList();
+
+        const rendered = screen.getAllByRole('listitem');
+        expect(rendered.length).toBeLessThan(10);
+        expect(rendered[0]).toHaveAttribute('aria-posinset', '1');
+        expect(rendered[0]).toHaveAttribute('aria-setsize', '1000');
+        expect(screen.queryByText('Item 999')).not.toBeInTheDocument();
+    });
+
+    it('marks the active item', () => {
+        renderList({ activeKey: 'item-1' });
+
+        expect(screen.getByText('Item 1').parentElement).toHaveAttribute('aria-current', 'true');
+        expect(screen.getByText('Item 0').parentElement).not.toHaveAttribute('aria-current');
+    });
+
+    it('moves focus between items with the arrow keys', () => {
+        renderList();
+        const list = screen.getByRole('list', { name: 'items' });
+
+        fireEvent.keyDown(list, { key: 'ArrowDown' });
+        expect(document.activeElement).toBe(screen.getByText('Item 0').parentElement);
+
+        fireEvent.keyDown(document.activeElement!, { key: 'ArrowDown' });
+        expect(document.activeElement).toBe(screen.getByText('Item 1').parentElement);
+
+        fireEvent.keyDown(document.activeElement!, { key: 'ArrowUp' });
+        expect(document.activeElement).toBe(screen.getByText('Item 0').parentElement);
+    });
+
+    it('fetches the next page near the end of the list', () => {
+        const fetchNextPage = jest.fn();
+        renderList({ items: items.slice(0, 3), hasNextPage: true, isFetchingNextPage: false, fetchNextPage });
+
+        expect(fetchNextPage).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not fetch while a page is loading', () => {
+        const fetchNextPage = jest.fn();
+        // The loading indicator needs the theme tokens it is styled with
+        const theme = {
+            colors: { brand: { 500: '#3c3cff' }, background: { secondary: '#f8f9fa' } },
+            spacing: {},
+            border: { sm: '1px' },
+            animation: { duration: { normal: '250ms' }, easing: { ease: 'ease' } }
+        } as any;
+        renderList({ items: items.slice(0, 3), hasNextPage: true, isFetchingNextPage: true, fetchNextPage, theme });
+
+        expect(fetchNextPage).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,89 @@
+/** @jsxImportSource @emotion/react */
+import { BaseClassComponent } from '@/shared/components/base/BaseClassComponent';
+import { circuitBreakers } from '@/core/modules/network';
+import type { CircuitBreakerRegistry, CircuitSnapshot, CircuitState } from '@/core/modules/network';
+import { SystemStatusIndicator } from '../../display/SystemStatusIndicator';
+import type { ISystemStatusItem, SystemStatusType } from '../../display/SystemStatusIndicator';
+import { degradedModeBannerStyles } from './styles';
+import { IDegradedModeBannerProps, IDegradedModeBannerState } from './interfaces';
+
+const STATUS_BY_CIRCUIT_STATE: Record<CircuitState, SystemStatusType> = {
+  closed: 'healthy',
+  'half-open': 'degraded',
+  open: 'down'
+};
+
+/**
+ * Enterprise DegradedModeBanner Component
+ *
+ * Shows which backend endpoints are unavailable while their circuit breakers
+ * are open or half-open, so a backend outage shows one banner instead of an
+ * error toast per failed request. Renders nothing while every circuit is closed.
+ *
+ * @example
+ * ```tsx
+ * <DegradedModeBanner />
+ * ```
+ */
+export class DegradedModeBanner extends BaseClassComponent<IDegradedModeBannerProps, IDegradedModeBannerState> {
+
+  protected override getInitialState(): Partial<IDegradedModeBannerState> {
+    return {
+      circuits: this.getRegistry().getTrippedCircuits()
+    };
+  }
+
+  protected override onMount(): void {
+    super.onMount();
+    const registry = this.getRegistry();
+    // Pick up circuits that changed between construction and mount
+    this.setState({ circuits: registry.getTrippedCircuits() });
+    this.addSubscription(registry.subscribe(() => {
+      this.safeSetState({ circuits: registry.getTrippedCircuits() });
+    }));
+  }
+
+  private getRegistry(): CircuitBreakerRegistry {
+    return this.props.registry ?? circuitBreakers;
+  }
+
+  /**
+   * Maps a circuit to a status indicator item
+   */
+  private toStatusItem = (circuit: CircuitSnapshot): ISystemStatusItem => ({
+    id: circuit.endpoint,
+    label: circuit.endpoint,
+    status: STATUS_BY_CIRCUIT_STATE[circuit.state],
+    ...(circuit.retryAt !== null && {
+      details: `Retrying at ${new Date(circuit.retryAt).toLocaleTimeString()}`
+    })
+  });
+
+  protected override renderContent(): React.ReactNode {
+    const { className = '' } = this.props;
+    const { circuits } = this.state;
+
+    if (circuits.length === 0) {
+      return null;
+    }
+
+    return (
+      <div
+        css={degradedModeBannerStyles}
+        className={`degraded-mode-banner ${className}`}
+        role="status"
+        aria-live="polite"
+      >
+        <span className="degraded-mode-message">
+          Some services are unavailable. Parts of the app may not work until they recover.
+        </span>
+        <SystemStatusIndicator
+          items={circuits.map(this.toStatusItem)}
+          variant="dots"
+          size="sm"
+          compact
+        />
+      </div>
+    );
+  }
+}
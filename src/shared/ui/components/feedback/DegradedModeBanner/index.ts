@@ -0,0 +1,6 @@
+/**
+ * DegradedModeBanner component barrel export
+ */
+
+export { DegradedModeBanner } from './DegradedModeBanner';
+export type { IDegradedModeBannerProps, IDegradedModeBannerState } from './interfaces';
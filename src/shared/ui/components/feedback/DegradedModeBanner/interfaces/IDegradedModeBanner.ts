@@ -0,0 +1,22 @@
+/**
+ * DegradedModeBanner Component Interfaces
+ */
+
+import { IBaseComponentProps, IBaseComponentState } from '@/shared/components/base/BaseClassComponent';
+import type { CircuitBreakerRegistry, CircuitSnapshot } from '@/core/modules/network';
+
+/**
+ * DegradedModeBanner Props
+ */
+export interface IDegradedModeBannerProps extends IBaseComponentProps {
+  /** Registry to watch; defaults to the one shared by all REST clients */
+  registry?: CircuitBreakerRegistry;
+  className?: string;
+}
+
+/**
+ * DegradedModeBanner State
+ */
+export interface IDegradedModeBannerState extends IBaseComponentState {
+  circuits: CircuitSnapshot[];
+}
@@ -0,0 +1,5 @@
+/**
+ * DegradedModeBanner interfaces barrel export
+ */
+
+export type { IDegradedModeBannerProps, IDegradedModeBannerState } from './IDegradedModeBanner';
@@ -0,0 +1,24 @@
+/**
+ * DegradedModeBanner Component Styles
+ */
+
+import { css } from '@emotion/react';
+
+/**
+ * Banner container styles
+ */
+export const degradedModeBannerStyles = css`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 0.75rem;
+  padding: 0.5rem 1rem;
+  border-bottom: 1px solid #f59e0b;
+  background-color: #fffbeb;
+  color: #92400e;
+  font-size: 0.875rem;
+
+  .degraded-mode-message {
+    font-weight: 500;
+  }
+`;
@@ -0,0 +1,5 @@
+/**
+ * DegradedModeBanner styles barrel export
+ */
+
+export * from './DegradedModeBanner.styles';
@@ -0,0 +1,64 @@
+/** @jsxImportSource @emotion/react */
+import { useMutationOutbox } from '@/core/hooks/query/useMutationOutbox';
+import type { OutboxItem } from '@/core/hooks/query/mutationOutbox';
+import { offlineOutboxBannerStyles } from './styles';
+import type { IOfflineOutboxBannerProps } from './interfaces';
+
+/**
+ * Describes why a queued mutation needs the user
+ */
+const describeProblem = (item: OutboxItem): string => {
+  if (item.status === 'conflict') {
+    return 'A change conflicts with a newer version on the server.';
+  }
+  return item.error ? `A change could not be saved: ${item.error}` : 'A change could not be saved.';
+};
+
+/**
+ * OfflineOutboxBanner Component
+ *
+ * Shows how many changes made offline are waiting to be sent, and lets the
+ * user retry or discard the ones the server rejected or that hit a conflict.
+ * Renders nothing while the outbox is empty.
+ *
+ * @example
+ * ```tsx
+ * <OfflineOutboxBanner />
+ * ```
+ */
+export const OfflineOutboxBanner: React.FC<IOfflineOutboxBannerProps> = ({ mutationKey, className = '' }) => {
+  const { pending, failed, conflicts, retry, discard } = useMutationOutbox(mutationKey);
+  const needsAttention = [...conflicts, ...failed];
+
+  if (pending.length === 0 && needsAttention.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      css={offlineOutboxBannerStyles}
+      className={`offline-outbox-banner ${className}`}
+      role="status"
+      aria-live="polite"
+    >
+      {pending.length > 0 && (
+        <span className="offline-outbox-message">
+          {pending.length === 1
+            ? '1 change will be sent once you are back online.'
+            : `${pending.length} changes will be sent once you are back online.`}
+        </span>
+      )}
+      {needsAttention.map(item => (
+        <div key={item.id} className="offline-outbox-item">
+          <span>{describeProblem(item)}</span>
+          <button type="button" className="offline-outbox-action" onClick={() => void retry(item.id)}>
+            Retry
+          </button>
+          <button type="button" className="offline-outbox-action" onClick={() => discard(item.id)}>
+            Discard
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
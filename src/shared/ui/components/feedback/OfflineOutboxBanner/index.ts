@@ -0,0 +1,6 @@
+/**
+ * OfflineOutboxBanner component barrel export
+ */
+
+export { OfflineOutboxBanner } from './OfflineOutboxBanner';
+export type { IOfflineOutboxBannerProps } from './interfaces';
@@ -0,0 +1,12 @@
+/**
+ * OfflineOutboxBanner Component Interfaces
+ */
+
+/**
+ * OfflineOutboxBanner Props
+ */
+export interface IOfflineOutboxBannerProps {
+  /** Only show mutations queued under this mutation key */
+  mutationKey?: string;
+  className?: string;
+}
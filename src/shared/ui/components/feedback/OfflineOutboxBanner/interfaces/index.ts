@@ -0,0 +1,5 @@
+/**
+ * OfflineOutboxBanner interfaces barrel export
+ */
+
+export type { IOfflineOutboxBannerProps } from './IOfflineOutboxBanner';
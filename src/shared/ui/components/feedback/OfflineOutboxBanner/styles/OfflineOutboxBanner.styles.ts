@@ -0,0 +1,39 @@
+/**
+ * OfflineOutboxBanner Component Styles
+ */
+
+import { css } from '@emotion/react';
+
+/**
+ * Banner container styles
+ */
+export const offlineOutboxBannerStyles = css`
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+  padding: 0.5rem 1rem;
+  border-bottom: 1px solid #93c5fd;
+  background-color: #eff6ff;
+  color: #1e3a8a;
+  font-size: 0.875rem;
+
+  .offline-outbox-message {
+    font-weight: 500;
+  }
+
+  .offline-outbox-item {
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 0.5rem;
+  }
+
+  .offline-outbox-action {
+    padding: 0.125rem 0.5rem;
+    border: 1px solid currentColor;
+    border-radius: 4px;
+    background: transparent;
+    color: inherit;
+    cursor: pointer;
+  }
+`;
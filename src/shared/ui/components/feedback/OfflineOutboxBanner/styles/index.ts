@@ -0,0 +1,5 @@
+/**
+ * OfflineOutboxBanner styles barrel export
+ */
+
+export * from './OfflineOutboxBanner.styles';
@@ -34,6 +34,12 @@ export { NotificationItem } from './NotificationItem';
 
 export { ErrorMessage } from './ErrorMessage';
 
+export { DegradedModeBanner } from './DegradedModeBanner';
+export type { IDegradedModeBannerProps } from './DegradedModeBanner';
+
+export { OfflineOutboxBanner } from './OfflineOutboxBanner';
+export type { IOfflineOutboxBannerProps } from './OfflineOutboxBanner';
+
 export { default as PostMessageSkeleton } from './PostMessageSkeleton';
 
 export { default as PostSkeleton } from './PostSkeleton';
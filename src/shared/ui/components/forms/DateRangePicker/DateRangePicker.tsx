@@ -110,6 +110,8 @@ export class DateRangePicker extends BaseClassComponent<IDateRangePickerProps, I
    */
   private handleStartDateChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
     const newStartDate = new Date(e.target.value);
+    // A cleared input has no date; keep the last one picked
+    if (Number.isNaN(newStartDate.getTime())) return;
     const newDateRange = {
       ...this.state.dateRange,
       startDate: newStartDate
@@ -133,6 +135,7 @@ export class DateRangePicker extends BaseClassComponent<IDateRangePickerProps, I
    */
   private handleEndDateChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
     const newEndDate = new Date(e.target.value);
+    if (Number.isNaN(newEndDate.getTime())) return;
     const newDateRange = {
       ...this.state.dateRange,
       endDate: newEndDate
@@ -0,0 +1,509 @@
+/** @jsxImportSource @emotion/react */
+import React, { Key, PureComponent, ReactNode, RefObject } from 'react';
+import { getComponentHeightService } from '@/shared/services/ComponentHeightService';
+import { IVirtualizedListHandle, IVirtualizedListProps, IVirtualizedListState } from './interfaces';
+import {
+  virtualizedListWrapperStyles,
+  virtualizedListViewportStyles,
+  virtualizedListItemStyles,
+  virtualizedListLoadingStyles
+} from './styles';
+import {
+  ScrollAlignment,
+  VisibleRange,
+  computeItemOffsets,
+  findItemIndexAt,
+  findVisibleRange,
+  getScrollTopForIndex
+} from './virtualization';
+import LoadingSpinner from '../../feedback/LoadingSpinner';
+
+const DEFAULT_ESTIMATED_ITEM_HEIGHT = 80;
+const DEFAULT_OVERSCAN = 4;
+const DEFAULT_NEXT_PAGE_THRESHOLD = 400;
+// Distance from the end, in pixels, within which the list counts as scrolled to the end
+const END_TOLERANCE = 8;
+
+interface IVirtualizedListItemProps {
+  itemKey: Key;
+  index: number;
+  setSize: number;
+  gap: number;
+  isFocused: boolean;
+  isActive: boolean;
+  theme?: any;
+  onHeightChange: (key: Key, height: number) => void;
+  children: ReactNode;
+}
+
+/**
+ * A rendered item, reporting its height as it is measured and whenever it changes
+ */
+class VirtualizedListItem extends PureComponent<IVirtualizedListItemProps> {
+  private itemRef: React.RefObject<HTMLDivElement | null> = React.createRef();
+  private heightService = getComponentHeightService();
+  private unsubscribe: (() => void) | null = null;
+
+  override componentDidMount(): void {
+    const ref = this.itemRef as RefObject<HTMLElement>;
+    this.props.onHeightChange(this.props.itemKey, this.heightService.getHeight(ref));
+    this.unsubscribe = this.heightService.subscribe(ref, height => this.props.onHeightChange(this.props.itemKey, height));
+  }
+
+  override componentWillUnmount(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  override render(): ReactNode {
+    const { index, setSize, gap, isFocused, isActive, theme, children } = this.props;
+
+    return (
+      <div
+        ref={this.itemRef}
+        css={virtualizedListItemStyles(theme)}
+        role="listitem"
+        data-index={index}
+        tabIndex={isFocused ? 0 : -1}
+        aria-posinset={index + 1}
+        aria-setsize={setSize}
+        aria-current={isActive || undefined}
+        style={gap ? { marginBottom: gap } : undefined}
+      >
+        {children}
+      </div>
+    );
+  }
+}
+
+interface IVirtualizedListLayout {
+  keys: Key[];
+  offsets: number[];
+  indexByKey: Map<Key, number>;
+}
+
+/**
+ * VirtualizedList Component
+ *
+ * Renders only the items of a long list that are in view, plus a few on
+ * either side, and stands in for the rest with padding. Items may have any
+ * height: each rendered item is measured through the ComponentHeightService
+ * and remembered by key, and items not rendered yet count with an estimate.
+ *
+ * The list scrolls on its own and fetches the next page near the edge given
+ * by `nextPageEdge`. Items added above the viewport, such as older messages
+ * of a chat, keep the items in view where they are, and with `followEnd` the
+ * list stays at the end as items are added there. Items can be scrolled to
+ * by index or key through a ref, and the arrow, page, Home and End keys move
+ * focus between items.
+ *
+ * @author QuietSpace UI Library
+ * @version 1.0.0
+ */
+export class VirtualizedList<T> extends PureComponent<IVirtualizedListProps<T>, IVirtualizedListState> implements IVirtualizedListHandle {
+  static displayName = 'VirtualizedList';
+
+  private viewportRef: React.RefObject<HTMLDivElement | null> = React.createRef();
+  private heightService = getComponentHeightService();
+  private unsubscribeViewport: (() => void) | null = null;
+  // Measured heights by item key, kept across updates so added items do not reset them
+  private heights: Map<Key, number> = new Map();
+  private layout: IVirtualizedListLayout | null = null;
+  private layoutInputs: unknown[] = [];
+  // Item at the top of the viewport and how far into it the viewport starts, kept in place as the layout changes
+  private anchor: { key: Key; offset: number } | null = null;
+  // Item to keep in view until the user scrolls, while the items around it are measured
+  private pendingScroll: { key: Key; align: ScrollAlignment } | null = null;
+  private pendingFocus = false;
+  private isAtEnd: boolean;
+  private nextPageRequested = false;
+  private visibleRange: VisibleRange | null = null;
+
+  constructor(props: IVirtualizedListProps<T>) {
+    super(props);
+
+    this.isAtEnd = !!props.followEnd;
+    this.state = {
+      scrollTop: 0,
+      viewportHeight: 0,
+      layoutVersion: 0,
+      focusedKey: null
+    };
+  }
+
+  override componentDidMount(): void {
+    const viewportRef = this.viewportRef as RefObject<HTMLElement>;
+    this.unsubscribeViewport = this.heightService.subscribe(viewportRef, viewportHeight => {
+      this.setState({ viewportHeight });
+    });
+    this.setState({ viewportHeight: this.heightService.getHeight(viewportRef) });
+    this.syncScroll();
+  }
+
+  override componentDidUpdate(prevProps: IVirtualizedListProps<T>): void {
+    const { items, getItemKey, isFetchingNextPage, followEnd } = this.props;
+
+    if (prevProps.items !== items) {
+      this.nextPageRequested = false;
+      const { indexByKey } = this.getLayout();
+      const prevCount = prevProps.items.length;
+      const isReplaced = prevCount > 0
+        && !indexByKey.has(prevProps.getItemKey(prevProps.items[0]!, 0))
+        && !indexByKey.has(prevProps.getItemKey(prevProps.items[prevCount - 1]!, prevCount - 1));
+
+      if (isReplaced) {
+        // A different list altogether starts over
+        this.heights.clear();
+        this.layout = null;
+        this.anchor = null;
+        this.pendingScroll = null;
+        this.isAtEnd = !!followEnd;
+        if (this.viewportRef.current) this.viewportRef.current.scrollTop = 0;
+      }
+    } else if (prevProps.isFetchingNextPage !== isFetchingNextPage || prevProps.getItemKey !== getItemKey) {
+      this.nextPageRequested = false;
+    }
+
+    this.syncScroll();
+    this.restoreFocus();
+  }
+
+  override componentWillUnmount(): void {
+    this.unsubscribeViewport?.();
+    this.unsubscribeViewport = null;
+  }
+
+  /**
+   * Scroll an item into view by index
+   */
+  public scrollToIndex = (index: number, align: ScrollAlignment = 'auto'): void => {
+    const key = this.getLayout().keys[index];
+    if (key !== undefined) this.scrollToKey(key, align);
+  };
+
+  /**
+   * Scroll an item into view by key. The item stays in view as the items
+   * around it are measured, until the user scrolls.
+   */
+  public scrollToKey = (key: Key, align: ScrollAlignment = 'auto'): boolean => {
+    if (!this.getLayout().indexByKey.has(key)) return false;
+
+    this.pendingScroll = { key, align };
+    this.syncScroll();
+    return true;
+  };
+
+  /**
+   * Scroll to the last item
+   */
+  public scrollToEnd = (): void => {
+    const viewport = this.viewportRef.current;
+    if (!viewport) return;
+
+    this.pendingScroll = null;
+    viewport.scrollTop = viewport.scrollHeight - viewport.clientHeight;
+    this.updateScrollState(viewport);
+  };
+
+  /**
+   * Lay the items out, reusing the last layout until the items or a measured height change
+   */
+  private getLayout = (): IVirtualizedListLayout => {
+    const { items, getItemKey, estimatedItemHeight = DEFAULT_ESTIMATED_ITEM_HEIGHT, gap = 0 } = this.props;
+    const inputs = [items, getItemKey, estimatedItemHeight, gap, this.state.layoutVersion];
+
+    if (!this.layout || inputs.some((input, index) => input !== this.layoutInputs[index])) {
+      const keys = items.map((item, index) => getItemKey(item, index));
+      this.layout = {
+        keys,
+        offsets: computeItemOffsets(keys, this.heights, estimatedItemHeight, gap),
+        indexByKey: new Map(keys.map((key, index) => [key, index]))
+      };
+      this.layoutInputs = inputs;
+    }
+    return this.layout;
+  };
+
+  private getRenderRange = (scrollTop: number): VisibleRange => {
+    const { overscan = DEFAULT_OVERSCAN } = this.props;
+    return findVisibleRange(this.getLayout().offsets, scrollTop, this.state.viewportHeight, overscan);
+  };
+
+  /**
+   * Record the height of an item and lay the list out again. An item
+   * measured at zero is not laid out, such as in a hidden list, and keeps
+   * its estimate.
+   */
+  private handleItemHeight = (key: Key, height: number): void => {
+    if (height <= 0 || this.heights.get(key) === height) return;
+
+    this.heights.set(key, height);
+    this.setState(prev => ({ layoutVersion: prev.layoutVersion + 1 }));
+  };
+
+  /**
+   * Position the viewport after the layout changed: on a requested item, at
+   * the end when following it, or else with the anchor item where it was, so
+   * items added or resized above the viewport do not move the items in view.
+   * Then re-render if other items came into range.
+   */
+  private syncScroll = (): void => {
+    const viewport = this.viewportRef.current;
+    if (!viewport) return;
+
+    const { followEnd } = this.props;
+    const { offsets, indexByKey } = this.getLayout();
+    let target = viewport.scrollTop;
+
+    const pendingIndex = this.pendingScroll ? indexByKey.get(this.pendingScroll.key) : undefined;
+    const anchorIndex = this.anchor ? indexByKey.get(this.anchor.key) : undefined;
+    if (this.pendingScroll && pendingIndex !== undefined) {
+      target = getScrollTopForIndex(offsets, pendingIndex, viewport.clientHeight, viewport.scrollTop, this.pendingScroll.align);
+    } else if (followEnd && this.isAtEnd) {
+      this.pendingScroll = null;
+      target = viewport.scrollHeight - viewport.clientHeight;
+    } else if (this.anchor && anchorIndex !== undefined) {
+      this.pendingScroll = null;
+      target = offsets[anchorIndex]! + this.anchor.offset;
+    }
+
+    if (Math.abs(target - viewport.scrollTop) >= 1) {
+      viewport.scrollTop = target;
+    }
+    this.updateScrollState(viewport);
+  };
+
+  private updateScrollState = (viewport: HTMLDivElement): void => {
+    const { scrollTop, scrollHeight, clientHeight } = viewport;
+    const { keys, offsets } = this.getLayout();
+    this.isAtEnd = scrollHeight - scrollTop - clientHeight <= END_TOLERANCE;
+
+    const anchorIndex = findItemIndexAt(offsets, scrollTop);
+    const anchorKey = keys[anchorIndex];
+    this.anchor = anchorKey !== undefined ? { key: anchorKey, offset: scrollTop - offsets[anchorIndex]! } : null;
+
+    // Only re-render when the scroll brings other items in range
+    const current = this.getRenderRange(this.state.scrollTop);
+    const next = this.getRenderRange(scrollTop);
+    if (current.start !== next.start || current.end !== next.end) {
+      this.setState({ scrollTop });
+    }
+
+    this.notifyVisibleRange(scrollTop, clientHeight);
+    this.checkNextPage(viewport);
+  };
+
+  private notifyVisibleRange = (scrollTop: number, viewportHeight: number): void => {
+    const { onVisibleRangeChange } = this.props;
+    if (!onVisibleRangeChange) return;
+
+    const range = findVisibleRange(this.getLayout().offsets, scrollTop, viewportHeight);
+    if (range.start !== this.visibleRange?.start || range.end !== this.visibleRange?.end) {
+      this.visibleRange = range;
+      onVisibleRangeChange(range);
+    }
+  };
+
+  /**
+   * Fetch the next page once the viewport is near the edge it is added to
+   */
+  private checkNextPage = (viewport: HTMLDivElement): void => {
+    const {
+      hasNextPage,
+      isFetchingNextPage,
+      fetchNextPage,
+      nextPageEdge = 'end',
+      nextPageThreshold = DEFAULT_NEXT_PAGE_THRESHOLD
+    } = this.props;
+    if (!hasNextPage || isFetchingNextPage || !fetchNextPage || this.nextPageRequested) return;
+
+    const distance = nextPageEdge === 'start'
+      ? viewport.scrollTop
+      : viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight;
+    if (distance <= nextPageThreshold) {
+      this.nextPageRequested = true;
+      fetchNextPage();
+    }
+  };
+
+  private handleScroll = (): void => {
+    const viewport = this.viewportRef.current;
+    if (!viewport) return;
+
+    // A page that failed to load is tried again as the user scrolls
+    this.nextPageRequested = false;
+    this.updateScrollState(viewport);
+  };
+
+  /**
+   * The user taking over the scroll position ends any pending scroll to an item
+   */
+  private handleUserScroll = (): void => {
+    this.pendingScroll = null;
+  };
+
+  /**
+   * Keep track of the focused item, so keyboard navigation continues from an item the user clicked or tabbed to
+   */
+  private handleFocus = (event: React.FocusEvent<HTMLDivElement>): void => {
+    const index = (event.target as HTMLElement).dataset['index'];
+    if (index === undefined) return;
+
+    const key = this.getLayout().keys[Number(index)];
+    if (key !== undefined && key !== this.state.focusedKey) {
+      this.setState({ focusedKey: key });
+    }
+  };
+
+  /**
+   * Move focus between items with the arrow, page, Home and End keys
+   */
+  private handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>): void => {
+    const target = event.target as HTMLElement;
+    // Keys pressed in fields and buttons inside an item are theirs
+    if (target !== this.viewportRef.current && target.dataset['index'] === undefined) return;
+
+    const { keys, offsets, indexByKey } = this.getLayout();
+    const count = keys.length;
+    if (count === 0) return;
+
+    const viewport = this.viewportRef.current;
+    const viewportHeight = viewport?.clientHeight ?? this.state.viewportHeight;
+    const scrollTop = viewport?.scrollTop ?? this.state.scrollTop;
+    const focusedIndex = this.state.focusedKey !== null ? indexByKey.get(this.state.focusedKey) : undefined;
+    // Without a focused item, navigation starts from the items in view
+    const current = focusedIndex ?? -1;
+
+    let next: number;
+    switch (event.key) {
+      case 'ArrowDown':
+        next = current < 0 ? findItemIndexAt(offsets, scrollTop) : current + 1;
+        break;
+      case 'ArrowUp':
+        next = current < 0 ? findItemIndexAt(offsets, scrollTop + viewportHeight - 1) : current - 1;
+        break;
+      case 'PageDown':
+        next = findItemIndexAt(offsets, (current < 0 ? scrollTop : offsets[current]!) + viewportHeight);
+        break;
+      case 'PageUp':
+        next = findItemIndexAt(offsets, (current < 0 ? scrollTop + viewportHeight : offsets[current]!) - viewportHeight);
+        break;
+      case 'Home':
+        next = 0;
+        break;
+      case 'End':
+        next = count - 1;
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    const key = keys[Math.min(Math.max(next, 0), count - 1)]!;
+    this.pendingFocus = true;
+    this.pendingScroll = { key, align: 'auto' };
+    this.setState({ focusedKey: key });
+  };
+
+  /**
+   * Focus the item moved to with the keyboard once it is rendered
+   */
+  private restoreFocus = (): void => {
+    const { focusedKey } = this.state;
+    const viewport = this.viewportRef.current;
+    if (!this.pendingFocus || focusedKey === null || !viewport) return;
+
+    const index = this.getLayout().indexByKey.get(focusedKey);
+    if (index === undefined) {
+      this.pendingFocus = false;
+      return;
+    }
+
+    const element = viewport.querySelector<HTMLElement>(`[data-index="${index}"]`);
+    if (element) {
+      element.focus({ preventScroll: true });
+      this.pendingFocus = false;
+    }
+  };
+
+  override render(): ReactNode {
+    const {
+      items,
+      renderItem,
+      gap = 0,
+      isFetchingNextPage,
+      nextPageEdge = 'end',
+      activeKey,
+      ariaLabel,
+      theme,
+      className,
+      testId,
+      id,
+      style
+    } = this.props;
+    const { scrollTop, focusedKey } = this.state;
+
+    const { keys, offsets } = this.getLayout();
+    const count = keys.length;
+    const { start, end } = this.getRenderRange(scrollTop);
+
+    const rows: ReactNode[] = [];
+    for (let index = start; index < end; index++) {
+      const key = keys[index]!;
+      rows.push(
+        <VirtualizedListItem
+          key={key}
+          itemKey={key}
+          index={index}
+          setSize={count}
+          gap={index < count - 1 ? gap : 0}
+          isFocused={key === focusedKey}
+          isActive={activeKey !== undefined && activeKey !== null && key === activeKey}
+          theme={theme}
+          onHeightChange={this.handleItemHeight}
+        >
+          {renderItem(items[index]!, index)}
+        </VirtualizedListItem>
+      );
+    }
+
+    return (
+      <div
+        css={virtualizedListWrapperStyles()}
+        className={className}
+        data-testid={testId}
+        id={id?.toString()}
+        style={style}
+      >
+        <div
+          ref={this.viewportRef}
+          css={virtualizedListViewportStyles(theme)}
+          role="list"
+          aria-label={ariaLabel}
+          aria-busy={isFetchingNextPage || undefined}
+          tabIndex={0}
+          onScroll={this.handleScroll}
+          onWheel={this.handleUserScroll}
+          onTouchStart={this.handleUserScroll}
+          onMouseDown={this.handleUserScroll}
+          onFocus={this.handleFocus}
+          onKeyDown={this.handleKeyDown}
+        >
+          {/* Items out of range are stood in for by padding of their height */}
+          <div style={{ paddingTop: offsets[start], paddingBottom: offsets[count]! - offsets[end]! }}>
+            {rows}
+          </div>
+        </div>
+
+        {/* Loading indicator when fetching next page */}
+        {isFetchingNextPage && (
+          <div css={virtualizedListLoadingStyles(theme, nextPageEdge)}>
+            <LoadingSpinner size="sm" {...(theme && { theme })} />
+          </div>
+        )}
+      </div>
+    );
+  }
+}
+
+export default VirtualizedList;
@@ -0,0 +1,8 @@
+/**
+ * VirtualizedList component barrel export
+ */
+
+export { VirtualizedList } from './VirtualizedList';
+export type { IVirtualizedListProps, IVirtualizedListState, IVirtualizedListHandle } from './interfaces';
+export { computeItemOffsets, findItemIndexAt, findVisibleRange, getScrollTopForIndex } from './virtualization';
+export type { ScrollAlignment, VisibleRange } from './virtualization';
@@ -0,0 +1,76 @@
+/**
+ * VirtualizedList Component Interface
+ *
+ * Defines contract for VirtualizedList component, which renders only the
+ * items of a long list that are in view, with variable item heights,
+ * pagination at either end, scrolling to an item and keyboard navigation.
+ *
+ * @author QuietSpace UI Library
+ * @version 1.0.0
+ */
+
+import { Key, ReactNode } from 'react';
+import { BaseComponentProps } from '../../../types';
+import { ScrollAlignment, VisibleRange } from '../virtualization';
+
+/**
+ * VirtualizedList component props interface
+ */
+export interface IVirtualizedListProps<T> extends Omit<BaseComponentProps, 'children' | 'onClick' | 'ref'> {
+  /** Items to render, top to bottom */
+  items: readonly T[];
+  /** Stable key of an item, used to remember its height across updates */
+  getItemKey: (item: T, index: number) => Key;
+  /** Renders an item */
+  renderItem: (item: T, index: number) => ReactNode;
+  /** Height assumed for items that have not been measured yet */
+  estimatedItemHeight?: number;
+  /** Space between two items */
+  gap?: number;
+  /** Items to render beyond each edge of the viewport */
+  overscan?: number;
+  /** Indicates whether there are more pages to fetch */
+  hasNextPage?: boolean;
+  /** Indicates if a fetch operation for next page is currently in progress */
+  isFetchingNextPage?: boolean;
+  /** Function to be called to fetch next page of data */
+  fetchNextPage?: () => void;
+  /** End of the list the next page is added to; 'start' for histories loading older items on top */
+  nextPageEdge?: 'start' | 'end';
+  /** Distance from the edge, in pixels, at which the next page is fetched */
+  nextPageThreshold?: number;
+  /** Start at the end of the list and stay there as items are added, while scrolled to the end */
+  followEnd?: boolean;
+  /** Key of an item to mark as current, such as one jumped to */
+  activeKey?: Key | null;
+  /** Called when the items in the viewport change, without overscan */
+  onVisibleRangeChange?: (range: VisibleRange) => void;
+  /** Accessible name of the list */
+  ariaLabel?: string;
+}
+
+/**
+ * VirtualizedList component state interface
+ */
+export interface IVirtualizedListState {
+  /** Scroll position the rendered items were picked for */
+  scrollTop: number;
+  /** Height of the viewport */
+  viewportHeight: number;
+  /** Bumped whenever an item height is measured, to lay the list out again */
+  layoutVersion: number;
+  /** Key of the item holding keyboard focus */
+  focusedKey: Key | null;
+}
+
+/**
+ * Imperative handle of a VirtualizedList
+ */
+export interface IVirtualizedListHandle {
+  /** Scroll an item into view by index */
+  scrollToIndex: (index: number, align?: ScrollAlignment) => void;
+  /** Scroll an item into view by key; returns false if no item has the key */
+  scrollToKey: (key: Key, align?: ScrollAlignment) => boolean;
+  /** Scroll to the last item */
+  scrollToEnd: () => void;
+}
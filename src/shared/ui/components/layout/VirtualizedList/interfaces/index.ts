@@ -0,0 +1,5 @@
+/**
+ * VirtualizedList interfaces barrel export
+ */
+
+export type { IVirtualizedListProps, IVirtualizedListState, IVirtualizedListHandle } from './IVirtualizedList';
@@ -0,0 +1,82 @@
+/**
+ * VirtualizedList Component Styles
+ *
+ * Emotion CSS styles for the VirtualizedList component. The list fills its
+ * parent and scrolls on its own, so the parent has to give it a height.
+ *
+ * @author QuietSpace UI Library
+ * @version 1.0.0
+ */
+
+import { css } from '@emotion/react';
+import { getColor, getSpacing } from '../../../utils';
+
+/**
+ * Theme color or spacing, with a fallback for lists rendered without a theme
+ */
+const themeColor = (theme: any, path: string, fallback: string) => (theme ? getColor(theme, path) : fallback);
+const themeSpacing = (theme: any, size: string, fallback: string) => (theme ? getSpacing(theme, size) : fallback);
+
+/**
+ * Wrapper positioning the loading indicator over the viewport
+ */
+export const virtualizedListWrapperStyles = () => css`
+  position: relative;
+  display: flex;
+  flex-direction: column;
+  flex: 1 1 auto;
+  width: 100%;
+  height: 100%;
+  min-height: 0;
+`;
+
+/**
+ * Scrolling viewport. The list keeps its own scroll position when items
+ * are added above, so the browser's scroll anchoring is turned off.
+ */
+export const virtualizedListViewportStyles = (theme?: any) => css`
+  flex: 1 1 auto;
+  min-height: 0;
+  overflow-y: auto;
+  overflow-anchor: none;
+  -webkit-overflow-scrolling: touch;
+
+  &:focus-visible {
+    outline: 2px solid ${themeColor(theme, 'brand.500', 'Highlight')};
+    outline-offset: -2px;
+  }
+`;
+
+/**
+ * Item wrapper; contains the margins of its content so its measured height
+ * is the space it takes up
+ */
+export const virtualizedListItemStyles = (theme?: any) => css`
+  display: flow-root;
+
+  &:focus-visible {
+    outline: 2px solid ${themeColor(theme, 'brand.500', 'Highlight')};
+    outline-offset: 2px;
+  }
+
+  &[aria-current='true'] {
+    border-radius: ${themeSpacing(theme, 'sm', '8px')};
+    background-color: ${themeColor(theme, 'brand.50', 'rgba(60, 60, 255, 0.08)')};
+  }
+`;
+
+/**
+ * Loading indicator shown over the edge a page is fetched at, so it does
+ * not move the items
+ */
+export const virtualizedListLoadingStyles = (theme?: any, edge: 'start' | 'end' = 'end') => css`
+  position: absolute;
+  left: 0;
+  right: 0;
+  ${edge === 'start' ? 'top: 0;' : 'bottom: 0;'}
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  padding: ${themeSpacing(theme, 'md', '16px')};
+  pointer-events: none;
+`;
@@ -0,0 +1,10 @@
+/**
+ * VirtualizedList styles barrel export
+ */
+
+export {
+  virtualizedListWrapperStyles,
+  virtualizedListViewportStyles,
+  virtualizedListItemStyles,
+  virtualizedListLoadingStyles
+} from './VirtualizedList.styles';
@@ -0,0 +1,151 @@
+/**
+ * VirtualizedList Layout Calculations
+ *
+ * Pure functions placing the items of a virtualized list. Items are laid out
+ * top to bottom from their measured heights, falling back to an estimate for
+ * items that have not been rendered yet.
+ *
+ * @author QuietSpace UI Library
+ * @version 1.0.0
+ */
+
+import { Key } from 'react';
+
+/**
+ * Where an item ends up in the viewport when the list scrolls to it
+ */
+export type ScrollAlignment = 'start' | 'center' | 'end' | 'auto';
+
+/**
+ * Range of item indexes to render, end exclusive
+ */
+export interface VisibleRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Compute the top offset of every item, plus the total height of the list as
+ * the last entry.
+ *
+ * @param keys - Keys of the items, in order
+ * @param heights - Measured heights by item key
+ * @param estimatedHeight - Height assumed for items not measured yet
+ * @param gap - Space between two items
+ * @returns Offsets, one more than there are items
+ */
+export const computeItemOffsets = (
+  keys: readonly Key[],
+  heights: ReadonlyMap<Key, number>,
+  estimatedHeight: number,
+  gap: number = 0
+): number[] => {
+  const offsets = new Array<number>(keys.length + 1);
+  offsets[0] = 0;
+  keys.forEach((key, index) => {
+    const spacing = index < keys.length - 1 ? gap : 0;
+    offsets[index + 1] = offsets[index]! + (heights.get(key) ?? estimatedHeight) + spacing;
+  });
+  return offsets;
+};
+
+/**
+ * Find the index of the item at a vertical position.
+ *
+ * @param offsets - Item offsets from computeItemOffsets
+ * @param position - Distance from the top of the list
+ * @returns Index of the item covering the position, clamped to the list
+ */
+export const findItemIndexAt = (offsets: readonly number[], position: number): number => {
+  const count = offsets.length - 1;
+  if (count <= 0) return 0;
+
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle]! <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+/**
+ * Find the items visible in the viewport, widened by a number of items on
+ * either side so short scrolls do not reveal blank space.
+ *
+ * @param offsets - Item offsets from computeItemOffsets
+ * @param scrollTop - Scroll position of the viewport
+ * @param viewportHeight - Height of the viewport
+ * @param overscan - Items to render beyond each edge of the viewport
+ * @returns Range of item indexes to render
+ */
+export const findVisibleRange = (
+  offsets: readonly number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number = 0
+): VisibleRange => {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: 0 };
+
+  const first = findItemIndexAt(offsets, scrollTop);
+  const last = findItemIndexAt(offsets, scrollTop + Math.max(viewportHeight, 1) - 1);
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(count, last + 1 + overscan)
+  };
+};
+
+/**
+ * Compute the scroll position that brings an item into view.
+ *
+ * @param offsets - Item offsets from computeItemOffsets
+ * @param index - Index of the item
+ * @param viewportHeight - Height of the viewport
+ * @param currentScrollTop - Scroll position now, kept by 'auto' if the item is already in view
+ * @param align - Where the item should end up
+ * @returns The scroll position, within the scrollable range
+ */
+export const getScrollTopForIndex = (
+  offsets: readonly number[],
+  index: number,
+  viewportHeight: number,
+  currentScrollTop: number,
+  align: ScrollAlignment = 'auto'
+): number => {
+  const count = offsets.length - 1;
+  if (count <= 0) return 0;
+
+  const clamped = Math.min(Math.max(index, 0), count - 1);
+  const top = offsets[clamped]!;
+  const bottom = offsets[clamped + 1]!;
+  const maxScrollTop = Math.max(0, offsets[count]! - viewportHeight);
+
+  let scrollTop: number;
+  switch (align) {
+    case 'start':
+      scrollTop = top;
+      break;
+    case 'end':
+      scrollTop = bottom - viewportHeight;
+      break;
+    case 'center':
+      scrollTop = top - (viewportHeight - (bottom - top)) / 2;
+      break;
+    default:
+      // Items taller than the viewport are shown from their top
+      if (top < currentScrollTop || bottom - top > viewportHeight) {
+        scrollTop = top;
+      } else if (bottom > currentScrollTop + viewportHeight) {
+        scrollTop = bottom - viewportHeight;
+      } else {
+        scrollTop = currentScrollTop;
+      }
+  }
+
+  return Math.min(Math.max(scrollTop, 0), maxScrollTop);
+};
@@ -10,6 +10,8 @@ export { default as BoxStyled } from './BoxStyled';
 export { FlexStyled } from './FlexStyled';
 export { default as DefaultContainer } from './DefaultContainer';
 export { default as InfinateScrollContainer } from './InfinateScrollContainer';
+export { VirtualizedList } from './VirtualizedList';
+export type { IVirtualizedListProps, IVirtualizedListHandle } from './VirtualizedList';
 export { Overlay } from './Overlay';
 export { OverlayWithStore } from './OverlayWithStore';
 export { Container } from './Container';
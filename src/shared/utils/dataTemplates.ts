@@ -39,6 +39,10 @@ export const getInitInfinitePagesObject = (pageSize: number, content: Array<any>
     }
 }
 
+export const READ_RECEIPTS_DESCRIPTION = (
+    "When read receipts are hidden, others in your chats see your messages as delivered but not when you read them. Your chats still keep track of what you have read"
+);
+
 export const PRIVACY_DESCRIPTION = (
     "When your account is public, your profile and posts can be seen by anyone, When your account is private, only your followers can see your content, including your followers and following lists. Your profile info, like your profile picture and username, is visible to everyone"
 );
\ No newline at end of file
@@ -0,0 +1,104 @@
+/**
+ * Image Utilities.
+ *
+ * Prepares images in the browser before they are uploaded. Drawing an image
+ * onto a canvas applies its EXIF orientation and re-encoding the canvas drops
+ * every metadata block (EXIF, GPS, XMP), so the uploaded file carries no
+ * location or camera details.
+ */
+
+/**
+ * An image ready for upload.
+ */
+export interface ProcessedImage {
+    /** The re-encoded image, without metadata */
+    file: File;
+    /** Small preview of the image */
+    thumbnail: Blob;
+    width: number;
+    height: number;
+}
+
+export interface ImageProcessingOptions {
+    /** Longest side of the uploaded image, in pixels */
+    maxDimension?: number;
+    /** Longest side of the thumbnail, in pixels */
+    thumbnailDimension?: number;
+    /** Encoder quality for lossy formats, from 0 to 1 */
+    quality?: number;
+}
+
+/**
+ * Computes the size that fits within a square of `maxDimension`, keeping the
+ * aspect ratio. Images are only ever scaled down.
+ *
+ * @param {number} width - The original width.
+ * @param {number} height - The original height.
+ * @param {number} maxDimension - The longest side allowed.
+ * @returns {{ width: number, height: number }} - The scaled size in whole pixels.
+ */
+export const fitWithin = (width: number, height: number, maxDimension: number): { width: number; height: number } => {
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+    return {
+        width: Math.max(1, Math.round(width * scale)),
+        height: Math.max(1, Math.round(height * scale))
+    };
+};
+
+const drawScaled = (image: ImageBitmap, maxDimension: number): HTMLCanvasElement => {
+    const { width, height } = fitWithin(image.width, image.height, maxDimension);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context is not available');
+    context.drawImage(image, 0, 0, width, height);
+    return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(
+            blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))),
+            type,
+            quality
+        );
+    });
+
+/**
+ * Resizes an image, strips its metadata and makes a thumbnail for it.
+ *
+ * PNG and WebP images keep their format, so transparency survives; other
+ * formats are re-encoded as JPEG. GIFs are uploaded unchanged to keep their
+ * animation, and get a thumbnail of their first frame.
+ *
+ * @param {File} file - The image picked by the user.
+ * @param {ImageProcessingOptions} [options] - Size and quality settings.
+ * @returns {Promise<ProcessedImage>} - The image to upload and its thumbnail.
+ */
+export const processImage = async (file: File, options: ImageProcessingOptions = {}): Promise<ProcessedImage> => {
+    const { maxDimension = 2048, thumbnailDimension = 320, quality = 0.85 } = options;
+    const image = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+    try {
+        const thumbnail = await canvasToBlob(drawScaled(image, thumbnailDimension), 'image/jpeg', quality);
+
+        if (file.type === 'image/gif') {
+            return { file, thumbnail, width: image.width, height: image.height };
+        }
+
+        const type = file.type === 'image/png' || file.type === 'image/webp' ? file.type : 'image/jpeg';
+        const canvas = drawScaled(image, maxDimension);
+        const blob = await canvasToBlob(canvas, type, quality);
+
+        return {
+            file: new File([blob], file.name, { type, lastModified: file.lastModified }),
+            thumbnail,
+            width: canvas.width,
+            height: canvas.height
+        };
+    } finally {
+        image.close();
+    }
+};
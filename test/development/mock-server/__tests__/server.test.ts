@@ -0,0 +1,237 @@
+/**
+ * @jest-environment-options {"customExportConditions": ["node", "node-addons"]}
+ */
+
+/**
+ * Mock Server Smoke Tests
+ *
+ * Starts the mock backend on a free port and checks what the app relies on:
+ * - Sign-in and bearer authentication of the REST API
+ * - Reading and sending chat messages over REST
+ * - The STOMP handshake and delivery to subscribers
+ * - The JSON protocol's numbered topics and resume / replay
+ */
+
+import { request } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from '@jest/globals';
+import WebSocket from 'ws';
+import type { RawData } from 'ws';
+
+import { SEED_PASSWORD } from '../../../../development/mock-server/fixtures.js';
+import { parseStompFrames, serializeStompFrame } from '../../../../development/mock-server/realtime.js';
+import { createMockServer } from '../../../../development/mock-server/server.js';
+
+interface Reply {
+    status: number;
+    body: any;
+}
+
+interface Page<T> {
+    content: T[];
+}
+
+const mockServer = createMockServer();
+let baseUrl = '';
+const sockets: WebSocket[] = [];
+
+/**
+ * Calls the mock server; the app's fetch is mocked in jsdom, so this goes through node:http
+ */
+const call = (method: string, path: string, { token, body }: { token?: string; body?: unknown } = {}): Promise<Reply> =>
+    new Promise((resolve, reject) => {
+        const payload = body === undefined ? undefined : JSON.stringify(body);
+        const outgoing = request(`${baseUrl}${path}`, {
+            method,
+            headers: {
+                ...(payload && { 'Content-Type': 'application/json' }),
+                ...(token && { Authorization: `Bearer ${token}` })
+            }
+        }, response => {
+            let text = '';
+            response.on('data', chunk => {
+                text += chunk;
+            });
+            response.on('end', () => resolve({ status: response.statusCode ?? 0, body: text ? JSON.parse(text) : null }));
+        });
+        outgoing.on('error', reject);
+        outgoing.end(payload);
+    });
+
+const signIn = async (username: string): Promise<{ userId: string; accessToken: string }> => {
+    const { status, body } = await call('POST', '/api/v1/auth/authenticate', {
+        body: { email: `${username}@quietspace.dev`, password: SEED_PASSWORD }
+    });
+    expect(status).toBe(200);
+    return body;
+};
+
+const firstChatOf = async (userId: string, token: string): Promise<{ id: string }> => {
+    const { body } = await call('GET', `/api/v1/chats/members/${userId}`, { token });
+    return (body as Page<{ id: string }>).content[0]!;
+};
+
+const openSocket = (query = ''): Promise<WebSocket> =>
+    new Promise((resolve, reject) => {
+        const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}/ws${query}`);
+        sockets.push(socket);
+        socket.once('open', () => resolve(socket));
+        socket.once('error', reject);
+    });
+
+/**
+ * Collects what the server sends, so a test can wait for the first message that matches
+ */
+const listen = (socket: WebSocket) => {
+    const received: string[] = [];
+    const waiting: { match: (data: string) => boolean; resolve: (data: string) => void }[] = [];
+    socket.on('message', (raw: RawData) => {
+        const data = raw.toString();
+        received.push(data);
+        waiting.filter(waiter => waiter.match(data)).forEach(waiter => waiter.resolve(data));
+    });
+
+    return {
+        received,
+        next: (match: (data: string) => boolean): Promise<string> => {
+            const earlier = received.find(match);
+            return earlier !== undefined
+                ? Promise.resolve(earlier)
+                : new Promise(resolve => waiting.push({ match, resolve }));
+        }
+    };
+};
+
+const closed = (socket: WebSocket): Promise<number> =>
+    new Promise(resolve => socket.once('close', (code: number) => resolve(code)));
+
+beforeAll(async () => {
+    await mockServer.listen(0, '127.0.0.1');
+    baseUrl = `http://127.0.0.1:${(mockServer.server.address() as AddressInfo).port}`;
+});
+
+afterEach(() => {
+    sockets.splice(0).forEach(socket => socket.terminate());
+    mockServer.reset();
+});
+
+afterAll(async () => {
+    await mockServer.close();
+});
+
+describe('mock server REST API', () => {
+    it('reports health without a token', async () => {
+        await expect(call('GET', '/__mock/health')).resolves.toEqual({ status: 200, body: { status: 'UP' } });
+    });
+
+    it('requires a bearer token outside the public routes', async () => {
+        const { status } = await call('GET', '/api/v1/users/profile');
+        expect(status).toBe(401);
+    });
+
+    it('signs a seeded user in and serves their profile', async () => {
+        const { accessToken } = await signIn('alice');
+
+        const { status, body } = await call('GET', '/api/v1/users/profile', { token: accessToken });
+
+        expect(status).toBe(200);
+        expect(body.username).toBe('alice');
+    });
+
+    it('rejects a wrong password', async () => {
+        const { status } = await call('POST', '/api/v1/auth/authenticate', {
+            body: { email: 'alice@quietspace.dev', password: 'not the password' }
+        });
+        expect(status).toBe(401);
+    });
+
+    it('stores a sent chat message and lists it with the chat', async () => {
+        const { userId, accessToken } = await signIn('alice');
+        const chat = await firstChatOf(userId, accessToken);
+
+        const sent = await call('POST', `/api/v1/chats/${chat.id}/messages`, { token: accessToken, body: { text: 'smoke test' } });
+        const { body } = await call('GET', `/api/v1/chats/${chat.id}/messages`, { token: accessToken });
+
+        expect(sent.status).toBe(200);
+        expect((body as Page<{ id: string }>).content.map(message => message.id)).toContain(sent.body.id);
+    });
+
+    it('answers unknown routes with a 404', async () => {
+        const { accessToken } = await signIn('alice');
+        const { status } = await call('GET', '/api/v1/nothing-here', { token: accessToken });
+        expect(status).toBe(404);
+    });
+});
+
+describe('mock server WebSocket', () => {
+    it('completes the STOMP handshake and delivers chat messages to subscribers', async () => {
+        const { userId, accessToken } = await signIn('alice');
+        const chat = await firstChatOf(userId, accessToken);
+        const socket = await openSocket();
+        const frames = listen(socket);
+
+        socket.send(serializeStompFrame('CONNECT', { 'accept-version': '1.2', Authorization: `Bearer ${accessToken}` }));
+        const [connected] = parseStompFrames(await frames.next(data => data.startsWith('CONNECTED')));
+        socket.send(serializeStompFrame('SUBSCRIBE', { id: 'sub-0', destination: `/topic/chat/${chat.id}`, receipt: 'subscribed' }));
+        await frames.next(data => data.startsWith('RECEIPT'));
+
+        await call('POST', `/api/v1/chats/${chat.id}/messages`, { token: accessToken, body: { text: 'over stomp' } });
+        const [message] = parseStompFrames(await frames.next(data => data.startsWith('MESSAGE')));
+
+        expect(connected!.headers['user-name']).toBe(userId);
+        expect(message!.headers.subscription).toBe('sub-0');
+        expect(JSON.parse(message!.body).text).toBe('over stomp');
+    });
+
+    it('refuses a STOMP CONNECT without a token', async () => {
+        const socket = await openSocket();
+        const frames = listen(socket);
+
+        socket.send(serializeStompFrame('CONNECT', { 'accept-version': '1.2' }));
+
+        const [error] = parseStompFrames(await frames.next(data => data.startsWith('ERROR')));
+        expect(error!.headers.message).toBe('Missing token');
+    });
+
+    it('closes a JSON connection with an invalid token', async () => {
+        const socket = new WebSocket(`${baseUrl.replace('http', 'ws')}/ws?token=invalid`);
+        sockets.push(socket);
+        await expect(closed(socket)).resolves.toBe(4401);
+    });
+
+    it('numbers chat messages per topic and replays what a client missed', async () => {
+        const { userId, accessToken } = await signIn('alice');
+        const chat = await firstChatOf(userId, accessToken);
+        const topic = `chat:${chat.id}`;
+        const live = listen(await openSocket(`?token=${accessToken}`));
+
+        await call('POST', `/api/v1/chats/${chat.id}/messages`, { token: accessToken, body: { text: 'first' } });
+        await call('POST', `/api/v1/chats/${chat.id}/messages`, { token: accessToken, body: { text: 'second' } });
+        const second = JSON.parse(await live.next(data => JSON.parse(data).payload?.text === 'second'));
+
+        const returning = await openSocket(`?token=${accessToken}`);
+        const replayed = listen(returning);
+        returning.send(JSON.stringify({ type: 'resume', payload: { subscriptions: [{ topic, lastSequence: second.sequence - 1 }] } }));
+        const missed = JSON.parse(await replayed.next(data => JSON.parse(data).topic === topic));
+
+        expect(second).toMatchObject({ type: 'message', topic });
+        expect(missed).toMatchObject({ topic, sequence: second.sequence, payload: { text: 'second' } });
+    });
+
+    it('asks for a resync once the topic log no longer reaches back far enough', async () => {
+        const { userId, accessToken } = await signIn('alice');
+        const chat = await firstChatOf(userId, accessToken);
+        const topic = `chat:${chat.id}`;
+        for (let index = 0; index < 201; index++) {
+            await call('POST', `/api/v1/chats/${chat.id}/messages`, { token: accessToken, body: { text: `message ${index}` } });
+        }
+
+        const socket = await openSocket(`?token=${accessToken}`);
+        const messages = listen(socket);
+        socket.send(JSON.stringify({ type: 'replay', payload: { topic, lastSequence: 0 } }));
+
+        const reply = JSON.parse(await messages.next(data => JSON.parse(data).type === 'resync_required'));
+        expect(reply.payload).toEqual({ topic });
+    });
+});